@@ -0,0 +1,186 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { nanoid } from 'nanoid';
+import { Event, EventReview, SeriesEditScope } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import {
+  getEvent,
+  getSeriesOccurrences,
+  recordEventReviewDecision,
+} from '../../../shared/utils/dynamodb.utils';
+import {
+  publishEventPublished,
+  publishEventReviewed,
+} from '../../../shared/utils/eventbridge.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+
+/**
+ * Lambda handler for approveEvent mutation
+ * Transitions event from PENDING_APPROVAL to PUBLISHED (administrators only)
+ * For occurrences of a series, scope approves the other upcoming occurrences awaiting review as well
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string; comment?: string; scope?: SeriesEditScope }>,
+  context: Context
+): Promise<Event> {
+  console.log('ApproveEvent handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.id,
+  });
+
+  try {
+    const { id: eventId, comment } = event.arguments;
+
+    // 1. Get user ID and verify admin role
+    const userId = getUserIdFromIdentity(event.identity);
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only administrators can approve events',
+        })
+      );
+    }
+
+    // 2. Get existing event
+    const existingEvent = await getEvent(eventId);
+
+    if (!existingEvent) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Event not found',
+        })
+      );
+    }
+
+    // 3. Validate current status
+    if (existingEvent.status !== EventStatus.PENDING_APPROVAL) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Only events awaiting review can be approved',
+        })
+      );
+    }
+
+    // 4. Validate event is in the future
+    if (new Date(existingEvent.startDateTime) <= new Date()) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Cannot approve an event that has already started or passed',
+        })
+      );
+    }
+
+    // 5. Select the occurrences to approve
+    const scope = event.arguments.scope || SeriesEditScope.THIS_OCCURRENCE;
+    const now = new Date();
+    let targets: Event[] = [existingEvent];
+
+    if (existingEvent.seriesId && scope !== SeriesEditScope.THIS_OCCURRENCE) {
+      const occurrences = await getSeriesOccurrences(existingEvent.seriesId);
+      const currentIndex = existingEvent.occurrenceIndex ?? 0;
+
+      targets = occurrences.filter(
+        (occurrence) =>
+          occurrence.id === eventId ||
+          ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+            (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+            occurrence.status === EventStatus.PENDING_APPROVAL &&
+            new Date(occurrence.startDateTime) > now)
+      );
+    }
+
+    let approvedEvent: Event | undefined;
+    let decision: EventReview | undefined;
+
+    for (const target of targets) {
+      // 6. Publish the event and record the decision
+      const review: EventReview = {
+        id: `rev_${nanoid(16)}`,
+        eventId: target.id,
+        action: 'APPROVED',
+        actorId: userId,
+        comment: comment?.trim() || undefined,
+        previousStatus: target.status,
+        newStatus: EventStatus.PUBLISHED,
+        createdAt: new Date().toISOString(),
+      };
+
+      let decided: Event;
+      try {
+        decided = await recordEventReviewDecision(target, review);
+      } catch (error: any) {
+        if (error.name === 'TransactionCanceledException') {
+          throw new Error(
+            JSON.stringify({
+              type: 'BUSINESS_RULE_ERROR',
+              message: 'Event has already been reviewed or was edited since it was loaded. Please reload and try again.',
+            })
+          );
+        }
+        throw error;
+      }
+
+      // 7. Publish domain event
+      await publishEventPublished(decided);
+
+      if (target.id === eventId) {
+        approvedEvent = decided;
+        decision = review;
+      }
+    }
+
+    if (!approvedEvent || !decision) {
+      throw new Error('Failed to approve event');
+    }
+
+    // 8. Notify the organizer once, not once per occurrence
+    try {
+      await publishEventReviewed(approvedEvent, decision);
+    } catch (error) {
+      // The approval stands even if the notification could not be sent
+      console.error('Failed to send approval notification:', error);
+    }
+
+    console.log('Event approved', {
+      eventId,
+      reviewerId: userId,
+      occurrencesApproved: targets.length,
+    });
+
+    return approvedEvent;
+  } catch (error) {
+    console.error('Error approving event:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
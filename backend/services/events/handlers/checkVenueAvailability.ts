@@ -0,0 +1,87 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { VenueAvailability } from '../../../shared/types/event.types';
+import { getVenueAvailability } from '../../../shared/utils/venue.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+import { CheckVenueAvailabilitySchema, validateInput } from '../validators/event.validator';
+
+interface CheckVenueAvailabilityArgs {
+  building: string;
+  room: string;
+  startDateTime: string;
+  endDateTime: string;
+  excludeEventId?: string;
+}
+
+/**
+ * Lambda handler for checkVenueAvailability query
+ * Reports whether a room is free, which events hold it and the nearest free slots
+ */
+export async function handler(
+  event: AppSyncResolverEvent<CheckVenueAvailabilityArgs>,
+  context: Context
+): Promise<VenueAvailability> {
+  console.log('CheckVenueAvailability handler invoked', {
+    requestId: context.awsRequestId,
+    building: event.arguments.building,
+    room: event.arguments.room,
+  });
+
+  try {
+    // 1. Validate input
+    const validationResult = validateInput(CheckVenueAvailabilitySchema, event.arguments);
+
+    if (!validationResult.success) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          errors: validationResult.errors,
+        })
+      );
+    }
+
+    const { building, room, startDateTime, endDateTime, excludeEventId } = validationResult.data;
+
+    // 2. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    // 3. Check the room
+    return await getVenueAvailability(
+      building,
+      room,
+      startDateTime,
+      endDateTime,
+      { userId, isAdmin },
+      excludeEventId
+    );
+  } catch (error) {
+    console.error('Error checking venue availability:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
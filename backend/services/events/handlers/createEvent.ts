@@ -1,31 +1,50 @@
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
-import { CreateEventInput, Event } from '../../../shared/types/event.types';
-import { EventStatus } from '../../../shared/types/common';
+import { CreateEventInput, Event, EventSeries } from '../../../shared/types/event.types';
+import { EventStatus, PromotionExpiryPolicy } from '../../../shared/types/common';
 import {
   CreateEventSchema,
   validateInput,
+  getApprovalRequirement,
+  validateOccurrences,
 } from '../validators/event.validator';
 import {
   generateEventId,
+  generateSeriesId,
   putEvent,
+  putEventSeries,
   createVenueBooking,
-  checkVenueConflict,
   createSlugLookup,
 } from '../../../shared/utils/dynamodb.utils';
+import {
+  expandRecurrence,
+  toRRuleString,
+  toLocalDateKey,
+} from '../../../shared/utils/recurrence.utils';
+import {
+  getVenueAvailability,
+  formatVenueConflictMessage,
+} from '../../../shared/utils/venue.utils';
 import { publishEventCreated } from '../../../shared/utils/eventbridge.utils';
-import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
 import {
   generateSlug,
+  generateOccurrenceSlug,
   generateShareableUrl,
   generateSearchTerms,
   generateLocationPK,
   generateLocationSK,
   calculateAvailableSeats,
 } from '../../../shared/utils/slug.utils';
+import { generateGeoPK, generateGeoSK } from '../../../shared/utils/geo.utils';
 
 /**
  * Lambda handler for createEvent mutation
  * Creates a new event with validation and conflict detection
+ * When a recurrence rule is given, creates a series with one event per occurrence
+ * and returns the first occurrence
  */
 export async function handler(
   event: AppSyncResolverEvent<{ input: CreateEventInput }>,
@@ -62,103 +81,135 @@ export async function handler(
       );
     }
 
-    // 3. Check for venue conflicts
+    // 3. Expand recurrence into occurrence start times
+    const durationMs =
+      new Date(input.endDateTime).getTime() - new Date(input.startDateTime).getTime();
+    const occurrenceStarts = input.recurrence
+      ? expandRecurrence(input.startDateTime, input.recurrence)
+      : [input.startDateTime];
+
+    if (input.recurrence) {
+      const occurrenceCheck = validateOccurrences(occurrenceStarts, durationMs);
+
+      if (!occurrenceCheck.valid) {
+        throw new Error(
+          JSON.stringify({
+            type: 'VALIDATION_ERROR',
+            errors: [{ field: 'recurrence', message: occurrenceCheck.message }],
+          })
+        );
+      }
+    }
+
+    const occurrences = occurrenceStarts.map((start) => ({
+      startDateTime: start,
+      endDateTime: new Date(new Date(start).getTime() + durationMs).toISOString(),
+    }));
+
+    // 4. Check for venue conflicts (every occurrence must be free)
     if (input.location.building && input.location.room) {
-      const hasConflict = await checkVenueConflict(
-        input.location.building,
-        input.location.room || '',
-        input.startDateTime,
-        input.endDateTime
-      );
+      const userGroups = getUserGroupsFromIdentity(event.identity);
+      const viewer = {
+        userId,
+        isAdmin: userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN'),
+      };
+      const conflictingDates: string[] = [];
+
+      for (const occurrence of occurrences) {
+        const availability = await getVenueAvailability(
+          input.location.building,
+          input.location.room,
+          occurrence.startDateTime,
+          occurrence.endDateTime,
+          viewer
+        );
+
+        if (availability.available) {
+          continue;
+        }
+
+        if (!input.recurrence) {
+          throw new Error(
+            JSON.stringify({
+              type: 'BUSINESS_RULE_ERROR',
+              message: formatVenueConflictMessage(availability),
+              conflicts: availability.conflicts,
+              suggestedSlots: availability.suggestedSlots,
+            })
+          );
+        }
+
+        const clashes = availability.conflicts
+          .map((conflict) => (conflict.title ? `"${conflict.title}"` : 'another event'))
+          .join(', ');
+        conflictingDates.push(`${toLocalDateKey(new Date(occurrence.startDateTime))} (${clashes})`);
+      }
 
-      if (hasConflict) {
+      if (conflictingDates.length > 0) {
         throw new Error(
           JSON.stringify({
             type: 'BUSINESS_RULE_ERROR',
-            message: `Venue ${input.location.building} ${input.location.room || ''} is not available during the requested time`,
+            message: `Venue ${input.location.building} ${input.location.room} is already booked on ${conflictingDates.join(', ')}`,
           })
         );
       }
     }
 
-    // 4. Create event object
-    const eventId = generateEventId();
+    // 5. Create event objects
     const timestamp = new Date().toISOString();
+    const seriesId = input.recurrence ? generateSeriesId() : undefined;
 
-    // Week 7: Generate search and discovery fields
-    const slug = generateSlug(input.title, input.startDateTime);
-    const shareableUrl = generateShareableUrl(slug);
-    const searchTerms = generateSearchTerms({
-      title: input.title,
-      description: input.description,
-      location: input.location,
-      tags: input.tags || [],
-    });
-    const GSI3PK = generateLocationPK(input.location.building);
-    const GSI3SK = generateLocationSK(input.location.room, eventId);
-    const availableSeats = calculateAvailableSeats(input.capacity, 0);
-
-    const newEvent: Event = {
-      // DynamoDB keys
-      PK: `EVENT#${eventId}`,
-      SK: 'METADATA',
-      GSI1PK: `EVENT#DATE`,
-      GSI1SK: input.startDateTime,
-      GSI2PK: `EVENT#CATEGORY#${input.category}`,
-      GSI2SK: input.startDateTime,
-      GSI3PK, // Week 7: Location-based queries
-      GSI3SK, // Week 7: Location-based queries
-      // Domain fields
-      id: eventId,
-      title: input.title,
-      description: input.description,
-      startDateTime: input.startDateTime,
-      endDateTime: input.endDateTime,
-      location: input.location,
-      category: input.category,
-      capacity: input.capacity,
-      registeredCount: 0,
-      waitlistCount: 0,
-      organizerId: userId,
-      status: EventStatus.DRAFT,
-      tags: input.tags || [],
-      imageUrl: input.imageUrl,
-      version: 1,
-      // Week 7: Search and discovery fields
-      slug,
-      shareableUrl,
-      searchTerms,
-      availableSeats,
-      waitlistAvailable: false, // No waitlist needed when event is empty
-      createdAt: timestamp,
-      updatedAt: timestamp,
-    };
-
-    // 5. Save event to DynamoDB
-    const savedEvent = await putEvent(newEvent);
-
-    // 5.5. Week 7: Create slug lookup item
-    if (slug) {
-      await createSlugLookup(slug, eventId);
-    }
+    const newEvents = occurrences.map((occurrence, index) =>
+      buildEvent(input, userId, occurrence.startDateTime, occurrence.endDateTime, timestamp, seriesId, index)
+    );
 
-    // 6. Create venue booking
-    if (input.location.building && input.location.room) {
-      await createVenueBooking(
-        eventId,
-        input.location.building,
-        input.location.room,
-        input.startDateTime,
-        input.endDateTime
-      );
+    // 6. Save event(s) to DynamoDB
+    let savedEvent: Event;
+
+    if (input.recurrence && seriesId) {
+      const series: EventSeries = {
+        id: seriesId,
+        organizerId: userId,
+        title: input.title,
+        recurrence: input.recurrence,
+        rrule: toRRuleString(input.recurrence),
+        occurrenceCount: newEvents.length,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      await putEventSeries(series, newEvents);
+      savedEvent = newEvents[0];
+    } else {
+      savedEvent = await putEvent(newEvents[0]);
     }
 
-    // 7. Publish domain event
-    await publishEventCreated(savedEvent);
+    for (const newEvent of newEvents) {
+      // 6.5. Week 7: Create slug lookup item
+      if (newEvent.slug) {
+        await createSlugLookup(newEvent.slug, newEvent.id);
+      }
+
+      // 7. Create venue booking
+      if (input.location.building && input.location.room) {
+        await createVenueBooking(
+          newEvent.id,
+          input.location.building,
+          input.location.room,
+          newEvent.startDateTime,
+          newEvent.endDateTime
+        );
+      }
+
+      // 8. Publish domain event
+      await publishEventCreated(newEvent);
+    }
 
     console.log('Event created successfully', {
       eventId: savedEvent.id,
       title: savedEvent.title,
+      seriesId,
+      occurrences: newEvents.length,
     });
 
     return savedEvent;
@@ -179,3 +230,76 @@ export async function handler(
     throw error;
   }
 }
+
+/**
+ * Build a DRAFT event for one occurrence
+ */
+function buildEvent(
+  input: CreateEventInput,
+  userId: string,
+  startDateTime: string,
+  endDateTime: string,
+  timestamp: string,
+  seriesId?: string,
+  occurrenceIndex?: number
+): Event {
+  const eventId = generateEventId();
+
+  // Week 7: Generate search and discovery fields
+  const slug = seriesId
+    ? generateOccurrenceSlug(input.title, startDateTime)
+    : generateSlug(input.title, startDateTime);
+  const shareableUrl = generateShareableUrl(slug);
+  const searchTerms = generateSearchTerms({
+    title: input.title,
+    description: input.description,
+    location: input.location,
+    tags: input.tags || [],
+  });
+  const GSI3PK = generateLocationPK(input.location.building);
+  const GSI3SK = generateLocationSK(input.location.room, eventId);
+  const coordinates = input.location.coordinates;
+  const availableSeats = calculateAvailableSeats(input.capacity, 0);
+
+  return {
+    // DynamoDB keys
+    PK: `EVENT#${eventId}`,
+    SK: 'METADATA',
+    GSI1PK: `EVENT#DATE`,
+    GSI1SK: startDateTime,
+    GSI2PK: `EVENT#CATEGORY#${input.category}`,
+    GSI2SK: startDateTime,
+    GSI3PK, // Week 7: Location-based queries
+    GSI3SK, // Week 7: Location-based queries
+    GSI4PK: coordinates ? generateGeoPK(coordinates) : undefined, // Radius queries
+    GSI4SK: coordinates ? generateGeoSK(coordinates, eventId) : undefined,
+    // Domain fields
+    id: eventId,
+    title: input.title,
+    description: input.description,
+    startDateTime,
+    endDateTime,
+    location: input.location,
+    category: input.category,
+    capacity: input.capacity,
+    registeredCount: 0,
+    waitlistCount: 0,
+    organizerId: userId,
+    status: EventStatus.DRAFT,
+    tags: input.tags || [],
+    imageUrl: input.imageUrl,
+    version: 1,
+    promotionExpiryPolicy: input.promotionExpiryPolicy || PromotionExpiryPolicy.CANCEL,
+    requiresApproval: getApprovalRequirement(input.category, input.capacity).required,
+    seriesId,
+    occurrenceIndex: seriesId ? occurrenceIndex : undefined,
+    // Week 7: Search and discovery fields
+    slug,
+    shareableUrl,
+    searchTerms,
+    availableSeats,
+    waitlistAvailable: false, // No waitlist needed when event is empty
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
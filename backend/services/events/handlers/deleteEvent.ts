@@ -1,7 +1,12 @@
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
-import { Event } from '../../../shared/types/event.types';
+import { Event, SeriesEditScope } from '../../../shared/types/event.types';
 import { canCancelEvent } from '../validators/event.validator';
-import { getEvent, deleteEvent } from '../../../shared/utils/dynamodb.utils';
+import {
+  getEvent,
+  getSeriesOccurrences,
+  deleteEvent,
+  cancelVenueBooking,
+} from '../../../shared/utils/dynamodb.utils';
 import { publishEventCancelled } from '../../../shared/utils/eventbridge.utils';
 import { EventStatus } from '../../../shared/types/common';
 import {
@@ -12,11 +17,13 @@ import {
 interface DeleteEventArgs {
   id: string;
   reason?: string;
+  scope?: SeriesEditScope;
 }
 
 /**
  * Lambda handler for deleteEvent mutation
  * Soft deletes an event by setting status to CANCELLED
+ * For occurrences of a series, scope selects this occurrence, this and following, or the whole series
  */
 export async function handler(
   event: AppSyncResolverEvent<DeleteEventArgs>,
@@ -85,23 +92,59 @@ export async function handler(
       );
     }
 
-    // 4. Soft delete event (set status to CANCELLED)
-    await deleteEvent(eventId);
+    // 4. Select the occurrences to cancel
+    const scope = event.arguments.scope || SeriesEditScope.THIS_OCCURRENCE;
+    let targets: Event[] = [currentEvent];
+
+    if (currentEvent.seriesId && scope !== SeriesEditScope.THIS_OCCURRENCE) {
+      const occurrences = await getSeriesOccurrences(currentEvent.seriesId);
+      const currentIndex = currentEvent.occurrenceIndex ?? 0;
+
+      targets = occurrences.filter(
+        (occurrence) =>
+          occurrence.id === eventId ||
+          ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+            (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+            // Occurrences that are past, about to start or already closed are left as they are
+            canCancelEvent(occurrence.status, occurrence.startDateTime).valid)
+      );
+    }
+
+    let cancelledEvent: Event | undefined;
+
+    for (const target of targets) {
+      // 5. Soft delete event (set status to CANCELLED)
+      await deleteEvent(target.id);
+
+      // Free the room for other events
+      if (target.location.building && target.location.room) {
+        await cancelVenueBooking(target.location.building, target.location.room, target.startDateTime);
+      }
+
+      // 6. Create cancelled event object for return
+      const cancelled: Event = {
+        ...target,
+        status: EventStatus.CANCELLED,
+        updatedAt: new Date().toISOString(),
+      };
+
+      // 7. Publish domain event
+      await publishEventCancelled(cancelled, reason);
 
-    // 5. Create cancelled event object for return
-    const cancelledEvent: Event = {
-      ...currentEvent,
-      status: EventStatus.CANCELLED,
-      updatedAt: new Date().toISOString(),
-    };
+      if (target.id === eventId) {
+        cancelledEvent = cancelled;
+      }
+    }
 
-    // 6. Publish domain event
-    await publishEventCancelled(cancelledEvent, reason);
+    if (!cancelledEvent) {
+      throw new Error('Failed to cancel event');
+    }
 
     console.log('Event cancelled successfully', {
       eventId: cancelledEvent.id,
       title: cancelledEvent.title,
       registeredCount: cancelledEvent.registeredCount,
+      occurrencesCancelled: targets.length,
     });
 
     return cancelledEvent;
@@ -0,0 +1,81 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { EventReview } from '../../../shared/types/event.types';
+import { getEvent, getEventReviews } from '../../../shared/utils/dynamodb.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+
+/**
+ * Lambda handler for getEventReviewHistory query
+ * Returns the approval audit trail for an event (organizer or administrators)
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string }>,
+  context: Context
+): Promise<EventReview[]> {
+  console.log('GetEventReviewHistory handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Get existing event
+    const existingEvent = await getEvent(eventId);
+
+    if (!existingEvent) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Event not found',
+        })
+      );
+    }
+
+    // 3. Authorization check
+    const isOrganizer = existingEvent.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only event organizer or administrators can view the review history',
+        })
+      );
+    }
+
+    // 4. Load the audit trail
+    return await getEventReviews(eventId);
+  } catch (error) {
+    console.error('Error getting event review history:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
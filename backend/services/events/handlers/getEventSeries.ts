@@ -0,0 +1,76 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { Event, EventSeries } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import { getEventSeries, getSeriesOccurrences } from '../../../shared/utils/dynamodb.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+
+/**
+ * Lambda handler for getEventSeries query
+ * Returns a recurring series with its occurrences in series order
+ * Only the organizer and administrators see occurrences that are not public yet
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string }>,
+  context: Context
+): Promise<(EventSeries & { occurrences: Event[] }) | null> {
+  console.log('GetEventSeries handler invoked', {
+    requestId: context.awsRequestId,
+    seriesId: event.arguments.id,
+  });
+
+  try {
+    const seriesId = event.arguments.id;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Get series
+    const series = await getEventSeries(seriesId);
+
+    if (!series) {
+      return null;
+    }
+
+    // 3. Load occurrences, hiding drafts from everyone but the organizer and administrators
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+    const canSeeDrafts = isAdmin || series.organizerId === userId;
+
+    const occurrences = (await getSeriesOccurrences(seriesId)).filter(
+      (occurrence) =>
+        canSeeDrafts ||
+        occurrence.status === EventStatus.PUBLISHED ||
+        occurrence.status === EventStatus.COMPLETED ||
+        occurrence.status === EventStatus.CANCELLED
+    );
+
+    return { ...series, occurrences };
+  } catch (error) {
+    console.error('Error getting event series:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,70 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { ApprovalQueueConnection } from '../../../shared/types/event.types';
+import { listPendingApprovals } from '../../../shared/utils/dynamodb.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Lambda handler for listPendingApprovals query
+ * Returns the admin review queue, oldest submission first
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ limit?: number; nextToken?: string }>,
+  context: Context
+): Promise<ApprovalQueueConnection> {
+  console.log('ListPendingApprovals handler invoked', {
+    requestId: context.awsRequestId,
+    arguments: event.arguments,
+  });
+
+  try {
+    // 1. Get user ID and verify admin role
+    const userId = getUserIdFromIdentity(event.identity);
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only administrators can view the review queue',
+        })
+      );
+    }
+
+    // 2. Query the queue
+    const limit = Math.min(Math.max(event.arguments.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    return await listPendingApprovals(limit, event.arguments.nextToken);
+  } catch (error) {
+    console.error('Error listing pending approvals:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { VenueBookingSlot } from '../../../shared/types/event.types';
+import { listBuildingBookings, listRoomBookings } from '../../../shared/utils/dynamodb.utils';
+import { describeBookings } from '../../../shared/utils/venue.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+import { ListVenueBookingsSchema, validateInput } from '../validators/event.validator';
+
+interface ListVenueBookingsArgs {
+  building: string;
+  room?: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Lambda handler for listVenueBookings query
+ * Lists booked time in a building (or one of its rooms) over a date range, ordered by start time
+ */
+export async function handler(
+  event: AppSyncResolverEvent<ListVenueBookingsArgs>,
+  context: Context
+): Promise<VenueBookingSlot[]> {
+  console.log('ListVenueBookings handler invoked', {
+    requestId: context.awsRequestId,
+    building: event.arguments.building,
+    room: event.arguments.room,
+  });
+
+  try {
+    // 1. Validate input
+    const validationResult = validateInput(ListVenueBookingsSchema, event.arguments);
+
+    if (!validationResult.success) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          errors: validationResult.errors,
+        })
+      );
+    }
+
+    const { building, room, startDate, endDate } = validationResult.data;
+
+    // 2. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    // 3. Load bookings for the room, or every room in the building
+    const bookings = room
+      ? await listRoomBookings(building, room, startDate, endDate)
+      : await listBuildingBookings(building, startDate, endDate);
+
+    // 4. Attach event titles
+    return await describeBookings(bookings, { userId, isAdmin });
+  } catch (error) {
+    console.error('Error listing venue bookings:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
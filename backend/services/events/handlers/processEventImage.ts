@@ -0,0 +1,116 @@
+import { S3Event } from 'aws-lambda';
+import { Event, SeriesEditScope } from '../../../shared/types/event.types';
+import {
+  getEvent,
+  getSeriesOccurrences,
+  setEventImage,
+} from '../../../shared/utils/dynamodb.utils';
+import {
+  parseImageUploadKey,
+  getUploadedImage,
+  deleteUploadedImage,
+  validateImage,
+  createImageVariants,
+} from '../../../shared/utils/image.utils';
+import { publishEventUpdated } from '../../../shared/utils/eventbridge.utils';
+import { canEditEvent } from '../validators/event.validator';
+
+/**
+ * Lambda handler for event image uploads (S3 ObjectCreated on uploads/events/)
+ * Validates the upload, strips its metadata, writes the thumbnail and hero
+ * variants and attaches them to the event (and the chosen series occurrences)
+ * Invalid uploads are deleted and the event keeps its current image
+ */
+export async function handler(event: S3Event): Promise<void> {
+  for (const record of event.Records) {
+    // S3 event keys are URL encoded with + for spaces
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+    const upload = parseImageUploadKey(key);
+
+    if (!upload) {
+      console.warn('Ignoring object outside the event upload prefix', { key });
+      continue;
+    }
+
+    console.log('ProcessEventImage handler invoked', { key, size: record.s3.object.size });
+
+    try {
+      await processUpload(key, upload.eventId, upload.uploadId);
+    } catch (error) {
+      console.error('Error processing event image:', error);
+      // Rethrow so the S3 invocation is retried
+      throw error;
+    }
+  }
+}
+
+async function processUpload(key: string, eventId: string, uploadId: string): Promise<void> {
+  // 1. Find the event
+  const currentEvent = await getEvent(eventId);
+
+  if (!currentEvent) {
+    console.warn('Event no longer exists, discarding image', { eventId, key });
+    await deleteUploadedImage(key);
+    return;
+  }
+
+  // 2. Validate the file itself
+  const image = await getUploadedImage(key);
+  const validation = await validateImage(image.body);
+
+  if (!validation.valid) {
+    console.warn('Rejected event image upload', { eventId, key, reason: validation.message });
+    await deleteUploadedImage(key);
+    return;
+  }
+
+  // 3. Write the variants
+  const variants = await createImageVariants(eventId, uploadId, image.body);
+
+  // 4. Attach them to the event and the selected occurrences
+  const targets = await getImageTargets(currentEvent, image.scope);
+
+  for (const target of targets) {
+    const updatedEvent = await setEventImage(target.id, variants);
+
+    if (updatedEvent) {
+      // Keeps the search index (and its cards) in step with the new image
+      await publishEventUpdated(updatedEvent, {
+        imageUrl: updatedEvent.imageUrl,
+        imageVariants: updatedEvent.imageVariants,
+      });
+    }
+  }
+
+  // 5. The original may carry EXIF data, so it is not kept
+  await deleteUploadedImage(key);
+
+  console.log('Event image processed', {
+    eventId,
+    uploadedBy: image.uploadedBy,
+    eventsUpdated: targets.length,
+    hero: variants.hero,
+  });
+}
+
+/**
+ * Events that get the image: the event itself, plus the following or all
+ * occurrences of its series when the upload asked for it
+ */
+async function getImageTargets(currentEvent: Event, scope?: SeriesEditScope): Promise<Event[]> {
+  if (!currentEvent.seriesId || !scope || scope === SeriesEditScope.THIS_OCCURRENCE) {
+    return [currentEvent];
+  }
+
+  const occurrences = await getSeriesOccurrences(currentEvent.seriesId);
+  const currentIndex = currentEvent.occurrenceIndex ?? 0;
+
+  return occurrences.filter(
+    (occurrence) =>
+      occurrence.id === currentEvent.id ||
+      ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+        (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+        // Occurrences that already started, were cancelled or completed are left as they are
+        canEditEvent(occurrence.status, occurrence.startDateTime).valid)
+  );
+}
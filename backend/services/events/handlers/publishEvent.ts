@@ -1,8 +1,13 @@
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
-import { Event } from '../../../shared/types/event.types';
+import { Event, SeriesEditScope } from '../../../shared/types/event.types';
 import { EventStatus } from '../../../shared/types/common';
-import { getEvent, updateEventStatus } from '../../../shared/utils/dynamodb.utils';
+import {
+  getEvent,
+  getSeriesOccurrences,
+  updateEventStatus,
+} from '../../../shared/utils/dynamodb.utils';
 import { publishEventPublished } from '../../../shared/utils/eventbridge.utils';
+import { getApprovalRequirement } from '../validators/event.validator';
 import {
   getUserIdFromIdentity,
   getUserGroupsFromIdentity,
@@ -10,10 +15,13 @@ import {
 
 /**
  * Lambda handler for publishEvent mutation
- * Transitions event from DRAFT or PENDING_APPROVAL to PUBLISHED
+ * Transitions event from DRAFT to PUBLISHED
+ * Organizers can only publish directly when no approval rule applies;
+ * otherwise the event must go through submitEventForApproval / approveEvent
+ * For occurrences of a series, scope publishes the other upcoming DRAFT occurrences as well
  */
 export async function handler(
-  event: AppSyncResolverEvent<{ id: string }>,
+  event: AppSyncResolverEvent<{ id: string; scope?: SeriesEditScope }>,
   context: Context
 ): Promise<Event> {
   console.log('PublishEvent handler invoked', {
@@ -90,7 +98,30 @@ export async function handler(
       );
     }
 
-    // 5. Validate event is in the future
+    if (existingEvent.status === EventStatus.PENDING_APPROVAL) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Event is awaiting review and can only be published by approving it',
+        })
+      );
+    }
+
+    // 5. Check approval rules (administrators may publish directly)
+    if (!isAdmin) {
+      const approval = getApprovalRequirement(existingEvent.category, existingEvent.capacity);
+
+      if (approval.required) {
+        throw new Error(
+          JSON.stringify({
+            type: 'APPROVAL_REQUIRED',
+            message: `Event must be approved before publishing: ${approval.reasons.join('; ')}`,
+          })
+        );
+      }
+    }
+
+    // 6. Validate event is in the future
     const now = new Date();
     const startDate = new Date(existingEvent.startDateTime);
 
@@ -103,17 +134,50 @@ export async function handler(
       );
     }
 
-    // 6. Update event status to PUBLISHED
-    const publishedEvent = await updateEventStatus(eventId, EventStatus.PUBLISHED);
+    // 7. Select the occurrences to publish
+    const scope = event.arguments.scope || SeriesEditScope.THIS_OCCURRENCE;
+    let targets: Event[] = [existingEvent];
+
+    if (existingEvent.seriesId && scope !== SeriesEditScope.THIS_OCCURRENCE) {
+      const occurrences = await getSeriesOccurrences(existingEvent.seriesId);
+      const currentIndex = existingEvent.occurrenceIndex ?? 0;
+
+      targets = occurrences.filter(
+        (occurrence) =>
+          occurrence.id === eventId ||
+          ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+            (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+            occurrence.status === EventStatus.DRAFT &&
+            new Date(occurrence.startDateTime) > now &&
+            // Occurrences edited into an approval rule still need review
+            (isAdmin || !getApprovalRequirement(occurrence.category, occurrence.capacity).required))
+      );
+    }
+
+    let publishedEvent: Event | undefined;
+
+    for (const target of targets) {
+      // 8. Update event status to PUBLISHED
+      const published = await updateEventStatus(target.id, EventStatus.PUBLISHED);
 
-    // 7. Publish domain event
-    await publishEventPublished(publishedEvent);
+      // 9. Publish domain event
+      await publishEventPublished(published);
+
+      if (target.id === eventId) {
+        publishedEvent = published;
+      }
+    }
+
+    if (!publishedEvent) {
+      throw new Error('Failed to publish event');
+    }
 
     console.log('Event published successfully', {
       eventId: publishedEvent.id,
       title: publishedEvent.title,
       previousStatus: existingEvent.status,
       newStatus: publishedEvent.status,
+      occurrencesPublished: targets.length,
     });
 
     return publishedEvent;
@@ -0,0 +1,181 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { nanoid } from 'nanoid';
+import { Event, EventReview, SeriesEditScope } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import {
+  getEvent,
+  getSeriesOccurrences,
+  recordEventReviewDecision,
+} from '../../../shared/utils/dynamodb.utils';
+import { publishEventReviewed } from '../../../shared/utils/eventbridge.utils';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+import { RejectEventSchema, validateInput } from '../validators/event.validator';
+
+/**
+ * Lambda handler for rejectEvent mutation
+ * Returns a PENDING_APPROVAL event to DRAFT with the reviewer's reason (administrators only)
+ * For occurrences of a series, scope rejects the other occurrences awaiting review as well
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string; reason: string; scope?: SeriesEditScope }>,
+  context: Context
+): Promise<Event> {
+  console.log('RejectEvent handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.id,
+  });
+
+  try {
+    // 1. Validate input
+    const validationResult = validateInput(RejectEventSchema, event.arguments);
+
+    if (!validationResult.success) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          errors: validationResult.errors,
+        })
+      );
+    }
+
+    const { id: eventId, reason } = validationResult.data;
+
+    // 2. Get user ID and verify admin role
+    const userId = getUserIdFromIdentity(event.identity);
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only administrators can reject events',
+        })
+      );
+    }
+
+    // 3. Get existing event
+    const existingEvent = await getEvent(eventId);
+
+    if (!existingEvent) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Event not found',
+        })
+      );
+    }
+
+    // 4. Validate current status
+    if (existingEvent.status !== EventStatus.PENDING_APPROVAL) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Only events awaiting review can be rejected',
+        })
+      );
+    }
+
+    // 5. Select the occurrences to reject
+    const scope = event.arguments.scope || SeriesEditScope.THIS_OCCURRENCE;
+    let targets: Event[] = [existingEvent];
+
+    if (existingEvent.seriesId && scope !== SeriesEditScope.THIS_OCCURRENCE) {
+      const occurrences = await getSeriesOccurrences(existingEvent.seriesId);
+      const currentIndex = existingEvent.occurrenceIndex ?? 0;
+
+      targets = occurrences.filter(
+        (occurrence) =>
+          occurrence.id === eventId ||
+          ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+            (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+            occurrence.status === EventStatus.PENDING_APPROVAL)
+      );
+    }
+
+    let rejectedEvent: Event | undefined;
+    let decision: EventReview | undefined;
+
+    for (const target of targets) {
+      // 6. Return the event to DRAFT and record the decision
+      const review: EventReview = {
+        id: `rev_${nanoid(16)}`,
+        eventId: target.id,
+        action: 'REJECTED',
+        actorId: userId,
+        comment: reason,
+        previousStatus: target.status,
+        newStatus: EventStatus.DRAFT,
+        createdAt: new Date().toISOString(),
+      };
+
+      let decided: Event;
+      try {
+        decided = await recordEventReviewDecision(target, review);
+      } catch (error: any) {
+        if (error.name === 'TransactionCanceledException') {
+          throw new Error(
+            JSON.stringify({
+              type: 'BUSINESS_RULE_ERROR',
+              message: 'Event has already been reviewed or was edited since it was loaded. Please reload and try again.',
+            })
+          );
+        }
+        throw error;
+      }
+
+      if (target.id === eventId) {
+        rejectedEvent = decided;
+        decision = review;
+      }
+    }
+
+    if (!rejectedEvent || !decision) {
+      throw new Error('Failed to reject event');
+    }
+
+    // 7. Notify the organizer once, not once per occurrence
+    try {
+      await publishEventReviewed(rejectedEvent, decision);
+    } catch (error) {
+      // The rejection stands even if the notification could not be sent
+      console.error('Failed to send rejection notification:', error);
+    }
+
+    console.log('Event rejected', {
+      eventId,
+      reviewerId: userId,
+      occurrencesRejected: targets.length,
+    });
+
+    return rejectedEvent;
+  } catch (error) {
+    console.error('Error rejecting event:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,123 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { ImageUploadTarget, SeriesEditScope } from '../../../shared/types/event.types';
+import { getEvent } from '../../../shared/utils/dynamodb.utils';
+import { ALLOWED_IMAGE_TYPES, createImageUploadPost } from '../../../shared/utils/image.utils';
+import { canEditEvent } from '../validators/event.validator';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+} from '../../../shared/types/appsync.types';
+
+interface RequestEventImageUploadArgs {
+  eventId: string;
+  contentType: string;
+  scope?: SeriesEditScope;
+}
+
+/**
+ * Lambda handler for requestEventImageUpload mutation
+ * Returns a presigned POST the browser uploads the image to; processEventImage
+ * resizes it and attaches the variants to the event once it lands
+ * For occurrences of a series, scope selects which occurrences get the image (like updateEvent)
+ */
+export async function handler(
+  event: AppSyncResolverEvent<RequestEventImageUploadArgs>,
+  context: Context
+): Promise<ImageUploadTarget> {
+  console.log('RequestEventImageUpload handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+    contentType: event.arguments.contentType,
+  });
+
+  try {
+    const { eventId, contentType, scope } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Validate content type
+    if (!ALLOWED_IMAGE_TYPES[contentType]) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          message: 'Image must be a JPEG, PNG or WebP file',
+        })
+      );
+    }
+
+    // 3. Get existing event
+    const existingEvent = await getEvent(eventId);
+
+    if (!existingEvent) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Event not found',
+        })
+      );
+    }
+
+    // 4. Authorization check
+    const isOrganizer = existingEvent.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only event organizer or administrators can change the event image',
+        })
+      );
+    }
+
+    // 5. The image is part of the event, so the usual edit rules apply
+    const canEdit = canEditEvent(existingEvent.status, existingEvent.startDateTime);
+
+    if (!canEdit.valid) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: canEdit.message,
+        })
+      );
+    }
+
+    // 6. Create the presigned POST
+    const target = await createImageUploadPost(
+      eventId,
+      userId,
+      contentType,
+      existingEvent.seriesId ? scope : undefined
+    );
+
+    console.log('Event image upload requested', { eventId, key: target.key });
+
+    return target;
+  } catch (error) {
+    console.error('Error requesting event image upload:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
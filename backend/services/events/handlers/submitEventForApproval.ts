@@ -0,0 +1,195 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { nanoid } from 'nanoid';
+import { Event, EventReview, SeriesEditScope } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import {
+  getEvent,
+  getSeriesOccurrences,
+  submitEventForReview,
+} from '../../../shared/utils/dynamodb.utils';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { getApprovalRequirement } from '../validators/event.validator';
+
+/**
+ * Lambda handler for submitEventForApproval mutation
+ * Transitions event from DRAFT to PENDING_APPROVAL and adds it to the admin review queue
+ * For occurrences of a series, scope submits the other upcoming DRAFT occurrences as well
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string; scope?: SeriesEditScope }>,
+  context: Context
+): Promise<Event> {
+  console.log('SubmitEventForApproval handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.id,
+  });
+
+  try {
+    const eventId = event.arguments.id;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const identity = event.identity as any;
+    const organizerEmail = identity.claims?.email || identity.username;
+    const organizerName = identity.claims?.name || identity.claims?.['cognito:username'] || 'Organizer';
+
+    // 2. Get existing event
+    const existingEvent = await getEvent(eventId);
+
+    if (!existingEvent) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Event not found',
+        })
+      );
+    }
+
+    // 3. Authorization check - administrators publish directly
+    if (existingEvent.organizerId !== userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only the event organizer can submit an event for approval',
+        })
+      );
+    }
+
+    // 4. Validate current status
+    if (existingEvent.status === EventStatus.PENDING_APPROVAL) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Event is already awaiting review',
+        })
+      );
+    }
+
+    if (existingEvent.status !== EventStatus.DRAFT) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: `Cannot submit a ${existingEvent.status.toLowerCase()} event for approval`,
+        })
+      );
+    }
+
+    // 5. Validate event is in the future
+    if (new Date(existingEvent.startDateTime) <= new Date()) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Cannot submit an event that has already started or passed',
+        })
+      );
+    }
+
+    // 6. Check approval rules
+    const approval = getApprovalRequirement(existingEvent.category, existingEvent.capacity);
+
+    if (!approval.required) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: 'Event does not require approval and can be published directly',
+        })
+      );
+    }
+
+    // 7. Select the occurrences to submit
+    const scope = event.arguments.scope || SeriesEditScope.THIS_OCCURRENCE;
+    const now = new Date();
+    let targets: Event[] = [existingEvent];
+
+    if (existingEvent.seriesId && scope !== SeriesEditScope.THIS_OCCURRENCE) {
+      const occurrences = await getSeriesOccurrences(existingEvent.seriesId);
+      const currentIndex = existingEvent.occurrenceIndex ?? 0;
+
+      targets = occurrences.filter(
+        (occurrence) =>
+          occurrence.id === eventId ||
+          ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+            (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+            occurrence.status === EventStatus.DRAFT &&
+            new Date(occurrence.startDateTime) > now &&
+            // Occurrences edited out of every approval rule are published directly instead
+            getApprovalRequirement(occurrence.category, occurrence.capacity).required)
+      );
+    }
+
+    let submittedEvent: Event | undefined;
+
+    for (const target of targets) {
+      // 8. Enqueue for review and record the submission
+      const review: EventReview = {
+        id: `rev_${nanoid(16)}`,
+        eventId: target.id,
+        action: 'SUBMITTED',
+        actorId: userId,
+        approvalReasons: getApprovalRequirement(target.category, target.capacity).reasons,
+        previousStatus: target.status,
+        newStatus: EventStatus.PENDING_APPROVAL,
+        createdAt: new Date().toISOString(),
+      };
+
+      let submitted: Event;
+      try {
+        submitted = await submitEventForReview(target, review, {
+          email: organizerEmail,
+          name: organizerName,
+        });
+      } catch (error: any) {
+        if (error.name === 'TransactionCanceledException') {
+          throw new Error(
+            JSON.stringify({
+              type: 'BUSINESS_RULE_ERROR',
+              message: 'Event was modified while submitting. Please reload and try again.',
+            })
+          );
+        }
+        throw error;
+      }
+
+      if (target.id === eventId) {
+        submittedEvent = submitted;
+      }
+    }
+
+    if (!submittedEvent) {
+      throw new Error('Failed to submit event for approval');
+    }
+
+    console.log('Event submitted for approval', {
+      eventId,
+      reasons: approval.reasons,
+      occurrencesSubmitted: targets.length,
+    });
+
+    return submittedEvent;
+  } catch (error) {
+    console.error('Error submitting event for approval:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -1,17 +1,24 @@
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
-import { UpdateEventInput, Event } from '../../../shared/types/event.types';
+import { UpdateEventInput, Event, SeriesEditScope } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
 import {
   UpdateEventSchema,
   validateInput,
   canEditEvent,
   canReduceCapacity,
+  getApprovalRequirement,
 } from '../validators/event.validator';
 import {
   getEvent,
+  getSeriesOccurrences,
   updateEvent,
-  checkVenueConflict,
   createVenueBooking,
+  cancelVenueBooking,
 } from '../../../shared/utils/dynamodb.utils';
+import {
+  getVenueAvailability,
+  formatVenueConflictMessage,
+} from '../../../shared/utils/venue.utils';
 import {
   publishEventUpdated,
   publishCapacityUpdated,
@@ -22,6 +29,7 @@ import {
 } from '../../../shared/types/appsync.types';
 import {
   generateSlug,
+  generateOccurrenceSlug,
   generateShareableUrl,
   generateSearchTerms,
   generateLocationPK,
@@ -29,15 +37,19 @@ import {
   calculateAvailableSeats,
   isWaitlistAvailable,
 } from '../../../shared/utils/slug.utils';
+import { generateGeoPK, generateGeoSK } from '../../../shared/utils/geo.utils';
 
 interface UpdateEventArgs {
   id: string;
   input: UpdateEventInput;
+  scope?: SeriesEditScope;
 }
 
 /**
  * Lambda handler for updateEvent mutation
  * Updates an existing event with validation and business rule checks
+ * For occurrences of a series, scope selects this occurrence, this and following, or the whole series;
+ * time changes are applied to each occurrence as the same shift
  */
 export async function handler(
   event: AppSyncResolverEvent<UpdateEventArgs>,
@@ -103,155 +115,51 @@ export async function handler(
       );
     }
 
-    // 4. Check if event can be edited
-    const canEdit = canEditEvent(
-      currentEvent.status,
-      currentEvent.startDateTime
-    );
+    // 4. Select the occurrences the edit applies to
+    const scope = event.arguments.scope || SeriesEditScope.THIS_OCCURRENCE;
+    let targets: Event[] = [currentEvent];
 
-    if (!canEdit.valid) {
-      throw new Error(
-        JSON.stringify({
-          type: 'BUSINESS_RULE_ERROR',
-          message: canEdit.message,
-        })
-      );
-    }
+    if (currentEvent.seriesId && scope !== SeriesEditScope.THIS_OCCURRENCE) {
+      const occurrences = await getSeriesOccurrences(currentEvent.seriesId);
+      const currentIndex = currentEvent.occurrenceIndex ?? 0;
 
-    // 5. Validate capacity changes
-    if (input.capacity !== undefined && input.capacity !== currentEvent.capacity) {
-      const canReduce = canReduceCapacity(
-        currentEvent.capacity,
-        input.capacity,
-        currentEvent.registeredCount
+      targets = occurrences.filter(
+        (occurrence) =>
+          occurrence.id === eventId ||
+          ((scope === SeriesEditScope.ALL_OCCURRENCES ||
+            (occurrence.occurrenceIndex ?? 0) >= currentIndex) &&
+            // Occurrences that already started, were cancelled or completed are left as they are
+            canEditEvent(occurrence.status, occurrence.startDateTime).valid)
       );
-
-      if (!canReduce.valid) {
-        throw new Error(
-          JSON.stringify({
-            type: 'BUSINESS_RULE_ERROR',
-            message: canReduce.message,
-          })
-        );
-      }
     }
 
-    // 6. Check for venue conflicts if location is being changed
-    if (
-      input.location &&
-      input.location.building &&
-      input.location.room &&
-      (input.location.building !== currentEvent.location.building ||
-        input.location.room !== currentEvent.location.room ||
-        input.startDateTime ||
-        input.endDateTime)
-    ) {
-      const startTime = input.startDateTime || currentEvent.startDateTime;
-      const endTime = input.endDateTime || currentEvent.endDateTime;
-
-      const hasConflict = await checkVenueConflict(
-        input.location.building,
-        input.location.room,
-        startTime,
-        endTime,
-        eventId // Exclude current event from conflict check
-      );
+    // 5. Validate every occurrence before writing any of them
+    const changes: { target: Event; input: UpdateEventInput; enhancedInput: UpdateEventInput }[] = [];
 
-      if (hasConflict) {
-        throw new Error(
-          JSON.stringify({
-            type: 'BUSINESS_RULE_ERROR',
-            message: `Venue ${input.location.building} ${input.location.room} is not available during the requested time`,
-          })
-        );
-      }
+    for (const target of targets) {
+      const targetInput = shiftOccurrenceInput(input, currentEvent, target);
+      const enhancedInput = await prepareUpdate(target, targetInput, userId, isAdmin);
+      changes.push({ target, input: targetInput, enhancedInput });
     }
 
-    // 7. Regenerate search and discovery fields if needed
-    const enhancedInput = { ...input };
+    // 6. Apply the updates
+    let updatedEvent: Event | undefined;
 
-    // Regenerate slug if title or startDateTime changed
-    if (input.title || input.startDateTime) {
-      const newTitle = input.title || currentEvent.title;
-      const newStartDateTime = input.startDateTime || currentEvent.startDateTime;
-      enhancedInput.slug = generateSlug(newTitle, newStartDateTime);
-      enhancedInput.shareableUrl = generateShareableUrl(enhancedInput.slug);
-    }
-
-    // Regenerate search terms if any searchable field changed
-    if (input.title || input.description || input.location || input.tags) {
-      enhancedInput.searchTerms = generateSearchTerms({
-        title: input.title || currentEvent.title,
-        description: input.description || currentEvent.description,
-        location: input.location || currentEvent.location,
-        tags: input.tags || currentEvent.tags,
-      });
-    }
-
-    // Regenerate GSI3 keys if location changed
-    if (input.location) {
-      const newLocation = input.location || currentEvent.location;
-      enhancedInput.GSI3PK = generateLocationPK(newLocation.building);
-      enhancedInput.GSI3SK = generateLocationSK(newLocation.room, eventId);
-    }
-
-    // Recalculate availability fields if capacity changed
-    if (input.capacity !== undefined) {
-      enhancedInput.availableSeats = calculateAvailableSeats(
-        input.capacity,
-        currentEvent.registeredCount
-      );
-      enhancedInput.waitlistAvailable = isWaitlistAvailable(
-        input.capacity,
-        currentEvent.registeredCount,
-        currentEvent.waitlistCount
-      );
-    }
-
-    // 8. Update event with enhanced input
-    const updatedEvent = await updateEvent(
-      eventId,
-      enhancedInput,
-      currentEvent.version
-    );
-
-    // 8. Update venue booking if location or time changed
-    if (
-      input.location ||
-      input.startDateTime ||
-      input.endDateTime
-    ) {
-      const location = input.location || currentEvent.location;
-      const startTime = input.startDateTime || currentEvent.startDateTime;
-      const endTime = input.endDateTime || currentEvent.endDateTime;
-
-      if (location.building && location.room) {
-        await createVenueBooking(
-          eventId,
-          location.building,
-          location.room,
-          startTime,
-          endTime
-        );
+    for (const change of changes) {
+      const result = await applyUpdate(change.target, change.input, change.enhancedInput);
+      if (result.id === eventId) {
+        updatedEvent = result;
       }
     }
 
-    // 9. Publish domain events
-    await publishEventUpdated(updatedEvent, input);
-
-    // Publish capacity updated event if capacity changed
-    if (input.capacity !== undefined && input.capacity !== currentEvent.capacity) {
-      await publishCapacityUpdated(
-        eventId,
-        currentEvent.capacity,
-        input.capacity,
-        currentEvent.registeredCount
-      );
+    if (!updatedEvent) {
+      throw new Error('Failed to update event');
     }
 
     console.log('Event updated successfully', {
       eventId: updatedEvent.id,
       changes: Object.keys(input),
+      occurrencesUpdated: changes.length,
     });
 
     return updatedEvent;
@@ -272,3 +180,282 @@ export async function handler(
     throw error;
   }
 }
+
+/**
+ * Apply a series edit to one occurrence
+ * Start and end changes become the same shift relative to the occurrence being edited
+ */
+function shiftOccurrenceInput(
+  input: UpdateEventInput,
+  editedEvent: Event,
+  target: Event
+): UpdateEventInput {
+  if (target.id === editedEvent.id) {
+    return input;
+  }
+
+  const shifted = { ...input };
+
+  if (input.startDateTime) {
+    const shiftMs = new Date(input.startDateTime).getTime() - new Date(editedEvent.startDateTime).getTime();
+    shifted.startDateTime = new Date(new Date(target.startDateTime).getTime() + shiftMs).toISOString();
+  }
+
+  if (input.endDateTime) {
+    const shiftMs = new Date(input.endDateTime).getTime() - new Date(editedEvent.endDateTime).getTime();
+    shifted.endDateTime = new Date(new Date(target.endDateTime).getTime() + shiftMs).toISOString();
+  }
+
+  return shifted;
+}
+
+/**
+ * Check business rules for one event and build the full update
+ * Throws a JSON error when the change is not allowed
+ */
+async function prepareUpdate(
+  target: Event,
+  input: UpdateEventInput,
+  userId: string,
+  isAdmin: boolean
+): Promise<UpdateEventInput> {
+  // 1. Check if event can be edited
+  const canEdit = canEditEvent(
+    target.status,
+    target.startDateTime
+  );
+
+  if (!canEdit.valid) {
+    throw new Error(
+      JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: canEdit.message,
+      })
+    );
+  }
+
+  // Publishing goes through publishEvent / the approval workflow, not plain updates
+  if (
+    !isAdmin &&
+    input.status &&
+    input.status !== target.status &&
+    (input.status === EventStatus.PUBLISHED || input.status === EventStatus.PENDING_APPROVAL)
+  ) {
+    throw new Error(
+      JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Use publishEvent or submitEventForApproval to change the event status',
+      })
+    );
+  }
+
+  // 2. Validate capacity changes
+  if (input.capacity !== undefined && input.capacity !== target.capacity) {
+    const canReduce = canReduceCapacity(
+      target.capacity,
+      input.capacity,
+      target.registeredCount
+    );
+
+    if (!canReduce.valid) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: canReduce.message,
+        })
+      );
+    }
+  }
+
+  // 3. Check for venue conflicts if location or time is being changed
+  const location = input.location || target.location;
+
+  if (
+    location.building &&
+    location.room &&
+    (location.building !== target.location.building ||
+      location.room !== target.location.room ||
+      input.startDateTime ||
+      input.endDateTime)
+  ) {
+    const startTime = input.startDateTime || target.startDateTime;
+    const endTime = input.endDateTime || target.endDateTime;
+
+    const availability = await getVenueAvailability(
+      location.building,
+      location.room,
+      startTime,
+      endTime,
+      { userId, isAdmin },
+      target.id // Exclude this event from conflict check
+    );
+
+    if (!availability.available) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: formatVenueConflictMessage(availability),
+          conflicts: availability.conflicts,
+          suggestedSlots: availability.suggestedSlots,
+        })
+      );
+    }
+  }
+
+  // 4. Regenerate search and discovery fields if needed
+  const enhancedInput = { ...input };
+
+  // Regenerate slug if title or startDateTime changed
+  if (input.title || input.startDateTime) {
+    const newTitle = input.title || target.title;
+    const newStartDateTime = input.startDateTime || target.startDateTime;
+    enhancedInput.slug = target.seriesId
+      ? generateOccurrenceSlug(newTitle, newStartDateTime)
+      : generateSlug(newTitle, newStartDateTime);
+    enhancedInput.shareableUrl = generateShareableUrl(enhancedInput.slug);
+  }
+
+  // Regenerate search terms if any searchable field changed
+  if (input.title || input.description || input.location || input.tags) {
+    enhancedInput.searchTerms = generateSearchTerms({
+      title: input.title || target.title,
+      description: input.description || target.description,
+      location: input.location || target.location,
+      tags: input.tags || target.tags,
+    });
+  }
+
+  // Regenerate date index keys if the event was rescheduled
+  if (input.startDateTime) {
+    enhancedInput.GSI1SK = input.startDateTime;
+    enhancedInput.GSI2SK = input.startDateTime;
+  }
+
+  // Regenerate category index key if category changed
+  if (input.category) {
+    enhancedInput.GSI2PK = `EVENT#CATEGORY#${input.category}`;
+  }
+
+  // Regenerate GSI3 keys if location changed
+  if (input.location) {
+    const newLocation = input.location || target.location;
+    enhancedInput.GSI3PK = generateLocationPK(newLocation.building);
+    enhancedInput.GSI3SK = generateLocationSK(newLocation.room, target.id);
+
+    if (newLocation.coordinates) {
+      enhancedInput.GSI4PK = generateGeoPK(newLocation.coordinates);
+      enhancedInput.GSI4SK = generateGeoSK(newLocation.coordinates, target.id);
+    }
+  }
+
+  // Re-evaluate approval rules if category or capacity changed
+  if (input.category || input.capacity !== undefined) {
+    const approval = getApprovalRequirement(
+      input.category || target.category,
+      input.capacity ?? target.capacity
+    );
+
+    // A published event was never reviewed against rules it only meets after this edit
+    const previousReasons = getApprovalRequirement(target.category, target.capacity).reasons;
+    const newReasons = approval.reasons.filter((reason) => !previousReasons.includes(reason));
+
+    if (!isAdmin && target.status === EventStatus.PUBLISHED && newReasons.length > 0) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: `${newReasons.join('. ')}. Ask an administrator to make this change to a published event.`,
+        })
+      );
+    }
+
+    enhancedInput.requiresApproval = approval.required;
+  }
+
+  // Recalculate availability fields if capacity changed
+  if (input.capacity !== undefined) {
+    enhancedInput.availableSeats = calculateAvailableSeats(
+      input.capacity,
+      target.registeredCount
+    );
+    enhancedInput.waitlistAvailable = isWaitlistAvailable(
+      input.capacity,
+      target.registeredCount,
+      target.waitlistCount
+    );
+  }
+
+  return enhancedInput;
+}
+
+/**
+ * Write a prepared update and publish the resulting domain events
+ */
+async function applyUpdate(
+  target: Event,
+  input: UpdateEventInput,
+  enhancedInput: UpdateEventInput
+): Promise<Event> {
+  // 1. Update event with enhanced input
+  // A location without coordinates takes the event out of the geo index
+  const removeAttributes = input.location && !input.location.coordinates ? ['GSI4PK', 'GSI4SK'] : [];
+
+  // A pasted image URL replaces an uploaded image, so its resized variants no longer apply
+  if (input.imageUrl !== undefined && input.imageUrl !== target.imageUrl) {
+    removeAttributes.push('imageVariants');
+  }
+
+  const updatedEvent = await updateEvent(
+    target.id,
+    enhancedInput,
+    target.version,
+    removeAttributes
+  );
+
+  // 2. Update venue booking if location or time changed
+  if (
+    input.location ||
+    input.startDateTime ||
+    input.endDateTime
+  ) {
+    const location = input.location || target.location;
+    const startTime = input.startDateTime || target.startDateTime;
+    const endTime = input.endDateTime || target.endDateTime;
+
+    // Release the previous booking when the slot moved, so the old time shows as free
+    const previous = target.location;
+    if (
+      previous.building &&
+      previous.room &&
+      (previous.building !== location.building ||
+        previous.room !== location.room ||
+        target.startDateTime !== startTime)
+    ) {
+      await cancelVenueBooking(previous.building, previous.room, target.startDateTime);
+    }
+
+    if (location.building && location.room) {
+      await createVenueBooking(
+        target.id,
+        location.building,
+        location.room,
+        startTime,
+        endTime
+      );
+    }
+  }
+
+  // 3. Publish domain events
+  await publishEventUpdated(updatedEvent, input);
+
+  // Publish capacity updated event if capacity changed
+  if (input.capacity !== undefined && input.capacity !== target.capacity) {
+    await publishCapacityUpdated(
+      target.id,
+      target.capacity,
+      input.capacity,
+      target.registeredCount
+    );
+  }
+
+  return updatedEvent;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { RecurrenceFrequency } from '../../../../shared/types/event.types';
+import { expandRecurrence } from '../../../../shared/utils/recurrence.utils';
+import { validateOccurrences } from '../event.validator';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('validateOccurrences', () => {
+  it('accepts a series of non-overlapping occurrences', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.WEEKLY, count: 10 },
+      'America/New_York'
+    );
+
+    expect(validateOccurrences(starts, 2 * HOUR_MS)).toEqual({ valid: true });
+  });
+
+  it('rejects a rule that produces a single occurrence', () => {
+    const result = validateOccurrences(['2026-01-05T15:00:00.000Z'], HOUR_MS);
+
+    expect(result.valid).toBe(false);
+    expect(result.message).toContain('fewer than 2');
+  });
+
+  it('rejects an UNTIL rule that runs past the series limit instead of truncating it', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.WEEKLY, until: '2027-06-01T00:00:00.000Z' },
+      'America/New_York'
+    );
+
+    const result = validateOccurrences(starts, HOUR_MS);
+
+    expect(result.valid).toBe(false);
+    expect(result.message).toContain('choose an earlier end date');
+  });
+
+  it('rejects occurrences longer than the recurrence interval', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.DAILY, count: 3 },
+      'America/New_York'
+    );
+
+    const result = validateOccurrences(starts, 25 * HOUR_MS);
+
+    expect(result.valid).toBe(false);
+    expect(result.message).toContain('overlap');
+  });
+});
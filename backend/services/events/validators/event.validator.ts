@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { EventCategory, EventStatus } from '../../../shared/types/common';
+import { EventCategory, EventStatus, PromotionExpiryPolicy } from '../../../shared/types/common';
+import { RecurrenceFrequency, Weekday } from '../../../shared/types/event.types';
+import { MAX_SERIES_OCCURRENCES } from '../../../shared/utils/recurrence.utils';
 
 /**
  * Coordinates validation schema
@@ -30,6 +32,11 @@ const EventCategorySchema = z.nativeEnum(EventCategory);
  */
 const EventStatusSchema = z.nativeEnum(EventStatus);
 
+/**
+ * Promotion expiry policy validation
+ */
+const PromotionExpiryPolicySchema = z.nativeEnum(PromotionExpiryPolicy);
+
 /**
  * ISO 8601 date-time string validation
  */
@@ -41,6 +48,35 @@ const DateTimeSchema = z.string().refine(
   { message: 'Invalid ISO 8601 date-time format' }
 );
 
+/**
+ * Recurrence rule validation schema
+ */
+const RecurrenceRuleSchema = z
+  .object({
+    frequency: z.nativeEnum(RecurrenceFrequency),
+    interval: z.number().int().min(1, 'Interval must be at least 1').max(12, 'Interval cannot exceed 12').optional(),
+    byWeekday: z.array(z.nativeEnum(Weekday)).max(7).optional(),
+    until: DateTimeSchema.optional(),
+    count: z
+      .number()
+      .int()
+      .min(2, 'A series must have at least 2 occurrences')
+      .max(MAX_SERIES_OCCURRENCES, `A series cannot exceed ${MAX_SERIES_OCCURRENCES} occurrences`)
+      .optional(),
+    exceptions: z
+      .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Exception dates must be YYYY-MM-DD'))
+      .max(MAX_SERIES_OCCURRENCES)
+      .optional(),
+  })
+  .refine((data) => (data.count === undefined) !== (data.until === undefined), {
+    message: 'Specify either count or until',
+    path: ['count'],
+  })
+  .refine((data) => !data.byWeekday || data.frequency === RecurrenceFrequency.WEEKLY, {
+    message: 'byWeekday is only supported for weekly recurrence',
+    path: ['byWeekday'],
+  });
+
 /**
  * Create Event Input validation schema
  */
@@ -71,6 +107,8 @@ export const CreateEventSchema = z
       .optional()
       .default([]),
     imageUrl: z.string().url('Invalid image URL').optional(),
+    promotionExpiryPolicy: PromotionExpiryPolicySchema.optional(),
+    recurrence: RecurrenceRuleSchema.optional(),
   })
   .refine(
     (data) => {
@@ -108,6 +146,13 @@ export const CreateEventSchema = z
       message: 'Event duration cannot exceed 7 days',
       path: ['endDateTime'],
     }
+  )
+  .refine(
+    (data) => !data.recurrence?.until || new Date(data.recurrence.until) > new Date(data.startDateTime),
+    {
+      message: 'Recurrence must end after the first occurrence',
+      path: ['recurrence', 'until'],
+    }
   );
 
 /**
@@ -143,6 +188,7 @@ export const UpdateEventSchema = z
       .optional(),
     imageUrl: z.string().url('Invalid image URL').optional(),
     status: EventStatusSchema.optional(),
+    promotionExpiryPolicy: PromotionExpiryPolicySchema.optional(),
   })
   .refine(
     (data) => {
@@ -296,3 +342,125 @@ export function canCancelEvent(
 
   return { valid: true };
 }
+
+/**
+ * Approval rules
+ * Events in these categories, or large enough to need venue and safety review,
+ * must be approved by an administrator before they can be published
+ */
+export const APPROVAL_REQUIRED_CATEGORIES: EventCategory[] = [
+  EventCategory.SOCIAL,
+  EventCategory.SPORTS,
+];
+export const APPROVAL_CAPACITY_THRESHOLD = 200;
+
+/**
+ * Business rule: Check if event must be approved before publishing
+ */
+export function getApprovalRequirement(
+  category: EventCategory,
+  capacity: number
+): { required: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (APPROVAL_REQUIRED_CATEGORIES.includes(category)) {
+    reasons.push(`${category} events require administrator approval`);
+  }
+
+  if (capacity > APPROVAL_CAPACITY_THRESHOLD) {
+    reasons.push(`Events with more than ${APPROVAL_CAPACITY_THRESHOLD} seats require administrator approval`);
+  }
+
+  return { required: reasons.length > 0, reasons };
+}
+
+/**
+ * Reject event input validation schema
+ */
+export const RejectEventSchema = z.object({
+  id: z.string().min(1),
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'A rejection reason is required')
+    .max(1000, 'Rejection reason must be 1000 characters or less'),
+});
+
+/**
+ * Business rule: Check that occurrences of a series do not overlap each other
+ */
+export function validateOccurrences(
+  occurrenceStarts: string[],
+  durationMs: number
+): { valid: boolean; message?: string } {
+  if (occurrenceStarts.length < 2) {
+    return {
+      valid: false,
+      message: 'Recurrence rule produces fewer than 2 occurrences',
+    };
+  }
+
+  if (occurrenceStarts.length > MAX_SERIES_OCCURRENCES) {
+    return {
+      valid: false,
+      message: `Recurrence rule produces more than ${MAX_SERIES_OCCURRENCES} occurrences, choose an earlier end date`,
+    };
+  }
+
+  for (let i = 1; i < occurrenceStarts.length; i++) {
+    const previousEnd = new Date(occurrenceStarts[i - 1]).getTime() + durationMs;
+    if (new Date(occurrenceStarts[i]).getTime() < previousEnd) {
+      return {
+        valid: false,
+        message: 'Occurrences overlap: the event is longer than the recurrence interval',
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check venue availability input validation schema
+ */
+export const CheckVenueAvailabilitySchema = z
+  .object({
+    building: z.string().trim().min(1, 'Building is required'),
+    room: z.string().trim().min(1, 'Room is required'),
+    startDateTime: DateTimeSchema,
+    endDateTime: DateTimeSchema,
+    excludeEventId: z.string().optional(),
+  })
+  .refine((data) => new Date(data.endDateTime) > new Date(data.startDateTime), {
+    message: 'End date must be after start date',
+    path: ['endDateTime'],
+  });
+
+/**
+ * Longest range listVenueBookings returns in one call
+ */
+export const MAX_VENUE_BOOKING_RANGE_DAYS = 31;
+
+/**
+ * List venue bookings input validation schema
+ */
+export const ListVenueBookingsSchema = z
+  .object({
+    building: z.string().trim().min(1, 'Building is required'),
+    room: z.string().trim().min(1).optional(),
+    startDate: DateTimeSchema,
+    endDate: DateTimeSchema,
+  })
+  .refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      new Date(data.endDate).getTime() - new Date(data.startDate).getTime() <=
+      MAX_VENUE_BOOKING_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `Date range cannot exceed ${MAX_VENUE_BOOKING_RANGE_DAYS} days`,
+      path: ['endDate'],
+    }
+  );
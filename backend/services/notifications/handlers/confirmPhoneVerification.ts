@@ -0,0 +1,57 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { phoneVerification } from '../lib/sms/phoneVerification';
+
+/**
+ * Confirm the code texted by startPhoneVerification
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Check the code (expires after 10 minutes, 5 attempts)
+ * 3. Save the verified number on the user profile, clearing any earlier opt-out
+ * 4. Turn on SMS notifications
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ code: string }>,
+  context: Context
+): Promise<Record<string, any>> {
+  console.log('ConfirmPhoneVerification handler invoked', { requestId: context.awsRequestId });
+
+  try {
+    // 1. Get user from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2-4. Verify and link the number
+    const result = await phoneVerification.confirmVerification(userId, event.arguments.code);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error));
+    }
+
+    console.log('Phone number verified', { userId });
+
+    return result.user!;
+  } catch (error) {
+    console.error('Error confirming phone verification:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -3,11 +3,8 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
 import { nanoid } from 'nanoid';
-import {
-  NotificationType,
-  NotificationPriority,
-  CreateInAppNotificationRequest,
-} from '../types/notification.types';
+import { getNotificationTitle, getNotificationMessage } from '../lib/delivery/notificationContent';
+import { CreateInAppNotificationRequest } from '../types/notification.types';
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
@@ -113,60 +110,3 @@ export async function handler(
     };
   }
 };
-
-/**
- * Generate notification title based on type
- */
-function getNotificationTitle(
-  notificationType: NotificationType,
-  data: Record<string, any>
-): string {
-  const titles: Record<NotificationType, string> = {
-    [NotificationType.REGISTRATION_CONFIRMED]: '✅ Registration Confirmed',
-    [NotificationType.WAITLIST_ADDED]: '⏳ Added to Waitlist',
-    [NotificationType.WAITLIST_PROMOTED]: '🎉 You Got a Spot!',
-    [NotificationType.REGISTRATION_CANCELLED]: 'Registration Cancelled',
-    [NotificationType.EVENT_UPDATED]: '⚠️ Event Updated',
-    [NotificationType.EVENT_CANCELLED]: '❌ Event Cancelled',
-    [NotificationType.EVENT_REMINDER_24H]: '⏰ Event Tomorrow',
-    [NotificationType.EVENT_REMINDER_1H]: '🚀 Event Starting Soon',
-  };
-
-  return titles[notificationType];
-}
-
-/**
- * Generate notification message based on type
- */
-function getNotificationMessage(
-  notificationType: NotificationType,
-  data: Record<string, any>
-): string {
-  const messages: Record<NotificationType, (data: any) => string> = {
-    [NotificationType.REGISTRATION_CONFIRMED]: (d: any) =>
-      `You're registered for ${d.eventTitle} on ${d.eventDate}`,
-    
-    [NotificationType.WAITLIST_ADDED]: (d) =>
-      `You're #${d.waitlistPosition} on the waitlist for ${d.eventTitle}`,
-    
-    [NotificationType.WAITLIST_PROMOTED]: (d) =>
-      `A spot opened up for ${d.eventTitle}! Confirm within 24 hours.`,
-    
-    [NotificationType.REGISTRATION_CANCELLED]: (d) =>
-      `Your registration for ${d.eventTitle} has been cancelled`,
-    
-    [NotificationType.EVENT_UPDATED]: (d) =>
-      `${d.eventTitle} has been updated. Please review the changes.`,
-    
-    [NotificationType.EVENT_CANCELLED]: (d) =>
-      `${d.eventTitle} has been cancelled. Your registration was automatically cancelled.`,
-    
-    [NotificationType.EVENT_REMINDER_24H]: (d) =>
-      `${d.eventTitle} is tomorrow at ${d.eventTime}`,
-    
-    [NotificationType.EVENT_REMINDER_1H]: (d) =>
-      `${d.eventTitle} starts in 1 hour at ${d.eventLocation}`,
-  };
-
-  return messages[notificationType](data);
-}
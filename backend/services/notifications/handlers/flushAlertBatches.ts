@@ -0,0 +1,108 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { preferencesManager } from '../lib/preferences/preferencesManager';
+import { dispatchToChannels } from '../lib/delivery/channelDispatcher';
+import { alertBatcher, PendingMatch } from '../lib/batching/alertBatcher';
+import { NotificationType, NotificationPriority } from '../types/notification.types';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Send saved-search match batches whose release time has passed
+ * Triggered on a schedule (every 15 minutes)
+ *
+ * Flow:
+ * 1. Find due batches
+ * 2. Drop matches for events that were cancelled or have started since they matched
+ * 3. Re-check user preferences
+ * 4. Send one notification per batch via enabled channels
+ */
+export const handler = async (
+  event: ScheduledEvent,
+  context: Context
+): Promise<{ sent: number; dropped: number }> => {
+  console.log('Flushing saved search alert batches', { requestId: context.awsRequestId });
+
+  const batches = await alertBatcher.listDueBatches();
+  let sent = 0;
+  let dropped = 0;
+
+  for (const batch of batches) {
+    try {
+      const matches = await alertBatcher.claimBatch(batch.userId);
+      const upcoming = await filterUpcoming(matches);
+      dropped += matches.length - upcoming.length;
+
+      const preferences = await preferencesManager.getPreferences(batch.userId);
+
+      if (
+        upcoming.length > 0 &&
+        !preferences.unsubscribedAt &&
+        preferences.enabledTypes[NotificationType.SAVED_SEARCH_MATCH] !== false
+      ) {
+        await dispatchToChannels(
+          preferences,
+          { userId: batch.userId, email: batch.userEmail },
+          NotificationType.SAVED_SEARCH_MATCH,
+          NotificationPriority.LOW,
+          alertBatcher.buildMatchNotificationData(
+            { userId: batch.userId, name: batch.userName },
+            upcoming
+          ),
+          {
+            eventId: upcoming[0].eventId,
+            eventIds: upcoming.map((match) => match.eventId),
+            requestId: context.awsRequestId,
+          }
+        );
+        sent++;
+      }
+
+      await alertBatcher.removeMatches(
+        batch.userId,
+        matches.map((match) => match.eventId)
+      );
+    } catch (error) {
+      console.error(`Error flushing alert batch for ${batch.userId}:`, error);
+      // Retry on the next run
+      await alertBatcher.releaseBatch(batch);
+    }
+  }
+
+  console.log('Alert batches flushed', { due: batches.length, sent, dropped });
+
+  return { sent, dropped };
+};
+
+/**
+ * Keep matches whose event is still published and has not started
+ */
+async function filterUpcoming(matches: PendingMatch[]): Promise<PendingMatch[]> {
+  const now = new Date().toISOString();
+  const results = await Promise.all(
+    matches.map(async (match) => {
+      const response = await docClient.send(
+        new GetCommand({
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `EVENT#${match.eventId}`,
+            SK: 'METADATA',
+          },
+          ProjectionExpression: '#status, startDateTime',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+        })
+      );
+
+      const item = response.Item;
+      return item && item.status === 'PUBLISHED' && item.startDateTime > now ? match : null;
+    })
+  );
+
+  return results.filter((match): match is PendingMatch => match !== null);
+}
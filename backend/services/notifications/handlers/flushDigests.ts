@@ -0,0 +1,77 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { preferencesManager } from '../lib/preferences/preferencesManager';
+import { dispatchToChannels } from '../lib/delivery/channelDispatcher';
+import { digestBatcher } from '../lib/batching/digestBatcher';
+import {
+  NotificationType,
+  NotificationChannel,
+  NotificationPriority,
+} from '../types/notification.types';
+
+/**
+ * Send digest emails whose release time has passed
+ * Triggered on a schedule (every 15 minutes)
+ *
+ * Flow:
+ * 1. Find due digests
+ * 2. Re-check user preferences, dropping entries for types turned off since
+ * 3. Send one digest email per user
+ */
+export const handler = async (
+  event: ScheduledEvent,
+  context: Context
+): Promise<{ sent: number; dropped: number }> => {
+  console.log('Flushing notification digests', { requestId: context.awsRequestId });
+
+  const digests = await digestBatcher.listDueDigests();
+  let sent = 0;
+  let dropped = 0;
+
+  for (const digest of digests) {
+    try {
+      const entries = await digestBatcher.claimDigest(digest.userId);
+      const preferences = await preferencesManager.getPreferences(digest.userId);
+
+      const included =
+        preferences.unsubscribedAt || !preferences.emailEnabled
+          ? []
+          : entries.filter((entry) => preferences.enabledTypes[entry.notificationType] !== false);
+      dropped += entries.length - included.length;
+
+      if (included.length > 0) {
+        await dispatchToChannels(
+          preferences,
+          { userId: digest.userId, email: digest.userEmail },
+          NotificationType.DIGEST,
+          NotificationPriority.LOW,
+          digestBatcher.buildDigestNotificationData(
+            { userId: digest.userId, name: digest.userName },
+            included,
+            preferences
+          ),
+          {
+            eventId: included[0].eventId,
+            eventIds: Array.from(new Set(included.map((entry) => entry.eventId))),
+            requestId: context.awsRequestId,
+          },
+          // Entries were already delivered in-app when they were queued
+          [NotificationChannel.EMAIL]
+        );
+        sent++;
+      }
+
+      await digestBatcher.removeEntries(
+        digest.userId,
+        entries.map((entry) => entry.entryId)
+      );
+    } catch (error) {
+      console.error(`Error flushing digest for ${digest.userId}:`, error);
+      // Retry on the next run
+      await digestBatcher.releaseDigest(digest);
+    }
+  }
+
+  console.log('Digests flushed', { due: digests.length, sent, dropped });
+
+  return { sent, dropped };
+};
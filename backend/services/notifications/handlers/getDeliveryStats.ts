@@ -0,0 +1,110 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { getDeliveryStats } from '../lib/email/deliveryTracker';
+import { DeliveryStats } from '../types/notification.types';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+interface DeliveryStatsArguments {
+  startDate: string;
+  endDate: string;
+  eventId?: string;
+}
+
+/**
+ * Get notification delivery stats for a period
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Check access: event organizers see their event, admins see everything
+ * 3. Sum the daily delivery counters
+ */
+export async function handler(
+  event: AppSyncResolverEvent<DeliveryStatsArguments>,
+  context: Context
+): Promise<DeliveryStats> {
+  console.log('GetDeliveryStats handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { startDate, endDate, eventId } = event.arguments;
+
+    // 1. Get user from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate)) || startDate > endDate) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          message: 'startDate must be a valid date on or before endDate',
+        })
+      );
+    }
+
+    // 2. Check access
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (eventId && !isAdmin) {
+      const eventResult = await docClient.send(
+        new GetCommand({
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `EVENT#${eventId}`,
+            SK: 'METADATA',
+          },
+          ProjectionExpression: 'organizerId',
+        })
+      );
+
+      if (eventResult.Item?.organizerId !== userId) {
+        throw new Error(
+          JSON.stringify({
+            type: 'AUTHORIZATION_ERROR',
+            message: 'Only the event organizer or administrators can view delivery stats',
+          })
+        );
+      }
+    } else if (!eventId && !isAdmin) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'Only administrators can view platform-wide delivery stats',
+        })
+      );
+    }
+
+    // 3. Sum the daily counters
+    return await getDeliveryStats(startDate, endDate, eventId);
+  } catch (error) {
+    console.error('Error getting delivery stats:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { pushSubscriptions } from '../lib/push/pushSubscriptions';
+import { NotificationType } from '../types/notification.types';
+
+/**
+ * Get the user's browser push settings
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Return the opted-in notification types and number of subscribed browsers
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<{ types: NotificationType[]; deviceCount: number }> {
+  console.log('GetPushSettings handler invoked', { requestId: context.awsRequestId });
+
+  // 1. Get user from AppSync identity
+  const userId = getUserIdFromIdentity(event.identity);
+  if (!userId) {
+    throw new Error(
+      JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      })
+    );
+  }
+
+  // 2. Load settings
+  return pushSubscriptions.getPushSettings(userId);
+}
@@ -0,0 +1,69 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { getSmsProvider } from '../lib/sms/smsProvider';
+import { smsRecipients } from '../lib/sms/smsRecipients';
+
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+/**
+ * Handle text messages sent to our number (provider webhook)
+ * POST /sms/inbound
+ *
+ * Flow:
+ * 1. Authenticate the request with the provider's signature
+ *    (the fake provider has none, so it only runs in local/dev)
+ * 2. STOP keywords: mark the user's number as opted out
+ * 3. START keywords: clear the opt-out
+ * 4. HELP keywords: reply with contact details
+ *
+ * Carriers send their own STOP/START confirmations, so those get no reply here.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> {
+  console.log('Inbound SMS received', { requestId: context.awsRequestId });
+
+  const provider = getSmsProvider();
+
+  const message = await provider.parseInbound({
+    url: `https://${event.headers.Host || event.headers.host}${event.requestContext.path}`,
+    headers: event.headers,
+    body: event.isBase64Encoded && event.body
+      ? Buffer.from(event.body, 'base64').toString('utf-8')
+      : event.body || '',
+  });
+
+  if (!message) {
+    console.warn('Rejected inbound SMS request with invalid signature');
+    return { statusCode: 403, body: 'Forbidden' };
+  }
+
+  const keyword = message.body.trim().toUpperCase();
+  let reply: string | undefined;
+
+  try {
+    if (OPT_OUT_KEYWORDS.includes(keyword)) {
+      const userId = await smsRecipients.recordOptOut(message.from);
+      console.log('SMS opt-out recorded', { userId });
+    } else if (OPT_IN_KEYWORDS.includes(keyword)) {
+      const userId = await smsRecipients.recordOptIn(message.from);
+      console.log('SMS opt-in recorded', { userId });
+    } else if (HELP_KEYWORDS.includes(keyword)) {
+      reply = `Terrapin Events: event alerts for your account. Manage texts at ${process.env.FRONTEND_URL}/dashboard/profile. Reply STOP to opt out.`;
+    }
+  } catch (error) {
+    console.error('Error handling inbound SMS:', error);
+    // 5xx makes the provider retry the webhook
+    return { statusCode: 500, body: 'Internal server error' };
+  }
+
+  const response = provider.formatInboundReply(reply);
+
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': response.contentType },
+    body: response.body,
+  };
+}
@@ -1,19 +1,17 @@
 import { EventBridgeEvent, Context } from 'aws-lambda';
-import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
 import { preferencesManager } from '../lib/preferences/preferencesManager';
 import { doNotDisturbChecker } from '../lib/preferences/doNotDisturbChecker';
+import { dispatchToChannels } from '../lib/delivery/channelDispatcher';
+import { deferredQueue } from '../lib/delivery/deferredQueue';
+import { alertBatcher } from '../lib/batching/alertBatcher';
+import { digestBatcher } from '../lib/batching/digestBatcher';
 import {
   NotificationEvent,
   NotificationType,
   NotificationChannel,
   NotificationPriority,
-  SendEmailRequest,
-  CreateInAppNotificationRequest,
 } from '../types/notification.types';
 
-const lambdaClient = new LambdaClient({ region: process.env.AWS_REGION || 'us-east-1' });
-const STAGE = process.env.STAGE || 'dev';
-
 /**
  * Main notification processor - orchestrates notification sending
  * Triggered by EventBridge events from registration and event services
@@ -22,9 +20,11 @@ const STAGE = process.env.STAGE || 'dev';
  * 1. Receive domain event from EventBridge
  * 2. Determine notification type and recipients
  * 3. Check user preferences
- * 4. Check Do Not Disturb hours
- * 5. Send via appropriate channels (email, in-app)
- * 6. Track delivery status
+ * 4. Queue saved-search matches for the user's next batch, if batching applies
+ * 5. Queue low and medium priority emails for the user's digest, if digests apply
+ * 6. Hold for later delivery during Do Not Disturb hours
+ * 7. Send via appropriate channels (email, in-app, SMS, push)
+ * 8. Track delivery status
  */
 export const handler = async (
   event: EventBridgeEvent<string, NotificationEvent>,
@@ -59,7 +59,7 @@ export const handler = async (
           const preferences = await preferencesManager.getPreferences(recipient.userId);
           
           // Check if user wants this notification type
-          if (!preferences.enabledTypes[notificationType]) {
+          if (preferences.enabledTypes[notificationType] === false) {
             console.log(`User ${recipient.userId} has disabled ${notificationType} notifications`);
             return;
           }
@@ -67,16 +67,24 @@ export const handler = async (
           // Determine priority
           const priority = getNotificationPriority(notificationType);
 
-          // Check Do Not Disturb hours (skip for high priority)
-          if (priority !== NotificationPriority.HIGH) {
-            const isInDND = doNotDisturbChecker.isInDoNotDisturbPeriod(
-              preferences
-            );
-            
-            if (isInDND) {
-              const nextAvailable = doNotDisturbChecker.getNextAvailableTime(preferences);
-              console.log(`User ${recipient.userId} is in DND period, scheduling for ${nextAvailable.toISOString()}`);
-              // TODO: Schedule for later (implement with EventBridge scheduler)
+          // Saved-search matches follow the user's digest / batching settings
+          if (notificationType === NotificationType.SAVED_SEARCH_MATCH) {
+            const releaseAt = alertBatcher.getBatchReleaseTime(preferences);
+
+            if (releaseAt) {
+              await alertBatcher.queueMatch(
+                { userId: recipient.userId, email: recipient.email, name: detail.userName || 'there' },
+                {
+                  eventId: detail.eventId,
+                  eventTitle: detail.eventTitle,
+                  eventDate: detail.eventDate,
+                  eventTime: detail.eventTime,
+                  eventLocation: detail.eventLocation,
+                  savedSearchName: detail.savedSearchName || '',
+                },
+                releaseAt
+              );
+              console.log(`Queued saved search match for ${recipient.userId} until ${releaseAt.toISOString()}`);
               return;
             }
           }
@@ -88,60 +96,66 @@ export const handler = async (
             recipient
           );
 
-          // Send via enabled channels
-          const sendPromises: Promise<any>[] = [];
-
-          // Email notification
-          if (preferences.emailEnabled) {
-            const emailRequest: SendEmailRequest = {
-              userId: recipient.userId,
-              email: recipient.email,
-              notificationType,
-              priority,
-              data: notificationData,
-              metadata: {
-                eventId: detail.eventId,
-                requestId: context.awsRequestId,
-              },
-              attempt : 1,
-            };
-
-            sendPromises.push(
-              lambdaClient.send(
-                new InvokeCommand({
-                  FunctionName: `tems-notifications-${STAGE}-sendEmail`,
-                  InvocationType: 'Event', // Async invocation
-                  Payload: JSON.stringify(emailRequest),
-                })
-              )
-            );
+          // Low and medium priority emails wait for the user's digest; other channels stay immediate
+          let channels = [
+            NotificationChannel.EMAIL,
+            NotificationChannel.IN_APP,
+            NotificationChannel.SMS,
+            NotificationChannel.PUSH,
+          ];
+
+          if (preferences.emailEnabled && digestBatcher.isDigestible(notificationType, priority)) {
+            const releaseAt = digestBatcher.getDigestReleaseTime(preferences);
+
+            if (releaseAt) {
+              await digestBatcher.queueEntry(
+                { userId: recipient.userId, email: recipient.email, name: detail.userName || 'there' },
+                notificationType,
+                detail.eventId,
+                notificationData,
+                releaseAt
+              );
+              console.log(`Queued ${notificationType} email for ${recipient.userId} digest at ${releaseAt.toISOString()}`);
+              channels = channels.filter((channel) => channel !== NotificationChannel.EMAIL);
+            }
           }
 
-          // In-app notification
-          if (preferences.inAppEnabled) {
-            const inAppRequest: CreateInAppNotificationRequest = {
-              userId: recipient.userId,
-              notificationType,
-              priority,
-              data: notificationData,
-              metadata: {
-                eventId: detail.eventId,
-                requestId: context.awsRequestId,
-              },
-            };
-
-            sendPromises.push(
-              lambdaClient.send(
-                new InvokeCommand({
-                  FunctionName: `tems-notifications-${STAGE}-createInAppNotification`,
-                  InvocationType: 'Event', // Async invocation
-                  Payload: JSON.stringify(inAppRequest),
-                })
-              )
+          const metadata = {
+            eventId: detail.eventId,
+            requestId: context.awsRequestId,
+          };
+
+          // Check Do Not Disturb hours (skip for high priority)
+          if (priority !== NotificationPriority.HIGH) {
+            const { isInDND, nextAvailableTime } = doNotDisturbChecker.isInDoNotDisturbPeriod(
+              preferences
             );
+            
+            if (isInDND) {
+              await deferredQueue.deferNotification(
+                recipient,
+                notificationType,
+                priority,
+                notificationData,
+                metadata,
+                channels,
+                nextAvailableTime!
+              );
+              console.log(`User ${recipient.userId} is in DND period, deferred until ${nextAvailableTime!.toISOString()}`);
+              return;
+            }
           }
 
-          await Promise.allSettled(sendPromises);
+          // Send via enabled channels
+          await dispatchToChannels(
+            preferences,
+            recipient,
+            notificationType,
+            priority,
+            notificationData,
+            metadata,
+            channels
+          );
         } catch (error) {
           console.error(`Error processing notification for ${recipient.userId}:`, error);
           // Continue processing other recipients
@@ -169,6 +183,13 @@ function mapEventToNotificationType(detailType: string): NotificationType | null
     EventCancelled: NotificationType.EVENT_CANCELLED,
     EventReminder24h: NotificationType.EVENT_REMINDER_24H,
     EventReminder1h: NotificationType.EVENT_REMINDER_1H,
+    PromotionExpired: NotificationType.PROMOTION_EXPIRED,
+    EventApproved: NotificationType.EVENT_APPROVED,
+    EventRejected: NotificationType.EVENT_REJECTED,
+    SavedSearchMatched: NotificationType.SAVED_SEARCH_MATCH,
+    FeedbackRequested: NotificationType.EVENT_FEEDBACK_REQUEST,
+    OrganizerAccessApproved: NotificationType.ORGANIZER_ACCESS_APPROVED,
+    OrganizerAccessDenied: NotificationType.ORGANIZER_ACCESS_DENIED,
   };
 
   return mapping[detailType] || null;
@@ -216,6 +237,10 @@ function getNotificationPriority(notificationType: NotificationType): Notificati
     NotificationType.REGISTRATION_CONFIRMED,
     NotificationType.EVENT_UPDATED,
     NotificationType.EVENT_REMINDER_24H,
+    NotificationType.EVENT_APPROVED,
+    NotificationType.EVENT_REJECTED,
+    NotificationType.ORGANIZER_ACCESS_APPROVED,
+    NotificationType.ORGANIZER_ACCESS_DENIED,
   ];
 
   if (highPriorityTypes.includes(notificationType)) {
@@ -280,6 +305,72 @@ function prepareNotificationData(
         declineUrl: `${process.env.FRONTEND_URL}/registrations/${detail.registrationId}/decline`,
       };
 
+    case NotificationType.PROMOTION_EXPIRED:
+      return {
+        ...baseData,
+        registrationId: detail.registrationId,
+        expiredAt: detail.promotionDeadline,
+        requeued: detail.policy === 'REQUEUE',
+        waitlistPosition: detail.waitlistPosition,
+      };
+
+    case NotificationType.EVENT_APPROVED:
+      return {
+        ...baseData,
+        reviewComment: detail.reviewComment,
+      };
+
+    case NotificationType.EVENT_REJECTED:
+      return {
+        ...baseData,
+        rejectionReason: detail.rejectionReason,
+        editEventUrl: `${process.env.FRONTEND_URL}/events/${detail.eventId}/edit`,
+      };
+
+    case NotificationType.EVENT_FEEDBACK_REQUEST:
+      return {
+        ...baseData,
+        feedbackUrl: `${process.env.FRONTEND_URL}/events/${detail.eventId}/feedback`,
+        feedbackDeadline: new Date(detail.feedbackDeadline!).toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+          timeZone: recipient.timezone || 'America/New_York',
+        }),
+      };
+
+    // Not about an event: link to creating one, or back to the request form
+    case NotificationType.ORGANIZER_ACCESS_APPROVED:
+      return {
+        ...baseData,
+        affiliation: detail.affiliation,
+        decisionNote: detail.decisionNote,
+        eventUrl: `${process.env.FRONTEND_URL}/events/new`,
+      };
+
+    case NotificationType.ORGANIZER_ACCESS_DENIED:
+      return {
+        ...baseData,
+        affiliation: detail.affiliation,
+        decisionNote: detail.decisionNote,
+        eventUrl: `${process.env.FRONTEND_URL}/dashboard/organizer-access`,
+      };
+
+    case NotificationType.SAVED_SEARCH_MATCH:
+      return alertBatcher.buildMatchNotificationData(
+        { userId: recipient.userId, name: detail.userName },
+        [
+          {
+            eventId: detail.eventId,
+            eventTitle: detail.eventTitle,
+            eventDate: detail.eventDate,
+            eventTime: detail.eventTime,
+            eventLocation: detail.eventLocation,
+            savedSearchNames: [detail.savedSearchName || ''],
+          },
+        ]
+      );
+
     case NotificationType.REGISTRATION_CANCELLED:
       return {
         ...baseData,
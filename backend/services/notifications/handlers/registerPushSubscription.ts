@@ -0,0 +1,84 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { pushSubscriptions } from '../lib/push/pushSubscriptions';
+import { NotificationType } from '../types/notification.types';
+
+interface PushSubscriptionInput {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+}
+
+/**
+ * Register the browser's push subscription for the user
+ * Called after the service worker subscribes with the VAPID public key
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Validate the subscription
+ * 3. Store it (replacing an earlier subscription of the same browser)
+ * 4. Return the updated push settings
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ input: PushSubscriptionInput }>,
+  context: Context
+): Promise<{ types: NotificationType[]; deviceCount: number }> {
+  console.log('RegisterPushSubscription handler invoked', { requestId: context.awsRequestId });
+
+  try {
+    const input = event.arguments.input;
+
+    // 1. Get user from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Validate input
+    const validationError = pushSubscriptions.validateSubscription(input);
+    if (validationError) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          message: validationError,
+        })
+      );
+    }
+
+    // 3. Store the subscription
+    await pushSubscriptions.saveSubscription(userId, {
+      endpoint: input.endpoint,
+      keys: {
+        p256dh: input.p256dh,
+        auth: input.auth,
+      },
+      userAgent: input.userAgent?.slice(0, 256),
+    });
+
+    console.log('Push subscription registered', { userId, pushService: new URL(input.endpoint).origin });
+
+    // 4. Return settings
+    return pushSubscriptions.getPushSettings(userId);
+  } catch (error) {
+    console.error('Error registering push subscription:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
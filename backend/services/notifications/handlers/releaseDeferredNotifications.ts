@@ -0,0 +1,144 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { preferencesManager } from '../lib/preferences/preferencesManager';
+import { doNotDisturbChecker } from '../lib/preferences/doNotDisturbChecker';
+import { dispatchToChannels } from '../lib/delivery/channelDispatcher';
+import { deferredQueue, DeferredEventState } from '../lib/delivery/deferredQueue';
+import {
+  DeferredNotification,
+  NotificationPriority,
+} from '../types/notification.types';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Send notifications held back by Do Not Disturb once quiet hours end
+ * Triggered on a schedule (every 5 minutes)
+ *
+ * Flow:
+ * 1. Find due notifications, grouped by user
+ * 2. Collapse duplicates (latest per event and type)
+ * 3. Drop stale notifications (event cancelled, deleted or already started)
+ * 4. Re-check user preferences, deferring again if quiet hours have moved
+ * 5. Send via the channels still to deliver
+ */
+export const handler = async (
+  event: ScheduledEvent,
+  context: Context
+): Promise<{ sent: number; dropped: number; rescheduled: number }> => {
+  console.log('Releasing deferred notifications', { requestId: context.awsRequestId });
+
+  const due = await deferredQueue.listDueNotifications();
+  const byUser = new Map<string, DeferredNotification[]>();
+  const events = new Map<string, Promise<DeferredEventState | null>>();
+  let sent = 0;
+  let dropped = 0;
+  let rescheduled = 0;
+
+  for (const notification of due) {
+    byUser.set(notification.userId, [...(byUser.get(notification.userId) || []), notification]);
+  }
+
+  for (const [userId, notifications] of byUser) {
+    try {
+      const preferences = await preferencesManager.getPreferences(userId);
+      const { kept, collapsed } = deferredQueue.collapseNotifications(notifications);
+
+      for (const notification of collapsed) {
+        if (await deferredQueue.claimNotification(notification)) {
+          dropped++;
+        }
+      }
+
+      for (const notification of kept) {
+        if (!(await deferredQueue.claimNotification(notification))) {
+          continue;
+        }
+
+        try {
+          if (!events.has(notification.eventId)) {
+            events.set(notification.eventId, getEventState(notification.eventId));
+          }
+
+          if (
+            deferredQueue.isStale(notification, await events.get(notification.eventId)!) ||
+            preferences.unsubscribedAt ||
+            preferences.enabledTypes[notification.type] === false
+          ) {
+            dropped++;
+            continue;
+          }
+
+          const { isInDND, nextAvailableTime } = doNotDisturbChecker.isInDoNotDisturbPeriod(preferences);
+
+          if (isInDND && notification.priority !== NotificationPriority.HIGH) {
+            await deferredQueue.deferNotification(
+              { userId, email: notification.email },
+              notification.type,
+              notification.priority,
+              notification.data,
+              notification.metadata,
+              notification.channels,
+              nextAvailableTime!
+            );
+            rescheduled++;
+            continue;
+          }
+
+          await dispatchToChannels(
+            preferences,
+            { userId, email: notification.email },
+            notification.type,
+            notification.priority,
+            notification.data,
+            {
+              ...notification.metadata,
+              deferredUntil: notification.scheduledFor,
+              requestId: context.awsRequestId,
+            },
+            notification.channels
+          );
+          sent++;
+        } catch (error) {
+          console.error(`Error releasing deferred notification ${notification.deferredId}:`, error);
+          // Retry on the next run
+          await deferredQueue.releaseNotification(notification);
+        }
+      }
+    } catch (error) {
+      console.error(`Error releasing deferred notifications for ${userId}:`, error);
+      // Unclaimed notifications stay due for the next run
+    }
+  }
+
+  console.log('Deferred notifications released', { due: due.length, sent, dropped, rescheduled });
+
+  return { sent, dropped, rescheduled };
+};
+
+/**
+ * Current status and start time of an event, or null if it was deleted
+ */
+async function getEventState(eventId: string): Promise<DeferredEventState | null> {
+  const response = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${eventId}`,
+        SK: 'METADATA',
+      },
+      ProjectionExpression: '#status, startDateTime',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+    })
+  );
+
+  return response.Item
+    ? { status: response.Item.status, startDateTime: response.Item.startDateTime }
+    : null;
+}
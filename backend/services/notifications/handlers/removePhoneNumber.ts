@@ -0,0 +1,56 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { phoneVerification } from '../lib/sms/phoneVerification';
+
+/**
+ * Remove the user's phone number and turn off SMS notifications
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Clear the number from the profile and release it for other accounts
+ * 3. Turn off SMS notifications
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<Record<string, any>> {
+  console.log('RemovePhoneNumber handler invoked', { requestId: context.awsRequestId });
+
+  try {
+    // 1. Get user from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2-3. Unlink the number
+    const result = await phoneVerification.removePhoneNumber(userId);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error));
+    }
+
+    console.log('Phone number removed', { userId });
+
+    return result.user!;
+  } catch (error) {
+    console.error('Error removing phone number:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
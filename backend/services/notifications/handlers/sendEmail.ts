@@ -173,6 +173,14 @@ const SUBJECT_TEMPLATES: Record<NotificationType, string> = {
   [NotificationType.EVENT_CANCELLED]: '❌ Event Cancelled - {{eventTitle}}',
   [NotificationType.EVENT_REMINDER_24H]: '⏰ Tomorrow: {{eventTitle}}',
   [NotificationType.EVENT_REMINDER_1H]: '🚀 Starting Soon: {{eventTitle}}',
+  [NotificationType.PROMOTION_EXPIRED]: '⌛ Spot Offer Expired - {{eventTitle}}',
+  [NotificationType.EVENT_APPROVED]: '✅ Event Approved - {{eventTitle}}',
+  [NotificationType.EVENT_REJECTED]: '📝 Changes Requested - {{eventTitle}}',
+  [NotificationType.SAVED_SEARCH_MATCH]: '🔎 {{matchSummary}}',
+  [NotificationType.EVENT_FEEDBACK_REQUEST]: '⭐ How was {{eventTitle}}?',
+  [NotificationType.ORGANIZER_ACCESS_APPROVED]: '🎉 You can now organize events on TEMS',
+  [NotificationType.ORGANIZER_ACCESS_DENIED]: '📝 Update on your organizer access request',
+  [NotificationType.DIGEST]: '📬 {{digestSummary}}',
 };
 
 /**
@@ -188,6 +196,14 @@ function getTemplateName(notificationType: NotificationType): string {
     [NotificationType.EVENT_CANCELLED]: 'event-cancelled',
     [NotificationType.EVENT_REMINDER_24H]: 'event-reminder-24h',
     [NotificationType.EVENT_REMINDER_1H]: 'event-reminder-1h',
+    [NotificationType.PROMOTION_EXPIRED]: 'promotion-expired',
+    [NotificationType.EVENT_APPROVED]: 'event-approved',
+    [NotificationType.EVENT_REJECTED]: 'event-rejected',
+    [NotificationType.SAVED_SEARCH_MATCH]: 'saved-search-match',
+    [NotificationType.EVENT_FEEDBACK_REQUEST]: 'event-feedback-request',
+    [NotificationType.ORGANIZER_ACCESS_APPROVED]: 'organizer-access-approved',
+    [NotificationType.ORGANIZER_ACCESS_DENIED]: 'organizer-access-denied',
+    [NotificationType.DIGEST]: 'digest',
   };
   return mapping[notificationType];
 }
@@ -0,0 +1,88 @@
+import { Context } from 'aws-lambda';
+import { sendPushMessage } from '../lib/push/webPushClient';
+import { pushSubscriptions } from '../lib/push/pushSubscriptions';
+import { getNotificationTitle, getNotificationMessage } from '../lib/delivery/notificationContent';
+import { NotificationPriority, SendPushRequest } from '../types/notification.types';
+
+/**
+ * Push urgency by notification priority (lets browsers save battery on low priority)
+ */
+const URGENCY: Record<NotificationPriority, 'low' | 'normal' | 'high'> = {
+  [NotificationPriority.HIGH]: 'high',
+  [NotificationPriority.MEDIUM]: 'normal',
+  [NotificationPriority.NORMAL]: 'normal',
+  [NotificationPriority.LOW]: 'low',
+};
+
+/**
+ * Send browser push notification
+ *
+ * Flow:
+ * 1. Look up the user's browser subscriptions (skip if none)
+ * 2. Build the payload shown by the service worker
+ * 3. Send to every subscription via the Web Push protocol
+ * 4. Delete subscriptions the push service reports as expired (404/410)
+ *
+ * Pushes are not retried: the push service already queues messages for offline browsers.
+ */
+export async function handler(
+  event: SendPushRequest,
+  context: Context
+): Promise<{ success: boolean; sent: number; expired: number; error?: string }> {
+  console.log('Sending push notification:', JSON.stringify(event, null, 2));
+
+  const { userId, notificationType, priority, data, metadata } = event;
+
+  try {
+    const subscriptions = await pushSubscriptions.listSubscriptions(userId);
+    if (subscriptions.length === 0) {
+      console.log(`User ${userId} has no push subscriptions, skipping`);
+      return { success: false, sent: 0, expired: 0, error: 'No push subscriptions' };
+    }
+
+    const tag = `${notificationType}-${metadata.eventId}`;
+    const payload = {
+      title: getNotificationTitle(notificationType, data),
+      body: getNotificationMessage(notificationType, data),
+      url: data.eventUrl,
+      tag,
+      type: notificationType,
+    };
+
+    let sent = 0;
+    let expired = 0;
+
+    for (const subscription of subscriptions) {
+      const result = await sendPushMessage(subscription, payload, {
+        urgency: URGENCY[priority] || 'normal',
+        topic: tag.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 32),
+      });
+
+      if (result.success) {
+        sent++;
+      } else if (result.expired) {
+        await pushSubscriptions.deleteSubscription(userId, subscription.endpoint);
+        expired++;
+      } else {
+        console.error('Error sending push:', {
+          endpoint: new URL(subscription.endpoint).origin,
+          statusCode: result.statusCode,
+          error: result.error,
+        });
+      }
+    }
+
+    console.log('Push notification sent', { userId, sent, expired, total: subscriptions.length });
+
+    return { success: sent > 0, sent, expired };
+  } catch (error: any) {
+    console.error('Error sending push notification:', error);
+
+    return {
+      success: false,
+      sent: 0,
+      expired: 0,
+      error: error.message,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { Context } from 'aws-lambda';
+import { getSmsProvider } from '../lib/sms/smsProvider';
+import { renderSmsTemplate } from '../lib/sms/smsTemplates';
+import { smsRecipients } from '../lib/sms/smsRecipients';
+import { trackSmsSent, trackSmsFailed } from '../lib/email/deliveryTracker';
+import { SendSmsRequest } from '../types/notification.types';
+
+/**
+ * Send SMS notification
+ *
+ * Flow:
+ * 1. Look up the user's verified phone number (skip if none or opted out)
+ * 2. Count the message against the user's daily SMS cap (skip if reached)
+ * 3. Render the text template
+ * 4. Send via the configured SMS provider
+ * 5. Track delivery status in DynamoDB
+ * 6. Record carrier opt-outs so the number is not texted again
+ *
+ * Texts are not retried: a late text is worse than none.
+ */
+export async function handler(
+  event: SendSmsRequest,
+  context: Context
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  console.log('Sending SMS notification:', JSON.stringify(event, null, 2));
+
+  const { userId, notificationType, data, metadata } = event;
+
+  const phoneNumber = await smsRecipients.getSmsRecipient(userId);
+  if (!phoneNumber) {
+    console.log(`User ${userId} has no verified phone number for SMS, skipping`);
+    return { success: false, error: 'No verified phone number' };
+  }
+
+  if (!(await smsRecipients.reserveDailySms(userId))) {
+    console.log(`User ${userId} reached the daily SMS cap, skipping ${notificationType}`);
+    return { success: false, error: 'Daily SMS cap reached' };
+  }
+
+  const body = renderSmsTemplate(notificationType, data);
+  const result = await getSmsProvider().sendSms(phoneNumber, body);
+
+  if (!result.success) {
+    console.error('Error sending SMS:', result.error);
+
+    await trackSmsFailed({
+      userId,
+      notificationType,
+      recipient: phoneNumber,
+      error: {
+        code: result.error!.code,
+        message: result.error!.message,
+        details: null,
+      },
+      metadata,
+    });
+
+    if (result.error!.optedOut) {
+      await smsRecipients.recordOptOut(phoneNumber);
+    }
+
+    return {
+      success: false,
+      error: result.error!.message,
+    };
+  }
+
+  await trackSmsSent({
+    userId,
+    notificationType,
+    recipient: phoneNumber,
+    messageId: result.messageId!,
+    metadata,
+  });
+
+  console.log('SMS sent successfully:', result.messageId);
+
+  return {
+    success: true,
+    messageId: result.messageId,
+  };
+}
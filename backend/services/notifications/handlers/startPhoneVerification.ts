@@ -0,0 +1,56 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { phoneVerification } from '../lib/sms/phoneVerification';
+
+/**
+ * Text a verification code to the phone number the user wants SMS on
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Normalize the number and make sure no other account uses it
+ * 3. Store a hashed one-time code and text it to the number
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ phoneNumber: string }>,
+  context: Context
+): Promise<boolean> {
+  console.log('StartPhoneVerification handler invoked', { requestId: context.awsRequestId });
+
+  try {
+    // 1. Get user from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2-3. Validate the number and send the code
+    const result = await phoneVerification.startVerification(userId, event.arguments.phoneNumber);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error));
+    }
+
+    console.log('Phone verification code sent', { userId });
+
+    return true;
+  } catch (error) {
+    console.error('Error starting phone verification:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,38 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { pushSubscriptions } from '../lib/push/pushSubscriptions';
+import { NotificationType } from '../types/notification.types';
+
+/**
+ * Remove a browser's push subscription (user turned push off on that browser)
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Delete the subscription
+ * 3. Return the updated push settings
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ endpoint: string }>,
+  context: Context
+): Promise<{ types: NotificationType[]; deviceCount: number }> {
+  console.log('UnregisterPushSubscription handler invoked', { requestId: context.awsRequestId });
+
+  // 1. Get user from AppSync identity
+  const userId = getUserIdFromIdentity(event.identity);
+  if (!userId) {
+    throw new Error(
+      JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      })
+    );
+  }
+
+  // 2. Delete the subscription
+  await pushSubscriptions.deleteSubscription(userId, event.arguments.endpoint);
+
+  console.log('Push subscription removed', { userId });
+
+  // 3. Return settings
+  return pushSubscriptions.getPushSettings(userId);
+}
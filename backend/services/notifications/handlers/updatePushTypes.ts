@@ -0,0 +1,47 @@
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { preferencesManager } from '../lib/preferences/preferencesManager';
+import { pushSubscriptions } from '../lib/push/pushSubscriptions';
+import { NotificationType } from '../types/notification.types';
+
+/**
+ * Digests summarize emails and are never pushed
+ */
+const NON_PUSHABLE_TYPES = [NotificationType.DIGEST];
+
+/**
+ * Choose which notification types are sent as browser push
+ *
+ * Flow:
+ * 1. Get user from AppSync identity
+ * 2. Save the opted-in types (applies to every subscribed browser)
+ * 3. Return the updated push settings
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ types: NotificationType[] }>,
+  context: Context
+): Promise<{ types: NotificationType[]; deviceCount: number }> {
+  console.log('UpdatePushTypes handler invoked', { requestId: context.awsRequestId });
+
+  // 1. Get user from AppSync identity
+  const userId = getUserIdFromIdentity(event.identity);
+  if (!userId) {
+    throw new Error(
+      JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      })
+    );
+  }
+
+  // 2. Save the types
+  const types = Array.from(new Set(event.arguments.types)).filter(
+    (type) => !NON_PUSHABLE_TYPES.includes(type)
+  );
+  await preferencesManager.updatePreferences(userId, { pushTypes: types });
+
+  console.log('Push types updated', { userId, types });
+
+  // 3. Return settings
+  return pushSubscriptions.getPushSettings(userId);
+}
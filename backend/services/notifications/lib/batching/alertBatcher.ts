@@ -0,0 +1,364 @@
+/**
+ * TEMS Notification System - Alert Batcher
+ *
+ * Collects saved-search matches per user and releases them together,
+ * following the user's notification frequency settings:
+ * - digest enabled: daily at 08:00 or weekly on Monday at 08:00 (user's timezone)
+ * - batching enabled: intervalMinutes after the first pending match
+ * - otherwise: sent immediately
+ *
+ * DynamoDB Schema:
+ * Pending match:  PK: USER#{userId}, SK: ALERT_BATCH#ITEM#{eventId}
+ * Batch header:   PK: USER#{userId}, SK: ALERT_BATCH#HEADER
+ *                 GSI1PK: ALERT_BATCH#DUE, GSI1SK: {releaseAt}#{userId}
+ *
+ * @module notifications/lib/batching/alertBatcher
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  DeleteCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { NotificationPreferences } from '../../types/notification.types';
+
+const client = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
+
+const DUE_PARTITION = 'ALERT_BATCH#DUE';
+const DIGEST_HOUR = 8;
+const DIGEST_WEEKDAY = 1; // Monday
+const DEFAULT_BATCH_INTERVAL_MINUTES = 60;
+const PENDING_TTL_SECONDS = 14 * 24 * 60 * 60;
+
+/**
+ * Match waiting to be sent
+ */
+export interface PendingMatch {
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  savedSearchNames: string[];
+}
+
+/**
+ * Batch whose release time has passed
+ */
+export interface DueBatch {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  releaseAt: string;
+}
+
+/**
+ * When a new match should be released
+ *
+ * @param preferences - User notification preferences
+ * @param now - Current time
+ * @returns Release time, or null to send immediately
+ */
+export function getBatchReleaseTime(
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): Date | null {
+  const { frequency } = preferences;
+
+  if (frequency?.digestEnabled) {
+    const timezone = preferences.doNotDisturb?.timezone || 'America/New_York';
+    return nextDigestTime(now, timezone, frequency.digestFrequency === 'weekly');
+  }
+
+  if (frequency?.batchNotifications?.enabled) {
+    const intervalMinutes = frequency.batchNotifications.intervalMinutes || DEFAULT_BATCH_INTERVAL_MINUTES;
+    return new Date(now.getTime() + intervalMinutes * 60 * 1000);
+  }
+
+  return null;
+}
+
+/**
+ * Add a match to the user's pending batch
+ * The batch keeps the release time of its first match; matching the same
+ * event through several saved searches adds to one entry
+ *
+ * @param recipient - User ID, email address and name
+ * @param match - Matched event and saved search name
+ * @param releaseAt - Release time for a new batch
+ */
+export async function queueMatch(
+  recipient: { userId: string; email: string; name: string },
+  match: Omit<PendingMatch, 'savedSearchNames'> & { savedSearchName: string },
+  releaseAt: Date
+): Promise<void> {
+  const ttl = Math.floor(Date.now() / 1000) + PENDING_TTL_SECONDS;
+
+  await dynamoDB.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${recipient.userId}`,
+        SK: `ALERT_BATCH#ITEM#${match.eventId}`,
+      },
+      UpdateExpression:
+        'SET eventId = :eventId, eventTitle = :eventTitle, eventDate = :eventDate, ' +
+        'eventTime = :eventTime, eventLocation = :eventLocation, #ttl = :ttl ' +
+        'ADD savedSearchNames :savedSearchNames',
+      ExpressionAttributeNames: {
+        '#ttl': 'ttl',
+      },
+      ExpressionAttributeValues: {
+        ':eventId': match.eventId,
+        ':eventTitle': match.eventTitle,
+        ':eventDate': match.eventDate,
+        ':eventTime': match.eventTime,
+        ':eventLocation': match.eventLocation,
+        ':savedSearchNames': new Set([match.savedSearchName]),
+        ':ttl': ttl,
+      },
+    })
+  );
+
+  const releaseAtIso = releaseAt.toISOString();
+
+  await dynamoDB.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${recipient.userId}`,
+        SK: 'ALERT_BATCH#HEADER',
+      },
+      UpdateExpression:
+        'SET releaseAt = if_not_exists(releaseAt, :releaseAt), ' +
+        'GSI1PK = :duePk, GSI1SK = if_not_exists(GSI1SK, :dueSk), ' +
+        'userId = :userId, userEmail = :userEmail, userName = :userName, #ttl = :ttl',
+      ExpressionAttributeNames: {
+        '#ttl': 'ttl',
+      },
+      ExpressionAttributeValues: {
+        ':releaseAt': releaseAtIso,
+        ':duePk': DUE_PARTITION,
+        ':dueSk': `${releaseAtIso}#${recipient.userId}`,
+        ':userId': recipient.userId,
+        ':userEmail': recipient.email,
+        ':userName': recipient.name,
+        ':ttl': ttl,
+      },
+    })
+  );
+}
+
+/**
+ * List batches due for release
+ *
+ * @param now - Current time
+ * @returns Batches whose release time has passed, oldest first
+ */
+export async function listDueBatches(now: Date = new Date()): Promise<DueBatch[]> {
+  const batches: DueBatch[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await dynamoDB.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK < :now',
+        ExpressionAttributeValues: {
+          ':pk': DUE_PARTITION,
+          ':now': now.toISOString(),
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    for (const item of response.Items || []) {
+      batches.push({
+        userId: item.userId,
+        userEmail: item.userEmail,
+        userName: item.userName,
+        releaseAt: item.releaseAt,
+      });
+    }
+
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return batches;
+}
+
+/**
+ * Take a user's batch for sending
+ * Removes the header first, so matches queued from now on start a new batch
+ *
+ * @param userId - User ID
+ * @returns Pending matches of the batch
+ */
+export async function claimBatch(userId: string): Promise<PendingMatch[]> {
+  await dynamoDB.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'ALERT_BATCH#HEADER',
+      },
+    })
+  );
+
+  const response = await dynamoDB.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':prefix': 'ALERT_BATCH#ITEM#',
+      },
+    })
+  );
+
+  return (response.Items || []).map((item) => ({
+    eventId: item.eventId,
+    eventTitle: item.eventTitle,
+    eventDate: item.eventDate,
+    eventTime: item.eventTime,
+    eventLocation: item.eventLocation,
+    savedSearchNames: Array.from(item.savedSearchNames || []).sort() as string[],
+  }));
+}
+
+/**
+ * Remove sent (or dropped) matches from a user's batch
+ *
+ * @param userId - User ID
+ * @param eventIds - Event IDs of the matches
+ */
+export async function removeMatches(userId: string, eventIds: string[]): Promise<void> {
+  // BatchWrite allows max 25 items per call
+  for (let i = 0; i < eventIds.length; i += 25) {
+    await dynamoDB.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: eventIds.slice(i, i + 25).map((eventId) => ({
+            DeleteRequest: {
+              Key: {
+                PK: `USER#${userId}`,
+                SK: `ALERT_BATCH#ITEM#${eventId}`,
+              },
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Put a claimed batch back so the next run retries it
+ *
+ * @param batch - Batch that failed to send
+ */
+export async function releaseBatch(batch: DueBatch): Promise<void> {
+  await dynamoDB.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: `USER#${batch.userId}`,
+        SK: 'ALERT_BATCH#HEADER',
+        GSI1PK: DUE_PARTITION,
+        GSI1SK: `${batch.releaseAt}#${batch.userId}`,
+        ...batch,
+        ttl: Math.floor(Date.now() / 1000) + PENDING_TTL_SECONDS,
+      },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    })
+  ).catch((error) => {
+    // A new match already started another batch, which will include these
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  });
+}
+
+/**
+ * Template data for a saved-search match notification
+ * A single match links to the event; several link to the saved searches page
+ *
+ * @param recipient - User ID and name
+ * @param matches - Matches to include
+ * @returns Template data for sendEmail and createInAppNotification
+ */
+export function buildMatchNotificationData(
+  recipient: { userId: string; name?: string },
+  matches: PendingMatch[]
+): Record<string, any> {
+  const savedSearchesUrl = `${process.env.FRONTEND_URL}/dashboard/saved-searches`;
+  const matchData = matches.map((match) => ({
+    ...match,
+    eventUrl: `${process.env.FRONTEND_URL}/events/${match.eventId}`,
+  }));
+
+  return {
+    userName: recipient.name || 'there',
+    matches: matchData,
+    matchSummary:
+      matches.length === 1
+        ? `New match: ${matches[0].eventTitle}`
+        : `${matches.length} new events match your saved searches`,
+    eventTitle: matches.length === 1 ? matches[0].eventTitle : undefined,
+    eventUrl: matches.length === 1 ? matchData[0].eventUrl : savedSearchesUrl,
+    savedSearchesUrl,
+    preferencesUrl: `${process.env.FRONTEND_URL}/settings/notifications`,
+    unsubscribeUrl: `${process.env.FRONTEND_URL}/unsubscribe?userId=${recipient.userId}`,
+    supportUrl: `${process.env.FRONTEND_URL}/support`,
+    currentYear: new Date().getFullYear(),
+  };
+}
+
+/**
+ * Next digest time in the user's timezone
+ * Wall-clock arithmetic is done in the runtime's local time and shifted by the timezone offset
+ */
+function nextDigestTime(now: Date, timezone: string, weekly: boolean): Date {
+  let userTime: Date;
+  try {
+    userTime = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
+  } catch (error) {
+    console.error('Invalid timezone, using UTC:', timezone);
+    userTime = new Date(now.toLocaleString('en-US', { timeZone: 'UTC' }));
+  }
+  // toLocaleString drops milliseconds; timezone offsets are whole minutes
+  const offsetMs = Math.round((userTime.getTime() - now.getTime()) / 60000) * 60000;
+
+  const release = new Date(userTime);
+  release.setHours(DIGEST_HOUR, 0, 0, 0);
+
+  if (release <= userTime) {
+    release.setDate(release.getDate() + 1);
+  }
+
+  while (weekly && release.getDay() !== DIGEST_WEEKDAY) {
+    release.setDate(release.getDate() + 1);
+  }
+
+  return new Date(release.getTime() - offsetMs);
+}
+
+export const alertBatcher = {
+  getBatchReleaseTime,
+  queueMatch,
+  listDueBatches,
+  claimBatch,
+  removeMatches,
+  releaseBatch,
+  buildMatchNotificationData,
+};
+
+export default alertBatcher;
@@ -0,0 +1,414 @@
+/**
+ * TEMS Notification System - Digest Batcher
+ *
+ * Defers the email for low and medium priority notifications into one digest
+ * per user, released on the same schedule as saved-search alert batches
+ * (see getBatchReleaseTime). High priority and time-sensitive notifications
+ * are never deferred; in-app notifications are always created immediately.
+ *
+ * DynamoDB Schema:
+ * Pending entry:  PK: USER#{userId}, SK: DIGEST#ITEM#{queuedAt}#{uuid}
+ * Digest header:  PK: USER#{userId}, SK: DIGEST#HEADER
+ *                 GSI1PK: DIGEST#DUE, GSI1SK: {releaseAt}#{userId}
+ *
+ * @module notifications/lib/batching/digestBatcher
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  DeleteCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  DigestEntryData,
+  NotificationPreferences,
+  NotificationPriority,
+  NotificationType,
+} from '../../types/notification.types';
+import { getBatchReleaseTime } from './alertBatcher';
+
+const client = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
+
+const DUE_PARTITION = 'DIGEST#DUE';
+const PENDING_TTL_SECONDS = 14 * 24 * 60 * 60;
+
+/**
+ * Only useful before the event starts, so a digest could deliver them too late
+ */
+const TIME_SENSITIVE_TYPES = [
+  NotificationType.EVENT_REMINDER_24H,
+  NotificationType.EVENT_REMINDER_1H,
+];
+
+/**
+ * Digest line for each notification type that can be deferred
+ */
+const DIGEST_HEADLINES: Partial<Record<NotificationType, string>> = {
+  [NotificationType.REGISTRATION_CONFIRMED]: 'Registration confirmed',
+  [NotificationType.WAITLIST_ADDED]: 'Added to the waitlist',
+  [NotificationType.REGISTRATION_CANCELLED]: 'Registration cancelled',
+  [NotificationType.EVENT_UPDATED]: 'Event updated',
+  [NotificationType.PROMOTION_EXPIRED]: 'Spot offer expired',
+  [NotificationType.EVENT_APPROVED]: 'Event approved',
+  [NotificationType.EVENT_REJECTED]: 'Changes requested',
+  [NotificationType.EVENT_FEEDBACK_REQUEST]: 'Feedback requested',
+};
+
+/**
+ * Entry waiting in a user's digest
+ */
+export interface PendingDigestEntry extends DigestEntryData {
+  entryId: string;
+}
+
+/**
+ * Digest whose release time has passed
+ */
+export interface DueDigest {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  releaseAt: string;
+}
+
+/**
+ * Whether a notification's email may wait for the user's digest
+ * Saved-search matches are batched separately by the alert batcher
+ *
+ * @param notificationType - Notification type
+ * @param priority - Notification priority
+ */
+export function isDigestible(
+  notificationType: NotificationType,
+  priority: NotificationPriority
+): boolean {
+  return (
+    priority !== NotificationPriority.HIGH &&
+    !TIME_SENSITIVE_TYPES.includes(notificationType) &&
+    DIGEST_HEADLINES[notificationType] !== undefined
+  );
+}
+
+/**
+ * When a deferred email should be released
+ *
+ * @param preferences - User notification preferences
+ * @param now - Current time
+ * @returns Release time, or null to send immediately
+ */
+export function getDigestReleaseTime(
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): Date | null {
+  return getBatchReleaseTime(preferences, now);
+}
+
+/**
+ * Add a notification to the user's pending digest
+ * The digest keeps the release time of its first entry
+ *
+ * @param recipient - User ID, email address and name
+ * @param notificationType - Notification type
+ * @param eventId - Event the notification is about
+ * @param data - Template data prepared for the notification
+ * @param releaseAt - Release time for a new digest
+ */
+export async function queueEntry(
+  recipient: { userId: string; email: string; name: string },
+  notificationType: NotificationType,
+  eventId: string,
+  data: Record<string, any>,
+  releaseAt: Date
+): Promise<void> {
+  const queuedAt = new Date().toISOString();
+  const ttl = Math.floor(Date.now() / 1000) + PENDING_TTL_SECONDS;
+  const entry: DigestEntryData = {
+    notificationType,
+    headline: DIGEST_HEADLINES[notificationType] || 'Update',
+    detail: describeEntry(notificationType, data),
+    eventId,
+    eventTitle: data.eventTitle,
+    eventDate: data.eventDate,
+    eventTime: data.eventTime,
+    eventLocation: data.eventLocation,
+    eventUrl: data.eventUrl,
+    queuedAt,
+  };
+
+  await dynamoDB.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: `USER#${recipient.userId}`,
+        SK: `DIGEST#ITEM#${queuedAt}#${randomUUID()}`,
+        ...entry,
+        ttl,
+      },
+    })
+  );
+
+  const releaseAtIso = releaseAt.toISOString();
+
+  await dynamoDB.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${recipient.userId}`,
+        SK: 'DIGEST#HEADER',
+      },
+      UpdateExpression:
+        'SET releaseAt = if_not_exists(releaseAt, :releaseAt), ' +
+        'GSI1PK = :duePk, GSI1SK = if_not_exists(GSI1SK, :dueSk), ' +
+        'userId = :userId, userEmail = :userEmail, userName = :userName, #ttl = :ttl',
+      ExpressionAttributeNames: {
+        '#ttl': 'ttl',
+      },
+      ExpressionAttributeValues: {
+        ':releaseAt': releaseAtIso,
+        ':duePk': DUE_PARTITION,
+        ':dueSk': `${releaseAtIso}#${recipient.userId}`,
+        ':userId': recipient.userId,
+        ':userEmail': recipient.email,
+        ':userName': recipient.name,
+        ':ttl': ttl,
+      },
+    })
+  );
+}
+
+/**
+ * List digests due for release
+ *
+ * @param now - Current time
+ * @returns Digests whose release time has passed, oldest first
+ */
+export async function listDueDigests(now: Date = new Date()): Promise<DueDigest[]> {
+  const digests: DueDigest[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await dynamoDB.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK < :now',
+        ExpressionAttributeValues: {
+          ':pk': DUE_PARTITION,
+          ':now': now.toISOString(),
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    for (const item of response.Items || []) {
+      digests.push({
+        userId: item.userId,
+        userEmail: item.userEmail,
+        userName: item.userName,
+        releaseAt: item.releaseAt,
+      });
+    }
+
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return digests;
+}
+
+/**
+ * Take a user's digest for sending
+ * Removes the header first, so entries queued from now on start a new digest
+ *
+ * @param userId - User ID
+ * @returns Pending entries, oldest first
+ */
+export async function claimDigest(userId: string): Promise<PendingDigestEntry[]> {
+  await dynamoDB.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'DIGEST#HEADER',
+      },
+    })
+  );
+
+  const entries: PendingDigestEntry[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await dynamoDB.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':prefix': 'DIGEST#ITEM#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    for (const item of response.Items || []) {
+      entries.push({
+        entryId: item.SK,
+        notificationType: item.notificationType,
+        headline: item.headline,
+        detail: item.detail,
+        eventId: item.eventId,
+        eventTitle: item.eventTitle,
+        eventDate: item.eventDate,
+        eventTime: item.eventTime,
+        eventLocation: item.eventLocation,
+        eventUrl: item.eventUrl,
+        queuedAt: item.queuedAt,
+      });
+    }
+
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return entries;
+}
+
+/**
+ * Remove sent (or dropped) entries from a user's digest
+ *
+ * @param userId - User ID
+ * @param entryIds - Entry IDs returned by claimDigest
+ */
+export async function removeEntries(userId: string, entryIds: string[]): Promise<void> {
+  // BatchWrite allows max 25 items per call
+  for (let i = 0; i < entryIds.length; i += 25) {
+    await dynamoDB.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: entryIds.slice(i, i + 25).map((entryId) => ({
+            DeleteRequest: {
+              Key: {
+                PK: `USER#${userId}`,
+                SK: entryId,
+              },
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Put a claimed digest back so the next run retries it
+ *
+ * @param digest - Digest that failed to send
+ */
+export async function releaseDigest(digest: DueDigest): Promise<void> {
+  await dynamoDB.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: `USER#${digest.userId}`,
+        SK: 'DIGEST#HEADER',
+        GSI1PK: DUE_PARTITION,
+        GSI1SK: `${digest.releaseAt}#${digest.userId}`,
+        ...digest,
+        ttl: Math.floor(Date.now() / 1000) + PENDING_TTL_SECONDS,
+      },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    })
+  ).catch((error) => {
+    // A new entry already started another digest, which will include these
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  });
+}
+
+/**
+ * Template data for a digest email
+ *
+ * @param recipient - User ID and name
+ * @param entries - Entries to include, oldest first
+ * @param preferences - User notification preferences, for the digest title
+ * @returns Template data for sendEmail
+ */
+export function buildDigestNotificationData(
+  recipient: { userId: string; name?: string },
+  entries: DigestEntryData[],
+  preferences: NotificationPreferences
+): Record<string, any> {
+  const { frequency } = preferences;
+  const digestTitle = frequency?.digestEnabled
+    ? frequency.digestFrequency === 'weekly'
+      ? 'Your Weekly Digest'
+      : 'Your Daily Digest'
+    : 'Your Latest Updates';
+
+  return {
+    userName: recipient.name || 'there',
+    entries,
+    digestTitle,
+    digestSummary: `${digestTitle}: ${entries.length} ${entries.length === 1 ? 'update' : 'updates'}`,
+    dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`,
+    preferencesUrl: `${process.env.FRONTEND_URL}/settings/notifications`,
+    unsubscribeUrl: `${process.env.FRONTEND_URL}/unsubscribe?userId=${recipient.userId}`,
+    supportUrl: `${process.env.FRONTEND_URL}/support`,
+    currentYear: new Date().getFullYear(),
+  };
+}
+
+/**
+ * Short type-specific detail shown under the digest line
+ */
+function describeEntry(notificationType: NotificationType, data: Record<string, any>): string | undefined {
+  switch (notificationType) {
+    case NotificationType.REGISTRATION_CONFIRMED:
+      return data.ticketNumber ? `Ticket #${data.ticketNumber}` : undefined;
+
+    case NotificationType.WAITLIST_ADDED:
+      return `You're #${data.waitlistPosition} on the waitlist`;
+
+    case NotificationType.PROMOTION_EXPIRED:
+      return data.requeued
+        ? `You're back on the waitlist at #${data.waitlistPosition}`
+        : 'Your registration was cancelled';
+
+    case NotificationType.EVENT_UPDATED:
+      return data.updateMessage;
+
+    case NotificationType.EVENT_APPROVED:
+      return data.reviewComment ? `Reviewer note: ${data.reviewComment}` : undefined;
+
+    case NotificationType.EVENT_REJECTED:
+      return `Reason: ${data.rejectionReason}`;
+
+    case NotificationType.EVENT_FEEDBACK_REQUEST:
+      return `Share your feedback by ${data.feedbackDeadline}`;
+
+    default:
+      return undefined;
+  }
+}
+
+export const digestBatcher = {
+  isDigestible,
+  getDigestReleaseTime,
+  queueEntry,
+  listDueDigests,
+  claimDigest,
+  removeEntries,
+  releaseDigest,
+  buildDigestNotificationData,
+};
+
+export default digestBatcher;
@@ -0,0 +1,148 @@
+/**
+ * TEMS Notification System - Channel Dispatcher
+ * 
+ * Hands a prepared notification to the email, in-app, SMS and push senders
+ * enabled in the user's preferences.
+ * 
+ * @module notifications/lib/delivery/channelDispatcher
+ */
+
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+import {
+  NotificationPreferences,
+  NotificationType,
+  NotificationChannel,
+  NotificationPriority,
+  SendEmailRequest,
+  SendSmsRequest,
+  SendPushRequest,
+  CreateInAppNotificationRequest,
+} from '../../types/notification.types';
+
+const lambdaClient = new LambdaClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const STAGE = process.env.STAGE || 'dev';
+const SEND_SMS_FUNCTION_NAME = process.env.SEND_SMS_FUNCTION_NAME!;
+const SEND_PUSH_FUNCTION_NAME = process.env.SEND_PUSH_FUNCTION_NAME!;
+
+/**
+ * Send a notification through every enabled channel
+ * Senders are invoked asynchronously and handle their own retries
+ * 
+ * @param preferences - Recipient's notification preferences
+ * @param recipient - Recipient user ID and email address
+ * @param notificationType - Notification type
+ * @param priority - Notification priority
+ * @param data - Template data
+ * @param metadata - Tracking metadata (eventId, requestId)
+ * @param channels - Channels to consider (default: all)
+ */
+export async function dispatchToChannels(
+  preferences: NotificationPreferences,
+  recipient: { userId: string; email: string },
+  notificationType: NotificationType,
+  priority: NotificationPriority,
+  data: Record<string, any>,
+  metadata: Record<string, any>,
+  channels: NotificationChannel[] = [
+    NotificationChannel.EMAIL,
+    NotificationChannel.IN_APP,
+    NotificationChannel.SMS,
+    NotificationChannel.PUSH,
+  ]
+): Promise<void> {
+  const sendPromises: Promise<any>[] = [];
+
+  // Email notification
+  if (preferences.emailEnabled && channels.includes(NotificationChannel.EMAIL)) {
+    const emailRequest: SendEmailRequest = {
+      userId: recipient.userId,
+      email: recipient.email,
+      notificationType,
+      priority,
+      data,
+      metadata,
+      attempt: 1,
+    };
+
+    sendPromises.push(
+      lambdaClient.send(
+        new InvokeCommand({
+          FunctionName: `tems-notifications-${STAGE}-sendEmail`,
+          InvocationType: 'Event', // Async invocation
+          Payload: JSON.stringify(emailRequest),
+        })
+      )
+    );
+  }
+
+  // In-app notification
+  if (preferences.inAppEnabled && channels.includes(NotificationChannel.IN_APP)) {
+    const inAppRequest: CreateInAppNotificationRequest = {
+      userId: recipient.userId,
+      notificationType,
+      priority,
+      data,
+      metadata,
+    };
+
+    sendPromises.push(
+      lambdaClient.send(
+        new InvokeCommand({
+          FunctionName: `tems-notifications-${STAGE}-createInAppNotification`,
+          InvocationType: 'Event', // Async invocation
+          Payload: JSON.stringify(inAppRequest),
+        })
+      )
+    );
+  }
+
+  // SMS notification (phone number and daily cap checked by the sender)
+  if (preferences.smsEnabled && channels.includes(NotificationChannel.SMS)) {
+    const smsRequest: SendSmsRequest = {
+      userId: recipient.userId,
+      notificationType,
+      priority,
+      data,
+      metadata,
+    };
+
+    sendPromises.push(
+      lambdaClient.send(
+        new InvokeCommand({
+          FunctionName: SEND_SMS_FUNCTION_NAME,
+          InvocationType: 'Event', // Async invocation
+          Payload: JSON.stringify(smsRequest),
+        })
+      )
+    );
+  }
+
+  // Browser push notification (opt-in per type)
+  if (preferences.pushTypes?.includes(notificationType) && channels.includes(NotificationChannel.PUSH)) {
+    const pushRequest: SendPushRequest = {
+      userId: recipient.userId,
+      notificationType,
+      priority,
+      data,
+      metadata,
+    };
+
+    sendPromises.push(
+      lambdaClient.send(
+        new InvokeCommand({
+          FunctionName: SEND_PUSH_FUNCTION_NAME,
+          InvocationType: 'Event', // Async invocation
+          Payload: JSON.stringify(pushRequest),
+        })
+      )
+    );
+  }
+
+  await Promise.allSettled(sendPromises);
+}
+
+export const channelDispatcher = {
+  dispatchToChannels,
+};
+
+export default channelDispatcher;
@@ -0,0 +1,269 @@
+/**
+ * TEMS Notification System - Deferred Delivery Queue
+ *
+ * Holds notifications suppressed by Do Not Disturb until the user's quiet
+ * hours end. The release job re-checks each one at send time, collapsing
+ * duplicates and dropping those that no longer make sense.
+ *
+ * DynamoDB Schema:
+ * Deferred notification:  PK: USER#{userId}, SK: DEFERRED#{scheduledFor}#{uuid}
+ *                         GSI1PK: DEFERRED#DUE, GSI1SK: {scheduledFor}#{userId}#{uuid}
+ *
+ * @module notifications/lib/delivery/deferredQueue
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  DeferredNotification,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '../../types/notification.types';
+
+const client = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
+
+const DUE_PARTITION = 'DEFERRED#DUE';
+const PENDING_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Only meaningful before the event starts
+ */
+const STALE_AFTER_START_TYPES = [
+  NotificationType.REGISTRATION_CONFIRMED,
+  NotificationType.WAITLIST_ADDED,
+  NotificationType.EVENT_UPDATED,
+  NotificationType.EVENT_REMINDER_24H,
+  NotificationType.EVENT_REMINDER_1H,
+  NotificationType.SAVED_SEARCH_MATCH,
+];
+
+/**
+ * Superseded by another pending notification for the same event
+ */
+const SUPERSEDED_BY: Partial<Record<NotificationType, NotificationType>> = {
+  [NotificationType.EVENT_REMINDER_24H]: NotificationType.EVENT_REMINDER_1H,
+};
+
+/**
+ * Event state used to decide whether a deferred notification is stale
+ */
+export interface DeferredEventState {
+  status: string;
+  startDateTime: string;
+}
+
+/**
+ * Hold a notification until the end of the user's DND period
+ *
+ * @param recipient - User ID and email address
+ * @param notificationType - Notification type
+ * @param priority - Notification priority
+ * @param data - Template data
+ * @param metadata - Tracking metadata (eventId, requestId)
+ * @param channels - Channels still to deliver
+ * @param scheduledFor - Release time
+ */
+export async function deferNotification(
+  recipient: { userId: string; email: string },
+  notificationType: NotificationType,
+  priority: NotificationPriority,
+  data: Record<string, any>,
+  metadata: Record<string, any>,
+  channels: NotificationChannel[],
+  scheduledFor: Date
+): Promise<void> {
+  const scheduledForIso = scheduledFor.toISOString();
+
+  await putNotification({
+    deferredId: `${scheduledForIso}#${randomUUID()}`,
+    userId: recipient.userId,
+    email: recipient.email,
+    type: notificationType,
+    priority,
+    eventId: metadata.eventId,
+    data,
+    metadata,
+    channels,
+    scheduledFor: scheduledForIso,
+    deferredAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * List deferred notifications due for release
+ *
+ * @param now - Current time
+ * @returns Notifications whose release time has passed, oldest first
+ */
+export async function listDueNotifications(now: Date = new Date()): Promise<DeferredNotification[]> {
+  const notifications: DeferredNotification[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await dynamoDB.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK < :now',
+        ExpressionAttributeValues: {
+          ':pk': DUE_PARTITION,
+          ':now': now.toISOString(),
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    for (const item of response.Items || []) {
+      notifications.push({
+        deferredId: item.deferredId,
+        userId: item.userId,
+        email: item.email,
+        type: item.type,
+        priority: item.priority,
+        eventId: item.eventId,
+        data: item.data,
+        metadata: item.metadata,
+        channels: item.channels,
+        scheduledFor: item.scheduledFor,
+        deferredAt: item.deferredAt,
+      });
+    }
+
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return notifications;
+}
+
+/**
+ * Take a deferred notification for sending
+ *
+ * @param notification - Deferred notification
+ * @returns false if another run already took it
+ */
+export async function claimNotification(notification: DeferredNotification): Promise<boolean> {
+  try {
+    await dynamoDB.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${notification.userId}`,
+          SK: `DEFERRED#${notification.deferredId}`,
+        },
+        ConditionExpression: 'attribute_exists(PK)',
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Put a claimed notification back so the next run retries it
+ *
+ * @param notification - Notification that failed to send
+ */
+export async function releaseNotification(notification: DeferredNotification): Promise<void> {
+  await putNotification(notification);
+}
+
+/**
+ * Collapse one user's due notifications
+ * Keeps the latest notification of each type per event, and drops those
+ * superseded by another pending notification (a 24h reminder next to a 1h one)
+ *
+ * @param notifications - Due notifications of one user
+ * @returns Notifications to consider sending, and those collapsed away
+ */
+export function collapseNotifications(
+  notifications: DeferredNotification[]
+): { kept: DeferredNotification[]; collapsed: DeferredNotification[] } {
+  const latest = new Map<string, DeferredNotification>();
+
+  for (const notification of [...notifications].sort((a, b) => a.deferredAt.localeCompare(b.deferredAt))) {
+    latest.set(`${notification.eventId}#${notification.type}`, notification);
+  }
+
+  const kept = Array.from(latest.values()).filter((notification) => {
+    const supersededBy = SUPERSEDED_BY[notification.type];
+    return !supersededBy || !latest.has(`${notification.eventId}#${supersededBy}`);
+  });
+
+  return {
+    kept,
+    collapsed: notifications.filter((notification) => !kept.includes(notification)),
+  };
+}
+
+/**
+ * Whether a deferred notification is out of date
+ * Everything about a deleted or cancelled event is stale except the cancellation
+ * itself; pre-event notifications are stale once the event has started
+ *
+ * @param notification - Deferred notification
+ * @param event - Current event state, or null if the event no longer exists
+ * @param now - Current time
+ */
+export function isStale(
+  notification: DeferredNotification,
+  event: DeferredEventState | null,
+  now: Date = new Date()
+): boolean {
+  if (!event) {
+    return true;
+  }
+
+  if (event.status === 'CANCELLED') {
+    return notification.type !== NotificationType.EVENT_CANCELLED;
+  }
+
+  return (
+    STALE_AFTER_START_TYPES.includes(notification.type) &&
+    event.startDateTime <= now.toISOString()
+  );
+}
+
+async function putNotification(notification: DeferredNotification): Promise<void> {
+  const [scheduledFor, id] = notification.deferredId.split('#');
+
+  await dynamoDB.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: `USER#${notification.userId}`,
+        SK: `DEFERRED#${notification.deferredId}`,
+        GSI1PK: DUE_PARTITION,
+        GSI1SK: `${scheduledFor}#${notification.userId}#${id}`,
+        ...notification,
+        ttl: Math.floor(new Date(scheduledFor).getTime() / 1000) + PENDING_TTL_SECONDS,
+      },
+    })
+  );
+}
+
+export const deferredQueue = {
+  deferNotification,
+  listDueNotifications,
+  claimNotification,
+  releaseNotification,
+  collapseNotifications,
+  isStale,
+};
+
+export default deferredQueue;
@@ -0,0 +1,110 @@
+/**
+ * TEMS Notification System - Notification Content
+ * 
+ * Short title and message of each notification type, shared by the
+ * in-app and browser push channels.
+ * 
+ * @module notifications/lib/delivery/notificationContent
+ */
+
+import { NotificationType } from '../../types/notification.types';
+
+/**
+ * Generate notification title based on type
+ */
+export function getNotificationTitle(
+  notificationType: NotificationType,
+  data: Record<string, any>
+): string {
+  const titles: Record<NotificationType, string> = {
+    [NotificationType.REGISTRATION_CONFIRMED]: '✅ Registration Confirmed',
+    [NotificationType.WAITLIST_ADDED]: '⏳ Added to Waitlist',
+    [NotificationType.WAITLIST_PROMOTED]: '🎉 You Got a Spot!',
+    [NotificationType.REGISTRATION_CANCELLED]: 'Registration Cancelled',
+    [NotificationType.EVENT_UPDATED]: '⚠️ Event Updated',
+    [NotificationType.EVENT_CANCELLED]: '❌ Event Cancelled',
+    [NotificationType.EVENT_REMINDER_24H]: '⏰ Event Tomorrow',
+    [NotificationType.EVENT_REMINDER_1H]: '🚀 Event Starting Soon',
+    [NotificationType.PROMOTION_EXPIRED]: '⌛ Spot Offer Expired',
+    [NotificationType.EVENT_APPROVED]: '✅ Event Approved',
+    [NotificationType.EVENT_REJECTED]: '📝 Event Needs Changes',
+    [NotificationType.SAVED_SEARCH_MATCH]: '🔎 New Events For You',
+    [NotificationType.EVENT_FEEDBACK_REQUEST]: '⭐ Share Your Feedback',
+    [NotificationType.ORGANIZER_ACCESS_APPROVED]: '🎉 Organizer Access Granted',
+    [NotificationType.ORGANIZER_ACCESS_DENIED]: '📝 Organizer Request Not Approved',
+    [NotificationType.DIGEST]: '📬 Your Digest',
+  };
+
+  return titles[notificationType];
+}
+
+/**
+ * Generate notification message based on type
+ */
+export function getNotificationMessage(
+  notificationType: NotificationType,
+  data: Record<string, any>
+): string {
+  const messages: Record<NotificationType, (data: any) => string> = {
+    [NotificationType.REGISTRATION_CONFIRMED]: (d: any) =>
+      `You're registered for ${d.eventTitle} on ${d.eventDate}`,
+    
+    [NotificationType.WAITLIST_ADDED]: (d) =>
+      `You're #${d.waitlistPosition} on the waitlist for ${d.eventTitle}`,
+    
+    [NotificationType.WAITLIST_PROMOTED]: (d) =>
+      `A spot opened up for ${d.eventTitle}! Confirm within 24 hours.`,
+    
+    [NotificationType.REGISTRATION_CANCELLED]: (d) =>
+      `Your registration for ${d.eventTitle} has been cancelled`,
+    
+    [NotificationType.EVENT_UPDATED]: (d) =>
+      `${d.eventTitle} has been updated. Please review the changes.`,
+    
+    [NotificationType.EVENT_CANCELLED]: (d) =>
+      `${d.eventTitle} has been cancelled. Your registration was automatically cancelled.`,
+    
+    [NotificationType.EVENT_REMINDER_24H]: (d) =>
+      `${d.eventTitle} is tomorrow at ${d.eventTime}`,
+    
+    [NotificationType.EVENT_REMINDER_1H]: (d) =>
+      `${d.eventTitle} starts in 1 hour at ${d.eventLocation}`,
+    
+    [NotificationType.PROMOTION_EXPIRED]: (d) =>
+      d.requeued
+        ? `Your spot for ${d.eventTitle} expired. You're back on the waitlist at #${d.waitlistPosition}.`
+        : `Your spot for ${d.eventTitle} expired and was offered to the next person.`,
+    
+    [NotificationType.EVENT_APPROVED]: (d) =>
+      `${d.eventTitle} was approved and is now published.`,
+    
+    [NotificationType.EVENT_REJECTED]: (d) =>
+      `${d.eventTitle} was not approved: ${d.rejectionReason}`,
+
+    [NotificationType.SAVED_SEARCH_MATCH]: (d) =>
+      d.matches.length === 1
+        ? `${d.matches[0].eventTitle} matches your saved search "${d.matches[0].savedSearchNames.join('", "')}".`
+        : `${d.matches.length} new events match your saved searches.`,
+
+    [NotificationType.EVENT_FEEDBACK_REQUEST]: (d) =>
+      `How was ${d.eventTitle}? Rate it and tell the organizer what you thought.`,
+
+    [NotificationType.ORGANIZER_ACCESS_APPROVED]: () =>
+      'You can now create events. Sign in again to start organizing.',
+
+    [NotificationType.ORGANIZER_ACCESS_DENIED]: (d) =>
+      `Your organizer access request was not approved: ${d.decisionNote}`,
+
+    [NotificationType.DIGEST]: (d) =>
+      `${d.entries.length} ${d.entries.length === 1 ? 'update' : 'updates'} since your last digest.`,
+  };
+
+  return messages[notificationType](data);
+}
+
+export const notificationContent = {
+  getNotificationTitle,
+  getNotificationMessage,
+};
+
+export default notificationContent;
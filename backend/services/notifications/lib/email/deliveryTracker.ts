@@ -1,7 +1,7 @@
 /**
  * TEMS Notification System - Delivery Tracker
  * 
- * Tracks email delivery status in DynamoDB.
+ * Tracks email and SMS delivery status in DynamoDB.
  * Monitors sent, delivered, bounced, and failed notifications.
  * 
  * @module notifications/lib/email/deliveryTracker
@@ -12,6 +12,10 @@ import { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand } from
 import { 
   DeliveryTracking, 
   DeliveryStatus, 
+  DeliveryOutcome,
+  DeliveryStats,
+  DeliveryStatsRecord,
+  ChannelDeliveryStats,
   NotificationChannel 
 } from '../../types/notification.types';
 
@@ -24,7 +28,7 @@ const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
  * Create a delivery tracking record
  * 
  * @param notificationId - Unique notification ID
- * @param channel - Delivery channel (EMAIL or IN_APP)
+ * @param channel - Delivery channel (EMAIL, IN_APP or SMS)
  * @param attempt - Attempt number (1, 2, or 3)
  * @param recipient - Email recipient
  * @param subject - Email subject
@@ -341,33 +345,116 @@ async function findTrackingByMessageId(
   return null;
 }
 
+/**
+ * Count a delivery outcome in the daily stats
+ * Stats are kept platform-wide and, when the notification is about an event,
+ * for that event. Failures are logged rather than thrown so a stats problem
+ * never fails a send.
+ * 
+ * @param channel - Delivery channel
+ * @param outcome - What happened to the attempt
+ * @param eventId - Event the notification was about (optional)
+ */
+export async function recordDeliveryOutcome(
+  channel: NotificationChannel,
+  outcome: DeliveryOutcome,
+  eventId?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const date = now.slice(0, 10);
+  const scopes = eventId ? ['ALL', `EVENT#${eventId}`] : ['ALL'];
+
+  try {
+    await Promise.all(
+      scopes.map((scope) =>
+        dynamoDB.send(
+          new UpdateCommand({
+            TableName: TABLE_NAME,
+            Key: {
+              PK: `DELIVERY_STATS#${scope}`,
+              SK: `DAY#${date}#${channel}`,
+            },
+            UpdateExpression: 'SET #date = :date, channel = :channel, updatedAt = :updatedAt ADD #outcome :one',
+            ExpressionAttributeNames: {
+              '#date': 'date',
+              '#outcome': outcome,
+            },
+            ExpressionAttributeValues: {
+              ':date': date,
+              ':channel': channel,
+              ':updatedAt': now,
+              ':one': 1,
+            },
+          })
+        )
+      )
+    );
+  } catch (error) {
+    console.error('Failed to record delivery stats:', error);
+  }
+}
+
 /**
  * Get delivery statistics for a time period
  * 
- * @param startDate - Start date (ISO string)
- * @param endDate - End date (ISO string)
+ * Sums the daily counters kept by recordDeliveryOutcome. Providers don't send
+ * delivery receipts yet, so messages count as delivered once accepted unless
+ * they bounce. Bounces can't be tied to an event, so event stats never show any.
+ * 
+ * @param startDate - Start date (ISO string, whole UTC days are counted)
+ * @param endDate - End date (ISO string, inclusive)
+ * @param eventId - Only count notifications about this event (optional)
  * @returns Delivery statistics
  */
 export async function getDeliveryStats(
   startDate: string,
-  endDate: string
-): Promise<{
-  totalSent: number;
-  totalDelivered: number;
-  totalBounced: number;
-  totalFailed: number;
-  deliveryRate: number;
-}> {
-  // This would require aggregation queries
-  // For production, consider using DynamoDB Streams to maintain
-  // aggregate statistics in a separate table or CloudWatch metrics
-  
+  endDate: string,
+  eventId?: string
+): Promise<DeliveryStats> {
+  const records: DeliveryStatsRecord[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await dynamoDB.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':pk': `DELIVERY_STATS#${eventId ? `EVENT#${eventId}` : 'ALL'}`,
+          ':from': `DAY#${startDate.slice(0, 10)}`,
+          ':to': `DAY#${endDate.slice(0, 10)}#~`,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    records.push(...((response.Items || []) as DeliveryStatsRecord[]));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  const byChannel = new Map<NotificationChannel, ChannelDeliveryStats>();
+  for (const record of records) {
+    const stats = byChannel.get(record.channel) || { channel: record.channel, sent: 0, failed: 0, bounced: 0 };
+    stats.sent += record.sent || 0;
+    stats.failed += record.failed || 0;
+    stats.bounced += record.bounced || 0;
+    byChannel.set(record.channel, stats);
+  }
+
+  const channels = Array.from(byChannel.values());
+  const totalSent = channels.reduce((sum, stats) => sum + stats.sent, 0);
+  const totalFailed = channels.reduce((sum, stats) => sum + stats.failed, 0);
+  const totalBounced = channels.reduce((sum, stats) => sum + stats.bounced, 0);
+  const totalDelivered = Math.max(0, totalSent - totalBounced);
+  const attempts = totalSent + totalFailed;
+
   return {
-    totalSent: 0,
-    totalDelivered: 0,
-    totalBounced: 0,
-    totalFailed: 0,
-    deliveryRate: 0,
+    totalSent,
+    totalDelivered,
+    totalBounced,
+    totalFailed,
+    deliveryRate: attempts > 0 ? Math.round((totalDelivered / attempts) * 1000) / 1000 : 0,
+    byChannel: channels,
   };
 }
 
@@ -381,6 +468,7 @@ export default {
   markAsFailed,
   scheduleRetry,
   getDeliveryHistory,
+  recordDeliveryOutcome,
   getDeliveryStats,
 };
 
@@ -413,6 +501,8 @@ export async function trackEmailSent(params: {
     params.attempt,
     params.messageId
   );
+
+  await recordDeliveryOutcome(NotificationChannel.EMAIL, 'sent', params.metadata.eventId);
 }
 
 /**
@@ -442,6 +532,67 @@ export async function trackEmailFailed(params: {
     params.attempt,
     params.error
   );
+
+  await recordDeliveryOutcome(NotificationChannel.EMAIL, 'failed', params.metadata.eventId);
+}
+
+/**
+ * Track successful SMS send (convenience wrapper)
+ */
+export async function trackSmsSent(params: {
+  userId: string;
+  notificationType: string;
+  recipient: string;
+  messageId: string;
+  metadata: Record<string, any>;
+}): Promise<void> {
+  const notificationId = `${params.userId}-${params.notificationType}-${params.metadata.eventId}`;
+  
+  await createDeliveryTracking(
+    notificationId,
+    NotificationChannel.SMS,
+    1,
+    params.recipient
+  );
+  
+  await markAsSent(
+    notificationId,
+    NotificationChannel.SMS,
+    1,
+    params.messageId
+  );
+
+  await recordDeliveryOutcome(NotificationChannel.SMS, 'sent', params.metadata.eventId);
+}
+
+/**
+ * Track failed SMS send (convenience wrapper)
+ * SMS is not retried, so there is a single attempt
+ */
+export async function trackSmsFailed(params: {
+  userId: string;
+  notificationType: string;
+  recipient: string;
+  error: { code: string; message: string; details: any };
+  metadata: Record<string, any>;
+}): Promise<void> {
+  const notificationId = `${params.userId}-${params.notificationType}-${params.metadata.eventId}`;
+  
+  await createDeliveryTracking(
+    notificationId,
+    NotificationChannel.SMS,
+    1,
+    params.recipient
+  );
+  
+  await markAsFailed(
+    notificationId,
+    NotificationChannel.SMS,
+    1,
+    params.error
+  );
+
+  await recordDeliveryOutcome(NotificationChannel.SMS, 'failed', params.metadata.eventId);
 }
 
 /**
@@ -456,6 +607,8 @@ export async function trackBounce(params: {
   // In a real implementation, we'd look up the notification by messageId
   // For now, log the bounce
   console.log('Email bounced:', params);
+
+  await recordDeliveryOutcome(NotificationChannel.EMAIL, 'bounced');
   
   // Would call markAsBounced with proper notificationId lookup
   // await markAsBounced(notificationId, params.messageId, params.bounceType, params.diagnosticCode || 'Unknown');
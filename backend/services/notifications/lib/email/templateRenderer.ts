@@ -78,6 +78,11 @@ function registerHelpers() {
     return str ? str.toUpperCase() : '';
   });
 
+  // Join list helper, e.g. {{join savedSearchNames ", "}}
+  Handlebars.registerHelper('join', (items: string[], separator: string) => {
+    return Array.isArray(items) ? items.join(separator) : '';
+  });
+
   // Conditional helper
   Handlebars.registerHelper('eq', (a: any, b: any) => {
     return a === b;
@@ -243,6 +248,105 @@ Best regards,
 Terrapin Events Team
       `.trim();
 
+    case 'promotion-expired':
+      return `
+Dear ${data.userName},
+
+Your offer for a spot at "${data.eventTitle}" expired before it was confirmed, so the spot has been passed to the next person on the waitlist.
+
+${data.requeued ? `You've been moved back to the waitlist at position #${data.waitlistPosition}. We'll let you know if another spot opens up.` : 'Your registration for this event has been cancelled.'}
+
+View event: ${data.eventUrl}
+
+To unsubscribe from notifications, visit: ${data.unsubscribeUrl}
+
+Best regards,
+Terrapin Events Team
+      `.trim();
+
+    case 'event-approved':
+      return `
+Dear ${data.userName},
+
+Your event "${data.eventTitle}" has been approved and is now published. Attendees can start registering.
+${data.reviewComment ? `\nReviewer note: ${data.reviewComment}\n` : ''}
+Event Details:
+- Date: ${data.eventDate}
+- Time: ${data.eventTime}
+- Location: ${data.eventLocation}
+
+View event: ${data.eventUrl}
+
+To unsubscribe from notifications, visit: ${data.unsubscribeUrl}
+
+Best regards,
+Terrapin Events Team
+      `.trim();
+
+    case 'event-rejected':
+      return `
+Dear ${data.userName},
+
+Your event "${data.eventTitle}" was not approved for publishing and has been returned to draft.
+
+Reason: ${data.rejectionReason}
+
+You can update the event and submit it for approval again: ${data.editEventUrl}
+
+To unsubscribe from notifications, visit: ${data.unsubscribeUrl}
+
+Best regards,
+Terrapin Events Team
+      `.trim();
+
+    case 'saved-search-match': {
+      const matches = data.matches || [];
+      return `
+Dear ${data.userName},
+
+${matches.length === 1 ? 'A new event matches' : `${matches.length} new events match`} your saved searches:
+
+${matches
+  .map(
+    (match) =>
+      `- ${match.eventTitle}\n  ${match.eventDate}, ${match.eventTime} at ${match.eventLocation}\n  Matches: ${match.savedSearchNames.join(', ')}\n  ${match.eventUrl}`
+  )
+  .join('\n\n')}
+
+Manage your saved searches: ${data.savedSearchesUrl}
+
+To unsubscribe from notifications, visit: ${data.unsubscribeUrl}
+
+Best regards,
+Terrapin Events Team
+      `.trim();
+    }
+
+    case 'digest': {
+      const entries = data.entries || [];
+      return `
+Dear ${data.userName},
+
+${data.digestTitle}: here's what happened since your last update.
+
+${entries
+  .map(
+    (entry) =>
+      `- ${entry.headline}: ${entry.eventTitle}${entry.detail ? `\n  ${entry.detail}` : ''}\n  ${entry.eventDate}, ${entry.eventTime} at ${entry.eventLocation}\n  ${entry.eventUrl}`
+  )
+  .join('\n\n')}
+
+Go to your dashboard: ${data.dashboardUrl}
+
+Change how often you get digests: ${data.preferencesUrl}
+
+To unsubscribe from notifications, visit: ${data.unsubscribeUrl}
+
+Best regards,
+Terrapin Events Team
+      `.trim();
+    }
+
     case 'registration-cancelled':
       return `
 Dear ${data.userName},
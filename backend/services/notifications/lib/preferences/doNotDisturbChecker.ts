@@ -10,28 +10,31 @@
 import { NotificationPreferences, NotificationType } from '../../types/notification.types';
 import { getPreferences } from './preferencesManager';
 
+/**
+ * Result of a Do Not Disturb check
+ */
+export interface DNDCheckResult {
+  isInDND: boolean;
+  nextAvailableTime?: Date;  // End of the current DND period
+}
+
 /**
  * Check if current time is within user's Do Not Disturb period
  * 
  * @param preferences - User notification preferences
  * @param currentTime - Optional current time (for testing)
- * @returns Boolean indicating if in DND period
+ * @returns Whether in DND period, and when it ends if so
  */
-
- interface DNDCheckResult {
-   isInDND: boolean;
-   nextAvailableTime?: Date;
- }
-
 export function isInDoNotDisturbPeriod(
-  preferences: NotificationPreferences
+  preferences: NotificationPreferences,
+  currentTime?: Date
 ): DNDCheckResult {
   // If DND is not enabled, return false
   if (!preferences.doNotDisturb.enabled) {
     return { isInDND: false };
   }
 
-  const now = new Date();
+  const now = currentTime || new Date();
   const { startHour, endHour, timezone } = preferences.doNotDisturb;
 
   try {
@@ -39,6 +42,8 @@ export function isInDoNotDisturbPeriod(
     const userTime = new Date(
       now.toLocaleString('en-US', { timeZone: timezone })
     );
+    // toLocaleString drops milliseconds; timezone offsets are whole minutes
+    const offsetMs = Math.round((userTime.getTime() - now.getTime()) / 60000) * 60000;
 
     const currentHour = userTime.getHours();
     const currentMinute = userTime.getMinutes();
@@ -78,9 +83,10 @@ export function isInDoNotDisturbPeriod(
       nextAvailableTime.setDate(nextAvailableTime.getDate() + 1);
     }
 
+    // Convert back from user's wall-clock time
     return {
       isInDND: true,
-      nextAvailableTime,
+      nextAvailableTime: new Date(nextAvailableTime.getTime() - offsetMs),
     };
   } catch (error) {
     console.error('Error checking DND period:', error);
@@ -102,44 +108,9 @@ export function getNextAvailableTime(
   const now = currentTime || new Date();
 
   // If DND is not enabled or not currently in DND, return current time
-  if (!preferences.doNotDisturb.enabled || !isInDoNotDisturbPeriod(preferences)) {
-    return now;
-  }
-
-  const { endHour, timezone } = preferences.doNotDisturb;
-
-  try {
-    // Convert current time to user's timezone
-    const userTime = new Date(
-      now.toLocaleString('en-US', { timeZone: timezone })
-    );
-
-    // Parse end hour (format: "HH:MM")
-    const [endH, endM] = endHour.split(':').map(Number);
-
-    // Create a new date for the end of DND period
-    const nextAvailable = new Date(userTime);
-    nextAvailable.setHours(endH, endM, 0, 0);
+  const { nextAvailableTime } = isInDoNotDisturbPeriod(preferences, now);
 
-    // If end time is earlier than current time (DND crosses midnight),
-    // set to next day
-    if (nextAvailable <= userTime) {
-      nextAvailable.setDate(nextAvailable.getDate() + 1);
-    }
-
-    // Convert back from user's timezone to UTC
-    const utcTime = new Date(
-      nextAvailable.toLocaleString('en-US', { timeZone: 'UTC' })
-    );
-
-    return utcTime;
-  } catch (error) {
-    console.error('Error calculating next available time:', error);
-    // If there's an error, return current time + 1 hour as fallback
-    const fallback = new Date(now);
-    fallback.setHours(fallback.getHours() + 1);
-    return fallback;
-  }
+  return nextAvailableTime || now;
 }
 
 /**
@@ -179,7 +150,7 @@ export async function shouldSendNotification(
   }
 
   // Check DND for regular priority notifications
-  return !isInDoNotDisturbPeriod(preferences);
+  return !isInDoNotDisturbPeriod(preferences, currentTime).isInDND;
 }
 
 /**
@@ -2,7 +2,7 @@
  * TEMS Notification System - Preferences Manager
  * 
  * CRUD operations for user notification preferences.
- * Manages email/in-app settings, frequency, enabled types, and DND configuration.
+ * Manages email/in-app/SMS/push settings, frequency, enabled types, and DND configuration.
  * 
  * @module notifications/lib/preferences/preferencesManager
  */
@@ -106,6 +106,16 @@ export async function updatePreferences(
     expressionAttributeValues[':inAppEnabled'] = input.inAppEnabled;
   }
 
+  if (input.smsEnabled !== undefined) {
+    updates.push('smsEnabled = :smsEnabled');
+    expressionAttributeValues[':smsEnabled'] = input.smsEnabled;
+  }
+
+  if (input.pushTypes) {
+    updates.push('pushTypes = :pushTypes');
+    expressionAttributeValues[':pushTypes'] = input.pushTypes;
+  }
+
   if (input.frequency) {
     updates.push('frequency = :frequency');
     expressionAttributeValues[':frequency'] = input.frequency;
@@ -155,6 +165,9 @@ export async function updatePreferences(
     return await getPreferences(userId);
   }
 
+  // Create defaults first so a partial update never leaves an incomplete item
+  await getPreferences(userId);
+
   await dynamoDB.send(
     new UpdateCommand({
       TableName: TABLE_NAME,
@@ -193,7 +206,7 @@ export async function isNotificationEnabled(
   }
 
   // Check global enable flags
-  if (!preferences.emailEnabled && !preferences.inAppEnabled) {
+  if (!preferences.emailEnabled && !preferences.inAppEnabled && !preferences.smsEnabled && !preferences.pushTypes?.length) {
     return false;
   }
 
@@ -241,6 +254,27 @@ export async function isInAppEnabled(
   return preferences.inAppEnabled && preferences.enabledTypes[type] !== false;
 }
 
+/**
+ * Check if SMS notifications are enabled for user
+ * A verified phone number is still required at send time
+ * 
+ * @param userId - User ID
+ * @param type - Notification type
+ * @returns Boolean indicating if SMS is enabled
+ */
+export async function isSmsEnabled(
+  userId: string,
+  type: NotificationType
+): Promise<boolean> {
+  const preferences = await getPreferences(userId);
+
+  if (preferences.unsubscribedAt) {
+    return false;
+  }
+
+  return preferences.smsEnabled && preferences.enabledTypes[type] !== false;
+}
+
 /**
  * Unsubscribe user from all notifications using token
  * 
@@ -354,6 +388,7 @@ export const preferencesManager = {
   updatePreferences,
   isNotificationEnabled,
   isEmailEnabled,
+  isSmsEnabled,
   isInAppEnabled,
   unsubscribeUser,
   resubscribeUser,
@@ -0,0 +1,172 @@
+/**
+ * TEMS Notification System - Push Subscriptions
+ *
+ * Browser push subscriptions of each user, one per browser profile.
+ *
+ * DynamoDB Schema:
+ * Subscription:  PK: USER#{userId}, SK: PUSH_SUBSCRIPTION#{sha256(endpoint)}
+ *
+ * @module notifications/lib/push/pushSubscriptions
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'crypto';
+import { NotificationType, PushSubscriptionRecord } from '../../types/notification.types';
+import { preferencesManager } from '../preferences/preferencesManager';
+
+const client = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
+
+/**
+ * Browsers a user can register before the oldest is replaced
+ */
+export const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+/**
+ * Store a browser subscription (re-subscribing the same browser replaces it)
+ *
+ * @param userId - User ID
+ * @param subscription - Endpoint, keys and user agent
+ */
+export async function saveSubscription(
+  userId: string,
+  subscription: Omit<PushSubscriptionRecord, 'createdAt'>
+): Promise<void> {
+  const existing = await listSubscriptions(userId);
+  const others = existing.filter((item) => item.endpoint !== subscription.endpoint);
+
+  // Drop the oldest browsers over the limit
+  for (const stale of others.slice(0, Math.max(0, others.length - MAX_SUBSCRIPTIONS_PER_USER + 1))) {
+    await deleteSubscription(userId, stale.endpoint);
+  }
+
+  await dynamoDB.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: `USER#${userId}`,
+        SK: subscriptionKey(subscription.endpoint),
+        endpoint: subscription.endpoint,
+        keys: subscription.keys,
+        userAgent: subscription.userAgent,
+        createdAt: new Date().toISOString(),
+      },
+    })
+  );
+}
+
+/**
+ * List a user's browser subscriptions, oldest first
+ *
+ * @param userId - User ID
+ */
+export async function listSubscriptions(userId: string): Promise<PushSubscriptionRecord[]> {
+  const response = await dynamoDB.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'PUSH_SUBSCRIPTION#',
+      },
+    })
+  );
+
+  return (response.Items || [])
+    .map((item) => ({
+      endpoint: item.endpoint,
+      keys: item.keys,
+      userAgent: item.userAgent,
+      createdAt: item.createdAt,
+    }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Remove a browser subscription
+ *
+ * @param userId - User ID
+ * @param endpoint - Push service URL of the subscription
+ */
+export async function deleteSubscription(userId: string, endpoint: string): Promise<void> {
+  await dynamoDB.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: subscriptionKey(endpoint),
+      },
+    })
+  );
+}
+
+/**
+ * Push settings shown on the preferences page
+ *
+ * @param userId - User ID
+ * @returns Opted-in types and number of subscribed browsers
+ */
+export async function getPushSettings(
+  userId: string
+): Promise<{ types: NotificationType[]; deviceCount: number }> {
+  const [preferences, subscriptions] = await Promise.all([
+    preferencesManager.getPreferences(userId),
+    listSubscriptions(userId),
+  ]);
+
+  return {
+    types: preferences.pushTypes || [],
+    deviceCount: subscriptions.length,
+  };
+}
+
+/**
+ * Validate a subscription sent by the browser
+ *
+ * @returns Error message, or null when valid
+ */
+export function validateSubscription(subscription: { endpoint: string; p256dh: string; auth: string }): string | null {
+  let url: URL;
+  try {
+    url = new URL(subscription.endpoint);
+  } catch {
+    return 'Invalid push endpoint';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Push endpoint must use HTTPS';
+  }
+  if (Buffer.from(subscription.p256dh, 'base64url').length !== 65) {
+    return 'Invalid push subscription key';
+  }
+  if (Buffer.from(subscription.auth, 'base64url').length !== 16) {
+    return 'Invalid push subscription auth secret';
+  }
+
+  return null;
+}
+
+// Endpoints are long URLs: hash them into a fixed-size sort key
+function subscriptionKey(endpoint: string): string {
+  return `PUSH_SUBSCRIPTION#${createHash('sha256').update(endpoint).digest('hex')}`;
+}
+
+export const pushSubscriptions = {
+  saveSubscription,
+  listSubscriptions,
+  deleteSubscription,
+  getPushSettings,
+  validateSubscription,
+};
+
+export default pushSubscriptions;
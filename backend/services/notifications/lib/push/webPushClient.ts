@@ -0,0 +1,189 @@
+/**
+ * TEMS Notification System - Web Push Client
+ *
+ * Sends browser push messages using the Web Push protocol:
+ * VAPID authentication (RFC 8292) and aes128gcm payload encryption (RFC 8291).
+ *
+ * Keys are base64url encoded: VAPID_PUBLIC_KEY is the uncompressed P-256 point
+ * (65 bytes), VAPID_PRIVATE_KEY the private scalar (32 bytes). Generate a pair with
+ * `npx web-push generate-vapid-keys`.
+ *
+ * @module notifications/lib/push/webPushClient
+ */
+
+import {
+  createECDH,
+  createPrivateKey,
+  createCipheriv,
+  hkdfSync,
+  randomBytes,
+  sign,
+  KeyObject,
+} from 'crypto';
+import { PushSubscriptionRecord } from '../../types/notification.types';
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || '';
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || '';
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:support@terrapin-events.example';
+
+const RECORD_SIZE = 4096;
+const JWT_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Result of push send operation
+ */
+export interface SendPushResult {
+  success: boolean;
+  statusCode?: number;
+  expired: boolean;    // Subscription is gone (404/410) and should be deleted
+  error?: string;
+}
+
+/**
+ * Push message options
+ */
+export interface PushOptions {
+  ttlSeconds?: number;                           // How long the push service keeps an undelivered message
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string;                                // Replaces an undelivered message with the same topic
+}
+
+let signingKey: KeyObject | undefined;
+
+/**
+ * Send a push message to one browser subscription
+ *
+ * @param subscription - Stored subscription
+ * @param payload - JSON payload read by the service worker
+ * @param options - TTL, urgency and topic
+ */
+export async function sendPushMessage(
+  subscription: PushSubscriptionRecord,
+  payload: Record<string, any>,
+  options: PushOptions = {}
+): Promise<SendPushResult> {
+  try {
+    const body = encryptPayload(
+      Buffer.from(JSON.stringify(payload), 'utf-8'),
+      Buffer.from(subscription.keys.p256dh, 'base64url'),
+      Buffer.from(subscription.keys.auth, 'base64url')
+    );
+
+    const headers: Record<string, string> = {
+      Authorization: `vapid t=${createVapidToken(new URL(subscription.endpoint).origin)}, k=${VAPID_PUBLIC_KEY}`,
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttlSeconds ?? 24 * 60 * 60),
+      Urgency: options.urgency || 'normal',
+    };
+
+    if (options.topic) {
+      headers.Topic = options.topic;
+    }
+
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers,
+      body,
+    });
+
+    if (response.ok) {
+      return { success: true, statusCode: response.status, expired: false };
+    }
+
+    return {
+      success: false,
+      statusCode: response.status,
+      expired: response.status === 404 || response.status === 410,
+      error: await response.text(),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      expired: false,
+      error: error.message,
+    };
+  }
+}
+
+/**
+ * Encrypt a payload for one subscription (single aes128gcm record)
+ */
+function encryptPayload(plaintext: Buffer, userAgentPublicKey: Buffer, authSecret: Buffer): Buffer {
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const ikm = hkdf(
+    sharedSecret,
+    authSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]),
+    32
+  );
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Signed VAPID JWT for a push service origin
+ */
+function createVapidToken(audience: string): string {
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + JWT_TTL_SECONDS,
+      sub: VAPID_SUBJECT,
+    })
+  ).toString('base64url');
+
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: getSigningKey(),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${header}.${claims}.${signature.toString('base64url')}`;
+}
+
+function getSigningKey(): KeyObject {
+  if (!signingKey) {
+    const publicKey = Buffer.from(VAPID_PUBLIC_KEY, 'base64url');
+
+    signingKey = createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: VAPID_PRIVATE_KEY,
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  }
+
+  return signingKey;
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+export default {
+  sendPushMessage,
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createHmac } from 'crypto';
+
+const mockSsmSend = jest.fn<(command: any) => Promise<any>>();
+
+jest.mock('@aws-sdk/client-ssm', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/client-ssm')>('@aws-sdk/client-ssm');
+  return {
+    ...actual,
+    SSMClient: jest.fn(() => ({ send: (command: any) => mockSsmSend(command) })),
+  };
+});
+
+import { twilioProvider } from '../twilioProvider';
+
+const AUTH_TOKEN = 'twilio-auth-token';
+const WEBHOOK_URL = 'https://api.example.edu/sms/inbound?provider=twilio';
+const BODY = 'To=%2B13015550100&From=%2B13015550123&Body=STOP&MessageSid=SM123';
+
+/**
+ * Sign a webhook the way Twilio does: the URL followed by each parameter name
+ * and value in name order
+ */
+function sign(url: string, params: Record<string, string>, token = AUTH_TOKEN): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((result, key) => result + key + params[key], url);
+  return createHmac('sha1', token).update(payload).digest('base64');
+}
+
+const SIGNATURE = sign(WEBHOOK_URL, {
+  To: '+13015550100',
+  From: '+13015550123',
+  Body: 'STOP',
+  MessageSid: 'SM123',
+});
+
+describe('twilioProvider.parseInbound', () => {
+  beforeEach(() => {
+    mockSsmSend.mockReset().mockResolvedValue({ Parameter: { Value: AUTH_TOKEN } });
+  });
+
+  it('accepts a correctly signed webhook', async () => {
+    const inbound = await twilioProvider.parseInbound({
+      url: WEBHOOK_URL,
+      headers: { 'X-Twilio-Signature': SIGNATURE },
+      body: BODY,
+    });
+
+    expect(inbound).toEqual({ from: '+13015550123', body: 'STOP' });
+  });
+
+  it('accepts the signature header in lower case', async () => {
+    const inbound = await twilioProvider.parseInbound({
+      url: WEBHOOK_URL,
+      headers: { 'x-twilio-signature': SIGNATURE },
+      body: BODY,
+    });
+
+    expect(inbound).not.toBeNull();
+  });
+
+  it('rejects a webhook without a signature', async () => {
+    expect(await twilioProvider.parseInbound({ url: WEBHOOK_URL, headers: {}, body: BODY })).toBeNull();
+  });
+
+  it('rejects a signature made with a different token', async () => {
+    const signature = sign(WEBHOOK_URL, { Body: 'STOP' }, 'another-token');
+
+    const inbound = await twilioProvider.parseInbound({
+      url: WEBHOOK_URL,
+      headers: { 'X-Twilio-Signature': signature },
+      body: 'Body=STOP',
+    });
+
+    expect(inbound).toBeNull();
+  });
+
+  it('rejects a body that was changed after signing', async () => {
+    const inbound = await twilioProvider.parseInbound({
+      url: WEBHOOK_URL,
+      headers: { 'X-Twilio-Signature': SIGNATURE },
+      body: BODY.replace('Body=STOP', 'Body=START'),
+    });
+
+    expect(inbound).toBeNull();
+  });
+
+  it('rejects a signature for another webhook URL', async () => {
+    const inbound = await twilioProvider.parseInbound({
+      url: 'https://attacker.example.com/sms/inbound',
+      headers: { 'X-Twilio-Signature': SIGNATURE },
+      body: BODY,
+    });
+
+    expect(inbound).toBeNull();
+  });
+
+  it('rejects a malformed signature', async () => {
+    const inbound = await twilioProvider.parseInbound({
+      url: WEBHOOK_URL,
+      headers: { 'X-Twilio-Signature': 'not-base64-of-a-sha1' },
+      body: BODY,
+    });
+
+    expect(inbound).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * TEMS Notification System - Fake SMS Provider
+ *
+ * Local transport for development and testing: messages are logged and
+ * kept in an in-memory outbox instead of being sent. Numbers that text
+ * STOP are remembered, so sends to them fail like a real carrier opt-out.
+ *
+ * Incoming webhook bodies are JSON: { "from": "+13015550100", "body": "STOP" }
+ *
+ * @module notifications/lib/sms/fakeSmsProvider
+ */
+
+import { randomUUID } from 'crypto';
+import type { SmsProvider, SendSmsResult, InboundSmsRequest, InboundSms } from './smsProvider';
+
+/**
+ * Message captured by the fake transport
+ */
+export interface FakeSmsMessage {
+  messageId: string;
+  to: string;
+  body: string;
+  sentAt: string;
+}
+
+const outbox: FakeSmsMessage[] = [];
+const optedOutNumbers = new Set<string>();
+
+async function sendSms(to: string, body: string): Promise<SendSmsResult> {
+  if (optedOutNumbers.has(to)) {
+    return {
+      success: false,
+      error: {
+        code: 'OPTED_OUT',
+        message: `${to} has opted out of text messages`,
+        optedOut: true,
+      },
+    };
+  }
+
+  const message: FakeSmsMessage = {
+    messageId: `fake-${randomUUID()}`,
+    to,
+    body,
+    sentAt: new Date().toISOString(),
+  };
+
+  outbox.push(message);
+  console.log('[fake SMS]', JSON.stringify(message));
+
+  return {
+    success: true,
+    messageId: message.messageId,
+  };
+}
+
+async function parseInbound(request: InboundSmsRequest): Promise<InboundSms | null> {
+  try {
+    const { from, body } = JSON.parse(request.body);
+    if (typeof from !== 'string' || typeof body !== 'string') {
+      return null;
+    }
+
+    // Mirror carrier keyword handling
+    const keyword = body.trim().toUpperCase();
+    if (keyword === 'STOP') {
+      optedOutNumbers.add(from);
+    } else if (keyword === 'START') {
+      optedOutNumbers.delete(from);
+    }
+
+    return { from, body };
+  } catch {
+    return null;
+  }
+}
+
+function formatInboundReply(message?: string): { contentType: string; body: string } {
+  return {
+    contentType: 'application/json',
+    body: JSON.stringify({ reply: message || null }),
+  };
+}
+
+/**
+ * Messages sent since the last clear (testing)
+ */
+export function getFakeOutbox(): FakeSmsMessage[] {
+  return [...outbox];
+}
+
+/**
+ * Reset the outbox and opt-outs (testing)
+ */
+export function clearFakeOutbox(): void {
+  outbox.length = 0;
+  optedOutNumbers.clear();
+}
+
+export const fakeSmsProvider: SmsProvider = {
+  name: 'fake',
+  sendSms,
+  parseInbound,
+  formatInboundReply,
+};
+
+export default fakeSmsProvider;
@@ -0,0 +1,376 @@
+/**
+ * TEMS Notification System - Phone Verification
+ *
+ * Verifies a user's phone number with a one-time code before it is used
+ * for text notifications. Verifying a number turns SMS on; removing it
+ * turns SMS off.
+ *
+ * DynamoDB Schema:
+ * Pending code:     PK: USER#{userId}, SK: PHONE_VERIFICATION (hashed code, attempts, ttl)
+ * Phone lookup:     PK: PHONE#{e164}, SK: METADATA (userId)
+ *
+ * @module notifications/lib/sms/phoneVerification
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createHash, randomInt } from 'crypto';
+import { getSmsProvider } from './smsProvider';
+import { getUserIdByPhone } from './smsRecipients';
+import { preferencesManager } from '../preferences/preferencesManager';
+
+const client = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
+
+const CODE_TTL_SECONDS = 10 * 60;
+const RESEND_INTERVAL_SECONDS = 60;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Result of a verification step
+ */
+export interface PhoneVerificationResult {
+  success: boolean;
+  user?: Record<string, any>;
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * Normalize a phone number to E.164
+ * Ten-digit numbers are treated as US numbers
+ *
+ * @param input - Phone number as typed by the user
+ * @returns E.164 number, or null if invalid
+ */
+export function normalizePhoneNumber(input: string): string | null {
+  const digits = input.replace(/[\s().-]/g, '');
+
+  if (/^\d{10}$/.test(digits)) {
+    return `+1${digits}`;
+  }
+  if (/^1\d{10}$/.test(digits)) {
+    return `+${digits}`;
+  }
+  if (/^\+[1-9]\d{7,14}$/.test(digits)) {
+    return digits;
+  }
+
+  return null;
+}
+
+/**
+ * Text a verification code to a phone number
+ *
+ * @param userId - User ID
+ * @param input - Phone number as typed by the user
+ */
+export async function startVerification(userId: string, input: string): Promise<PhoneVerificationResult> {
+  const phoneNumber = normalizePhoneNumber(input);
+  if (!phoneNumber) {
+    return failure('VALIDATION_ERROR', 'Enter a valid phone number, including the country code outside the US');
+  }
+
+  const owner = await getUserIdByPhone(phoneNumber);
+  if (owner && owner !== userId) {
+    return failure('BUSINESS_RULE_ERROR', 'This phone number is already linked to another account');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const code = randomInt(0, 1000000).toString().padStart(6, '0');
+
+  try {
+    // Throttle resends
+    await dynamoDB.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: {
+          PK: `USER#${userId}`,
+          SK: 'PHONE_VERIFICATION',
+          phoneNumber,
+          codeHash: hashCode(userId, code),
+          attempts: 0,
+          sentAt: now,
+          ttl: now + CODE_TTL_SECONDS,
+        },
+        ConditionExpression: 'attribute_not_exists(PK) OR sentAt < :resendAfter',
+        ExpressionAttributeValues: {
+          ':resendAfter': now - RESEND_INTERVAL_SECONDS,
+        },
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return failure('BUSINESS_RULE_ERROR', 'A code was just sent. Wait a minute before requesting another.');
+    }
+    throw error;
+  }
+
+  const result = await getSmsProvider().sendSms(
+    phoneNumber,
+    `Your Terrapin Events verification code is ${code}. It expires in 10 minutes.`
+  );
+
+  if (!result.success) {
+    console.error('Failed to send verification code:', result.error);
+    return failure(
+      'BUSINESS_RULE_ERROR',
+      result.error?.optedOut
+        ? 'This number has opted out of texts. Reply START to us from it, then try again.'
+        : 'We could not send a text to this number'
+    );
+  }
+
+  return { success: true };
+}
+
+/**
+ * Check a verification code and link the phone number to the user
+ *
+ * @param userId - User ID
+ * @param code - Code the user received
+ */
+export async function confirmVerification(userId: string, code: string): Promise<PhoneVerificationResult> {
+  const pending = await dynamoDB.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'PHONE_VERIFICATION',
+      },
+    })
+  );
+
+  const verification = pending.Item;
+  if (!verification || verification.ttl < Math.floor(Date.now() / 1000)) {
+    return failure('BUSINESS_RULE_ERROR', 'This code has expired. Request a new one.');
+  }
+
+  if (verification.codeHash !== hashCode(userId, code.trim())) {
+    if (verification.attempts + 1 >= MAX_ATTEMPTS) {
+      await deleteVerification(userId);
+      return failure('BUSINESS_RULE_ERROR', 'Too many incorrect codes. Request a new one.');
+    }
+
+    await dynamoDB.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${userId}`,
+          SK: 'PHONE_VERIFICATION',
+        },
+        UpdateExpression: 'ADD attempts :one',
+        ExpressionAttributeValues: {
+          ':one': 1,
+        },
+      })
+    );
+    return failure('VALIDATION_ERROR', 'That code is incorrect');
+  }
+
+  const phoneNumber: string = verification.phoneNumber;
+  const user = await getUser(userId);
+  const previousNumber: string | undefined = user?.phoneNumber;
+  const now = new Date().toISOString();
+
+  try {
+    await dynamoDB.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: `USER#${userId}`,
+                SK: 'METADATA',
+              },
+              UpdateExpression:
+                'SET phoneNumber = :phoneNumber, phoneVerified = :true, phoneVerifiedAt = :now, updatedAt = :now REMOVE smsOptedOutAt',
+              ConditionExpression: 'attribute_exists(PK)',
+              ExpressionAttributeValues: {
+                ':phoneNumber': phoneNumber,
+                ':true': true,
+                ':now': now,
+              },
+            },
+          },
+          {
+            Put: {
+              TableName: TABLE_NAME,
+              Item: {
+                PK: `PHONE#${phoneNumber}`,
+                SK: 'METADATA',
+                userId,
+                createdAt: now,
+              },
+              // Another account may have verified the number in the meantime
+              ConditionExpression: 'attribute_not_exists(PK) OR userId = :userId',
+              ExpressionAttributeValues: {
+                ':userId': userId,
+              },
+            },
+          },
+          {
+            Delete: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: `USER#${userId}`,
+                SK: 'PHONE_VERIFICATION',
+              },
+            },
+          },
+          ...(previousNumber && previousNumber !== phoneNumber
+            ? [
+                {
+                  Delete: {
+                    TableName: TABLE_NAME,
+                    Key: {
+                      PK: `PHONE#${previousNumber}`,
+                      SK: 'METADATA',
+                    },
+                  },
+                },
+              ]
+            : []),
+        ],
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'TransactionCanceledException') {
+      return failure('BUSINESS_RULE_ERROR', 'This phone number is already linked to another account');
+    }
+    throw error;
+  }
+
+  await preferencesManager.updatePreferences(userId, { smsEnabled: true });
+
+  return {
+    success: true,
+    user: toGraphQLUser((await getUser(userId))!),
+  };
+}
+
+/**
+ * Unlink the user's phone number and turn SMS off
+ *
+ * @param userId - User ID
+ */
+export async function removePhoneNumber(userId: string): Promise<PhoneVerificationResult> {
+  const user = await getUser(userId);
+  if (!user) {
+    return failure('NOT_FOUND', 'User not found');
+  }
+
+  if (user.phoneNumber) {
+    await dynamoDB.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: `USER#${userId}`,
+                SK: 'METADATA',
+              },
+              UpdateExpression:
+                'REMOVE phoneNumber, phoneVerified, phoneVerifiedAt, smsOptedOutAt SET updatedAt = :now',
+              ExpressionAttributeValues: {
+                ':now': new Date().toISOString(),
+              },
+            },
+          },
+          {
+            Delete: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: `PHONE#${user.phoneNumber}`,
+                SK: 'METADATA',
+              },
+            },
+          },
+        ],
+      })
+    );
+  }
+
+  await deleteVerification(userId);
+  await preferencesManager.updatePreferences(userId, { smsEnabled: false });
+
+  return {
+    success: true,
+    user: toGraphQLUser((await getUser(userId))!),
+  };
+}
+
+/**
+ * Map a user profile item to the GraphQL User type
+ */
+export function toGraphQLUser(item: Record<string, any>): Record<string, any> {
+  return {
+    id: item.userId,
+    email: item.email,
+    firstName: item.firstName,
+    lastName: item.lastName,
+    role: item.role,
+    phoneNumber: item.phoneNumber || null,
+    phoneVerified: item.phoneVerified || false,
+    smsOptedOutAt: item.smsOptedOutAt || null,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+async function getUser(userId: string): Promise<Record<string, any> | null> {
+  const response = await dynamoDB.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'METADATA',
+      },
+    })
+  );
+
+  return response.Item || null;
+}
+
+async function deleteVerification(userId: string): Promise<void> {
+  await dynamoDB.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'PHONE_VERIFICATION',
+      },
+    })
+  );
+}
+
+function hashCode(userId: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${code}`).digest('hex');
+}
+
+function failure(type: string, message: string): PhoneVerificationResult {
+  return { success: false, error: { type, message } };
+}
+
+export const phoneVerification = {
+  normalizePhoneNumber,
+  startVerification,
+  confirmVerification,
+  removePhoneNumber,
+  toGraphQLUser,
+};
+
+export default phoneVerification;
@@ -0,0 +1,100 @@
+/**
+ * TEMS Notification System - SMS Provider
+ *
+ * Provider abstraction for sending and receiving text messages.
+ * SMS_PROVIDER selects the transport: "twilio" in deployed stages, "fake"
+ * for local development and testing. The fake transport sends nothing and
+ * trusts any webhook body, so it refuses to run outside FAKE_PROVIDER_STAGES.
+ *
+ * @module notifications/lib/sms/smsProvider
+ */
+
+import { twilioProvider } from './twilioProvider';
+import { fakeSmsProvider } from './fakeSmsProvider';
+
+/**
+ * Result of SMS send operation
+ */
+export interface SendSmsResult {
+  success: boolean;
+  messageId?: string;
+  error?: {
+    code: string;
+    message: string;
+    optedOut: boolean;   // Recipient has opted out with the carrier / provider
+  };
+}
+
+/**
+ * Incoming webhook request from the provider
+ */
+export interface InboundSmsRequest {
+  url: string;
+  headers: Record<string, string | undefined>;
+  body: string;
+}
+
+/**
+ * Text message sent to us by a user
+ */
+export interface InboundSms {
+  from: string;   // E.164 phone number
+  body: string;
+}
+
+/**
+ * SMS transport
+ */
+export interface SmsProvider {
+  name: string;
+
+  /**
+   * Send a text message
+   *
+   * @param to - E.164 phone number
+   * @param body - Message text
+   */
+  sendSms(to: string, body: string): Promise<SendSmsResult>;
+
+  /**
+   * Parse and authenticate an incoming webhook request
+   *
+   * @returns The message, or null if the request is not from the provider
+   */
+  parseInbound(request: InboundSmsRequest): Promise<InboundSms | null>;
+
+  /**
+   * Webhook response, optionally replying to the sender
+   */
+  formatInboundReply(message?: string): { contentType: string; body: string };
+}
+
+// Stages where the fake transport may be used
+const FAKE_PROVIDER_STAGES = ['local', 'dev'];
+
+/**
+ * Get the configured SMS provider
+ * Fails closed: a missing or unknown SMS_PROVIDER, or the fake provider in a
+ * stage that serves real users, is a configuration error
+ */
+export function getSmsProvider(): SmsProvider {
+  switch (process.env.SMS_PROVIDER) {
+    case 'twilio':
+      return twilioProvider;
+    case 'fake':
+      // Anyone could opt any number in or out through unauthenticated fake webhooks
+      if (!FAKE_PROVIDER_STAGES.includes(process.env.STAGE || '')) {
+        throw new Error(`The fake SMS provider cannot be used in stage ${process.env.STAGE}`);
+      }
+      return fakeSmsProvider;
+    case undefined:
+    case '':
+      throw new Error('SMS_PROVIDER is not set');
+    default:
+      throw new Error(`Unknown SMS provider: ${process.env.SMS_PROVIDER}`);
+  }
+}
+
+export default {
+  getSmsProvider,
+};
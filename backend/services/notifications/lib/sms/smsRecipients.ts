@@ -0,0 +1,191 @@
+/**
+ * TEMS Notification System - SMS Recipients
+ *
+ * Resolves the phone number a user can be texted at, records STOP/START
+ * opt-outs and enforces the per-user daily SMS cap.
+ *
+ * DynamoDB Schema:
+ * User profile:     PK: USER#{userId}, SK: METADATA (phoneNumber, phoneVerified, smsOptedOutAt)
+ * Phone lookup:     PK: PHONE#{e164}, SK: METADATA (userId)
+ * Daily counter:    PK: USER#{userId}, SK: SMS_DAILY#{yyyy-mm-dd} (count, UTC day)
+ *
+ * @module notifications/lib/sms/smsRecipients
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+
+const client = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
+
+const SMS_DAILY_CAP = parseInt(process.env.SMS_DAILY_CAP || '5', 10);
+const COUNTER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+/**
+ * Verified phone number of a user who can receive texts
+ *
+ * @param userId - User ID
+ * @returns E.164 phone number, or null if unverified or opted out
+ */
+export async function getSmsRecipient(userId: string): Promise<string | null> {
+  const response = await dynamoDB.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'METADATA',
+      },
+      ProjectionExpression: 'phoneNumber, phoneVerified, smsOptedOutAt',
+    })
+  );
+
+  const user = response.Item;
+  if (!user?.phoneNumber || !user.phoneVerified || user.smsOptedOutAt) {
+    return null;
+  }
+
+  return user.phoneNumber;
+}
+
+/**
+ * Find the user a verified phone number belongs to
+ *
+ * @param phoneNumber - E.164 phone number
+ * @returns User ID or null
+ */
+export async function getUserIdByPhone(phoneNumber: string): Promise<string | null> {
+  const response = await dynamoDB.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `PHONE#${phoneNumber}`,
+        SK: 'METADATA',
+      },
+    })
+  );
+
+  return response.Item?.userId || null;
+}
+
+/**
+ * Record that a number replied STOP (or the carrier reports it opted out)
+ *
+ * @param phoneNumber - E.164 phone number
+ * @returns User ID the number belongs to, or null if unknown
+ */
+export async function recordOptOut(phoneNumber: string): Promise<string | null> {
+  const userId = await getUserIdByPhone(phoneNumber);
+  if (!userId) {
+    return null;
+  }
+
+  await dynamoDB.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: 'SET smsOptedOutAt = if_not_exists(smsOptedOutAt, :now), updatedAt = :now',
+      ConditionExpression: 'phoneNumber = :phoneNumber',
+      ExpressionAttributeValues: {
+        ':now': new Date().toISOString(),
+        ':phoneNumber': phoneNumber,
+      },
+    })
+  ).catch(ignoreConditionFailure);
+
+  return userId;
+}
+
+/**
+ * Record that a number replied START after opting out
+ *
+ * @param phoneNumber - E.164 phone number
+ * @returns User ID the number belongs to, or null if unknown
+ */
+export async function recordOptIn(phoneNumber: string): Promise<string | null> {
+  const userId = await getUserIdByPhone(phoneNumber);
+  if (!userId) {
+    return null;
+  }
+
+  await dynamoDB.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: 'REMOVE smsOptedOutAt SET updatedAt = :now',
+      ConditionExpression: 'phoneNumber = :phoneNumber',
+      ExpressionAttributeValues: {
+        ':now': new Date().toISOString(),
+        ':phoneNumber': phoneNumber,
+      },
+    })
+  ).catch(ignoreConditionFailure);
+
+  return userId;
+}
+
+/**
+ * Count a text message against the user's daily cap
+ *
+ * @param userId - User ID
+ * @param now - Current time (the day is a UTC day)
+ * @returns false if the user already reached the cap today
+ */
+export async function reserveDailySms(userId: string, now: Date = new Date()): Promise<boolean> {
+  const day = now.toISOString().slice(0, 10);
+
+  try {
+    await dynamoDB.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${userId}`,
+          SK: `SMS_DAILY#${day}`,
+        },
+        UpdateExpression: 'ADD #count :one SET #ttl = if_not_exists(#ttl, :ttl)',
+        ConditionExpression: 'attribute_not_exists(#count) OR #count < :cap',
+        ExpressionAttributeNames: {
+          '#count': 'count',
+          '#ttl': 'ttl',
+        },
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':cap': SMS_DAILY_CAP,
+          ':ttl': Math.floor(new Date(`${day}T00:00:00Z`).getTime() / 1000) + COUNTER_TTL_SECONDS,
+        },
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The number was changed or removed in the meantime
+ */
+function ignoreConditionFailure(error: any): void {
+  if (error.name !== 'ConditionalCheckFailedException') {
+    throw error;
+  }
+}
+
+export const smsRecipients = {
+  getSmsRecipient,
+  getUserIdByPhone,
+  recordOptOut,
+  recordOptIn,
+  reserveDailySms,
+};
+
+export default smsRecipients;
@@ -0,0 +1,79 @@
+/**
+ * TEMS Notification System - SMS Templates
+ *
+ * Short text versions of each notification. Messages are kept close to a
+ * single 160-character segment: long event titles are truncated and every
+ * message carries the sender name and opt-out instructions.
+ *
+ * @module notifications/lib/sms/smsTemplates
+ */
+
+import { NotificationType } from '../../types/notification.types';
+
+const PREFIX = 'Terrapin Events: ';
+const SUFFIX = ' Reply STOP to opt out.';
+const MAX_TITLE_LENGTH = 40;
+
+type SmsTemplate = (data: Record<string, any>) => string;
+
+const SMS_TEMPLATES: Record<NotificationType, SmsTemplate> = {
+  [NotificationType.REGISTRATION_CONFIRMED]: (d) =>
+    `You're registered for ${title(d)} on ${d.eventDate} at ${d.eventTime}.`,
+  [NotificationType.WAITLIST_ADDED]: (d) =>
+    `You're #${d.waitlistPosition} on the waitlist for ${title(d)}.`,
+  [NotificationType.WAITLIST_PROMOTED]: (d) =>
+    `A spot opened up for ${title(d)}! Confirm it soon: ${d.eventUrl}`,
+  [NotificationType.REGISTRATION_CANCELLED]: (d) =>
+    `Your registration for ${title(d)} was cancelled.`,
+  [NotificationType.EVENT_REMINDER_24H]: (d) =>
+    `Reminder: ${title(d)} is tomorrow at ${d.eventTime}, ${d.eventLocation}.`,
+  [NotificationType.EVENT_REMINDER_1H]: (d) =>
+    `${title(d)} starts at ${d.eventTime} at ${d.eventLocation}.`,
+  [NotificationType.EVENT_UPDATED]: (d) =>
+    `${title(d)} has been updated. Details: ${d.eventUrl}`,
+  [NotificationType.EVENT_CANCELLED]: (d) =>
+    `${title(d)} on ${d.eventDate} has been cancelled.`,
+  [NotificationType.PROMOTION_EXPIRED]: (d) =>
+    d.requeued
+      ? `Your spot offer for ${title(d)} expired. You're back on the waitlist.`
+      : `Your spot offer for ${title(d)} expired.`,
+  [NotificationType.EVENT_APPROVED]: (d) =>
+    `${title(d)} was approved and is now published.`,
+  [NotificationType.EVENT_REJECTED]: (d) =>
+    `Changes were requested for ${title(d)}. Details: ${d.editEventUrl || d.eventUrl}`,
+  [NotificationType.SAVED_SEARCH_MATCH]: (d) =>
+    `${d.matchSummary}. See them: ${d.savedSearchesUrl}`,
+  [NotificationType.EVENT_FEEDBACK_REQUEST]: (d) =>
+    `How was ${title(d)}? Rate it here: ${d.feedbackUrl}`,
+  [NotificationType.ORGANIZER_ACCESS_APPROVED]: (d) =>
+    `Your organizer access was approved. Sign in again to create events: ${d.eventUrl}`,
+  [NotificationType.ORGANIZER_ACCESS_DENIED]: (d) =>
+    `Your organizer access request was not approved. Details: ${d.eventUrl}`,
+  [NotificationType.DIGEST]: (d) =>
+    `${d.digestSummary}. See them: ${d.dashboardUrl}`,
+};
+
+/**
+ * Render the text message for a notification
+ *
+ * @param notificationType - Notification type
+ * @param data - Template data (same data as the email template)
+ * @returns Message body
+ */
+export function renderSmsTemplate(
+  notificationType: NotificationType,
+  data: Record<string, any>
+): string {
+  return PREFIX + SMS_TEMPLATES[notificationType](data) + SUFFIX;
+}
+
+function title(data: Record<string, any>): string {
+  const eventTitle: string = data.eventTitle || 'your event';
+  return eventTitle.length > MAX_TITLE_LENGTH
+    ? `${eventTitle.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`
+    : eventTitle;
+}
+
+export default {
+  renderSmsTemplate,
+};
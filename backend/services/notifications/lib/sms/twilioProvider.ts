@@ -0,0 +1,157 @@
+/**
+ * TEMS Notification System - Twilio SMS Provider
+ *
+ * Sends text messages through the Twilio REST API and authenticates
+ * incoming message webhooks with the X-Twilio-Signature header.
+ * The auth token is read from an SSM SecureString parameter on first use.
+ *
+ * @module notifications/lib/sms/twilioProvider
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SSMClient, GetParameterCommand } from '@aws-sdk/client-ssm';
+import type { SmsProvider, SendSmsResult, InboundSmsRequest, InboundSms } from './smsProvider';
+
+const ssmClient = new SSMClient({ region: process.env.AWS_REGION || 'us-east-1' });
+
+const ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID || '';
+const AUTH_TOKEN_PARAMETER = process.env.TWILIO_AUTH_TOKEN_PARAMETER || '';
+const MESSAGING_SERVICE_SID = process.env.TWILIO_MESSAGING_SERVICE_SID || '';
+
+// Cached for the lifetime of the container
+let authToken: Promise<string> | undefined;
+
+/**
+ * Get the Twilio auth token from SSM Parameter Store
+ */
+function getAuthToken(): Promise<string> {
+  if (!authToken) {
+    authToken = ssmClient
+      .send(new GetParameterCommand({ Name: AUTH_TOKEN_PARAMETER, WithDecryption: true }))
+      .then((response) => {
+        if (!response.Parameter?.Value) {
+          throw new Error(`Twilio auth token parameter ${AUTH_TOKEN_PARAMETER} is empty`);
+        }
+        return response.Parameter.Value;
+      })
+      .catch((error) => {
+        // Let the next call try again
+        authToken = undefined;
+        throw error;
+      });
+  }
+  return authToken;
+}
+
+/**
+ * Twilio error code for messages to a number that replied STOP
+ */
+const UNSUBSCRIBED_RECIPIENT_ERROR = 21610;
+
+/**
+ * Send a text message via Twilio
+ */
+async function sendSms(to: string, body: string): Promise<SendSmsResult> {
+  try {
+    const token = await getAuthToken();
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${ACCOUNT_SID}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${ACCOUNT_SID}:${token}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          To: to,
+          MessagingServiceSid: MESSAGING_SERVICE_SID,
+          Body: body,
+        }).toString(),
+      }
+    );
+
+    const result: any = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: {
+          code: String(result.code || response.status),
+          message: result.message || 'Twilio request failed',
+          optedOut: result.code === UNSUBSCRIBED_RECIPIENT_ERROR,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      messageId: result.sid,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: error.name || 'UNKNOWN_ERROR',
+        message: error.message,
+        optedOut: false,
+      },
+    };
+  }
+}
+
+/**
+ * Parse an incoming message webhook (form-encoded)
+ * The signature is an HMAC-SHA1 of the webhook URL followed by the sorted parameters
+ */
+async function parseInbound(request: InboundSmsRequest): Promise<InboundSms | null> {
+  const signature = request.headers['X-Twilio-Signature'] || request.headers['x-twilio-signature'];
+  if (!signature) {
+    return null;
+  }
+
+  const params = new URLSearchParams(request.body);
+  const payload = Array.from(params.keys())
+    .sort()
+    .reduce((result, key) => result + key + params.get(key), request.url);
+  const expected = createHmac('sha1', await getAuthToken()).update(payload).digest();
+  const received = Buffer.from(signature, 'base64');
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  return {
+    from: params.get('From') || '',
+    body: params.get('Body') || '',
+  };
+}
+
+/**
+ * TwiML response, with an optional reply message
+ */
+function formatInboundReply(message?: string): { contentType: string; body: string } {
+  const reply = message ? `<Message>${escapeXml(message)}</Message>` : '';
+
+  return {
+    contentType: 'text/xml',
+    body: `<?xml version="1.0" encoding="UTF-8"?><Response>${reply}</Response>`,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export const twilioProvider: SmsProvider = {
+  name: 'twilio',
+  sendSms,
+  parseInbound,
+  formatInboundReply,
+};
+
+export default twilioProvider;
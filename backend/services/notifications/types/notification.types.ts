@@ -2,7 +2,7 @@
  * TEMS Notification System - Type Definitions
  * 
  * Complete type definitions for the multi-channel notification system.
- * Supports email (SES) and in-app notifications with preferences and delivery tracking.
+ * Supports email (SES), in-app, SMS and browser push notifications with preferences and delivery tracking.
  * 
  * @module notifications/types
  */
@@ -23,6 +23,14 @@ export enum NotificationType {
   EVENT_REMINDER_1H = 'EVENT_REMINDER_1H',
   EVENT_UPDATED = 'EVENT_UPDATED',
   EVENT_CANCELLED = 'EVENT_CANCELLED',
+  PROMOTION_EXPIRED = 'PROMOTION_EXPIRED',
+  EVENT_APPROVED = 'EVENT_APPROVED',
+  EVENT_REJECTED = 'EVENT_REJECTED',
+  SAVED_SEARCH_MATCH = 'SAVED_SEARCH_MATCH',
+  EVENT_FEEDBACK_REQUEST = 'EVENT_FEEDBACK_REQUEST',
+  ORGANIZER_ACCESS_APPROVED = 'ORGANIZER_ACCESS_APPROVED',
+  ORGANIZER_ACCESS_DENIED = 'ORGANIZER_ACCESS_DENIED',
+  DIGEST = 'DIGEST',
 }
 
 /**
@@ -31,6 +39,8 @@ export enum NotificationType {
 export enum NotificationChannel {
   EMAIL = 'EMAIL',
   IN_APP = 'IN_APP',
+  SMS = 'SMS',
+  PUSH = 'PUSH',
 }
 
 /**
@@ -134,6 +144,8 @@ export interface NotificationPreferences {
   userId: string;
   emailEnabled: boolean;
   inAppEnabled: boolean;
+  smsEnabled: boolean;     // Requires a verified phone number on the user profile
+  pushTypes?: NotificationType[]; // Browser push is opt-in per type
   frequency: NotificationFrequency;
   
   // Granular control per notification type
@@ -146,6 +158,14 @@ export interface NotificationPreferences {
     [NotificationType.EVENT_REMINDER_1H]: boolean;
     [NotificationType.EVENT_UPDATED]: boolean;
     [NotificationType.EVENT_CANCELLED]: boolean;
+    [NotificationType.PROMOTION_EXPIRED]: boolean;
+    [NotificationType.EVENT_APPROVED]: boolean;
+    [NotificationType.EVENT_REJECTED]: boolean;
+    [NotificationType.SAVED_SEARCH_MATCH]: boolean;
+    [NotificationType.EVENT_FEEDBACK_REQUEST]: boolean;
+    [NotificationType.ORGANIZER_ACCESS_APPROVED]: boolean;
+    [NotificationType.ORGANIZER_ACCESS_DENIED]: boolean;
+    [NotificationType.DIGEST]: boolean;
   };
   
   // Do Not Disturb settings
@@ -171,6 +191,8 @@ export interface NotificationPreferences {
 export interface UpdateNotificationPreferencesInput {
   emailEnabled?: boolean;
   inAppEnabled?: boolean;
+  smsEnabled?: boolean;
+  pushTypes?: NotificationType[];
   frequency?: NotificationFrequency;
   enabledTypes?: Partial<NotificationPreferences['enabledTypes']>;
   doNotDisturb?: Partial<NotificationPreferences['doNotDisturb']>;
@@ -182,6 +204,8 @@ export interface UpdateNotificationPreferencesInput {
 export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'PK' | 'SK' | 'userId' | 'unsubscribeToken' | 'createdAt' | 'updatedAt'> = {
   emailEnabled: true,
   inAppEnabled: true,
+  smsEnabled: false,
+  pushTypes: [],
   frequency: {
      digestEnabled: true,
      digestFrequency: 'daily', // or 'weekly' or undefined
@@ -199,6 +223,14 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'PK
     [NotificationType.EVENT_REMINDER_1H]: true,
     [NotificationType.EVENT_UPDATED]: true,
     [NotificationType.EVENT_CANCELLED]: true,
+    [NotificationType.PROMOTION_EXPIRED]: true,
+    [NotificationType.EVENT_APPROVED]: true,
+    [NotificationType.EVENT_REJECTED]: true,
+    [NotificationType.SAVED_SEARCH_MATCH]: true,
+    [NotificationType.EVENT_FEEDBACK_REQUEST]: true,
+    [NotificationType.ORGANIZER_ACCESS_APPROVED]: true,
+    [NotificationType.ORGANIZER_ACCESS_DENIED]: true,
+    [NotificationType.DIGEST]: true,
   },
   doNotDisturb: {
     enabled: true,
@@ -253,6 +285,51 @@ export interface DeliveryTracking {
   updatedAt: string;
 }
 
+/**
+ * Outcome of a delivery attempt, as counted in delivery stats
+ */
+export type DeliveryOutcome = 'sent' | 'failed' | 'bounced';
+
+/**
+ * Daily delivery counters in DynamoDB
+ * One record per day and channel, platform-wide and for each event
+ */
+export interface DeliveryStatsRecord {
+  // Primary Key
+  PK: string;              // DELIVERY_STATS#ALL or DELIVERY_STATS#EVENT#<eventId>
+  SK: string;              // DAY#<yyyy-mm-dd>#<channel>
+
+  date: string;            // UTC day
+  channel: NotificationChannel;
+  sent?: number;
+  failed?: number;
+  bounced?: number;
+  updatedAt: string;
+}
+
+/**
+ * Delivery counts for one channel
+ */
+export interface ChannelDeliveryStats {
+  channel: NotificationChannel;
+  sent: number;
+  failed: number;
+  bounced: number;
+}
+
+/**
+ * Delivery statistics for a period
+ * Matches the GraphQL DeliveryStats type
+ */
+export interface DeliveryStats {
+  totalSent: number;
+  totalDelivered: number;
+  totalBounced: number;
+  totalFailed: number;
+  deliveryRate: number;
+  byChannel: ChannelDeliveryStats[];
+}
+
 /**
  * Email template data for rendering
  */
@@ -276,6 +353,23 @@ export interface EmailTemplateData {
   // Waitlist information (if applicable)
   waitlistPosition?: number;
   estimatedPromotionDate?: string;
+  requeued?: boolean;        // Expired promotion moved back to the waitlist
+  
+  // Approval review information (organizer notifications)
+  reviewComment?: string;
+  rejectionReason?: string;
+  editEventUrl?: string;
+  
+  // Saved search alerts (one or more matches per notification)
+  matches?: SavedSearchMatchData[];
+  matchSummary?: string;
+  savedSearchesUrl?: string;
+  
+  // Digest emails (deferred low and medium priority notifications)
+  entries?: DigestEntryData[];
+  digestTitle?: string;
+  digestSummary?: string;
+  dashboardUrl?: string;
   
   // System URLs
   unsubscribeUrl: string;
@@ -311,6 +405,44 @@ export interface SendEmailRequest {
   attempt: number; // used by retryFailedNotification, defaults to 1 in handler
 }
 
+/**
+ * Internal request shape for sendSms handler
+ * The phone number is looked up at send time, so opt-outs apply immediately
+ */
+export interface SendSmsRequest {
+  userId: string;
+  notificationType: NotificationType;
+  priority: NotificationPriority;
+  data: Record<string, any>;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Internal request shape for sendPush handler
+ * Subscriptions are looked up at send time and every browser of the user gets the message
+ */
+export interface SendPushRequest {
+  userId: string;
+  notificationType: NotificationType;
+  priority: NotificationPriority;
+  data: Record<string, any>;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Browser push subscription stored in DynamoDB
+ * PK: USER#<userId>, SK: PUSH_SUBSCRIPTION#<sha256(endpoint)>
+ */
+export interface PushSubscriptionRecord {
+  endpoint: string;        // Push service URL of one browser
+  keys: {
+    p256dh: string;        // Browser public key (base64url)
+    auth: string;          // Auth secret (base64url)
+  };
+  userAgent?: string;
+  createdAt: string;
+}
+
 // ============================================================================
 // NOTIFICATION PAYLOAD INTERFACES
 // ============================================================================
@@ -326,6 +458,19 @@ export interface NotificationPayload {
   scheduledFor?: string;   // ISO 8601 timestamp for scheduled delivery
 }
 
+/**
+ * Notification held back by Do Not Disturb until scheduledFor
+ */
+export interface DeferredNotification extends NotificationPayload {
+  deferredId: string;      // <scheduledFor>#<uuid>
+  email: string;
+  eventId: string;
+  metadata: Record<string, any>;
+  channels: NotificationChannel[];  // Channels still to deliver
+  scheduledFor: string;
+  deferredAt: string;
+}
+
 /**
  * Event-specific notification data
  */
@@ -373,6 +518,51 @@ export interface EventUpdatedData {
   newDate?: string;
 }
 
+export interface PromotionExpiredData {
+  eventId: string;
+  eventTitle: string;
+  policy: 'CANCEL' | 'REQUEUE';
+  waitlistPosition?: number;  // Set when moved back to the waitlist
+  promotionDeadline: string;
+}
+
+export interface EventReviewedData {
+  eventId: string;
+  eventTitle: string;
+  reviewComment?: string;    // Optional note from the approving administrator
+  rejectionReason?: string;  // Required when the event was rejected
+}
+
+export interface SavedSearchMatchData {
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  eventUrl: string;
+  savedSearchNames: string[];  // Every saved search of the user the event matched
+}
+
+export interface FeedbackRequestData {
+  eventId: string;
+  eventTitle: string;
+  feedbackUrl: string;
+  feedbackDeadline: string;  // Formatted date the feedback form closes
+}
+
+export interface DigestEntryData {
+  notificationType: NotificationType;
+  headline: string;        // "Added to the waitlist"
+  detail?: string;         // "You're #3 on the waitlist"
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  eventUrl: string;
+  queuedAt: string;
+}
+
 export interface EventCancelledData {
   eventId: string;
   eventTitle: string;
@@ -527,6 +717,15 @@ export interface NotificationEvent {
   cancellationReason?: string;
   waitlistPromoted?: boolean;
   canReregister?: boolean;
+  policy?: 'CANCEL' | 'REQUEUE';
+  promotionDeadline?: string;
+  reviewComment?: string;
+  rejectionReason?: string;
+  savedSearchId?: string;
+  savedSearchName?: string;
+  feedbackDeadline?: string;
+  affiliation?: string;
+  decisionNote?: string;
   rescheduled?: boolean;
   autoReregister?: boolean;
   newEventDate?: string;
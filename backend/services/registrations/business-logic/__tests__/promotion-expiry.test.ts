@@ -0,0 +1,176 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { Registration, RegistrationStatus } from '../../../../shared/types/registration.types';
+import { PromotionExpiryPolicy } from '../../../../shared/types/common';
+
+const mockSend = jest.fn<(command: any) => Promise<any>>();
+const mockPutEvents = jest.fn<(command: any) => Promise<any>>();
+const mockGetNextWaitlistPosition = jest.fn<(eventId: string) => Promise<number>>();
+const mockPromoteFromWaitlist = jest.fn<(eventId: string, skipRegistrationId?: string) => Promise<void>>();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/lib-dynamodb')>('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+  };
+});
+
+jest.mock('@aws-sdk/client-eventbridge', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/client-eventbridge')>('@aws-sdk/client-eventbridge');
+  return {
+    ...actual,
+    EventBridgeClient: jest.fn(() => ({ send: mockPutEvents })),
+  };
+});
+
+jest.mock('../capacity-check', () => ({
+  getNextWaitlistPosition: (eventId: string) => mockGetNextWaitlistPosition(eventId),
+}));
+
+jest.mock('../waitlist-manager', () => ({
+  PENDING_PROMOTIONS_PK: 'PROMOTION#PENDING',
+  promoteFromWaitlist: (eventId: string, skipRegistrationId?: string) =>
+    mockPromoteFromWaitlist(eventId, skipRegistrationId),
+}));
+
+import { expirePromotion } from '../promotion-expiry';
+
+const DEADLINE = '2026-03-01T12:00:00.000Z';
+const FUTURE = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+const pending: Registration = {
+  PK: 'USER#user-1',
+  SK: 'REGISTRATION#reg-1',
+  GSI2PK: 'PROMOTION#PENDING',
+  GSI2SK: DEADLINE,
+  id: 'reg-1',
+  userId: 'user-1',
+  userEmail: 'user@example.com',
+  userName: 'User One',
+  eventId: 'evt-1',
+  eventTitle: 'Event',
+  status: RegistrationStatus.PROMOTION_PENDING,
+  promotionDeadline: DEADLINE,
+  registeredAt: DEADLINE,
+  createdAt: DEADLINE,
+  updatedAt: DEADLINE,
+};
+
+function conditionFailure(index: number): Error {
+  return Object.assign(new Error('Transaction cancelled'), {
+    name: 'TransactionCanceledException',
+    CancellationReasons: [0, 1, 2].map((i) => ({ Code: i === index ? 'ConditionalCheckFailed' : 'None' })),
+  });
+}
+
+/**
+ * Answer GetCommand with the event and TransactWriteCommand with the queued outcomes, in order
+ */
+function givenTable(event: Record<string, any> | undefined, transactions: Array<Error | null>): void {
+  mockSend.mockImplementation(async (command) => {
+    if (command instanceof GetCommand) {
+      return { Item: event };
+    }
+    if (command instanceof TransactWriteCommand) {
+      const outcome = transactions.shift();
+      if (outcome) {
+        throw outcome;
+      }
+      return {};
+    }
+    throw new Error(`Unexpected command ${command.constructor.name}`);
+  });
+}
+
+function transactions(): any[] {
+  return mockSend.mock.calls
+    .map(([command]) => command)
+    .filter((command) => command instanceof TransactWriteCommand)
+    .map((command) => command.input.TransactItems);
+}
+
+function publishedDetail(): any {
+  expect(mockPutEvents).toHaveBeenCalledTimes(1);
+  return JSON.parse(mockPutEvents.mock.calls[0][0].input.Entries[0].Detail);
+}
+
+describe('expirePromotion', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockPutEvents.mockReset().mockResolvedValue({});
+    mockGetNextWaitlistPosition.mockReset();
+    mockPromoteFromWaitlist.mockReset().mockResolvedValue(undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('cancels the offer, releases the seat and offers it to the next person', async () => {
+    givenTable({ status: 'PUBLISHED', startDateTime: FUTURE, title: 'Event' }, [null]);
+
+    await expect(expirePromotion(pending)).resolves.toBe(PromotionExpiryPolicy.CANCEL);
+
+    const [items] = transactions();
+    expect(items[0].Update.ExpressionAttributeValues).toMatchObject({
+      ':status': RegistrationStatus.CANCELLED,
+      ':deadline': DEADLINE,
+    });
+    expect(items[1].Update.ExpressionAttributeValues[':registeredInc']).toBe(-1);
+    expect(mockPromoteFromWaitlist).toHaveBeenCalledWith('evt-1', 'reg-1');
+    expect(publishedDetail()).toMatchObject({ policy: PromotionExpiryPolicy.CANCEL, registrationId: 'reg-1' });
+  });
+
+  it('requeues in one transaction, retrying when the position is taken', async () => {
+    givenTable(
+      { status: 'PUBLISHED', startDateTime: FUTURE, promotionExpiryPolicy: PromotionExpiryPolicy.REQUEUE },
+      [conditionFailure(0), null]
+    );
+    mockGetNextWaitlistPosition.mockResolvedValueOnce(3).mockResolvedValueOnce(4);
+
+    await expect(expirePromotion(pending)).resolves.toBe(PromotionExpiryPolicy.REQUEUE);
+
+    const attempts = transactions();
+    expect(attempts).toHaveLength(2);
+    expect(attempts[1][0].Put.Item).toMatchObject({ SK: 'WAITLIST#00004', registrationId: 'reg-1' });
+    expect(attempts[1][1].Update.ExpressionAttributeValues[':status']).toBe(RegistrationStatus.WAITLISTED);
+    expect(attempts[1][2].Update.ExpressionAttributeValues).toMatchObject({
+      ':registeredInc': -1,
+      ':waitlistInc': 1,
+    });
+    expect(publishedDetail()).toMatchObject({ policy: PromotionExpiryPolicy.REQUEUE, waitlistPosition: 4 });
+  });
+
+  it('gives up requeueing when the waitlist keeps changing', async () => {
+    givenTable(
+      { status: 'PUBLISHED', startDateTime: FUTURE, promotionExpiryPolicy: PromotionExpiryPolicy.REQUEUE },
+      [conditionFailure(0), conditionFailure(0), conditionFailure(0)]
+    );
+    mockGetNextWaitlistPosition.mockResolvedValue(3);
+
+    await expect(expirePromotion(pending)).rejects.toThrow('waitlist kept changing');
+    expect(mockPutEvents).not.toHaveBeenCalled();
+  });
+
+  it('leaves an offer that was accepted concurrently alone', async () => {
+    givenTable(
+      { status: 'PUBLISHED', startDateTime: FUTURE, promotionExpiryPolicy: PromotionExpiryPolicy.REQUEUE },
+      [conditionFailure(1)]
+    );
+    mockGetNextWaitlistPosition.mockResolvedValue(3);
+
+    await expect(expirePromotion(pending)).resolves.toBeNull();
+    expect(mockPromoteFromWaitlist).not.toHaveBeenCalled();
+    expect(mockPutEvents).not.toHaveBeenCalled();
+  });
+
+  it('cancels instead of requeueing once the event is cancelled', async () => {
+    givenTable(
+      { status: 'CANCELLED', startDateTime: FUTURE, promotionExpiryPolicy: PromotionExpiryPolicy.REQUEUE },
+      [null]
+    );
+
+    await expect(expirePromotion(pending)).resolves.toBe(PromotionExpiryPolicy.CANCEL);
+    expect(mockGetNextWaitlistPosition).not.toHaveBeenCalled();
+    expect(mockPromoteFromWaitlist).not.toHaveBeenCalled();
+  });
+});
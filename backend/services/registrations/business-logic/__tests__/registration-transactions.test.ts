@@ -0,0 +1,225 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Registration, RegistrationStatus, WaitlistEntry } from '../../../../shared/types/registration.types';
+
+const mockSend = jest.fn<(command: any) => Promise<any>>();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/lib-dynamodb')>('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+  };
+});
+
+import {
+  commitCancellation,
+  commitPromotionAcceptance,
+  commitRegistration,
+  commitWaitlistMove,
+  commitWaitlistRegistration,
+  isConditionFailure,
+} from '../registration-transactions';
+
+const TIMESTAMP = '2026-03-01T12:00:00.000Z';
+
+function registration(overrides: Partial<Registration> = {}): Registration {
+  return {
+    PK: 'USER#user-1',
+    SK: 'REGISTRATION#reg-1',
+    id: 'reg-1',
+    userId: 'user-1',
+    userEmail: 'user@example.com',
+    userName: 'User One',
+    eventId: 'evt-1',
+    eventTitle: 'Event',
+    status: RegistrationStatus.REGISTERED,
+    registeredAt: TIMESTAMP,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  };
+}
+
+// TransactWriteItems cancellation with the given item's condition failed
+function conditionFailure(index: number, itemCount = 4): Error {
+  return Object.assign(new Error('Transaction cancelled'), {
+    name: 'TransactionCanceledException',
+    CancellationReasons: Array.from({ length: itemCount }, (_, i) => ({
+      Code: i === index ? 'ConditionalCheckFailed' : 'None',
+    })),
+  });
+}
+
+function transactItems(): any[] {
+  expect(mockSend).toHaveBeenCalledTimes(1);
+  return mockSend.mock.calls[0][0].input.TransactItems;
+}
+
+describe('registration transactions', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('isConditionFailure', () => {
+    it('matches only the item whose condition failed', () => {
+      const error = conditionFailure(1);
+
+      expect(isConditionFailure(error, 1)).toBe(true);
+      expect(isConditionFailure(error, 0)).toBe(false);
+      expect(isConditionFailure(new Error('boom'), 1)).toBe(false);
+    });
+  });
+
+  describe('commitRegistration', () => {
+    it('reserves the seat and writes both copies in one transaction', async () => {
+      mockSend.mockResolvedValue({});
+
+      const committed = await commitRegistration(registration(), {
+        idempotencyKey: 'key-1',
+        registrationId: 'reg-1',
+        userId: 'user-1',
+        eventId: 'evt-1',
+        processedAt: TIMESTAMP,
+      });
+
+      const items = transactItems();
+      expect(committed).toBe(true);
+      expect(items).toHaveLength(4);
+      expect(items[0].Update.Key).toEqual({ PK: 'EVENT#evt-1', SK: 'METADATA' });
+      expect(items[0].Update.ConditionExpression).toContain('registeredCount < capacity');
+      expect(items[1].Put.Item.PK).toBe('USER#user-1');
+      expect(items[2].Put.Item).toMatchObject({ PK: 'EVENT#evt-1', SK: 'REGISTRATION#reg-1' });
+      expect(items[3].Put.Item.PK).toBe('IDEMPOTENCY#key-1');
+    });
+
+    it('returns false when the capacity condition fails', async () => {
+      mockSend.mockRejectedValue(conditionFailure(0));
+
+      await expect(commitRegistration(registration())).resolves.toBe(false);
+    });
+
+    it('rethrows other failures', async () => {
+      mockSend.mockRejectedValue(conditionFailure(1));
+
+      await expect(commitRegistration(registration())).rejects.toThrow('Transaction cancelled');
+    });
+  });
+
+  describe('commitWaitlistRegistration', () => {
+    const waitlisted = registration({ status: RegistrationStatus.WAITLISTED, waitlistPosition: 7 });
+
+    it('claims the waitlist position and bumps the waitlist count together', async () => {
+      mockSend.mockResolvedValue({});
+
+      await expect(commitWaitlistRegistration(waitlisted)).resolves.toBe(true);
+
+      const items = transactItems();
+      expect(items[0].Put.Item).toMatchObject({ PK: 'EVENT#evt-1', SK: 'WAITLIST#00007', position: 7 });
+      expect(items[0].Put.ConditionExpression).toBe('attribute_not_exists(PK)');
+      expect(items[2].Update.ExpressionAttributeValues[':waitlistInc']).toBe(1);
+    });
+
+    it('returns false when the position was claimed concurrently', async () => {
+      mockSend.mockRejectedValue(conditionFailure(0));
+
+      await expect(commitWaitlistRegistration(waitlisted)).resolves.toBe(false);
+    });
+  });
+
+  describe('commitCancellation', () => {
+    it('releases the seat and cancels both copies of a registration', async () => {
+      mockSend.mockResolvedValue({});
+
+      await commitCancellation(registration(), TIMESTAMP);
+
+      const items = transactItems();
+      expect(items).toHaveLength(3);
+      expect(items[0].Update.ExpressionAttributeValues[':currentStatus']).toBe(RegistrationStatus.REGISTERED);
+      expect(items[1].Update.ExpressionAttributeValues[':registeredInc']).toBe(-1);
+      expect(items[2].Update.Key).toEqual({ PK: 'EVENT#evt-1', SK: 'REGISTRATION#reg-1' });
+    });
+
+    it('leaves the event copy alone for a pending promotion', async () => {
+      mockSend.mockResolvedValue({});
+
+      await commitCancellation(registration({ status: RegistrationStatus.PROMOTION_PENDING }), TIMESTAMP);
+
+      expect(transactItems()).toHaveLength(2);
+    });
+
+    it('reports a concurrent status change as a business rule error', async () => {
+      mockSend.mockRejectedValue(conditionFailure(0));
+
+      await expect(commitCancellation(registration(), TIMESTAMP)).rejects.toThrow('BUSINESS_RULE_ERROR');
+    });
+  });
+
+  describe('commitWaitlistMove', () => {
+    const entry: WaitlistEntry = {
+      PK: 'EVENT#evt-1',
+      SK: 'WAITLIST#00005',
+      GSI1PK: 'USER#user-1',
+      GSI1SK: 'WAITLIST#evt-1#00005',
+      registrationId: 'reg-1',
+      userId: 'user-1',
+      userEmail: 'user@example.com',
+      userName: 'User One',
+      eventId: 'evt-1',
+      position: 5,
+      joinedAt: TIMESTAMP,
+    };
+
+    it('moves the entry and updates the registration together', async () => {
+      mockSend.mockResolvedValue({});
+
+      await expect(commitWaitlistMove(entry, 4, TIMESTAMP)).resolves.toBe(true);
+
+      const items = transactItems();
+      expect(items[0].Put.Item).toMatchObject({ SK: 'WAITLIST#00004', position: 4 });
+      expect(items[1].Delete.Key).toEqual({ PK: 'EVENT#evt-1', SK: 'WAITLIST#00005' });
+      expect(items[2].Update.ExpressionAttributeValues[':position']).toBe(4);
+    });
+
+    it.each([0, 1])('returns false when slot condition %i fails', async (index) => {
+      mockSend.mockRejectedValue(conditionFailure(index, 3));
+
+      await expect(commitWaitlistMove(entry, 4, TIMESTAMP)).resolves.toBe(false);
+    });
+  });
+
+  describe('commitPromotionAcceptance', () => {
+    const pending = registration({
+      status: RegistrationStatus.PROMOTION_PENDING,
+      promotionDeadline: '2026-03-02T12:00:00.000Z',
+      GSI2PK: 'PROMOTION#PENDING',
+      GSI2SK: '2026-03-02T12:00:00.000Z',
+    });
+
+    it('registers the user and creates the event copy', async () => {
+      mockSend.mockResolvedValue({});
+
+      const accepted = await commitPromotionAcceptance(pending, TIMESTAMP);
+
+      expect(accepted.status).toBe(RegistrationStatus.REGISTERED);
+      expect(accepted.promotionDeadline).toBeUndefined();
+      expect(accepted.GSI2PK).toBeUndefined();
+      expect(transactItems()[2].Put.Item).toMatchObject({ PK: 'EVENT#evt-1', SK: 'REGISTRATION#reg-1' });
+    });
+
+    it('reports an expired offer', async () => {
+      mockSend.mockRejectedValue(conditionFailure(0, 3));
+
+      await expect(commitPromotionAcceptance(pending, TIMESTAMP)).rejects.toThrow('PROMOTION_EXPIRED');
+    });
+
+    it('refuses a cancelled event', async () => {
+      mockSend.mockRejectedValue(conditionFailure(1, 3));
+
+      await expect(commitPromotionAcceptance(pending, TIMESTAMP)).rejects.toThrow(
+        'Cannot accept promotion for cancelled event'
+      );
+    });
+  });
+});
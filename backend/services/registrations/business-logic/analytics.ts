@@ -0,0 +1,469 @@
+/**
+ * Analytics Business Logic
+ * Keeps registration and attendance counters up to date from domain events and
+ * turns them into the rates organizers see on the dashboard
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  AnalyticsCounter,
+  AnalyticsCounters,
+  AnalyticsEventMarker,
+  AnalyticsRangeInput,
+  AnalyticsRecord,
+  AnalyticsSummary,
+  DailyAnalytics,
+  EventAnalytics,
+  HourlyCount,
+  OrganizerAnalytics,
+} from '../../../shared/types/analytics.types';
+import { isConditionFailure, TransactItem } from './registration-transactions';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
+
+// Longest period organizerAnalytics accepts
+export const MAX_RANGE_DAYS = 366;
+
+// Processed-event markers only need to outlive EventBridge retries
+const MARKER_TTL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const COUNTERS: AnalyticsCounter[] = [
+  'registrations',
+  'waitlistAdds',
+  'waitlistPromotions',
+  'promotionsAccepted',
+  'promotionsDeclined',
+  'promotionsExpired',
+  'cancellations',
+  'waitlistCancellations',
+  'attended',
+  'noShows',
+  'eventsPublished',
+  'eventsCompleted',
+];
+
+// Registration domain events and the counter each one bumps
+const REGISTRATION_COUNTERS: Record<string, AnalyticsCounter> = {
+  RegistrationCreated: 'registrations',
+  WaitlistAdded: 'waitlistAdds',
+  WaitlistPromoted: 'waitlistPromotions',
+  PromotionAccepted: 'promotionsAccepted',
+  PromotionDeclined: 'promotionsDeclined',
+  PromotionExpired: 'promotionsExpired',
+  RegistrationCancelled: 'cancellations',
+  WaitlistCancelled: 'waitlistCancellations',
+};
+
+// Events that count towards the sign-ups per hour of day
+const SIGN_UP_EVENTS = ['RegistrationCreated', 'WaitlistAdded'];
+
+/**
+ * Domain event as delivered by EventBridge
+ */
+export interface AnalyticsDomainEvent {
+  id: string;  // EventBridge event ID
+  detailType: string;
+  time: string;
+  detail: Record<string, any>;
+}
+
+/**
+ * What a single domain event adds to the analytics records
+ */
+interface AnalyticsIncrement {
+  eventId: string;
+  organizerId?: string;
+  occurredAt: string;  // ISO timestamp, decides the day and hour bucket
+  counters: Partial<AnalyticsCounters>;
+  isSignUp: boolean;
+}
+
+/**
+ * Record a domain event in the event totals, the event's day and the organizer's day
+ * @param domainEvent - Registration or event domain event
+ * @returns false if the event is not tracked or was already recorded
+ */
+export async function recordAnalyticsEvent(domainEvent: AnalyticsDomainEvent): Promise<boolean> {
+  const increment = await toIncrement(domainEvent);
+  if (!increment) {
+    console.log(`Domain event ${domainEvent.detailType} is not tracked by analytics`);
+    return false;
+  }
+
+  const timestamp = new Date().toISOString();
+  const date = toLocalDate(increment.occurredAt);
+  const hour = increment.isSignUp ? toLocalHour(increment.occurredAt) : null;
+
+  const marker: AnalyticsEventMarker = {
+    PK: `ANALYTICS_EVENT#${domainEvent.id}`,
+    SK: 'ANALYTICS_EVENT',
+    detailType: domainEvent.detailType,
+    processedAt: timestamp,
+    ttl: Math.floor((Date.now() + MARKER_TTL_DAYS * DAY_MS) / 1000),
+  };
+
+  const transactItems: TransactItem[] = [
+    {
+      Put: {
+        TableName: TABLE_NAME,
+        Item: marker,
+        ConditionExpression: 'attribute_not_exists(PK)',
+      },
+    },
+    counterUpdateItem(`EVENT#${increment.eventId}`, 'ANALYTICS', increment, hour, timestamp),
+    counterUpdateItem(`EVENT#${increment.eventId}`, `ANALYTICS#DAY#${date}`, increment, hour, timestamp, date),
+  ];
+
+  if (increment.organizerId) {
+    transactItems.push(
+      counterUpdateItem(`USER#${increment.organizerId}`, `ANALYTICS#DAY#${date}`, increment, hour, timestamp, date)
+    );
+  }
+
+  try {
+    await docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      console.log(`Domain event ${domainEvent.id} was already recorded`);
+      return false;
+    }
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Work out what a domain event adds, if anything
+ * @param domainEvent - Registration or event domain event
+ * @returns Increment, or null for events analytics does not track
+ */
+async function toIncrement(domainEvent: AnalyticsDomainEvent): Promise<AnalyticsIncrement | null> {
+  const { detailType, detail } = domainEvent;
+
+  // Event domain events carry the event itself
+  if (detailType === 'EVENT_PUBLISHED') {
+    return {
+      eventId: detail.eventId,
+      organizerId: detail.event?.organizerId,
+      occurredAt: detail.timestamp || domainEvent.time,
+      counters: { eventsPublished: 1 },
+      isSignUp: false,
+    };
+  }
+
+  if (detailType === 'EVENT_COMPLETED') {
+    return {
+      eventId: detail.eventId,
+      organizerId: detail.event?.organizerId,
+      // Attendance belongs to the day the event took place
+      occurredAt: detail.event?.endDateTime || detail.timestamp || domainEvent.time,
+      counters: {
+        eventsCompleted: 1,
+        attended: detail.metadata?.attendedCount || 0,
+        noShows: detail.metadata?.noShowCount || 0,
+      },
+      isSignUp: false,
+    };
+  }
+
+  const counter = REGISTRATION_COUNTERS[detailType];
+  if (!counter || !detail.eventId) {
+    return null;
+  }
+
+  // Registration events only name the event; the organizer comes from its metadata
+  const eventResult = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${detail.eventId}`,
+        SK: 'METADATA',
+      },
+      ProjectionExpression: 'organizerId',
+    })
+  );
+
+  return {
+    eventId: detail.eventId,
+    organizerId: eventResult.Item?.organizerId,
+    occurredAt: detail.timestamp || domainEvent.time,
+    counters: { [counter]: 1 },
+    isSignUp: SIGN_UP_EVENTS.includes(detailType),
+  };
+}
+
+/**
+ * Build the transact item that adds an increment to one analytics record
+ * @param pk - Record partition key
+ * @param sk - Record sort key
+ * @param increment - Counters to add
+ * @param hour - Hour of day to count a sign-up in, if any
+ * @param timestamp - ISO timestamp
+ * @param date - Day of a daily record
+ * @returns Transact item
+ */
+function counterUpdateItem(
+  pk: string,
+  sk: string,
+  increment: AnalyticsIncrement,
+  hour: number | null,
+  timestamp: string,
+  date?: string
+): TransactItem {
+  const names: Record<string, string> = {};
+  const values: Record<string, any> = { ':timestamp': timestamp };
+  const sets = ['updatedAt = :timestamp'];
+  const adds: string[] = [];
+
+  if (date) {
+    sets.push('#date = :date');
+    names['#date'] = 'date';
+    values[':date'] = date;
+  }
+
+  for (const [counter, amount] of Object.entries(increment.counters)) {
+    adds.push(`#${counter} :${counter}`);
+    names[`#${counter}`] = counter;
+    values[`:${counter}`] = amount;
+  }
+
+  if (hour !== null) {
+    adds.push('#hour :one');
+    names['#hour'] = hourAttribute(hour);
+    values[':one'] = 1;
+  }
+
+  return {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      UpdateExpression: `SET ${sets.join(', ')} ADD ${adds.join(', ')}`,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+    },
+  };
+}
+
+/**
+ * Get analytics for a single event
+ * @param eventData - Event METADATA item
+ * @returns Totals, rates and the registration timeline
+ */
+export async function getEventAnalytics(eventData: Record<string, any>): Promise<EventAnalytics> {
+  const eventId = eventData.id;
+
+  const [totalsResult, days] = await Promise.all([
+    docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'ANALYTICS',
+        },
+      })
+    ),
+    queryDailyRecords(`EVENT#${eventId}`, 'ANALYTICS#DAY#', 'ANALYTICS#DAY#~'),
+  ]);
+
+  const totals = (totalsResult.Item || null) as AnalyticsRecord | null;
+  const firstDay = days[0]?.date;
+  const lastDay = days[days.length - 1]?.date;
+
+  return {
+    eventId,
+    eventTitle: eventData.title,
+    capacity: eventData.capacity || 0,
+    updatedAt: totals?.updatedAt,
+    ...summarize(totals ? [totals] : [], firstDay && lastDay ? fillDays(firstDay, lastDay, days) : []),
+  };
+}
+
+/**
+ * Get analytics across all of an organizer's events for a period
+ * @param organizerId - Organizer user ID
+ * @param range - Inclusive yyyy-mm-dd range, already validated
+ * @returns Totals, rates and the daily timeline for the period
+ */
+export async function getOrganizerAnalytics(
+  organizerId: string,
+  range: AnalyticsRangeInput
+): Promise<OrganizerAnalytics> {
+  const days = await queryDailyRecords(
+    `USER#${organizerId}`,
+    `ANALYTICS#DAY#${range.startDate}`,
+    `ANALYTICS#DAY#${range.endDate}`
+  );
+
+  return {
+    organizerId,
+    startDate: range.startDate,
+    endDate: range.endDate,
+    ...summarize(days, fillDays(range.startDate, range.endDate, days)),
+  };
+}
+
+/**
+ * Validate an analytics period
+ * @param range - Requested range
+ * @returns Error message, or null if the range is usable
+ */
+export function validateAnalyticsRange(range: AnalyticsRangeInput): string | null {
+  if (!DATE_PATTERN.test(range.startDate) || !DATE_PATTERN.test(range.endDate)) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+
+  const start = Date.parse(`${range.startDate}T00:00:00Z`);
+  const end = Date.parse(`${range.endDate}T00:00:00Z`);
+  if (isNaN(start) || isNaN(end)) {
+    return 'Dates must be valid calendar dates';
+  }
+  if (end < start) {
+    return 'startDate must be on or before endDate';
+  }
+  if ((end - start) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    return `Analytics can cover at most ${MAX_RANGE_DAYS} days`;
+  }
+
+  return null;
+}
+
+/**
+ * Query daily analytics records between two sort keys
+ * @param pk - EVENT#<eventId> or USER#<organizerId>
+ * @param from - Lowest sort key
+ * @param to - Highest sort key
+ * @returns Daily records in date order
+ */
+async function queryDailyRecords(pk: string, from: string, to: string): Promise<AnalyticsRecord[]> {
+  const records: AnalyticsRecord[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':pk': pk,
+          ':from': from,
+          ':to': to,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    records.push(...((result.Items || []) as AnalyticsRecord[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return records;
+}
+
+/**
+ * Add up analytics records and derive the rates
+ * @param records - Records to total
+ * @param registrationsOverTime - Daily timeline to return alongside
+ * @returns Summary
+ */
+function summarize(records: AnalyticsRecord[], registrationsOverTime: DailyAnalytics[]): AnalyticsSummary {
+  const totals = {} as AnalyticsCounters;
+  for (const counter of COUNTERS) {
+    totals[counter] = records.reduce((sum, record) => sum + (record[counter] || 0), 0);
+  }
+
+  const registrationsByHour: HourlyCount[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    registrationsByHour.push({
+      hour,
+      count: records.reduce((sum, record) => sum + (record[hourAttribute(hour)] || 0), 0),
+    });
+  }
+
+  const peak = registrationsByHour.reduce<HourlyCount | null>(
+    (best, entry) => (entry.count > 0 && (!best || entry.count > best.count) ? entry : best),
+    null
+  );
+
+  return {
+    ...totals,
+    waitlistConversionRate: toRate(totals.promotionsAccepted, totals.waitlistAdds),
+    cancellationRate: toRate(totals.cancellations, totals.registrations + totals.promotionsAccepted),
+    checkInRate: toRate(totals.attended, totals.attended + totals.noShows),
+    peakRegistrationHour: peak ? peak.hour : null,
+    registrationsByHour,
+    registrationsOverTime,
+  };
+}
+
+/**
+ * One entry per day from start to end, zero-filled where nothing happened
+ * @param startDate - First day (yyyy-mm-dd)
+ * @param endDate - Last day (yyyy-mm-dd)
+ * @param records - Daily records
+ * @returns Timeline in date order
+ */
+function fillDays(startDate: string, endDate: string, records: AnalyticsRecord[]): DailyAnalytics[] {
+  const byDate = new Map(records.map((record) => [record.date, record]));
+  const timeline: DailyAnalytics[] = [];
+
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  for (let day = Date.parse(`${startDate}T00:00:00Z`); day <= end; day += DAY_MS) {
+    const date = new Date(day).toISOString().slice(0, 10);
+    const record = byDate.get(date);
+    timeline.push({
+      date,
+      registrations: record?.registrations || 0,
+      waitlistAdds: record?.waitlistAdds || 0,
+      cancellations: record?.cancellations || 0,
+    });
+  }
+
+  return timeline;
+}
+
+/**
+ * Ratio rounded to three decimals, or null without a denominator
+ */
+function toRate(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Attribute name holding sign-ups for an hour of the day
+ */
+function hourAttribute(hour: number): `hour${string}` {
+  return `hour${String(hour).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar day in the event timezone (yyyy-mm-dd)
+ */
+function toLocalDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-CA', { timeZone: EVENT_TIMEZONE });
+}
+
+/**
+ * Hour of the day in the event timezone (0-23)
+ */
+function toLocalHour(iso: string): number {
+  const hour = new Date(iso).toLocaleString('en-US', {
+    hour: 'numeric',
+    hourCycle: 'h23',
+    timeZone: EVENT_TIMEZONE,
+  });
+  return Number(hour) % 24;
+}
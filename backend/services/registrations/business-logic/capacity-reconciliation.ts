@@ -0,0 +1,357 @@
+/**
+ * Capacity Reconciliation Business Logic
+ * Recounts registrations per event and repairs drifted registeredCount / waitlistCount
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  Registration,
+  RegistrationStatus,
+  RegistrationStatusCounts,
+  CapacityDiscrepancy,
+  CapacityReconciliationResult,
+} from '../../../shared/types/registration.types';
+import { publishCapacityReconciled } from '../../../shared/utils/eventbridge.utils';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+// Counter writes always touch updatedAt. Only repair events that have been quiet
+// for this long so registration rows have settled in GSI1 before we trust the recount.
+const SETTLE_WINDOW_MS = 60 * 1000;
+
+// Scheduled runs cover events that started up to this many days ago
+const LOOKBACK_DAYS = 7;
+
+/**
+ * Reconcile every event from the lookback window onwards
+ * @param now - Reference time (defaults to current time)
+ * @returns Summary of the reconciliation run
+ */
+export async function reconcileAllEvents(now: Date = new Date()): Promise<CapacityReconciliationResult> {
+  try {
+    const result: CapacityReconciliationResult = {
+      eventsChecked: 0,
+      discrepanciesFound: 0,
+      repaired: 0,
+      failures: 0,
+    };
+
+    const from = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const events = await findEventsStartingAfter(from);
+
+    for (const eventData of events) {
+      try {
+        const report = await reconcileEvent(eventData, { repair: true, now });
+        result.eventsChecked++;
+        if (report.hasDiscrepancy) {
+          result.discrepanciesFound++;
+        }
+        if (report.repaired) {
+          result.repaired++;
+        }
+      } catch (error) {
+        console.error(`Failed to reconcile event ${eventData.id}:`, error);
+        result.failures++;
+      }
+    }
+
+    console.log('Capacity reconciliation complete', result);
+    return result;
+  } catch (error) {
+    console.error('Error reconciling capacity:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build a read-only discrepancy report
+ * @param options - Single event ID, or a start date range (defaults to the scheduled lookback window)
+ * @returns One report entry per event
+ */
+export async function getDiscrepancyReport(options: {
+  eventId?: string;
+  startDateAfter?: string;
+  startDateBefore?: string;
+}): Promise<CapacityDiscrepancy[]> {
+  try {
+    const now = new Date();
+
+    if (options.eventId) {
+      const eventData = await getEventMetadata(options.eventId);
+      if (!eventData) {
+        return [];
+      }
+      return [await reconcileEvent(eventData, { repair: false, now })];
+    }
+
+    const from = options.startDateAfter
+      ? new Date(options.startDateAfter)
+      : new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const to = options.startDateBefore ? new Date(options.startDateBefore) : undefined;
+
+    const events = await findEventsStartingAfter(from, to);
+    const reports: CapacityDiscrepancy[] = [];
+
+    for (const eventData of events) {
+      reports.push(await reconcileEvent(eventData, { repair: false, now }));
+    }
+
+    return reports;
+  } catch (error) {
+    console.error('Error building capacity discrepancy report:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recount one event and optionally repair its counters
+ * @param eventData - Event METADATA item
+ * @param options - repair: write corrected counts; now: reference time
+ * @returns Discrepancy report for the event
+ */
+export async function reconcileEvent(
+  eventData: Record<string, any>,
+  options: { repair: boolean; now?: Date }
+): Promise<CapacityDiscrepancy> {
+  const eventId: string = eventData.id;
+  const now = options.now || new Date();
+
+  // 1. Recount registration rows by status
+  const statusCounts = await countRegistrationsByStatus(eventId);
+
+  const actualRegisteredCount = countSeatsHeld(statusCounts);
+  const actualWaitlistCount = statusCounts.waitlisted;
+
+  const storedRegisteredCount = eventData.registeredCount || 0;
+  const storedWaitlistCount = eventData.waitlistCount || 0;
+  const capacity = eventData.capacity || 0;
+
+  const report: CapacityDiscrepancy = {
+    eventId,
+    eventTitle: eventData.title,
+    startDateTime: eventData.startDateTime,
+    capacity,
+    storedRegisteredCount,
+    actualRegisteredCount,
+    storedWaitlistCount,
+    actualWaitlistCount,
+    statusCounts,
+    hasDiscrepancy:
+      storedRegisteredCount !== actualRegisteredCount ||
+      storedWaitlistCount !== actualWaitlistCount,
+    repaired: false,
+    checkedAt: now.toISOString(),
+  };
+
+  if (!report.hasDiscrepancy || !options.repair) {
+    return report;
+  }
+
+  // 2. Leave recently touched events for the next run
+  const lastUpdated = eventData.updatedAt ? new Date(eventData.updatedAt).getTime() : 0;
+  if (now.getTime() - lastUpdated < SETTLE_WINDOW_MS) {
+    console.log(`Event ${eventId} changed recently, deferring repair`);
+    return report;
+  }
+
+  // 3. Overwrite the counters, unless a registration landed since we read the event
+  report.repaired = await repairCounters(eventData, actualRegisteredCount, actualWaitlistCount);
+
+  // 4. Publish CAPACITY_UPDATED so listeners refresh availability
+  if (report.repaired) {
+    console.warn(`Repaired capacity drift for event ${eventId}`, {
+      storedRegisteredCount,
+      actualRegisteredCount,
+      storedWaitlistCount,
+      actualWaitlistCount,
+    });
+
+    await publishCapacityReconciled(eventId, capacity, {
+      oldRegisteredCount: storedRegisteredCount,
+      registeredCount: actualRegisteredCount,
+      oldWaitlistCount: storedWaitlistCount,
+      waitlistCount: actualWaitlistCount,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Number of seats held according to the status counts
+ * PROMOTION_PENDING holds a seat, and checked-in / no-show rows keep theirs
+ * @param counts - Counts per status
+ * @returns Seats held
+ */
+export function countSeatsHeld(counts: RegistrationStatusCounts): number {
+  return counts.registered + counts.promotionPending + counts.attended + counts.noShow;
+}
+
+/**
+ * Count an event's registrations by status
+ * Reads the USER# copies through GSI1 - they carry every status, unlike the EVENT# copies
+ * @param eventId - Event ID
+ * @returns Counts per status
+ */
+export async function countRegistrationsByStatus(eventId: string): Promise<RegistrationStatusCounts> {
+  const counts: RegistrationStatusCounts = {
+    registered: 0,
+    waitlisted: 0,
+    promotionPending: 0,
+    attended: 0,
+    noShow: 0,
+    cancelled: 0,
+  };
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+        FilterExpression: 'begins_with(PK, :userPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${eventId}`,
+          ':sk': 'STATUS#',
+          ':userPrefix': 'USER#',
+        },
+        ProjectionExpression: '#status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    for (const item of (result.Items || []) as Pick<Registration, 'status'>[]) {
+      switch (item.status) {
+        case RegistrationStatus.REGISTERED:
+          counts.registered++;
+          break;
+        case RegistrationStatus.WAITLISTED:
+          counts.waitlisted++;
+          break;
+        case RegistrationStatus.PROMOTION_PENDING:
+          counts.promotionPending++;
+          break;
+        case RegistrationStatus.ATTENDED:
+          counts.attended++;
+          break;
+        case RegistrationStatus.NO_SHOW:
+          counts.noShow++;
+          break;
+        case RegistrationStatus.CANCELLED:
+          counts.cancelled++;
+          break;
+      }
+    }
+
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return counts;
+}
+
+/**
+ * Write corrected counters, conditional on the event being unchanged since it was read
+ * @param eventData - Event METADATA item as read before recounting
+ * @param registeredCount - Recounted registered total
+ * @param waitlistCount - Recounted waitlist total
+ * @returns true if the counters were written, false if the event changed concurrently
+ */
+async function repairCounters(
+  eventData: Record<string, any>,
+  registeredCount: number,
+  waitlistCount: number
+): Promise<boolean> {
+  const hasUpdatedAt = !!eventData.updatedAt;
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventData.id}`,
+          SK: 'METADATA',
+        },
+        UpdateExpression:
+          'SET registeredCount = :registered, waitlistCount = :waitlist, updatedAt = :timestamp',
+        ConditionExpression: hasUpdatedAt
+          ? 'updatedAt = :lastUpdated'
+          : 'attribute_exists(PK) AND attribute_not_exists(updatedAt)',
+        ExpressionAttributeValues: {
+          ':registered': registeredCount,
+          ':waitlist': waitlistCount,
+          ':timestamp': new Date().toISOString(),
+          ...(hasUpdatedAt && { ':lastUpdated': eventData.updatedAt }),
+        },
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      console.log(`Event ${eventData.id} changed during reconciliation, skipping repair`);
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find events starting in [from, to], any status
+ * @param from - Earliest start time
+ * @param to - Latest start time (open-ended if omitted)
+ * @returns Event METADATA items
+ */
+async function findEventsStartingAfter(from: Date, to?: Date): Promise<Record<string, any>[]> {
+  const events: Record<string, any>[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: to
+          ? 'GSI1PK = :pk AND GSI1SK BETWEEN :from AND :to'
+          : 'GSI1PK = :pk AND GSI1SK >= :from',
+        ExpressionAttributeValues: {
+          ':pk': 'EVENT#DATE',
+          ':from': from.toISOString(),
+          ...(to && { ':to': to.toISOString() }),
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    events.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return events;
+}
+
+/**
+ * Load an event METADATA item
+ * @param eventId - Event ID
+ * @returns Event item, or undefined if not found
+ */
+async function getEventMetadata(eventId: string): Promise<Record<string, any> | undefined> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${eventId}`,
+        SK: 'METADATA',
+      },
+      ConsistentRead: true,
+    })
+  );
+
+  return result.Item;
+}
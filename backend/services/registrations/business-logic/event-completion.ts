@@ -0,0 +1,280 @@
+/**
+ * Event Completion Business Logic
+ * Closes out events once they have ended: unscanned registrations become
+ * NO_SHOW and the event moves from PUBLISHED to COMPLETED
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  Registration,
+  RegistrationStatus,
+  EventCompletionResult,
+} from '../../../shared/types/registration.types';
+import { Event } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import { dynamoDBItemToEvent } from '../../../shared/utils/dynamodb.utils';
+import { publishEventCompleted } from '../../../shared/utils/eventbridge.utils';
+import { countRegistrationsByStatus } from './capacity-reconciliation';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+// Time after endDateTime during which late check-ins are still accepted
+const COMPLETION_GRACE_MS = 2 * 60 * 60 * 1000;
+
+// Only look this far back for events that were never closed out
+const LOOKBACK_DAYS = 30;
+
+/**
+ * Complete every published event whose end time plus the grace period has passed
+ * @param now - Reference time (defaults to current time)
+ * @returns Summary of the sweep
+ */
+export async function completeEndedEvents(now: Date = new Date()): Promise<EventCompletionResult> {
+  try {
+    const result: EventCompletionResult = {
+      eventsFound: 0,
+      completed: 0,
+      noShowsMarked: 0,
+      failures: 0,
+    };
+
+    const cutoff = new Date(now.getTime() - COMPLETION_GRACE_MS);
+    const events = await findEndedEvents(cutoff, now);
+    result.eventsFound = events.length;
+
+    for (const eventData of events) {
+      try {
+        const noShows = await completeEvent(eventData);
+        if (noShows !== null) {
+          result.completed++;
+          result.noShowsMarked += noShows;
+        }
+      } catch (error) {
+        console.error(`Failed to complete event ${eventData.id}:`, error);
+        result.failures++;
+      }
+    }
+
+    console.log('Event completion sweep complete', result);
+    return result;
+  } catch (error) {
+    console.error('Error completing ended events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close out a single event
+ * Safe to re-run: registrations and the event are only moved on from their expected status
+ * @param eventData - Event METADATA item
+ * @returns Number of registrations marked NO_SHOW, or null if another run completed the event first
+ */
+async function completeEvent(eventData: Record<string, any>): Promise<number | null> {
+  const eventId = eventData.id;
+
+  // 1. Registrations that were never checked in become no-shows
+  const unscanned = await getUnscannedRegistrations(eventId);
+
+  let noShows = 0;
+  for (const registration of unscanned) {
+    if (await markNoShow(registration)) {
+      noShows++;
+    }
+  }
+
+  // 2. Move the event to COMPLETED
+  const event = await markEventCompleted(eventId);
+  if (!event) {
+    console.log(`Event ${eventId} is no longer PUBLISHED, skipping completion`);
+    return null;
+  }
+
+  // 3. Let downstream services react (surveys, analytics, notifications)
+  const counts = await countRegistrationsByStatus(eventId);
+  await publishEventCompleted(event, {
+    attendedCount: counts.attended,
+    noShowCount: counts.noShow,
+  });
+
+  console.log(`Completed event ${eventId}`, { noShows, attended: counts.attended });
+  return noShows;
+}
+
+/**
+ * Get REGISTERED registrations for an event (USER copies only)
+ * @param eventId - Event ID
+ * @returns Registrations that were never checked in
+ */
+async function getUnscannedRegistrations(eventId: string): Promise<Registration[]> {
+  const registrations: Registration[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :status)',
+        // EVENT copies share the index key, count each registration once
+        FilterExpression: 'begins_with(PK, :userPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${eventId}`,
+          ':status': `STATUS#${RegistrationStatus.REGISTERED}#`,
+          ':userPrefix': 'USER#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    registrations.push(...((result.Items || []) as Registration[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return registrations;
+}
+
+/**
+ * Mark a registration as NO_SHOW
+ * @param registration - REGISTERED registration
+ * @returns False if the registration changed status in the meantime (e.g. a late check-in)
+ */
+async function markNoShow(registration: Registration): Promise<boolean> {
+  const timestamp = new Date().toISOString();
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${registration.userId}`,
+          SK: `REGISTRATION#${registration.id}`,
+        },
+        UpdateExpression: 'SET #status = :status, updatedAt = :timestamp, GSI1SK = :gsi1sk',
+        ConditionExpression: '#status = :currentStatus',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':status': RegistrationStatus.NO_SHOW,
+          ':currentStatus': RegistrationStatus.REGISTERED,
+          ':timestamp': timestamp,
+          ':gsi1sk': `STATUS#${RegistrationStatus.NO_SHOW}#${timestamp}`,
+        },
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${registration.eventId}`,
+          SK: `REGISTRATION#${registration.id}`,
+        },
+        UpdateExpression: 'SET #status = :status, updatedAt = :timestamp',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':status': RegistrationStatus.NO_SHOW,
+          ':timestamp': timestamp,
+        },
+      })
+    );
+  } catch (error: any) {
+    // The USER copy is the source of truth, a missing EVENT copy is fine
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Transition an event from PUBLISHED to COMPLETED
+ * @param eventId - Event ID
+ * @returns Updated event, or null if the event was not PUBLISHED
+ */
+async function markEventCompleted(eventId: string): Promise<Event | null> {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+        UpdateExpression: 'SET #status = :status, updatedAt = :timestamp, #version = #version + :inc',
+        ConditionExpression: '#status = :published',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+          '#version': 'version',
+        },
+        ExpressionAttributeValues: {
+          ':status': EventStatus.COMPLETED,
+          ':published': EventStatus.PUBLISHED,
+          ':timestamp': new Date().toISOString(),
+          ':inc': 1,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+
+    return result.Attributes ? dynamoDBItemToEvent(result.Attributes) : null;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find PUBLISHED events that ended before the cutoff
+ * @param cutoff - Events must have ended before this time
+ * @param now - Reference time for the lookback window
+ * @returns Event METADATA items
+ */
+async function findEndedEvents(cutoff: Date, now: Date): Promise<Record<string, any>[]> {
+  const from = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const events: Record<string, any>[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK BETWEEN :from AND :cutoff',
+        FilterExpression: '#status = :published AND endDateTime < :cutoff',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': 'EVENT#DATE',
+          ':from': from.toISOString(),
+          ':cutoff': cutoff.toISOString(),
+          ':published': EventStatus.PUBLISHED,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    events.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return events;
+}
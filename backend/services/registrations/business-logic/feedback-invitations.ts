@@ -0,0 +1,204 @@
+/**
+ * Feedback Invitations Business Logic
+ * Invites everyone who attended a completed event to leave feedback, exactly once
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, PutCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { Registration, RegistrationStatus } from '../../../shared/types/registration.types';
+import { Event } from '../../../shared/types/event.types';
+import {
+  FeedbackInvitationRecord,
+  FeedbackRequestedDetail,
+  FeedbackInvitationResult,
+} from '../../../shared/types/feedback.types';
+import { getFeedbackDeadline } from './feedback';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+const eventBridgeClient = new EventBridgeClient({});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
+
+/**
+ * Invite every attendee of a completed event
+ * @param event - Event from the EVENT_COMPLETED domain event
+ * @param now - Reference time (defaults to current time)
+ * @returns Summary of the invitation run
+ */
+export async function sendFeedbackInvitations(
+  event: Event,
+  now: Date = new Date()
+): Promise<FeedbackInvitationResult> {
+  try {
+    const feedbackDeadline = getFeedbackDeadline(event.endDateTime);
+
+    const result: FeedbackInvitationResult = {
+      eventId: event.id,
+      attendees: 0,
+      invitationsSent: 0,
+      invitationsSkipped: 0,
+      failures: 0,
+    };
+
+    // Nothing to ask for once the feedback window has closed (e.g. a late completion)
+    if (new Date(feedbackDeadline).getTime() <= now.getTime()) {
+      console.log(`Feedback window for event ${event.id} has closed, not sending invitations`);
+      return result;
+    }
+
+    const attendees = await getAttendedRegistrations(event.id);
+    result.attendees = attendees.length;
+
+    for (const registration of attendees) {
+      try {
+        const sent = await sendInvitationOnce(event, registration, feedbackDeadline);
+        if (sent) {
+          result.invitationsSent++;
+        } else {
+          result.invitationsSkipped++;
+        }
+      } catch (error) {
+        console.error(`Failed to send feedback invitation for registration ${registration.id}:`, error);
+        result.failures++;
+      }
+    }
+
+    console.log(`Feedback invitations complete for event ${event.id}`, result);
+    return result;
+  } catch (error) {
+    console.error('Error sending feedback invitations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get ATTENDED registrations for an event (USER copies only)
+ * @param eventId - Event ID
+ * @returns Registrations that were checked in
+ */
+async function getAttendedRegistrations(eventId: string): Promise<Registration[]> {
+  const registrations: Registration[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :status)',
+        // EVENT copies share the index key, count each registration once
+        FilterExpression: 'begins_with(PK, :userPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${eventId}`,
+          ':status': `STATUS#${RegistrationStatus.ATTENDED}#`,
+          ':userPrefix': 'USER#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    registrations.push(...((result.Items || []) as Registration[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return registrations;
+}
+
+/**
+ * Claim and publish a single invitation
+ * @param event - Completed event
+ * @param registration - ATTENDED registration
+ * @param feedbackDeadline - Last moment the attendee can respond (ISO)
+ * @returns true if the invitation was published, false if it was already sent
+ */
+async function sendInvitationOnce(
+  event: Event,
+  registration: Registration,
+  feedbackDeadline: string
+): Promise<boolean> {
+  const timestamp = new Date().toISOString();
+
+  const marker: FeedbackInvitationRecord = {
+    PK: `FEEDBACK_INVITATION#${registration.id}`,
+    SK: `EVENT#${event.id}`,
+    registrationId: registration.id,
+    eventId: event.id,
+    userId: registration.userId,
+    sentAt: timestamp,
+    // Keep the marker until the feedback window closes
+    ttl: Math.floor(new Date(feedbackDeadline).getTime() / 1000),
+  };
+
+  // Claim the invitation - fails if EVENT_COMPLETED was delivered before
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: marker,
+        ConditionExpression: 'attribute_not_exists(PK)',
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+
+  const startDate = new Date(event.startDateTime);
+  const detail: FeedbackRequestedDetail = {
+    registrationId: registration.id,
+    eventId: event.id,
+    eventTitle: event.title,
+    eventDate: startDate.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: EVENT_TIMEZONE,
+    }),
+    eventTime: startDate.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: EVENT_TIMEZONE,
+    }),
+    eventLocation: event.location?.building || '',
+    feedbackDeadline,
+    userId: registration.userId,
+    userEmail: registration.userEmail,
+    userName: registration.userName,
+    timestamp,
+  };
+
+  try {
+    await eventBridgeClient.send(
+      new PutEventsCommand({
+        Entries: [{
+          Source: 'tems.registrations',
+          DetailType: 'FeedbackRequested',
+          Detail: JSON.stringify(detail),
+          EventBusName: EVENT_BUS_NAME,
+        }],
+      })
+    );
+  } catch (error) {
+    // Release the claim so a redelivery of the event retries this invitation
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: marker.PK,
+          SK: marker.SK,
+        },
+      })
+    );
+    throw error;
+  }
+
+  return true;
+}
@@ -0,0 +1,614 @@
+/**
+ * Feedback Business Logic
+ * Post-event feedback forms: organizer-defined questions, one anonymous
+ * response per attendee and the aggregates organizers see afterwards
+ */
+
+import { randomUUID } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Registration, RegistrationStatus } from '../../../shared/types/registration.types';
+import {
+  FeedbackQuestion,
+  FeedbackQuestionInput,
+  FeedbackQuestionType,
+  FeedbackQuestionResult,
+  FeedbackDistributionEntry,
+  FeedbackFormRecord,
+  FeedbackForm,
+  FeedbackAnswer,
+  FeedbackResponseRecord,
+  SubmitEventFeedbackInput,
+  SubmitEventFeedbackResult,
+  OrganizerRating,
+} from '../../../shared/types/feedback.types';
+import { isConditionFailure } from './registration-transactions';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+// Attendees can respond for this long after the event ends
+export const FEEDBACK_WINDOW_DAYS = 30;
+
+// Form limits
+const MAX_QUESTIONS = 15;
+const MAX_PROMPT_LENGTH = 300;
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+const MAX_OPTION_LENGTH = 100;
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+
+// Every rating (the overall one and RATING questions) is 1-5
+const RATING_VALUES = [1, 2, 3, 4, 5];
+
+/**
+ * Asked when the organizer has not set up a form; the overall rating is always asked on top
+ */
+export const DEFAULT_FEEDBACK_QUESTIONS: FeedbackQuestion[] = [
+  {
+    id: 'highlights',
+    type: FeedbackQuestionType.TEXT,
+    prompt: 'What did you enjoy most about this event?',
+    required: false,
+  },
+  {
+    id: 'improvements',
+    type: FeedbackQuestionType.TEXT,
+    prompt: 'What could the organizer do better next time?',
+    required: false,
+  },
+];
+
+/**
+ * Last moment an attendee can respond
+ * @param endDateTime - Event end time (ISO)
+ * @returns ISO timestamp
+ */
+export function getFeedbackDeadline(endDateTime: string): string {
+  return new Date(
+    new Date(endDateTime).getTime() + FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+}
+
+/**
+ * Get the stored form item for an event
+ * @param eventId - Event ID
+ * @returns Form item, or null if nothing was saved or answered yet
+ */
+export async function getFeedbackFormRecord(eventId: string): Promise<FeedbackFormRecord | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${eventId}`,
+        SK: 'FEEDBACK_FORM',
+      },
+    })
+  );
+
+  return (result.Item as FeedbackFormRecord) || null;
+}
+
+/**
+ * Questions in effect for an event
+ * @param record - Stored form item (if any)
+ * @returns The organizer's questions, or the defaults
+ */
+export function getFeedbackQuestions(record: FeedbackFormRecord | null): FeedbackQuestion[] {
+  return record?.questions ?? DEFAULT_FEEDBACK_QUESTIONS;
+}
+
+/**
+ * Build the GraphQL FeedbackForm for an event
+ * @param eventData - Event METADATA item
+ * @param record - Stored form item (if any)
+ * @param hasSubmitted - Whether the current user already responded
+ */
+export function toFeedbackForm(
+  eventData: Record<string, any>,
+  record: FeedbackFormRecord | null,
+  hasSubmitted: boolean
+): FeedbackForm {
+  return {
+    eventId: eventData.id,
+    eventTitle: eventData.title,
+    questions: getFeedbackQuestions(record),
+    isDefault: !record?.questions,
+    responseCount: record?.responseCount ?? 0,
+    acceptingResponsesUntil: getFeedbackDeadline(eventData.endDateTime),
+    hasSubmitted,
+  };
+}
+
+/**
+ * Validate and normalize the questions an organizer submitted
+ * @param input - Questions from the saveEventFeedbackForm mutation
+ * @returns Normalized questions, or a validation message
+ */
+export function normalizeFeedbackQuestions(
+  input: FeedbackQuestionInput[]
+): { questions: FeedbackQuestion[]; error?: string } {
+  if (input.length > MAX_QUESTIONS) {
+    return { questions: [], error: `A feedback form can have at most ${MAX_QUESTIONS} questions` };
+  }
+
+  const questions: FeedbackQuestion[] = [];
+  const ids = new Set<string>();
+
+  for (const [index, question] of input.entries()) {
+    const label = `Question ${index + 1}`;
+    const prompt = question.prompt?.trim() || '';
+
+    if (!prompt) {
+      return { questions: [], error: `${label} needs a prompt` };
+    }
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return { questions: [], error: `${label} must be ${MAX_PROMPT_LENGTH} characters or fewer` };
+    }
+
+    const id = question.id?.trim() || randomUUID();
+    if (ids.has(id)) {
+      return { questions: [], error: `${label} reuses the ID ${id}` };
+    }
+    ids.add(id);
+
+    const normalized: FeedbackQuestion = {
+      id,
+      type: question.type,
+      prompt,
+      required: question.required ?? false,
+    };
+
+    if (question.type === FeedbackQuestionType.MULTIPLE_CHOICE) {
+      const options = (question.options || []).map((option) => option.trim()).filter(Boolean);
+
+      if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+        return { questions: [], error: `${label} needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} options` };
+      }
+      if (new Set(options).size !== options.length) {
+        return { questions: [], error: `${label} has duplicate options` };
+      }
+      if (options.some((option) => option.length > MAX_OPTION_LENGTH)) {
+        return { questions: [], error: `${label} options must be ${MAX_OPTION_LENGTH} characters or fewer` };
+      }
+
+      normalized.options = options;
+    }
+
+    questions.push(normalized);
+  }
+
+  return { questions };
+}
+
+/**
+ * Save an event's questions
+ * Refused once the first response is in, since answers refer to question IDs
+ * @param eventId - Event ID
+ * @param questions - Normalized questions
+ * @param userId - Organizer or administrator saving the form
+ * @returns The stored form item
+ */
+export async function saveFeedbackQuestions(
+  eventId: string,
+  questions: FeedbackQuestion[],
+  userId: string
+): Promise<FeedbackFormRecord> {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'FEEDBACK_FORM',
+        },
+        UpdateExpression:
+          'SET eventId = :eventId, questions = :questions, updatedBy = :userId, updatedAt = :timestamp, ' +
+          'createdAt = if_not_exists(createdAt, :timestamp)',
+        ConditionExpression: 'attribute_not_exists(responseCount) OR responseCount = :zero',
+        ExpressionAttributeValues: {
+          ':eventId': eventId,
+          ':questions': questions,
+          ':userId': userId,
+          ':timestamp': timestamp,
+          ':zero': 0,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+
+    return result.Attributes as FeedbackFormRecord;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'The feedback form cannot be changed after attendees have responded',
+      }));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the user's ATTENDED registration for an event (USER copy)
+ * @param userId - User ID
+ * @param eventId - Event ID
+ * @returns Registration, or null if the user did not attend
+ */
+export async function findAttendedRegistration(
+  userId: string,
+  eventId: string
+): Promise<Registration | null> {
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'eventId = :eventId AND #status = :attended',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'REGISTRATION#',
+          ':eventId': eventId,
+          ':attended': RegistrationStatus.ATTENDED,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    if (result.Items && result.Items.length > 0) {
+      return result.Items[0] as Registration;
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return null;
+}
+
+/**
+ * Check whether the user already responded for an event
+ * @param eventId - Event ID
+ * @param userId - User ID
+ */
+export async function hasSubmittedFeedback(eventId: string, userId: string): Promise<boolean> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${eventId}`,
+        SK: `FEEDBACK#${userId}`,
+      },
+      ProjectionExpression: 'PK',
+    })
+  );
+
+  return !!result.Item;
+}
+
+/**
+ * Validate a response against the event's questions
+ * @param questions - Questions in effect
+ * @param input - Submitted response
+ * @returns Answers trimmed to the form's questions, or a validation message
+ */
+export function validateFeedbackAnswers(
+  questions: FeedbackQuestion[],
+  input: SubmitEventFeedbackInput
+): { answers: FeedbackAnswer[]; error?: string } {
+  if (!RATING_VALUES.includes(input.overallRating)) {
+    return { answers: [], error: 'Overall rating must be a whole number from 1 to 5' };
+  }
+
+  const byQuestion = new Map<string, FeedbackAnswer>();
+  for (const answer of input.answers || []) {
+    if (byQuestion.has(answer.questionId)) {
+      return { answers: [], error: `Question ${answer.questionId} was answered twice` };
+    }
+    byQuestion.set(answer.questionId, answer);
+  }
+
+  const knownIds = new Set(questions.map((question) => question.id));
+  const unknown = [...byQuestion.keys()].find((id) => !knownIds.has(id));
+  if (unknown) {
+    return { answers: [], error: `Question ${unknown} is not part of this feedback form` };
+  }
+
+  const answers: FeedbackAnswer[] = [];
+
+  for (const question of questions) {
+    const answer = byQuestion.get(question.id);
+    const normalized = answer ? normalizeAnswer(question, answer) : null;
+
+    if (normalized && 'error' in normalized) {
+      return { answers: [], error: normalized.error };
+    }
+    if (!normalized) {
+      if (question.required) {
+        return { answers: [], error: `"${question.prompt}" is required` };
+      }
+      continue;
+    }
+
+    answers.push(normalized);
+  }
+
+  return { answers };
+}
+
+/**
+ * Keep only the value that matches the question type
+ * @returns The answer, null if it is empty, or a validation message
+ */
+function normalizeAnswer(
+  question: FeedbackQuestion,
+  answer: FeedbackAnswer
+): FeedbackAnswer | { error: string } | null {
+  switch (question.type) {
+    case FeedbackQuestionType.RATING:
+      if (answer.rating === undefined || answer.rating === null) return null;
+      if (!RATING_VALUES.includes(answer.rating)) {
+        return { error: `"${question.prompt}" must be rated from 1 to 5` };
+      }
+      return { questionId: question.id, rating: answer.rating };
+
+    case FeedbackQuestionType.MULTIPLE_CHOICE:
+      if (!answer.choice) return null;
+      if (!question.options?.includes(answer.choice)) {
+        return { error: `"${answer.choice}" is not an option for "${question.prompt}"` };
+      }
+      return { questionId: question.id, choice: answer.choice };
+
+    case FeedbackQuestionType.TEXT: {
+      const text = answer.text?.trim();
+      if (!text) return null;
+      if (text.length > MAX_TEXT_ANSWER_LENGTH) {
+        return { error: `Answers must be ${MAX_TEXT_ANSWER_LENGTH} characters or fewer` };
+      }
+      return { questionId: question.id, text };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Store a response and fold its rating into the organizer's running average
+ * Written in one transaction so the counters always match the stored responses
+ * @param eventData - Event METADATA item
+ * @param registration - The user's ATTENDED registration
+ * @param record - Form item the answers were validated against (if any)
+ * @param overallRating - Overall 1-5 rating
+ * @param answers - Validated answers
+ */
+export async function submitFeedback(
+  eventData: Record<string, any>,
+  registration: Registration,
+  record: FeedbackFormRecord | null,
+  overallRating: number,
+  answers: FeedbackAnswer[]
+): Promise<SubmitEventFeedbackResult> {
+  const eventId = eventData.id;
+  const timestamp = new Date().toISOString();
+
+  const response: FeedbackResponseRecord = {
+    PK: `EVENT#${eventId}`,
+    SK: `FEEDBACK#${registration.userId}`,
+    eventId,
+    registrationId: registration.id,
+    overallRating,
+    answers,
+    submittedAt: timestamp,
+  };
+
+  // Answers were checked against this version of the form
+  const formValues: Record<string, any> = {
+    ':eventId': eventId,
+    ':one': 1,
+  };
+  let formCondition = 'attribute_not_exists(updatedAt)';
+  if (record?.updatedAt) {
+    formCondition = 'updatedAt = :formUpdatedAt';
+    formValues[':formUpdatedAt'] = record.updatedAt;
+  }
+
+  try {
+    await docClient.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: TABLE_NAME,
+              Item: response,
+              ConditionExpression: 'attribute_not_exists(PK)',
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: `EVENT#${eventId}`,
+                SK: 'FEEDBACK_FORM',
+              },
+              UpdateExpression: 'SET eventId = :eventId ADD responseCount :one',
+              ConditionExpression: formCondition,
+              ExpressionAttributeValues: formValues,
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: `USER#${eventData.organizerId}`,
+                SK: 'FEEDBACK_SUMMARY',
+              },
+              UpdateExpression: 'SET updatedAt = :timestamp ADD ratingSum :rating, ratingCount :one',
+              ExpressionAttributeValues: {
+                ':timestamp': timestamp,
+                ':rating': overallRating,
+                ':one': 1,
+              },
+            },
+          },
+        ],
+      })
+    );
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'You have already submitted feedback for this event',
+      }));
+    }
+    if (isConditionFailure(error, 1)) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'The feedback form was changed while you were answering, please reload and try again',
+      }));
+    }
+    console.error('Error storing feedback:', error);
+    throw error;
+  }
+
+  return {
+    eventId,
+    submittedAt: timestamp,
+  };
+}
+
+/**
+ * Get every response for an event, oldest first
+ * @param eventId - Event ID
+ */
+export async function getFeedbackResponses(eventId: string): Promise<FeedbackResponseRecord[]> {
+  const responses: FeedbackResponseRecord[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${eventId}`,
+          ':sk': 'FEEDBACK#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    responses.push(...((result.Items || []) as FeedbackResponseRecord[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  // Sort keys are user IDs; order by submission instead
+  return responses.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+/**
+ * Aggregate responses into averages, distributions and collected text answers
+ * @param questions - Questions in effect
+ * @param responses - Stored responses
+ */
+export function aggregateFeedback(
+  questions: FeedbackQuestion[],
+  responses: FeedbackResponseRecord[]
+): {
+  averageRating?: number;
+  ratingDistribution: FeedbackDistributionEntry[];
+  questions: FeedbackQuestionResult[];
+} {
+  const overallRatings = responses.map((response) => response.overallRating);
+
+  const questionResults = questions.map((question): FeedbackQuestionResult => {
+    const answers = responses
+      .map((response) => response.answers.find((answer) => answer.questionId === question.id))
+      .filter((answer): answer is FeedbackAnswer => !!answer);
+
+    const result: FeedbackQuestionResult = {
+      questionId: question.id,
+      type: question.type,
+      prompt: question.prompt,
+      responseCount: answers.length,
+      distribution: [],
+      textResponses: [],
+    };
+
+    if (question.type === FeedbackQuestionType.RATING) {
+      const ratings = answers.map((answer) => answer.rating!);
+      result.average = average(ratings);
+      result.distribution = countValues(ratings.map(String), RATING_VALUES.map(String));
+    } else if (question.type === FeedbackQuestionType.MULTIPLE_CHOICE) {
+      result.distribution = countValues(answers.map((answer) => answer.choice!), question.options || []);
+    } else {
+      result.textResponses = answers.map((answer) => answer.text!);
+    }
+
+    return result;
+  });
+
+  return {
+    averageRating: average(overallRatings),
+    ratingDistribution: countValues(overallRatings.map(String), RATING_VALUES.map(String)),
+    questions: questionResults,
+  };
+}
+
+/**
+ * Average rounded to two decimals, undefined when there is nothing to average
+ */
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sum = values.reduce((total, value) => total + value, 0);
+  return Math.round((sum / values.length) * 100) / 100;
+}
+
+/**
+ * Count how often each possible value was picked, in the given order
+ */
+function countValues(values: string[], possible: string[]): FeedbackDistributionEntry[] {
+  return possible.map((value) => ({
+    value,
+    count: values.filter((picked) => picked === value).length,
+  }));
+}
+
+/**
+ * Average overall rating across all of an organizer's events
+ * @param organizerId - Organizer user ID
+ */
+export async function getOrganizerRating(organizerId: string): Promise<OrganizerRating> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${organizerId}`,
+        SK: 'FEEDBACK_SUMMARY',
+      },
+    })
+  );
+
+  const ratingCount = result.Item?.ratingCount ?? 0;
+
+  return {
+    organizerId,
+    averageRating: ratingCount > 0
+      ? Math.round((result.Item!.ratingSum / ratingCount) * 10) / 10
+      : undefined,
+    ratingCount,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Promotion Expiry Business Logic
+ * Reclaims seats held by waitlist promotions that were not accepted in time
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import {
+  Registration,
+  RegistrationStatus,
+  PromotionExpiredDetail,
+  PromotionSweepResult,
+} from '../../../shared/types/registration.types';
+import { PromotionExpiryPolicy } from '../../../shared/types/common';
+import { getNextWaitlistPosition } from './capacity-check';
+import { adjustCountersItem, commitPromotionRequeue, isConditionFailure } from './registration-transactions';
+import { promoteFromWaitlist, PENDING_PROMOTIONS_PK } from './waitlist-manager';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+const eventBridgeClient = new EventBridgeClient({});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
+
+// Attempts to claim a waitlist position when requeueing
+const MAX_REQUEUE_ATTEMPTS = 3;
+
+/**
+ * Expire every promotion whose deadline has passed
+ * @param now - Reference time (defaults to current time)
+ * @returns Summary of the sweep
+ */
+export async function sweepExpiredPromotions(now: Date = new Date()): Promise<PromotionSweepResult> {
+  try {
+    const result: PromotionSweepResult = {
+      expiredFound: 0,
+      cancelled: 0,
+      requeued: 0,
+      failures: 0,
+    };
+
+    const expired = await findExpiredPromotions(now);
+    result.expiredFound = expired.length;
+
+    // Process sequentially - promotions for the same event share the waitlist
+    for (const registration of expired) {
+      try {
+        const outcome = await expirePromotion(registration);
+        if (outcome === PromotionExpiryPolicy.REQUEUE) {
+          result.requeued++;
+        } else if (outcome === PromotionExpiryPolicy.CANCEL) {
+          result.cancelled++;
+        }
+      } catch (error) {
+        console.error(`Failed to expire promotion ${registration.id}:`, error);
+        result.failures++;
+      }
+    }
+
+    console.log('Promotion expiry sweep complete', result);
+    return result;
+  } catch (error) {
+    console.error('Error sweeping expired promotions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Find PROMOTION_PENDING registrations whose deadline is before now
+ * @param now - Reference time
+ * @returns Registrations with expired promotions
+ */
+async function findExpiredPromotions(now: Date): Promise<Registration[]> {
+  const registrations: Registration[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK < :now',
+        ExpressionAttributeValues: {
+          ':pk': PENDING_PROMOTIONS_PK,
+          ':now': now.toISOString(),
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    registrations.push(...((result.Items || []) as Registration[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return registrations;
+}
+
+/**
+ * Expire a single promotion according to the event's policy
+ * @param registration - Registration with an expired promotion
+ * @returns Policy that was applied, or null if the promotion was resolved concurrently
+ */
+export async function expirePromotion(
+  registration: Registration
+): Promise<PromotionExpiryPolicy | null> {
+  try {
+    const { id: registrationId, userId, userEmail, userName, eventId } = registration;
+    const timestamp = new Date().toISOString();
+
+    // 1. Load event for its expiry policy
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+    const eventData = eventResult.Item;
+
+    // Nothing left to queue for once the event has started or been cancelled
+    const eventIsOpen = !!eventData &&
+      eventData.status !== 'CANCELLED' &&
+      new Date(eventData.startDateTime) > new Date();
+
+    const policy: PromotionExpiryPolicy = eventIsOpen && eventData?.promotionExpiryPolicy === PromotionExpiryPolicy.REQUEUE
+      ? PromotionExpiryPolicy.REQUEUE
+      : PromotionExpiryPolicy.CANCEL;
+
+    // 2. Close the offer and release the held seat atomically
+    // Conditional so a concurrent accept/decline wins
+    let waitlistPosition: number | undefined;
+    try {
+      if (policy === PromotionExpiryPolicy.REQUEUE) {
+        // Requeue behind everyone still waiting, in the same transaction
+        // Retry if a concurrent registrant claims the same waitlist position
+        for (let attempt = 1; attempt <= MAX_REQUEUE_ATTEMPTS && waitlistPosition === undefined; attempt++) {
+          const position = await getNextWaitlistPosition(eventId);
+          if (await commitPromotionRequeue(registration, position, timestamp)) {
+            waitlistPosition = position;
+          }
+        }
+
+        if (waitlistPosition === undefined) {
+          throw new Error(`Could not requeue registration ${registrationId}: waitlist kept changing`);
+        }
+      } else {
+        await docClient.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              {
+                Update: {
+                  TableName: TABLE_NAME,
+                  Key: {
+                    PK: `USER#${userId}`,
+                    SK: `REGISTRATION#${registrationId}`,
+                  },
+                  UpdateExpression:
+                    'SET #status = :status, GSI1SK = :gsi1sk, updatedAt = :timestamp, cancelledAt = :timestamp' +
+                    ' REMOVE promotionDeadline, GSI2PK, GSI2SK, qrCode, qrCodeData',
+                  ConditionExpression: '#status = :pending AND promotionDeadline = :deadline',
+                  ExpressionAttributeNames: {
+                    '#status': 'status',
+                  },
+                  ExpressionAttributeValues: {
+                    ':status': RegistrationStatus.CANCELLED,
+                    ':pending': RegistrationStatus.PROMOTION_PENDING,
+                    ':deadline': registration.promotionDeadline,
+                    ':gsi1sk': `STATUS#${RegistrationStatus.CANCELLED}#${timestamp}`,
+                    ':timestamp': timestamp,
+                  },
+                },
+              },
+              adjustCountersItem(eventId, { registered: -1 }, timestamp),
+            ],
+          })
+        );
+      }
+    } catch (error) {
+      // The registration update is item 0 when cancelling and item 1 when requeueing
+      const registrationItem = policy === PromotionExpiryPolicy.REQUEUE ? 1 : 0;
+      if (isConditionFailure(error, registrationItem)) {
+        console.log(`Promotion ${registrationId} was resolved before expiry, skipping`);
+        return null;
+      }
+      throw error;
+    }
+
+    // 3. Offer the seat to the next person in line
+    // A requeued user is last in line, so only skip the offer when they are alone
+    if (eventIsOpen) {
+      await promoteFromWaitlist(eventId, registrationId);
+    }
+
+    // 4. Publish PromotionExpired event for notifications
+    const detail: PromotionExpiredDetail = {
+      registrationId,
+      eventId,
+      eventTitle: eventData?.title || registration.eventTitle,
+      userId,
+      userEmail,
+      userName,
+      policy,
+      waitlistPosition,
+      promotionDeadline: registration.promotionDeadline!,
+      timestamp,
+    };
+
+    await eventBridgeClient.send(
+      new PutEventsCommand({
+        Entries: [{
+          Source: 'tems.registrations',
+          DetailType: 'PromotionExpired',
+          Detail: JSON.stringify(detail),
+          EventBusName: EVENT_BUS_NAME,
+        }],
+      })
+    );
+
+    console.log(`Promotion ${registrationId} expired with policy ${policy}`);
+    return policy;
+  } catch (error) {
+    console.error('Error expiring promotion:', error);
+    throw error;
+  }
+}
@@ -88,16 +88,8 @@ export function verifyQRCode(qrCodeData: string): {
       };
     }
 
-    // Check if QR code is not too old (24 hours)
-    const qrCodeAge = Date.now() - new Date(data.timestamp).getTime();
-    const maxAge = 24 * 60 * 60 * 1000;  // 24 hours in milliseconds
-
-    if (qrCodeAge > maxAge) {
-      return {
-        isValid: false,
-        error: 'QR code expired (older than 24 hours)',
-      };
-    }
+    // No age limit - the code is issued at registration, often weeks before the event.
+    // Revocation is handled by the registration status check at check-in.
 
     return {
       isValid: true,
@@ -0,0 +1,642 @@
+/**
+ * Registration Transactions Business Logic
+ * Writes registration rows, waitlist entries and event counters in a single
+ * DynamoDB transaction so a partial failure can never leave them out of sync
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, TransactWriteCommand, TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import { Registration, RegistrationStatus, WaitlistEntry } from '../../../shared/types/registration.types';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+// Idempotency records live for 24 hours
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+export type TransactItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+/**
+ * Idempotency context stored alongside a registration
+ */
+export interface IdempotencyContext {
+  idempotencyKey: string;
+  registrationId: string;
+  userId: string;
+  eventId: string;
+  processedAt: string;
+}
+
+/**
+ * Check whether a transaction was cancelled by a failed condition on a given item
+ * @param error - Error thrown by TransactWriteCommand
+ * @param index - Index of the transact item to inspect
+ * @returns true if that item's condition failed
+ */
+export function isConditionFailure(error: any, index: number): boolean {
+  return error?.name === 'TransactionCanceledException' &&
+    error.CancellationReasons?.[index]?.Code === 'ConditionalCheckFailed';
+}
+
+/**
+ * Reserve a seat on the event - fails if the event is cancelled, missing or full
+ * @param eventId - Event ID
+ * @param timestamp - ISO timestamp
+ * @param waitlistDelta - Optional amount to add to waitlistCount in the same write (promotions)
+ * @returns Transact item
+ */
+export function reserveSeatItem(eventId: string, timestamp: string, waitlistDelta?: number): TransactItem {
+  const values: Record<string, any> = {
+    ':zero': 0,
+    ':one': 1,
+    ':cancelled': 'CANCELLED',
+    ':timestamp': timestamp,
+  };
+  let updateExpression = 'SET registeredCount = if_not_exists(registeredCount, :zero) + :one, updatedAt = :timestamp';
+
+  if (waitlistDelta) {
+    updateExpression += ' ADD waitlistCount :waitlistInc';
+    values[':waitlistInc'] = waitlistDelta;
+  }
+
+  return {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${eventId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: updateExpression,
+      ConditionExpression:
+        'attribute_exists(PK) AND #status <> :cancelled AND ' +
+        '(attribute_not_exists(registeredCount) OR registeredCount < capacity)',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: values,
+    },
+  };
+}
+
+/**
+ * Adjust event counters without a capacity condition
+ * @param eventId - Event ID
+ * @param deltas - Amounts to add to registeredCount / waitlistCount
+ * @param timestamp - ISO timestamp
+ * @returns Transact item
+ */
+export function adjustCountersItem(
+  eventId: string,
+  deltas: { registered?: number; waitlist?: number },
+  timestamp: string
+): TransactItem {
+  const adds: string[] = [];
+  const values: Record<string, any> = { ':timestamp': timestamp };
+
+  if (deltas.registered) {
+    adds.push('registeredCount :registeredInc');
+    values[':registeredInc'] = deltas.registered;
+  }
+  if (deltas.waitlist) {
+    adds.push('waitlistCount :waitlistInc');
+    values[':waitlistInc'] = deltas.waitlist;
+  }
+
+  return {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `EVENT#${eventId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: `ADD ${adds.join(', ')} SET updatedAt = :timestamp`,
+      ExpressionAttributeValues: values,
+    },
+  };
+}
+
+/**
+ * Build the idempotency record put
+ * @param context - Idempotency context
+ * @returns Transact item
+ */
+function idempotencyItem(context: IdempotencyContext): TransactItem {
+  return {
+    Put: {
+      TableName: TABLE_NAME,
+      Item: {
+        PK: `IDEMPOTENCY#${context.idempotencyKey}`,
+        SK: 'METADATA',
+        registrationId: context.registrationId,
+        userId: context.userId,
+        eventId: context.eventId,
+        processedAt: context.processedAt,
+        ttl: Math.floor(Date.now() / 1000) + IDEMPOTENCY_TTL_SECONDS, // DynamoDB will auto-delete after 24 hours
+      },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    },
+  };
+}
+
+/**
+ * Build the conditional put of a waitlist entry
+ * Fails if another request already holds this position
+ * @param registration - Registration being queued
+ * @param position - Waitlist position to claim
+ * @param joinedAt - ISO timestamp the user joined the waitlist
+ * @returns Transact item
+ */
+function waitlistEntryItem(registration: Registration, position: number, joinedAt: string): TransactItem {
+  const paddedPosition = position.toString().padStart(5, '0');
+
+  const waitlistEntry: WaitlistEntry = {
+    PK: `EVENT#${registration.eventId}`,
+    SK: `WAITLIST#${paddedPosition}`,
+    GSI1PK: `USER#${registration.userId}`,
+    GSI1SK: `WAITLIST#${registration.eventId}#${paddedPosition}`,
+    registrationId: registration.id,
+    userId: registration.userId,
+    userEmail: registration.userEmail,
+    userName: registration.userName,
+    eventId: registration.eventId,
+    position,
+    joinedAt,
+  };
+
+  return {
+    Put: {
+      TableName: TABLE_NAME,
+      Item: waitlistEntry,
+      ConditionExpression: 'attribute_not_exists(PK)',
+    },
+  };
+}
+
+/**
+ * Commit a REGISTERED registration
+ * Seat reservation, both registration copies and the idempotency record succeed or fail together
+ * @param registration - Registration (USER# copy) to write
+ * @param idempotency - Optional idempotency context
+ * @returns true if registered, false if the event filled up before the write
+ */
+export async function commitRegistration(
+  registration: Registration,
+  idempotency?: IdempotencyContext
+): Promise<boolean> {
+  try {
+    const items: TransactItem[] = [
+      // Index 0 - capacity condition evaluated inside the transaction
+      reserveSeatItem(registration.eventId, registration.createdAt),
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: registration,
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            ...registration,
+            PK: `EVENT#${registration.eventId}`,
+            SK: `REGISTRATION#${registration.id}`,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+    ];
+
+    if (idempotency) {
+      items.push(idempotencyItem(idempotency));
+    }
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    return true;
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      console.log(`Event ${registration.eventId} is full, registration not committed`);
+      return false;
+    }
+    console.error('Error committing registration:', error);
+    throw error;
+  }
+}
+
+/**
+ * Commit a WAITLISTED registration
+ * The waitlist entry put is conditional, so two concurrent requests can't claim the same position
+ * @param registration - Registration (USER# copy) with waitlistPosition set
+ * @param idempotency - Optional idempotency context
+ * @returns true if committed, false if the waitlist position was taken concurrently
+ */
+export async function commitWaitlistRegistration(
+  registration: Registration,
+  idempotency?: IdempotencyContext
+): Promise<boolean> {
+  try {
+    const items: TransactItem[] = [
+      // Index 0 - fails if another request claimed this position first
+      waitlistEntryItem(registration, registration.waitlistPosition!, registration.createdAt),
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: registration,
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      adjustCountersItem(registration.eventId, { waitlist: 1 }, registration.createdAt),
+    ];
+
+    if (idempotency) {
+      items.push(idempotencyItem(idempotency));
+    }
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    return true;
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      console.log(`Waitlist position ${registration.waitlistPosition} already taken for event ${registration.eventId}`);
+      return false;
+    }
+    console.error('Error committing waitlist registration:', error);
+    throw error;
+  }
+}
+
+/**
+ * Commit an expired promotion back onto the waitlist
+ * Closes the offer, releases the held seat and queues the user at the given
+ * position in one transaction, so the registration is never WAITLISTED without
+ * a waitlist entry
+ * @param registration - Current registration (USER# copy) in PROMOTION_PENDING
+ * @param position - Waitlist position to claim
+ * @param timestamp - ISO timestamp
+ * @returns true if requeued, false if the waitlist position was taken concurrently
+ * @throws TransactionCanceledException with item 1 failed if the offer was resolved concurrently
+ */
+export async function commitPromotionRequeue(
+  registration: Registration,
+  position: number,
+  timestamp: string
+): Promise<boolean> {
+  try {
+    const { id: registrationId, userId, eventId } = registration;
+
+    const items: TransactItem[] = [
+      // Index 0 - fails if another request claimed this position first
+      waitlistEntryItem(registration, position, timestamp),
+      // Index 1 - a concurrent accept/decline wins
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${userId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          UpdateExpression:
+            'SET #status = :status, waitlistPosition = :position, GSI1SK = :gsi1sk, updatedAt = :timestamp ' +
+            'REMOVE promotionDeadline, GSI2PK, GSI2SK, qrCode, qrCodeData',
+          ConditionExpression: '#status = :pending AND promotionDeadline = :deadline',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': RegistrationStatus.WAITLISTED,
+            ':pending': RegistrationStatus.PROMOTION_PENDING,
+            ':deadline': registration.promotionDeadline,
+            ':position': position,
+            ':gsi1sk': `STATUS#${RegistrationStatus.WAITLISTED}#${timestamp}`,
+            ':timestamp': timestamp,
+          },
+        },
+      },
+      adjustCountersItem(eventId, { registered: -1, waitlist: 1 }, timestamp),
+    ];
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    return true;
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      console.log(`Waitlist position ${position} already taken for event ${registration.eventId}`);
+      return false;
+    }
+    if (!isConditionFailure(error, 1)) {
+      console.error('Error committing promotion requeue:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Commit cancellation of a REGISTERED or PROMOTION_PENDING registration
+ * Both registration copies and the seat release are written together
+ * @param registration - Current registration (USER# copy)
+ * @param timestamp - ISO timestamp
+ */
+export async function commitCancellation(
+  registration: Registration,
+  timestamp: string
+): Promise<void> {
+  try {
+    const { id: registrationId, userId, eventId, status } = registration;
+
+    const items: TransactItem[] = [
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${userId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          UpdateExpression:
+            'SET #status = :status, cancelledAt = :timestamp, updatedAt = :timestamp, GSI1SK = :gsi1sk ' +
+            'REMOVE promotionDeadline, GSI2PK, GSI2SK',
+          // Guards against a concurrent cancel / accept / expiry
+          ConditionExpression: '#status = :currentStatus',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': RegistrationStatus.CANCELLED,
+            ':currentStatus': status,
+            ':timestamp': timestamp,
+            ':gsi1sk': `STATUS#CANCELLED#${timestamp}`,
+          },
+        },
+      },
+      adjustCountersItem(eventId, { registered: -1 }, timestamp),
+    ];
+
+    // Pending promotions have no EVENT# copy until they are accepted
+    if (status === RegistrationStatus.REGISTERED) {
+      items.push({
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `EVENT#${eventId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          UpdateExpression: 'SET #status = :status, cancelledAt = :timestamp, updatedAt = :timestamp, GSI1SK = :gsi1sk',
+          ConditionExpression: 'attribute_exists(PK)',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': RegistrationStatus.CANCELLED,
+            ':timestamp': timestamp,
+            ':gsi1sk': `STATUS#CANCELLED#${timestamp}`,
+          },
+        },
+      });
+    }
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'Registration was modified by another request, please retry',
+      }));
+    }
+    console.error('Error committing cancellation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Commit cancellation of a WAITLISTED registration
+ * Removes the waitlist entry and registration row and decrements the waitlist count together
+ * @param registration - Current registration (USER# copy)
+ * @param timestamp - ISO timestamp
+ */
+export async function commitWaitlistCancellation(
+  registration: Registration,
+  timestamp: string
+): Promise<void> {
+  try {
+    const { id: registrationId, userId, eventId, waitlistPosition } = registration;
+
+    const items: TransactItem[] = [
+      {
+        Delete: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${userId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          ConditionExpression: '#status = :waitlisted',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':waitlisted': RegistrationStatus.WAITLISTED,
+          },
+        },
+      },
+    ];
+
+    if (waitlistPosition) {
+      items.push(
+        {
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: `EVENT#${eventId}`,
+              SK: `WAITLIST#${waitlistPosition.toString().padStart(5, '0')}`,
+            },
+            // The entry at this position must still belong to this registration
+            ConditionExpression: 'registrationId = :registrationId',
+            ExpressionAttributeValues: {
+              ':registrationId': registrationId,
+            },
+          },
+        },
+        adjustCountersItem(eventId, { waitlist: -1 }, timestamp)
+      );
+    }
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+  } catch (error) {
+    if (isConditionFailure(error, 0) || isConditionFailure(error, 1)) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'Waitlist was modified by another request, please retry',
+      }));
+    }
+    console.error('Error committing waitlist cancellation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a waitlist entry to a new position
+ * The entry, its old slot and the registration's waitlistPosition change together
+ * @param entry - Current waitlist entry
+ * @param position - New waitlist position
+ * @param timestamp - ISO timestamp
+ * @returns true if moved, false if either slot was changed by another request
+ */
+export async function commitWaitlistMove(
+  entry: WaitlistEntry,
+  position: number,
+  timestamp: string
+): Promise<boolean> {
+  try {
+    const paddedPosition = position.toString().padStart(5, '0');
+
+    const items: TransactItem[] = [
+      // Index 0 - fails if another request claimed the new position
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            ...entry,
+            SK: `WAITLIST#${paddedPosition}`,
+            GSI1SK: `WAITLIST#${entry.eventId}#${paddedPosition}`,
+            position,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      // Index 1 - the old slot must still belong to this registration
+      {
+        Delete: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: entry.PK,
+            SK: entry.SK,
+          },
+          ConditionExpression: 'registrationId = :registrationId',
+          ExpressionAttributeValues: {
+            ':registrationId': entry.registrationId,
+          },
+        },
+      },
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${entry.userId}`,
+            SK: `REGISTRATION#${entry.registrationId}`,
+          },
+          UpdateExpression: 'SET waitlistPosition = :position, updatedAt = :timestamp',
+          ExpressionAttributeValues: {
+            ':position': position,
+            ':timestamp': timestamp,
+          },
+        },
+      },
+    ];
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    return true;
+  } catch (error) {
+    if (isConditionFailure(error, 0) || isConditionFailure(error, 1)) {
+      console.log(`Waitlist entry ${entry.SK} for event ${entry.eventId} changed concurrently`);
+      return false;
+    }
+    console.error('Error committing waitlist move:', error);
+    throw error;
+  }
+}
+
+/**
+ * Commit acceptance of a waitlist promotion
+ * The seat was reserved at promotion time; this flips the status and creates the EVENT# copy
+ * @param registration - Current registration (USER# copy) in PROMOTION_PENDING
+ * @param timestamp - ISO timestamp
+ * @returns Registration as written
+ */
+export async function commitPromotionAcceptance(
+  registration: Registration,
+  timestamp: string
+): Promise<Registration> {
+  try {
+    const { id: registrationId, userId, eventId } = registration;
+
+    const accepted: Registration = {
+      ...registration,
+      status: RegistrationStatus.REGISTERED,
+      GSI1SK: `STATUS#REGISTERED#${timestamp}`,
+      updatedAt: timestamp,
+    };
+    delete accepted.promotionDeadline;
+    delete accepted.GSI2PK;
+    delete accepted.GSI2SK;
+
+    const items: TransactItem[] = [
+      // Index 0 - offer must still be open
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${userId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          UpdateExpression:
+            'SET #status = :status, GSI1SK = :gsi1sk, updatedAt = :timestamp ' +
+            'REMOVE promotionDeadline, GSI2PK, GSI2SK',
+          ConditionExpression: '#status = :pending AND promotionDeadline > :timestamp',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': RegistrationStatus.REGISTERED,
+            ':pending': RegistrationStatus.PROMOTION_PENDING,
+            ':gsi1sk': accepted.GSI1SK,
+            ':timestamp': timestamp,
+          },
+        },
+      },
+      // Index 1 - event must still be running
+      {
+        ConditionCheck: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `EVENT#${eventId}`,
+            SK: 'METADATA',
+          },
+          ConditionExpression: 'attribute_exists(PK) AND #status <> :cancelled',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':cancelled': 'CANCELLED',
+          },
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            ...accepted,
+            PK: `EVENT#${eventId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+    ];
+
+    await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    return accepted;
+  } catch (error) {
+    if (isConditionFailure(error, 0)) {
+      throw new Error(JSON.stringify({
+        type: 'PROMOTION_EXPIRED',
+        message: 'Promotion deadline has passed. The spot has been offered to the next person in line.',
+      }));
+    }
+    if (isConditionFailure(error, 1)) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'Cannot accept promotion for cancelled event',
+      }));
+    }
+    console.error('Error committing promotion acceptance:', error);
+    throw error;
+  }
+}
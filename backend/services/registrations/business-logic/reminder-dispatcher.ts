@@ -0,0 +1,277 @@
+/**
+ * Reminder Dispatcher Business Logic
+ * Fans out 24h / 1h event reminders to registered attendees exactly once
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, PutCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import {
+  RegistrationStatus,
+  Registration,
+  ReminderType,
+  ReminderRecord,
+  EventReminderDetail,
+  ReminderDispatchResult,
+} from '../../../shared/types/registration.types';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+const eventBridgeClient = new EventBridgeClient({});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
+
+// Reminder configuration
+// Each reminder covers events starting between (now + windowStartHours, now + windowEndHours].
+// The windows are contiguous so a late registration or a reschedule still gets
+// the closest applicable reminder on the next run.
+export const REMINDER_CONFIG: Record<ReminderType, {
+  detailType: string;
+  hoursUntil: number;
+  windowStartHours: number;
+  windowEndHours: number;
+}> = {
+  REMINDER_24H: {
+    detailType: 'EventReminder24h',
+    hoursUntil: 24,
+    windowStartHours: 1,
+    windowEndHours: 24,
+  },
+  REMINDER_1H: {
+    detailType: 'EventReminder1h',
+    hoursUntil: 1,
+    windowStartHours: 0,
+    windowEndHours: 1,
+  },
+};
+
+/**
+ * Dispatch reminders of one type for all events in its window
+ * @param reminderType - Reminder type (REMINDER_24H | REMINDER_1H)
+ * @param now - Reference time (defaults to current time)
+ * @returns Summary of the dispatch run
+ */
+export async function dispatchReminders(
+  reminderType: ReminderType,
+  now: Date = new Date()
+): Promise<ReminderDispatchResult> {
+  try {
+    const config = REMINDER_CONFIG[reminderType];
+    const windowStart = new Date(now.getTime() + config.windowStartHours * 60 * 60 * 1000);
+    const windowEnd = new Date(now.getTime() + config.windowEndHours * 60 * 60 * 1000);
+
+    const result: ReminderDispatchResult = {
+      reminderType,
+      eventsScanned: 0,
+      remindersSent: 0,
+      remindersSkipped: 0,
+      failures: 0,
+    };
+
+    const events = await findPublishedEventsStartingBetween(windowStart, windowEnd);
+    result.eventsScanned = events.length;
+
+    for (const eventData of events) {
+      const registrations = await getRegisteredAttendees(eventData.id);
+
+      for (const registration of registrations) {
+        try {
+          const sent = await sendReminderOnce(reminderType, eventData, registration);
+          if (sent) {
+            result.remindersSent++;
+          } else {
+            result.remindersSkipped++;
+          }
+        } catch (error) {
+          console.error(`Failed to send ${reminderType} for registration ${registration.id}:`, error);
+          result.failures++;
+        }
+      }
+    }
+
+    console.log(`Reminder dispatch complete for ${reminderType}`, result);
+    return result;
+  } catch (error) {
+    console.error('Error dispatching reminders:', error);
+    throw error;
+  }
+}
+
+/**
+ * Find PUBLISHED events whose start time falls in (from, to]
+ * @param from - Window start (exclusive)
+ * @param to - Window end (inclusive)
+ * @returns Event items
+ */
+async function findPublishedEventsStartingBetween(
+  from: Date,
+  to: Date
+): Promise<Record<string, any>[]> {
+  const events: Record<string, any>[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK BETWEEN :from AND :to',
+        FilterExpression: '#status = :published',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': 'EVENT#DATE',
+          ':from': from.toISOString(),
+          ':to': to.toISOString(),
+          ':published': 'PUBLISHED',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    events.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  // BETWEEN is inclusive on both ends, drop events sitting exactly on the lower bound
+  // so they are handled by the next (shorter) reminder window instead
+  return events.filter((item) => new Date(item.startDateTime).getTime() > from.getTime());
+}
+
+/**
+ * Get REGISTERED attendees for an event from the EVENT# registration copies
+ * @param eventId - Event ID
+ * @returns Registrations with REGISTERED status
+ */
+async function getRegisteredAttendees(eventId: string): Promise<Registration[]> {
+  const registrations: Registration[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${eventId}`,
+          ':sk': 'REGISTRATION#',
+          ':status': RegistrationStatus.REGISTERED,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    registrations.push(...((result.Items || []) as Registration[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return registrations;
+}
+
+/**
+ * Claim and publish a single reminder
+ * The marker is keyed on the event start time, so a rescheduled event is reminded again
+ * @param reminderType - Reminder type
+ * @param eventData - Event item
+ * @param registration - Registration item
+ * @returns true if the reminder was published, false if it was already sent
+ */
+async function sendReminderOnce(
+  reminderType: ReminderType,
+  eventData: Record<string, any>,
+  registration: Registration
+): Promise<boolean> {
+  const config = REMINDER_CONFIG[reminderType];
+  const timestamp = new Date().toISOString();
+
+  const marker: ReminderRecord = {
+    PK: `REMINDER#${registration.id}`,
+    SK: `${reminderType}#${eventData.startDateTime}`,
+    registrationId: registration.id,
+    eventId: eventData.id,
+    userId: registration.userId,
+    reminderType,
+    eventStartDateTime: eventData.startDateTime,
+    sentAt: timestamp,
+    // Keep the marker until a week after the event
+    ttl: Math.floor(new Date(eventData.startDateTime).getTime() / 1000) + (7 * 24 * 60 * 60),
+  };
+
+  // Claim the reminder - fails if it was already sent for this start time
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: marker,
+        ConditionExpression: 'attribute_not_exists(PK)',
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+
+  const startDate = new Date(eventData.startDateTime);
+  const detail: EventReminderDetail = {
+    registrationId: registration.id,
+    eventId: eventData.id,
+    eventTitle: eventData.title,
+    eventDate: startDate.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: EVENT_TIMEZONE,
+    }),
+    eventTime: startDate.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: EVENT_TIMEZONE,
+    }),
+    eventLocation: eventData.location?.building || '',
+    eventRoom: eventData.location?.room,
+    eventDescription: eventData.description,
+    hoursUntil: config.hoursUntil,
+    userId: registration.userId,
+    userEmail: registration.userEmail,
+    userName: registration.userName,
+    timestamp,
+  };
+
+  try {
+    await eventBridgeClient.send(
+      new PutEventsCommand({
+        Entries: [{
+          Source: 'tems.registrations',
+          DetailType: config.detailType,
+          Detail: JSON.stringify(detail),
+          EventBusName: EVENT_BUS_NAME,
+        }],
+      })
+    );
+  } catch (error) {
+    // Release the claim so the next run retries this reminder
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: marker.PK,
+          SK: marker.SK,
+        },
+      })
+    );
+    throw error;
+  }
+
+  return true;
+}
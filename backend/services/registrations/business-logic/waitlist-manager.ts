@@ -4,10 +4,11 @@
  */
 
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand, PutCommand, DeleteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, DeleteCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
 import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
 import { RegistrationStatus, WaitlistEntry } from '../../../shared/types/registration.types';
-import { atomicIncrementWaitlist, atomicIncrementRegistered } from './capacity-check';
+import { atomicIncrementWaitlist } from './capacity-check';
+import { reserveSeatItem, isConditionFailure, commitWaitlistMove } from './registration-transactions';
 import { generateQRCode } from './qr-generator';
 
 const client = new DynamoDBClient({});
@@ -17,86 +18,16 @@ const eventBridgeClient = new EventBridgeClient({});
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
 const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
 
-/**
- * Add user to waitlist
- * @param registrationId - Registration ID
- * @param userId - User ID
- * @param userEmail - User email
- * @param userName - User name
- * @param eventId - Event ID
- * @param position - Waitlist position
- */
-export async function addToWaitlist(
-  registrationId: string,
-  userId: string,
-  userEmail: string,
-  userName: string,
-  eventId: string,
-  position: number
-): Promise<WaitlistEntry> {
-  try {
-    const timestamp = new Date().toISOString();
-    
-    // Pad position with zeros for proper sorting (WAITLIST#00001)
-    const paddedPosition = position.toString().padStart(5, '0');
-    
-    const waitlistEntry: WaitlistEntry = {
-      PK: `EVENT#${eventId}`,
-      SK: `WAITLIST#${paddedPosition}`,
-      GSI1PK: `USER#${userId}`,
-      GSI1SK: `WAITLIST#${eventId}#${paddedPosition}`,
-      registrationId,
-      userId,
-      userEmail,
-      userName,
-      eventId,
-      position,
-      joinedAt: timestamp,
-    };
-
-    await docClient.send(
-      new PutCommand({
-        TableName: TABLE_NAME,
-        Item: waitlistEntry,
-      })
-    );
-
-    // Also update the registration record
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          PK: `USER#${userId}`,
-          SK: `REGISTRATION#${registrationId}`,
-        },
-        UpdateExpression: 'SET #status = :status, waitlistPosition = :position, updatedAt = :timestamp',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': RegistrationStatus.WAITLISTED,
-          ':position': position,
-          ':timestamp': timestamp,
-        },
-      })
-    );
-
-    // Increment waitlist count
-    await atomicIncrementWaitlist(eventId, 1);
-
-    return waitlistEntry;
-  } catch (error) {
-    console.error('Error adding to waitlist:', error);
-    throw error;
-  }
-}
+// GSI2 partition holding every registration with an open promotion offer
+export const PENDING_PROMOTIONS_PK = 'PROMOTION#PENDING';
 
 /**
  * Promote first person from waitlist (FIFO)
  * Called when someone cancels their registration
  * @param eventId - Event ID
+ * @param skipRegistrationId - Don't offer the seat to this registration (a promotion that just expired)
  */
-export async function promoteFromWaitlist(eventId: string): Promise<void> {
+export async function promoteFromWaitlist(eventId: string, skipRegistrationId?: string): Promise<void> {
   try {
     // Get first person on waitlist
     const result = await docClient.send(
@@ -120,6 +51,11 @@ export async function promoteFromWaitlist(eventId: string): Promise<void> {
     const waitlistEntry = result.Items[0] as WaitlistEntry;
     const { registrationId, userId, userEmail, userName, position } = waitlistEntry;
 
+    if (registrationId === skipRegistrationId) {
+      console.log(`Only registration ${registrationId} is waiting, not offering the seat back`);
+      return;
+    }
+
     console.log(`Promoting user ${userId} from position ${position}`);
 
     // Generate QR code for promoted registration
@@ -128,44 +64,67 @@ export async function promoteFromWaitlist(eventId: string): Promise<void> {
     // Calculate promotion deadline (24 hours from now)
     const promotionDeadline = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
 
-    // Update registration to PROMOTION_PENDING
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          PK: `USER#${userId}`,
-          SK: `REGISTRATION#${registrationId}`,
-        },
-        UpdateExpression: 
-          'SET #status = :status, qrCode = :qrCode, qrCodeData = :qrCodeData, ' +
-          'promotionDeadline = :deadline, REMOVE waitlistPosition SET updatedAt = :timestamp',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': RegistrationStatus.PROMOTION_PENDING,
-          ':qrCode': qrCode,
-          ':qrCodeData': qrCodeData,
-          ':deadline': promotionDeadline,
-          ':timestamp': new Date().toISOString(),
-        },
-      })
-    );
-
-    // Remove from waitlist (delete waitlist entry)
-    await docClient.send(
-      new DeleteCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          PK: `EVENT#${eventId}`,
-          SK: `WAITLIST#${position.toString().padStart(5, '0')}`,
-        },
-      })
-    );
+    const timestamp = new Date().toISOString();
 
-    // Update counters
-    await atomicIncrementWaitlist(eventId, -1);
-    await atomicIncrementRegistered(eventId, 1);
+    // Reserve the seat, move the registration to PROMOTION_PENDING and remove the
+    // waitlist entry in one transaction - the capacity condition prevents overbooking
+    // GSI2 keys put the registration in the pending-promotions index used by the expiry sweeper
+    try {
+      await docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            // Index 0 - seat reservation (registered +1, waitlist -1)
+            reserveSeatItem(eventId, timestamp, -1),
+            {
+              Update: {
+                TableName: TABLE_NAME,
+                Key: {
+                  PK: `USER#${userId}`,
+                  SK: `REGISTRATION#${registrationId}`,
+                },
+                UpdateExpression:
+                  'SET #status = :status, qrCode = :qrCode, qrCodeData = :qrCodeData, ' +
+                  'promotionDeadline = :deadline, GSI1SK = :gsi1sk, GSI2PK = :gsi2pk, GSI2SK = :deadline, ' +
+                  'updatedAt = :timestamp REMOVE waitlistPosition',
+                ConditionExpression: '#status = :waitlisted',
+                ExpressionAttributeNames: {
+                  '#status': 'status',
+                },
+                ExpressionAttributeValues: {
+                  ':status': RegistrationStatus.PROMOTION_PENDING,
+                  ':waitlisted': RegistrationStatus.WAITLISTED,
+                  ':qrCode': qrCode,
+                  ':qrCodeData': qrCodeData,
+                  ':deadline': promotionDeadline,
+                  ':gsi1sk': `STATUS#${RegistrationStatus.PROMOTION_PENDING}#${promotionDeadline}`,
+                  ':gsi2pk': PENDING_PROMOTIONS_PK,
+                  ':timestamp': timestamp,
+                },
+              },
+            },
+            {
+              Delete: {
+                TableName: TABLE_NAME,
+                Key: {
+                  PK: `EVENT#${eventId}`,
+                  SK: `WAITLIST#${position.toString().padStart(5, '0')}`,
+                },
+                ConditionExpression: 'registrationId = :registrationId',
+                ExpressionAttributeValues: {
+                  ':registrationId': registrationId,
+                },
+              },
+            },
+          ],
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error, 0)) {
+        console.log(`Event ${eventId} has no free seat, skipping promotion`);
+        return;
+      }
+      throw error;
+    }
 
     // Reorder remaining waitlist entries
     await reorderWaitlist(eventId);
@@ -205,7 +164,7 @@ export async function promoteFromWaitlist(eventId: string): Promise<void> {
  * Ensures consecutive positions without gaps
  * @param eventId - Event ID
  */
-async function reorderWaitlist(eventId: string): Promise<void> {
+export async function reorderWaitlist(eventId: string): Promise<void> {
   try {
     // Get all waitlist entries
     const result = await docClient.send(
@@ -232,48 +191,12 @@ async function reorderWaitlist(eventId: string): Promise<void> {
       const entry = entries[i];
       
       if (entry.position !== newPosition) {
-        // Delete old entry
-        await docClient.send(
-          new DeleteCommand({
-            TableName: TABLE_NAME,
-            Key: {
-              PK: entry.PK,
-              SK: entry.SK,
-            },
-          })
-        );
-
-        // Create new entry with updated position
-        const paddedPosition = newPosition.toString().padStart(5, '0');
-        const updatedEntry: WaitlistEntry = {
-          ...entry,
-          SK: `WAITLIST#${paddedPosition}`,
-          GSI1SK: `WAITLIST#${eventId}#${paddedPosition}`,
-          position: newPosition,
-        };
-
-        await docClient.send(
-          new PutCommand({
-            TableName: TABLE_NAME,
-            Item: updatedEntry,
-          })
-        );
-
-        // Update registration record
-        await docClient.send(
-          new UpdateCommand({
-            TableName: TABLE_NAME,
-            Key: {
-              PK: `USER#${entry.userId}`,
-              SK: `REGISTRATION#${entry.registrationId}`,
-            },
-            UpdateExpression: 'SET waitlistPosition = :position, updatedAt = :timestamp',
-            ExpressionAttributeValues: {
-              ':position': newPosition,
-              ':timestamp': new Date().toISOString(),
-            },
-          })
-        );
+        // Stop on a concurrent change; the next reorder picks up from there
+        const moved = await commitWaitlistMove(entry, newPosition, new Date().toISOString());
+        if (!moved) {
+          console.log(`Waitlist for event ${eventId} changed during reorder, stopping`);
+          return;
+        }
       }
     }
 
@@ -5,12 +5,12 @@
  */
 
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
-import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
 import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
-import { marshall } from '@aws-sdk/util-dynamodb';
 import { Registration, GraphQLRegistration, RegistrationStatus } from '../../../shared/types/registration.types';
 import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { commitPromotionAcceptance } from '../business-logic/registration-transactions';
 import { toGraphQLRegistration } from './helpers';
 
 const client = new DynamoDBClient({});
@@ -97,26 +97,8 @@ export async function handler(
 
     const eventId = registration.eventId;
 
-    // 6. Update registration status to REGISTERED
-    await client.send(
-      new UpdateItemCommand({
-        TableName: TABLE_NAME,
-        Key: marshall({
-          PK: `USER#${userId}`,
-          SK: `REGISTRATION#${registrationId}`,
-        }),
-        UpdateExpression:
-          'SET #status = :status, updatedAt = :timestamp ' +
-          'REMOVE promotionDeadline',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: marshall({
-          ':status': RegistrationStatus.REGISTERED,
-          ':timestamp': timestamp,
-        }),
-      })
-    );
+    // 6. Update registration status to REGISTERED and create the EVENT# copy atomically
+    const accepted = await commitPromotionAcceptance(registration, timestamp);
 
     // 7. Publish PromotionAccepted event
     await eventBridgeClient.send(
@@ -140,12 +122,7 @@ export async function handler(
     console.log(`Promotion accepted for registration ${registrationId}`);
 
     // 8. Return updated registration in GraphQL format
-    return toGraphQLRegistration({
-      ...registration,
-      status: RegistrationStatus.REGISTERED,
-      updatedAt: timestamp,
-      promotionDeadline: undefined,
-    });
+    return toGraphQLRegistration(accepted);
 
   } catch (error: any) {
     console.error('Accept promotion error:', error);
@@ -5,12 +5,12 @@
 
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
 import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
 import { Registration, GraphQLRegistration, RegistrationStatus, CancelRegistrationInput } from '../../../shared/types/registration.types';
 import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
-import { atomicIncrementRegistered } from '../business-logic/capacity-check';
-import { removeFromWaitlist } from '../business-logic/waitlist-manager';
+import { reorderWaitlist } from '../business-logic/waitlist-manager';
+import { commitCancellation, commitWaitlistCancellation } from '../business-logic/registration-transactions';
 import { checkRateLimit } from '../business-logic/rate-limiter';
 import { toGraphQLRegistration } from './helpers';
 
@@ -115,29 +115,28 @@ export async function handler(
     if (status === RegistrationStatus.WAITLISTED) {
       // WAITLISTED USER CANCELLING - Just remove from waitlist
       
+      // Delete registration and waitlist entry, decrement waitlist count atomically
+      await commitWaitlistCancellation(registration, timestamp);
+
+      // Close the gap left in the waitlist
       if (waitlistPosition) {
-        await removeFromWaitlist(registrationId, eventId, userId, waitlistPosition);
+        await reorderWaitlist(eventId);
       }
 
-      // Delete registration
-      await docClient.send(
-        new DeleteCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${userId}`,
-            SK: `REGISTRATION#${registrationId}`,
-          },
-        })
-      );
-
-      // Also delete EVENT# copy
-      await docClient.send(
-        new DeleteCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `EVENT#${eventId}`,
-            SK: `REGISTRATION#${registrationId}`,
-          },
+      // Publish WaitlistCancelled event (no seat is freed, so nothing is promoted)
+      await eventBridgeClient.send(
+        new PutEventsCommand({
+          Entries: [{
+            Source: 'tems.registrations',
+            DetailType: 'WaitlistCancelled',
+            Detail: JSON.stringify({
+              registrationId,
+              eventId,
+              userId,
+              timestamp,
+            }),
+            EventBusName: EVENT_BUS_NAME,
+          }],
         })
       );
 
@@ -154,50 +153,8 @@ export async function handler(
     } else {
       // REGISTERED or PROMOTION_PENDING USER CANCELLING
       
-      // Update registration to CANCELLED
-      await docClient.send(
-        new UpdateCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${userId}`,
-            SK: `REGISTRATION#${registrationId}`,
-          },
-          UpdateExpression: 
-            'SET #status = :status, cancelledAt = :timestamp, updatedAt = :timestamp, ' +
-            'GSI1SK = :gsi1sk',
-          ExpressionAttributeNames: {
-            '#status': 'status',
-          },
-          ExpressionAttributeValues: {
-            ':status': RegistrationStatus.CANCELLED,
-            ':timestamp': timestamp,
-            ':gsi1sk': `STATUS#CANCELLED#${timestamp}`,
-          },
-        })
-      );
-
-      // Update EVENT# copy
-      await docClient.send(
-        new UpdateCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `EVENT#${eventId}`,
-            SK: `REGISTRATION#${registrationId}`,
-          },
-          UpdateExpression: 
-            'SET #status = :status, cancelledAt = :timestamp, updatedAt = :timestamp',
-          ExpressionAttributeNames: {
-            '#status': 'status',
-          },
-          ExpressionAttributeValues: {
-            ':status': RegistrationStatus.CANCELLED,
-            ':timestamp': timestamp,
-          },
-        })
-      );
-
-      // Decrement registered count
-      await atomicIncrementRegistered(eventId, -1);
+      // Update both registration copies and release the seat atomically
+      await commitCancellation(registration, timestamp);
 
       // Publish RegistrationCancelled event (triggers waitlist promotion)
       await eventBridgeClient.send(
@@ -7,7 +7,7 @@ import { AppSyncResolverEvent, Context } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { Registration, GraphQLRegistration, RegistrationStatus, CheckInAttendeeInput } from '../../../shared/types/registration.types';
-import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
 import { verifyQRCode } from '../business-logic/qr-generator';
 import { toGraphQLRegistration } from './helpers';
 
@@ -29,7 +29,7 @@ export async function handler(
   });
 
   try {
-    const { registrationId, qrCodeData } = event.arguments.input;
+    const { registrationId, qrCodeData, eventId: expectedEventId, scannedAt } = event.arguments.input;
 
     // 1. Get user ID (organizer or admin checking in attendee)
     const checkInBy = getUserIdFromIdentity(event.identity);
@@ -44,7 +44,7 @@ export async function handler(
     const verification = verifyQRCode(qrCodeData);
     if (!verification.isValid || !verification.data) {
       throw new Error(JSON.stringify({
-        type: 'VALIDATION_ERROR',
+        type: 'INVALID_QR_CODE',
         message: verification.error || 'Invalid QR code',
       }));
     }
@@ -52,14 +52,51 @@ export async function handler(
     // 3. Verify QR code matches registration ID
     if (verification.data.registrationId !== registrationId) {
       throw new Error(JSON.stringify({
-        type: 'VALIDATION_ERROR',
+        type: 'INVALID_QR_CODE',
         message: 'QR code does not match registration',
       }));
     }
 
     const { userId, eventId } = verification.data;
 
-    // 4. Get registration
+    // 4. Reject tickets for a different event than the one being scanned
+    if (expectedEventId && eventId !== expectedEventId) {
+      throw new Error(JSON.stringify({
+        type: 'WRONG_EVENT',
+        message: 'This ticket is for a different event',
+      }));
+    }
+
+    // 5. Only the event organizer or an administrator can check attendees in
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND_ERROR',
+        message: 'Event not found',
+      }));
+    }
+
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === checkInBy;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can check in attendees',
+      }));
+    }
+
+    // 6. Get registration
     const registrationResult = await docClient.send(
       new GetCommand({
         TableName: TABLE_NAME,
@@ -79,7 +116,7 @@ export async function handler(
 
     const registration = registrationResult.Item as Registration;
 
-    // 5. Check registration status
+    // 7. Check registration status
     if (registration.status === RegistrationStatus.CANCELLED) {
       throw new Error(JSON.stringify({
         type: 'BUSINESS_RULE_ERROR',
@@ -96,54 +133,84 @@ export async function handler(
 
     if (registration.status === RegistrationStatus.ATTENDED) {
       throw new Error(JSON.stringify({
-        type: 'BUSINESS_RULE_ERROR',
+        type: 'ALREADY_CHECKED_IN',
         message: 'User already checked in',
+        attendedAt: registration.attendedAt,
       }));
     }
 
     const timestamp = new Date().toISOString();
 
-    // 6. Update registration to ATTENDED
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          PK: `USER#${userId}`,
-          SK: `REGISTRATION#${registrationId}`,
-        },
-        UpdateExpression: 
-          'SET #status = :status, attendedAt = :timestamp, updatedAt = :timestamp, ' +
-          'GSI1SK = :gsi1sk',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': RegistrationStatus.ATTENDED,
-          ':timestamp': timestamp,
-          ':gsi1sk': `STATUS#ATTENDED#${timestamp}`,
-        },
-      })
-    );
+    // Scans queued offline are synced later - keep the time the ticket was actually scanned
+    const attendedAt = scannedAt && !isNaN(Date.parse(scannedAt)) && new Date(scannedAt) <= new Date()
+      ? new Date(scannedAt).toISOString()
+      : timestamp;
+
+    // 8. Update registration to ATTENDED
+    // Conditional on the status we read so two scanners can't both check the same ticket in
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${userId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          UpdateExpression: 
+            'SET #status = :status, attendedAt = :attendedAt, checkedInBy = :checkedInBy, ' +
+            'updatedAt = :timestamp, GSI1SK = :gsi1sk ' +
+            'REMOVE GSI2PK, GSI2SK',  // A pending promotion is settled by showing up
+          ConditionExpression: '#status = :currentStatus',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': RegistrationStatus.ATTENDED,
+            ':currentStatus': registration.status,
+            ':attendedAt': attendedAt,
+            ':checkedInBy': checkInBy,
+            ':timestamp': timestamp,
+            ':gsi1sk': `STATUS#ATTENDED#${attendedAt}`,
+          },
+        })
+      );
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(JSON.stringify({
+          type: 'ALREADY_CHECKED_IN',
+          message: 'User already checked in',
+        }));
+      }
+      throw error;
+    }
 
-    // 7. Update EVENT# copy
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          PK: `EVENT#${eventId}`,
-          SK: `REGISTRATION#${registrationId}`,
-        },
-        UpdateExpression: 
-          'SET #status = :status, attendedAt = :timestamp, updatedAt = :timestamp',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': RegistrationStatus.ATTENDED,
-          ':timestamp': timestamp,
-        },
-      })
-    );
+    // 9. Update EVENT# copy (only exists for seated registrations)
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `EVENT#${eventId}`,
+            SK: `REGISTRATION#${registrationId}`,
+          },
+          UpdateExpression: 
+            'SET #status = :status, attendedAt = :attendedAt, updatedAt = :timestamp',
+          ConditionExpression: 'attribute_exists(PK)',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': RegistrationStatus.ATTENDED,
+            ':attendedAt': attendedAt,
+            ':timestamp': timestamp,
+          },
+        })
+      );
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
 
     console.log(`User ${userId} checked in for event ${eventId}`);
 
@@ -151,7 +218,7 @@ export async function handler(
     const updatedRegistration = {
       ...registration,
       status: RegistrationStatus.ATTENDED,
-      attendedAt: timestamp,
+      attendedAt,
       updatedAt: timestamp,
     };
     
@@ -0,0 +1,37 @@
+/**
+ * Complete Events Lambda Handler
+ * Scheduled handler that marks no-shows and completes events after they end
+ */
+
+import { ScheduledEvent } from 'aws-lambda';
+import { completeEndedEvents } from '../business-logic/event-completion';
+
+/**
+ * Lambda handler for the scheduled event completion sweep
+ */
+export async function handler(event: ScheduledEvent) {
+  console.log('Complete events handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const result = await completeEndedEvents();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        result,
+      }),
+    };
+
+  } catch (error: any) {
+    console.error('Complete events error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to complete events',
+        message: error.message,
+      }),
+    };
+  }
+}
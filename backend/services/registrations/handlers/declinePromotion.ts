@@ -5,13 +5,13 @@
  */
 
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
-import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
 import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
-import { marshall } from '@aws-sdk/util-dynamodb';
 import { Registration, GraphQLRegistration, RegistrationStatus } from '../../../shared/types/registration.types';
 import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
 import { promoteFromWaitlist } from '../business-logic/waitlist-manager';
+import { commitCancellation } from '../business-logic/registration-transactions';
 import { toGraphQLRegistration } from './helpers';
 
 const client = new DynamoDBClient({});
@@ -85,26 +85,8 @@ export async function handler(
 
     const eventId = registration.eventId;
 
-    // 5. Update registration status to CANCELLED
-    await client.send(
-      new UpdateItemCommand({
-        TableName: TABLE_NAME,
-        Key: marshall({
-          PK: `USER#${userId}`,
-          SK: `REGISTRATION#${registrationId}`,
-        }),
-        UpdateExpression:
-          'SET #status = :status, updatedAt = :timestamp ' +
-          'REMOVE promotionDeadline',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: marshall({
-          ':status': RegistrationStatus.CANCELLED,
-          ':timestamp': timestamp,
-        }),
-      })
-    );
+    // 5. Update registration status to CANCELLED and release the held seat atomically
+    await commitCancellation(registration, timestamp);
 
     // 6. Promote next person from waitlist
     try {
@@ -0,0 +1,37 @@
+/**
+ * Expire Promotions Lambda Handler
+ * Scheduled handler that reclaims seats from unanswered waitlist promotions
+ */
+
+import { ScheduledEvent } from 'aws-lambda';
+import { sweepExpiredPromotions } from '../business-logic/promotion-expiry';
+
+/**
+ * Lambda handler for the scheduled promotion expiry sweep
+ */
+export async function handler(event: ScheduledEvent) {
+  console.log('Expire promotions handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const result = await sweepExpiredPromotions();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        result,
+      }),
+    };
+
+  } catch (error: any) {
+    console.error('Expire promotions error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to expire promotions',
+        message: error.message,
+      }),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Get Capacity Discrepancy Report Lambda Handler
+ * Admin-only report comparing stored event counters with actual registrations
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { CapacityDiscrepancy, CapacityReportInput } from '../../../shared/types/registration.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { getDiscrepancyReport } from '../business-logic/capacity-reconciliation';
+
+/**
+ * Lambda handler for getCapacityDiscrepancyReport query
+ * Read-only - repairs are left to the scheduled reconciliation job
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ input?: CapacityReportInput }>,
+  context: Context
+): Promise<CapacityDiscrepancy[]> {
+  console.log('GetCapacityDiscrepancyReport handler invoked', {
+    requestId: context.awsRequestId,
+    input: event.arguments.input,
+  });
+
+  try {
+    const input = event.arguments.input || {};
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can view capacity discrepancy reports',
+      }));
+    }
+
+    // 3. Recount registrations for the requested events
+    const reports = await getDiscrepancyReport({
+      eventId: input.eventId,
+      startDateAfter: input.startDateAfter,
+      startDateBefore: input.startDateBefore,
+    });
+
+    // 4. Optionally drop events whose counters are correct
+    const result = input.onlyDiscrepancies
+      ? reports.filter((report) => report.hasDiscrepancy)
+      : reports;
+
+    console.log(`Capacity report built for ${reports.length} events, ${result.length} returned`);
+
+    return result;
+
+  } catch (error: any) {
+    console.error('Get capacity discrepancy report error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Get Check-In Stats Lambda Handler
+ * Returns checked-in vs expected attendee counts for the check-in scanner
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { CheckInStats } from '../../../shared/types/registration.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { countRegistrationsByStatus, countSeatsHeld } from '../business-logic/capacity-reconciliation';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for getCheckInStats query
+ * Counts the registration rows rather than trusting the event counters
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string }>,
+  context: Context
+): Promise<CheckInStats> {
+  console.log('GetCheckInStats handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can view check-in stats',
+      }));
+    }
+
+    // 4. Count registrations by status
+    const counts = await countRegistrationsByStatus(eventId);
+
+    return {
+      eventId,
+      checkedInCount: counts.attended,
+      expectedCount: countSeatsHeld(counts),
+    };
+
+  } catch (error: any) {
+    console.error('Get check-in stats error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Get Event Analytics Lambda Handler
+ * Returns registration, waitlist, cancellation and check-in analytics for one event
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { EventAnalytics } from '../../../shared/types/analytics.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { getEventAnalytics } from '../business-logic/analytics';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for eventAnalytics query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string }>,
+  context: Context
+): Promise<EventAnalytics> {
+  console.log('GetEventAnalytics handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can view event analytics',
+      }));
+    }
+
+    // 4. Read the aggregated counters
+    return await getEventAnalytics(eventResult.Item);
+
+  } catch (error: any) {
+    console.error('Get event analytics error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Get Event Feedback Form Lambda Handler
+ * Returns an event's feedback questions to its attendees and its organizer
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { FeedbackForm } from '../../../shared/types/feedback.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import {
+  getFeedbackFormRecord,
+  findAttendedRegistration,
+  hasSubmittedFeedback,
+  toFeedbackForm,
+} from '../business-logic/feedback';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for getEventFeedbackForm query
+ * Organizers and administrators always see the form (to edit it);
+ * other users only if they attended the event
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string }>,
+  context: Context
+): Promise<FeedbackForm> {
+  console.log('GetEventFeedbackForm handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin && !(await findAttendedRegistration(userId, eventId))) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only attendees who checked in can give feedback on this event',
+      }));
+    }
+
+    // 4. Load the form and whether this user already answered it
+    const [record, hasSubmitted] = await Promise.all([
+      getFeedbackFormRecord(eventId),
+      hasSubmittedFeedback(eventId, userId),
+    ]);
+
+    return toFeedbackForm(eventResult.Item, record, hasSubmitted);
+
+  } catch (error: any) {
+    console.error('Get event feedback form error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Get Event Feedback Results Lambda Handler
+ * Returns averages, distributions and text answers of an event's feedback
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { FeedbackResults } from '../../../shared/types/feedback.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { countRegistrationsByStatus } from '../business-logic/capacity-reconciliation';
+import {
+  getFeedbackFormRecord,
+  getFeedbackQuestions,
+  getFeedbackResponses,
+  aggregateFeedback,
+} from '../business-logic/feedback';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for getEventFeedbackResults query
+ * Aggregates are computed from the stored responses on every call
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string }>,
+  context: Context
+): Promise<FeedbackResults> {
+  console.log('GetEventFeedbackResults handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can view feedback results',
+      }));
+    }
+
+    // 4. Aggregate responses
+    const [record, responses, counts] = await Promise.all([
+      getFeedbackFormRecord(eventId),
+      getFeedbackResponses(eventId),
+      countRegistrationsByStatus(eventId),
+    ]);
+
+    const aggregates = aggregateFeedback(getFeedbackQuestions(record), responses);
+
+    return {
+      eventId,
+      eventTitle: eventResult.Item.title,
+      responseCount: responses.length,
+      attendedCount: counts.attended,
+      ...aggregates,
+    };
+
+  } catch (error: any) {
+    console.error('Get event feedback results error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
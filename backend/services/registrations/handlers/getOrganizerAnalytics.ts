@@ -0,0 +1,61 @@
+/**
+ * Get Organizer Analytics Lambda Handler
+ * Returns analytics across all of the current user's events for a period
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { AnalyticsRangeInput, OrganizerAnalytics } from '../../../shared/types/analytics.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { getOrganizerAnalytics, validateAnalyticsRange } from '../business-logic/analytics';
+
+/**
+ * Lambda handler for organizerAnalytics query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ range: AnalyticsRangeInput }>,
+  context: Context
+): Promise<OrganizerAnalytics> {
+  console.log('GetOrganizerAnalytics handler invoked', {
+    requestId: context.awsRequestId,
+    range: event.arguments.range,
+  });
+
+  try {
+    const { range } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Validate the period
+    const rangeError = validateAnalyticsRange(range);
+    if (rangeError) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: rangeError,
+      }));
+    }
+
+    // 3. Add up the organizer's daily records
+    return await getOrganizerAnalytics(userId, range);
+
+  } catch (error: any) {
+    console.error('Get organizer analytics error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Get Organizer Rating Lambda Handler
+ * Returns the average attendee rating across all of an organizer's events
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { OrganizerRating } from '../../../shared/types/feedback.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { getOrganizerRating } from '../business-logic/feedback';
+
+/**
+ * Lambda handler for getOrganizerRating query
+ * Shown on the organizer's upcoming events, so any signed-in user can read it
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ organizerId: string }>,
+  context: Context
+): Promise<OrganizerRating> {
+  console.log('GetOrganizerRating handler invoked', {
+    requestId: context.awsRequestId,
+    organizerId: event.arguments.organizerId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Read the organizer's running totals
+    return await getOrganizerRating(event.arguments.organizerId);
+
+  } catch (error: any) {
+    console.error('Get organizer rating error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -3,7 +3,7 @@
  * Transforms DynamoDB records to GraphQL-compatible objects
  */
 
-import { GraphQLRegistration } from '../../../shared/types/registration.types';
+import { GraphQLRegistration, RosterEntry } from '../../../shared/types/registration.types';
 
 /**
  * Transform DynamoDB Registration record to GraphQL schema format
@@ -35,3 +35,25 @@ export function toGraphQLRegistration(dbRecord: any): GraphQLRegistration {
 export function toGraphQLRegistrations(dbRecords: any[]): GraphQLRegistration[] {
   return dbRecords.map(toGraphQLRegistration);
 }
+
+/**
+ * Transform DynamoDB Registration record to a roster entry for organizers
+ * Unlike toGraphQLRegistration this keeps the attendee's name and email
+ * and never exposes the QR code
+ *
+ * @param dbRecord - Full DynamoDB registration record
+ * @returns RosterEntry matching the GraphQL RosterEntry type
+ */
+export function toRosterEntry(dbRecord: any): RosterEntry {
+  return {
+    registrationId: dbRecord.id,
+    userId: dbRecord.userId,
+    userName: dbRecord.userName || '',
+    userEmail: dbRecord.userEmail || '',
+    status: dbRecord.status,
+    waitlistPosition: dbRecord.waitlistPosition ?? null,
+    promotionDeadline: dbRecord.promotionDeadline ?? null,
+    registeredAt: dbRecord.registeredAt,
+    attendedAt: dbRecord.attendedAt ?? null,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * List Event Feedback Responses Lambda Handler
+ * Returns every response of an event without attendee details, for CSV export
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { FeedbackResponse } from '../../../shared/types/feedback.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { getFeedbackResponses } from '../business-logic/feedback';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for listEventFeedbackResponses query
+ * Not paginated: response keys contain user IDs and must not leak through a nextToken
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string }>,
+  context: Context
+): Promise<FeedbackResponse[]> {
+  console.log('ListEventFeedbackResponses handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can export feedback',
+      }));
+    }
+
+    // 4. Strip everything that identifies the respondent
+    const responses = await getFeedbackResponses(eventId);
+
+    console.log(`Found ${responses.length} feedback responses for event ${eventId}`);
+
+    return responses.map((response) => ({
+      submittedAt: response.submittedAt,
+      overallRating: response.overallRating,
+      answers: response.answers,
+    }));
+
+  } catch (error: any) {
+    console.error('List event feedback responses error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
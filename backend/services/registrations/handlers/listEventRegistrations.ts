@@ -0,0 +1,131 @@
+/**
+ * List Event Registrations Lambda Handler
+ * Returns the attendee roster of an event for its organizer or an administrator
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { RosterConnection, RosterEntry, ListEventRegistrationsInput } from '../../../shared/types/registration.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { toRosterEntry } from './helpers';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+/**
+ * Lambda handler for listEventRegistrations query
+ * Reads the USER# registration copies through GSI1 (GSI1PK = EVENT#<id>),
+ * which hold every status, unlike the EVENT# copies that only exist while REGISTERED
+ */
+export async function handler(
+  event: AppSyncResolverEvent<ListEventRegistrationsInput>,
+  context: Context
+): Promise<RosterConnection> {
+  console.log('ListEventRegistrations handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+    status: event.arguments.status,
+  });
+
+  try {
+    const { eventId, status, nextToken } = event.arguments;
+    const limit = Math.min(Math.max(event.arguments.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can view registrations',
+      }));
+    }
+
+    // 4. Query registrations, optionally narrowed to one status
+    // Limit applies before the filter, so keep reading until the page is full.
+    // Each read is capped at the remaining count, which keeps LastEvaluatedKey exact.
+    const items: RosterEntry[] = [];
+    let lastEvaluatedKey: Record<string, any> | undefined = nextToken
+      ? JSON.parse(Buffer.from(nextToken, 'base64').toString())
+      : undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: TABLE_NAME,
+          IndexName: 'GSI1',
+          KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+          FilterExpression: 'begins_with(PK, :userPrefix)',
+          ExpressionAttributeValues: {
+            ':pk': `EVENT#${eventId}`,
+            ':sk': status ? `STATUS#${status}#` : 'STATUS#',
+            ':userPrefix': 'USER#',
+          },
+          Limit: limit - items.length,
+          ExclusiveStartKey: lastEvaluatedKey,
+        })
+      );
+
+      items.push(...(result.Items || []).map(toRosterEntry));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey && items.length < limit);
+
+    console.log(`Found ${items.length} registrations for event ${eventId}`);
+
+    return {
+      items,
+      nextToken: lastEvaluatedKey
+        ? Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64')
+        : null,
+    };
+
+  } catch (error: any) {
+    console.error('List event registrations error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Reconcile Capacity Lambda Handler
+ * Scheduled handler that repairs drifted event registration counters
+ */
+
+import { ScheduledEvent } from 'aws-lambda';
+import { reconcileAllEvents } from '../business-logic/capacity-reconciliation';
+
+/**
+ * Lambda handler for the scheduled capacity reconciliation run
+ */
+export async function handler(event: ScheduledEvent) {
+  console.log('Reconcile capacity handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const result = await reconcileAllEvents();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        result,
+      }),
+    };
+
+  } catch (error: any) {
+    console.error('Reconcile capacity error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to reconcile capacity',
+        message: error.message,
+      }),
+    };
+  }
+}
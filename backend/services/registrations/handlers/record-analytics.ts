@@ -0,0 +1,42 @@
+/**
+ * Record Analytics Lambda Handler
+ * EventBridge handler that folds registration and event domain events into analytics counters
+ */
+
+import { EventBridgeEvent } from 'aws-lambda';
+import { recordAnalyticsEvent } from '../business-logic/analytics';
+
+/**
+ * Lambda handler for tracked registration and event domain events
+ */
+export async function handler(event: EventBridgeEvent<string, Record<string, any>>) {
+  console.log('Record analytics handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const recorded = await recordAnalyticsEvent({
+      id: event.id,
+      detailType: event['detail-type'],
+      time: event.time,
+      detail: event.detail,
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        recorded,
+      }),
+    };
+
+  } catch (error: any) {
+    console.error('Record analytics error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to record analytics',
+        message: error.message,
+      }),
+    };
+  }
+}
@@ -5,14 +5,14 @@
 
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
 import { PutEventsCommand, EventBridgeClient } from '@aws-sdk/client-eventbridge';
 import { nanoid } from 'nanoid';
 import { Registration, GraphQLRegistration, RegistrationStatus, RegisterForEventInput } from '../../../shared/types/registration.types';
 import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
-import { checkEventCapacity, isUserRegistered, atomicIncrementRegistered, getNextWaitlistPosition } from '../business-logic/capacity-check';
+import { checkEventCapacity, isUserRegistered, getNextWaitlistPosition } from '../business-logic/capacity-check';
 import { generateQRCode } from '../business-logic/qr-generator';
-import { addToWaitlist } from '../business-logic/waitlist-manager';
+import { commitRegistration, commitWaitlistRegistration, IdempotencyContext } from '../business-logic/registration-transactions';
 import { checkRateLimit } from '../business-logic/rate-limiter';
 import { toGraphQLRegistration } from './helpers';
 
@@ -23,6 +23,9 @@ const eventBridgeClient = new EventBridgeClient({});
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
 const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
 
+// Attempts at claiming a waitlist position before giving up
+const MAX_WAITLIST_ATTEMPTS = 3;
+
 /**
  * Lambda handler for registerForEvent mutation
  */
@@ -143,12 +146,16 @@ export async function handler(
       }));
     }
 
-    // 6. Check capacity
+    // 6. Check capacity (fast path - the authoritative check happens inside the transaction)
     const capacityCheck = await checkEventCapacity(eventId);
     
     const registrationId = `reg_${nanoid(16)}`;
     const timestamp = new Date().toISOString();
 
+    const idempotency: IdempotencyContext | undefined = idempotencyKey
+      ? { idempotencyKey, registrationId, userId, eventId, processedAt: timestamp }
+      : undefined;
+
     // 7. If event has capacity, register normally
     if (capacityCheck.hasCapacity) {
       // Generate QR code
@@ -177,76 +184,44 @@ export async function handler(
         updatedAt: timestamp,
       };
 
-      // Save registration
-      await docClient.send(
-        new PutCommand({
-          TableName: TABLE_NAME,
-          Item: registration,
-        })
-      );
-
-      // Also save with EVENT# as PK for event-centric queries
-      await docClient.send(
-        new PutCommand({
-          TableName: TABLE_NAME,
-          Item: {
-            ...registration,
-            PK: `EVENT#${eventId}`,
-            SK: `REGISTRATION#${registrationId}`,
-          },
-        })
-      );
-
-      // Atomically increment registered count
-      await atomicIncrementRegistered(eventId, 1);
-
-      // Save idempotency record if key was provided
-      if (idempotencyKey) {
-        const ttl = Math.floor(Date.now() / 1000) + (24 * 60 * 60); // 24 hours from now
-        await docClient.send(
-          new PutCommand({
-            TableName: TABLE_NAME,
-            Item: {
-              PK: `IDEMPOTENCY#${idempotencyKey}`,
-              SK: 'METADATA',
-              registrationId,
-              userId,
-              eventId,
-              processedAt: timestamp,
-              ttl, // DynamoDB will auto-delete after 24 hours
-            },
+      // Reserve seat, save both registration copies and idempotency record atomically
+      const registered = await commitRegistration(registration, idempotency);
+
+      if (registered) {
+        // Publish RegistrationCreated event
+        await eventBridgeClient.send(
+          new PutEventsCommand({
+            Entries: [{
+              Source: 'tems.registrations',
+              DetailType: 'RegistrationCreated',
+              Detail: JSON.stringify({
+                registrationId,
+                eventId,
+                eventTitle,
+                userId,
+                userEmail,
+                userName,
+                qrCode,
+                timestamp,
+              }),
+              EventBusName: EVENT_BUS_NAME,
+            }],
           })
         );
-      }
 
-      // Publish RegistrationCreated event
-      await eventBridgeClient.send(
-        new PutEventsCommand({
-          Entries: [{
-            Source: 'tems.registrations',
-            DetailType: 'RegistrationCreated',
-            Detail: JSON.stringify({
-              registrationId,
-              eventId,
-              eventTitle,
-              userId,
-              userEmail,
-              userName,
-              qrCode,
-              timestamp,
-            }),
-            EventBusName: EVENT_BUS_NAME,
-          }],
-        })
-      );
+        console.log(`User ${userId} successfully registered for event ${eventId}`);
+        
+        // Return only GraphQL-compatible fields
+        return toGraphQLRegistration(registration);
+      }
 
-      console.log(`User ${userId} successfully registered for event ${eventId}`);
-      
-      // Return only GraphQL-compatible fields
-      return toGraphQLRegistration(registration);
+      // Event filled up between the capacity check and the write - fall through to waitlist
+      console.log(`Event ${eventId} filled up during registration, adding user ${userId} to waitlist`);
+    }
 
-    } else {
-      // 8. Event is full, add to waitlist
+    // 8. Event is full, add to waitlist
+    // Retry if a concurrent request claims the same waitlist position
+    for (let attempt = 1; attempt <= MAX_WAITLIST_ATTEMPTS; attempt++) {
       const position = await getNextWaitlistPosition(eventId);
 
       // Create registration with WAITLISTED status
@@ -269,34 +244,10 @@ export async function handler(
         updatedAt: timestamp,
       };
 
-      // Save registration
-      await docClient.send(
-        new PutCommand({
-          TableName: TABLE_NAME,
-          Item: registration,
-        })
-      );
-
-      // Add to waitlist
-      await addToWaitlist(registrationId, userId, userEmail, userName, eventId, position);
-
-      // Save idempotency record if key was provided
-      if (idempotencyKey) {
-        const ttl = Math.floor(Date.now() / 1000) + (24 * 60 * 60); // 24 hours from now
-        await docClient.send(
-          new PutCommand({
-            TableName: TABLE_NAME,
-            Item: {
-              PK: `IDEMPOTENCY#${idempotencyKey}`,
-              SK: 'METADATA',
-              registrationId,
-              userId,
-              eventId,
-              processedAt: timestamp,
-              ttl, // DynamoDB will auto-delete after 24 hours
-            },
-          })
-        );
+      // Save registration, waitlist entry, waitlist count and idempotency record atomically
+      const added = await commitWaitlistRegistration(registration, idempotency);
+      if (!added) {
+        continue;
       }
 
       // Publish WaitlistAdded event
@@ -326,6 +277,11 @@ export async function handler(
       return toGraphQLRegistration(registration);
     }
 
+    throw new Error(JSON.stringify({
+      type: 'BUSINESS_RULE_ERROR',
+      message: 'Waitlist is busy, please try again',
+    }));
+
   } catch (error: any) {
     console.error('Register for event error:', error);
 
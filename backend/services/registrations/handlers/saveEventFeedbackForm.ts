@@ -0,0 +1,107 @@
+/**
+ * Save Event Feedback Form Lambda Handler
+ * Lets the organizer define the questions attendees are asked after the event
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { FeedbackForm, FeedbackQuestionInput } from '../../../shared/types/feedback.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import {
+  normalizeFeedbackQuestions,
+  saveFeedbackQuestions,
+  toFeedbackForm,
+} from '../business-logic/feedback';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for saveEventFeedbackForm mutation
+ * An empty list leaves only the overall rating
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ eventId: string; questions: FeedbackQuestionInput[] }>,
+  context: Context
+): Promise<FeedbackForm> {
+  console.log('SaveEventFeedbackForm handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.eventId,
+  });
+
+  try {
+    const { eventId } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Authorization check
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isOrganizer = eventResult.Item.organizerId === userId;
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isOrganizer && !isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only the event organizer or administrators can edit the feedback form',
+      }));
+    }
+
+    // 4. Validate questions
+    const { questions, error } = normalizeFeedbackQuestions(event.arguments.questions || []);
+    if (error) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: error,
+      }));
+    }
+
+    // 5. Save (refused once attendees have responded)
+    const record = await saveFeedbackQuestions(eventId, questions, userId);
+
+    console.log(`Saved feedback form for event ${eventId}`, { questions: questions.length });
+
+    return toFeedbackForm(eventResult.Item, record, false);
+
+  } catch (error: any) {
+    console.error('Save event feedback form error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
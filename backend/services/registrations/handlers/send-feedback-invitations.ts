@@ -0,0 +1,40 @@
+/**
+ * Send Feedback Invitations Lambda Handler
+ * EventBridge handler that invites attendees to leave feedback once an event is completed
+ */
+
+import { EventBridgeEvent } from 'aws-lambda';
+import { EventCompletedEvent } from '../../../shared/types/event.types';
+import { sendFeedbackInvitations } from '../business-logic/feedback-invitations';
+
+/**
+ * Lambda handler for EventBridge EVENT_COMPLETED events
+ */
+export async function handler(
+  event: EventBridgeEvent<'EVENT_COMPLETED', EventCompletedEvent>
+) {
+  console.log('Send feedback invitations handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const result = await sendFeedbackInvitations(event.detail.event);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        result,
+      }),
+    };
+
+  } catch (error: any) {
+    console.error('Send feedback invitations error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to send feedback invitations',
+        message: error.message,
+      }),
+    };
+  }
+}
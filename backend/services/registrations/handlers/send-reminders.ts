@@ -0,0 +1,41 @@
+/**
+ * Send Reminders Lambda Handler
+ * Scheduled handler that dispatches 24h and 1h event reminders
+ */
+
+import { ScheduledEvent } from 'aws-lambda';
+import { dispatchReminders } from '../business-logic/reminder-dispatcher';
+
+/**
+ * Lambda handler for the scheduled reminder run
+ */
+export async function handler(event: ScheduledEvent) {
+  console.log('Send reminders handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const now = new Date();
+
+    // 1h reminders first - they are the time-critical ones
+    const oneHour = await dispatchReminders('REMINDER_1H', now);
+    const twentyFourHour = await dispatchReminders('REMINDER_24H', now);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        results: [oneHour, twentyFourHour],
+      }),
+    };
+
+  } catch (error: any) {
+    console.error('Send reminders error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to dispatch reminders',
+        message: error.message,
+      }),
+    };
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Submit Event Feedback Lambda Handler
+ * Records an attendee's rating and answers after the event has ended
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { SubmitEventFeedbackInput, SubmitEventFeedbackResult } from '../../../shared/types/feedback.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import {
+  FEEDBACK_WINDOW_DAYS,
+  getFeedbackDeadline,
+  getFeedbackFormRecord,
+  getFeedbackQuestions,
+  findAttendedRegistration,
+  validateFeedbackAnswers,
+  submitFeedback,
+} from '../business-logic/feedback';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+/**
+ * Lambda handler for submitEventFeedback mutation
+ * Only registrations with status ATTENDED can respond, once each
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ input: SubmitEventFeedbackInput }>,
+  context: Context
+): Promise<SubmitEventFeedbackResult> {
+  console.log('SubmitEventFeedback handler invoked', {
+    requestId: context.awsRequestId,
+    eventId: event.arguments.input?.eventId,
+  });
+
+  try {
+    const { input } = event.arguments;
+    const { eventId } = input;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Get event metadata
+    const eventResult = await docClient.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+      })
+    );
+
+    if (!eventResult.Item) {
+      throw new Error(JSON.stringify({
+        type: 'NOT_FOUND',
+        message: `Event ${eventId} not found`,
+      }));
+    }
+
+    // 3. Feedback opens when the event ends and closes after the feedback window
+    const now = Date.now();
+    if (new Date(eventResult.Item.endDateTime).getTime() > now) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'Feedback opens once the event has ended',
+      }));
+    }
+    if (new Date(getFeedbackDeadline(eventResult.Item.endDateTime)).getTime() <= now) {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: `Feedback closes ${FEEDBACK_WINDOW_DAYS} days after the event`,
+      }));
+    }
+
+    // 4. Only attendees who checked in can respond
+    const registration = await findAttendedRegistration(userId, eventId);
+    if (!registration) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only attendees who checked in can give feedback on this event',
+      }));
+    }
+
+    // 5. Validate answers against the event's form
+    const record = await getFeedbackFormRecord(eventId);
+    const { answers, error } = validateFeedbackAnswers(getFeedbackQuestions(record), input);
+    if (error) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: error,
+      }));
+    }
+
+    // 6. Store the response and update the organizer's rating
+    const result = await submitFeedback(eventResult.Item, registration, record, input.overallRating, answers);
+
+    console.log(`Feedback submitted for event ${eventId}`, { registrationId: registration.id });
+
+    return result;
+
+  } catch (error: any) {
+    console.error('Submit event feedback error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
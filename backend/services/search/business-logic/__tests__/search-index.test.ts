@@ -0,0 +1,277 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Event } from '../../../../shared/types/event.types';
+import { EventCategory } from '../../../../shared/types/common';
+
+const mockSend = jest.fn<(command: any) => Promise<any>>();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/lib-dynamodb')>('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+  };
+});
+
+import { indexEvent, removeEventFromIndex, searchIndex, getIndexStats } from '../search-index';
+
+/**
+ * In-memory stand-in for the table, supporting the expressions the search index uses
+ */
+class FakeTable {
+  items = new Map<string, Record<string, any>>();
+  beforeSend?: (command: any) => Promise<void>;
+  unprocessedBatchWrites = 0;
+
+  async send(command: any): Promise<any> {
+    await this.beforeSend?.(command);
+    const input = command.input;
+
+    if (command instanceof GetCommand) {
+      const item = this.get(input.Key);
+      return { Item: item && { ...item } };
+    }
+    if (command instanceof PutCommand) {
+      this.check(this.get(input.Item), input);
+      this.items.set(keyOf(input.Item), { ...input.Item });
+      return {};
+    }
+    if (command instanceof DeleteCommand) {
+      this.check(this.get(input.Key), input);
+      this.items.delete(keyOf(input.Key));
+      return {};
+    }
+    if (command instanceof UpdateCommand) {
+      return this.update(input);
+    }
+    if (command instanceof QueryCommand) {
+      const values = input.ExpressionAttributeValues;
+      const items = [...this.items.values()]
+        .filter((item) => item.PK === values[':pk'])
+        .filter((item) => !values[':prefix'] || item.SK.startsWith(values[':prefix']))
+        .sort((a, b) => a.SK.localeCompare(b.SK));
+      return { Items: items.map((item) => ({ ...item })) };
+    }
+    if (command instanceof BatchWriteCommand) {
+      const [tableName, requests] = Object.entries(input.RequestItems)[0] as [string, any[]];
+      // Throttle the first request of a batch, like a table under load
+      const unprocessed = this.unprocessedBatchWrites > 0 ? requests.slice(0, 1) : [];
+      this.unprocessedBatchWrites = Math.max(0, this.unprocessedBatchWrites - 1);
+
+      for (const request of requests.slice(unprocessed.length)) {
+        if (request.PutRequest) {
+          this.items.set(keyOf(request.PutRequest.Item), { ...request.PutRequest.Item });
+        } else {
+          this.items.delete(keyOf(request.DeleteRequest.Key));
+        }
+      }
+      return { UnprocessedItems: unprocessed.length > 0 ? { [tableName]: unprocessed } : {} };
+    }
+    throw new Error(`Unexpected command ${command.constructor.name}`);
+  }
+
+  withPartitionPrefix(prefix: string): Record<string, any>[] {
+    return [...this.items.values()].filter((item) => item.PK.startsWith(prefix));
+  }
+
+  get(key: { PK: string; SK: string }): Record<string, any> | undefined {
+    return this.items.get(keyOf(key));
+  }
+
+  private update(input: any): any {
+    const existing = this.get(input.Key) || { ...input.Key };
+    const values = input.ExpressionAttributeValues;
+
+    if (input.UpdateExpression.startsWith('SET term')) {
+      existing.term = values[':term'];
+      existing.entityType = values[':entityType'];
+      existing.documentFrequency = (existing.documentFrequency || 0) + values[':delta'];
+    } else if (input.UpdateExpression.startsWith('ADD documentCount')) {
+      existing.documentCount = (existing.documentCount || 0) + values[':documents'];
+      existing.totalLength = (existing.totalLength || 0) + values[':length'];
+    } else {
+      throw new Error(`Unsupported update ${input.UpdateExpression}`);
+    }
+
+    this.items.set(keyOf(input.Key), existing);
+    return { Attributes: { ...existing } };
+  }
+
+  private check(existing: Record<string, any> | undefined, input: any): void {
+    const values = input.ExpressionAttributeValues || {};
+    const conditions: Record<string, () => boolean> = {
+      'attribute_not_exists(PK)': () => !existing,
+      'attribute_exists(PK) AND attribute_not_exists(#version)': () => !!existing && existing.version === undefined,
+      '#version = :currentVersion': () => existing?.version === values[':currentVersion'],
+      'documentFrequency <= :zero': () => !!existing && existing.documentFrequency <= values[':zero'],
+    };
+
+    if (!input.ConditionExpression) {
+      return;
+    }
+    if (!conditions[input.ConditionExpression]) {
+      throw new Error(`Unsupported condition ${input.ConditionExpression}`);
+    }
+    if (!conditions[input.ConditionExpression]()) {
+      throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+    }
+  }
+}
+
+function keyOf(item: { PK: string; SK: string }): string {
+  return `${item.PK}|${item.SK}`;
+}
+
+function event(id: string, title: string, description = ''): Event {
+  return {
+    id,
+    title,
+    description,
+    tags: [],
+    category: EventCategory.ACADEMIC,
+    location: { name: 'Hall', building: 'Chemistry', address: 'Campus Drive' },
+  } as unknown as Event;
+}
+
+describe('search index', () => {
+  let table: FakeTable;
+
+  beforeEach(() => {
+    table = new FakeTable();
+    mockSend.mockReset().mockImplementation((command) => table.send(command));
+  });
+
+  function documentFrequencies(): Record<string, number> {
+    return Object.fromEntries(
+      table.withPartitionPrefix('SEARCH#DICT#').map((entry) => [entry.term, entry.documentFrequency])
+    );
+  }
+
+  describe('indexEvent', () => {
+    it('makes the event searchable', async () => {
+      await indexEvent(event('evt-1', 'Robotics workshop'));
+
+      const { matches } = await searchIndex('robotics', await getIndexStats());
+
+      expect(matches.map((match) => match.eventId)).toEqual(['evt-1']);
+      expect(matches[0].score).toBeGreaterThan(0);
+    });
+
+    it('leaves the index as it was when unchanged content is indexed again', async () => {
+      const workshop = event('evt-1', 'Robotics workshop');
+      await indexEvent(workshop);
+      const stats = await getIndexStats();
+      const frequencies = documentFrequencies();
+
+      await indexEvent(workshop);
+
+      expect(await getIndexStats()).toEqual(stats);
+      expect(documentFrequencies()).toEqual(frequencies);
+      expect(table.get({ PK: 'SEARCH#DOC#evt-1', SK: 'METADATA' })?.version).toBe(2);
+    });
+
+    it('counts a concurrent delivery of the same event once', async () => {
+      const workshop = event('evt-1', 'Robotics workshop');
+      let raced = false;
+
+      // Another delivery indexes the event between this one's read and write
+      table.beforeSend = async (command) => {
+        if (!raced && command instanceof PutCommand && command.input.Item?.PK === 'SEARCH#DOC#evt-1') {
+          raced = true;
+          await indexEvent(workshop);
+        }
+      };
+
+      await indexEvent(workshop);
+
+      expect((await getIndexStats()).documentCount).toBe(1);
+      expect(Object.values(documentFrequencies()).every((frequency) => frequency === 1)).toBe(true);
+    });
+
+    it('drops postings and dictionary entries of removed terms', async () => {
+      await indexEvent(event('evt-1', 'Robotics workshop'));
+      await indexEvent(event('evt-1', 'Chemistry lecture'));
+
+      expect((await searchIndex('robotics', await getIndexStats())).matches).toEqual([]);
+      expect(table.withPartitionPrefix('SEARCH#TERM#robot')).toEqual([]);
+      expect(documentFrequencies()).not.toHaveProperty('robot');
+      expect((await getIndexStats()).documentCount).toBe(1);
+    });
+
+    it('retries postings the table did not process', async () => {
+      table.unprocessedBatchWrites = 1;
+
+      await indexEvent(event('evt-1', 'Robotics workshop'));
+
+      const document = table.get({ PK: 'SEARCH#DOC#evt-1', SK: 'METADATA' })!;
+      for (const term of document.terms) {
+        expect(table.get({ PK: `SEARCH#TERM#${term}`, SK: 'EVENT#evt-1' })).toBeDefined();
+      }
+    });
+  });
+
+  describe('removeEventFromIndex', () => {
+    it('removes the event and its statistics', async () => {
+      await indexEvent(event('evt-1', 'Robotics workshop'));
+
+      await removeEventFromIndex('evt-1');
+
+      expect(await getIndexStats()).toEqual({ documentCount: 0, totalLength: 0 });
+      expect(table.withPartitionPrefix('SEARCH#')).toEqual([
+        expect.objectContaining({ PK: 'SEARCH#STATS' }),
+      ]);
+    });
+
+    it('does nothing for an event that was never indexed', async () => {
+      await removeEventFromIndex('evt-unknown');
+
+      expect(table.items.size).toBe(0);
+    });
+  });
+
+  describe('searchIndex', () => {
+    it('scores against a snapshot so unchanged events keep their scores', async () => {
+      await indexEvent(event('evt-1', 'Robotics workshop'));
+      await indexEvent(event('evt-2', 'Chemistry lecture'));
+      const first = await searchIndex('robotics', await getIndexStats());
+
+      // More robotics events change the term statistics
+      await indexEvent(event('evt-3', 'Robotics club', 'Build robots together'));
+      await indexEvent(event('evt-4', 'Robotics competition'));
+
+      const fresh = await searchIndex('robotics', await getIndexStats());
+      const replayed = await searchIndex('robotics', first.snapshot);
+      const scoreOf = (matches: Array<{ eventId: string; score: number }>) =>
+        matches.find((match) => match.eventId === 'evt-1')!.score;
+
+      expect(scoreOf(fresh.matches)).not.toBeCloseTo(scoreOf(first.matches));
+      expect(scoreOf(replayed.matches)).toBeCloseTo(scoreOf(first.matches));
+      expect(replayed.matches.map((match) => match.eventId)).toEqual(expect.arrayContaining(['evt-3', 'evt-4']));
+      expect(replayed.snapshot).toEqual(first.snapshot);
+    });
+
+    it('requires every query word to match', async () => {
+      await indexEvent(event('evt-1', 'Robotics workshop'));
+      await indexEvent(event('evt-2', 'Robotics lecture'));
+
+      const { matches } = await searchIndex('robotics lecture', await getIndexStats());
+
+      expect(matches.map((match) => match.eventId)).toEqual(['evt-2']);
+    });
+
+    it('tolerates a typo in a word with no exact match', async () => {
+      await indexEvent(event('evt-1', 'Chemistry lecture'));
+
+      const { matches } = await searchIndex('chemistyr lecture', await getIndexStats());
+
+      expect(matches.map((match) => match.eventId)).toEqual(['evt-1']);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Calendar Feeds Business Logic
+ * Personal feeds are reached through a secret token; a user has at most one,
+ * and creating a new one revokes the old. Only the token's hash is stored, so
+ * the feed URL is shown once, when the feed is created:
+ *   Owner record: PK=USER#<userId>, SK=CALENDAR_FEED (tokenHash, createdAt)
+ *   Token lookup: PK=CALENDAR_FEED#<tokenHash>, SK=METADATA (userId)
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  QueryCommandInput,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createHash, randomBytes } from 'crypto';
+import { CalendarFeed, Event } from '../../../shared/types/event.types';
+import { EventCategory } from '../../../shared/types/common';
+import { RegistrationStatus } from '../../../shared/types/registration.types';
+import { batchGetEvents, dynamoDBItemToEvent } from '../../../shared/utils/dynamodb.utils';
+import { isCalendarVisible } from './ical';
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Past events kept in feeds, so calendars do not lose recent history
+const PERSONAL_FEED_HISTORY_DAYS = 180;
+const CATEGORY_FEED_HISTORY_DAYS = 30;
+const CATEGORY_FEED_HORIZON_DAYS = 365;
+
+const FEED_REGISTRATION_STATUSES = new Set<string>([
+  RegistrationStatus.REGISTERED,
+  RegistrationStatus.PROMOTION_PENDING,
+  RegistrationStatus.ATTENDED,
+]);
+
+/**
+ * Get the user's personal feed, if they have one
+ * The URL is not returned: it cannot be rebuilt from the stored hash
+ */
+export async function getCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+  const owner = await getOwnerRecord(userId);
+  return owner ? { createdAt: owner.createdAt } : null;
+}
+
+/**
+ * Create a personal feed with a new token, revoking the previous one
+ * This is the only time the feed URL is returned
+ */
+export async function createCalendarFeed(userId: string): Promise<CalendarFeed> {
+  const previous = await getOwnerRecord(userId);
+  const token = randomBytes(32).toString('base64url');
+  const tokenHash = hashToken(token);
+  const createdAt = new Date().toISOString();
+
+  await client.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: {
+              PK: `USER#${userId}`,
+              SK: 'CALENDAR_FEED',
+              entityType: 'CalendarFeed',
+              tokenHash,
+              createdAt,
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: {
+              PK: tokenLookupPK(tokenHash),
+              SK: 'METADATA',
+              entityType: 'CalendarFeedToken',
+              userId,
+              createdAt,
+            },
+          },
+        },
+        ...(previous
+          ? [{ Delete: { TableName: TABLE_NAME, Key: { PK: tokenLookupPK(previous.tokenHash), SK: 'METADATA' } } }]
+          : []),
+      ],
+    })
+  );
+
+  return toCalendarFeed(token, createdAt);
+}
+
+/**
+ * Revoke the user's personal feed
+ *
+ * @returns false if there was none
+ */
+export async function revokeCalendarFeed(userId: string): Promise<boolean> {
+  const owner = await getOwnerRecord(userId);
+  if (!owner) {
+    return false;
+  }
+
+  await client.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        { Delete: { TableName: TABLE_NAME, Key: { PK: `USER#${userId}`, SK: 'CALENDAR_FEED' } } },
+        { Delete: { TableName: TABLE_NAME, Key: { PK: tokenLookupPK(owner.tokenHash), SK: 'METADATA' } } },
+      ],
+    })
+  );
+
+  return true;
+}
+
+/**
+ * Find the owner of a feed token
+ *
+ * @returns User ID, or null for unknown and revoked tokens
+ */
+export async function resolveFeedToken(token: string): Promise<string | null> {
+  if (!token) {
+    return null;
+  }
+
+  const response = await client.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: tokenLookupPK(hashToken(token)), SK: 'METADATA' },
+    })
+  );
+
+  return response.Item?.userId || null;
+}
+
+/**
+ * Events on a user's personal feed: the ones they are registered for or attended
+ */
+export async function listPersonalFeedEvents(userId: string): Promise<Event[]> {
+  const registrations = await queryAll({
+    TableName: TABLE_NAME,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+    ProjectionExpression: 'eventId, #status',
+    ExpressionAttributeNames: {
+      '#status': 'status',
+    },
+    ExpressionAttributeValues: {
+      ':pk': `USER#${userId}`,
+      ':sk': 'REGISTRATION#',
+    },
+  });
+
+  const eventIds = registrations
+    .filter(registration => FEED_REGISTRATION_STATUSES.has(registration.status))
+    .map(registration => registration.eventId);
+  const since = new Date(Date.now() - PERSONAL_FEED_HISTORY_DAYS * DAY_MS).toISOString();
+
+  return sortByStart(
+    (await batchGetEvents(eventIds)).filter(
+      event => isCalendarVisible(event) && event.endDateTime >= since
+    )
+  );
+}
+
+/**
+ * Events on a public category feed: recent and upcoming, including cancellations
+ */
+export async function listCategoryFeedEvents(category: EventCategory): Promise<Event[]> {
+  const now = Date.now();
+
+  const items = await queryAll({
+    TableName: TABLE_NAME,
+    IndexName: 'GSI2',
+    KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK BETWEEN :start AND :end',
+    ExpressionAttributeValues: {
+      ':pk': `EVENT#CATEGORY#${category}`,
+      ':start': new Date(now - CATEGORY_FEED_HISTORY_DAYS * DAY_MS).toISOString(),
+      ':end': new Date(now + CATEGORY_FEED_HORIZON_DAYS * DAY_MS).toISOString(),
+    },
+  });
+
+  return sortByStart(items.map(dynamoDBItemToEvent).filter(isCalendarVisible));
+}
+
+async function getOwnerRecord(userId: string): Promise<{ tokenHash: string; createdAt: string } | null> {
+  const response = await client.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `USER#${userId}`, SK: 'CALENDAR_FEED' },
+    })
+  );
+
+  const item = response.Item;
+  if (!item) {
+    return null;
+  }
+
+  // Feeds created before tokens were hashed kept the plaintext token; drop it
+  if (item.token) {
+    const tokenHash = hashToken(item.token);
+    await client.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: `USER#${userId}`, SK: 'CALENDAR_FEED' },
+        UpdateExpression: 'SET tokenHash = :tokenHash REMOVE #token',
+        ConditionExpression: '#token = :token',
+        ExpressionAttributeNames: { '#token': 'token' },
+        ExpressionAttributeValues: { ':tokenHash': tokenHash, ':token': item.token },
+      })
+    ).catch((error) => {
+      // Replaced by a new feed in the meantime
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    });
+    return { tokenHash, createdAt: item.createdAt };
+  }
+
+  return { tokenHash: item.tokenHash, createdAt: item.createdAt };
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function tokenLookupPK(tokenHash: string): string {
+  return `CALENDAR_FEED#${tokenHash}`;
+}
+
+function toCalendarFeed(token: string, createdAt: string): CalendarFeed {
+  return {
+    url: `${process.env.CALENDAR_FEED_BASE_URL}/calendar/feeds/users/${token}.ics`,
+    createdAt,
+  };
+}
+
+function sortByStart(events: Event[]): Event[] {
+  return events.sort((a, b) => a.startDateTime.localeCompare(b.startDateTime));
+}
+
+async function queryAll(input: QueryCommandInput): Promise<Record<string, any>[]> {
+  const items: Record<string, any>[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({ ...input, ExclusiveStartKey: lastEvaluatedKey })
+    );
+    items.push(...(response.Items || []));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return items;
+}
@@ -0,0 +1,174 @@
+/**
+ * iCalendar (RFC 5545) Business Logic
+ * Renders events as VEVENTs that calendar apps can keep in sync:
+ * - UID is derived from the event ID, so it never changes
+ * - SEQUENCE follows the event version, which every edit, publish and cancellation bumps
+ * - cancelled events stay in feeds with STATUS:CANCELLED so subscribers drop them
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { Event } from '../../../shared/types/event.types';
+import { EventCategory, EventStatus } from '../../../shared/types/common';
+
+const PRODUCT_ID = '-//Terrapin Events//TEMS//EN';
+const UID_DOMAIN = 'events.umd.edu';
+const MAX_LINE_OCTETS = 75;
+const REFRESH_INTERVAL = 'PT1H';
+
+const CATEGORY_LABELS: Record<EventCategory, string> = {
+  [EventCategory.ACADEMIC]: 'Academic',
+  [EventCategory.SOCIAL]: 'Social',
+  [EventCategory.SPORTS]: 'Sports',
+  [EventCategory.ARTS]: 'Arts & Culture',
+  [EventCategory.TECH]: 'Technology',
+  [EventCategory.CAREER]: 'Career',
+  [EventCategory.OTHER]: 'Other',
+};
+
+export interface CalendarInfo {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Render a VCALENDAR with one VEVENT per event
+ */
+export function buildCalendar(calendar: CalendarInfo, events: Event[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    ...(calendar.description ? [`X-WR-CALDESC:${escapeText(calendar.description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap(eventLines),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Category name as shown to people
+ */
+export function getCategoryLabel(category: EventCategory): string {
+  return CATEGORY_LABELS[category] || category;
+}
+
+/**
+ * Whether an event may appear in a calendar
+ * Cancelled events only if they were published, so cancelled drafts never leak.
+ * Events published before publishedAt was recorded count as published if anyone
+ * registered, since drafts cannot take registrations.
+ */
+export function isCalendarVisible(event: Event): boolean {
+  return (
+    event.status === EventStatus.PUBLISHED ||
+    event.status === EventStatus.COMPLETED ||
+    (event.status === EventStatus.CANCELLED &&
+      (!!event.publishedAt || event.registeredCount > 0 || event.waitlistCount > 0))
+  );
+}
+
+/**
+ * HTTP response carrying a calendar
+ *
+ * @param attachmentName - File name offered for download; omit for subscription feeds
+ */
+export function calendarResponse(body: string, attachmentName?: string): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'public, max-age=300',
+      ...(attachmentName && {
+        'Content-Disposition': `attachment; filename="${attachmentName.replace(/[^\w.-]/g, '_')}"`,
+      }),
+    },
+    body,
+  };
+}
+
+/**
+ * Path parameter without its optional .ics extension
+ */
+export function stripIcsExtension(value: string | undefined): string {
+  return decodeURIComponent(value || '').replace(/\.ics$/i, '');
+}
+
+function eventLines(event: Event): string[] {
+  const url = `${process.env.FRONTEND_URL || 'https://events.umd.edu'}/events/${event.id}`;
+  const location = [event.location.name, event.location.room && `Room ${event.location.room}`, event.location.address]
+    .filter(Boolean)
+    .join(', ');
+  const categories = [getCategoryLabel(event.category), ...(event.tags || [])].map(escapeText).join(',');
+  const coordinates = event.location.coordinates;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+    `CREATED:${formatDateTime(event.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+    `SEQUENCE:${Math.max((event.version || 1) - 1, 0)}`,
+    `DTSTART:${formatDateTime(event.startDateTime)}`,
+    `DTEND:${formatDateTime(event.endDateTime)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(`${event.description}\n\n${url}`)}`,
+    `LOCATION:${escapeText(location)}`,
+    ...(coordinates ? [`GEO:${coordinates.latitude};${coordinates.longitude}`] : []),
+    `URL:${url}`,
+    `CATEGORIES:${categories}`,
+    `STATUS:${event.status === EventStatus.CANCELLED ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+// 2025-03-01T14:00:00.000Z -> 20250301T140000Z
+function formatDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on lines starting with a space,
+// never splitting a multi-byte character
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
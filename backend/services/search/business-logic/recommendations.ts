@@ -0,0 +1,389 @@
+/**
+ * Event Recommendations Business Logic
+ * Scores upcoming published events for a user from:
+ * - category and tag affinity with the events they registered for, attended events counting most
+ * - the categories they chose on their profile (UserPreferences.categories)
+ * - co-attendance: events that people who went to the same events are registered for
+ * - seat availability: events with room left rank above nearly full ones
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { Event, RecommendedEvent } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import { RegistrationStatus } from '../../../shared/types/registration.types';
+import { batchGetEvents, dynamoDBItemToEvent } from '../../../shared/utils/dynamodb.utils';
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+const RECOMMENDATION_WINDOW_DAYS = 60;
+const MAX_CANDIDATES = 1000;
+const MAX_HISTORY = 100;
+// Past events whose attendees are looked at, and how many of those attendees
+const MAX_SHARED_EVENTS = 10;
+const MAX_CO_ATTENDEES = 50;
+const MAX_COUNTED_CO_ATTENDEES = 4;
+
+const WEIGHTS = {
+  category: 3, // Times the share of the user's history in the category
+  tag: 1, // Times the share of the user's history with the tag, per shared tag
+  statedCategory: 2,
+  coAttendee: 0.75, // Per co-attendee registered, up to MAX_COUNTED_CO_ATTENDEES
+  availability: 1, // Times the share of seats still open; full events lose this much
+};
+
+// How much a past registration says about the user's interests
+const HISTORY_WEIGHTS: Partial<Record<RegistrationStatus, number>> = {
+  [RegistrationStatus.ATTENDED]: 2,
+  [RegistrationStatus.REGISTERED]: 1,
+  [RegistrationStatus.PROMOTION_PENDING]: 1,
+  [RegistrationStatus.WAITLISTED]: 1,
+  [RegistrationStatus.NO_SHOW]: 0.5,
+};
+
+const ACTIVE_STATUSES = new Set<string>([
+  RegistrationStatus.REGISTERED,
+  RegistrationStatus.PROMOTION_PENDING,
+  RegistrationStatus.WAITLISTED,
+]);
+
+interface HistoryEntry {
+  event: Event;
+  status: RegistrationStatus;
+  weight: number;
+  registeredAt: string;
+}
+
+interface InterestProfile {
+  history: HistoryEntry[]; // Newest first
+  totalWeight: number;
+  categoryWeights: Map<string, number>;
+  tagWeights: Map<string, number>;
+  statedCategories: Set<string>;
+  registeredEventIds: Set<string>; // Never recommended again, whatever the status
+}
+
+interface CoAttendance {
+  count: number;
+  sharedEventTitle: string;
+}
+
+/**
+ * Recommend upcoming events to a user, best match first
+ * Events the user organizes or already has a registration for are left out,
+ * and a recurring series is represented by its best occurrence
+ */
+export async function recommendEvents(userId: string, limit: number): Promise<RecommendedEvent[]> {
+  const now = new Date();
+
+  const [profile, candidates] = await Promise.all([
+    buildInterestProfile(userId),
+    listUpcomingEvents(now),
+  ]);
+  const coAttendance = await findCoAttendeeRegistrations(userId, profile, now);
+
+  const scored = candidates
+    .filter(event => event.organizerId !== userId && !profile.registeredEventIds.has(event.id))
+    .map(event => scoreEvent(event, profile, coAttendance))
+    .filter(recommendation => recommendation.score > 0)
+    .sort((a, b) =>
+      b.score - a.score || a.event.startDateTime.localeCompare(b.event.startDateTime)
+    );
+
+  const seenSeries = new Set<string>();
+  const recommendations: RecommendedEvent[] = [];
+
+  for (const recommendation of scored) {
+    const seriesId = recommendation.event.seriesId;
+    if (seriesId) {
+      if (seenSeries.has(seriesId)) continue;
+      seenSeries.add(seriesId);
+    }
+
+    recommendations.push(recommendation);
+    if (recommendations.length === limit) break;
+  }
+
+  return recommendations;
+}
+
+/**
+ * Score one event and pick the reason shown with it:
+ * the largest personal signal, or availability when there is none
+ */
+function scoreEvent(
+  event: Event,
+  profile: InterestProfile,
+  coAttendance: Map<string, CoAttendance>
+): RecommendedEvent {
+  const share = (weight = 0) => (profile.totalWeight > 0 ? weight / profile.totalWeight : 0);
+
+  const affinityScore =
+    WEIGHTS.category * share(profile.categoryWeights.get(event.category)) +
+    WEIGHTS.tag * (event.tags || []).reduce((sum, tag) => sum + share(profile.tagWeights.get(tag)), 0);
+
+  const statedScore = profile.statedCategories.has(event.category) ? WEIGHTS.statedCategory : 0;
+
+  const coAttendees = coAttendance.get(event.id);
+  const coAttendeeScore =
+    WEIGHTS.coAttendee * Math.min(coAttendees?.count || 0, MAX_COUNTED_CO_ATTENDEES);
+
+  const seatsLeft = Math.max(event.capacity - event.registeredCount, 0);
+  const availabilityScore =
+    seatsLeft === 0
+      ? -WEIGHTS.availability
+      : WEIGHTS.availability * (event.capacity > 0 ? seatsLeft / event.capacity : 0);
+
+  const score = affinityScore + statedScore + coAttendeeScore + availabilityScore;
+
+  let reason: string;
+  const strongest = Math.max(affinityScore, statedScore, coAttendeeScore);
+
+  if (strongest > 0 && strongest === affinityScore) {
+    reason = affinityReason(event, profile);
+  } else if (strongest > 0 && strongest === coAttendeeScore && coAttendees) {
+    reason =
+      coAttendees.count === 1
+        ? `Someone you went to ${coAttendees.sharedEventTitle} with is going`
+        : `${coAttendees.count} people you went to ${coAttendees.sharedEventTitle} with are going`;
+  } else if (strongest > 0) {
+    reason = `Because you're interested in ${formatCategory(event.category)} events`;
+  } else {
+    reason = seatsLeft <= 10 ? `Only ${seatsLeft} seats left` : 'Upcoming event with open seats';
+  }
+
+  return {
+    event,
+    score: Math.round(score * 1000) / 1000,
+    reason,
+  };
+}
+
+/**
+ * Name the past event behind a category or tag match, preferring attended events
+ */
+function affinityReason(event: Event, profile: InterestProfile): string {
+  const eventTags = new Set(event.tags || []);
+  const related = profile.history.filter(
+    entry =>
+      entry.event.category === event.category ||
+      (entry.event.tags || []).some(tag => eventTags.has(tag))
+  );
+  const source =
+    related.find(entry => entry.status === RegistrationStatus.ATTENDED) || related[0];
+
+  if (!source) {
+    return `Because you like ${formatCategory(event.category)} events`;
+  }
+
+  return source.status === RegistrationStatus.ATTENDED
+    ? `Because you attended ${source.event.title}`
+    : `Because you registered for ${source.event.title}`;
+}
+
+/**
+ * Build the user's interests from their profile and registration history
+ */
+async function buildInterestProfile(userId: string): Promise<InterestProfile> {
+  const [userResponse, registrations] = await Promise.all([
+    client.send(
+      new GetCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: `USER#${userId}`, SK: 'METADATA' },
+      })
+    ),
+    queryAll({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'REGISTRATION#',
+      },
+    }),
+  ]);
+
+  const registeredEventIds = new Set<string>(registrations.map(item => item.eventId));
+
+  const recent = registrations
+    .filter(item => HISTORY_WEIGHTS[item.status as RegistrationStatus] !== undefined)
+    .sort((a, b) => b.registeredAt.localeCompare(a.registeredAt))
+    .slice(0, MAX_HISTORY);
+
+  const events = new Map(
+    (await batchGetEvents(recent.map(item => item.eventId))).map(event => [event.id, event])
+  );
+
+  const history: HistoryEntry[] = [];
+  const categoryWeights = new Map<string, number>();
+  const tagWeights = new Map<string, number>();
+  let totalWeight = 0;
+
+  for (const item of recent) {
+    const event = events.get(item.eventId);
+    if (!event) continue;
+
+    const weight = HISTORY_WEIGHTS[item.status as RegistrationStatus]!;
+    history.push({ event, status: item.status, weight, registeredAt: item.registeredAt });
+    totalWeight += weight;
+    categoryWeights.set(event.category, (categoryWeights.get(event.category) || 0) + weight);
+    for (const tag of event.tags || []) {
+      tagWeights.set(tag, (tagWeights.get(tag) || 0) + weight);
+    }
+  }
+
+  return {
+    history,
+    totalWeight,
+    categoryWeights,
+    tagWeights,
+    statedCategories: new Set<string>(userResponse.Item?.preferences?.categories || []),
+    registeredEventIds,
+  };
+}
+
+/**
+ * Count, per upcoming event, the people who went to the user's recent past events
+ * and are registered for it
+ */
+async function findCoAttendeeRegistrations(
+  userId: string,
+  profile: InterestProfile,
+  now: Date
+): Promise<Map<string, CoAttendance>> {
+  const sharedEvents = profile.history
+    .filter(entry =>
+      entry.event.endDateTime < now.toISOString() &&
+      (entry.status === RegistrationStatus.ATTENDED || entry.status === RegistrationStatus.REGISTERED)
+    )
+    .slice(0, MAX_SHARED_EVENTS)
+    .map(entry => entry.event);
+
+  // Co-attendee -> first shared event, most frequent co-attendees first
+  const coAttendees = new Map<string, { sharedEventTitle: string; sharedCount: number }>();
+
+  const attendeeLists = await Promise.all(
+    sharedEvents.map(event =>
+      queryAll({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+        FilterExpression: 'begins_with(PK, :userPrefix)',
+        ProjectionExpression: 'userId',
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${event.id}`,
+          ':sk': `STATUS#${RegistrationStatus.ATTENDED}#`,
+          ':userPrefix': 'USER#',
+        },
+      })
+    )
+  );
+
+  attendeeLists.forEach((attendees, index) => {
+    for (const { userId: attendeeId } of attendees) {
+      if (attendeeId === userId) continue;
+
+      const existing = coAttendees.get(attendeeId);
+      if (existing) {
+        existing.sharedCount++;
+      } else {
+        coAttendees.set(attendeeId, { sharedEventTitle: sharedEvents[index].title, sharedCount: 1 });
+      }
+    }
+  });
+
+  const topCoAttendees = [...coAttendees.entries()]
+    .sort((a, b) => b[1].sharedCount - a[1].sharedCount)
+    .slice(0, MAX_CO_ATTENDEES);
+
+  const registrationLists = await Promise.all(
+    topCoAttendees.map(([attendeeId]) =>
+      queryAll({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ProjectionExpression: 'eventId, #status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `USER#${attendeeId}`,
+          ':sk': 'REGISTRATION#',
+        },
+      })
+    )
+  );
+
+  const counts = new Map<string, CoAttendance>();
+
+  registrationLists.forEach((registrations, index) => {
+    const { sharedEventTitle } = topCoAttendees[index][1];
+
+    for (const registration of registrations) {
+      if (!ACTIVE_STATUSES.has(registration.status)) continue;
+
+      const existing = counts.get(registration.eventId);
+      if (existing) {
+        existing.count++;
+      } else {
+        counts.set(registration.eventId, { count: 1, sharedEventTitle });
+      }
+    }
+  });
+
+  return counts;
+}
+
+/**
+ * Published events starting within the recommendation window, soonest first
+ */
+async function listUpcomingEvents(now: Date): Promise<Event[]> {
+  const windowEnd = new Date(now.getTime() + RECOMMENDATION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const items = await queryAll(
+    {
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK BETWEEN :start AND :end',
+      FilterExpression: '#status = :status',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':pk': 'EVENT#DATE',
+        ':start': now.toISOString(),
+        ':end': windowEnd.toISOString(),
+        ':status': EventStatus.PUBLISHED,
+      },
+    },
+    MAX_CANDIDATES
+  );
+
+  return items.map(dynamoDBItemToEvent);
+}
+
+async function queryAll(
+  input: QueryCommandInput,
+  maxItems: number = Number.MAX_SAFE_INTEGER
+): Promise<Record<string, any>[]> {
+  const items: Record<string, any>[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({ ...input, ExclusiveStartKey: lastEvaluatedKey })
+    );
+    items.push(...(response.Items || []));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey && items.length < maxItems);
+
+  return items.slice(0, maxItems);
+}
+
+function formatCategory(category: string): string {
+  return category.charAt(0) + category.slice(1).toLowerCase();
+}
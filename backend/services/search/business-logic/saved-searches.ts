@@ -0,0 +1,303 @@
+/**
+ * Saved Searches Business Logic
+ * Saved searches are stored with their owner:
+ *   Saved search: PK=USER#<userId>, SK=SAVED_SEARCH#<id>
+ *                 GSI1PK=SAVED_SEARCH#ALERTS, GSI1SK=<userId>#<id> while alerts are on
+ *   Alert marker: PK=SAVED_SEARCH#<id>, SK=ALERTED#<eventId or seriesId> (expires after 90 days)
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  SavedSearch,
+  SaveSearchInput,
+  SearchQueryInput,
+  UpdateSavedSearchInput,
+} from '../../../shared/types/event.types';
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+const MAX_NAME_LENGTH = 80;
+const ALERTS_PARTITION = 'SAVED_SEARCH#ALERTS';
+const ALERT_MARKER_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Saved search as stored, with the owner's contact details for alerts
+ */
+export interface SavedSearchRecord extends SavedSearch {
+  userEmail: string;
+  userName: string;
+}
+
+/**
+ * Store a new saved search
+ */
+export async function createSavedSearch(
+  userId: string,
+  owner: { email: string; name: string },
+  input: SaveSearchInput
+): Promise<SavedSearchRecord> {
+  const timestamp = new Date().toISOString();
+  const savedSearch: SavedSearchRecord = {
+    id: randomUUID(),
+    userId,
+    name: input.name.trim(),
+    search: withoutPagination(input.search),
+    alertsEnabled: input.alertsEnabled ?? false,
+    alertCount: 0,
+    userEmail: owner.email,
+    userName: owner.name,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  await client.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: toItem(savedSearch),
+    })
+  );
+
+  return savedSearch;
+}
+
+/**
+ * Get one saved search of a user
+ */
+export async function getSavedSearch(userId: string, id: string): Promise<SavedSearchRecord | null> {
+  const response = await client.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `USER#${userId}`, SK: `SAVED_SEARCH#${id}` },
+    })
+  );
+
+  return response.Item ? fromItem(response.Item) : null;
+}
+
+/**
+ * List a user's saved searches, newest first
+ */
+export async function listSavedSearches(userId: string): Promise<SavedSearchRecord[]> {
+  const response = await client.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':prefix': 'SAVED_SEARCH#',
+      },
+    })
+  );
+
+  return (response.Items || [])
+    .map(fromItem)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Apply changes to a saved search
+ * Turning alerts on or off adds or removes it from the alert partition
+ */
+export async function updateSavedSearch(
+  existing: SavedSearchRecord,
+  input: UpdateSavedSearchInput
+): Promise<SavedSearchRecord> {
+  const updated: SavedSearchRecord = {
+    ...existing,
+    name: input.name !== undefined ? input.name.trim() : existing.name,
+    search: input.search ? withoutPagination(input.search) : existing.search,
+    alertsEnabled: input.alertsEnabled ?? existing.alertsEnabled,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await client.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: toItem(updated),
+      ConditionExpression: 'attribute_exists(PK)',
+    })
+  );
+
+  return updated;
+}
+
+/**
+ * Delete a saved search
+ */
+export async function deleteSavedSearch(userId: string, id: string): Promise<void> {
+  await client.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `USER#${userId}`, SK: `SAVED_SEARCH#${id}` },
+    })
+  );
+}
+
+/**
+ * List every saved search with alerts on
+ */
+export async function listAlertingSavedSearches(): Promise<SavedSearchRecord[]> {
+  const savedSearches: SavedSearchRecord[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': ALERTS_PARTITION,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    savedSearches.push(...(response.Items || []).map(fromItem));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return savedSearches;
+}
+
+/**
+ * Claim the alert for an event (or series) before it is sent
+ *
+ * @returns false if it was already claimed, so series publishes alert once
+ */
+export async function claimAlert(savedSearch: SavedSearch, alertKey: string): Promise<boolean> {
+  try {
+    await client.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: {
+          PK: `SAVED_SEARCH#${savedSearch.id}`,
+          SK: `ALERTED#${alertKey}`,
+          createdAt: new Date().toISOString(),
+          ttl: Math.floor(Date.now() / 1000) + ALERT_MARKER_TTL_SECONDS,
+        },
+        ConditionExpression: 'attribute_not_exists(PK)',
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Release a claimed alert that could not be sent, so a retry sends it
+ */
+export async function releaseAlert(savedSearch: SavedSearch, alertKey: string): Promise<void> {
+  await client.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `SAVED_SEARCH#${savedSearch.id}`, SK: `ALERTED#${alertKey}` },
+    })
+  );
+}
+
+/**
+ * Count a sent alert on the saved search
+ */
+export async function recordAlertSent(savedSearch: SavedSearch, timestamp: string): Promise<void> {
+  await client.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `USER#${savedSearch.userId}`, SK: `SAVED_SEARCH#${savedSearch.id}` },
+      UpdateExpression: 'SET lastAlertedAt = :now ADD alertCount :one',
+      ConditionExpression: 'attribute_exists(PK)',
+      ExpressionAttributeValues: {
+        ':now': timestamp,
+        ':one': 1,
+      },
+    })
+  ).catch((error) => {
+    // Deleted while the alert was being sent
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  });
+}
+
+/**
+ * Check a saved search name and query
+ *
+ * @returns Error message, or null when valid
+ */
+export function validateSavedSearch(name?: string, search?: SearchQueryInput): string | null {
+  if (name !== undefined && (name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH)) {
+    return `Name must be between 1 and ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (search) {
+    const filters = search.filters || {};
+    const hasCriteria =
+      !!search.query?.trim() ||
+      Object.values(filters).some(value => (Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null));
+
+    if (!hasCriteria) {
+      return 'A saved search needs a query or at least one filter';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip the fields that are not part of the public saved search
+ */
+export function toSavedSearch(record: SavedSearchRecord): SavedSearch {
+  const { userEmail: _email, userName: _name, ...savedSearch } = record;
+  return savedSearch;
+}
+
+function withoutPagination(search: SearchQueryInput): SearchQueryInput {
+  return {
+    query: search.query || '',
+    filters: search.filters,
+    sort: search.sort,
+  };
+}
+
+function toItem(savedSearch: SavedSearchRecord): Record<string, any> {
+  return {
+    PK: `USER#${savedSearch.userId}`,
+    SK: `SAVED_SEARCH#${savedSearch.id}`,
+    ...(savedSearch.alertsEnabled
+      ? { GSI1PK: ALERTS_PARTITION, GSI1SK: `${savedSearch.userId}#${savedSearch.id}` }
+      : {}),
+    entityType: 'SavedSearch',
+    ...savedSearch,
+  };
+}
+
+function fromItem(item: Record<string, any>): SavedSearchRecord {
+  return {
+    id: item.id,
+    userId: item.userId,
+    name: item.name,
+    search: item.search,
+    alertsEnabled: item.alertsEnabled,
+    alertCount: item.alertCount || 0,
+    lastAlertedAt: item.lastAlertedAt,
+    userEmail: item.userEmail,
+    userName: item.userName,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
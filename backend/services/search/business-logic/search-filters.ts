@@ -0,0 +1,91 @@
+/**
+ * Search Filters Business Logic
+ * Decides whether a single event matches a search, for result filtering and saved-search alerts
+ */
+
+import { Event, SearchFilters } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import { distanceInMeters } from '../../../shared/utils/geo.utils';
+import { analyzeEvent, stem, tokenize } from './text-analysis';
+
+// Upper bound for searches without startDateBefore
+export const DEFAULT_END_DATE = '2099-12-31T23:59:59Z';
+
+/**
+ * Check one event against every search filter
+ */
+export function matchesFilters(event: Event, filters: SearchFilters): boolean {
+  const startDate = filters.startDateAfter || new Date().toISOString();
+  const endDate = filters.startDateBefore || DEFAULT_END_DATE;
+
+  if (event.status !== EventStatus.PUBLISHED) {
+    return false;
+  }
+
+  if (event.startDateTime < startDate || event.startDateTime > endDate) {
+    return false;
+  }
+
+  if (filters.categories && filters.categories.length > 0 && !filters.categories.includes(event.category)) {
+    return false;
+  }
+
+  if (filters.locations && filters.locations.length > 0 && !filters.locations.includes(event.location.building)) {
+    return false;
+  }
+
+  // Available seats filter
+  if (filters.hasAvailableSeats && event.capacity - event.registeredCount <= 0) {
+    return false;
+  }
+
+  // Tags filter
+  if (filters.tags && filters.tags.length > 0 && !filters.tags.some(tag => (event.tags || []).includes(tag))) {
+    return false;
+  }
+
+  // Radius filter: events without coordinates cannot be placed
+  if (filters.radius) {
+    const coordinates = event.location.coordinates;
+    if (!coordinates || distanceInMeters(filters.radius, coordinates) > filters.radius.distanceMeters) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check that an event contains every word of a text query
+ * Same rules as the search index without typo tolerance: words are stemmed, and the
+ * last word also matches as a prefix ("robot" finds "robotics")
+ */
+export function matchesQueryText(event: Event, query: string): boolean {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return true;
+  }
+
+  const eventTerms = Object.keys(
+    analyzeEvent({
+      title: event.title,
+      description: event.description,
+      category: event.category,
+      tags: event.tags || [],
+      location: event.location,
+    }).termFrequencies
+  );
+  const eventTermSet = new Set(eventTerms);
+
+  return tokens.every((token, index) => {
+    const term = stem(token);
+    if (eventTermSet.has(term)) {
+      return true;
+    }
+
+    return (
+      index === tokens.length - 1 &&
+      eventTerms.some(eventTerm => eventTerm.startsWith(term) || eventTerm.startsWith(token))
+    );
+  });
+}
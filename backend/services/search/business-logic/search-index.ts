@@ -0,0 +1,585 @@
+/**
+ * Search Index Business Logic
+ * Inverted index over event text, stored in the main table:
+ *   Posting:    PK=SEARCH#TERM#<term>,  SK=EVENT#<eventId>  (weighted term frequency, document length)
+ *   Document:   PK=SEARCH#DOC#<eventId>, SK=METADATA        (indexed terms, so stale postings can be removed)
+ *   Dictionary: PK=SEARCH#DICT#<first char>, SK=TERM#<term> (document frequency, for prefix and fuzzy lookups)
+ *   Stats:      PK=SEARCH#STATS, SK=METADATA                (document count and total length, for BM25)
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  BatchWriteCommandOutput,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Event } from '../../../shared/types/event.types';
+import { BATCH_MAX_ATTEMPTS, batchRetryDelay } from '../../../shared/utils/dynamodb.utils';
+import {
+  analyzeEvent,
+  bm25,
+  boundedEditDistance,
+  maxEditsFor,
+  stem,
+  tokenize,
+} from './text-analysis';
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+const STATS_KEY = { PK: 'SEARCH#STATS', SK: 'METADATA' };
+
+// Query expansion limits and weights
+const PREFIX_EXPANSIONS = 10; // Most common completions of the last query word
+const FUZZY_EXPANSIONS = 5; // Closest spellings of a word with no exact match
+const PREFIX_WEIGHT = 0.8;
+const FUZZY_WEIGHT = 0.6;
+const MIN_PREFIX_LENGTH = 2;
+
+// Read limits, so a very common term cannot make a query unbounded
+const MAX_POSTINGS_PER_TERM = 5000;
+const MAX_DICTIONARY_ENTRIES = 5000;
+
+// Re-reads of the indexed document when a concurrent indexer changed it first
+const MAX_INDEX_ATTEMPTS = 3;
+
+/**
+ * Corpus statistics used for BM25 scoring
+ */
+export interface IndexStats {
+  documentCount: number;
+  totalLength: number;
+}
+
+/**
+ * Event matched by the index, with its relevance score
+ */
+export interface IndexMatch {
+  eventId: string;
+  score: number;
+}
+
+/**
+ * Term a query word expanded to: [term, weight, document frequency]
+ */
+export type WordExpansion = [string, number, number];
+
+/**
+ * Everything a search was scored against besides the postings themselves
+ */
+export interface IndexSnapshot extends IndexStats {
+  words: WordExpansion[][];
+}
+
+/**
+ * Matches of a search, and the snapshot to score its later pages against
+ */
+export interface IndexSearchResult {
+  matches: IndexMatch[];
+  snapshot: IndexSnapshot;
+}
+
+interface Posting {
+  eventId: string;
+  termFrequency: number;
+  documentLength: number;
+}
+
+interface IndexedDocument {
+  terms: string[];
+  length: number;
+  version: number;
+}
+
+/**
+ * Add or refresh an event in the index
+ * Idempotent: re-indexing unchanged content leaves the index as it was
+ *
+ * The indexed document is written first, conditional on the version that was read, so of
+ * two concurrent or repeated deliveries only one applies each change to the dictionary
+ * and corpus statistics; the other re-reads the document and diffs against it
+ */
+export async function indexEvent(event: Event): Promise<void> {
+  const analyzed = analyzeEvent(event);
+  const terms = Object.keys(analyzed.termFrequencies);
+  const currentTerms = new Set(terms);
+
+  for (let attempt = 1; attempt <= MAX_INDEX_ATTEMPTS; attempt++) {
+    const existing = await getIndexedDocument(event.id);
+    const previousTerms = new Set(existing?.terms || []);
+
+    const addedTerms = terms.filter((term) => !previousTerms.has(term));
+    const removedTerms = [...previousTerms].filter((term) => !currentTerms.has(term));
+
+    // 1. Record what is indexed, unless another indexer got there first
+    try {
+      await client.send(
+        new PutCommand({
+          TableName: TABLE_NAME,
+          Item: {
+            PK: `SEARCH#DOC#${event.id}`,
+            SK: 'METADATA',
+            entityType: 'SearchDocument',
+            eventId: event.id,
+            terms,
+            length: analyzed.length,
+            version: (existing?.version || 0) + 1,
+            indexedAt: new Date().toISOString(),
+          },
+          ...documentVersionCondition(existing),
+        })
+      );
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        continue;
+      }
+      throw error;
+    }
+
+    // 2. Write postings (all of them: document length changes every score) and drop stale ones
+    await batchWrite([
+      ...terms.map((term) => ({
+        PutRequest: {
+          Item: {
+            PK: `SEARCH#TERM#${term}`,
+            SK: `EVENT#${event.id}`,
+            entityType: 'SearchPosting',
+            term,
+            eventId: event.id,
+            termFrequency: analyzed.termFrequencies[term],
+            documentLength: analyzed.length,
+          },
+        },
+      })),
+      ...removedTerms.map((term) => ({
+        DeleteRequest: {
+          Key: { PK: `SEARCH#TERM#${term}`, SK: `EVENT#${event.id}` },
+        },
+      })),
+    ]);
+
+    // 3. Update the term dictionary
+    await updateDictionary(addedTerms, 1);
+    await updateDictionary(removedTerms, -1);
+
+    // 4. Update corpus statistics
+    await updateStats(existing ? 0 : 1, analyzed.length - (existing?.length || 0));
+    return;
+  }
+
+  throw new Error(`Event ${event.id} kept changing in the search index; retry indexing it`);
+}
+
+/**
+ * Remove an event from the index
+ * No-op if the event was never indexed
+ */
+export async function removeEventFromIndex(eventId: string): Promise<void> {
+  for (let attempt = 1; attempt <= MAX_INDEX_ATTEMPTS; attempt++) {
+    const existing = await getIndexedDocument(eventId);
+
+    if (!existing) {
+      return;
+    }
+
+    // Delete the document first, so only one remover adjusts the dictionary and statistics
+    try {
+      await client.send(
+        new DeleteCommand({
+          TableName: TABLE_NAME,
+          Key: { PK: `SEARCH#DOC#${eventId}`, SK: 'METADATA' },
+          ...documentVersionCondition(existing),
+        })
+      );
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        continue;
+      }
+      throw error;
+    }
+
+    await batchWrite(
+      existing.terms.map((term) => ({
+        DeleteRequest: {
+          Key: { PK: `SEARCH#TERM#${term}`, SK: `EVENT#${eventId}` },
+        },
+      }))
+    );
+
+    await updateDictionary(existing.terms, -1);
+    await updateStats(-1, -existing.length);
+    return;
+  }
+
+  throw new Error(`Event ${eventId} kept changing in the search index; retry removing it`);
+}
+
+/**
+ * Get corpus statistics (zero when nothing has been indexed yet)
+ */
+export async function getIndexStats(): Promise<IndexStats> {
+  const response = await client.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: STATS_KEY,
+    })
+  );
+
+  return {
+    documentCount: response.Item?.documentCount || 0,
+    totalLength: response.Item?.totalLength || 0,
+  };
+}
+
+/**
+ * Find events matching every word of a query, best first
+ *
+ * Each query word matches its stem exactly, the last word also matches as a prefix
+ * (search-as-you-type), and words with no exact match fall back to terms within
+ * a small edit distance that share their first letter
+ *
+ * Passing the snapshot returned by an earlier call scores against the statistics and
+ * expansions captured then, so events that did not change keep their scores while
+ * others are indexed
+ */
+export async function searchIndex(
+  query: string,
+  stats: IndexStats | IndexSnapshot
+): Promise<IndexSearchResult> {
+  const words = [...new Set(tokenize(query))];
+  const previous = 'words' in stats ? stats : null;
+  const snapshot: IndexSnapshot = {
+    documentCount: stats.documentCount,
+    totalLength: stats.totalLength,
+    words: [],
+  };
+
+  if (words.length === 0 || stats.documentCount === 0) {
+    return { matches: [], snapshot };
+  }
+
+  const averageLength = stats.totalLength / stats.documentCount;
+  let combined: Map<string, number> | null = null;
+
+  for (let i = 0; i < words.length; i++) {
+    const postingsByTerm = new Map<string, Posting[]>();
+    const expansions = previous
+      ? previous.words[i] || []
+      : await expandWord(words[i], i === words.length - 1, postingsByTerm);
+    snapshot.words.push(expansions);
+
+    // Score this word per event: best-scoring expansion wins, so expansions do not add up
+    const wordScores = new Map<string, number>();
+
+    for (const [expansion, weight, documentFrequency] of expansions) {
+      const postings = postingsByTerm.get(expansion) || (await getPostings(expansion));
+
+      for (const posting of postings) {
+        const score =
+          weight *
+          bm25(
+            posting.termFrequency,
+            posting.documentLength,
+            averageLength,
+            documentFrequency,
+            stats.documentCount
+          );
+        wordScores.set(posting.eventId, Math.max(wordScores.get(posting.eventId) || 0, score));
+      }
+    }
+
+    // Every word must match, in any order
+    if (combined === null) {
+      combined = wordScores;
+    } else {
+      const next = new Map<string, number>();
+      for (const [eventId, score] of combined) {
+        const wordScore = wordScores.get(eventId);
+        if (wordScore !== undefined) {
+          next.set(eventId, score + wordScore);
+        }
+      }
+      combined = next;
+    }
+
+    if (combined.size === 0) {
+      return { matches: [], snapshot };
+    }
+  }
+
+  const matches = [...(combined || new Map<string, number>()).entries()]
+    .map(([eventId, score]) => ({ eventId, score }))
+    .sort((a, b) => b.score - a.score);
+
+  return { matches, snapshot };
+}
+
+/**
+ * Terms a query word matches, with their weights and document frequencies
+ * Postings read along the way are left in postingsByTerm for scoring
+ */
+async function expandWord(
+  word: string,
+  isLastWord: boolean,
+  postingsByTerm: Map<string, Posting[]>
+): Promise<WordExpansion[]> {
+  const term = stem(word);
+  const weights = new Map<string, number>();
+
+  // Exact stem
+  const exactPostings = await getPostings(term);
+  postingsByTerm.set(term, exactPostings);
+  if (exactPostings.length > 0) {
+    weights.set(term, 1);
+  }
+
+  // Prefix completions of the word being typed
+  if (isLastWord && word.length >= MIN_PREFIX_LENGTH) {
+    for (const completion of await getPrefixCompletions(word)) {
+      if (!weights.has(completion)) {
+        weights.set(completion, PREFIX_WEIGHT);
+      }
+    }
+  }
+
+  // Typo tolerance when the word itself is unknown
+  if (exactPostings.length === 0 && maxEditsFor(term) > 0) {
+    for (const correction of await getFuzzyMatches(term)) {
+      if (!weights.has(correction)) {
+        weights.set(correction, FUZZY_WEIGHT);
+      }
+    }
+  }
+
+  const expansions: WordExpansion[] = [];
+
+  for (const [expansion, weight] of weights) {
+    const postings = postingsByTerm.get(expansion) || (await getPostings(expansion));
+    postingsByTerm.set(expansion, postings);
+    expansions.push([expansion, weight, postings.length]);
+  }
+
+  return expansions;
+}
+
+async function getIndexedDocument(eventId: string): Promise<IndexedDocument | null> {
+  const response = await client.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `SEARCH#DOC#${eventId}`, SK: 'METADATA' },
+    })
+  );
+
+  if (!response.Item) {
+    return null;
+  }
+
+  return {
+    terms: response.Item.terms || [],
+    length: response.Item.length || 0,
+    version: response.Item.version || 0,
+  };
+}
+
+/**
+ * Condition that the indexed document is still the one that was read
+ * Documents indexed before versioning have no version attribute
+ */
+function documentVersionCondition(existing: IndexedDocument | null) {
+  if (!existing) {
+    return { ConditionExpression: 'attribute_not_exists(PK)' };
+  }
+
+  if (existing.version === 0) {
+    return {
+      ConditionExpression: 'attribute_exists(PK) AND attribute_not_exists(#version)',
+      ExpressionAttributeNames: { '#version': 'version' },
+    };
+  }
+
+  return {
+    ConditionExpression: '#version = :currentVersion',
+    ExpressionAttributeNames: { '#version': 'version' },
+    ExpressionAttributeValues: { ':currentVersion': existing.version },
+  };
+}
+
+async function getPostings(term: string): Promise<Posting[]> {
+  const postings: Posting[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': `SEARCH#TERM#${term}`,
+        },
+        ProjectionExpression: 'eventId, termFrequency, documentLength',
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    postings.push(...((response.Items || []) as Posting[]));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey && postings.length < MAX_POSTINGS_PER_TERM);
+
+  return postings;
+}
+
+/**
+ * Most common indexed terms starting with the given prefix
+ */
+async function getPrefixCompletions(prefix: string): Promise<string[]> {
+  const entries = await getDictionaryEntries(prefix);
+
+  return entries
+    .sort((a, b) => b.documentFrequency - a.documentFrequency)
+    .slice(0, PREFIX_EXPANSIONS)
+    .map((entry) => entry.term);
+}
+
+/**
+ * Indexed terms within the allowed edit distance of a term, closest first
+ */
+async function getFuzzyMatches(term: string): Promise<string[]> {
+  const maxEdits = maxEditsFor(term);
+  const entries = await getDictionaryEntries(term[0]);
+
+  return entries
+    .map((entry) => ({
+      term: entry.term,
+      distance: boundedEditDistance(term, entry.term, maxEdits),
+      documentFrequency: entry.documentFrequency,
+    }))
+    .filter((entry) => entry.distance <= maxEdits)
+    .sort((a, b) => a.distance - b.distance || b.documentFrequency - a.documentFrequency)
+    .slice(0, FUZZY_EXPANSIONS)
+    .map((entry) => entry.term);
+}
+
+async function getDictionaryEntries(
+  prefix: string
+): Promise<Array<{ term: string; documentFrequency: number }>> {
+  const entries: Array<{ term: string; documentFrequency: number }> = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': `SEARCH#DICT#${prefix[0]}`,
+          ':prefix': `TERM#${prefix}`,
+        },
+        ProjectionExpression: 'term, documentFrequency',
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    entries.push(
+      ...(response.Items || [])
+        .filter((item) => item.documentFrequency > 0)
+        .map((item) => ({ term: item.term as string, documentFrequency: item.documentFrequency as number }))
+    );
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey && entries.length < MAX_DICTIONARY_ENTRIES);
+
+  return entries;
+}
+
+/**
+ * Adjust document frequencies, deleting dictionary entries that drop to zero
+ */
+async function updateDictionary(terms: string[], delta: number): Promise<void> {
+  // Small batches keep the number of parallel writes reasonable
+  for (let i = 0; i < terms.length; i += 10) {
+    await Promise.all(
+      terms.slice(i, i + 10).map(async (term) => {
+        const key = { PK: `SEARCH#DICT#${term[0]}`, SK: `TERM#${term}` };
+
+        const response = await client.send(
+          new UpdateCommand({
+            TableName: TABLE_NAME,
+            Key: key,
+            UpdateExpression: 'SET term = :term, entityType = :entityType ADD documentFrequency :delta',
+            ExpressionAttributeValues: {
+              ':term': term,
+              ':entityType': 'SearchTerm',
+              ':delta': delta,
+            },
+            ReturnValues: 'UPDATED_NEW',
+          })
+        );
+
+        if (delta < 0 && (response.Attributes?.documentFrequency ?? 0) <= 0) {
+          try {
+            await client.send(
+              new DeleteCommand({
+                TableName: TABLE_NAME,
+                Key: key,
+                ConditionExpression: 'documentFrequency <= :zero',
+                ExpressionAttributeValues: { ':zero': 0 },
+              })
+            );
+          } catch (error: any) {
+            // Another event picked the term up in the meantime
+            if (error.name !== 'ConditionalCheckFailedException') {
+              throw error;
+            }
+          }
+        }
+      })
+    );
+  }
+}
+
+async function updateStats(documentDelta: number, lengthDelta: number): Promise<void> {
+  await client.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: STATS_KEY,
+      UpdateExpression: 'ADD documentCount :documents, totalLength :length',
+      ExpressionAttributeValues: {
+        ':documents': documentDelta,
+        ':length': lengthDelta,
+      },
+    })
+  );
+}
+
+/**
+ * BatchWrite in chunks of 25, retrying unprocessed items with backoff
+ */
+async function batchWrite(requests: Array<Record<string, any>>): Promise<void> {
+  for (let i = 0; i < requests.length; i += 25) {
+    let pending: Array<Record<string, any>> = requests.slice(i, i + 25);
+    let attempts = 0;
+
+    while (pending.length > 0 && attempts < BATCH_MAX_ATTEMPTS) {
+      if (attempts > 0) {
+        await batchRetryDelay(attempts);
+      }
+
+      const response: BatchWriteCommandOutput = await client.send(
+        new BatchWriteCommand({
+          RequestItems: { [TABLE_NAME]: pending },
+        })
+      );
+
+      pending = response.UnprocessedItems?.[TABLE_NAME] || [];
+      attempts++;
+    }
+
+    if (pending.length > 0) {
+      throw new Error(`Failed to write ${pending.length} search index items`);
+    }
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Text Analysis Business Logic
+ * Turns event text and search queries into index terms (tokenize, drop stop words, stem)
+ * and provides the scoring and fuzzy-matching primitives of the search index
+ */
+
+// Common English words that carry no meaning for search
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their',
+  'this', 'to', 'was', 'we', 'will', 'with', 'you', 'your',
+]);
+
+// Field weights: a word in the title counts as three occurrences, a tag as two
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  category: 1,
+  location: 1,
+  description: 1,
+};
+
+// BM25 parameters (standard values)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Event fields that are indexed
+ */
+export interface IndexableEvent {
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+  location: { name: string; building: string; room?: string };
+}
+
+/**
+ * Indexed form of one event
+ */
+export interface AnalyzedDocument {
+  termFrequencies: Record<string, number>; // Weighted occurrences per term
+  length: number; // Weighted number of terms
+}
+
+/**
+ * Split text into lowercase tokens, without accents, punctuation or stop words
+ *
+ * @example
+ * tokenize("Résumé Workshops: AI & You!")
+ * // Returns: ["resume", "workshops", "ai"]
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Reduce a word to its stem (step 1 of the Porter stemmer: plurals, -ed, -ing, -y)
+ *
+ * @example
+ * stem("workshops") // "workshop"
+ * stem("running")   // "run"
+ * stem("studies")   // "studi"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+
+  // Step 1a: plurals
+  if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('ies')) {
+    result = result.slice(0, -2);
+  } else if (!result.endsWith('ss') && result.endsWith('s')) {
+    result = result.slice(0, -1);
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if (result.endsWith('eed')) {
+    if (measure(result.slice(0, -3)) > 0) {
+      result = result.slice(0, -1);
+    }
+  } else {
+    const suffix = result.endsWith('ed') ? 'ed' : result.endsWith('ing') ? 'ing' : null;
+    const base = suffix ? result.slice(0, -suffix.length) : '';
+
+    if (suffix && hasVowel(base)) {
+      result = base;
+
+      if (result.endsWith('at') || result.endsWith('bl') || result.endsWith('iz')) {
+        result += 'e';
+      } else if (endsWithDoubleConsonant(result) && !/[lsz]$/.test(result)) {
+        result = result.slice(0, -1);
+      } else if (measure(result) === 1 && endsWithCvc(result)) {
+        result += 'e';
+      }
+    }
+  }
+
+  // Step 1c: -y
+  if (result.endsWith('y') && hasVowel(result.slice(0, -1))) {
+    result = result.slice(0, -1) + 'i';
+  }
+
+  return result;
+}
+
+/**
+ * Tokenize and stem text into index terms
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Build the weighted term frequencies of an event
+ */
+export function analyzeEvent(event: IndexableEvent): AnalyzedDocument {
+  const termFrequencies: Record<string, number> = {};
+  let length = 0;
+
+  const addField = (text: string, weight: number) => {
+    for (const term of analyze(text)) {
+      termFrequencies[term] = (termFrequencies[term] || 0) + weight;
+      length += weight;
+    }
+  };
+
+  addField(event.title, FIELD_WEIGHTS.title);
+  addField(event.tags.join(' '), FIELD_WEIGHTS.tags);
+  addField(event.category.replace(/_/g, ' '), FIELD_WEIGHTS.category);
+  addField(
+    [event.location.name, event.location.building, event.location.room || ''].join(' '),
+    FIELD_WEIGHTS.location
+  );
+  addField(event.description, FIELD_WEIGHTS.description);
+
+  return { termFrequencies, length };
+}
+
+/**
+ * Number of typos tolerated for a query term
+ * Short terms must match exactly; longer terms allow one or two edits
+ */
+export function maxEditsFor(term: string): number {
+  if (term.length <= 3) return 0;
+  if (term.length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds maxDistance
+ *
+ * @returns The distance, or maxDistance + 1 when the words are further apart
+ */
+export function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    // Every later row is at least this far apart
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
+
+/**
+ * BM25 score of one term in one document
+ *
+ * @param termFrequency - Weighted occurrences of the term in the document
+ * @param documentLength - Weighted length of the document
+ * @param averageLength - Average weighted document length in the index
+ * @param documentFrequency - Number of documents containing the term
+ * @param documentCount - Number of documents in the index
+ */
+export function bm25(
+  termFrequency: number,
+  documentLength: number,
+  averageLength: number,
+  documentFrequency: number,
+  documentCount: number
+): number {
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const lengthNorm = 1 - BM25_B + BM25_B * (documentLength / (averageLength || 1));
+
+  return idf * ((termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * lengthNorm));
+}
+
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return index === 0 || !isConsonant(word, index - 1);
+  return true;
+}
+
+// Number of vowel-consonant sequences in a stem ("m" in the Porter paper)
+function measure(word: string): number {
+  let count = 0;
+  let previousVowel = false;
+
+  for (let i = 0; i < word.length; i++) {
+    const vowel = !isConsonant(word, i);
+    if (previousVowel && !vowel) {
+      count++;
+    }
+    previousVowel = vowel;
+  }
+
+  return count;
+}
+
+function hasVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const last = word.length - 1;
+  return last > 0 && word[last] === word[last - 1] && isConsonant(word, last);
+}
+
+// consonant-vowel-consonant ending, where the last consonant is not w, x or y
+function endsWithCvc(word: string): boolean {
+  const last = word.length - 1;
+  return (
+    last >= 2 &&
+    isConsonant(word, last - 2) &&
+    !isConsonant(word, last - 1) &&
+    isConsonant(word, last) &&
+    !'wxy'.includes(word[last])
+  );
+}
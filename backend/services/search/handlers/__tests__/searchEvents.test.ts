@@ -0,0 +1,196 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { Event, SearchQueryInput, SearchResult } from '../../../../shared/types/event.types';
+import { EventCategory, EventStatus } from '../../../../shared/types/common';
+import type { IndexSearchResult, IndexSnapshot, IndexStats } from '../../business-logic/search-index';
+
+const mockSend = jest.fn<(command: any) => Promise<any>>();
+const mockGetIndexStats = jest.fn<() => Promise<IndexStats>>();
+const mockSearchIndex = jest.fn<(query: string, stats: IndexStats | IndexSnapshot) => Promise<IndexSearchResult>>();
+const mockBatchGetEvents = jest.fn<(eventIds: string[]) => Promise<Event[]>>();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/lib-dynamodb')>('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+  };
+});
+
+jest.mock('../../business-logic/search-index', () => ({
+  getIndexStats: () => mockGetIndexStats(),
+  searchIndex: (query: string, stats: IndexStats | IndexSnapshot) => mockSearchIndex(query, stats),
+}));
+
+jest.mock('../../../../shared/utils/dynamodb.utils', () => ({
+  batchGetEvents: (eventIds: string[]) => mockBatchGetEvents(eventIds),
+  dynamoDBItemToEvent: (item: Record<string, any>) => item,
+}));
+
+import { handler } from '../searchEvents';
+
+const STATS: IndexStats = { documentCount: 10, totalLength: 200 };
+const SNAPSHOT: IndexSnapshot = { ...STATS, words: [[['robot', 1, 3]]] };
+
+function event(id: string, startDateTime: string): Event {
+  return {
+    id,
+    title: `Event ${id}`,
+    startDateTime,
+    status: EventStatus.PUBLISHED,
+    category: EventCategory.ACADEMIC,
+    location: { name: 'Hall', building: 'Chemistry', address: 'Campus Drive' },
+    tags: ['robotics'],
+    capacity: 50,
+    registeredCount: 0,
+  } as unknown as Event;
+}
+
+function search(input: SearchQueryInput): Promise<SearchResult> {
+  return handler(
+    { arguments: { input } } as AppSyncResolverEvent<{ input: SearchQueryInput }>,
+    { awsRequestId: 'request-1' } as Context
+  );
+}
+
+/**
+ * Fetch every page of a search, returning the IDs in the order they were served
+ */
+async function collectPages(input: SearchQueryInput, beforeEachPage?: (page: number) => void): Promise<string[]> {
+  const ids: string[] = [];
+  let nextToken: string | undefined;
+  let page = 0;
+
+  do {
+    beforeEachPage?.(page++);
+    const result = await search({ ...input, pagination: { limit: 2, nextToken } });
+    ids.push(...result.items.map((item) => item.id));
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return ids;
+}
+
+describe('searchEvents pagination', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockGetIndexStats.mockReset().mockResolvedValue(STATS);
+    mockSearchIndex.mockReset();
+    mockBatchGetEvents.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('relevance order', () => {
+    const events = ['evt-a', 'evt-b', 'evt-c', 'evt-d', 'evt-e'].map((id) => event(id, '2099-01-01T15:00:00.000Z'));
+
+    beforeEach(() => {
+      mockBatchGetEvents.mockImplementation(async (ids) => events.filter((item) => ids.includes(item.id)));
+    });
+
+    it('scores later pages against the snapshot in the cursor', async () => {
+      mockSearchIndex.mockResolvedValue({
+        matches: [
+          { eventId: 'evt-a', score: 5 },
+          { eventId: 'evt-b', score: 4 },
+          { eventId: 'evt-c', score: 3 },
+        ],
+        snapshot: SNAPSHOT,
+      });
+
+      const first = await search({ query: 'robot', pagination: { limit: 2 } });
+      const second = await search({ query: 'robot', pagination: { limit: 2, nextToken: first.nextToken } });
+
+      expect(first.items.map((item) => item.id)).toEqual(['evt-a', 'evt-b']);
+      expect(second.items.map((item) => item.id)).toEqual(['evt-c']);
+      expect(second.nextToken).toBeUndefined();
+      expect(mockGetIndexStats).toHaveBeenCalledTimes(1);
+      expect(mockSearchIndex).toHaveBeenLastCalledWith('robot', SNAPSHOT);
+    });
+
+    it('neither repeats nor skips results when events are indexed between pages', async () => {
+      const matches = [
+        { eventId: 'evt-a', score: 5 },
+        { eventId: 'evt-b', score: 4 },
+        { eventId: 'evt-c', score: 3 },
+        { eventId: 'evt-d', score: 2 },
+      ];
+
+      const ids = await collectPages({ query: 'robot' }, (page) => {
+        // A better match is indexed after the first page was served
+        const current = page === 0 ? matches : [{ eventId: 'evt-e', score: 9 }, ...matches];
+        mockSearchIndex.mockResolvedValueOnce({ matches: current, snapshot: SNAPSHOT });
+      });
+
+      expect(ids).toEqual(['evt-a', 'evt-b', 'evt-c', 'evt-d']);
+    });
+
+    it('breaks score ties by event ID', async () => {
+      mockSearchIndex.mockResolvedValue({
+        matches: ['evt-d', 'evt-b', 'evt-c', 'evt-a'].map((eventId) => ({ eventId, score: 1 })),
+        snapshot: SNAPSHOT,
+      });
+
+      expect(await collectPages({ query: 'robot' })).toEqual(['evt-a', 'evt-b', 'evt-c', 'evt-d']);
+    });
+  });
+
+  describe('date order', () => {
+    it('neither repeats nor skips results when events are added before the cursor', async () => {
+      const events = [
+        event('evt-1', '2099-01-01T15:00:00.000Z'),
+        event('evt-2', '2099-01-02T15:00:00.000Z'),
+        event('evt-3', '2099-01-03T15:00:00.000Z'),
+        event('evt-4', '2099-01-04T15:00:00.000Z'),
+      ];
+
+      const ids = await collectPages({ query: '' }, (page) => {
+        const current = page === 0 ? events : [event('evt-0', '2098-12-31T15:00:00.000Z'), ...events];
+        mockSend.mockResolvedValueOnce({ Items: current });
+      });
+
+      expect(ids).toEqual(['evt-1', 'evt-2', 'evt-3', 'evt-4']);
+    });
+  });
+
+  describe('cursor validation', () => {
+    beforeEach(() => {
+      mockSearchIndex.mockResolvedValue({
+        matches: ['evt-a', 'evt-b', 'evt-c'].map((eventId) => ({ eventId, score: 1 })),
+        snapshot: SNAPSHOT,
+      });
+      mockBatchGetEvents.mockImplementation(async (ids) => ids.map((id) => event(id, '2099-01-01T15:00:00.000Z')));
+    });
+
+    async function firstPageCursor(): Promise<Record<string, any>> {
+      const first = await search({ query: 'robot', pagination: { limit: 2 } });
+      return JSON.parse(Buffer.from(first.nextToken!, 'base64url').toString());
+    }
+
+    function encode(cursor: Record<string, any>): string {
+      return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    it('rejects a token that is not a cursor', async () => {
+      await expect(search({ query: 'robot', pagination: { nextToken: 'not-a-cursor' } })).rejects.toThrow(
+        'Invalid pagination token'
+      );
+    });
+
+    it('rejects a cursor from a different search', async () => {
+      const nextToken = encode(await firstPageCursor());
+
+      await expect(search({ query: 'chemistry', pagination: { limit: 2, nextToken } })).rejects.toThrow(
+        'does not belong to this search'
+      );
+    });
+
+    it('rejects a cursor with a malformed index snapshot', async () => {
+      const nextToken = encode({ ...(await firstPageCursor()), s: { documentCount: 'ten', words: [] } });
+
+      await expect(search({ query: 'robot', pagination: { limit: 2, nextToken } })).rejects.toThrow(
+        'Invalid pagination token'
+      );
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Create Calendar Feed Lambda Handler
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { CalendarFeed } from '../../../shared/types/event.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { createCalendarFeed } from '../business-logic/calendar-feeds';
+
+/**
+ * Lambda handler for createCalendarFeed mutation
+ * Issues a new personal feed URL; the previous URL stops working
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<CalendarFeed> {
+  console.log('CreateCalendarFeed handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Create the feed, revoking the previous token
+    return await createCalendarFeed(userId);
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
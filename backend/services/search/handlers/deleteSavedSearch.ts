@@ -0,0 +1,68 @@
+/**
+ * Delete Saved Search Lambda Handler
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { deleteSavedSearch, getSavedSearch } from '../business-logic/saved-searches';
+
+/**
+ * Lambda handler for deleteSavedSearch mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string }>,
+  context: Context
+): Promise<boolean> {
+  console.log('DeleteSavedSearch handler invoked', {
+    requestId: context.awsRequestId,
+    savedSearchId: event.arguments.id,
+  });
+
+  try {
+    const { id } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Check the saved search exists
+    const existing = await getSavedSearch(userId, id);
+    if (!existing) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Saved search not found',
+        })
+      );
+    }
+
+    // 3. Delete it
+    await deleteSavedSearch(userId, id);
+
+    console.log('Saved search deleted', { savedSearchId: id });
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -203,5 +203,6 @@ function transformToCalendarEvent(event: Event): CalendarEvent {
     availableSeats: event.availableSeats || 0,
     category: event.category,
     status: event.status,
+    seriesId: event.seriesId,
   };
 }
@@ -0,0 +1,47 @@
+/**
+ * Category Calendar Feed Lambda Handler
+ * GET /calendar/feeds/categories/{file}, where file is <category>.ics
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { EventCategory } from '../../../shared/types/common';
+import { errorResponse } from '../../../shared/utils/response';
+import { buildCalendar, calendarResponse, getCategoryLabel, stripIcsExtension } from '../business-logic/ical';
+import { listCategoryFeedEvents } from '../business-logic/calendar-feeds';
+
+/**
+ * Lambda handler for public category feeds
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> {
+  const category = stripIcsExtension(event.pathParameters?.file).toUpperCase() as EventCategory;
+
+  console.log('GetCategoryCalendarFeed handler invoked', {
+    requestId: context.awsRequestId,
+    category,
+  });
+
+  try {
+    if (!Object.values(EventCategory).includes(category)) {
+      return errorResponse('Unknown category', 404);
+    }
+
+    const events = await listCategoryFeedEvents(category);
+    const label = getCategoryLabel(category);
+
+    return calendarResponse(
+      buildCalendar(
+        {
+          name: `Terrapin Events: ${label}`,
+          description: `${label} events on Terrapin Events`,
+        },
+        events
+      )
+    );
+  } catch (error) {
+    console.error('Error building category calendar feed:', error);
+    return errorResponse('Internal server error', 500);
+  }
+}
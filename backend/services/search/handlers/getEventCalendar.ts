@@ -0,0 +1,40 @@
+/**
+ * Event .ics Download Lambda Handler
+ * GET /calendar/events/{file}, where file is <eventId>.ics
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { getEvent } from '../../../shared/utils/dynamodb.utils';
+import { errorResponse } from '../../../shared/utils/response';
+import { buildCalendar, calendarResponse, isCalendarVisible, stripIcsExtension } from '../business-logic/ical';
+
+/**
+ * Lambda handler for single event downloads
+ * Public: only published (or published, then cancelled) events are served
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> {
+  const eventId = stripIcsExtension(event.pathParameters?.file);
+
+  console.log('GetEventCalendar handler invoked', {
+    requestId: context.awsRequestId,
+    eventId,
+  });
+
+  try {
+    const calendarEvent = eventId ? await getEvent(eventId) : null;
+
+    if (!calendarEvent || !isCalendarVisible(calendarEvent)) {
+      return errorResponse('Event not found', 404);
+    }
+
+    const body = buildCalendar({ name: calendarEvent.title }, [calendarEvent]);
+
+    return calendarResponse(body, `${calendarEvent.slug || calendarEvent.id}.ics`);
+  } catch (error) {
+    console.error('Error building event calendar:', error);
+    return errorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Get My Calendar Feed Lambda Handler
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { CalendarFeed } from '../../../shared/types/event.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { getCalendarFeed } from '../business-logic/calendar-feeds';
+
+/**
+ * Lambda handler for myCalendarFeed query
+ * Returns when the caller's personal feed was created, or null if they have none
+ * The URL itself is only shown by createCalendarFeed
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<CalendarFeed | null> {
+  console.log('GetMyCalendarFeed handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Load the feed
+    return await getCalendarFeed(userId);
+  } catch (error) {
+    console.error('Error getting calendar feed:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Personal Calendar Feed Lambda Handler
+ * GET /calendar/feeds/users/{file}, where file is <token>.ics
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { errorResponse } from '../../../shared/utils/response';
+import { buildCalendar, calendarResponse, stripIcsExtension } from '../business-logic/ical';
+import { listPersonalFeedEvents, resolveFeedToken } from '../business-logic/calendar-feeds';
+
+/**
+ * Lambda handler for personal subscription feeds
+ * Calendar apps cannot sign in, so the secret token in the URL is the credential
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> {
+  // The token is a credential: never log it
+  console.log('GetUserCalendarFeed handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    const userId = await resolveFeedToken(stripIcsExtension(event.pathParameters?.file));
+
+    // Unknown and revoked tokens look the same
+    if (!userId) {
+      return errorResponse('Calendar feed not found', 404);
+    }
+
+    const events = await listPersonalFeedEvents(userId);
+
+    console.log(`Serving ${events.length} events on personal feed of user ${userId}`);
+
+    return calendarResponse(
+      buildCalendar(
+        {
+          name: 'My Terrapin Events',
+          description: 'Events you are registered for on Terrapin Events',
+        },
+        events
+      )
+    );
+  } catch (error) {
+    console.error('Error building personal calendar feed:', error);
+    return errorResponse('Internal server error', 500);
+  }
+}
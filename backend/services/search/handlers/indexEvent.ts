@@ -0,0 +1,41 @@
+/**
+ * Index Event Lambda Handler
+ * EventBridge handler that keeps the search index in step with event changes
+ */
+
+import { EventBridgeEvent } from 'aws-lambda';
+import { EventDomainEvent } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import { getEvent } from '../../../shared/utils/dynamodb.utils';
+import { indexEvent, removeEventFromIndex } from '../business-logic/search-index';
+
+/**
+ * Lambda handler for EVENT_CREATED, EVENT_UPDATED, EVENT_PUBLISHED and EVENT_CANCELLED
+ * The event is re-read from the table, so retries and out-of-order delivery index the latest version
+ */
+export async function handler(
+  event: EventBridgeEvent<string, EventDomainEvent>
+): Promise<void> {
+  console.log('Index event handler invoked', {
+    detailType: event['detail-type'],
+    eventId: event.detail.eventId,
+  });
+
+  try {
+    const { eventId } = event.detail;
+    const current = await getEvent(eventId);
+
+    if (!current || current.status === EventStatus.CANCELLED) {
+      await removeEventFromIndex(eventId);
+      console.log(`Removed event ${eventId} from search index`);
+      return;
+    }
+
+    await indexEvent(current);
+    console.log(`Indexed event ${eventId}`);
+  } catch (error) {
+    console.error('Search indexing error:', error);
+    // Rethrow so EventBridge retries the delivery
+    throw error;
+  }
+}
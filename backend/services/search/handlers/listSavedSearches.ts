@@ -0,0 +1,54 @@
+/**
+ * List Saved Searches Lambda Handler
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { SavedSearch } from '../../../shared/types/event.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { listSavedSearches, toSavedSearch } from '../business-logic/saved-searches';
+
+/**
+ * Lambda handler for listSavedSearches query
+ * Returns the caller's saved searches, newest first
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<SavedSearch[]> {
+  console.log('ListSavedSearches handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Load the saved searches
+    const savedSearches = await listSavedSearches(userId);
+
+    return savedSearches.map(toSavedSearch);
+  } catch (error) {
+    console.error('Error listing saved searches:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Match Saved Searches Lambda Handler
+ * EventBridge handler that checks newly published events against saved searches with alerts
+ * and hands the matches to the notifications service
+ */
+
+import { EventBridgeEvent } from 'aws-lambda';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { EventDomainEvent, SavedSearch, SavedSearchMatchedDetail } from '../../../shared/types/event.types';
+import { EventStatus } from '../../../shared/types/common';
+import { getEvent } from '../../../shared/utils/dynamodb.utils';
+import { matchesFilters, matchesQueryText } from '../business-logic/search-filters';
+import {
+  claimAlert,
+  listAlertingSavedSearches,
+  recordAlertSent,
+  releaseAlert,
+} from '../business-logic/saved-searches';
+
+const eventBridge = new EventBridgeClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const NOTIFICATION_BUS_NAME = process.env.NOTIFICATION_BUS_NAME!;
+// Source the notifications service subscribes to
+const NOTIFICATION_SOURCE = 'tems.search';
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
+
+// EventBridge allows max 10 events per PutEvents call
+const PUT_EVENTS_BATCH_SIZE = 10;
+
+/**
+ * Lambda handler for EVENT_PUBLISHED
+ * Each saved search alerts once per event, and once per series for recurring events.
+ * Alerts are claimed before publishing and released if publishing fails, so a
+ * retried delivery sends the alerts that did not go out.
+ */
+export async function handler(
+  event: EventBridgeEvent<string, EventDomainEvent>
+): Promise<void> {
+  console.log('Match saved searches handler invoked', {
+    detailType: event['detail-type'],
+    eventId: event.detail.eventId,
+  });
+
+  try {
+    // 1. Re-read the event, it may have changed since it was published
+    const published = await getEvent(event.detail.eventId);
+
+    if (!published || published.status !== EventStatus.PUBLISHED) {
+      console.log(`Event ${event.detail.eventId} is no longer published, skipping`);
+      return;
+    }
+
+    // 2. Find the saved searches the event matches
+    const savedSearches = await listAlertingSavedSearches();
+    const matching = savedSearches.filter(
+      savedSearch =>
+        savedSearch.userId !== published.organizerId &&
+        matchesFilters(published, savedSearch.search.filters || {}) &&
+        matchesQueryText(published, savedSearch.search.query || '')
+    );
+
+    // 3. Claim the alert for saved searches that have not alerted about this event or series
+    const alertKey = published.seriesId || published.id;
+    const claimed: SavedSearch[] = [];
+    const details: SavedSearchMatchedDetail[] = [];
+    const startDate = new Date(published.startDateTime);
+    const timestamp = new Date().toISOString();
+
+    for (const savedSearch of matching) {
+      let isNew: boolean;
+      try {
+        isNew = await claimAlert(savedSearch, alertKey);
+      } catch (error) {
+        await Promise.all(claimed.map(claimedSearch => releaseAlert(claimedSearch, alertKey)));
+        throw error;
+      }
+
+      if (!isNew) {
+        continue;
+      }
+
+      claimed.push(savedSearch);
+      details.push({
+        eventId: published.id,
+        eventTitle: published.title,
+        eventDate: startDate.toLocaleDateString('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+          timeZone: EVENT_TIMEZONE,
+        }),
+        eventTime: startDate.toLocaleTimeString('en-US', {
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true,
+          timeZone: EVENT_TIMEZONE,
+        }),
+        eventLocation: published.location?.building || '',
+        savedSearchId: savedSearch.id,
+        savedSearchName: savedSearch.name,
+        userId: savedSearch.userId,
+        userEmail: savedSearch.userEmail,
+        userName: savedSearch.userName,
+        timestamp,
+      });
+    }
+
+    // 4. Publish one SavedSearchMatched per saved search
+    for (let i = 0; i < details.length; i += PUT_EVENTS_BATCH_SIZE) {
+      const batch = claimed.slice(i, i + PUT_EVENTS_BATCH_SIZE);
+      let failed: SavedSearch[] = [];
+
+      try {
+        const response = await eventBridge.send(
+          new PutEventsCommand({
+            Entries: details.slice(i, i + PUT_EVENTS_BATCH_SIZE).map(detail => ({
+              Source: NOTIFICATION_SOURCE,
+              DetailType: 'SavedSearchMatched',
+              Detail: JSON.stringify(detail),
+              EventBusName: NOTIFICATION_BUS_NAME,
+            })),
+          })
+        );
+
+        if (response.FailedEntryCount && response.FailedEntryCount > 0) {
+          console.error('Failed to publish saved search matches:', response.Entries);
+          failed = batch.filter((_, index) => response.Entries?.[index]?.ErrorCode);
+        }
+      } catch (error) {
+        console.error('Failed to publish saved search matches:', error);
+        failed = batch;
+      }
+
+      if (failed.length > 0) {
+        // Release the claims so EventBridge's retry sends these and the later batches
+        const unsent = [...failed, ...claimed.slice(i + PUT_EVENTS_BATCH_SIZE)];
+        await Promise.all(unsent.map(savedSearch => releaseAlert(savedSearch, alertKey)));
+        throw new Error('Failed to publish saved search matches to EventBridge');
+      }
+
+      for (const savedSearch of batch) {
+        await recordAlertSent(savedSearch, timestamp);
+      }
+    }
+
+    console.log('Saved searches matched', {
+      eventId: published.id,
+      alertingSearches: savedSearches.length,
+      matched: matching.length,
+      alerted: details.length,
+    });
+  } catch (error) {
+    console.error('Saved search matching error:', error);
+    // Rethrow so EventBridge retries the delivery
+    throw error;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Rebuild Search Index Lambda Handler
+ * Manually invoked backfill that indexes every event, e.g. after first deploying the index
+ * Also writes the geo index keys of events created before radius search existed
+ */
+
+import { Context } from 'aws-lambda';
+import { EventStatus } from '../../../shared/types/common';
+import { queryEventsByDateRange, setEventGeoKeys } from '../../../shared/utils/dynamodb.utils';
+import { indexEvent, removeEventFromIndex } from '../business-logic/search-index';
+
+interface RebuildSearchIndexInput {
+  startDate?: string; // Only events starting on or after this date (default: all)
+}
+
+/**
+ * Lambda handler for rebuilding the search index
+ * Safe to run repeatedly: indexing is idempotent
+ */
+export async function handler(
+  input: RebuildSearchIndexInput,
+  context: Context
+): Promise<{ indexed: number; removed: number }> {
+  console.log('Rebuild search index handler invoked', {
+    requestId: context.awsRequestId,
+    startDate: input?.startDate,
+  });
+
+  let indexed = 0;
+  let removed = 0;
+  let nextToken: string | undefined;
+
+  do {
+    const page = await queryEventsByDateRange(input?.startDate || '0000', undefined, 100, nextToken);
+
+    for (const event of page.items) {
+      if (event.status === EventStatus.CANCELLED) {
+        await removeEventFromIndex(event.id);
+        removed++;
+      } else {
+        await indexEvent(event);
+        indexed++;
+      }
+
+      if (!event.GSI4PK) {
+        await setEventGeoKeys(event);
+      }
+    }
+
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  console.log('Search index rebuilt', { indexed, removed });
+
+  return { indexed, removed };
+}
@@ -0,0 +1,71 @@
+/**
+ * Recommended Events Lambda Handler
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { RecommendedEvent } from '../../../shared/types/event.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { recommendEvents } from '../business-logic/recommendations';
+
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 20;
+
+/**
+ * Lambda handler for recommendedEvents query
+ * Returns upcoming events picked for the caller, best match first
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ limit?: number }>,
+  context: Context
+): Promise<RecommendedEvent[]> {
+  console.log('RecommendedEvents handler invoked', {
+    requestId: context.awsRequestId,
+    limit: event.arguments.limit,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Validate limit
+    const limit = event.arguments.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          message: `Limit must be between 1 and ${MAX_LIMIT}`,
+        })
+      );
+    }
+
+    // 3. Score upcoming events
+    const recommendations = await recommendEvents(userId, limit);
+
+    console.log(`Recommending ${recommendations.length} events to user ${userId}`);
+
+    return recommendations;
+  } catch (error) {
+    console.error('Error recommending events:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
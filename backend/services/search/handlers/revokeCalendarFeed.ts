@@ -0,0 +1,51 @@
+/**
+ * Revoke Calendar Feed Lambda Handler
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { revokeCalendarFeed } from '../business-logic/calendar-feeds';
+
+/**
+ * Lambda handler for revokeCalendarFeed mutation
+ * Stops the personal feed URL from working; returns false if there was none
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<boolean> {
+  console.log('RevokeCalendarFeed handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Revoke the feed
+    return await revokeCalendarFeed(userId);
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
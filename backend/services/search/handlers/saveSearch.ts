@@ -0,0 +1,94 @@
+/**
+ * Save Search Lambda Handler
+ * Stores a search from the search page under a name, optionally with new-match alerts
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { SavedSearch, SaveSearchInput } from '../../../shared/types/event.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import {
+  MAX_SAVED_SEARCHES_PER_USER,
+  createSavedSearch,
+  listSavedSearches,
+  toSavedSearch,
+  validateSavedSearch,
+} from '../business-logic/saved-searches';
+
+/**
+ * Lambda handler for saveSearch mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ input: SaveSearchInput }>,
+  context: Context
+): Promise<SavedSearch> {
+  console.log('SaveSearch handler invoked', {
+    requestId: context.awsRequestId,
+    name: event.arguments.input.name,
+  });
+
+  try {
+    const input = event.arguments.input;
+
+    // 1. Get user from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    const identity = event.identity as any;
+    const userEmail = identity.claims?.email || identity.username;
+    const userName = identity.claims?.name || identity.claims?.['cognito:username'] || 'User';
+
+    // 2. Validate input
+    const validationError = validateSavedSearch(input.name, input.search);
+    if (validationError) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          message: validationError,
+        })
+      );
+    }
+
+    // 3. Enforce the per-user limit
+    const existing = await listSavedSearches(userId);
+    if (existing.length >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new Error(
+        JSON.stringify({
+          type: 'BUSINESS_RULE_ERROR',
+          message: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches. Delete one to save another.`,
+        })
+      );
+    }
+
+    // 4. Store the saved search
+    const savedSearch = await createSavedSearch(userId, { email: userEmail, name: userName }, input);
+
+    console.log('Search saved', {
+      savedSearchId: savedSearch.id,
+      alertsEnabled: savedSearch.alertsEnabled,
+    });
+
+    return toSavedSearch(savedSearch);
+  } catch (error) {
+    console.error('Error saving search:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
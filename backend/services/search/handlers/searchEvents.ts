@@ -1,9 +1,13 @@
 import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { createHash } from 'crypto';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, QueryCommandInput } from '@aws-sdk/lib-dynamodb';
 import {
   SearchQueryInput,
   SearchResult,
+  SearchFilters,
+  GeoRadiusFilter,
+  SortInput,
   Event,
   SearchFacets,
   FacetCount,
@@ -12,14 +16,54 @@ import {
   normalizeSearchQuery,
   calculateRelevanceScore,
 } from '../../../shared/utils/slug.utils';
+import { batchGetEvents, dynamoDBItemToEvent } from '../../../shared/utils/dynamodb.utils';
 import { EventStatus } from '../../../shared/types/common';
+import { getIndexStats, searchIndex, IndexSnapshot } from '../business-logic/search-index';
+import { matchesFilters, DEFAULT_END_DATE } from '../business-logic/search-filters';
+import {
+  distanceInMeters,
+  geohashCoverage,
+  geohashPartition,
+  isValidCoordinates,
+  GEOHASH_PARTITION_PRECISION,
+  MAX_SEARCH_RADIUS_METERS,
+} from '../../../shared/utils/geo.utils';
 
 const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
 
+// Upper bound on events read per search; totals and facets are exact below it
+const MAX_CANDIDATES = 5000;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Position after the last returned item: its sort value and ID, plus a fingerprint
+ * of the query so a cursor cannot be replayed against a different search.
+ * Text searches also carry the index snapshot their scores were computed against
+ */
+interface SearchCursor {
+  v: 1;
+  q: string;
+  k: [number | string, string];
+  s?: IndexSnapshot;
+}
+
+type SortKey = [number | string, string];
+
+type ScoredEvent = Event & { _relevanceScore: number; _distanceMeters: number };
+
 /**
  * Lambda handler for searchEvents query
- * Implements efficient search using GSIs with optional full-text filtering
+ * Text queries go through the inverted search index (BM25 ranking, prefix and typo matching);
+ * filter-only queries use the GSIs, radius filters the geohash index (GSI4)
+ *
+ * Whatever index is read, the same filters are applied to every candidate, so results,
+ * totals and facets do not depend on the strategy. Results are ordered by the sort field
+ * with the event ID as tie-breaker, and nextToken is a cursor on that order. Events added
+ * or removed between page fetches never cause skipped or repeated results (an event
+ * rescheduled or edited across the cursor can still move pages). Later pages of a text
+ * search are scored against the index statistics captured in the cursor, so relevance
+ * scores of unchanged events stay put while other events are indexed.
  */
 export async function handler(
   event: AppSyncResolverEvent<{ input: SearchQueryInput }>,
@@ -33,42 +77,62 @@ export async function handler(
   try {
     const input = event.arguments.input;
     const normalizedQuery = input.query ? normalizeSearchQuery(input.query) : '';
-    
+    const filters = input.filters || {};
+
     // Default pagination
-    const limit = input.pagination?.limit || 20;
-    const nextToken = input.pagination?.nextToken;
-
-    // Determine optimal query strategy based on filters
-    let events: Event[] = [];
-    
-    if (input.filters?.locations && input.filters.locations.length > 0) {
-      // Strategy 1: Use GSI3 for location-based queries
-      events = await queryByLocations(input.filters.locations, input.filters);
-    } else if (input.filters?.categories && input.filters.categories.length === 1) {
-      // Strategy 2: Use GSI2 for single category queries
-      events = await queryByCategory(input.filters.categories[0], input.filters);
+    const limit = Math.min(Math.max(input.pagination?.limit || 20, 1), MAX_PAGE_SIZE);
+    const sortField = input.sort?.field || (normalizedQuery ? 'relevance' : 'startDateTime');
+    const sortOrder = input.sort?.order || 'asc';
+    validateGeoSearch(filters.radius, sortField);
+    const fingerprint = fingerprintQuery(normalizedQuery, filters, sortField, sortOrder);
+    const cursor = input.pagination?.nextToken
+      ? decodeCursor(input.pagination.nextToken, fingerprint)
+      : null;
+
+    // 1. Load candidates from the best-suited index
+    let candidates: Event[];
+    let relevanceScores: Map<string, number> | undefined;
+    let indexSnapshot: IndexSnapshot | undefined;
+    const indexStats = cursor?.s || (normalizedQuery ? await getIndexStats() : undefined);
+
+    if (normalizedQuery && indexStats && indexStats.documentCount > 0) {
+      // Strategy 0: Full-text index for text queries
+      const search = await searchIndex(input.query, indexStats);
+      const matches = search.matches.slice(0, MAX_CANDIDATES);
+      indexSnapshot = search.snapshot;
+      relevanceScores = new Map(matches.map(match => [match.eventId, match.score]));
+      candidates = await batchGetEvents(matches.map(match => match.eventId));
+    } else if (filters.radius) {
+      // Strategy 1: Use GSI4 for radius queries
+      candidates = await queryByRadius(filters.radius);
+    } else if (filters.locations && filters.locations.length > 0) {
+      // Strategy 2: Use GSI3 for location-based queries
+      candidates = await queryByLocations(filters.locations);
+    } else if (filters.categories && filters.categories.length > 0) {
+      // Strategy 3: Use GSI2 for category queries
+      candidates = await queryByCategories(filters.categories, filters);
     } else {
-      // Strategy 3: Use GSI1 for date-based queries (most efficient default)
-      events = await queryByDateRange(input.filters);
+      // Strategy 4: Use GSI1 for date-based queries (most efficient default)
+      candidates = await queryByDateRange(filters);
     }
 
-    // Apply full-text search filter if query provided
-    if (normalizedQuery) {
-      events = events.filter(evt => 
+    // 2. Apply every filter to every candidate, whichever index they came from
+    let events = deduplicateEvents(candidates).filter(evt => matchesFilters(evt, filters));
+
+    // Substring match until the search index has been built
+    if (normalizedQuery && !relevanceScores) {
+      events = events.filter(evt =>
         evt.searchTerms && evt.searchTerms.toLowerCase().includes(normalizedQuery)
       );
     }
 
-    // Apply additional filters
-    events = applyFilters(events, input.filters);
+    // 3. Score and sort the full result set
+    const scoredEvents = scoreAndSortEvents(events, normalizedQuery, filters.radius, sortField, sortOrder, relevanceScores);
 
-    // Score and sort events by relevance
-    const scoredEvents = scoreAndSortEvents(events, normalizedQuery, input.sort);
+    // 4. Page from the cursor position
+    const paginatedResults = paginateResults(scoredEvents, limit, sortField, sortOrder, fingerprint, cursor, indexSnapshot);
 
-    // Paginate results
-    const paginatedResults = paginateResults(scoredEvents, limit, nextToken);
-
-    // Calculate facets from all matching results
+    // 5. Facets over the full result set
     const facets = calculateFacets(events);
 
     console.log('Search completed', {
@@ -91,7 +155,12 @@ export async function handler(
       tableName: TABLE_NAME,
       input: event.arguments.input,
     });
-    
+
+    // Invalid cursors are reported to the caller
+    if (error instanceof Error && error.message.startsWith('{')) {
+      throw error;
+    }
+
     // Return empty result instead of throwing to prevent GraphQL null errors
     return {
       items: [],
@@ -110,172 +179,249 @@ export async function handler(
  * Query events by date range using GSI1
  * This is the most efficient default strategy
  */
-async function queryByDateRange(
-  filters?: any
-): Promise<Event[]> {
-  const now = new Date().toISOString();
-  const startDate = filters?.startDateAfter || now;
-  const endDate = filters?.startDateBefore || '2099-12-31T23:59:59Z';
+async function queryByDateRange(filters: SearchFilters): Promise<Event[]> {
+  const startDate = filters.startDateAfter || new Date().toISOString();
+  const endDate = filters.startDateBefore || DEFAULT_END_DATE;
 
   console.log('Querying by date range', { startDate, endDate });
 
-  const result = await client.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK BETWEEN :start AND :end',
-      FilterExpression: '#status = :status',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-      },
-      ExpressionAttributeValues: {
-        ':pk': 'EVENT#DATE',
-        ':start': startDate,
-        ':end': endDate,
-        ':status': EventStatus.PUBLISHED,
-      },
-      Limit: 100, // Get more results for filtering
-    })
-  );
-
-  return (result.Items || []) as Event[];
+  return queryAllPages({
+    TableName: TABLE_NAME,
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK BETWEEN :start AND :end',
+    FilterExpression: '#status = :status',
+    ExpressionAttributeNames: {
+      '#status': 'status',
+    },
+    ExpressionAttributeValues: {
+      ':pk': 'EVENT#DATE',
+      ':start': startDate,
+      ':end': endDate,
+      ':status': EventStatus.PUBLISHED,
+    },
+  });
 }
 
 /**
- * Query events by category using GSI2
+ * Query events by category using GSI2 (one query per category)
  */
-async function queryByCategory(
-  category: string,
-  filters?: any
+async function queryByCategories(
+  categories: string[],
+  filters: SearchFilters
 ): Promise<Event[]> {
-  const now = new Date().toISOString();
-  const startDate = filters?.startDateAfter || now;
-  const endDate = filters?.startDateBefore || '2099-12-31T23:59:59Z';
-
-  console.log('Querying by category', { category, startDate, endDate });
-
-  const result = await client.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI2',
-      KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK BETWEEN :start AND :end',
-      FilterExpression: '#status = :status',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-      },
-      ExpressionAttributeValues: {
-        ':pk': `EVENT#CATEGORY#${category}`,
-        ':start': startDate,
-        ':end': endDate,
-        ':status': EventStatus.PUBLISHED,
-      },
-      Limit: 100,
-    })
+  const startDate = filters.startDateAfter || new Date().toISOString();
+  const endDate = filters.startDateBefore || DEFAULT_END_DATE;
+
+  console.log('Querying by categories', { categories, startDate, endDate });
+
+  const categoryResults = await Promise.all(
+    categories.map(category =>
+      queryAllPages({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK BETWEEN :start AND :end',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#CATEGORY#${category}`,
+          ':start': startDate,
+          ':end': endDate,
+          ':status': EventStatus.PUBLISHED,
+        },
+      })
+    )
   );
 
-  return (result.Items || []) as Event[];
+  return categoryResults.flat();
 }
 
 /**
- * Query events by location using GSI3
+ * Query events by location using GSI3 (one query per building)
  */
-async function queryByLocations(
-  locations: string[],
-  filters?: any
-): Promise<Event[]> {
+async function queryByLocations(locations: string[]): Promise<Event[]> {
   console.log('Querying by locations', { locations });
 
   const locationResults = await Promise.all(
     locations.map(building =>
-      client.send(
-        new QueryCommand({
-          TableName: TABLE_NAME,
-          IndexName: 'GSI3',
-          KeyConditionExpression: 'GSI3PK = :pk',
-          FilterExpression: '#status = :status',
-          ExpressionAttributeNames: {
-            '#status': 'status',
-          },
-          ExpressionAttributeValues: {
-            ':pk': `EVENT#LOCATION#${building}`,
-            ':status': EventStatus.PUBLISHED,
-          },
-          Limit: 100,
-        })
-      ).then(result => (result.Items || []) as Event[])
+      queryAllPages({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI3',
+        KeyConditionExpression: 'GSI3PK = :pk',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#LOCATION#${building}`,
+          ':status': EventStatus.PUBLISHED,
+        },
+      })
     )
   );
 
-  // Flatten and deduplicate
-  const allEvents = locationResults.flat();
-  return deduplicateEvents(allEvents);
+  return locationResults.flat();
 }
 
 /**
- * Apply additional filters to events
+ * Query events near a point using GSI4 (one query per covering geohash cell)
+ * Cells are a superset of the circle; matchesFilters applies the exact distance
  */
-function applyFilters(events: Event[], filters?: any): Event[] {
-  let filtered = events;
+async function queryByRadius(radius: GeoRadiusFilter): Promise<Event[]> {
+  const cells = geohashCoverage(radius, radius.distanceMeters);
+
+  console.log('Querying by radius', { radius, cells });
+
+  const cellResults = await Promise.all(
+    cells.map(cell =>
+      queryAllPages({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI4',
+        KeyConditionExpression: cell.length > GEOHASH_PARTITION_PRECISION
+          ? 'GSI4PK = :pk AND begins_with(GSI4SK, :cell)'
+          : 'GSI4PK = :pk',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#GEO#${geohashPartition(cell)}`,
+          ...(cell.length > GEOHASH_PARTITION_PRECISION ? { ':cell': cell } : {}),
+          ':status': EventStatus.PUBLISHED,
+        },
+      })
+    )
+  );
+
+  return cellResults.flat();
+}
 
-  // Category filter (when multiple categories or not used as primary query)
-  if (filters?.categories && filters.categories.length > 0) {
-    filtered = filtered.filter(event =>
-      filters.categories.includes(event.category)
+/**
+ * Read every page of a query, up to MAX_CANDIDATES events
+ */
+async function queryAllPages(queryInput: QueryCommandInput): Promise<Event[]> {
+  const events: Event[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await client.send(
+      new QueryCommand({
+        ...queryInput,
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
     );
+
+    events.push(...(result.Items || []).map(item => dynamoDBItemToEvent(item)));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey && events.length < MAX_CANDIDATES);
+
+  if (lastEvaluatedKey) {
+    console.warn('Search candidate limit reached', { limit: MAX_CANDIDATES });
   }
 
-  // Available seats filter
-  if (filters?.hasAvailableSeats) {
-    filtered = filtered.filter(event => 
-      (event.availableSeats || 0) > 0
+  return events;
+}
+
+/**
+ * Reject radius filters the geohash index cannot serve, and distance sorts without a center
+ */
+function validateGeoSearch(radius: GeoRadiusFilter | undefined, sortField: SortInput['field']): void {
+  if (
+    radius &&
+    (!isValidCoordinates(radius) ||
+      !(radius.distanceMeters > 0) ||
+      radius.distanceMeters > MAX_SEARCH_RADIUS_METERS)
+  ) {
+    throw new Error(
+      JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: `Radius must be a valid point and a distance between 0 and ${MAX_SEARCH_RADIUS_METERS} meters`,
+      })
     );
   }
 
-  // Tags filter
-  if (filters?.tags && filters.tags.length > 0) {
-    filtered = filtered.filter(event =>
-      filters.tags.some((tag: string) => event.tags.includes(tag))
+  if (sortField === 'distance' && !radius) {
+    throw new Error(
+      JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: 'Sorting by distance requires a radius filter',
+      })
     );
   }
-
-  return filtered;
 }
 
 /**
- * Score and sort events by relevance or date
+ * Score and sort events by relevance, distance or date, with the event ID as tie-breaker
  */
 function scoreAndSortEvents(
   events: Event[],
   query: string,
-  sort?: { field: string; order: string }
-): Event[] {
-  // Calculate relevance scores
+  radius: GeoRadiusFilter | undefined,
+  sortField: SortInput['field'],
+  sortOrder: SortInput['order'],
+  relevanceScores?: Map<string, number>
+): ScoredEvent[] {
+  // Use index scores when available, otherwise calculate relevance scores
   const scoredEvents = events.map(event => ({
     ...event,
-    _relevanceScore: query
-      ? calculateRelevanceScore(query, event.searchTerms || '', event.title)
+    _relevanceScore: relevanceScores
+      ? relevanceScores.get(event.id) || 0
+      : query
+        ? calculateRelevanceScore(query, event.searchTerms || '', event.title)
+        : 0,
+    _distanceMeters: radius && event.location.coordinates
+      ? Math.round(distanceInMeters(radius, event.location.coordinates))
       : 0,
   }));
 
-  // Sort
-  const sortField = sort?.field || (query ? 'relevance' : 'startDateTime');
-  const sortOrder = sort?.order || 'asc';
+  scoredEvents.sort((a, b) =>
+    compareSortKeys(sortKeyOf(a, sortField), sortKeyOf(b, sortField), sortField, sortOrder)
+  );
 
-  scoredEvents.sort((a, b) => {
-    let comparison = 0;
+  return scoredEvents;
+}
 
-    if (sortField === 'relevance') {
-      comparison = b._relevanceScore - a._relevanceScore;
-    } else if (sortField === 'startDateTime') {
-      comparison = new Date(a.startDateTime).getTime() - new Date(b.startDateTime).getTime();
-    } else if (sortField === 'createdAt') {
-      comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-    }
+function sortKeyOf(
+  event: ScoredEvent,
+  sortField: SortInput['field']
+): SortKey {
+  if (sortField === 'relevance') {
+    return [event._relevanceScore, event.id];
+  }
+  if (sortField === 'distance') {
+    return [event._distanceMeters, event.id];
+  }
+  if (sortField === 'createdAt') {
+    return [event.createdAt, event.id];
+  }
+  return [event.startDateTime, event.id];
+}
 
-    return sortOrder === 'desc' ? -comparison : comparison;
-  });
+/**
+ * Total order over sort keys
+ * Relevance sorts best match first and distance nearest first for 'asc'; ties are always broken by ascending ID
+ */
+function compareSortKeys(
+  a: SortKey,
+  b: SortKey,
+  sortField: SortInput['field'],
+  sortOrder: SortInput['order']
+): number {
+  let comparison = a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+
+  if (sortField === 'relevance') {
+    comparison = -comparison;
+  }
+  if (sortOrder === 'desc') {
+    comparison = -comparison;
+  }
 
-  return scoredEvents;
+  if (comparison === 0) {
+    comparison = a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+  }
+
+  return comparison;
 }
 
 /**
@@ -293,23 +439,116 @@ function deduplicateEvents(events: Event[]): Event[] {
 }
 
 /**
- * Paginate results using offset-based pagination
+ * Return the page after the cursor position
  */
 function paginateResults(
-  events: Event[],
+  events: ScoredEvent[],
   limit: number,
-  nextToken?: string
+  sortField: SortInput['field'],
+  sortOrder: SortInput['order'],
+  fingerprint: string,
+  cursor: SearchCursor | null,
+  indexSnapshot?: IndexSnapshot
 ): { items: Event[]; nextToken?: string } {
-  const startIndex = nextToken ? parseInt(Buffer.from(nextToken, 'base64').toString()) : 0;
-  const endIndex = startIndex + limit;
-  const items = events.slice(startIndex, endIndex);
-  
-  const hasMore = endIndex < events.length;
-  const newNextToken = hasMore
-    ? Buffer.from(endIndex.toString()).toString('base64')
+  const remaining = cursor
+    ? events.filter(event => compareSortKeys(sortKeyOf(event, sortField), cursor.k, sortField, sortOrder) > 0)
+    : events;
+
+  const items = remaining.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextToken = remaining.length > limit && last
+    ? encodeCursor({ v: 1, q: fingerprint, k: sortKeyOf(last, sortField), s: indexSnapshot })
     : undefined;
 
-  return { items, nextToken: newNextToken };
+  return { items, nextToken };
+}
+
+/**
+ * Hash of everything that defines the result order; dates default to "now" and are left out
+ */
+function fingerprintQuery(
+  query: string,
+  filters: SearchFilters,
+  sortField: string,
+  sortOrder: string
+): string {
+  const canonical = JSON.stringify({
+    query,
+    categories: [...(filters.categories || [])].sort(),
+    locations: [...(filters.locations || [])].sort(),
+    tags: [...(filters.tags || [])].sort(),
+    startDateAfter: filters.startDateAfter || null,
+    startDateBefore: filters.startDateBefore || null,
+    hasAvailableSeats: !!filters.hasAvailableSeats,
+    radius: filters.radius
+      ? [filters.radius.latitude, filters.radius.longitude, filters.radius.distanceMeters]
+      : null,
+    sortField,
+    sortOrder,
+  });
+
+  return createHash('sha256').update(canonical).digest('base64url').slice(0, 16);
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string, fingerprint: string): SearchCursor {
+  let cursor: SearchCursor | undefined;
+
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString());
+  } catch {
+    cursor = undefined;
+  }
+
+  if (
+    !cursor ||
+    cursor.v !== 1 ||
+    !Array.isArray(cursor.k) ||
+    cursor.k.length !== 2 ||
+    typeof cursor.k[1] !== 'string' ||
+    (cursor.s !== undefined && !isIndexSnapshot(cursor.s))
+  ) {
+    throw new Error(
+      JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: 'Invalid pagination token',
+      })
+    );
+  }
+
+  if (cursor.q !== fingerprint) {
+    throw new Error(
+      JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: 'Pagination token does not belong to this search; start again without nextToken',
+      })
+    );
+  }
+
+  return cursor;
+}
+
+function isIndexSnapshot(value: any): value is IndexSnapshot {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof value.documentCount === 'number' &&
+    typeof value.totalLength === 'number' &&
+    Array.isArray(value.words) &&
+    value.words.every((expansions: unknown) =>
+      Array.isArray(expansions) &&
+      expansions.every((expansion: unknown) =>
+        Array.isArray(expansion) &&
+        expansion.length === 3 &&
+        typeof expansion[0] === 'string' &&
+        typeof expansion[1] === 'number' &&
+        typeof expansion[2] === 'number'
+      )
+    )
+  );
 }
 
 /**
@@ -329,7 +568,7 @@ function calculateFacets(events: Event[]): SearchFacets {
     locations.set(building, (locations.get(building) || 0) + 1);
 
     // Tag facets
-    event.tags.forEach(tag => {
+    (event.tags || []).forEach(tag => {
       tags.set(tag, (tags.get(tag) || 0) + 1);
     });
   });
@@ -343,9 +582,10 @@ function calculateFacets(events: Event[]): SearchFacets {
 
 /**
  * Convert Map to FacetCount array
+ * Ties are ordered by value so facet lists are stable between requests
  */
 function mapToFacetCounts(map: Map<string, number>): FacetCount[] {
   return Array.from(map.entries())
     .map(([value, count]) => ({ value, count }))
-    .sort((a, b) => b.count - a.count);
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
 }
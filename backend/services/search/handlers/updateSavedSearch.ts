@@ -0,0 +1,90 @@
+/**
+ * Update Saved Search Lambda Handler
+ * Renames a saved search, replaces its query or turns its alerts on or off
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { SavedSearch, UpdateSavedSearchInput } from '../../../shared/types/event.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import {
+  getSavedSearch,
+  toSavedSearch,
+  updateSavedSearch,
+  validateSavedSearch,
+} from '../business-logic/saved-searches';
+
+/**
+ * Lambda handler for updateSavedSearch mutation
+ * Saved searches are only visible to their owner, so other users get NOT_FOUND
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string; input: UpdateSavedSearchInput }>,
+  context: Context
+): Promise<SavedSearch> {
+  console.log('UpdateSavedSearch handler invoked', {
+    requestId: context.awsRequestId,
+    savedSearchId: event.arguments.id,
+  });
+
+  try {
+    const { id, input } = event.arguments;
+
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(
+        JSON.stringify({
+          type: 'AUTHORIZATION_ERROR',
+          message: 'User not authenticated',
+        })
+      );
+    }
+
+    // 2. Validate input
+    const validationError = validateSavedSearch(input.name ?? undefined, input.search ?? undefined);
+    if (validationError) {
+      throw new Error(
+        JSON.stringify({
+          type: 'VALIDATION_ERROR',
+          message: validationError,
+        })
+      );
+    }
+
+    // 3. Get the saved search
+    const existing = await getSavedSearch(userId, id);
+    if (!existing) {
+      throw new Error(
+        JSON.stringify({
+          type: 'NOT_FOUND_ERROR',
+          message: 'Saved search not found',
+        })
+      );
+    }
+
+    // 4. Apply the changes
+    const updated = await updateSavedSearch(existing, input);
+
+    console.log('Saved search updated', {
+      savedSearchId: updated.id,
+      alertsEnabled: updated.alertsEnabled,
+    });
+
+    return toSavedSearch(updated);
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+
+    // Try to parse error as JSON (for validation and business rule errors)
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        // Not a JSON error, throw original
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
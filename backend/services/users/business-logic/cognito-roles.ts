@@ -0,0 +1,130 @@
+/**
+ * Cognito Role Sync
+ * Keeps a user's Cognito group, custom:role attribute and account state in line with TEMS roles
+ */
+
+import {
+  CognitoIdentityProviderClient,
+  AdminAddUserToGroupCommand,
+  AdminRemoveUserFromGroupCommand,
+  AdminListGroupsForUserCommand,
+  AdminUpdateUserAttributesCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+  AdminUserGlobalSignOutCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { UserRole } from '../../../shared/types/common';
+
+const cognitoClient = new CognitoIdentityProviderClient({});
+
+const USER_POOL_ID = process.env.COGNITO_USER_POOL_ID!;
+
+// Each role has a Cognito group of the same name, which is what resolvers read from cognito:groups
+const ROLE_GROUPS: string[] = Object.values(UserRole);
+
+/**
+ * Put the user in exactly one role group and update custom:role to match
+ * Every call is idempotent, so a failed role change can simply be retried
+ * @param userId - TEMS user ID (the Cognito username, since users sign in by email alias)
+ * @param role - New role
+ */
+export async function syncCognitoRole(userId: string, role: UserRole): Promise<void> {
+  // Add first so the user is never left without a role group
+  await cognitoClient.send(
+    new AdminAddUserToGroupCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+      GroupName: role,
+    })
+  );
+
+  const staleGroups = (await listGroupsForUser(userId))
+    .filter(group => ROLE_GROUPS.includes(group) && group !== role);
+
+  for (const group of staleGroups) {
+    await cognitoClient.send(
+      new AdminRemoveUserFromGroupCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: userId,
+        GroupName: group,
+      })
+    );
+  }
+
+  // The web app reads the role from the ID token
+  await cognitoClient.send(
+    new AdminUpdateUserAttributesCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+      UserAttributes: [{ Name: 'custom:role', Value: role }],
+    })
+  );
+
+  // Groups are baked into tokens, so make the user pick up the new role on next sign-in
+  await signOutEverywhere(userId);
+}
+
+/**
+ * Disable sign-in and revoke the user's refresh tokens
+ * Access tokens already issued stay valid until they expire (1 hour)
+ * @param userId - TEMS user ID
+ */
+export async function disableCognitoUser(userId: string): Promise<void> {
+  await cognitoClient.send(
+    new AdminDisableUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+    })
+  );
+
+  await signOutEverywhere(userId);
+}
+
+/**
+ * Allow a suspended user to sign in again
+ * @param userId - TEMS user ID
+ */
+export async function enableCognitoUser(userId: string): Promise<void> {
+  await cognitoClient.send(
+    new AdminEnableUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+    })
+  );
+}
+
+/**
+ * List every Cognito group the user belongs to
+ */
+async function listGroupsForUser(userId: string): Promise<string[]> {
+  const groups: string[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const result = await cognitoClient.send(
+      new AdminListGroupsForUserCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: userId,
+        NextToken: nextToken,
+      })
+    );
+
+    for (const group of result.Groups || []) {
+      if (group.GroupName) {
+        groups.push(group.GroupName);
+      }
+    }
+    nextToken = result.NextToken;
+  } while (nextToken);
+
+  return groups;
+}
+
+async function signOutEverywhere(userId: string): Promise<void> {
+  await cognitoClient.send(
+    new AdminUserGlobalSignOutCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+    })
+  );
+}
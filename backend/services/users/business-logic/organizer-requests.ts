@@ -0,0 +1,470 @@
+/**
+ * Organizer Request Business Logic
+ * Participants ask for organizer access; administrators approve or deny from a queue
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { UserRole } from '../../../shared/types/common';
+import { AdminActor, AdminAuditAction, AdminAuditRecord } from '../../../shared/types/admin.types';
+import {
+  OrganizerAffiliationType,
+  OrganizerRequest,
+  OrganizerRequestConnection,
+  OrganizerRequestRecord,
+  OrganizerRequestStatus,
+  SubmitOrganizerRequestInput,
+} from '../../../shared/types/organizer-request.types';
+import { buildAuditRecord, getUserItem, normalizeReason } from './user-admin';
+import { syncCognitoRole } from './cognito-roles';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+const REQUEST_SK = 'ORGANIZER_REQUEST';
+const PENDING_INDEX_PK = 'ORGANIZER_REQUEST#PENDING';
+
+// Input limits
+const MIN_AFFILIATION_LENGTH = 2;
+const MAX_AFFILIATION_LENGTH = 120;
+const MIN_JUSTIFICATION_LENGTH = 20;
+const MAX_JUSTIFICATION_LENGTH = 1000;
+
+type TransactItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+/**
+ * Submit (or resubmit after a denial) a request for organizer access
+ * @param userId - Requesting user
+ * @param input - Affiliation and justification
+ */
+export async function submitOrganizerRequest(
+  userId: string,
+  input: SubmitOrganizerRequestInput
+): Promise<OrganizerRequest> {
+  const user = await getUserItem(userId);
+  const role: UserRole = user.role || UserRole.PARTICIPANT;
+
+  if (role !== UserRole.PARTICIPANT) {
+    throw new Error(JSON.stringify({
+      type: 'BUSINESS_RULE_ERROR',
+      message: `You already have the ${role} role`,
+    }));
+  }
+
+  const affiliation = input.affiliation?.trim() || '';
+  const justification = input.justification?.trim() || '';
+
+  if (!Object.values(OrganizerAffiliationType).includes(input.affiliationType)) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: 'Affiliation type must be CLUB or DEPARTMENT',
+    }));
+  }
+
+  if (affiliation.length < MIN_AFFILIATION_LENGTH || affiliation.length > MAX_AFFILIATION_LENGTH) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: `Affiliation must be between ${MIN_AFFILIATION_LENGTH} and ${MAX_AFFILIATION_LENGTH} characters`,
+    }));
+  }
+
+  if (justification.length < MIN_JUSTIFICATION_LENGTH || justification.length > MAX_JUSTIFICATION_LENGTH) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: `Justification must be between ${MIN_JUSTIFICATION_LENGTH} and ${MAX_JUSTIFICATION_LENGTH} characters`,
+    }));
+  }
+
+  const timestamp = new Date().toISOString();
+  const record: OrganizerRequestRecord = {
+    PK: `USER#${userId}`,
+    SK: REQUEST_SK,
+    GSI1PK: PENDING_INDEX_PK,
+    GSI1SK: timestamp,
+    userId,
+    userEmail: user.email,
+    userName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+    affiliationType: input.affiliationType,
+    affiliation,
+    justification,
+    status: OrganizerRequestStatus.PENDING,
+    submittedAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: record,
+        // A denied request can be replaced, a pending one cannot
+        ConditionExpression: 'attribute_not_exists(PK) OR #status <> :pending',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':pending': OrganizerRequestStatus.PENDING },
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'You already have a pending organizer request',
+      }));
+    }
+    throw error;
+  }
+
+  console.log(`Organizer request submitted by ${userId}`);
+
+  return toOrganizerRequest(record);
+}
+
+/**
+ * Get the user's most recent organizer request
+ * @param userId - User ID
+ * @returns The request, or null if the user never asked
+ */
+export async function getOrganizerRequest(userId: string): Promise<OrganizerRequest | null> {
+  const record = await getRequestRecord(userId);
+  return record ? toOrganizerRequest(record) : null;
+}
+
+/**
+ * List pending requests, oldest first so the queue is worked in order
+ * @param limit - Page size
+ * @param nextToken - Token from the previous page
+ */
+export async function listPendingOrganizerRequests(
+  limit: number,
+  nextToken?: string
+): Promise<OrganizerRequestConnection> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': PENDING_INDEX_PK,
+      },
+      ScanIndexForward: true,
+      Limit: limit,
+      ExclusiveStartKey: nextToken
+        ? JSON.parse(Buffer.from(nextToken, 'base64').toString())
+        : undefined,
+    })
+  );
+
+  return {
+    items: (result.Items || []).map(item => toOrganizerRequest(item as OrganizerRequestRecord)),
+    nextToken: result.LastEvaluatedKey
+      ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
+      : null,
+  };
+}
+
+/**
+ * Approve a pending request and grant the ORGANIZER role
+ * The role change is recorded in the admin audit log like any other.
+ * @param actor - Administrator reviewing the request
+ * @param userId - Requesting user
+ * @param comment - Optional note for the requester
+ */
+export async function approveOrganizerRequest(
+  actor: AdminActor,
+  userId: string,
+  comment?: string
+): Promise<OrganizerRequest> {
+  const record = await getPendingRequest(actor, userId);
+  const user = await getUserItem(userId);
+  const previousRole: UserRole = user.role || UserRole.PARTICIPANT;
+  const note = normalizeReason(comment);
+  const timestamp = new Date().toISOString();
+
+  const transactItems: TransactItem[] = [
+    buildDecisionUpdate(actor, record, OrganizerRequestStatus.APPROVED, timestamp, note),
+  ];
+
+  // Someone may have changed the role since the request was made; never demote
+  const grantsRole = previousRole === UserRole.PARTICIPANT;
+  const auditRecord = buildAuditRecord(actor, user, AdminAuditAction.ROLE_CHANGED, timestamp, {
+    previousRole,
+    newRole: UserRole.ORGANIZER,
+    reason: note ? `Organizer request approved: ${note}` : 'Organizer request approved',
+  });
+
+  if (grantsRole) {
+    transactItems.push(
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `USER#${userId}`,
+            SK: 'METADATA',
+          },
+          UpdateExpression: 'SET #role = :role, updatedAt = :now',
+          ExpressionAttributeNames: { '#role': 'role' },
+          ExpressionAttributeValues: { ':role': UserRole.ORGANIZER, ':now': timestamp },
+          ConditionExpression: 'attribute_exists(PK)',
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: auditRecord,
+        },
+      }
+    );
+  }
+
+  // Decide first, so a request reviewed concurrently never reaches Cognito
+  await writeDecision(transactItems);
+
+  if (grantsRole) {
+    try {
+      await syncCognitoRole(userId, UserRole.ORGANIZER);
+    } catch (error) {
+      // Put the request back in the queue so the approval can be repeated
+      console.error(`Cognito role sync failed for ${userId}, reopening organizer request:`, error);
+      await reopenRequest(record, previousRole, auditRecord, timestamp);
+      throw error;
+    }
+  }
+
+  console.log(`Organizer request for ${userId} approved by ${actor.userId}`);
+
+  return toOrganizerRequest(applyDecision(record, OrganizerRequestStatus.APPROVED, timestamp, note));
+}
+
+/**
+ * Deny a pending request; the user can ask again later
+ * @param actor - Administrator reviewing the request
+ * @param userId - Requesting user
+ * @param reason - Why the request was denied (required, shown to the requester)
+ */
+export async function denyOrganizerRequest(
+  actor: AdminActor,
+  userId: string,
+  reason: string
+): Promise<OrganizerRequest> {
+  const note = normalizeReason(reason);
+  if (!note) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: 'A reason is required to deny an organizer request',
+    }));
+  }
+
+  const record = await getPendingRequest(actor, userId);
+  const user = await getUserItem(userId);
+  const timestamp = new Date().toISOString();
+
+  await writeDecision([
+    buildDecisionUpdate(actor, record, OrganizerRequestStatus.DENIED, timestamp, note),
+    {
+      Put: {
+        TableName: TABLE_NAME,
+        Item: buildAuditRecord(actor, user, AdminAuditAction.ORGANIZER_REQUEST_DENIED, timestamp, {
+          reason: note,
+        }),
+      },
+    },
+  ]);
+
+  console.log(`Organizer request for ${userId} denied by ${actor.userId}`);
+
+  return toOrganizerRequest(applyDecision(record, OrganizerRequestStatus.DENIED, timestamp, note));
+}
+
+async function getRequestRecord(userId: string): Promise<OrganizerRequestRecord | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: REQUEST_SK,
+      },
+    })
+  );
+
+  return (result.Item as OrganizerRequestRecord) || null;
+}
+
+/**
+ * Load the request under review, rejecting self-review and requests already decided
+ */
+async function getPendingRequest(actor: AdminActor, userId: string): Promise<OrganizerRequestRecord> {
+  if (actor.userId === userId) {
+    throw new Error(JSON.stringify({
+      type: 'AUTHORIZATION_ERROR',
+      message: 'You cannot review your own organizer request',
+    }));
+  }
+
+  const record = await getRequestRecord(userId);
+  if (!record) {
+    throw new Error(JSON.stringify({
+      type: 'NOT_FOUND',
+      message: `No organizer request found for user ${userId}`,
+    }));
+  }
+
+  if (record.status !== OrganizerRequestStatus.PENDING) {
+    throw new Error(JSON.stringify({
+      type: 'BUSINESS_RULE_ERROR',
+      message: `Organizer request has already been ${record.status.toLowerCase()}`,
+    }));
+  }
+
+  return record;
+}
+
+/**
+ * Undo an approval whose Cognito role sync failed
+ * Restores the pending request and previous role and drops the audit entry,
+ * then moves the user back to their previous Cognito group.
+ */
+async function reopenRequest(
+  record: OrganizerRequestRecord,
+  previousRole: UserRole,
+  auditRecord: AdminAuditRecord,
+  timestamp: string
+): Promise<void> {
+  try {
+    await docClient.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: TABLE_NAME,
+              Item: record,
+              // Only undo the approval made by this call
+              ConditionExpression: '#status = :approved AND reviewedAt = :now',
+              ExpressionAttributeNames: { '#status': 'status' },
+              ExpressionAttributeValues: {
+                ':approved': OrganizerRequestStatus.APPROVED,
+                ':now': timestamp,
+              },
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: record.PK,
+                SK: 'METADATA',
+              },
+              UpdateExpression: 'SET #role = :role, updatedAt = :now',
+              ConditionExpression: '#role = :organizer',
+              ExpressionAttributeNames: { '#role': 'role' },
+              ExpressionAttributeValues: {
+                ':role': previousRole,
+                ':organizer': UserRole.ORGANIZER,
+                ':now': new Date().toISOString(),
+              },
+            },
+          },
+          {
+            Delete: {
+              TableName: TABLE_NAME,
+              Key: {
+                PK: auditRecord.PK,
+                SK: auditRecord.SK,
+              },
+            },
+          },
+        ],
+      })
+    );
+
+    // The failed sync may have added the ORGANIZER group before giving up
+    await syncCognitoRole(record.userId, previousRole);
+  } catch (error) {
+    console.error(`Could not reopen organizer request for ${record.userId}:`, error);
+  }
+}
+
+/**
+ * Close the request and take it out of the pending queue
+ * The status condition stops two reviewers deciding the same request.
+ */
+function buildDecisionUpdate(
+  actor: AdminActor,
+  record: OrganizerRequestRecord,
+  status: OrganizerRequestStatus,
+  timestamp: string,
+  note?: string
+): TransactItem {
+  return {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: {
+        PK: record.PK,
+        SK: record.SK,
+      },
+      UpdateExpression: note
+        ? 'SET #status = :status, reviewedAt = :now, reviewedBy = :actorId, decisionNote = :note, updatedAt = :now REMOVE GSI1PK, GSI1SK'
+        : 'SET #status = :status, reviewedAt = :now, reviewedBy = :actorId, updatedAt = :now REMOVE GSI1PK, GSI1SK, decisionNote',
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': status,
+        ':pending': OrganizerRequestStatus.PENDING,
+        ':now': timestamp,
+        ':actorId': actor.userId,
+        ...(note ? { ':note': note } : {}),
+      },
+    },
+  };
+}
+
+async function writeDecision(transactItems: TransactItem[]): Promise<void> {
+  try {
+    await docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+  } catch (error: any) {
+    if (error.name === 'TransactionCanceledException') {
+      throw new Error(JSON.stringify({
+        type: 'BUSINESS_RULE_ERROR',
+        message: 'Organizer request was already reviewed',
+      }));
+    }
+    throw error;
+  }
+}
+
+function applyDecision(
+  record: OrganizerRequestRecord,
+  status: OrganizerRequestStatus,
+  timestamp: string,
+  note?: string
+): OrganizerRequestRecord {
+  return {
+    ...record,
+    status,
+    reviewedAt: timestamp,
+    decisionNote: note,
+    updatedAt: timestamp,
+  };
+}
+
+function toOrganizerRequest(record: OrganizerRequestRecord): OrganizerRequest {
+  return {
+    userId: record.userId,
+    userEmail: record.userEmail,
+    userName: record.userName,
+    affiliationType: record.affiliationType,
+    affiliation: record.affiliation,
+    justification: record.justification,
+    status: record.status,
+    submittedAt: record.submittedAt,
+    reviewedAt: record.reviewedAt ?? null,
+    decisionNote: record.decisionNote ?? null,
+  };
+}
@@ -0,0 +1,577 @@
+/**
+ * User Administration Business Logic
+ * Search users, change roles and suspend accounts, recording every change in the audit log
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import { UserRole } from '../../../shared/types/common';
+import {
+  AdminActor,
+  AdminAuditAction,
+  AdminAuditEntry,
+  AdminAuditLogConnection,
+  AdminAuditRecord,
+  AdminUser,
+  AdminUserConnection,
+  AdminUserDetail,
+  AdminUserEvent,
+  AdminUserRegistration,
+  PRIVILEGED_ROLES,
+  UserAccountStatus,
+} from '../../../shared/types/admin.types';
+import { syncCognitoRole, disableCognitoUser, enableCognitoUser } from './cognito-roles';
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME!;
+
+// Page sizes
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+const SCAN_BATCH_SIZE = 100;
+const USER_DETAIL_AUDIT_ENTRIES = 50;
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Search user profiles by name or email
+ * There is no index over profiles, so this scans USER#/METADATA items.
+ * Matching is case-insensitive on email and on names typed either all
+ * lowercase or capitalized.
+ * @param query - Text to look for in the email, first or last name
+ * @param role - Only return users with this role
+ * @param limit - Page size
+ * @param nextToken - Token from the previous page
+ */
+export async function searchUsers(
+  query: string | undefined,
+  role: UserRole | undefined,
+  limit: number,
+  nextToken?: string
+): Promise<AdminUserConnection> {
+  const filters = ['SK = :metadata', 'begins_with(PK, :userPrefix)'];
+  const values: Record<string, any> = {
+    ':metadata': 'METADATA',
+    ':userPrefix': 'USER#',
+  };
+
+  if (role) {
+    filters.push('#role = :role');
+    values[':role'] = role;
+  }
+
+  const term = query?.trim().toLowerCase();
+  if (term) {
+    const capitalized = term.charAt(0).toUpperCase() + term.slice(1);
+    filters.push(
+      '(contains(email, :term) OR contains(firstName, :term) OR contains(lastName, :term)' +
+      ' OR contains(firstName, :capitalized) OR contains(lastName, :capitalized))'
+    );
+    values[':term'] = term;
+    values[':capitalized'] = capitalized;
+  }
+
+  const items: AdminUser[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined = nextToken
+    ? JSON.parse(Buffer.from(nextToken, 'base64').toString())
+    : undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: TABLE_NAME,
+        FilterExpression: filters.join(' AND '),
+        ExpressionAttributeNames: role ? { '#role': 'role' } : undefined,
+        ExpressionAttributeValues: values,
+        Limit: SCAN_BATCH_SIZE,
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    const matches = result.Items || [];
+    lastEvaluatedKey = result.LastEvaluatedKey;
+
+    // A scan page can't be split, so resume right after the last user we return
+    if (items.length + matches.length > limit) {
+      const kept = matches.slice(0, limit - items.length);
+      items.push(...kept.map(toAdminUser));
+      const last = kept[kept.length - 1];
+      lastEvaluatedKey = { PK: last.PK, SK: last.SK };
+      break;
+    }
+
+    items.push(...matches.map(toAdminUser));
+  } while (lastEvaluatedKey && items.length < limit);
+
+  return {
+    items,
+    nextToken: lastEvaluatedKey
+      ? Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64')
+      : null,
+  };
+}
+
+/**
+ * Get a user's profile, registrations, organized events and recent audit entries
+ * @param userId - User ID
+ */
+export async function getUserDetail(userId: string): Promise<AdminUserDetail> {
+  const item = await getUserItem(userId);
+
+  const [registrations, events, auditLog] = await Promise.all([
+    getUserRegistrations(userId),
+    getOrganizedEvents(userId),
+    getUserAuditLog(userId),
+  ]);
+
+  return {
+    user: toAdminUser(item),
+    registrations,
+    events,
+    auditLog,
+  };
+}
+
+/**
+ * List audit entries across all users, newest first
+ * @param limit - Page size
+ * @param nextToken - Token from the previous page
+ */
+export async function listAuditLog(limit: number, nextToken?: string): Promise<AdminAuditLogConnection> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': 'AUDIT_LOG',
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: nextToken
+        ? JSON.parse(Buffer.from(nextToken, 'base64').toString())
+        : undefined,
+    })
+  );
+
+  return {
+    items: (result.Items || []).map(item => toAdminAuditEntry(item as AdminAuditRecord)),
+    nextToken: result.LastEvaluatedKey
+      ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
+      : null,
+  };
+}
+
+/**
+ * Change a user's role in Cognito and on their profile
+ * @param actor - Administrator making the change
+ * @param userId - User whose role changes
+ * @param role - New role
+ * @param reason - Optional note for the audit log
+ */
+export async function changeUserRole(
+  actor: AdminActor,
+  userId: string,
+  role: UserRole,
+  reason?: string
+): Promise<AdminUser> {
+  const item = await getUserItem(userId);
+  const previousRole: UserRole = item.role || UserRole.PARTICIPANT;
+
+  assertCanManageUser(actor, item, role);
+
+  if (previousRole === role) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: `User already has the ${role} role`,
+    }));
+  }
+
+  const note = normalizeReason(reason);
+
+  // Cognito first: it is what authorizes requests, and every step there can be retried
+  await syncCognitoRole(userId, role);
+
+  const timestamp = new Date().toISOString();
+  await writeWithAudit(
+    {
+      UpdateExpression: 'SET #role = :role, updatedAt = :now',
+      ExpressionAttributeNames: { '#role': 'role' },
+      ExpressionAttributeValues: { ':role': role, ':now': timestamp },
+    },
+    buildAuditRecord(actor, item, AdminAuditAction.ROLE_CHANGED, timestamp, {
+      previousRole,
+      newRole: role,
+      reason: note,
+    })
+  );
+
+  console.log(`User ${userId} role changed from ${previousRole} to ${role} by ${actor.userId}`);
+
+  return toAdminUser({ ...item, role, updatedAt: timestamp });
+}
+
+/**
+ * Suspend an account: disable sign-in and revoke sessions
+ * @param actor - Administrator making the change
+ * @param userId - User to suspend
+ * @param reason - Why the account is suspended (required)
+ */
+export async function suspendUser(actor: AdminActor, userId: string, reason: string): Promise<AdminUser> {
+  const item = await getUserItem(userId);
+
+  assertCanManageUser(actor, item);
+
+  if (item.status === UserAccountStatus.SUSPENDED) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: 'User is already suspended',
+    }));
+  }
+
+  const note = normalizeReason(reason);
+  if (!note) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: 'A reason is required to suspend a user',
+    }));
+  }
+
+  await disableCognitoUser(userId);
+
+  const timestamp = new Date().toISOString();
+  await writeWithAudit(
+    {
+      UpdateExpression: 'SET #status = :status, suspendedAt = :now, suspendedBy = :actorId, suspensionReason = :reason, updatedAt = :now',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': UserAccountStatus.SUSPENDED,
+        ':now': timestamp,
+        ':actorId': actor.userId,
+        ':reason': note,
+      },
+    },
+    buildAuditRecord(actor, item, AdminAuditAction.USER_SUSPENDED, timestamp, { reason: note })
+  );
+
+  console.log(`User ${userId} suspended by ${actor.userId}`);
+
+  return toAdminUser({
+    ...item,
+    status: UserAccountStatus.SUSPENDED,
+    suspendedAt: timestamp,
+    suspensionReason: note,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Lift a suspension so the user can sign in again
+ * @param actor - Administrator making the change
+ * @param userId - Suspended user
+ */
+export async function reactivateUser(actor: AdminActor, userId: string): Promise<AdminUser> {
+  const item = await getUserItem(userId);
+
+  assertCanManageUser(actor, item);
+
+  if (item.status !== UserAccountStatus.SUSPENDED) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: 'User is not suspended',
+    }));
+  }
+
+  await enableCognitoUser(userId);
+
+  const timestamp = new Date().toISOString();
+  await writeWithAudit(
+    {
+      UpdateExpression: 'SET #status = :status, updatedAt = :now REMOVE suspendedAt, suspendedBy, suspensionReason',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': UserAccountStatus.ACTIVE,
+        ':now': timestamp,
+      },
+    },
+    buildAuditRecord(actor, item, AdminAuditAction.USER_REACTIVATED, timestamp, {})
+  );
+
+  console.log(`User ${userId} reactivated by ${actor.userId}`);
+
+  return toAdminUser({
+    ...item,
+    status: UserAccountStatus.ACTIVE,
+    suspendedAt: undefined,
+    suspensionReason: undefined,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Guard against self-service changes and escalation
+ * - Nobody changes their own role or suspends themselves
+ * - Only a SUPER_ADMIN can grant or revoke ADMINISTRATOR/SUPER_ADMIN,
+ *   or suspend an account that holds one of those roles
+ * @param actor - Administrator making the change
+ * @param target - Target user's profile item
+ * @param newRole - Role being granted, for role changes
+ */
+export function assertCanManageUser(
+  actor: AdminActor,
+  target: Record<string, any>,
+  newRole?: UserRole
+): void {
+  if (actor.userId === target.userId) {
+    throw new Error(JSON.stringify({
+      type: 'AUTHORIZATION_ERROR',
+      message: 'You cannot change your own role or account status',
+    }));
+  }
+
+  const isSuperAdmin = actor.groups.includes(UserRole.SUPER_ADMIN);
+  const touchesPrivilegedRole =
+    PRIVILEGED_ROLES.includes(target.role) || (!!newRole && PRIVILEGED_ROLES.includes(newRole));
+
+  if (touchesPrivilegedRole && !isSuperAdmin) {
+    throw new Error(JSON.stringify({
+      type: 'AUTHORIZATION_ERROR',
+      message: 'Only super administrators can grant, revoke or suspend administrator accounts',
+    }));
+  }
+}
+
+/**
+ * Map a user profile item to the GraphQL AdminUser type
+ */
+export function toAdminUser(item: Record<string, any>): AdminUser {
+  return {
+    id: item.userId,
+    email: item.email,
+    firstName: item.firstName || '',
+    lastName: item.lastName || '',
+    role: item.role || UserRole.PARTICIPANT,
+    status: item.status || UserAccountStatus.ACTIVE,
+    suspendedAt: item.suspendedAt || null,
+    suspensionReason: item.suspensionReason || null,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Get a user's profile item, throwing NOT_FOUND if there is none
+ */
+export async function getUserItem(userId: string): Promise<Record<string, any>> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'METADATA',
+      },
+    })
+  );
+
+  if (!result.Item) {
+    throw new Error(JSON.stringify({
+      type: 'NOT_FOUND',
+      message: `User ${userId} not found`,
+    }));
+  }
+
+  return result.Item;
+}
+
+/**
+ * Update the profile and write the audit entry in one transaction
+ */
+async function writeWithAudit(
+  update: {
+    UpdateExpression: string;
+    ExpressionAttributeNames: Record<string, string>;
+    ExpressionAttributeValues: Record<string, any>;
+  },
+  audit: AdminAuditRecord
+): Promise<void> {
+  await docClient.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: audit.PK,
+              SK: 'METADATA',
+            },
+            ...update,
+            ConditionExpression: 'attribute_exists(PK)',
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: audit,
+          },
+        },
+      ],
+    })
+  );
+}
+
+/**
+ * Build an audit entry for a change made by an administrator
+ */
+export function buildAuditRecord(
+  actor: AdminActor,
+  target: Record<string, any>,
+  action: AdminAuditAction,
+  timestamp: string,
+  details: Pick<AdminAuditRecord, 'previousRole' | 'newRole' | 'reason'>
+): AdminAuditRecord {
+  const id = randomUUID();
+
+  return {
+    PK: `USER#${target.userId}`,
+    SK: `AUDIT#${timestamp}#${id}`,
+    GSI1PK: 'AUDIT_LOG',
+    GSI1SK: `${timestamp}#${id}`,
+    id,
+    action,
+    targetUserId: target.userId,
+    targetEmail: target.email,
+    actorId: actor.userId,
+    actorEmail: actor.email,
+    ...details,
+    createdAt: timestamp,
+  };
+}
+
+/**
+ * Trim an optional note, rejecting notes that are too long
+ */
+export function normalizeReason(reason?: string): string | undefined {
+  const note = reason?.trim();
+  if (!note) {
+    return undefined;
+  }
+
+  if (note.length > MAX_REASON_LENGTH) {
+    throw new Error(JSON.stringify({
+      type: 'VALIDATION_ERROR',
+      message: `Reason must be ${MAX_REASON_LENGTH} characters or less`,
+    }));
+  }
+
+  return note;
+}
+
+async function getUserRegistrations(userId: string): Promise<AdminUserRegistration[]> {
+  const registrations: AdminUserRegistration[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'REGISTRATION#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    registrations.push(...(result.Items || []).map(item => ({
+      registrationId: item.id,
+      eventId: item.eventId,
+      eventTitle: item.eventTitle || '',
+      status: item.status,
+      registeredAt: item.registeredAt,
+      attendedAt: item.attendedAt ?? null,
+      cancelledAt: item.cancelledAt ?? null,
+    })));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  // Newest first
+  return registrations.sort((a, b) => b.registeredAt.localeCompare(a.registeredAt));
+}
+
+/**
+ * Events are not indexed by organizer, so scan event METADATA items
+ */
+async function getOrganizedEvents(userId: string): Promise<AdminUserEvent[]> {
+  const events: AdminUserEvent[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: TABLE_NAME,
+        FilterExpression: 'SK = :metadata AND begins_with(PK, :eventPrefix) AND organizerId = :userId',
+        ExpressionAttributeValues: {
+          ':metadata': 'METADATA',
+          ':eventPrefix': 'EVENT#',
+          ':userId': userId,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    events.push(...(result.Items || []).map(item => ({
+      eventId: item.id,
+      title: item.title,
+      status: item.status,
+      startDateTime: item.startDateTime,
+      capacity: item.capacity || 0,
+      registeredCount: item.registeredCount || 0,
+    })));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  // Upcoming/most recent first
+  return events.sort((a, b) => b.startDateTime.localeCompare(a.startDateTime));
+}
+
+async function getUserAuditLog(userId: string): Promise<AdminAuditEntry[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'AUDIT#',
+      },
+      ScanIndexForward: false,
+      Limit: USER_DETAIL_AUDIT_ENTRIES,
+    })
+  );
+
+  return (result.Items || []).map(item => toAdminAuditEntry(item as AdminAuditRecord));
+}
+
+function toAdminAuditEntry(record: AdminAuditRecord): AdminAuditEntry {
+  return {
+    id: record.id,
+    action: record.action,
+    targetUserId: record.targetUserId,
+    targetEmail: record.targetEmail,
+    actorId: record.actorId,
+    actorEmail: record.actorEmail,
+    previousRole: record.previousRole ?? null,
+    newRole: record.newRole ?? null,
+    reason: record.reason ?? null,
+    createdAt: record.createdAt,
+  };
+}
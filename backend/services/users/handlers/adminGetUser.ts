@@ -0,0 +1,61 @@
+/**
+ * Admin Get User Lambda Handler
+ * Returns a user's profile, registrations, organized events and audit history for administrators
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { AdminUserDetail } from '../../../shared/types/admin.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { getUserDetail } from '../business-logic/user-admin';
+
+/**
+ * Lambda handler for adminGetUser query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ id: string }>,
+  context: Context
+): Promise<AdminUserDetail> {
+  console.log('AdminGetUser handler invoked', {
+    requestId: context.awsRequestId,
+    userId: event.arguments.id,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators can manage users
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can view user accounts',
+      }));
+    }
+
+    // 3. Load the profile and everything attached to it
+    return await getUserDetail(event.arguments.id);
+
+  } catch (error: any) {
+    console.error('Admin get user error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Approve Organizer Request Lambda Handler
+ * Grants the ORGANIZER role and notifies the requester
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { AdminActor } from '../../../shared/types/admin.types';
+import { OrganizerRequest } from '../../../shared/types/organizer-request.types';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+  isCognitoIdentity,
+} from '../../../shared/types/appsync.types';
+import { publishOrganizerAccessDecided } from '../../../shared/utils/eventbridge.utils';
+import { approveOrganizerRequest } from '../business-logic/organizer-requests';
+
+/**
+ * Lambda handler for approveOrganizerRequest mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ userId: string; comment?: string }>,
+  context: Context
+): Promise<OrganizerRequest> {
+  console.log('ApproveOrganizerRequest handler invoked', {
+    requestId: context.awsRequestId,
+    userId: event.arguments.userId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators review organizer requests
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can approve organizer requests',
+      }));
+    }
+
+    const actor: AdminActor = {
+      userId,
+      email: isCognitoIdentity(event.identity) ? String(event.identity.claims?.email || '') : '',
+      groups: userGroups,
+    };
+
+    // 3. Approve the request and grant the role
+    const request = await approveOrganizerRequest(actor, event.arguments.userId, event.arguments.comment);
+
+    // 4. Let the requester know
+    // The decision stands even if the notification could not be sent
+    try {
+      await publishOrganizerAccessDecided(true, {
+        userId: request.userId,
+        userEmail: request.userEmail,
+        userName: request.userName,
+        affiliation: request.affiliation,
+        decisionNote: request.decisionNote ?? undefined,
+        timestamp: request.reviewedAt ?? new Date().toISOString(),
+      });
+    } catch (notifyError) {
+      console.error('Failed to publish organizer access notification:', notifyError);
+    }
+
+    return request;
+
+  } catch (error: any) {
+    console.error('Approve organizer request error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
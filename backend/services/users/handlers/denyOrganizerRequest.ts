@@ -0,0 +1,90 @@
+/**
+ * Deny Organizer Request Lambda Handler
+ * Closes the request with a reason and notifies the requester
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { AdminActor } from '../../../shared/types/admin.types';
+import { OrganizerRequest } from '../../../shared/types/organizer-request.types';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+  isCognitoIdentity,
+} from '../../../shared/types/appsync.types';
+import { publishOrganizerAccessDecided } from '../../../shared/utils/eventbridge.utils';
+import { denyOrganizerRequest } from '../business-logic/organizer-requests';
+
+/**
+ * Lambda handler for denyOrganizerRequest mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ userId: string; reason: string }>,
+  context: Context
+): Promise<OrganizerRequest> {
+  console.log('DenyOrganizerRequest handler invoked', {
+    requestId: context.awsRequestId,
+    userId: event.arguments.userId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators review organizer requests
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can deny organizer requests',
+      }));
+    }
+
+    const actor: AdminActor = {
+      userId,
+      email: isCognitoIdentity(event.identity) ? String(event.identity.claims?.email || '') : '',
+      groups: userGroups,
+    };
+
+    // 3. Deny the request
+    const request = await denyOrganizerRequest(actor, event.arguments.userId, event.arguments.reason);
+
+    // 4. Let the requester know
+    // The decision stands even if the notification could not be sent
+    try {
+      await publishOrganizerAccessDecided(false, {
+        userId: request.userId,
+        userEmail: request.userEmail,
+        userName: request.userName,
+        affiliation: request.affiliation,
+        decisionNote: request.decisionNote ?? undefined,
+        timestamp: request.reviewedAt ?? new Date().toISOString(),
+      });
+    } catch (notifyError) {
+      console.error('Failed to publish organizer access notification:', notifyError);
+    }
+
+    return request;
+
+  } catch (error: any) {
+    console.error('Deny organizer request error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
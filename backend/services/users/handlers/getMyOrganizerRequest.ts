@@ -0,0 +1,49 @@
+/**
+ * Get My Organizer Request Lambda Handler
+ * Returns the caller's latest organizer access request, if any
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { OrganizerRequest } from '../../../shared/types/organizer-request.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { getOrganizerRequest } from '../business-logic/organizer-requests';
+
+/**
+ * Lambda handler for myOrganizerRequest query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<Record<string, never>>,
+  context: Context
+): Promise<OrganizerRequest | null> {
+  console.log('GetMyOrganizerRequest handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Read the request
+    return await getOrganizerRequest(userId);
+
+  } catch (error: any) {
+    console.error('Get my organizer request error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
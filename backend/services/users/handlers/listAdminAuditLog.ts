@@ -0,0 +1,69 @@
+/**
+ * List Admin Audit Log Lambda Handler
+ * Returns role changes and suspensions across all users, newest first
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { AdminAuditLogConnection } from '../../../shared/types/admin.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { listAuditLog, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../business-logic/user-admin';
+
+/**
+ * Lambda handler for listAdminAuditLog query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ limit?: number; nextToken?: string }>,
+  context: Context
+): Promise<AdminAuditLogConnection> {
+  console.log('ListAdminAuditLog handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators can manage users
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can view the audit log',
+      }));
+    }
+
+    // 3. Validate page size
+    const limit = event.arguments.limit ?? DEFAULT_PAGE_SIZE;
+    if (limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+      }));
+    }
+
+    // 4. Read the audit feed
+    return await listAuditLog(limit, event.arguments.nextToken);
+
+  } catch (error: any) {
+    console.error('List admin audit log error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
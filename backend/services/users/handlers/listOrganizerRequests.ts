@@ -0,0 +1,70 @@
+/**
+ * List Organizer Requests Lambda Handler
+ * Returns the queue of pending organizer access requests, oldest first
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { OrganizerRequestConnection } from '../../../shared/types/organizer-request.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { listPendingOrganizerRequests } from '../business-logic/organizer-requests';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../business-logic/user-admin';
+
+/**
+ * Lambda handler for listOrganizerRequests query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ limit?: number; nextToken?: string }>,
+  context: Context
+): Promise<OrganizerRequestConnection> {
+  console.log('ListOrganizerRequests handler invoked', {
+    requestId: context.awsRequestId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators review organizer requests
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can view organizer requests',
+      }));
+    }
+
+    // 3. Validate page size
+    const limit = event.arguments.limit ?? DEFAULT_PAGE_SIZE;
+    if (limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+      }));
+    }
+
+    // 4. Read the pending queue
+    return await listPendingOrganizerRequests(limit, event.arguments.nextToken);
+
+  } catch (error: any) {
+    console.error('List organizer requests error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Search Users Lambda Handler
+ * Lets administrators find users by name, email or role
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { UserRole } from '../../../shared/types/common';
+import { AdminUserConnection } from '../../../shared/types/admin.types';
+import { getUserIdFromIdentity, getUserGroupsFromIdentity } from '../../../shared/types/appsync.types';
+import { searchUsers, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../business-logic/user-admin';
+
+/**
+ * Lambda handler for searchUsers query
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ query?: string; role?: UserRole; limit?: number; nextToken?: string }>,
+  context: Context
+): Promise<AdminUserConnection> {
+  console.log('SearchUsers handler invoked', {
+    requestId: context.awsRequestId,
+    query: event.arguments.query,
+    role: event.arguments.role,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators can manage users
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can search users',
+      }));
+    }
+
+    // 3. Validate page size
+    const limit = event.arguments.limit ?? DEFAULT_PAGE_SIZE;
+    if (limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+      }));
+    }
+
+    // 4. Search profiles
+    const { query, role, nextToken } = event.arguments;
+    const result = await searchUsers(query, role, limit, nextToken);
+
+    console.log(`Found ${result.items.length} users`);
+
+    return result;
+
+  } catch (error: any) {
+    console.error('Search users error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Submit Organizer Request Lambda Handler
+ * Lets a participant ask for organizer access
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import {
+  OrganizerRequest,
+  SubmitOrganizerRequestInput,
+} from '../../../shared/types/organizer-request.types';
+import { getUserIdFromIdentity } from '../../../shared/types/appsync.types';
+import { submitOrganizerRequest } from '../business-logic/organizer-requests';
+
+/**
+ * Lambda handler for submitOrganizerRequest mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ input: SubmitOrganizerRequestInput }>,
+  context: Context
+): Promise<OrganizerRequest> {
+  console.log('SubmitOrganizerRequest handler invoked', {
+    requestId: context.awsRequestId,
+    affiliationType: event.arguments.input?.affiliationType,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Validate input
+    if (!event.arguments.input) {
+      throw new Error(JSON.stringify({
+        type: 'VALIDATION_ERROR',
+        message: 'input is required',
+      }));
+    }
+
+    // 3. Record the request
+    return await submitOrganizerRequest(userId, event.arguments.input);
+
+  } catch (error: any) {
+    console.error('Submit organizer request error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
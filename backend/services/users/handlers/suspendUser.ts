@@ -0,0 +1,71 @@
+/**
+ * Suspend User Lambda Handler
+ * Disables an account in Cognito and signs the user out everywhere
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { AdminActor, AdminUser } from '../../../shared/types/admin.types';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+  isCognitoIdentity,
+} from '../../../shared/types/appsync.types';
+import { suspendUser } from '../business-logic/user-admin';
+
+/**
+ * Lambda handler for suspendUser mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ userId: string; reason: string }>,
+  context: Context
+): Promise<AdminUser> {
+  console.log('SuspendUser handler invoked', {
+    requestId: context.awsRequestId,
+    userId: event.arguments.userId,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators can manage users
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can suspend users',
+      }));
+    }
+
+    const actor: AdminActor = {
+      userId,
+      email: isCognitoIdentity(event.identity) ? String(event.identity.claims?.email || '') : '',
+      groups: userGroups,
+    };
+
+    // 3. Suspend the account
+    return await suspendUser(actor, event.arguments.userId, event.arguments.reason);
+
+  } catch (error: any) {
+    console.error('Suspend user error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
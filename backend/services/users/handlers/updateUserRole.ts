@@ -0,0 +1,74 @@
+/**
+ * Update User Role Lambda Handler
+ * Promotes or demotes a user, keeping Cognito groups and the profile role in sync
+ */
+
+import { AppSyncResolverEvent, Context } from 'aws-lambda';
+import { UserRole } from '../../../shared/types/common';
+import { AdminActor, AdminUser } from '../../../shared/types/admin.types';
+import {
+  getUserIdFromIdentity,
+  getUserGroupsFromIdentity,
+  isCognitoIdentity,
+} from '../../../shared/types/appsync.types';
+import { changeUserRole } from '../business-logic/user-admin';
+
+/**
+ * Lambda handler for updateUserRole mutation
+ */
+export async function handler(
+  event: AppSyncResolverEvent<{ userId: string; role: UserRole; reason?: string }>,
+  context: Context
+): Promise<AdminUser> {
+  console.log('UpdateUserRole handler invoked', {
+    requestId: context.awsRequestId,
+    userId: event.arguments.userId,
+    role: event.arguments.role,
+  });
+
+  try {
+    // 1. Get user ID from AppSync identity
+    const userId = getUserIdFromIdentity(event.identity);
+    if (!userId) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'User not authenticated',
+      }));
+    }
+
+    // 2. Only administrators can manage users
+    const userGroups = getUserGroupsFromIdentity(event.identity);
+    const isAdmin = userGroups.includes('ADMINISTRATOR') || userGroups.includes('SUPER_ADMIN');
+
+    if (!isAdmin) {
+      throw new Error(JSON.stringify({
+        type: 'AUTHORIZATION_ERROR',
+        message: 'Only administrators can change user roles',
+      }));
+    }
+
+    const actor: AdminActor = {
+      userId,
+      email: isCognitoIdentity(event.identity) ? String(event.identity.claims?.email || '') : '',
+      groups: userGroups,
+    };
+
+    // 3. Change the role (escalation guards live in the business logic)
+    const { userId: targetUserId, role, reason } = event.arguments;
+    return await changeUserRole(actor, targetUserId, role, reason);
+
+  } catch (error: any) {
+    console.error('Update user role error:', error);
+
+    if (error instanceof Error) {
+      try {
+        const errorData = JSON.parse(error.message);
+        throw new Error(JSON.stringify(errorData));
+      } catch {
+        throw error;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -1,4 +1,5 @@
 import { BaseEntity, UserRole } from '../../../shared/types/common';
+import { UserAccountStatus } from '../../../shared/types/admin.types';
 
 export interface User extends BaseEntity {
   userId: string;
@@ -8,6 +9,14 @@ export interface User extends BaseEntity {
   role: UserRole;
   emailVerified: boolean;
   cognitoId: string;
+  phoneNumber?: string;      // E.164, set once verified
+  phoneVerified?: boolean;
+  phoneVerifiedAt?: string;
+  smsOptedOutAt?: string;    // Replied STOP to our SMS number
+  status?: UserAccountStatus; // Missing means ACTIVE
+  suspendedAt?: string;
+  suspendedBy?: string;      // Admin user ID
+  suspensionReason?: string;
   preferences?: UserPreferences;
 }
 
@@ -35,6 +44,14 @@ export class UserModel {
       role: user.role || UserRole.PARTICIPANT,
       emailVerified: user.emailVerified || false,
       cognitoId: user.cognitoId,
+      phoneNumber: user.phoneNumber,
+      phoneVerified: user.phoneVerified || false,
+      phoneVerifiedAt: user.phoneVerifiedAt,
+      smsOptedOutAt: user.smsOptedOutAt,
+      status: user.status || UserAccountStatus.ACTIVE,
+      suspendedAt: user.suspendedAt,
+      suspendedBy: user.suspendedBy,
+      suspensionReason: user.suspensionReason,
       preferences: user.preferences,
       createdAt: user.createdAt || timestamp,
       updatedAt: timestamp,
@@ -54,6 +71,14 @@ export class UserModel {
       role: item.role,
       emailVerified: item.emailVerified,
       cognitoId: item.cognitoId,
+      phoneNumber: item.phoneNumber,
+      phoneVerified: item.phoneVerified,
+      phoneVerifiedAt: item.phoneVerifiedAt,
+      smsOptedOutAt: item.smsOptedOutAt,
+      status: item.status || UserAccountStatus.ACTIVE,
+      suspendedAt: item.suspendedAt,
+      suspendedBy: item.suspendedBy,
+      suspensionReason: item.suspensionReason,
       preferences: item.preferences,
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
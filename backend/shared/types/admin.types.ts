@@ -0,0 +1,149 @@
+/**
+ * Admin Types for TEMS
+ * User search, role management, account suspension and the admin audit log
+ */
+
+import { UserRole } from './common';
+import { RegistrationStatus } from './registration.types';
+
+/**
+ * Account Status
+ * Suspended accounts are disabled in Cognito and signed out everywhere
+ */
+export enum UserAccountStatus {
+  ACTIVE = 'ACTIVE',
+  SUSPENDED = 'SUSPENDED',
+}
+
+/**
+ * Admin Audit Actions
+ */
+export enum AdminAuditAction {
+  ROLE_CHANGED = 'ROLE_CHANGED',
+  USER_SUSPENDED = 'USER_SUSPENDED',
+  USER_REACTIVATED = 'USER_REACTIVATED',
+  ORGANIZER_REQUEST_DENIED = 'ORGANIZER_REQUEST_DENIED',
+}
+
+/**
+ * Roles that can only be granted or revoked by a SUPER_ADMIN
+ */
+export const PRIVILEGED_ROLES: UserRole[] = [UserRole.ADMINISTRATOR, UserRole.SUPER_ADMIN];
+
+/**
+ * Admin Audit Record (DynamoDB item)
+ * Stored in the target user's partition; GSI1 gives the platform-wide feed
+ */
+export interface AdminAuditRecord {
+  PK: string;      // USER#<targetUserId>
+  SK: string;      // AUDIT#<createdAt>#<id>
+  GSI1PK: string;  // AUDIT_LOG
+  GSI1SK: string;  // <createdAt>#<id>
+  id: string;
+  action: AdminAuditAction;
+  targetUserId: string;
+  targetEmail: string;
+  actorId: string;
+  actorEmail: string;
+  previousRole?: UserRole;
+  newRole?: UserRole;
+  reason?: string;
+  createdAt: string;
+}
+
+/**
+ * Admin Audit Entry
+ * Matches the GraphQL AdminAuditEntry type
+ */
+export interface AdminAuditEntry {
+  id: string;
+  action: AdminAuditAction;
+  targetUserId: string;
+  targetEmail: string;
+  actorId: string;
+  actorEmail: string;
+  previousRole: UserRole | null;
+  newRole: UserRole | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+/**
+ * Admin Audit Log Connection
+ * Returned by listAdminAuditLog query
+ */
+export interface AdminAuditLogConnection {
+  items: AdminAuditEntry[];
+  nextToken: string | null;
+}
+
+/**
+ * Admin User
+ * Matches the GraphQL AdminUser type
+ */
+export interface AdminUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  status: UserAccountStatus;
+  suspendedAt: string | null;
+  suspensionReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Admin User Connection
+ * Returned by searchUsers query
+ */
+export interface AdminUserConnection {
+  items: AdminUser[];
+  nextToken: string | null;
+}
+
+/**
+ * A user's registration as shown to administrators (no QR code)
+ */
+export interface AdminUserRegistration {
+  registrationId: string;
+  eventId: string;
+  eventTitle: string;
+  status: RegistrationStatus;
+  registeredAt: string;
+  attendedAt: string | null;
+  cancelledAt: string | null;
+}
+
+/**
+ * An event organized by the user
+ */
+export interface AdminUserEvent {
+  eventId: string;
+  title: string;
+  status: string;
+  startDateTime: string;
+  capacity: number;
+  registeredCount: number;
+}
+
+/**
+ * Admin User Detail
+ * Returned by adminGetUser query
+ */
+export interface AdminUserDetail {
+  user: AdminUser;
+  registrations: AdminUserRegistration[];
+  events: AdminUserEvent[];
+  auditLog: AdminAuditEntry[];
+}
+
+/**
+ * The administrator making a change
+ */
+export interface AdminActor {
+  userId: string;
+  email: string;
+  groups: string[];
+}
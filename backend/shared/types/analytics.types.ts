@@ -0,0 +1,114 @@
+/**
+ * Analytics Types for TEMS
+ * Registration and attendance counters aggregated from domain events
+ */
+
+/**
+ * Counters kept on every analytics record
+ * Each one is bumped by a single domain event type
+ */
+export interface AnalyticsCounters {
+  registrations: number;          // RegistrationCreated
+  waitlistAdds: number;           // WaitlistAdded
+  waitlistPromotions: number;     // WaitlistPromoted
+  promotionsAccepted: number;     // PromotionAccepted
+  promotionsDeclined: number;     // PromotionDeclined
+  promotionsExpired: number;      // PromotionExpired
+  cancellations: number;          // RegistrationCancelled (seat holders)
+  waitlistCancellations: number;  // WaitlistCancelled
+  attended: number;               // EVENT_COMPLETED
+  noShows: number;                // EVENT_COMPLETED
+  eventsPublished: number;        // EVENT_PUBLISHED
+  eventsCompleted: number;        // EVENT_COMPLETED
+}
+
+export type AnalyticsCounter = keyof AnalyticsCounters;
+
+/**
+ * Analytics Record (DynamoDB item)
+ * Event totals, or one day of an event's or organizer's activity.
+ * Sign-ups are also counted per hour of day in hour00..hour23 attributes.
+ */
+export interface AnalyticsRecord extends Partial<AnalyticsCounters> {
+  PK: string;  // EVENT#<eventId> or USER#<organizerId>
+  SK: string;  // ANALYTICS (event totals) or ANALYTICS#DAY#<yyyy-mm-dd>
+  date?: string;  // yyyy-mm-dd, daily records only
+  updatedAt: string;
+  [hour: `hour${string}`]: number | undefined;
+}
+
+/**
+ * Processed domain event marker (DynamoDB item)
+ * EventBridge delivers at least once; the marker keeps a redelivery from counting twice
+ */
+export interface AnalyticsEventMarker {
+  PK: string;  // ANALYTICS_EVENT#<eventBridgeEventId>
+  SK: string;  // ANALYTICS_EVENT
+  detailType: string;
+  processedAt: string;
+  ttl: number;  // TTL for DynamoDB
+}
+
+/**
+ * Sign-ups in one hour of the day (event timezone)
+ */
+export interface HourlyCount {
+  hour: number;  // 0-23
+  count: number;
+}
+
+/**
+ * One day of registration activity
+ * Matches the GraphQL DailyAnalytics type
+ */
+export interface DailyAnalytics {
+  date: string;  // yyyy-mm-dd
+  registrations: number;
+  waitlistAdds: number;
+  cancellations: number;
+}
+
+/**
+ * Totals and derived rates shared by event and organizer analytics
+ * Rates are null until there is something to divide by
+ */
+export interface AnalyticsSummary extends AnalyticsCounters {
+  waitlistConversionRate: number | null;  // promotionsAccepted / waitlistAdds
+  cancellationRate: number | null;        // cancellations / (registrations + promotionsAccepted)
+  checkInRate: number | null;             // attended / (attended + noShows)
+  peakRegistrationHour: number | null;
+  registrationsByHour: HourlyCount[];
+  registrationsOverTime: DailyAnalytics[];
+}
+
+/**
+ * Event Analytics
+ * Matches the GraphQL EventAnalytics type
+ * Returned by eventAnalytics query
+ */
+export interface EventAnalytics extends AnalyticsSummary {
+  eventId: string;
+  eventTitle: string;
+  capacity: number;
+  updatedAt?: string;
+}
+
+/**
+ * Analytics Range Input
+ * Matches the GraphQL AnalyticsRangeInput type
+ */
+export interface AnalyticsRangeInput {
+  startDate: string;  // yyyy-mm-dd, inclusive
+  endDate: string;    // yyyy-mm-dd, inclusive
+}
+
+/**
+ * Organizer Analytics
+ * Matches the GraphQL OrganizerAnalytics type
+ * Returned by organizerAnalytics query
+ */
+export interface OrganizerAnalytics extends AnalyticsSummary {
+  organizerId: string;
+  startDate: string;
+  endDate: string;
+}
@@ -24,6 +24,11 @@ export enum EventStatus {
   COMPLETED = 'COMPLETED'
 }
 
+export enum PromotionExpiryPolicy {
+  CANCEL = 'CANCEL',   // Expired promotion is cancelled
+  REQUEUE = 'REQUEUE'  // Expired promotion goes back to the end of the waitlist
+}
+
 export enum EventCategory {
   ACADEMIC = 'ACADEMIC',
   SOCIAL = 'SOCIAL',
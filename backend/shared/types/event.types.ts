@@ -1,4 +1,4 @@
-import { BaseEntity, EventStatus, EventCategory } from './common';
+import { BaseEntity, EventStatus, EventCategory, PromotionExpiryPolicy } from './common';
 
 /**
  * Complete Event entity with all required fields
@@ -16,10 +16,20 @@ export interface Event extends BaseEntity {
   registeredCount: number;
   waitlistCount: number;
   organizerId: string;
+  organizerEmail?: string; // Contact for review outcomes, captured when submitted for approval
+  organizerName?: string;
   status: EventStatus;
   tags: string[];
   imageUrl?: string;
+  imageVariants?: EventImageVariants; // Resized copies of an uploaded image, imageUrl is the hero
   version: number; // For optimistic locking
+  promotionExpiryPolicy?: PromotionExpiryPolicy; // What happens to unanswered waitlist promotions
+  requiresApproval?: boolean; // Set from the approval rules when category or capacity change
+  approvalSubmittedAt?: string; // When the event entered the review queue
+  rejectionReason?: string; // Reviewer reason from the most recent rejection
+  publishedAt?: string; // First time the event was published
+  seriesId?: string; // Set on occurrences of a recurring series
+  occurrenceIndex?: number; // Position within the series, 0-based
   
   slug?: string; // URL-friendly identifier
   shareableUrl?: string; // Full shareable URL
@@ -29,6 +39,29 @@ export interface Event extends BaseEntity {
   
   GSI3PK?: string; // Format: "EVENT#LOCATION#{building}"
   GSI3SK?: string; // Format: "ROOM#{room}#{eventId}"
+  GSI4PK?: string; // Format: "EVENT#GEO#{geohash prefix}", only set when the location has coordinates
+  GSI4SK?: string; // Format: "{geohash}#{eventId}"
+}
+
+/**
+ * Resized copies of an uploaded event image, served from the assets CDN
+ */
+export interface EventImageVariants {
+  thumbnail: string; // 640x360, for event cards
+  hero: string; // 1600x900, for the event page
+  processedAt: string;
+}
+
+/**
+ * Presigned POST for uploading an event image straight to the assets bucket
+ * The form fields must be sent before the file
+ */
+export interface ImageUploadTarget {
+  url: string;
+  fields: Record<string, string>;
+  key: string;
+  expiresAt: string;
+  maxBytes: number;
 }
 
 /**
@@ -63,6 +96,68 @@ export interface CreateEventInput {
   capacity: number;
   tags?: string[];
   imageUrl?: string;
+  promotionExpiryPolicy?: PromotionExpiryPolicy;
+  recurrence?: RecurrenceRule; // Creates a series with one event per occurrence
+}
+
+/**
+ * Recurrence frequency (RRULE FREQ)
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+}
+
+/**
+ * Weekday codes (RRULE BYDAY)
+ */
+export enum Weekday {
+  MO = 'MO',
+  TU = 'TU',
+  WE = 'WE',
+  TH = 'TH',
+  FR = 'FR',
+  SA = 'SA',
+  SU = 'SU',
+}
+
+/**
+ * Recurrence rule (subset of RFC 5545 RRULE)
+ * Either count or until bounds the series
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months (default 1)
+  byWeekday?: Weekday[]; // WEEKLY only, defaults to the weekday of the first occurrence
+  until?: string; // ISO 8601, inclusive
+  count?: number;
+  exceptions?: string[]; // Local dates (YYYY-MM-DD) to skip
+}
+
+/**
+ * Recurring event series
+ * Stored as PK=SERIES#<seriesId>, SK=METADATA; each occurrence is a regular event
+ * linked by PK=SERIES#<seriesId>, SK=OCCURRENCE#<index>
+ */
+export interface EventSeries {
+  id: string;
+  organizerId: string;
+  title: string;
+  recurrence: RecurrenceRule;
+  rrule: string; // RFC 5545 RRULE value
+  occurrenceCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Which occurrences of a series an edit or cancellation applies to
+ */
+export enum SeriesEditScope {
+  THIS_OCCURRENCE = 'THIS_OCCURRENCE',
+  THIS_AND_FOLLOWING = 'THIS_AND_FOLLOWING',
+  ALL_OCCURRENCES = 'ALL_OCCURRENCES',
 }
 
 /**
@@ -79,6 +174,7 @@ export interface UpdateEventInput {
   tags?: string[];
   imageUrl?: string;
   status?: EventStatus;
+  promotionExpiryPolicy?: PromotionExpiryPolicy;
   
   // Week 7: Auto-generated fields (system-managed, not user input)
   slug?: string;
@@ -86,8 +182,14 @@ export interface UpdateEventInput {
   searchTerms?: string;
   availableSeats?: number;
   waitlistAvailable?: boolean;
+  requiresApproval?: boolean;
+  GSI1SK?: string;
+  GSI2PK?: string;
+  GSI2SK?: string;
   GSI3PK?: string;
   GSI3SK?: string;
+  GSI4PK?: string;
+  GSI4SK?: string;
 }
 
 /**
@@ -116,12 +218,102 @@ export interface EventConnection {
  */
 export interface VenueBooking extends BaseEntity {
   venueId: string; // Format: "building#room"
+  building?: string;
+  room?: string;
   eventId: string;
   startDateTime: string;
   endDateTime: string;
   status: 'ACTIVE' | 'CANCELLED';
 }
 
+/**
+ * Free time slot of the same length as the requested one
+ */
+export interface TimeSlot {
+  startDateTime: string;
+  endDateTime: string;
+}
+
+/**
+ * Result of checkVenueAvailability query
+ */
+export interface VenueAvailability {
+  building: string;
+  room: string;
+  available: boolean;
+  conflicts: VenueBookingSlot[];
+  suggestedSlots: TimeSlot[];
+}
+
+/**
+ * Booked room time as returned by listVenueBookings
+ * The title is only shown for public events or to the organizer and administrators
+ */
+export interface VenueBookingSlot {
+  eventId: string;
+  title: string | null;
+  building: string;
+  room: string;
+  startDateTime: string;
+  endDateTime: string;
+}
+
+/**
+ * Action recorded in an event's approval audit trail
+ */
+export type EventReviewAction = 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Approval audit trail entry
+ * Stored under the event: PK=EVENT#<eventId>, SK=REVIEW#<timestamp>#<reviewId>
+ */
+export interface EventReview {
+  id: string;
+  eventId: string;
+  action: EventReviewAction;
+  actorId: string;
+  comment?: string;
+  approvalReasons?: string[]; // Rules that sent the event to review
+  previousStatus: EventStatus;
+  newStatus: EventStatus;
+  createdAt: string;
+}
+
+/**
+ * Event waiting in the admin review queue
+ */
+export interface ApprovalQueueItem {
+  event: Event;
+  submittedBy: string;
+  submittedAt: string;
+  approvalReasons: string[];
+}
+
+/**
+ * Paginated review queue
+ */
+export interface ApprovalQueueConnection {
+  items: ApprovalQueueItem[];
+  nextToken: string | null;
+}
+
+/**
+ * EventApproved / EventRejected detail sent to the notifications service
+ */
+export interface EventReviewedDetail {
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  userId: string; // Organizer
+  userEmail: string;
+  userName: string;
+  reviewComment?: string;
+  rejectionReason?: string;
+  timestamp: string;
+}
+
 /**
  * Event domain events for EventBridge
  */
@@ -178,6 +370,14 @@ export interface EventCancelledEvent extends EventDomainEvent {
   reason?: string;
 }
 
+/**
+ * Event completed domain event
+ */
+export interface EventCompletedEvent extends EventDomainEvent {
+  eventType: EventDomainEventType.EVENT_COMPLETED;
+  event: Event;
+}
+
 /**
  * Search query input
  */
@@ -198,6 +398,16 @@ export interface SearchFilters {
   startDateBefore?: string;
   hasAvailableSeats?: boolean;
   tags?: string[];
+  radius?: GeoRadiusFilter; // Events within a distance of a point
+}
+
+/**
+ * Circle around a point, for "events near me" and map searches
+ */
+export interface GeoRadiusFilter {
+  latitude: number;
+  longitude: number;
+  distanceMeters: number;
 }
 
 /**
@@ -212,7 +422,7 @@ export interface PaginationInput {
  * Sort input
  */
 export interface SortInput {
-  field: 'startDateTime' | 'createdAt' | 'relevance';
+  field: 'startDateTime' | 'createdAt' | 'relevance' | 'distance'; // distance requires a radius filter
   order: 'asc' | 'desc';
 }
 
@@ -243,6 +453,75 @@ export interface FacetCount {
   count: number;
 }
 
+/**
+ * Search saved by a user under a name
+ * With alerts on, newly published events that match are sent to the owner
+ */
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  search: SearchQueryInput; // Pagination is not stored
+  alertsEnabled: boolean;
+  alertCount: number; // Events alerted so far
+  lastAlertedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Input for saving a search
+ */
+export interface SaveSearchInput {
+  name: string;
+  search: SearchQueryInput;
+  alertsEnabled?: boolean;
+}
+
+/**
+ * Input for updating a saved search
+ */
+export interface UpdateSavedSearchInput {
+  name?: string;
+  search?: SearchQueryInput;
+  alertsEnabled?: boolean;
+}
+
+/**
+ * SavedSearchMatched detail sent to the notifications service
+ */
+export interface SavedSearchMatchedDetail {
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  savedSearchId: string;
+  savedSearchName: string;
+  userId: string; // Owner of the saved search
+  userEmail: string;
+  userName: string;
+  timestamp: string;
+}
+
+/**
+ * Event recommended to a user, with the main reason it was picked
+ */
+export interface RecommendedEvent {
+  event: Event;
+  score: number;
+  reason: string; // e.g. "Because you attended Intro to Robotics"
+}
+
+/**
+ * Personal iCalendar subscription of a user
+ * The URL embeds a secret token; creating a new feed revokes the old URL
+ */
+export interface CalendarFeed {
+  url?: string; // Only returned when the feed is created, the token is stored hashed
+  createdAt: string;
+}
+
 /**
  * Calendar events input
  */
@@ -273,6 +552,7 @@ export interface CalendarEvent {
   availableSeats: number;
   category: EventCategory;
   status: EventStatus;
+  seriesId?: string;
 }
 
 // Re-export EventCategory for backwards compatibility
@@ -0,0 +1,222 @@
+/**
+ * Feedback Types for TEMS
+ * Post-event feedback forms, attendee responses and aggregated results
+ */
+
+// Feedback Question Type Enum
+export enum FeedbackQuestionType {
+  RATING = 'RATING',                    // 1-5 stars
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',  // One of the question's options
+  TEXT = 'TEXT',                        // Free text
+}
+
+/**
+ * Feedback Question
+ * Matches the GraphQL FeedbackQuestion type
+ */
+export interface FeedbackQuestion {
+  id: string;
+  type: FeedbackQuestionType;
+  prompt: string;
+  options?: string[];  // MULTIPLE_CHOICE only
+  required: boolean;
+}
+
+/**
+ * Feedback Form (DynamoDB item)
+ * One per event. Every response also bumps responseCount here, which is
+ * what locks the questions once the first answer is in.
+ */
+export interface FeedbackFormRecord {
+  PK: string;  // EVENT#<eventId>
+  SK: string;  // FEEDBACK_FORM
+  eventId: string;
+  questions?: FeedbackQuestion[];  // Missing until the organizer saves a form
+  responseCount?: number;
+  updatedBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Feedback Form
+ * Matches the GraphQL FeedbackForm type
+ * The overall 1-5 rating is always asked and is not part of questions
+ */
+export interface FeedbackForm {
+  eventId: string;
+  eventTitle: string;
+  questions: FeedbackQuestion[];
+  isDefault: boolean;  // Organizer has not customized the form
+  responseCount: number;
+  acceptingResponsesUntil: string;  // ISO timestamp
+  hasSubmitted: boolean;  // Whether the current user already responded
+}
+
+/**
+ * Feedback Question Input
+ * Matches the GraphQL FeedbackQuestionInput type
+ */
+export interface FeedbackQuestionInput {
+  id?: string;  // Generated when missing
+  type: FeedbackQuestionType;
+  prompt: string;
+  options?: string[];
+  required?: boolean;
+}
+
+/**
+ * Feedback Answer
+ * Matches the GraphQL FeedbackAnswerInput type; exactly one value is set,
+ * depending on the question type
+ */
+export interface FeedbackAnswer {
+  questionId: string;
+  rating?: number;
+  choice?: string;
+  text?: string;
+}
+
+/**
+ * Submit Event Feedback Input
+ * Matches the GraphQL SubmitEventFeedbackInput type
+ */
+export interface SubmitEventFeedbackInput {
+  eventId: string;
+  overallRating: number;
+  answers: FeedbackAnswer[];
+}
+
+/**
+ * Feedback Response (DynamoDB item)
+ * Keyed by user so each attendee answers once. The user ID never leaves
+ * the backend; organizers only see aggregates and anonymous rows.
+ */
+export interface FeedbackResponseRecord {
+  PK: string;  // EVENT#<eventId>
+  SK: string;  // FEEDBACK#<userId>
+  eventId: string;
+  registrationId: string;
+  overallRating: number;
+  answers: FeedbackAnswer[];
+  submittedAt: string;  // ISO timestamp
+}
+
+/**
+ * Feedback Response
+ * Matches the GraphQL FeedbackResponse type (anonymous, for organizers)
+ */
+export interface FeedbackResponse {
+  submittedAt: string;
+  overallRating: number;
+  answers: FeedbackAnswer[];
+}
+
+/**
+ * Submit Event Feedback Result
+ * Matches the GraphQL SubmitEventFeedbackResult type
+ */
+export interface SubmitEventFeedbackResult {
+  eventId: string;
+  submittedAt: string;
+}
+
+/**
+ * Count of responses for one rating value or choice
+ */
+export interface FeedbackDistributionEntry {
+  value: string;
+  count: number;
+}
+
+/**
+ * Aggregated answers to a single question
+ * Matches the GraphQL FeedbackQuestionResult type
+ */
+export interface FeedbackQuestionResult {
+  questionId: string;
+  type: FeedbackQuestionType;
+  prompt: string;
+  responseCount: number;
+  average?: number;  // RATING only
+  distribution: FeedbackDistributionEntry[];  // RATING and MULTIPLE_CHOICE
+  textResponses: string[];  // TEXT only
+}
+
+/**
+ * Feedback Results
+ * Matches the GraphQL FeedbackResults type
+ * Returned by getEventFeedbackResults query
+ */
+export interface FeedbackResults {
+  eventId: string;
+  eventTitle: string;
+  responseCount: number;
+  attendedCount: number;
+  averageRating?: number;
+  ratingDistribution: FeedbackDistributionEntry[];
+  questions: FeedbackQuestionResult[];
+}
+
+/**
+ * Organizer Feedback Summary (DynamoDB item)
+ * Running totals of overall ratings across all of an organizer's events
+ */
+export interface OrganizerFeedbackSummaryRecord {
+  PK: string;  // USER#<organizerId>
+  SK: string;  // FEEDBACK_SUMMARY
+  ratingSum: number;
+  ratingCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Organizer Rating
+ * Matches the GraphQL OrganizerRating type
+ */
+export interface OrganizerRating {
+  organizerId: string;
+  averageRating?: number;
+  ratingCount: number;
+}
+
+/**
+ * Feedback Invitation Marker (DynamoDB item)
+ * Makes sure each attendee is invited once per event
+ */
+export interface FeedbackInvitationRecord {
+  PK: string;  // FEEDBACK_INVITATION#<registrationId>
+  SK: string;  // EVENT#<eventId>
+  registrationId: string;
+  eventId: string;
+  userId: string;
+  sentAt: string;  // ISO timestamp
+  ttl: number;  // TTL for DynamoDB
+}
+
+/**
+ * Feedback Requested Detail
+ * EventBridge payload for FeedbackRequested, consumed by the notifications service
+ */
+export interface FeedbackRequestedDetail {
+  registrationId: string;
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  feedbackDeadline: string;  // ISO timestamp
+  userId: string;
+  userEmail: string;
+  userName: string;
+  timestamp: string;
+}
+
+// Feedback invitation run summary
+export interface FeedbackInvitationResult {
+  eventId: string;
+  attendees: number;
+  invitationsSent: number;
+  invitationsSkipped: number;
+  failures: number;
+}
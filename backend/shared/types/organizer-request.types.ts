@@ -0,0 +1,93 @@
+/**
+ * Organizer Request Types for TEMS
+ * Participants ask for organizer access; administrators approve or deny from a queue
+ */
+
+/**
+ * Organizer Request Status
+ */
+export enum OrganizerRequestStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  DENIED = 'DENIED',
+}
+
+/**
+ * What the requester organizes events for
+ */
+export enum OrganizerAffiliationType {
+  CLUB = 'CLUB',
+  DEPARTMENT = 'DEPARTMENT',
+}
+
+/**
+ * Organizer Request (DynamoDB item)
+ * One per user; a denied request is replaced when the user asks again
+ */
+export interface OrganizerRequestRecord {
+  PK: string;       // USER#<userId>
+  SK: string;       // ORGANIZER_REQUEST
+  GSI1PK?: string;  // ORGANIZER_REQUEST#PENDING (only while pending)
+  GSI1SK?: string;  // <submittedAt>
+  userId: string;
+  userEmail: string;
+  userName: string;
+  affiliationType: OrganizerAffiliationType;
+  affiliation: string;  // Club or department name
+  justification: string;
+  status: OrganizerRequestStatus;
+  submittedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;  // Admin user ID
+  decisionNote?: string;
+  updatedAt: string;
+}
+
+/**
+ * Organizer Request
+ * Matches the GraphQL OrganizerRequest type
+ */
+export interface OrganizerRequest {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  affiliationType: OrganizerAffiliationType;
+  affiliation: string;
+  justification: string;
+  status: OrganizerRequestStatus;
+  submittedAt: string;
+  reviewedAt: string | null;
+  decisionNote: string | null;
+}
+
+/**
+ * Organizer Request Connection
+ * Returned by listPendingOrganizerRequests query
+ */
+export interface OrganizerRequestConnection {
+  items: OrganizerRequest[];
+  nextToken: string | null;
+}
+
+/**
+ * Submit Organizer Request Input
+ * Matches the GraphQL SubmitOrganizerRequestInput type
+ */
+export interface SubmitOrganizerRequestInput {
+  affiliationType: OrganizerAffiliationType;
+  affiliation: string;
+  justification: string;
+}
+
+/**
+ * OrganizerAccessApproved / OrganizerAccessDenied event detail
+ * Shaped for the notifications service, which reads userId/userEmail/userName
+ */
+export interface OrganizerAccessDecidedDetail {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  affiliation: string;
+  decisionNote?: string;
+  timestamp: string;
+}
@@ -20,6 +20,8 @@ export interface Registration {
   SK: string;  // REGISTRATION#<registrationId> or WAITLIST#<position>
   GSI1PK?: string;  // EVENT#<eventId>
   GSI1SK?: string;  // STATUS#<status>#<timestamp>
+  GSI2PK?: string;  // PROMOTION#PENDING (only while status is PROMOTION_PENDING)
+  GSI2SK?: string;  // <promotionDeadline>
   
   // Domain Fields
   id: string;
@@ -35,6 +37,7 @@ export interface Registration {
   promotionDeadline?: string;  // ISO timestamp - 24h from promotion
   registeredAt: string;  // ISO timestamp
   attendedAt?: string;  // ISO timestamp
+  checkedInBy?: string;  // User ID of the organizer/admin who scanned the ticket
   cancelledAt?: string;  // ISO timestamp
   createdAt: string;
   updatedAt: string;
@@ -61,6 +64,33 @@ export interface GraphQLRegistration {
   attendedAt?: string | null;
 }
 
+/**
+ * Roster Entry
+ * Matches the GraphQL RosterEntry type
+ * Registration as seen by the event organizer, including attendee contact details
+ */
+export interface RosterEntry {
+  registrationId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  status: RegistrationStatus;
+  waitlistPosition?: number | null;
+  promotionDeadline?: string | null;
+  registeredAt: string;
+  attendedAt?: string | null;
+}
+
+/**
+ * Roster Connection
+ * Matches the GraphQL RosterConnection type
+ * Returned by listEventRegistrations query
+ */
+export interface RosterConnection {
+  items: RosterEntry[];
+  nextToken?: string | null;
+}
+
 // GraphQL Input Types
 export interface RegisterForEventInput {
   eventId: string;
@@ -71,9 +101,18 @@ export interface CancelRegistrationInput {
   registrationId: string;  // Registration ID
 }
 
+export interface ListEventRegistrationsInput {
+  eventId: string;
+  status?: RegistrationStatus;
+  limit?: number;
+  nextToken?: string;
+}
+
 export interface CheckInAttendeeInput {
   registrationId: string;
   qrCodeData: string;  // For verification
+  eventId?: string;  // Event being scanned for - rejects tickets for other events
+  scannedAt?: string;  // When the ticket was scanned, for scans synced after going offline
 }
 
 // DTOs for Lambda handlers
@@ -168,3 +207,146 @@ export interface RegistrationValidation {
   eventIsFull: boolean;
   eventIsCancelled: boolean;
 }
+
+// Promotion expiry types
+export interface PromotionExpiredDetail {
+  registrationId: string;
+  eventId: string;
+  eventTitle: string;
+  userId: string;
+  userEmail: string;
+  userName: string;
+  policy: 'CANCEL' | 'REQUEUE';
+  waitlistPosition?: number;  // Set when policy is REQUEUE
+  promotionDeadline: string;
+  timestamp: string;
+}
+
+// Promotion expiry sweep summary
+export interface PromotionSweepResult {
+  expiredFound: number;
+  cancelled: number;
+  requeued: number;
+  failures: number;
+}
+
+// Event reminder types
+export type ReminderType = 'REMINDER_24H' | 'REMINDER_1H';
+
+/**
+ * Reminder Sent Marker (DynamoDB item)
+ * One item per (registration, reminder type, event start time). Keying on the
+ * start time means a rescheduled event gets a fresh reminder.
+ */
+export interface ReminderRecord {
+  PK: string;  // REMINDER#<registrationId>
+  SK: string;  // <reminderType>#<startDateTime>
+  registrationId: string;
+  eventId: string;
+  userId: string;
+  reminderType: ReminderType;
+  eventStartDateTime: string;
+  sentAt: string;  // ISO timestamp
+  ttl: number;  // TTL for DynamoDB
+}
+
+/**
+ * Event Reminder Detail
+ * EventBridge payload for EventReminder24h / EventReminder1h,
+ * consumed by the notifications service
+ */
+export interface EventReminderDetail {
+  registrationId: string;
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  eventLocation: string;
+  eventRoom?: string;
+  eventDescription?: string;
+  hoursUntil: number;  // 24 or 1
+  userId: string;
+  userEmail: string;
+  userName: string;
+  timestamp: string;
+}
+
+// Reminder dispatch run summary
+export interface ReminderDispatchResult {
+  reminderType: ReminderType;
+  eventsScanned: number;
+  remindersSent: number;
+  remindersSkipped: number;
+  failures: number;
+}
+
+/**
+ * Registration Status Counts
+ * Number of USER# registration rows per status for one event
+ */
+export interface RegistrationStatusCounts {
+  registered: number;
+  waitlisted: number;
+  promotionPending: number;
+  attended: number;
+  noShow: number;
+  cancelled: number;
+}
+
+/**
+ * Capacity Discrepancy
+ * Matches the GraphQL CapacityDiscrepancy type
+ * Compares the stored event counters with the recounted registration rows
+ */
+export interface CapacityDiscrepancy {
+  eventId: string;
+  eventTitle: string;
+  startDateTime: string;
+  capacity: number;
+  storedRegisteredCount: number;
+  actualRegisteredCount: number;
+  storedWaitlistCount: number;
+  actualWaitlistCount: number;
+  statusCounts: RegistrationStatusCounts;
+  hasDiscrepancy: boolean;
+  repaired: boolean;
+  checkedAt: string;
+}
+
+/**
+ * Check-In Stats
+ * Matches the GraphQL CheckInStats type
+ * Returned by getCheckInStats query
+ */
+export interface CheckInStats {
+  eventId: string;
+  checkedInCount: number;
+  expectedCount: number;
+}
+
+/**
+ * Capacity Report Input
+ * Matches the GraphQL CapacityReportInput type
+ */
+export interface CapacityReportInput {
+  eventId?: string;
+  startDateAfter?: string;
+  startDateBefore?: string;
+  onlyDiscrepancies?: boolean;
+}
+
+// Capacity reconciliation run summary
+export interface CapacityReconciliationResult {
+  eventsChecked: number;
+  discrepanciesFound: number;
+  repaired: number;
+  failures: number;
+}
+
+// Event completion sweep summary
+export interface EventCompletionResult {
+  eventsFound: number;
+  completed: number;
+  noShowsMarked: number;
+  failures: number;
+}
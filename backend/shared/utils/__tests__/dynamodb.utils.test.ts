@@ -0,0 +1,96 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { BatchGetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+
+const mockSend = jest.fn<(command: any) => Promise<any>>();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual<typeof import('@aws-sdk/lib-dynamodb')>('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+  };
+});
+
+import { batchGetEvents, getSeriesOccurrences } from '../dynamodb.utils';
+
+// Table dynamodb.utils falls back to without DYNAMODB_TABLE_NAME
+const TABLE_NAME = 'terrapin-events-dev';
+
+function eventItem(id: string, occurrenceIndex: number): Record<string, any> {
+  return { PK: `EVENT#${id}`, SK: 'METADATA', id, occurrenceIndex, status: 'PUBLISHED' };
+}
+
+describe('batchGetEvents', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('retries unprocessed keys until every event is loaded', async () => {
+    mockSend
+      .mockResolvedValueOnce({
+        Responses: { [TABLE_NAME]: [eventItem('evt-a', 0)] },
+        UnprocessedKeys: { [TABLE_NAME]: { Keys: [{ PK: 'EVENT#evt-b', SK: 'METADATA' }] } },
+      })
+      .mockResolvedValueOnce({ Responses: { [TABLE_NAME]: [eventItem('evt-b', 1)] } });
+
+    const events = await batchGetEvents(['evt-a', 'evt-b']);
+
+    expect(events.map((event) => event.id).sort()).toEqual(['evt-a', 'evt-b']);
+    expect(mockSend.mock.calls[1][0].input.RequestItems[TABLE_NAME].Keys).toEqual([
+      { PK: 'EVENT#evt-b', SK: 'METADATA' },
+    ]);
+  });
+
+  it('fails rather than returning a partial result when keys stay unprocessed', async () => {
+    mockSend.mockResolvedValue({
+      Responses: { [TABLE_NAME]: [] },
+      UnprocessedKeys: { [TABLE_NAME]: { Keys: [{ PK: 'EVENT#evt-a', SK: 'METADATA' }] } },
+    });
+
+    await expect(batchGetEvents(['evt-a'])).rejects.toThrow('Failed to load 1 events: unprocessed keys remain');
+    expect(mockSend).toHaveBeenCalledTimes(5);
+  });
+
+  it('reads at most 100 keys per request', async () => {
+    mockSend.mockResolvedValue({ Responses: { [TABLE_NAME]: [] } });
+
+    await batchGetEvents(Array.from({ length: 150 }, (_, i) => `evt-${i}`));
+
+    expect(mockSend.mock.calls.map(([command]) => command.input.RequestItems[TABLE_NAME].Keys.length)).toEqual([
+      100, 50,
+    ]);
+  });
+});
+
+describe('getSeriesOccurrences', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('returns every occurrence in series order', async () => {
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof QueryCommand) {
+        return { Items: [{ eventId: 'evt-a' }, { eventId: 'evt-b' }] };
+      }
+      if (command instanceof BatchGetCommand) {
+        return { Responses: { [TABLE_NAME]: [eventItem('evt-b', 1), eventItem('evt-a', 0)] } };
+      }
+      throw new Error(`Unexpected command ${command.constructor.name}`);
+    });
+
+    const occurrences = await getSeriesOccurrences('ser-1');
+
+    expect(occurrences.map((occurrence) => occurrence.id)).toEqual(['evt-a', 'evt-b']);
+  });
+
+  it('fails when an occurrence cannot be loaded', async () => {
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof QueryCommand) {
+        return { Items: [{ eventId: 'evt-a' }, { eventId: 'evt-b' }] };
+      }
+      return { Responses: { [TABLE_NAME]: [eventItem('evt-a', 0)] } };
+    });
+
+    await expect(getSeriesOccurrences('ser-1')).rejects.toThrow('Failed to load 1 occurrences of series ser-1');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from '@jest/globals';
+import { RecurrenceFrequency, Weekday } from '../../types/event.types';
+import { expandRecurrence, MAX_SERIES_OCCURRENCES, toRRuleString } from '../recurrence.utils';
+
+const TIME_ZONE = 'America/New_York';
+
+describe('expandRecurrence', () => {
+  it('keeps weekly occurrences on the local wall clock across daylight saving', () => {
+    // 7pm EDT on Monday 27 October 2025; clocks go back on 2 November
+    const starts = expandRecurrence(
+      '2025-10-27T23:00:00.000Z',
+      { frequency: RecurrenceFrequency.WEEKLY, count: 3 },
+      TIME_ZONE
+    );
+
+    expect(starts).toEqual([
+      '2025-10-27T23:00:00.000Z',
+      '2025-11-04T00:00:00.000Z',
+      '2025-11-11T00:00:00.000Z',
+    ]);
+  });
+
+  it('expands BYDAY within each week, starting from the first occurrence', () => {
+    const starts = expandRecurrence(
+      '2025-10-08T23:00:00.000Z', // Wednesday
+      { frequency: RecurrenceFrequency.WEEKLY, byWeekday: [Weekday.MO, Weekday.WE], count: 4 },
+      TIME_ZONE
+    );
+
+    expect(starts).toEqual([
+      '2025-10-08T23:00:00.000Z',
+      '2025-10-13T23:00:00.000Z',
+      '2025-10-15T23:00:00.000Z',
+      '2025-10-20T23:00:00.000Z',
+    ]);
+  });
+
+  it('applies the interval', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.WEEKLY, interval: 2, count: 3 },
+      TIME_ZONE
+    );
+
+    expect(starts).toEqual([
+      '2026-01-05T15:00:00.000Z',
+      '2026-01-19T15:00:00.000Z',
+      '2026-02-02T15:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the day of month of the first occurrence', () => {
+    const starts = expandRecurrence(
+      '2026-01-31T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.MONTHLY, count: 3 },
+      TIME_ZONE
+    );
+
+    expect(starts).toEqual([
+      '2026-01-31T15:00:00.000Z',
+      '2026-03-31T14:00:00.000Z',
+      '2026-05-31T14:00:00.000Z',
+    ]);
+  });
+
+  it('removes exception dates after counting them', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.DAILY, count: 5, exceptions: ['2026-01-07'] },
+      TIME_ZONE
+    );
+
+    expect(starts).toEqual([
+      '2026-01-05T15:00:00.000Z',
+      '2026-01-06T15:00:00.000Z',
+      '2026-01-08T15:00:00.000Z',
+      '2026-01-09T15:00:00.000Z',
+    ]);
+  });
+
+  it('includes an occurrence starting exactly at UNTIL', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.DAILY, until: '2026-01-09T15:00:00.000Z' },
+      TIME_ZONE
+    );
+
+    expect(starts).toHaveLength(5);
+    expect(starts[4]).toBe('2026-01-09T15:00:00.000Z');
+  });
+
+  it('caps COUNT at the series limit', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.DAILY, count: 100 },
+      TIME_ZONE
+    );
+
+    expect(starts).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+
+  it('runs one past the limit for a long UNTIL rule, so the caller can reject it', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      { frequency: RecurrenceFrequency.DAILY, until: '2027-01-05T15:00:00.000Z' },
+      TIME_ZONE
+    );
+
+    expect(starts).toHaveLength(MAX_SERIES_OCCURRENCES + 1);
+  });
+
+  it('still runs past the limit when exceptions remove occurrences', () => {
+    const starts = expandRecurrence(
+      '2026-01-05T15:00:00.000Z',
+      {
+        frequency: RecurrenceFrequency.DAILY,
+        until: '2027-01-05T15:00:00.000Z',
+        exceptions: ['2026-01-06', '2026-01-07'],
+      },
+      TIME_ZONE
+    );
+
+    expect(starts).toHaveLength(MAX_SERIES_OCCURRENCES + 1);
+  });
+});
+
+describe('toRRuleString', () => {
+  it('formats COUNT rules', () => {
+    expect(
+      toRRuleString({ frequency: RecurrenceFrequency.WEEKLY, byWeekday: [Weekday.MO, Weekday.WE], count: 10 })
+    ).toBe('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10');
+  });
+
+  it('formats UNTIL as a UTC basic-format timestamp', () => {
+    expect(
+      toRRuleString({ frequency: RecurrenceFrequency.DAILY, interval: 2, until: '2026-01-09T15:00:00.000Z' })
+    ).toBe('FREQ=DAILY;INTERVAL=2;UNTIL=20260109T150000Z');
+  });
+});
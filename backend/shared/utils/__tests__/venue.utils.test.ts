@@ -0,0 +1,163 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Event, VenueBooking } from '../../types/event.types';
+import { EventStatus } from '../../types/common';
+
+const mockBatchGetEvents = jest.fn<(eventIds: string[]) => Promise<Event[]>>();
+const mockListRoomBookings = jest.fn<
+  (building: string, room: string, startDateTime: string, endDateTime: string) => Promise<VenueBooking[]>
+>();
+
+jest.mock('../dynamodb.utils', () => ({
+  batchGetEvents: (eventIds: string[]) => mockBatchGetEvents(eventIds),
+  listRoomBookings: (building: string, room: string, startDateTime: string, endDateTime: string) =>
+    mockListRoomBookings(building, room, startDateTime, endDateTime),
+}));
+
+import { describeBookings, findFreeSlots, getVenueAvailability } from '../venue.utils';
+
+// Wednesday 4 March 2026, 2pm-3pm EST
+const REQUEST_START = '2026-03-04T19:00:00.000Z';
+const REQUEST_END = '2026-03-04T20:00:00.000Z';
+
+function booking(eventId: string, startDateTime: string, endDateTime: string): VenueBooking {
+  return {
+    PK: 'VENUE#Chemistry#1402',
+    SK: `BOOKING#${startDateTime}#${eventId}`,
+    venueId: 'Chemistry#1402',
+    eventId,
+    startDateTime,
+    endDateTime,
+    status: 'ACTIVE',
+    createdAt: '2026-02-01T00:00:00.000Z',
+    updatedAt: '2026-02-01T00:00:00.000Z',
+  };
+}
+
+function event(id: string, status: EventStatus, organizerId = 'organizer-1'): Event {
+  return { id, title: `Title of ${id}`, status, organizerId } as Event;
+}
+
+describe('venue availability', () => {
+  beforeEach(() => {
+    mockBatchGetEvents.mockReset();
+    mockListRoomBookings.mockReset();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-03-01T00:00:00.000Z'));
+  });
+
+  describe('getVenueAvailability', () => {
+    it('reports an overlapping booking with the nearest free slots', async () => {
+      mockListRoomBookings.mockResolvedValue([
+        booking('evt-seminar', '2026-03-04T18:30:00.000Z', '2026-03-04T19:30:00.000Z'),
+      ]);
+      mockBatchGetEvents.mockResolvedValue([event('evt-seminar', EventStatus.PUBLISHED)]);
+
+      const availability = await getVenueAvailability(
+        'Chemistry', '1402', REQUEST_START, REQUEST_END, { userId: 'someone-else' }
+      );
+
+      expect(availability.available).toBe(false);
+      expect(availability.conflicts).toEqual([
+        expect.objectContaining({ eventId: 'evt-seminar', title: 'Title of evt-seminar', room: '1402' }),
+      ]);
+      expect(availability.suggestedSlots.map((slot) => slot.startDateTime)).toEqual([
+        '2026-03-04T19:30:00.000Z',
+        '2026-03-04T20:00:00.000Z',
+        '2026-03-04T20:30:00.000Z',
+      ]);
+    });
+
+    it('treats back-to-back bookings as free', async () => {
+      mockListRoomBookings.mockResolvedValue([
+        booking('evt-before', '2026-03-04T18:00:00.000Z', REQUEST_START),
+        booking('evt-after', REQUEST_END, '2026-03-04T21:00:00.000Z'),
+      ]);
+      mockBatchGetEvents.mockResolvedValue([
+        event('evt-before', EventStatus.PUBLISHED),
+        event('evt-after', EventStatus.PUBLISHED),
+      ]);
+
+      const availability = await getVenueAvailability('Chemistry', '1402', REQUEST_START, REQUEST_END, {});
+
+      expect(availability).toMatchObject({ available: true, conflicts: [], suggestedSlots: [] });
+    });
+
+    it('ignores the booking of the event being updated', async () => {
+      mockListRoomBookings.mockResolvedValue([booking('evt-self', REQUEST_START, REQUEST_END)]);
+      mockBatchGetEvents.mockResolvedValue([]);
+
+      const availability = await getVenueAvailability(
+        'Chemistry', '1402', REQUEST_START, REQUEST_END, {}, 'evt-self'
+      );
+
+      expect(availability.available).toBe(true);
+    });
+  });
+
+  describe('describeBookings', () => {
+    const bookings = [
+      booking('evt-cancelled', REQUEST_START, REQUEST_END),
+      booking('evt-missing', REQUEST_START, REQUEST_END),
+      booking('evt-draft', REQUEST_START, REQUEST_END),
+    ];
+
+    beforeEach(() => {
+      mockBatchGetEvents.mockResolvedValue([
+        event('evt-cancelled', EventStatus.CANCELLED),
+        event('evt-draft', EventStatus.DRAFT, 'organizer-1'),
+      ]);
+    });
+
+    it('drops only cancelled events and keeps bookings of events that could not be loaded', async () => {
+      const slots = await describeBookings(bookings, { userId: 'someone-else' });
+
+      expect(slots.map((slot) => [slot.eventId, slot.title])).toEqual([
+        ['evt-missing', null],
+        ['evt-draft', null],
+      ]);
+    });
+
+    it('shows unpublished titles to their organizer and administrators', async () => {
+      const organizerView = await describeBookings(bookings, { userId: 'organizer-1' });
+      const adminView = await describeBookings(bookings, { userId: 'admin-1', isAdmin: true });
+
+      expect(organizerView.find((slot) => slot.eventId === 'evt-draft')?.title).toBe('Title of evt-draft');
+      expect(adminView.find((slot) => slot.eventId === 'evt-draft')?.title).toBe('Title of evt-draft');
+    });
+
+    it('propagates a failed event read instead of freeing the room', async () => {
+      mockBatchGetEvents.mockRejectedValue(new Error('Failed to load 3 events: unprocessed keys remain'));
+
+      await expect(describeBookings(bookings, {})).rejects.toThrow('unprocessed keys remain');
+    });
+  });
+
+  describe('findFreeSlots', () => {
+    it('keeps suggestions within opening hours', () => {
+      // 9pm-11pm EST, with the room taken from 6pm until closing
+      const start = Date.parse('2026-03-05T02:00:00.000Z');
+      const slots = findFreeSlots(
+        [{ startDateTime: '2026-03-04T23:00:00.000Z', endDateTime: '2026-03-05T04:00:00.000Z' }],
+        start,
+        start + 2 * 60 * 60 * 1000
+      );
+
+      expect(slots.map((slot) => slot.startDateTime)).toEqual([
+        '2026-03-04T20:00:00.000Z',
+        '2026-03-04T20:30:00.000Z',
+        '2026-03-04T21:00:00.000Z',
+      ]);
+    });
+
+    it('never suggests a time in the past', () => {
+      // Half an hour from now
+      const start = Date.parse('2026-03-01T00:30:00.000Z');
+      const slots = findFreeSlots([], start, start + 60 * 60 * 1000);
+
+      expect(slots.map((slot) => slot.startDateTime)).toEqual([
+        '2026-03-01T01:00:00.000Z',
+        '2026-03-01T01:30:00.000Z',
+        '2026-03-01T02:00:00.000Z',
+      ]);
+    });
+  });
+});
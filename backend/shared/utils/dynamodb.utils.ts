@@ -5,13 +5,41 @@ import {
   GetCommand,
   UpdateCommand,
   QueryCommand,
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  BatchWriteCommandOutput,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
-import { Event, VenueBooking } from '../types/event.types';
+import {
+  Event,
+  EventImageVariants,
+  EventSeries,
+  VenueBooking,
+  EventReview,
+  ApprovalQueueItem,
+  ApprovalQueueConnection,
+} from '../types/event.types';
 import { EventStatus } from '../types/common';
+import { generateGeoPK, generateGeoSK } from './geo.utils';
 
 const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' }));
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'terrapin-events-dev';
 
+// Retries of unprocessed batch reads and writes, doubling the delay each time
+export const BATCH_MAX_ATTEMPTS = 5;
+const BATCH_BASE_DELAY_MS = 50;
+
+/**
+ * Wait before retrying unprocessed batch items
+ * Unprocessed items mean the table is throttling, so back off with jitter
+ */
+export function batchRetryDelay(attempt: number): Promise<void> {
+  const delayMs = BATCH_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return new Promise((resolve) => setTimeout(resolve, delayMs + Math.random() * delayMs));
+}
+
 /**
  * Generate unique event ID
  */
@@ -25,6 +53,18 @@ export function generateEventId(): string {
   return id;
 }
 
+/**
+ * Generate unique series ID
+ */
+export function generateSeriesId(): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  let id = 'ser-';
+  for (let i = 0; i < 21; i++) {
+    id += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return id;
+}
+
 /**
  * Convert Event to DynamoDB item
  */
@@ -40,6 +80,8 @@ export function eventToDynamoDBItem(event: Partial<Event>): Record<string, any>
     GSI2SK: event.startDateTime,
     GSI3PK: event.GSI3PK,
     GSI3SK: event.GSI3SK,
+    GSI4PK: event.GSI4PK,
+    GSI4SK: event.GSI4SK,
     entityType: 'Event',
     id: event.id,
     title: event.title,
@@ -55,7 +97,17 @@ export function eventToDynamoDBItem(event: Partial<Event>): Record<string, any>
     status: event.status || EventStatus.DRAFT,
     tags: event.tags || [],
     imageUrl: event.imageUrl,
+    imageVariants: event.imageVariants,
     version: event.version || 1,
+    promotionExpiryPolicy: event.promotionExpiryPolicy,
+    requiresApproval: event.requiresApproval,
+    organizerEmail: event.organizerEmail,
+    organizerName: event.organizerName,
+    approvalSubmittedAt: event.approvalSubmittedAt,
+    rejectionReason: event.rejectionReason,
+    publishedAt: event.publishedAt,
+    seriesId: event.seriesId,
+    occurrenceIndex: event.occurrenceIndex,
     slug: event.slug,
     shareableUrl: event.shareableUrl,
     searchTerms: event.searchTerms,
@@ -79,6 +131,8 @@ export function dynamoDBItemToEvent(item: Record<string, any>): Event {
     GSI2SK: item.GSI2SK,
     GSI3PK: item.GSI3PK,
     GSI3SK: item.GSI3SK,
+    GSI4PK: item.GSI4PK,
+    GSI4SK: item.GSI4SK,
     id: item.id,
     title: item.title,
     description: item.description,
@@ -93,7 +147,17 @@ export function dynamoDBItemToEvent(item: Record<string, any>): Event {
     status: item.status,
     tags: item.tags,
     imageUrl: item.imageUrl,
+    imageVariants: item.imageVariants,
     version: item.version,
+    promotionExpiryPolicy: item.promotionExpiryPolicy,
+    requiresApproval: item.requiresApproval,
+    organizerEmail: item.organizerEmail,
+    organizerName: item.organizerName,
+    approvalSubmittedAt: item.approvalSubmittedAt,
+    rejectionReason: item.rejectionReason,
+    publishedAt: item.publishedAt,
+    seriesId: item.seriesId,
+    occurrenceIndex: item.occurrenceIndex,
     slug: item.slug,
     shareableUrl: item.shareableUrl,
     searchTerms: item.searchTerms,
@@ -143,11 +207,14 @@ export async function getEvent(eventId: string): Promise<Event | null> {
 
 /**
  * Update event with optimistic locking
+ *
+ * @param removeAttributes - Attributes to delete, e.g. index keys that no longer apply
  */
 export async function updateEvent(
   eventId: string,
   updates: Partial<Event>,
-  currentVersion: number
+  currentVersion: number,
+  removeAttributes: string[] = []
 ): Promise<Event> {
   const timestamp = new Date().toISOString();
   
@@ -174,6 +241,14 @@ export async function updateEvent(
   expressionAttributeValues[':updatedAt'] = timestamp;
   expressionAttributeValues[':currentVersion'] = currentVersion;
 
+  const removeExpressionParts = removeAttributes.map(key => {
+    expressionAttributeNames[`#${key}`] = key;
+    return `#${key}`;
+  });
+  const removeExpression = removeExpressionParts.length > 0
+    ? ` REMOVE ${removeExpressionParts.join(', ')}`
+    : '';
+
   const response = await client.send(
     new UpdateCommand({
       TableName: TABLE_NAME,
@@ -181,7 +256,7 @@ export async function updateEvent(
         PK: `EVENT#${eventId}`,
         SK: 'METADATA',
       },
-      UpdateExpression: `SET ${updateExpressionParts.join(', ')}`,
+      UpdateExpression: `SET ${updateExpressionParts.join(', ')}${removeExpression}`,
       ConditionExpression: '#version = :currentVersion',
       ExpressionAttributeNames: expressionAttributeNames,
       ExpressionAttributeValues: expressionAttributeValues,
@@ -196,14 +271,88 @@ export async function updateEvent(
   return dynamoDBItemToEvent(response.Attributes);
 }
 
+/**
+ * Write the geo index keys of an event that has coordinates
+ * Leaves version and updatedAt alone, so it is safe to run alongside user edits
+ */
+export async function setEventGeoKeys(event: Event): Promise<void> {
+  const coordinates = event.location?.coordinates;
+  if (!coordinates) {
+    return;
+  }
+
+  try {
+    await client.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${event.id}`,
+          SK: 'METADATA',
+        },
+        UpdateExpression: 'SET GSI4PK = :pk, GSI4SK = :sk',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeValues: {
+          ':pk': generateGeoPK(coordinates),
+          ':sk': generateGeoSK(coordinates, event.id),
+        },
+      })
+    );
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Attach processed image variants to an event
+ * Leaves version alone like setEventGeoKeys, so an organizer editing the event meanwhile is not rejected
+ *
+ * @returns Updated event, or null when the event no longer exists
+ */
+export async function setEventImage(
+  eventId: string,
+  variants: EventImageVariants
+): Promise<Event | null> {
+  try {
+    const response = await client.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `EVENT#${eventId}`,
+          SK: 'METADATA',
+        },
+        UpdateExpression: 'SET imageUrl = :imageUrl, imageVariants = :variants, updatedAt = :updatedAt',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeValues: {
+          ':imageUrl': variants.hero,
+          ':variants': variants,
+          ':updatedAt': new Date().toISOString(),
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+
+    return response.Attributes ? dynamoDBItemToEvent(response.Attributes) : null;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Update event status
+ * The first publish is recorded in publishedAt
  */
 export async function updateEventStatus(
   eventId: string,
   status: EventStatus
 ): Promise<Event> {
   const timestamp = new Date().toISOString();
+  const publishedAt =
+    status === EventStatus.PUBLISHED ? ', #publishedAt = if_not_exists(#publishedAt, :updatedAt)' : '';
 
   const response = await client.send(
     new UpdateCommand({
@@ -212,11 +361,12 @@ export async function updateEventStatus(
         PK: `EVENT#${eventId}`,
         SK: 'METADATA',
       },
-      UpdateExpression: 'SET #status = :status, #updatedAt = :updatedAt, #version = #version + :inc',
+      UpdateExpression: `SET #status = :status, #updatedAt = :updatedAt, #version = #version + :inc${publishedAt}`,
       ExpressionAttributeNames: {
         '#status': 'status',
         '#updatedAt': 'updatedAt',
         '#version': 'version',
+        ...(publishedAt && { '#publishedAt': 'publishedAt' }),
       },
       ExpressionAttributeValues: {
         ':status': status,
@@ -236,6 +386,7 @@ export async function updateEventStatus(
 
 /**
  * Delete event (soft delete by setting status to CANCELLED)
+ * Bumps the version like any other change, so calendar feeds pick up the cancellation
  */
 export async function deleteEvent(eventId: string): Promise<void> {
   const timestamp = new Date().toISOString();
@@ -247,14 +398,16 @@ export async function deleteEvent(eventId: string): Promise<void> {
         PK: `EVENT#${eventId}`,
         SK: 'METADATA',
       },
-      UpdateExpression: 'SET #status = :status, #updatedAt = :updatedAt',
+      UpdateExpression: 'SET #status = :status, #updatedAt = :updatedAt, #version = #version + :inc',
       ExpressionAttributeNames: {
         '#status': 'status',
         '#updatedAt': 'updatedAt',
+        '#version': 'version',
       },
       ExpressionAttributeValues: {
         ':status': EventStatus.CANCELLED,
         ':updatedAt': timestamp,
+        ':inc': 1,
       },
     })
   );
@@ -364,8 +517,12 @@ export async function createVenueBooking(
   const bookingItem = {
     PK: `VENUE#${venueId}`,
     SK: `BOOKING#${startDateTime}`,
+    GSI3PK: `VENUE#BUILDING#${building}`, // Building-wide booking listings
+    GSI3SK: `BOOKING#${startDateTime}#${room}`,
     entityType: 'VenueBooking',
     venueId,
+    building,
+    room,
     eventId,
     startDateTime,
     endDateTime,
@@ -408,58 +565,549 @@ export async function createSlugLookup(
 }
 
 /**
- * Check for venue conflicts
+ * Mark a venue booking as cancelled so the slot is free again
+ * No-op if the booking does not exist
+ */
+export async function cancelVenueBooking(
+  building: string,
+  room: string,
+  startDateTime: string
+): Promise<void> {
+  try {
+    await client.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `VENUE#${building}#${room}`,
+          SK: `BOOKING#${startDateTime}`,
+        },
+        UpdateExpression: 'SET #status = :cancelled, updatedAt = :updatedAt',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':cancelled': 'CANCELLED',
+          ':updatedAt': new Date().toISOString(),
+        },
+      })
+    );
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Lookback applied to booking range queries: bookings are keyed by start time,
+ * so one that started up to a day before the range can still overlap it
+ */
+const BOOKING_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * List active bookings of one room that may overlap the given range
  */
-export async function checkVenueConflict(
+export async function listRoomBookings(
   building: string,
   room: string,
   startDateTime: string,
-  endDateTime: string,
-  excludeEventId?: string
-): Promise<boolean> {
-  const venueId = `${building}#${room}`;
+  endDateTime: string
+): Promise<VenueBooking[]> {
+  const bookings: VenueBooking[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :startKey AND :endKey',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `VENUE#${building}#${room}`,
+          ':startKey': `BOOKING#${new Date(Date.parse(startDateTime) - BOOKING_LOOKBACK_MS).toISOString()}`,
+          ':endKey': `BOOKING#${endDateTime}`,
+          ':status': 'ACTIVE',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    bookings.push(...((response.Items || []) as VenueBooking[]));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return bookings.filter((booking) => Date.parse(booking.endDateTime) > Date.parse(startDateTime));
+}
+
+/**
+ * List active bookings of every room in a building that may overlap the given range
+ */
+export async function listBuildingBookings(
+  building: string,
+  startDateTime: string,
+  endDateTime: string
+): Promise<VenueBooking[]> {
+  const bookings: VenueBooking[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI3',
+        KeyConditionExpression: 'GSI3PK = :pk AND GSI3SK BETWEEN :startKey AND :endKey',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pk': `VENUE#BUILDING#${building}`,
+          ':startKey': `BOOKING#${new Date(Date.parse(startDateTime) - BOOKING_LOOKBACK_MS).toISOString()}`,
+          ':endKey': `BOOKING#${endDateTime}`,
+          ':status': 'ACTIVE',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    bookings.push(...((response.Items || []) as VenueBooking[]));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return bookings.filter((booking) => Date.parse(booking.endDateTime) > Date.parse(startDateTime));
+}
+
+/**
+ * Get several events by ID
+ * Missing events are left out; results are not in any particular order.
+ * Throttled keys are retried, and the call fails if any are still unprocessed.
+ */
+export async function batchGetEvents(eventIds: string[]): Promise<Event[]> {
+  const events: Event[] = [];
+  const uniqueIds = [...new Set(eventIds)];
+
+  // BatchGetItem accepts at most 100 keys per request
+  for (let i = 0; i < uniqueIds.length; i += 100) {
+    let keys: Record<string, any>[] | undefined = uniqueIds.slice(i, i + 100).map((eventId) => ({
+      PK: `EVENT#${eventId}`,
+      SK: 'METADATA',
+    }));
+
+    for (let attempt = 0; keys && keys.length > 0; attempt++) {
+      // Callers treat a missing event as deleted, so never return a partial result
+      if (attempt >= BATCH_MAX_ATTEMPTS) {
+        throw new Error(`Failed to load ${keys.length} events: unprocessed keys remain`);
+      }
 
+      if (attempt > 0) {
+        await batchRetryDelay(attempt);
+      }
+
+      const batch: BatchGetCommandOutput = await client.send(
+        new BatchGetCommand({
+          RequestItems: { [TABLE_NAME]: { Keys: keys } },
+        })
+      );
+
+      events.push(...(batch.Responses?.[TABLE_NAME] || []).map(dynamoDBItemToEvent));
+      keys = batch.UnprocessedKeys?.[TABLE_NAME]?.Keys;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Partition key of the admin review queue
+ * Queue items: PK=APPROVAL#PENDING, SK=<submittedAt>#<eventId>, so the oldest submission is reviewed first
+ */
+const APPROVAL_QUEUE_PK = 'APPROVAL#PENDING';
+
+function approvalQueueSK(submittedAt: string, eventId: string): string {
+  return `${submittedAt}#${eventId}`;
+}
+
+function eventReviewToDynamoDBItem(review: EventReview): Record<string, any> {
+  return {
+    PK: `EVENT#${review.eventId}`,
+    SK: `REVIEW#${review.createdAt}#${review.id}`,
+    entityType: 'EventReview',
+    ...review,
+  };
+}
+
+/**
+ * Move an event into the review queue
+ * Sets PENDING_APPROVAL, enqueues the event and records the submission in the audit trail.
+ * The organizer's contact details are kept on the event so the review outcome can be sent to them.
+ * Fails with TransactionCanceledException if the event changed since it was read
+ */
+export async function submitEventForReview(
+  event: Event,
+  review: EventReview,
+  organizer: { email: string; name: string }
+): Promise<Event> {
+  const submittedAt = review.createdAt;
+
+  await client.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: `EVENT#${event.id}`,
+              SK: 'METADATA',
+            },
+            UpdateExpression:
+              'SET #status = :status, #approvalSubmittedAt = :submittedAt, #organizerEmail = :organizerEmail, ' +
+              '#organizerName = :organizerName, #updatedAt = :updatedAt, #version = #version + :inc ' +
+              'REMOVE #rejectionReason',
+            ConditionExpression: '#status = :currentStatus AND #version = :currentVersion',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+              '#approvalSubmittedAt': 'approvalSubmittedAt',
+              '#organizerEmail': 'organizerEmail',
+              '#organizerName': 'organizerName',
+              '#updatedAt': 'updatedAt',
+              '#version': 'version',
+              '#rejectionReason': 'rejectionReason',
+            },
+            ExpressionAttributeValues: {
+              ':status': EventStatus.PENDING_APPROVAL,
+              ':currentStatus': event.status,
+              ':currentVersion': event.version,
+              ':submittedAt': submittedAt,
+              ':organizerEmail': organizer.email,
+              ':organizerName': organizer.name,
+              ':updatedAt': submittedAt,
+              ':inc': 1,
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: {
+              PK: APPROVAL_QUEUE_PK,
+              SK: approvalQueueSK(submittedAt, event.id),
+              entityType: 'ApprovalQueueItem',
+              eventId: event.id,
+              submittedBy: review.actorId,
+              submittedAt,
+              approvalReasons: review.approvalReasons || [],
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: eventReviewToDynamoDBItem(review),
+          },
+        },
+      ],
+    })
+  );
+
+  return {
+    ...event,
+    status: EventStatus.PENDING_APPROVAL,
+    approvalSubmittedAt: submittedAt,
+    organizerEmail: organizer.email,
+    organizerName: organizer.name,
+    rejectionReason: undefined,
+    version: event.version + 1,
+    updatedAt: submittedAt,
+  };
+}
+
+/**
+ * Record a reviewer decision on a PENDING_APPROVAL event
+ * Moves the event to review.newStatus, removes it from the queue and appends to the audit trail
+ * Fails with TransactionCanceledException if another reviewer decided first or the organizer
+ * edited the event since it was read, so a decision always applies to the reviewed version
+ */
+export async function recordEventReviewDecision(
+  event: Event,
+  review: EventReview
+): Promise<Event> {
+  const rejectionReason = review.action === 'REJECTED' ? review.comment : undefined;
+  const published = review.newStatus === EventStatus.PUBLISHED;
+  const publishedAt = published ? event.publishedAt || review.createdAt : event.publishedAt;
+
+  await client.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: `EVENT#${event.id}`,
+              SK: 'METADATA',
+            },
+            UpdateExpression: rejectionReason
+              ? 'SET #status = :status, #rejectionReason = :reason, #updatedAt = :updatedAt, #version = #version + :inc'
+              : 'SET #status = :status, #updatedAt = :updatedAt, #version = #version + :inc' +
+                (published ? ', #publishedAt = if_not_exists(#publishedAt, :updatedAt)' : '') +
+                ' REMOVE #rejectionReason',
+            ConditionExpression: '#status = :pending AND #version = :currentVersion',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+              '#rejectionReason': 'rejectionReason',
+              '#updatedAt': 'updatedAt',
+              '#version': 'version',
+              ...(published && { '#publishedAt': 'publishedAt' }),
+            },
+            ExpressionAttributeValues: {
+              ':status': review.newStatus,
+              ':pending': EventStatus.PENDING_APPROVAL,
+              ':currentVersion': event.version,
+              ':updatedAt': review.createdAt,
+              ':inc': 1,
+              ...(rejectionReason && { ':reason': rejectionReason }),
+            },
+          },
+        },
+        {
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: APPROVAL_QUEUE_PK,
+              SK: approvalQueueSK(event.approvalSubmittedAt || '', event.id),
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: eventReviewToDynamoDBItem(review),
+          },
+        },
+      ],
+    })
+  );
+
+  return {
+    ...event,
+    status: review.newStatus,
+    rejectionReason,
+    publishedAt,
+    version: event.version + 1,
+    updatedAt: review.createdAt,
+  };
+}
+
+/**
+ * List events waiting for review, oldest submission first
+ */
+export async function listPendingApprovals(
+  limit: number = 20,
+  nextToken?: string
+): Promise<ApprovalQueueConnection> {
   const response = await client.send(
     new QueryCommand({
       TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND SK BETWEEN :startKey AND :endKey',
-      FilterExpression: '#status = :status',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-      },
+      KeyConditionExpression: 'PK = :pk',
       ExpressionAttributeValues: {
-        ':pk': `VENUE#${venueId}`,
-        ':startKey': `BOOKING#${new Date(Date.parse(startDateTime) - 24 * 60 * 60 * 1000).toISOString()}`,
-        ':endKey': `BOOKING#${new Date(Date.parse(endDateTime) + 24 * 60 * 60 * 1000).toISOString()}`,
-        ':status': 'ACTIVE',
+        ':pk': APPROVAL_QUEUE_PK,
       },
+      Limit: limit,
+      ExclusiveStartKey: nextToken
+        ? JSON.parse(Buffer.from(nextToken, 'base64').toString())
+        : undefined,
     })
   );
 
-  if (!response.Items || response.Items.length === 0) {
-    return false;
-  }
+  const queueItems = response.Items || [];
+  const events = new Map<string, Event>(
+    (await batchGetEvents(queueItems.map((item) => item.eventId))).map((event) => [event.id, event])
+  );
 
-  // Check for actual time overlaps
-  const requestStart = new Date(startDateTime).getTime();
-  const requestEnd = new Date(endDateTime).getTime();
+  const items: ApprovalQueueItem[] = queueItems
+    .filter((item) => events.has(item.eventId))
+    .map((item) => ({
+      event: events.get(item.eventId)!,
+      submittedBy: item.submittedBy,
+      submittedAt: item.submittedAt,
+      approvalReasons: item.approvalReasons || [],
+    }));
 
-  for (const item of response.Items) {
-    const booking = item as VenueBooking;
+  return {
+    items,
+    nextToken: response.LastEvaluatedKey
+      ? Buffer.from(JSON.stringify(response.LastEvaluatedKey)).toString('base64')
+      : null,
+  };
+}
 
-    // Skip if this is the same event (for updates)
-    if (excludeEventId && booking.eventId === excludeEventId) {
-      continue;
+/**
+ * Get the approval audit trail for an event, oldest entry first
+ */
+export async function getEventReviews(eventId: string): Promise<EventReview[]> {
+  const reviews: EventReview[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': `EVENT#${eventId}`,
+          ':prefix': 'REVIEW#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    for (const item of response.Items || []) {
+      reviews.push({
+        id: item.id,
+        eventId: item.eventId,
+        action: item.action,
+        actorId: item.actorId,
+        comment: item.comment,
+        approvalReasons: item.approvalReasons,
+        previousStatus: item.previousStatus,
+        newStatus: item.newStatus,
+        createdAt: item.createdAt,
+      });
     }
 
-    const bookingStart = new Date(booking.startDateTime).getTime();
-    const bookingEnd = new Date(booking.endDateTime).getTime();
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
 
-    // Check for overlap
-    if (requestStart < bookingEnd && requestEnd > bookingStart) {
-      return true; // Conflict found
+  return reviews;
+}
+
+type WriteRequest = NonNullable<BatchWriteCommandInput['RequestItems']>[string][number];
+
+/**
+ * Series occurrence link sort key, zero-padded so occurrences sort by position
+ */
+function seriesOccurrenceSK(occurrenceIndex: number): string {
+  return `OCCURRENCE#${occurrenceIndex.toString().padStart(4, '0')}`;
+}
+
+/**
+ * Write a recurring series: the series item, every occurrence event and the links between them
+ */
+export async function putEventSeries(series: EventSeries, occurrences: Event[]): Promise<void> {
+  const items: Record<string, any>[] = [
+    {
+      PK: `SERIES#${series.id}`,
+      SK: 'METADATA',
+      entityType: 'EventSeries',
+      ...series,
+    },
+  ];
+
+  for (const occurrence of occurrences) {
+    items.push(eventToDynamoDBItem(occurrence));
+    items.push({
+      PK: `SERIES#${series.id}`,
+      SK: seriesOccurrenceSK(occurrence.occurrenceIndex ?? 0),
+      entityType: 'SeriesOccurrence',
+      seriesId: series.id,
+      eventId: occurrence.id,
+      occurrenceIndex: occurrence.occurrenceIndex,
+      createdAt: series.createdAt,
+    });
+  }
+
+  // BatchWriteItem accepts at most 25 items per request
+  for (let i = 0; i < items.length; i += 25) {
+    let requests: WriteRequest[] | undefined = items
+      .slice(i, i + 25)
+      .map((item) => ({ PutRequest: { Item: item } }));
+
+    for (let attempt = 0; requests && requests.length > 0; attempt++) {
+      if (attempt >= BATCH_MAX_ATTEMPTS) {
+        throw new Error(`Failed to write series ${series.id}: unprocessed items remain`);
+      }
+
+      if (attempt > 0) {
+        await batchRetryDelay(attempt);
+      }
+
+      const response: BatchWriteCommandOutput = await client.send(
+        new BatchWriteCommand({
+          RequestItems: { [TABLE_NAME]: requests },
+        })
+      );
+
+      requests = response.UnprocessedItems?.[TABLE_NAME];
     }
   }
+}
+
+/**
+ * Get series by ID
+ */
+export async function getEventSeries(seriesId: string): Promise<EventSeries | null> {
+  const response = await client.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `SERIES#${seriesId}`,
+        SK: 'METADATA',
+      },
+    })
+  );
+
+  if (!response.Item) {
+    return null;
+  }
+
+  const item = response.Item;
+  return {
+    id: item.id,
+    organizerId: item.organizerId,
+    title: item.title,
+    recurrence: item.recurrence,
+    rrule: item.rrule,
+    occurrenceCount: item.occurrenceCount,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Get every occurrence of a series in series order
+ * Occurrences are only ever soft deleted, so one that cannot be loaded fails the call
+ * rather than letting a series-wide change skip it
+ */
+export async function getSeriesOccurrences(seriesId: string): Promise<Event[]> {
+  const eventIds: string[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const response = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': `SERIES#${seriesId}`,
+          ':prefix': 'OCCURRENCE#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    eventIds.push(...(response.Items || []).map((item) => item.eventId));
+    lastEvaluatedKey = response.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  const events = await batchGetEvents(eventIds);
+  const missing = new Set(eventIds).size - events.length;
+
+  if (missing > 0) {
+    throw new Error(`Failed to load ${missing} occurrences of series ${seriesId}`);
+  }
 
-  return false;
+  return events.sort((a, b) => (a.occurrenceIndex ?? 0) - (b.occurrenceIndex ?? 0));
 }
@@ -11,11 +11,19 @@ import {
   EventUpdatedEvent,
   EventPublishedEvent,
   EventCancelledEvent,
+  EventCompletedEvent,
+  EventReview,
+  EventReviewedDetail,
 } from '../types/event.types';
+import { OrganizerAccessDecidedDetail } from '../types/organizer-request.types';
 
 const client = new EventBridgeClient({ region: process.env.AWS_REGION || 'us-east-1' });
 const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME || 'terrapin-events-dev';
 const EVENT_SOURCE = 'com.terrapin.events';
+// Sources the notifications service subscribes to
+const NOTIFICATION_SOURCE = 'tems.events';
+const USERS_NOTIFICATION_SOURCE = 'tems.users';
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
 
 /**
  * Publish domain event to EventBridge
@@ -132,6 +140,33 @@ export async function publishEventCancelled(
   await publishDomainEvent(domainEvent);
 }
 
+/**
+ * Publish EVENT_COMPLETED domain event
+ */
+export async function publishEventCompleted(
+  event: Event,
+  attendance: {
+    attendedCount: number;
+    noShowCount: number;
+  }
+): Promise<void> {
+  const domainEvent: EventCompletedEvent = {
+    eventType: EventDomainEventType.EVENT_COMPLETED,
+    eventId: event.id,
+    timestamp: new Date().toISOString(),
+    event,
+    metadata: {
+      organizerId: event.organizerId,
+      endDateTime: event.endDateTime,
+      registeredCount: event.registeredCount,
+      attendedCount: attendance.attendedCount,
+      noShowCount: attendance.noShowCount,
+    },
+  };
+
+  await publishDomainEvent(domainEvent);
+}
+
 /**
  * Publish CAPACITY_UPDATED domain event
  */
@@ -156,6 +191,122 @@ export async function publishCapacityUpdated(
   await publishDomainEvent(domainEvent);
 }
 
+/**
+ * Publish CAPACITY_UPDATED domain event for a counter repair
+ * Emitted by capacity reconciliation when stored counts drifted from the registration rows
+ */
+export async function publishCapacityReconciled(
+  eventId: string,
+  capacity: number,
+  counts: {
+    oldRegisteredCount: number;
+    registeredCount: number;
+    oldWaitlistCount: number;
+    waitlistCount: number;
+  }
+): Promise<void> {
+  const domainEvent: EventDomainEvent = {
+    eventType: EventDomainEventType.CAPACITY_UPDATED,
+    eventId,
+    timestamp: new Date().toISOString(),
+    metadata: {
+      reason: 'RECONCILIATION',
+      oldCapacity: capacity,
+      newCapacity: capacity,
+      ...counts,
+      availableSeats: Math.max(0, capacity - counts.registeredCount),
+    },
+  };
+
+  await publishDomainEvent(domainEvent);
+}
+
+/**
+ * Publish EventApproved / EventRejected for the notifications service
+ * Tells the organizer the outcome of an approval review
+ */
+export async function publishEventReviewed(
+  event: Event,
+  review: EventReview
+): Promise<void> {
+  if (!event.organizerEmail) {
+    console.warn(`No organizer contact for event ${event.id}, skipping review notification`);
+    return;
+  }
+
+  const startDate = new Date(event.startDateTime);
+  const detail: EventReviewedDetail = {
+    eventId: event.id,
+    eventTitle: event.title,
+    eventDate: startDate.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: EVENT_TIMEZONE,
+    }),
+    eventTime: startDate.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: EVENT_TIMEZONE,
+    }),
+    eventLocation: event.location?.building || '',
+    userId: event.organizerId,
+    userEmail: event.organizerEmail,
+    userName: event.organizerName || 'Organizer',
+    reviewComment: review.action === 'APPROVED' ? review.comment : undefined,
+    rejectionReason: review.action === 'REJECTED' ? review.comment : undefined,
+    timestamp: review.createdAt,
+  };
+
+  const response = await client.send(
+    new PutEventsCommand({
+      Entries: [
+        {
+          Source: NOTIFICATION_SOURCE,
+          DetailType: review.action === 'APPROVED' ? 'EventApproved' : 'EventRejected',
+          Detail: JSON.stringify(detail),
+          EventBusName: EVENT_BUS_NAME,
+        },
+      ],
+    })
+  );
+
+  if (response.FailedEntryCount && response.FailedEntryCount > 0) {
+    console.error('Failed to publish review notification:', response.Entries);
+    throw new Error('Failed to publish review notification to EventBridge');
+  }
+}
+
+/**
+ * Notify a user that their organizer access request was approved or denied
+ * @param approved - Whether organizer access was granted
+ * @param detail - Requester contact and the reviewer's note
+ */
+export async function publishOrganizerAccessDecided(
+  approved: boolean,
+  detail: OrganizerAccessDecidedDetail
+): Promise<void> {
+  const response = await client.send(
+    new PutEventsCommand({
+      Entries: [
+        {
+          Source: USERS_NOTIFICATION_SOURCE,
+          DetailType: approved ? 'OrganizerAccessApproved' : 'OrganizerAccessDenied',
+          Detail: JSON.stringify(detail),
+          EventBusName: EVENT_BUS_NAME,
+        },
+      ],
+    })
+  );
+
+  if (response.FailedEntryCount && response.FailedEntryCount > 0) {
+    console.error('Failed to publish organizer access notification:', response.Entries);
+    throw new Error('Failed to publish organizer access notification to EventBridge');
+  }
+}
+
 /**
  * Batch publish multiple domain events
  */
@@ -0,0 +1,181 @@
+/**
+ * Geo Utility Functions
+ * Geohash encoding and distance calculations for location-based event search
+ */
+
+import { EventCoordinates } from '../types/event.types';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// Precision stored on events (~5m cells) and the prefix length used as index partition (~39km x 20km)
+export const GEOHASH_PRECISION = 9;
+export const GEOHASH_PARTITION_PRECISION = 4;
+
+// Largest radius whose bounding box is covered by a handful of partitions
+export const MAX_SEARCH_RADIUS_METERS = 20000;
+
+// Most geohash prefixes queried for one radius search
+const MAX_COVERING_CELLS = 16;
+
+/**
+ * Encode coordinates as a geohash
+ *
+ * @example
+ * encodeGeohash(38.9869, -76.9426, 6)
+ * // Returns: "dqcmc1"
+ */
+export function encodeGeohash(latitude: number, longitude: number, precision: number = GEOHASH_PRECISION): string {
+  const latRange: [number, number] = [-90, 90];
+  const lngRange: [number, number] = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (value >= mid) {
+      charIndex = charIndex * 2 + 1;
+      range[0] = mid;
+    } else {
+      charIndex = charIndex * 2;
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ *
+ * @returns Distance in meters
+ */
+export function distanceInMeters(from: EventCoordinates, to: EventCoordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Geohash prefixes whose cells together cover a circle
+ * Uses the finest precision that needs at most MAX_COVERING_CELLS prefixes; every event
+ * within the radius has a geohash starting with one of them
+ *
+ * @example
+ * geohashCoverage({ latitude: 38.9869, longitude: -76.9426 }, 500)
+ * // Returns: ["dqcmbb", "dqcmc0", "dqcmc2", ...]
+ */
+export function geohashCoverage(center: EventCoordinates, radiusMeters: number): string[] {
+  const latDelta = radiusMeters / METERS_PER_DEGREE_LATITUDE;
+  const lngDelta = radiusMeters / (METERS_PER_DEGREE_LATITUDE * Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+
+  const minLat = Math.max(center.latitude - latDelta, -90);
+  const maxLat = Math.min(center.latitude + latDelta, 90);
+  const minLng = center.longitude - lngDelta;
+  const maxLng = center.longitude + lngDelta;
+
+  for (let precision = GEOHASH_PRECISION - 3; precision > GEOHASH_PARTITION_PRECISION; precision--) {
+    const cells = coveringCells(minLat, maxLat, minLng, maxLng, precision);
+    if (cells) {
+      return cells;
+    }
+  }
+
+  return coveringCells(minLat, maxLat, minLng, maxLng, GEOHASH_PARTITION_PRECISION, Infinity) || [];
+}
+
+/**
+ * Index partition key of a geohash
+ */
+export function geohashPartition(geohash: string): string {
+  return geohash.slice(0, GEOHASH_PARTITION_PRECISION);
+}
+
+/**
+ * Generate GSI4PK for geo queries
+ *
+ * @example
+ * generateGeoPK({ latitude: 38.9869, longitude: -76.9426 })
+ * // Returns: "EVENT#GEO#dqcm"
+ */
+export function generateGeoPK(coordinates: EventCoordinates): string {
+  return `EVENT#GEO#${geohashPartition(encodeGeohash(coordinates.latitude, coordinates.longitude))}`;
+}
+
+/**
+ * Generate GSI4SK for geo queries
+ *
+ * @example
+ * generateGeoSK({ latitude: 38.9869, longitude: -76.9426 }, "evt-123")
+ * // Returns: "dqcmc1k55#evt-123"
+ */
+export function generateGeoSK(coordinates: EventCoordinates, eventId: string): string {
+  return `${encodeGeohash(coordinates.latitude, coordinates.longitude)}#${eventId}`;
+}
+
+/**
+ * Check that coordinates are on the globe
+ */
+export function isValidCoordinates(coordinates: EventCoordinates): boolean {
+  return (
+    Number.isFinite(coordinates.latitude) &&
+    Number.isFinite(coordinates.longitude) &&
+    Math.abs(coordinates.latitude) <= 90 &&
+    Math.abs(coordinates.longitude) <= 180
+  );
+}
+
+// Geohashes of the cells covering a bounding box, or null when more than maxCells are needed
+function coveringCells(
+  minLat: number,
+  maxLat: number,
+  minLng: number,
+  maxLng: number,
+  precision: number,
+  maxCells: number = MAX_COVERING_CELLS
+): string[] | null {
+  const lngBits = Math.ceil((precision * 5) / 2);
+  const latBits = Math.floor((precision * 5) / 2);
+  const cellLat = 180 / 2 ** latBits;
+  const cellLng = 360 / 2 ** lngBits;
+
+  const firstRow = Math.floor((minLat + 90) / cellLat);
+  const lastRow = Math.min(Math.floor((maxLat + 90) / cellLat), 2 ** latBits - 1);
+  const firstColumn = Math.floor((minLng + 180) / cellLng);
+  const lastColumn = Math.floor((maxLng + 180) / cellLng);
+
+  if ((lastRow - firstRow + 1) * (lastColumn - firstColumn + 1) > maxCells) {
+    return null;
+  }
+
+  const cells = new Set<string>();
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const latitude = -90 + (row + 0.5) * cellLat;
+      // Wrap around the antimeridian
+      const longitude = ((((-180 + (column + 0.5) * cellLng) + 180) % 360) + 360) % 360 - 180;
+      cells.add(encodeGeohash(latitude, longitude, precision));
+    }
+  }
+
+  return Array.from(cells);
+}
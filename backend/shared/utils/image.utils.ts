@@ -0,0 +1,229 @@
+/**
+ * Image Utilities
+ * Event image uploads: presigned POSTs straight into the assets bucket, validation
+ * of what was uploaded and the resized variants served through the assets CDN
+ *
+ * Key layout:
+ *   uploads/events/{eventId}/{uploadId}                    original, deleted once processed
+ *   images/events/{eventId}/{uploadId}/{variant}.webp      public variants
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import sharp from 'sharp';
+import { EventImageVariants, ImageUploadTarget, SeriesEditScope } from '../types/event.types';
+
+const s3 = new S3Client({ region: process.env.AWS_REGION || 'us-east-1' });
+const ASSETS_BUCKET_NAME = process.env.ASSETS_BUCKET_NAME || 'terrapin-events-s3-assets-dev';
+const ASSETS_CDN_DOMAIN = process.env.ASSETS_CDN_DOMAIN || '';
+
+const UPLOAD_PREFIX = 'uploads/events/';
+const VARIANT_PREFIX = 'images/events/';
+
+/**
+ * Formats accepted for upload (checked again against the decoded file)
+ */
+export const ALLOWED_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const MAX_IMAGE_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Presigned POSTs are short-lived; the uploader requests one right before sending the file
+const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+
+// Smallest image that still fills the hero without looking blurry, and a cap against decompression bombs
+const MIN_IMAGE_WIDTH = 800;
+const MIN_IMAGE_HEIGHT = 450;
+const MAX_INPUT_PIXELS = 40_000_000;
+
+/**
+ * Variant sizes, both 16:9 like the uploader's crop
+ */
+export const IMAGE_VARIANT_SIZES = {
+  thumbnail: { width: 640, height: 360 }, // EventCard
+  hero: { width: 1600, height: 900 }, // EventDetail
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANT_SIZES;
+
+/**
+ * Upload that landed in the assets bucket
+ */
+export interface UploadedImage {
+  body: Buffer;
+  uploadedBy?: string;
+  scope?: SeriesEditScope; // Which occurrences of a series get the image
+}
+
+/**
+ * Create a presigned POST for an event image
+ * The policy pins the key, content type and size, so S3 rejects anything else
+ */
+export async function createImageUploadPost(
+  eventId: string,
+  userId: string,
+  contentType: string,
+  scope?: SeriesEditScope
+): Promise<ImageUploadTarget> {
+  const key = `${UPLOAD_PREFIX}${eventId}/${randomUUID()}`;
+
+  const fields: Record<string, string> = {
+    'Content-Type': contentType,
+    'x-amz-meta-uploaded-by': userId,
+  };
+  if (scope) {
+    fields['x-amz-meta-scope'] = scope;
+  }
+
+  const post = await createPresignedPost(s3, {
+    Bucket: ASSETS_BUCKET_NAME,
+    Key: key,
+    Fields: fields,
+    Conditions: [['content-length-range', 1, MAX_IMAGE_UPLOAD_BYTES]],
+    Expires: UPLOAD_URL_TTL_SECONDS,
+  });
+
+  return {
+    url: post.url,
+    fields: post.fields,
+    key,
+    expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+    maxBytes: MAX_IMAGE_UPLOAD_BYTES,
+  };
+}
+
+/**
+ * Split an upload key into its event and upload IDs
+ *
+ * @returns null for keys outside the event upload prefix
+ */
+export function parseImageUploadKey(key: string): { eventId: string; uploadId: string } | null {
+  const match = key.match(/^uploads\/events\/([^/]+)\/([^/]+)$/);
+  return match ? { eventId: match[1], uploadId: match[2] } : null;
+}
+
+/**
+ * Read an uploaded original with the metadata set by the presigned POST
+ */
+export async function getUploadedImage(key: string): Promise<UploadedImage> {
+  const response = await s3.send(
+    new GetObjectCommand({
+      Bucket: ASSETS_BUCKET_NAME,
+      Key: key,
+    })
+  );
+
+  if (!response.Body) {
+    throw new Error(`Uploaded image ${key} has no body`);
+  }
+
+  return {
+    body: Buffer.from(await response.Body.transformToByteArray()),
+    uploadedBy: response.Metadata?.['uploaded-by'],
+    scope: response.Metadata?.scope as SeriesEditScope | undefined,
+  };
+}
+
+/**
+ * Delete an uploaded original (the bucket keeps the noncurrent version for 30 days)
+ */
+export async function deleteUploadedImage(key: string): Promise<void> {
+  await s3.send(
+    new DeleteObjectCommand({
+      Bucket: ASSETS_BUCKET_NAME,
+      Key: key,
+    })
+  );
+}
+
+/**
+ * Check that an upload is an image we can use
+ * The declared content type is not trusted; the file is decoded
+ */
+export async function validateImage(body: Buffer): Promise<{ valid: boolean; message?: string }> {
+  let metadata: sharp.Metadata;
+
+  try {
+    metadata = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    return { valid: false, message: 'File is not a readable image or is too large' };
+  }
+
+  if (!metadata.format || !Object.values(ALLOWED_IMAGE_TYPES).includes(metadata.format)) {
+    return { valid: false, message: `Unsupported image format: ${metadata.format || 'unknown'}` };
+  }
+
+  // EXIF orientations 5-8 are rotated by 90 degrees
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) ?? 0;
+  const height = (rotated ? metadata.width : metadata.height) ?? 0;
+
+  if (width < MIN_IMAGE_WIDTH || height < MIN_IMAGE_HEIGHT) {
+    return {
+      valid: false,
+      message: `Image must be at least ${MIN_IMAGE_WIDTH}x${MIN_IMAGE_HEIGHT} pixels (got ${width}x${height})`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Resize an image into every variant and store them in the assets bucket
+ * rotate() applies the EXIF orientation; sharp then writes no metadata at all,
+ * so EXIF (camera, GPS position) never reaches the public copies
+ *
+ * @returns CDN URLs of the variants
+ */
+export async function createImageVariants(
+  eventId: string,
+  uploadId: string,
+  body: Buffer
+): Promise<EventImageVariants> {
+  const urls: Partial<Record<ImageVariantName, string>> = {};
+
+  for (const [name, size] of Object.entries(IMAGE_VARIANT_SIZES) as [ImageVariantName, { width: number; height: number }][]) {
+    const resized = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(size.width, size.height, { fit: 'cover', position: 'attention', withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer();
+
+    const key = `${VARIANT_PREFIX}${eventId}/${uploadId}/${name}.webp`;
+
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: ASSETS_BUCKET_NAME,
+        Key: key,
+        Body: resized,
+        ContentType: 'image/webp',
+        // A new upload gets a new key, so variants never change
+        CacheControl: 'public, max-age=31536000, immutable',
+      })
+    );
+
+    urls[name] = getAssetUrl(key);
+  }
+
+  return {
+    thumbnail: urls.thumbnail!,
+    hero: urls.hero!,
+    processedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Public URL of an object in the assets bucket
+ */
+export function getAssetUrl(key: string): string {
+  return `https://${ASSETS_CDN_DOMAIN}/${key}`;
+}
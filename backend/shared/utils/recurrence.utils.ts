@@ -0,0 +1,214 @@
+/**
+ * Recurrence Utilities
+ * Expands a recurrence rule (RRULE subset: DAILY/WEEKLY/MONTHLY, INTERVAL,
+ * BYDAY, UNTIL/COUNT plus exception dates) into individual occurrence start times
+ *
+ * Occurrences are generated on the campus wall clock, so a weekly 7pm meeting
+ * stays at 7pm across daylight saving changes
+ */
+
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '../types/event.types';
+
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
+
+/**
+ * Upper bound on the number of occurrences in one series
+ */
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// Weekday codes in JavaScript getUTCDay() order
+const WEEKDAY_ORDER: Weekday[] = [
+  Weekday.SU,
+  Weekday.MO,
+  Weekday.TU,
+  Weekday.WE,
+  Weekday.TH,
+  Weekday.FR,
+  Weekday.SA,
+];
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Expand a recurrence rule into occurrence start times
+ *
+ * @param startDateTime - Start of the first occurrence (ISO 8601)
+ * @param rule - Recurrence rule
+ * @param timeZone - Wall-clock time zone for the series (default: EVENT_TIMEZONE)
+ * @returns Occurrence start times (ISO 8601, UTC), exceptions removed. An UNTIL
+ *   rule that runs past MAX_SERIES_OCCURRENCES yields more than that many, for
+ *   the caller to reject
+ *
+ * @example
+ * expandRecurrence('2025-10-06T23:00:00.000Z', { frequency: 'WEEKLY', count: 3 })
+ * // ['2025-10-06T23:00:00.000Z', '2025-10-13T23:00:00.000Z', '2025-10-20T23:00:00.000Z']
+ */
+export function expandRecurrence(
+  startDateTime: string,
+  rule: RecurrenceRule,
+  timeZone: string = EVENT_TIMEZONE
+): string[] {
+  const interval = rule.interval || 1;
+  const until = rule.until ? new Date(rule.until).getTime() : Number.POSITIVE_INFINITY;
+  const exceptions = new Set(rule.exceptions || []);
+  // Walk one past the cap for UNTIL rules, so a series that is too long is not silently cut short
+  const limit = rule.count
+    ? Math.min(rule.count, MAX_SERIES_OCCURRENCES)
+    : MAX_SERIES_OCCURRENCES + exceptions.size + 1;
+
+  const first = toLocalDateTime(new Date(startDateTime), timeZone);
+  const firstDay = Date.UTC(first.year, first.month - 1, first.day);
+
+  // Weekly rules default to the weekday of the first occurrence
+  const weekdays =
+    rule.byWeekday && rule.byWeekday.length > 0
+      ? rule.byWeekday
+      : [WEEKDAY_ORDER[new Date(firstDay).getUTCDay()]];
+
+  // Candidate calendar days in order (UTC midnight of the local date)
+  const candidates: number[] = [];
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  // Bound the walk so an UNTIL far in the future cannot loop forever
+  for (let step = 0; candidates.length < limit && step < limit * 31; step++) {
+    if (rule.frequency === RecurrenceFrequency.DAILY) {
+      candidates.push(firstDay + step * interval * dayMs);
+    } else if (rule.frequency === RecurrenceFrequency.WEEKLY) {
+      // Weeks start on the Sunday on or before the first occurrence
+      const weekStart = firstDay - new Date(firstDay).getUTCDay() * dayMs + step * interval * 7 * dayMs;
+      for (let offset = 0; offset < 7 && candidates.length < limit; offset++) {
+        const day = weekStart + offset * dayMs;
+        if (day >= firstDay && weekdays.includes(WEEKDAY_ORDER[new Date(day).getUTCDay()])) {
+          candidates.push(day);
+        }
+      }
+    } else {
+      // Monthly on the day of month of the first occurrence; months without that day are skipped
+      const monthDate = new Date(Date.UTC(first.year, first.month - 1 + step * interval, 1));
+      const day = Date.UTC(monthDate.getUTCFullYear(), monthDate.getUTCMonth(), first.day);
+      if (new Date(day).getUTCDate() === first.day) {
+        candidates.push(day);
+      }
+    }
+
+    const last = candidates[candidates.length - 1];
+    if (last !== undefined && toUtc(last, first, timeZone) > until) {
+      break;
+    }
+  }
+
+  return candidates
+    .map((day) => toUtc(day, first, timeZone))
+    .filter((start) => start <= until)
+    .slice(0, limit)
+    .filter((start) => !exceptions.has(toLocalDateKey(new Date(start), timeZone)))
+    .map((start) => new Date(start).toISOString());
+}
+
+/**
+ * Format a recurrence rule as an RFC 5545 RRULE value
+ *
+ * @example
+ * toRRuleString({ frequency: 'WEEKLY', byWeekday: ['MO', 'WE'], count: 10 })
+ * // 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10'
+ */
+export function toRRuleString(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${new Date(rule.until).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant, as used for exception dates
+ */
+export function toLocalDateKey(date: Date, timeZone: string = EVENT_TIMEZONE): string {
+  const local = toLocalDateTime(date, timeZone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+}
+
+/**
+ * Local time of day of an instant, in minutes after midnight
+ */
+export function toLocalMinuteOfDay(date: Date, timeZone: string = EVENT_TIMEZONE): number {
+  const local = toLocalDateTime(date, timeZone);
+  return local.hour * 60 + local.minute;
+}
+
+/**
+ * Wall-clock fields of an instant in the given time zone
+ */
+function toLocalDateTime(date: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Convert a local calendar day plus the first occurrence's wall-clock time to a UTC timestamp
+ */
+function toUtc(day: number, time: LocalDateTime, timeZone: string): number {
+  const date = new Date(day);
+  const wallClock = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    time.hour,
+    time.minute,
+    time.second
+  );
+
+  // Correct by the zone offset, then once more in case the guess crossed a DST boundary
+  let utc = wallClock - getOffset(wallClock, timeZone);
+  utc = wallClock - getOffset(utc, timeZone);
+  return utc;
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds
+ */
+function getOffset(instant: number, timeZone: string): number {
+  const local = toLocalDateTime(new Date(instant), timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
@@ -7,6 +7,8 @@
  * - Building GSI3 keys for location-based queries
  */
 
+import { toLocalDateKey } from './recurrence.utils';
+
 /**
  * Generate a URL-friendly slug from event title and date
  * 
@@ -35,6 +37,23 @@ export function generateSlug(title: string, startDateTime: string): string {
   return `${normalizedTitle}-${month}-${year}`;
 }
 
+/**
+ * Generate a slug for one occurrence of a recurring series
+ * Occurrences share title and month, so the local day of month is appended
+ * 
+ * @param title - Event title
+ * @param startDateTime - Occurrence start date (ISO string)
+ * @returns URL-safe slug
+ * 
+ * @example
+ * generateOccurrenceSlug("Chess Club", "2025-10-15T22:00:00Z")
+ * // Returns: "chess-club-oct-2025-15"
+ */
+export function generateOccurrenceSlug(title: string, startDateTime: string): string {
+  const day = toLocalDateKey(new Date(startDateTime)).slice(8);
+  return `${generateSlug(title, startDateTime)}-${day}`;
+}
+
 /**
  * Generate shareable URL for an event
  * 
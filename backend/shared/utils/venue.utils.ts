@@ -0,0 +1,215 @@
+/**
+ * Venue Utilities
+ * Room availability: which events hold a room during a requested time,
+ * and the nearest free slots of the same length around it
+ */
+
+import {
+  TimeSlot,
+  VenueAvailability,
+  VenueBooking,
+  VenueBookingSlot,
+} from '../types/event.types';
+import { EventStatus } from '../types/common';
+import { batchGetEvents, listRoomBookings } from './dynamodb.utils';
+import { toLocalMinuteOfDay } from './recurrence.utils';
+
+const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'America/New_York';
+
+// Suggested slots start on the half hour, within two days of the requested time
+const SLOT_STEP_MS = 30 * 60 * 1000;
+const SUGGESTION_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+const MAX_SUGGESTED_SLOTS = 3;
+
+// Rooms are bookable from 7am to 11pm campus time
+const VENUE_OPENS_MINUTE = 7 * 60;
+const VENUE_CLOSES_MINUTE = 23 * 60;
+
+/**
+ * Who is asking, used to decide whether the titles of unpublished events are shown
+ */
+export interface VenueViewer {
+  userId?: string;
+  isAdmin?: boolean;
+}
+
+/**
+ * Check whether a room is free during the requested time
+ *
+ * @param excludeEventId - Event whose own booking should be ignored (for updates)
+ * @returns Conflicting bookings and, when the room is taken, the nearest free slots
+ */
+export async function getVenueAvailability(
+  building: string,
+  room: string,
+  startDateTime: string,
+  endDateTime: string,
+  viewer: VenueViewer,
+  excludeEventId?: string
+): Promise<VenueAvailability> {
+  const requestStart = Date.parse(startDateTime);
+  const requestEnd = Date.parse(endDateTime);
+
+  // Load the surrounding window once so slot suggestions need no further queries
+  const bookings = (
+    await listRoomBookings(
+      building,
+      room,
+      new Date(requestStart - SUGGESTION_WINDOW_MS).toISOString(),
+      new Date(requestEnd + SUGGESTION_WINDOW_MS).toISOString()
+    )
+  ).filter((booking) => booking.eventId !== excludeEventId);
+
+  const slots = await describeBookings(bookings, viewer);
+  const conflicts = slots.filter((slot) => overlaps(slot, requestStart, requestEnd));
+
+  return {
+    building,
+    room,
+    available: conflicts.length === 0,
+    conflicts,
+    suggestedSlots: conflicts.length > 0 ? findFreeSlots(slots, requestStart, requestEnd) : [],
+  };
+}
+
+/**
+ * Attach event titles to bookings
+ * Only bookings of cancelled events are dropped. A booking whose event is not found
+ * still blocks the room, with its title hidden; titles of events that are not public
+ * are hidden from everyone but their organizer and administrators
+ */
+export async function describeBookings(
+  bookings: VenueBooking[],
+  viewer: VenueViewer
+): Promise<VenueBookingSlot[]> {
+  const events = await batchGetEvents(bookings.map((booking) => booking.eventId));
+  const eventsById = new Map(events.map((event) => [event.id, event]));
+
+  const slots: VenueBookingSlot[] = [];
+
+  for (const booking of bookings) {
+    const event = eventsById.get(booking.eventId);
+
+    if (event?.status === EventStatus.CANCELLED) {
+      continue;
+    }
+
+    const isPublic =
+      event?.status === EventStatus.PUBLISHED || event?.status === EventStatus.COMPLETED;
+    const canSeeTitle = isPublic || viewer.isAdmin || event?.organizerId === viewer.userId;
+    const [building, room] = booking.venueId.split('#');
+
+    slots.push({
+      eventId: booking.eventId,
+      title: event && canSeeTitle ? event.title : null,
+      building: booking.building || building,
+      room: booking.room || room,
+      startDateTime: booking.startDateTime,
+      endDateTime: booking.endDateTime,
+    });
+  }
+
+  return slots.sort((a, b) => Date.parse(a.startDateTime) - Date.parse(b.startDateTime));
+}
+
+/**
+ * Find the free slots closest to the requested time, keeping its length
+ * Slots must be in the future, within opening hours and clear of every booking
+ */
+export function findFreeSlots(
+  bookings: Array<Pick<VenueBooking, 'startDateTime' | 'endDateTime'>>,
+  requestStart: number,
+  requestEnd: number,
+  limit: number = MAX_SUGGESTED_SLOTS
+): TimeSlot[] {
+  const duration = requestEnd - requestStart;
+  const now = Date.now();
+  const slots: TimeSlot[] = [];
+
+  // Walk outwards from the requested start: +30m, -30m, +1h, -1h, ...
+  for (let offset = SLOT_STEP_MS; offset <= SUGGESTION_WINDOW_MS && slots.length < limit; offset += SLOT_STEP_MS) {
+    for (const start of [requestStart + offset, requestStart - offset]) {
+      const end = start + duration;
+
+      if (start <= now || !isWithinOpeningHours(start, end)) {
+        continue;
+      }
+      if (bookings.some((booking) => overlaps(booking, start, end))) {
+        continue;
+      }
+
+      slots.push({
+        startDateTime: new Date(start).toISOString(),
+        endDateTime: new Date(end).toISOString(),
+      });
+    }
+  }
+
+  return slots
+    .slice(0, limit)
+    .sort((a, b) => Date.parse(a.startDateTime) - Date.parse(b.startDateTime));
+}
+
+/**
+ * Build the error message for a booked room, naming the clashing event and the nearest free slots
+ */
+export function formatVenueConflictMessage(availability: VenueAvailability): string {
+  const venue = `${availability.building} ${availability.room}`;
+  const clashes = availability.conflicts
+    .map(
+      (conflict) =>
+        `${conflict.title ? `"${conflict.title}"` : 'another event'} (${formatTimeRange(
+          conflict.startDateTime,
+          conflict.endDateTime
+        )})`
+    )
+    .join(', ');
+
+  let message = `Venue ${venue} is already booked by ${clashes}`;
+
+  if (availability.suggestedSlots.length > 0) {
+    message += `. Nearest free times: ${availability.suggestedSlots
+      .map((slot) => formatTimeRange(slot.startDateTime, slot.endDateTime))
+      .join('; ')}`;
+  }
+
+  return message;
+}
+
+function overlaps(
+  booking: Pick<VenueBooking, 'startDateTime' | 'endDateTime'>,
+  start: number,
+  end: number
+): boolean {
+  return start < Date.parse(booking.endDateTime) && end > Date.parse(booking.startDateTime);
+}
+
+function isWithinOpeningHours(start: number, end: number): boolean {
+  const startMinute = toLocalMinuteOfDay(new Date(start));
+  const endMinute = toLocalMinuteOfDay(new Date(end));
+
+  // Slots may not run past midnight
+  return (
+    startMinute >= VENUE_OPENS_MINUTE &&
+    endMinute <= VENUE_CLOSES_MINUTE &&
+    endMinute > startMinute &&
+    end - start < 24 * 60 * 60 * 1000
+  );
+}
+
+function formatTimeRange(startDateTime: string, endDateTime: string): string {
+  const day = new Date(startDateTime).toLocaleDateString('en-US', {
+    timeZone: EVENT_TIMEZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  const time = (value: string) =>
+    new Date(value).toLocaleTimeString('en-US', {
+      timeZone: EVENT_TIMEZONE,
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  return `${day}, ${time(startDateTime)}–${time(endDateTime)}`;
+}
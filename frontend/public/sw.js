@@ -0,0 +1,46 @@
+/**
+ * Push Service Worker
+ * TEMS - Terrapin Events Management System
+ *
+ * Shows the browser push notifications sent by the notifications service
+ * and opens the related page when one is clicked.
+ * Payload: { title, body, url, tag, type }
+ */
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'Terrapin Events', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Terrapin Events', {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/favicon.ico',
+      data: { url: payload.url || '/dashboard' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  // Reuse an open tab of the app when there is one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      for (const client of windowClients) {
+        if (client.url === url && 'focus' in client) {
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
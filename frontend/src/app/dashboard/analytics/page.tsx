@@ -0,0 +1,117 @@
+/**
+ * Organizer Analytics Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Registration, waitlist and attendance trends across
+ * all of the current user's events for a chosen period.
+ * Administrators also see platform-wide notification delivery.
+ * Path: /dashboard/analytics
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Alert } from '@/components/ui/Alert';
+import { AnalyticsOverview } from '@/components/analytics/AnalyticsOverview';
+import { DeliveryStatsCard } from '@/components/analytics/DeliveryStatsCard';
+import { useOrganizerAnalytics, useDeliveryStats } from '@/hooks/registrations/useAnalytics';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+/**
+ * Local calendar date as yyyy-mm-dd
+ */
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export default function OrganizerAnalyticsPage() {
+  const { user } = useAuthContext();
+  const [periodDays, setPeriodDays] = useState(30);
+
+  const period = useMemo(() => {
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(start.getDate() - (periodDays - 1));
+    start.setHours(0, 0, 0, 0);
+    return { start, end };
+  }, [periodDays]);
+
+  const range = useMemo(
+    () => ({ startDate: toDateString(period.start), endDate: toDateString(period.end) }),
+    [period]
+  );
+  const deliveryRange = useMemo(
+    () => ({ startDate: period.start.toISOString(), endDate: period.end.toISOString() }),
+    [period]
+  );
+
+  const { analytics, isLoading, error } = useOrganizerAnalytics(range);
+  const delivery = useDeliveryStats(isAdmin(user) ? deliveryRange : null);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="mt-2 text-gray-600">
+            How people sign up for, cancel and attend your events
+          </p>
+        </div>
+        <div>
+          <label htmlFor="analytics-period" className="sr-only">Period</label>
+          <select
+            id="analytics-period"
+            value={periodDays}
+            onChange={(e) => setPeriodDays(Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23]"
+          >
+            {PERIODS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Your Events</h2>
+            <p className="text-sm text-gray-600">
+              {analytics
+                ? `${analytics.eventsPublished} published, ${analytics.eventsCompleted} completed in this period`
+                : 'Activity across every event you organize'}
+            </p>
+          </div>
+        </div>
+        <div className="p-6">
+          {isLoading && !analytics ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A20B23] mx-auto"></div>
+          ) : analytics ? (
+            <AnalyticsOverview analytics={analytics} />
+          ) : null}
+        </div>
+      </div>
+
+      {isAdmin(user) && (
+        <DeliveryStatsCard
+          stats={delivery.stats}
+          isLoading={delivery.isLoading}
+          error={delivery.error}
+          description="All notifications sent across the platform in this period"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Dashboard Approvals Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Review queue for administrators: events awaiting approval, oldest first,
+ * with the rules that sent each event to review.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, ClipboardCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+import { ApprovalQueueItem } from '@/types/event.types';
+import { listPendingApprovals, approveEvent, rejectEvent } from '@/lib/api/events.api';
+
+export default function DashboardApprovalsPage() {
+  const { user } = useAuthContext();
+  const [items, setItems] = useState<ApprovalQueueItem[]>([]);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async (token?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await listPendingApprovals(20, token);
+      setItems(prev => (token ? [...prev, ...result.items] : result.items));
+      setNextToken(result.nextToken || null);
+    } catch (err) {
+      console.error('Failed to load approval queue:', err);
+      setError('Failed to load the approval queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin(user)) {
+      fetchQueue();
+    }
+  }, [user, fetchQueue]);
+
+  const removeFromQueue = (eventId: string) => {
+    setItems(prev => prev.filter(item => item.event.id !== eventId));
+  };
+
+  const handleApprove = async (eventId: string) => {
+    const comment = prompt('Optional comment for the organizer:');
+    if (comment === null) return;
+
+    setPendingId(eventId);
+    setError(null);
+    try {
+      await approveEvent(eventId, comment || undefined);
+      removeFromQueue(eventId);
+    } catch (err) {
+      console.error('Failed to approve event:', err);
+      setError('Failed to approve event. It may have already been reviewed.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleReject = async (eventId: string) => {
+    const reason = prompt('Please provide a reason for rejection:');
+    if (!reason?.trim()) return;
+
+    setPendingId(eventId);
+    setError(null);
+    try {
+      await rejectEvent(eventId, reason.trim());
+      removeFromQueue(eventId);
+    } catch (err) {
+      console.error('Failed to reject event:', err);
+      setError('Failed to reject event. It may have already been reviewed.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (!isAdmin(user)) {
+    return (
+      <Alert variant="error" title="Access denied">
+        Only administrators can review events.
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Approvals</h1>
+        <p className="mt-2 text-gray-600">
+          Review events before they are published
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!loading && items.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <ClipboardCheck className="h-8 w-8 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Nothing to review
+          </h2>
+          <p className="text-gray-600 max-w-md mx-auto">
+            Events submitted for approval will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {items.map(({ event, submittedAt, approvalReasons }) => (
+              <li key={event.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <Link
+                    href={`/events/${event.id}`}
+                    className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                  >
+                    {event.title}
+                  </Link>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(event.startDateTime).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                    {' · '}
+                    {event.category}
+                    {' · '}
+                    Capacity {event.capacity}
+                    {' · '}
+                    Submitted {new Date(submittedAt).toLocaleString('en-US')}
+                  </p>
+                  {approvalReasons.length > 0 && (
+                    <ul className="mt-2 text-xs text-yellow-700 list-disc list-inside">
+                      {approvalReasons.map(reason => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleApprove(event.id)}
+                    disabled={pendingId === event.id}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => handleReject(event.id)}
+                    disabled={pendingId === event.id}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {(loading || nextToken) && (
+            <div className="p-3 border-t border-gray-200 text-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchQueue(nextToken || undefined)}
+                isLoading={loading}
+                disabled={loading}
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
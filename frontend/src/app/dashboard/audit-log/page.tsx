@@ -0,0 +1,94 @@
+/**
+ * Dashboard Audit Log Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Every role change and suspension made from the admin console, newest first.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { AuditLogList } from '@/components/admin/AuditLogList';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+import { AdminAuditEntry } from '@/types/admin.types';
+import { listAdminAuditLog } from '@/lib/api/users.api';
+
+export default function DashboardAuditLogPage() {
+  const { user } = useAuthContext();
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLog = useCallback(async (token?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await listAdminAuditLog(25, token);
+      setEntries(prev => (token ? [...prev, ...result.items] : result.items));
+      setNextToken(result.nextToken || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin(user)) {
+      fetchLog();
+    }
+  }, [user, fetchLog]);
+
+  if (!isAdmin(user)) {
+    return (
+      <Alert variant="error" title="Access denied">
+        Only administrators can view the audit log.
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <p className="mt-2 text-gray-600">
+          Role changes and suspensions across all accounts
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        {loading && entries.length === 0 ? (
+          <div className="p-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A20B23] mx-auto"></div>
+          </div>
+        ) : (
+          <AuditLogList entries={entries} showTarget />
+        )}
+        {nextToken && (
+          <div className="p-3 border-t border-gray-200 text-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fetchLog(nextToken)}
+              isLoading={loading}
+              disabled={loading}
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Event Analytics Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Registration timeline, waitlist conversion, cancellations,
+ * check-in rate and notification delivery for one event.
+ * Path: /dashboard/events/[id]/analytics
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Alert } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { AnalyticsOverview } from '@/components/analytics/AnalyticsOverview';
+import { DeliveryStatsCard } from '@/components/analytics/DeliveryStatsCard';
+import { useEvent } from '@/hooks/events/useEvents';
+import { useEventAnalytics, useDeliveryStats } from '@/hooks/registrations/useAnalytics';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+
+export default function EventAnalyticsPage() {
+  const params = useParams();
+  const eventId = params.id as string;
+  const { user } = useAuthContext();
+  const { event, loading: eventLoading } = useEvent(eventId);
+
+  const canView = !!event && (isAdmin(user) || event.organizerId === user?.userId);
+  const { analytics, isLoading, error, refresh } = useEventAnalytics(canView ? eventId : null);
+
+  // Everything sent about the event since it was created
+  const createdAt = event?.createdAt;
+  const deliveryRange = useMemo(
+    () => (canView && createdAt ? { startDate: createdAt, endDate: new Date().toISOString() } : null),
+    [canView, createdAt]
+  );
+  const delivery = useDeliveryStats(deliveryRange, eventId);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link
+            href="/dashboard/events"
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to events
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="mt-2 text-gray-600">
+            {eventLoading ? 'Loading event...' : event?.title}
+          </p>
+        </div>
+        {canView && (
+          <Button variant="outline" size="sm" onClick={refresh} isLoading={isLoading}>
+            Refresh
+          </Button>
+        )}
+      </div>
+
+      {event && !canView && (
+        <Alert variant="error">
+          Only the event organizer or administrators can view analytics.
+        </Alert>
+      )}
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {canView && (
+        <>
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Registrations</h2>
+              <p className="text-sm text-gray-600">
+                {analytics
+                  ? `Capacity of ${analytics.capacity}`
+                  : 'Sign-ups, waitlist and attendance for this event'}
+              </p>
+            </div>
+            <div className="p-6">
+              {isLoading && !analytics ? (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A20B23] mx-auto"></div>
+              ) : analytics ? (
+                <AnalyticsOverview analytics={analytics} />
+              ) : null}
+            </div>
+          </div>
+
+          <DeliveryStatsCard
+            stats={delivery.stats}
+            isLoading={delivery.isLoading}
+            error={delivery.error}
+            description="Confirmations, reminders and updates sent about this event"
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Event Check-In Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Organizer scanner for attendee QR codes with a live
+ * checked-in / expected counter and an offline queue.
+ * Path: /dashboard/events/[id]/checkin
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, CheckCircle, Clock, RefreshCw, Wifi, WifiOff, XCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { QRScanner } from '@/components/registrations/QRScanner';
+import { useEvent } from '@/hooks/events/useEvents';
+import { useCheckInScanner, ScanOutcome } from '@/hooks/registrations/useCheckIn';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+
+const OUTCOME_STYLES: Record<ScanOutcome, { className: string; icon: typeof CheckCircle; label: string }> = {
+  CHECKED_IN: { className: 'bg-green-50 border-green-200 text-green-800', icon: CheckCircle, label: 'Checked in' },
+  QUEUED: { className: 'bg-blue-50 border-blue-200 text-blue-800', icon: Clock, label: 'Queued' },
+  DUPLICATE: { className: 'bg-yellow-50 border-yellow-200 text-yellow-800', icon: AlertTriangle, label: 'Duplicate' },
+  WRONG_EVENT: { className: 'bg-red-50 border-red-200 text-red-800', icon: XCircle, label: 'Wrong event' },
+  INVALID: { className: 'bg-red-50 border-red-200 text-red-800', icon: XCircle, label: 'Invalid' },
+  ERROR: { className: 'bg-red-50 border-red-200 text-red-800', icon: XCircle, label: 'Error' },
+};
+
+export default function EventCheckInPage() {
+  const params = useParams();
+  const eventId = params.id as string;
+  const { user } = useAuthContext();
+  const { event, loading: eventLoading } = useEvent(eventId);
+  const {
+    stats,
+    statsError,
+    results,
+    lastResult,
+    queuedCount,
+    isOnline,
+    isSyncing,
+    processScan,
+    syncQueue,
+  } = useCheckInScanner(eventId);
+
+  const canCheckIn = !event || isAdmin(user) || event.organizerId === user?.userId;
+  const lastStyle = lastResult ? OUTCOME_STYLES[lastResult.outcome] : null;
+  const LastIcon = lastStyle?.icon;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <Link
+          href="/dashboard/events"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to events
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">Check-In</h1>
+        <p className="mt-2 text-gray-600">
+          {eventLoading ? 'Loading event...' : event?.title}
+        </p>
+      </div>
+
+      {!canCheckIn && (
+        <Alert variant="error">
+          Only the event organizer or administrators can check in attendees.
+        </Alert>
+      )}
+
+      {/* Connectivity */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+            isOnline ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-800'
+          }`}
+        >
+          {isOnline ? <Wifi className="h-4 w-4 mr-1" /> : <WifiOff className="h-4 w-4 mr-1" />}
+          {isOnline ? 'Online' : 'Offline'}
+        </span>
+        {queuedCount > 0 && (
+          <>
+            <span className="text-sm text-gray-700">
+              {queuedCount} scan{queuedCount === 1 ? '' : 's'} waiting to sync
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={syncQueue}
+              isLoading={isSyncing}
+              disabled={!isOnline || isSyncing}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Sync now
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Scanner */}
+        <div className="space-y-4">
+          {canCheckIn && <QRScanner onScan={processScan} />}
+
+          {lastResult && lastStyle && LastIcon && (
+            <div
+              className={`flex items-center gap-3 rounded-lg border p-4 ${lastStyle.className}`}
+              role="status"
+              aria-live="assertive"
+            >
+              <LastIcon className="h-8 w-8 flex-shrink-0" />
+              <div>
+                <p className="text-lg font-semibold">{lastStyle.label}</p>
+                <p className="text-sm">{lastResult.message}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Counter and History */}
+        <div className="space-y-4">
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">Checked in</p>
+            <p className="mt-2 text-4xl font-bold text-gray-900" aria-live="polite">
+              {stats ? stats.checkedInCount : '—'}
+              <span className="text-2xl font-medium text-gray-500">
+                {' '}/ {stats ? stats.expectedCount : '—'}
+              </span>
+            </p>
+            {stats && stats.expectedCount > 0 && (
+              <div className="mt-4 h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${Math.min(100, (stats.checkedInCount / stats.expectedCount) * 100)}%` }}
+                />
+              </div>
+            )}
+            {queuedCount > 0 && (
+              <p className="mt-2 text-sm text-blue-700">+{queuedCount} pending sync</p>
+            )}
+            {statsError && (
+              <p className="mt-2 text-sm text-red-600">{statsError}</p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">
+                Recent Scans
+              </h2>
+            </div>
+            {results.length === 0 ? (
+              <p className="p-6 text-sm text-gray-600 text-center">No scans yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {results.map(result => {
+                  const style = OUTCOME_STYLES[result.outcome];
+                  const Icon = style.icon;
+                  return (
+                    <li key={result.id} className="flex items-center gap-3 px-4 py-3">
+                      <span className={`inline-flex items-center justify-center h-8 w-8 rounded-full border ${style.className}`}>
+                        <Icon className="h-4 w-4" />
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{result.message}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {new Date(result.scannedAt).toLocaleTimeString('en-US')}
+                          {result.registrationId && ` · ${result.registrationId}`}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
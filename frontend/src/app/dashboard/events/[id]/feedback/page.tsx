@@ -0,0 +1,71 @@
+/**
+ * Event Feedback Management Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Organizers customize the post-event feedback questions
+ * and review anonymous results.
+ * Path: /dashboard/events/[id]/feedback
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Alert } from '@/components/ui/Alert';
+import { FeedbackFormEditor } from '@/components/feedback/FeedbackFormEditor';
+import { FeedbackResultsView } from '@/components/feedback/FeedbackResultsView';
+import { useEvent } from '@/hooks/events/useEvents';
+import { useFeedbackForm } from '@/hooks/registrations/useFeedback';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+
+export default function EventFeedbackManagementPage() {
+  const params = useParams();
+  const eventId = params.id as string;
+  const { user } = useAuthContext();
+  const { event, loading: eventLoading } = useEvent(eventId);
+
+  const canManage = !!event && (isAdmin(user) || event.organizerId === user?.userId);
+  const { form, error: formError, isSaving, saveQuestions } = useFeedbackForm(canManage ? eventId : null);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <Link
+          href="/dashboard/events"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to events
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">Feedback</h1>
+        <p className="mt-2 text-gray-600">
+          {eventLoading ? 'Loading event...' : event?.title}
+        </p>
+      </div>
+
+      {event && !canManage && (
+        <Alert variant="error">
+          Only the event organizer or administrators can view feedback.
+        </Alert>
+      )}
+
+      {canManage && (
+        <>
+          {formError && <Alert variant="error">{formError}</Alert>}
+          {form && (
+            <FeedbackFormEditor
+              key={`${form.eventId}-${form.responseCount > 0}`}
+              form={form}
+              isSaving={isSaving}
+              onSave={saveQuestions}
+            />
+          )}
+          <FeedbackResultsView eventId={eventId} eventTitle={event.title} />
+        </>
+      )}
+    </div>
+  );
+}
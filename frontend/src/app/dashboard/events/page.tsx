@@ -1,23 +1,43 @@
 /**
- * Dashboard Events Page (Stub)
+ * Dashboard Events Page
  * TEMS - Terrapin Events Management System
- * 
- * Placeholder for Week 3-4 implementation
+ *
+ * Lists the events the user organizes (all events for administrators)
+ * and shows the attendee roster for the selected event.
  */
 
 'use client';
 
+import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Calendar, Plus } from 'lucide-react';
+import { BarChart3, Calendar, MessageSquare, Plus, ScanLine, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { EventRoster } from '@/components/registrations/EventRoster';
+import { useEvents } from '@/hooks/events/useEvents';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin, isOrganizerOrHigher } from '@/types/auth';
 
 export default function DashboardEventsPage() {
   const router = useRouter();
+  const { user } = useAuthContext();
+  const { events, loading, error, hasMore, fetchMore } = useEvents({ limit: 50 });
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+
+  const canCreateEvents = isOrganizerOrHigher(user);
 
   const handleCreateEvent = () => {
     router.push('/events/new');
   };
 
+  // Organizers only see their own events, administrators see everything
+  const managedEvents = useMemo(() => {
+    if (isAdmin(user)) return events;
+    return events.filter(event => event.organizerId === user?.userId);
+  }, [events, user]);
+
+  const selectedEvent = managedEvents.find(event => event.id === selectedEventId) || null;
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
@@ -28,25 +48,114 @@ export default function DashboardEventsPage() {
             Manage your events and registrations
           </p>
         </div>
-        <Button onClick={handleCreateEvent}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Event
-        </Button>
+        {canCreateEvents ? (
+          <Button onClick={handleCreateEvent}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Event
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={() => router.push('/dashboard/organizer-access')}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Request Organizer Access
+          </Button>
+        )}
       </div>
 
-      {/* Coming Soon Message */}
-      <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
-        <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
-          <Calendar className="h-8 w-8 text-blue-600" />
+      {error && <Alert variant="error">{error.message}</Alert>}
+
+      {!loading && managedEvents.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <Calendar className="h-8 w-8 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            No events yet
+          </h2>
+          <p className="text-gray-600 max-w-md mx-auto">
+            {canCreateEvents
+              ? 'Events you organize will appear here along with their attendee rosters.'
+              : 'Request organizer access to create events for your club or department.'}
+          </p>
         </div>
-        <h2 className="text-xl font-semibold text-gray-900 mb-2">
-          Events Management Coming Soon
-        </h2>
-        <p className="text-gray-600 max-w-md mx-auto">
-          This feature will be available in Week 3-4 implementation. You'll be able to
-          create, manage, and track all your events from here.
-        </p>
-      </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Event List */}
+          <div className="bg-white rounded-lg border border-gray-200 lg:col-span-1">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">
+                Your Events
+              </h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {managedEvents.map(event => (
+                <li key={event.id}>
+                  <button
+                    onClick={() => setSelectedEventId(event.id)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${
+                      event.id === selectedEventId ? 'bg-red-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{event.title}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(event.startDateTime).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                      {' · '}
+                      {event.registeredCount}/{event.capacity} registered
+                      {event.waitlistCount > 0 && ` · ${event.waitlistCount} waitlisted`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {(loading || hasMore) && (
+              <div className="p-3 border-t border-gray-200 text-center">
+                <Button variant="ghost" size="sm" onClick={fetchMore} isLoading={loading} disabled={loading}>
+                  {loading ? 'Loading...' : 'Load more events'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Roster */}
+          <div className="lg:col-span-2">
+            {selectedEvent ? (
+              <div className="space-y-4">
+                <div className="flex justify-end gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/dashboard/events/${selectedEvent.id}/analytics`)}
+                  >
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Analytics
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/dashboard/events/${selectedEvent.id}/feedback`)}
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Feedback
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => router.push(`/dashboard/events/${selectedEvent.id}/checkin`)}
+                  >
+                    <ScanLine className="h-4 w-4 mr-2" />
+                    Open Check-In Scanner
+                  </Button>
+                </div>
+                <EventRoster eventId={selectedEvent.id} eventTitle={selectedEvent.title} />
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg border border-gray-200 p-12 text-center text-gray-600">
+                Select an event to view its registrations
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
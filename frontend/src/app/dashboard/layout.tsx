@@ -20,9 +20,17 @@ import {
   X,
   LogOut,
   Settings,
-  Bell
+  Bell,
+  ClipboardCheck,
+  Bookmark,
+  BarChart3,
+  Users,
+  ScrollText,
+  UserCheck,
+  ShieldCheck
 } from 'lucide-react';
 import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin, isOrganizerOrHigher } from '@/types/auth';
 import { Button } from '@/components/ui/Button';
 
 interface DashboardLayoutProps {
@@ -33,11 +41,20 @@ interface NavItem {
   name: string;
   href: string;
   icon: typeof Home;
+  adminOnly?: boolean;
+  participantOnly?: boolean;  // Hidden once the user can organize events
 }
 
 const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
   { name: 'Events', href: '/dashboard/events', icon: Calendar },
+  { name: 'Analytics', href: '/dashboard/analytics', icon: BarChart3 },
+  { name: 'Saved Searches', href: '/dashboard/saved-searches', icon: Bookmark },
+  { name: 'Become an Organizer', href: '/dashboard/organizer-access', icon: ShieldCheck, participantOnly: true },
+  { name: 'Approvals', href: '/dashboard/approvals', icon: ClipboardCheck, adminOnly: true },
+  { name: 'Organizer Requests', href: '/dashboard/organizer-requests', icon: UserCheck, adminOnly: true },
+  { name: 'Users', href: '/dashboard/users', icon: Users, adminOnly: true },
+  { name: 'Audit Log', href: '/dashboard/audit-log', icon: ScrollText, adminOnly: true },
   { name: 'Messages', href: '/dashboard/messages', icon: MessageSquare },
   { name: 'Profile', href: '/dashboard/profile', icon: User },
 ];
@@ -92,30 +109,33 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
           {/* Navigation */}
           <nav className="flex-1 px-2 py-4 space-y-1 overflow-y-auto">
-            {navigation.map((item) => {
-              const isActive = pathname === item.href;
-              const Icon = item.icon;
-              
-              return (
-                <Link
-                  key={item.name}
-                  href={item.href}
-                  className={`
-                    flex items-center px-4 py-2 text-sm font-medium rounded-lg
-                    transition-colors duration-150
-                    ${
-                      isActive
-                        ? 'bg-blue-50 text-blue-600'
-                        : 'text-gray-700 hover:bg-gray-100'
-                    }
-                  `}
-                  onClick={() => setSidebarOpen(false)}
-                >
-                  <Icon className={`h-5 w-5 mr-3 ${isActive ? 'text-blue-600' : 'text-gray-500'}`} />
-                  {item.name}
-                </Link>
-              );
-            })}
+            {navigation
+              .filter((item) => !item.adminOnly || isAdmin(user))
+              .filter((item) => !item.participantOnly || !isOrganizerOrHigher(user))
+              .map((item) => {
+                const isActive = pathname === item.href;
+                const Icon = item.icon;
+                
+                return (
+                  <Link
+                    key={item.name}
+                    href={item.href}
+                    className={`
+                      flex items-center px-4 py-2 text-sm font-medium rounded-lg
+                      transition-colors duration-150
+                      ${
+                        isActive
+                          ? 'bg-blue-50 text-blue-600'
+                          : 'text-gray-700 hover:bg-gray-100'
+                      }
+                    `}
+                    onClick={() => setSidebarOpen(false)}
+                  >
+                    <Icon className={`h-5 w-5 mr-3 ${isActive ? 'text-blue-600' : 'text-gray-500'}`} />
+                    {item.name}
+                  </Link>
+                );
+              })}
           </nav>
 
           {/* User section */}
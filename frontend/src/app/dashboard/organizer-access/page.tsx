@@ -0,0 +1,264 @@
+/**
+ * Dashboard Organizer Access Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Participants ask for organizer access on behalf of a club or department
+ * and follow the status of their request.
+ */
+
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Clock, Plus, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Alert } from '@/components/ui/Alert';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isOrganizerOrHigher } from '@/types/auth';
+import {
+  AFFILIATION_TYPE_LABELS,
+  OrganizerAffiliationType,
+  OrganizerRequest,
+} from '@/types/admin.types';
+import { getMyOrganizerRequest, submitOrganizerRequest } from '@/lib/api/users.api';
+
+// Keep in sync with the backend limits
+const MAX_AFFILIATION_LENGTH = 120;
+const MIN_JUSTIFICATION_LENGTH = 20;
+const MAX_JUSTIFICATION_LENGTH = 1000;
+
+export default function DashboardOrganizerAccessPage() {
+  const router = useRouter();
+  const { user, signOut } = useAuthContext();
+  const [request, setRequest] = useState<OrganizerRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [affiliationType, setAffiliationType] = useState<OrganizerAffiliationType>('CLUB');
+  const [affiliation, setAffiliation] = useState('');
+  const [justification, setJustification] = useState('');
+
+  const isOrganizer = isOrganizerOrHigher(user);
+
+  const fetchRequest = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRequest(await getMyOrganizerRequest());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your request');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user && !isOrganizer) {
+      fetchRequest();
+    }
+  }, [user, isOrganizer, fetchRequest]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+      setError(`Please tell us a little more (at least ${MIN_JUSTIFICATION_LENGTH} characters)`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const submitted = await submitOrganizerRequest({
+        affiliationType,
+        affiliation: affiliation.trim(),
+        justification: justification.trim(),
+      });
+      setRequest(submitted);
+      setAffiliation('');
+      setJustification('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit your request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Roles are read from the ID token, so a new role needs a new session
+  const handleSignInAgain = async () => {
+    try {
+      await signOut();
+      router.push('/signin');
+    } catch (err) {
+      console.error('Sign out error:', err);
+    }
+  };
+
+  if (isOrganizer) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Organizer Access</h1>
+        <Alert variant="success" title="You have organizer access">
+          You can create and manage events.
+        </Alert>
+        <Link href="/events/new">
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Event
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canSubmit = !loading && request?.status !== 'PENDING' && request?.status !== 'APPROVED';
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Organizer Access</h1>
+        <p className="mt-2 text-gray-600">
+          Organizers create and manage events for their club or department.
+          Tell us who you organize for and an administrator will review your request.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6 animate-pulse">
+          <div className="h-4 w-1/3 bg-gray-200 rounded mb-3" />
+          <div className="h-4 w-2/3 bg-gray-200 rounded" />
+        </div>
+      )}
+
+      {!loading && request?.status === 'PENDING' && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-yellow-100 rounded-full flex items-center justify-center">
+              <Clock className="h-5 w-5 text-yellow-700" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Request under review</h2>
+              <p className="text-sm text-gray-500">
+                Submitted {new Date(request.submittedAt).toLocaleString('en-US')}
+              </p>
+            </div>
+          </div>
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Affiliation</dt>
+              <dd className="text-gray-900">
+                {request.affiliation}
+                <span className="block text-xs text-gray-500">
+                  {AFFILIATION_TYPE_LABELS[request.affiliationType]}
+                </span>
+              </dd>
+            </div>
+            <div className="sm:col-span-2">
+              <dt className="text-gray-500">Why you need access</dt>
+              <dd className="text-gray-900 whitespace-pre-line">{request.justification}</dd>
+            </div>
+          </dl>
+          <p className="mt-4 text-sm text-gray-600">
+            We&apos;ll notify you when an administrator has reviewed your request.
+          </p>
+        </div>
+      )}
+
+      {!loading && request?.status === 'APPROVED' && (
+        <Alert variant="success" title="Your request was approved">
+          <p>
+            Sign in again to start creating events.
+            {request.decisionNote && <> Reviewer note: {request.decisionNote}</>}
+          </p>
+          <Button size="sm" className="mt-3" onClick={handleSignInAgain}>
+            Sign in again
+          </Button>
+        </Alert>
+      )}
+
+      {!loading && request?.status === 'DENIED' && (
+        <Alert variant="warning" title="Your last request was not approved">
+          {request.decisionNote}
+          {' '}You can submit a new request below.
+        </Alert>
+      )}
+
+      {canSubmit && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-red-50 rounded-full flex items-center justify-center">
+              <ShieldCheck className="h-5 w-5 text-[#A20B23]" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900">Request organizer access</h2>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">
+              I organize events for a
+            </legend>
+            <div className="flex flex-col sm:flex-row gap-3">
+              {(Object.keys(AFFILIATION_TYPE_LABELS) as OrganizerAffiliationType[]).map(type => (
+                <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="affiliationType"
+                    value={type}
+                    checked={affiliationType === type}
+                    onChange={() => setAffiliationType(type)}
+                    className="text-[#A20B23] focus:ring-[#A20B23]"
+                  />
+                  {AFFILIATION_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <Input
+            label={affiliationType === 'CLUB' ? 'Club or organization name' : 'Department name'}
+            value={affiliation}
+            onChange={(e) => setAffiliation(e.target.value)}
+            maxLength={MAX_AFFILIATION_LENGTH}
+            placeholder={affiliationType === 'CLUB' ? 'e.g. Terrapin Hiking Club' : 'e.g. Department of Computer Science'}
+            required
+          />
+
+          <div>
+            <label htmlFor="justification" className="block text-sm font-medium text-gray-700 mb-1">
+              What events do you plan to run?
+              <span className="text-red-500 ml-1">*</span>
+            </label>
+            <textarea
+              id="justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              minLength={MIN_JUSTIFICATION_LENGTH}
+              maxLength={MAX_JUSTIFICATION_LENGTH}
+              rows={5}
+              required
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23] focus:border-[#A20B23]"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Include your role in the {affiliationType === 'CLUB' ? 'club' : 'department'} and
+              the kind of events you organize. {justification.length}/{MAX_JUSTIFICATION_LENGTH}
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" isLoading={submitting} disabled={submitting}>
+              Submit Request
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Dashboard Organizer Requests Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Review queue for administrators: participants asking for organizer
+ * access, oldest first. Approving grants the ORGANIZER role.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, UserCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
+import { AFFILIATION_TYPE_LABELS, OrganizerRequest } from '@/types/admin.types';
+import {
+  listOrganizerRequests,
+  approveOrganizerRequest,
+  denyOrganizerRequest,
+} from '@/lib/api/users.api';
+
+export default function DashboardOrganizerRequestsPage() {
+  const { user } = useAuthContext();
+  const [items, setItems] = useState<OrganizerRequest[]>([]);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async (token?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await listOrganizerRequests(20, token);
+      setItems(prev => (token ? [...prev, ...result.items] : result.items));
+      setNextToken(result.nextToken || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load organizer requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin(user)) {
+      fetchQueue();
+    }
+  }, [user, fetchQueue]);
+
+  const removeFromQueue = (userId: string) => {
+    setItems(prev => prev.filter(item => item.userId !== userId));
+  };
+
+  const handleApprove = async (userId: string) => {
+    const comment = prompt('Optional note for the requester:');
+    if (comment === null) return;
+
+    setPendingId(userId);
+    setError(null);
+    try {
+      await approveOrganizerRequest(userId, comment.trim() || undefined);
+      removeFromQueue(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve the request');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDeny = async (userId: string) => {
+    const reason = prompt('Please provide a reason (shown to the requester):');
+    if (!reason?.trim()) return;
+
+    setPendingId(userId);
+    setError(null);
+    try {
+      await denyOrganizerRequest(userId, reason.trim());
+      removeFromQueue(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to deny the request');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (!isAdmin(user)) {
+    return (
+      <Alert variant="error" title="Access denied">
+        Only administrators can review organizer requests.
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Organizer Requests</h1>
+        <p className="mt-2 text-gray-600">
+          Decide who can create events for clubs and departments
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!loading && items.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <UserCheck className="h-8 w-8 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            No pending requests
+          </h2>
+          <p className="text-gray-600 max-w-md mx-auto">
+            Requests for organizer access will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {items.map(request => (
+              <li key={request.userId} className="p-4 flex flex-col sm:flex-row sm:items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <Link
+                    href={`/dashboard/users/${request.userId}`}
+                    className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                  >
+                    {request.userName}
+                  </Link>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {request.userEmail}
+                    {' · '}
+                    Submitted {new Date(request.submittedAt).toLocaleString('en-US')}
+                  </p>
+                  <p className="text-sm text-gray-900 mt-2">
+                    {request.affiliation}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {AFFILIATION_TYPE_LABELS[request.affiliationType]}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">
+                    {request.justification}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleApprove(request.userId)}
+                    disabled={pendingId === request.userId}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => handleDeny(request.userId)}
+                    disabled={pendingId === request.userId}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Deny
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {(loading || nextToken) && (
+            <div className="p-3 border-t border-gray-200 text-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchQueue(nextToken || undefined)}
+                isLoading={loading}
+                disabled={loading}
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,9 @@
 
 import { useAuthContext } from '@/lib/auth/AuthContext';
 import { useRouter } from 'next/navigation';
-import { Calendar, Users, TrendingUp, Clock } from 'lucide-react';
+import { isOrganizerOrHigher } from '@/types/auth';
+import { Calendar, Users, TrendingUp, Clock, ShieldCheck } from 'lucide-react';
+import { RecommendedEvents } from '@/components/events/RecommendedEvents';
 
 interface StatCardProps {
   title: string;
@@ -44,8 +46,10 @@ export default function DashboardPage() {
   const { user } = useAuthContext();
   const router = useRouter();
 
+  const canCreateEvents = isOrganizerOrHigher(user);
+
   const handleCreateEvent = () => {
-    router.push('/events/new');
+    router.push(canCreateEvents ? '/events/new' : '/dashboard/organizer-access');
   };
 
   return (
@@ -88,6 +92,9 @@ export default function DashboardPage() {
         />
       </div>
 
+      {/* Recommendations */}
+      <RecommendedEvents />
+
       {/* Recent Activity */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -157,8 +164,17 @@ export default function DashboardPage() {
             onClick={handleCreateEvent}
             className="flex items-center justify-center px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
           >
-            <Calendar className="h-5 w-5 text-gray-600 mr-2" />
-            <span className="text-sm font-medium text-gray-900">Create Event</span>
+            {canCreateEvents ? (
+              <>
+                <Calendar className="h-5 w-5 text-gray-600 mr-2" />
+                <span className="text-sm font-medium text-gray-900">Create Event</span>
+              </>
+            ) : (
+              <>
+                <ShieldCheck className="h-5 w-5 text-gray-600 mr-2" />
+                <span className="text-sm font-medium text-gray-900">Request Organizer Access</span>
+              </>
+            )}
           </button>
           <button className="flex items-center justify-center px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
             <Users className="h-5 w-5 text-gray-600 mr-2" />
@@ -12,6 +12,7 @@ import { useAuthContext } from '@/lib/auth/AuthContext';
 import { Mail, Shield, Calendar } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { PhoneNumberSettings } from '@/components/profile/PhoneNumberSettings';
 
 export default function DashboardProfilePage() {
   const { user } = useAuthContext();
@@ -166,6 +167,9 @@ export default function DashboardProfilePage() {
               </div>
             </div>
 
+            {/* Text Notifications */}
+            <PhoneNumberSettings />
+
             {/* Security Section */}
             <div className="border-t border-gray-200 pt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -0,0 +1,202 @@
+/**
+ * Dashboard Saved Searches Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Searches the user saved from /events/search: run them again, turn
+ * new-match alerts on or off, or delete them.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, BellOff, Bookmark, Play, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import type { SavedSearch, SearchQuery } from '@/types/search.types';
+import { listSavedSearches, updateSavedSearch, deleteSavedSearch } from '@/lib/api/search.api';
+import { formatDistance } from '@/lib/geo';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+// One-line description of the saved criteria
+function describeSearch(search: SearchQuery): string {
+  const parts: string[] = [];
+
+  if (search.query) parts.push(`"${search.query}"`);
+  if (search.filters?.categories?.length) parts.push(search.filters.categories.join(', '));
+  if (search.filters?.locations?.length) parts.push(`at ${search.filters.locations.join(', ')}`);
+  if (search.filters?.availability === 'AVAILABLE') parts.push('with open seats');
+  if (search.filters?.radius) parts.push(`within ${formatDistance(search.filters.radius.distanceMeters)}`);
+  if (search.dateRange) {
+    parts.push(`${formatDate(search.dateRange.start)} – ${formatDate(search.dateRange.end)}`);
+  }
+
+  return parts.join(' · ') || 'All events';
+}
+
+export default function DashboardSavedSearchesPage() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchSavedSearches = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSavedSearches(await listSavedSearches());
+    } catch (err) {
+      console.error('Failed to load saved searches:', err);
+      setError('Failed to load your saved searches');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, [fetchSavedSearches]);
+
+  const handleToggleAlerts = async (savedSearch: SavedSearch) => {
+    setPendingId(savedSearch.id);
+    setError(null);
+    try {
+      const updated = await updateSavedSearch(savedSearch.id, {
+        alertsEnabled: !savedSearch.alertsEnabled,
+      });
+      setSavedSearches(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      console.error('Failed to update saved search:', err);
+      setError('Failed to update alerts. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${savedSearch.name}"?`)) return;
+
+    setPendingId(savedSearch.id);
+    setError(null);
+    try {
+      await deleteSavedSearch(savedSearch.id);
+      setSavedSearches(prev => prev.filter(s => s.id !== savedSearch.id));
+    } catch (err) {
+      console.error('Failed to delete saved search:', err);
+      setError('Failed to delete saved search. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Saved Searches</h1>
+        <p className="mt-2 text-gray-600">
+          Run your searches again and get alerted when new events match
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-red-600"></div>
+        </div>
+      ) : savedSearches.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <Bookmark className="h-8 w-8 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            No saved searches yet
+          </h2>
+          <p className="text-gray-600 max-w-md mx-auto mb-6">
+            Use &ldquo;Save Search&rdquo; on the search page to keep a search and hear about new matches.
+          </p>
+          <Link href="/events/search">
+            <Button variant="outline">Search Events</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {savedSearches.map(savedSearch => (
+              <li key={savedSearch.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{savedSearch.name}</p>
+                  <p className="text-xs text-gray-500 mt-1 truncate">
+                    {describeSearch(savedSearch.search)}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Saved {formatDate(savedSearch.createdAt)}
+                    {savedSearch.alertCount > 0 && (
+                      <>
+                        {' · '}
+                        {savedSearch.alertCount} {savedSearch.alertCount === 1 ? 'alert' : 'alerts'} sent
+                      </>
+                    )}
+                    {savedSearch.lastAlertedAt && (
+                      <>
+                        {' · '}
+                        Last match {formatDate(savedSearch.lastAlertedAt)}
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Link href={`/events/search?savedSearchId=${savedSearch.id}`}>
+                    <Button size="sm" variant="outline">
+                      <Play className="h-4 w-4 mr-1" />
+                      Run
+                    </Button>
+                  </Link>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleToggleAlerts(savedSearch)}
+                    disabled={pendingId === savedSearch.id}
+                    title={savedSearch.alertsEnabled ? 'Stop alerts for new matches' : 'Alert me about new matches'}
+                  >
+                    {savedSearch.alertsEnabled ? (
+                      <>
+                        <Bell className="h-4 w-4 mr-1" />
+                        Alerts On
+                      </>
+                    ) : (
+                      <>
+                        <BellOff className="h-4 w-4 mr-1" />
+                        Alerts Off
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => handleDelete(savedSearch)}
+                    disabled={pendingId === savedSearch.id}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Dashboard Settings Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Notification preferences. Phone number and text notifications live on the profile page.
+ */
+
+'use client';
+
+import { PushNotificationSettings } from '@/components/settings/PushNotificationSettings';
+
+export default function DashboardSettingsPage() {
+  return (
+    <div className="space-y-6 max-w-4xl">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-2 text-gray-600">
+          Choose how Terrapin Events keeps you updated
+        </p>
+      </div>
+
+      <PushNotificationSettings />
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+/**
+ * Dashboard User Detail Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Admin console view of one account: role and status management,
+ * registrations, organized events and the account's audit history.
+ * Path: /dashboard/users/[id]
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Ban, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { AuditLogList } from '@/components/admin/AuditLogList';
+import { RoleBadge, StatusBadge } from '@/components/admin/UserBadges';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin, UserRole } from '@/types/auth';
+import {
+  AdminUser,
+  AdminUserDetail,
+  ROLE_LABELS,
+  canManageUser,
+  getAssignableRoles,
+} from '@/types/admin.types';
+import {
+  getAdminUser,
+  updateUserRole,
+  suspendUser,
+  reactivateUser,
+} from '@/lib/api/users.api';
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default function DashboardUserDetailPage() {
+  const params = useParams();
+  const userId = params.id as string;
+  const { user } = useAuthContext();
+  const [detail, setDetail] = useState<AdminUserDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [selectedRole, setSelectedRole] = useState<UserRole | ''>('');
+  const [roleReason, setRoleReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchDetail = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getAdminUser(userId);
+      setDetail(result);
+      setSelectedRole(result.user.role);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load this user');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (isAdmin(user)) {
+      fetchDetail();
+    }
+  }, [user, fetchDetail]);
+
+  // Mutations return the updated account; reload to pick up the new audit entry
+  const runChange = async (change: () => Promise<AdminUser>, message: string) => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await change();
+      setSuccess(message);
+      setRoleReason('');
+      await fetchDetail();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update this user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = () => {
+    if (!detail || !selectedRole || selectedRole === detail.user.role) return;
+    runChange(
+      () => updateUserRole(userId, selectedRole, roleReason.trim()),
+      `Role changed to ${ROLE_LABELS[selectedRole]}. The user will need to sign in again.`
+    );
+  };
+
+  const handleSuspend = () => {
+    const reason = prompt('Why is this account being suspended?');
+    if (!reason?.trim()) return;
+    runChange(() => suspendUser(userId, reason.trim()), 'Account suspended and signed out everywhere.');
+  };
+
+  const handleReactivate = () => {
+    if (!confirm('Allow this user to sign in again?')) return;
+    runChange(() => reactivateUser(userId), 'Account reactivated.');
+  };
+
+  if (!isAdmin(user)) {
+    return (
+      <Alert variant="error" title="Access denied">
+        Only administrators can manage users.
+      </Alert>
+    );
+  }
+
+  const account = detail?.user;
+  const canManage = !!user && !!account && canManageUser(user, account);
+  const assignableRoles = user ? getAssignableRoles(user.role) : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <Link
+          href="/dashboard/users"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to users
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {account ? `${account.firstName} ${account.lastName}` : 'User'}
+        </h1>
+        <p className="mt-2 text-gray-600">
+          {loading && !account ? 'Loading user...' : account?.email}
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert variant="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {account && detail && (
+        <>
+          {/* Account */}
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <RoleBadge role={account.role} />
+                <StatusBadge status={account.status} />
+                <span className="text-sm text-gray-500">Joined {formatDate(account.createdAt)}</span>
+              </div>
+              {canManage && (
+                account.status === 'SUSPENDED' ? (
+                  <Button variant="outline" size="sm" onClick={handleReactivate} disabled={isSaving}>
+                    <UserCheck className="h-4 w-4 mr-2" />
+                    Reactivate
+                  </Button>
+                ) : (
+                  <Button variant="danger" size="sm" onClick={handleSuspend} disabled={isSaving}>
+                    <Ban className="h-4 w-4 mr-2" />
+                    Suspend
+                  </Button>
+                )
+              )}
+            </div>
+
+            {account.status === 'SUSPENDED' && (
+              <div className="px-6 pt-4 text-sm text-gray-700">
+                Suspended {account.suspendedAt && formatDate(account.suspendedAt)}
+                {account.suspensionReason && <>: &ldquo;{account.suspensionReason}&rdquo;</>}
+              </div>
+            )}
+
+            <div className="p-6">
+              {canManage ? (
+                <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                  <div>
+                    <label htmlFor="user-role" className="block text-sm font-medium text-gray-700 mb-1">
+                      Role
+                    </label>
+                    <select
+                      id="user-role"
+                      value={selectedRole}
+                      onChange={(e) => setSelectedRole(e.target.value as UserRole)}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23]"
+                    >
+                      {assignableRoles.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label htmlFor="role-reason" className="block text-sm font-medium text-gray-700 mb-1">
+                      Reason (optional)
+                    </label>
+                    <input
+                      id="role-reason"
+                      type="text"
+                      value={roleReason}
+                      maxLength={500}
+                      onChange={(e) => setRoleReason(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23]"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleRoleChange}
+                    isLoading={isSaving}
+                    disabled={isSaving || selectedRole === account.role}
+                  >
+                    Change role
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  {account.id === user?.userId
+                    ? 'You cannot change your own role or account status.'
+                    : 'Only super administrators can manage administrator accounts.'}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Registrations */}
+            <div className="bg-white rounded-lg border border-gray-200">
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Registrations</h2>
+                <p className="text-sm text-gray-600">{detail.registrations.length} total</p>
+              </div>
+              {detail.registrations.length === 0 ? (
+                <p className="p-6 text-sm text-gray-600 text-center">No registrations</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {detail.registrations.map(registration => (
+                    <li key={registration.registrationId} className="p-4 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/events/${registration.eventId}`}
+                          className="text-sm font-medium text-gray-900 hover:text-[#A20B23] truncate block"
+                        >
+                          {registration.eventTitle || registration.eventId}
+                        </Link>
+                        <p className="text-xs text-gray-500">Registered {formatDate(registration.registeredAt)}</p>
+                      </div>
+                      <span className="text-xs font-medium text-gray-700">{registration.status}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Organized events */}
+            <div className="bg-white rounded-lg border border-gray-200">
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Events Organized</h2>
+                <p className="text-sm text-gray-600">{detail.events.length} total</p>
+              </div>
+              {detail.events.length === 0 ? (
+                <p className="p-6 text-sm text-gray-600 text-center">No events</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {detail.events.map(event => (
+                    <li key={event.eventId} className="p-4 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/events/${event.eventId}`}
+                          className="text-sm font-medium text-gray-900 hover:text-[#A20B23] truncate block"
+                        >
+                          {event.title}
+                        </Link>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(event.startDateTime)} · {event.registeredCount}/{event.capacity} registered
+                        </p>
+                      </div>
+                      <span className="text-xs font-medium text-gray-700">{event.status}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Audit history */}
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">History</h2>
+              <p className="text-sm text-gray-600">Role changes and suspensions for this account</p>
+            </div>
+            <AuditLogList entries={detail.auditLog} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
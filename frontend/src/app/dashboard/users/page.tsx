@@ -0,0 +1,161 @@
+/**
+ * Dashboard Users Page
+ * TEMS - Terrapin Events Management System
+ *
+ * Admin console: find users by name, email or role
+ * and open an account to manage it.
+ */
+
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Search, Users } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { RoleBadge, StatusBadge } from '@/components/admin/UserBadges';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin, UserRole } from '@/types/auth';
+import { AdminUser, ROLE_LABELS } from '@/types/admin.types';
+import { searchUsers } from '@/lib/api/users.api';
+
+const PAGE_SIZE = 25;
+
+export default function DashboardUsersPage() {
+  const { user } = useAuthContext();
+  const [queryInput, setQueryInput] = useState('');
+  const [filters, setFilters] = useState<{ query: string; role?: UserRole }>({ query: '' });
+  const [items, setItems] = useState<AdminUser[]>([]);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async (token?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await searchUsers(filters.query, filters.role, PAGE_SIZE, token);
+      setItems(prev => (token ? [...prev, ...result.items] : result.items));
+      setNextToken(result.nextToken || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search users');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (isAdmin(user)) {
+      fetchUsers();
+    }
+  }, [user, fetchUsers]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters(prev => ({ ...prev, query: queryInput.trim() }));
+  };
+
+  if (!isAdmin(user)) {
+    return (
+      <Alert variant="error" title="Access denied">
+        Only administrators can manage users.
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+        <p className="mt-2 text-gray-600">
+          Find accounts, change roles and suspend users
+        </p>
+      </div>
+
+      {/* Search */}
+      <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="Search by name or email"
+            aria-label="Search users"
+            className="w-full rounded-md border border-gray-300 py-2 pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23]"
+          />
+        </div>
+        <select
+          value={filters.role || ''}
+          onChange={(e) => setFilters(prev => ({ ...prev, role: (e.target.value as UserRole) || undefined }))}
+          aria-label="Filter by role"
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23]"
+        >
+          <option value="">All roles</option>
+          {Object.values(UserRole).map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <Button type="submit">Search</Button>
+      </form>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!loading && items.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <Users className="h-8 w-8 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            No users found
+          </h2>
+          <p className="text-gray-600 max-w-md mx-auto">
+            Try a different name, email or role.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {items.map(account => (
+              <li key={account.id}>
+                <Link
+                  href={`/dashboard/users/${account.id}`}
+                  className="p-4 flex items-center gap-4 hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {account.firstName} {account.lastName}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{account.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RoleBadge role={account.role} />
+                    <StatusBadge status={account.status} />
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+          {(loading || nextToken) && (
+            <div className="p-3 border-t border-gray-200 text-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchUsers(nextToken || undefined)}
+                isLoading={loading}
+                disabled={loading}
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
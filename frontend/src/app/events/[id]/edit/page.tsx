@@ -6,24 +6,30 @@
 
 'use client';
 
+import { useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { CreateEventForm } from '@/components/events/CreateEventForm';
+import { SeriesScopeSelect } from '@/components/events/SeriesScopeSelect';
 import { CreateEventFormData, formatDateTimeForInput } from '@/lib/validations/event.validation';
 import { useEvent } from '@/hooks/events/useEvents';
-import { updateEvent, publishEvent } from '@/lib/api/events.api';
-import { UpdateEventInput, EventStatus } from '@/types/event.types';
+import { updateEvent, publishOrSubmitEvent, uploadEventImage } from '@/lib/api/events.api';
+import { UpdateEventInput, EventStatus, SeriesEditScope } from '@/types/event.types';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin } from '@/types/auth';
 import { Button } from '@/components/ui/Button';
 import { ArrowLeft } from 'lucide-react';
 
 export default function EditEventPage() {
   const params = useParams();
   const router = useRouter();
+  const { user } = useAuthContext();
   const eventId = params.id as string;
 
   const { event, loading: isLoading, error } = useEvent(eventId);
   const isError = !!error;
+  const [scope, setScope] = useState<SeriesEditScope>(SeriesEditScope.THIS_OCCURRENCE);
 
-  const handleSubmit = async (data: CreateEventFormData, isDraft: boolean) => {
+  const handleSubmit = async (data: CreateEventFormData, isDraft: boolean, image: Blob | null) => {
     try {
       // Transform form data to API input format
       const eventInput: UpdateEventInput = {
@@ -44,12 +50,18 @@ export default function EditEventPage() {
         imageUrl: data.imageUrl,
       };
 
-      // Update the event
-      const updatedEvent = await updateEvent(eventId, eventInput);
+      // Update the event (and the chosen occurrences when it belongs to a series)
+      const seriesScope = event?.seriesId ? scope : undefined;
+      const updatedEvent = await updateEvent(eventId, eventInput, seriesScope);
 
-      // If not saving as draft and currently in draft status, publish the event
+      // A new image replaces the current one on the same occurrences
+      if (image) {
+        await uploadEventImage(eventId, image, seriesScope);
+      }
+
+      // If not saving as draft and currently in draft status, publish the event (or send it for approval)
       if (!isDraft && event?.status === EventStatus.DRAFT && updatedEvent) {
-        await publishEvent(updatedEvent.id);
+        await publishOrSubmitEvent(updatedEvent, isAdmin(user), seriesScope);
       }
       
       router.push(`/events/${eventId}`);
@@ -134,10 +146,19 @@ export default function EditEventPage() {
             Update your event details below
           </p>
         </div>
+        {event.seriesId && (
+          <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4 max-w-md">
+            <SeriesScopeSelect value={scope} onChange={setScope} />
+            <p className="mt-2 text-sm text-gray-500">
+              Date and time changes shift each selected occurrence by the same amount
+            </p>
+          </div>
+        )}
         <CreateEventForm 
           onSubmit={handleSubmit} 
           defaultValues={defaultValues}
           isEdit={true}
+          eventId={eventId}
         />
       </div>
     </div>
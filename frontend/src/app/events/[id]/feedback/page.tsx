@@ -0,0 +1,109 @@
+/**
+ * Event Feedback Page
+ * Attendees rate an event they checked in to and answer the organizer's questions
+ * Path: /events/[id]/feedback
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
+import { EventFeedbackForm } from '@/components/feedback/EventFeedbackForm';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { useFeedbackForm } from '@/hooks/registrations/useFeedback';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+
+export default function EventFeedbackPage() {
+  const params = useParams();
+  const eventId = params.id as string;
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+  const { form, isLoading, isSaving, error, submit } = useFeedbackForm(isAuthenticated ? eventId : null);
+
+  const isClosed = !!form && new Date(form.acceptingResponsesUntil) <= new Date();
+
+  const renderContent = () => {
+    if (authLoading || isLoading || (isAuthenticated && !form && !error)) {
+      return (
+        <div className="py-12 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#A20B23] mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading feedback form...</p>
+        </div>
+      );
+    }
+
+    if (!isAuthenticated) {
+      return (
+        <div className="py-8 text-center">
+          <p className="text-gray-600 mb-6">Sign in to share your feedback on this event.</p>
+          <Button onClick={() => (window.location.href = `/signin?redirect=/events/${eventId}/feedback`)}>
+            Sign In
+          </Button>
+        </div>
+      );
+    }
+
+    if (!form) {
+      return <Alert variant="error">{error}</Alert>;
+    }
+
+    if (form.hasSubmitted) {
+      return (
+        <div className="py-8 text-center">
+          <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900">Thanks for your feedback!</h2>
+          <p className="mt-2 text-gray-600">Your answers help the organizer plan better events.</p>
+        </div>
+      );
+    }
+
+    if (isClosed) {
+      return (
+        <Alert variant="info" title="Feedback closed">
+          This event stopped accepting feedback on{' '}
+          {new Date(form.acceptingResponsesUntil).toLocaleDateString('en-US', {
+            month: 'long',
+            day: 'numeric',
+            year: 'numeric',
+          })}.
+        </Alert>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {error && <Alert variant="error">{error}</Alert>}
+        <p className="text-sm text-gray-500">
+          Accepting responses until{' '}
+          {new Date(form.acceptingResponsesUntil).toLocaleDateString('en-US', {
+            month: 'long',
+            day: 'numeric',
+            year: 'numeric',
+          })}
+        </p>
+        <EventFeedbackForm form={form} isSubmitting={isSaving} onSubmit={submit} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link
+          href={`/events/${eventId}`}
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to event
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 sm:p-8">
+          <h1 className="text-2xl font-bold text-gray-900">How was it?</h1>
+          {form && <p className="mt-1 text-gray-600">{form.eventTitle}</p>}
+          <div className="mt-6">{renderContent()}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
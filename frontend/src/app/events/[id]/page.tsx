@@ -6,15 +6,27 @@
 
 'use client';
 
+import { useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { ArrowLeft } from 'lucide-react';
 import { EventDetail } from '@/components/events/EventDetail';
 import { EventActions } from '@/components/events/EventActions';
 import { EventCard } from '@/components/events/EventCard';
+import { SeriesScopeSelect } from '@/components/events/SeriesScopeSelect';
 import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
 import { useEvent } from '@/hooks/events/useEvents';
 import { useEvents } from '@/hooks/events/useEvents';
-// import { useAuth } from '@/hooks/useAuth'; // Uncomment when auth is ready
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin as isAdminUser } from '@/types/auth';
+import { EventStatus, SeriesEditScope } from '@/types/event.types';
+import {
+  deleteEvent,
+  publishEvent,
+  submitEventForApproval,
+  approveEvent,
+  rejectEvent,
+} from '@/lib/api/events.api';
 
 export default function EventDetailPage() {
   const params = useParams();
@@ -33,58 +45,82 @@ export default function EventDetailPage() {
     .filter((e) => e.id !== eventId)
     .slice(0, 3);
 
-  // TODO: Get current user and check permissions
-  // const { user } = useAuth();
-  // const isOrganizer = user?.id === event?.organizerId;
-  // const isAdmin = user?.role === 'ADMIN';
-  
-  // Placeholder values
-  const isOrganizer = false;
-  const isAdmin = false;
+  // Current user permissions
+  const { user } = useAuthContext();
+  const isOrganizer = !!user && user.userId === event?.organizerId;
+  const isAdmin = isAdminUser(user);
+
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesEditScope>(SeriesEditScope.THIS_OCCURRENCE);
+  const scope = event?.seriesId ? seriesScope : undefined;
 
   const handleEdit = () => {
     router.push(`/events/${eventId}/edit`);
   };
 
   const handleDelete = async () => {
-    if (!confirm('Are you sure you want to cancel this event?')) return;
-    
+    const message = scope && scope !== SeriesEditScope.THIS_OCCURRENCE
+      ? 'Are you sure you want to cancel the selected occurrences of this series?'
+      : 'Are you sure you want to cancel this event?';
+    if (!confirm(message)) return;
+
+    setActionError(null);
     try {
-      // TODO: Call delete event API
-      console.log('Deleting event:', eventId);
+      await deleteEvent(eventId, scope);
       router.push('/events');
     } catch (error) {
       console.error('Failed to delete event:', error);
+      setActionError('Failed to cancel event. Please try again.');
     }
   };
 
   const handlePublish = async () => {
+    setActionError(null);
     try {
-      // TODO: Call publish event API
-      console.log('Publishing event:', eventId);
+      await publishEvent(eventId, scope);
+      await refreshEvent();
     } catch (error) {
       console.error('Failed to publish event:', error);
+      setActionError('Failed to publish event. Please try again.');
+    }
+  };
+
+  const handleSubmitForApproval = async () => {
+    setActionError(null);
+    try {
+      await submitEventForApproval(eventId, scope);
+      await refreshEvent();
+    } catch (error) {
+      console.error('Failed to submit event for approval:', error);
+      setActionError('Failed to submit event for approval. Please try again.');
     }
   };
 
   const handleApprove = async () => {
+    const comment = prompt('Optional comment for the organizer:');
+    if (comment === null) return;
+
+    setActionError(null);
     try {
-      // TODO: Call approve event API (admin only)
-      console.log('Approving event:', eventId);
+      await approveEvent(eventId, comment || undefined, scope);
+      await refreshEvent();
     } catch (error) {
       console.error('Failed to approve event:', error);
+      setActionError('Failed to approve event. Please try again.');
     }
   };
 
   const handleReject = async () => {
     const reason = prompt('Please provide a reason for rejection:');
-    if (!reason) return;
+    if (!reason?.trim()) return;
 
+    setActionError(null);
     try {
-      // TODO: Call reject event API (admin only)
-      console.log('Rejecting event:', eventId, 'Reason:', reason);
+      await rejectEvent(eventId, reason.trim(), scope);
+      await refreshEvent();
     } catch (error) {
       console.error('Failed to reject event:', error);
+      setActionError('Failed to reject event. Please try again.');
     }
   };
 
@@ -147,6 +183,36 @@ export default function EventDetailPage() {
           {/* Sidebar - 1 column */}
           <div className="lg:col-span-1">
             <div className="sticky top-6 space-y-6">
+              {actionError && (
+                <Alert variant="error" onClose={() => setActionError(null)}>
+                  {actionError}
+                </Alert>
+              )}
+
+              {/* Review status for the organizer */}
+              {isOrganizer && event.status === EventStatus.PENDING_APPROVAL && (
+                <Alert variant="info" title="Awaiting review">
+                  An administrator will review this event before it is published.
+                </Alert>
+              )}
+              {isOrganizer && event.status === EventStatus.DRAFT && event.rejectionReason && (
+                <Alert variant="warning" title="Changes requested">
+                  {event.rejectionReason}
+                </Alert>
+              )}
+
+              {/* Recurring series */}
+              {event.seriesId && (
+                <Alert variant="info" title="Part of a recurring series">
+                  {event.occurrenceIndex !== undefined && event.occurrenceIndex !== null
+                    ? `This is occurrence ${event.occurrenceIndex + 1} of the series.`
+                    : 'This event repeats on a schedule.'}
+                </Alert>
+              )}
+              {event.seriesId && (isOrganizer || isAdmin) && (
+                <SeriesScopeSelect value={seriesScope} onChange={setSeriesScope} />
+              )}
+
               {/* Actions for organizers/admins */}
               {(isOrganizer || isAdmin) && (
                 <EventActions
@@ -156,6 +222,7 @@ export default function EventDetailPage() {
                   onEdit={handleEdit}
                   onDelete={handleDelete}
                   onPublish={handlePublish}
+                  onSubmitForApproval={handleSubmitForApproval}
                   onApprove={handleApprove}
                   onReject={handleReject}
                 />
@@ -9,9 +9,10 @@
 import React, { useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { View } from 'react-big-calendar';
-import { Calendar, Filter } from 'lucide-react';
+import { Calendar, Filter, Rss } from 'lucide-react';
 import { EventCalendar } from '@/components/events/EventCalendar';
 import { FilterPanel } from '@/components/events/FilterPanel';
+import { CalendarSubscribePanel } from '@/components/events/CalendarSubscribePanel';
 import { Button } from '@/components/ui/Button';
 import { useCalendarEvents } from '@/hooks/events/useCalendarEvents';
 import type { CalendarEvent, SearchFilters, FilterOption } from '@/types/search.types';
@@ -27,6 +28,7 @@ export default function CalendarPage() {
     availability: 'ALL',
   });
   const [showFilters, setShowFilters] = React.useState(false);
+  const [showSubscribe, setShowSubscribe] = React.useState(false);
 
   // Fetch events when month or filters change
   useEffect(() => {
@@ -106,6 +108,14 @@ export default function CalendarPage() {
                 <Filter className="w-4 h-4" />
                 {showFilters ? 'Hide' : 'Show'} Filters
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowSubscribe(!showSubscribe)}
+                className="flex items-center gap-2"
+              >
+                <Rss className="w-4 h-4" />
+                Subscribe
+              </Button>
             </div>
           </div>
         </div>
@@ -129,6 +139,12 @@ export default function CalendarPage() {
 
           {/* Calendar */}
           <main className="flex-1 min-w-0">
+            {showSubscribe && (
+              <div className="mb-6">
+                <CalendarSubscribePanel />
+              </div>
+            )}
+
             {error && (
               <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
                 <p className="text-red-800 font-medium">Failed to load calendar</p>
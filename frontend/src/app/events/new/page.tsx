@@ -9,13 +9,17 @@
 import { useRouter } from 'next/navigation';
 import { CreateEventForm } from '@/components/events/CreateEventForm';
 import { CreateEventFormData } from '@/lib/validations/event.validation';
-import { createEvent, publishEvent } from '@/lib/api/events.api';
-import { CreateEventInput } from '@/types/event.types';
+import { createEvent, publishOrSubmitEvent, uploadEventImage } from '@/lib/api/events.api';
+import { CreateEventInput, RecurrenceFrequency, SeriesEditScope } from '@/types/event.types';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isAdmin, isOrganizerOrHigher } from '@/types/auth';
+import { Button } from '@/components/ui/Button';
 
 export default function NewEventPage() {
   const router = useRouter();
+  const { user, isLoading } = useAuthContext();
 
-  const handleSubmit = async (data: CreateEventFormData, isDraft: boolean) => {
+  const handleSubmit = async (data: CreateEventFormData, isDraft: boolean, image: Blob | null) => {
     try {
       // Transform form data to API input format
       const eventInput: CreateEventInput = {
@@ -36,14 +40,48 @@ export default function NewEventPage() {
         imageUrl: data.imageUrl || undefined,
       };
 
+      // Attach the repeat rule when the organizer set one up
+      const recurrence = data.recurrence;
+      if (recurrence?.frequency) {
+        eventInput.recurrence = {
+          frequency: recurrence.frequency,
+          interval: recurrence.interval,
+          byWeekday:
+            recurrence.frequency === RecurrenceFrequency.WEEKLY && recurrence.byWeekday.length > 0
+              ? recurrence.byWeekday
+              : undefined,
+          count: recurrence.count,
+          exceptions: recurrence.exceptions.length > 0 ? recurrence.exceptions : undefined,
+        };
+      }
+
       console.log('Event input being sent:', JSON.stringify(eventInput, null, 2));
 
-      // Create the event (always starts as DRAFT)
+      // Create the event (always starts as DRAFT; a series returns its first occurrence)
       const createdEvent = await createEvent(eventInput);
 
-      // If not saving as draft, publish the event
+      // Upload the image for the new event (every occurrence of a series gets it)
+      if (image && createdEvent) {
+        try {
+          await uploadEventImage(
+            createdEvent.id,
+            image,
+            createdEvent.seriesId ? SeriesEditScope.ALL_OCCURRENCES : undefined
+          );
+        } catch (uploadError) {
+          // The event exists now, so resubmitting the form would create it twice
+          console.error('Failed to upload event image:', uploadError);
+          alert('Your event was saved, but the image could not be uploaded. Edit the event to try again.');
+        }
+      }
+
+      // If not saving as draft, publish the event (or send it for approval)
       if (!isDraft && createdEvent) {
-        await publishEvent(createdEvent.id);
+        await publishOrSubmitEvent(
+          createdEvent,
+          isAdmin(user),
+          createdEvent.seriesId ? SeriesEditScope.ALL_OCCURRENCES : undefined
+        );
       }
       
       router.push('/events');
@@ -53,6 +91,36 @@ export default function NewEventPage() {
     }
   };
 
+  // Loading State
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-[#A20B23]"></div>
+      </div>
+    );
+  }
+
+  // Only organizers create events; participants can ask for access
+  if (!isOrganizerOrHigher(user)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full text-center">
+          <div className="text-6xl mb-4">🔒</div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Organizer Access Required
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Only organizers can create events. Request access for your club or department and
+            an administrator will review it.
+          </p>
+          <Button onClick={() => router.push(user ? '/dashboard/organizer-access' : '/signin')} variant="primary">
+            {user ? 'Request Organizer Access' : 'Sign In'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -13,6 +13,8 @@ import { EventCard } from '@/components/events/EventCard';
 import { EventFilters } from '@/components/events/EventFilters';
 import { Button } from '@/components/ui/Button';
 import { useEvents } from '@/hooks/events/useEvents';
+import { useAuthContext } from '@/lib/auth/AuthContext';
+import { isOrganizerOrHigher } from '@/types/auth';
 import { EventFilter } from '@/types/event.types';
 
 type ViewMode = 'grid' | 'list';
@@ -21,6 +23,8 @@ export default function EventsPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [filters, setFilters] = useState<EventFilter>({});
   const [search, setSearch] = useState('');
+  const { user } = useAuthContext();
+  const canCreateEvents = isOrganizerOrHigher(user);
 
   const {
     events: allEvents,
@@ -74,12 +78,14 @@ export default function EventsPage() {
                   Calendar View
                 </Button>
               </Link>
-              <Link href="/events/new">
-                <Button variant="primary" className="flex items-center gap-2">
-                  <Plus className="w-5 h-5" />
-                  Create Event
-                </Button>
-              </Link>
+              {canCreateEvents && (
+                <Link href="/events/new">
+                  <Button variant="primary" className="flex items-center gap-2">
+                    <Plus className="w-5 h-5" />
+                    Create Event
+                  </Button>
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -158,9 +164,11 @@ export default function EventsPage() {
                 <Link href="/events/search">
                   <Button variant="outline">Try Advanced Search</Button>
                 </Link>
-                <Link href="/events/new">
-                  <Button variant="primary">Create an Event</Button>
-                </Link>
+                {canCreateEvents && (
+                  <Link href="/events/new">
+                    <Button variant="primary">Create an Event</Button>
+                  </Link>
+                )}
               </div>
             </div>
           </div>
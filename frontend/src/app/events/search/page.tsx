@@ -6,21 +6,32 @@
 
 'use client';
 
-import React, { useCallback } from 'react';
-import { useRouter } from 'next/navigation';
-import { Search, SlidersHorizontal, Calendar as CalendarIcon, X } from 'lucide-react';
+import React, { useCallback, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Search, SlidersHorizontal, Calendar as CalendarIcon, X, List, Map as MapIcon, LocateFixed, Bookmark } from 'lucide-react';
 import Link from 'next/link';
 import { SearchBar } from '@/components/events/SearchBar';
 import { FilterPanel } from '@/components/events/FilterPanel';
 import { EventCard } from '@/components/events/EventCard';
 import { DateRangePicker } from '@/components/events/DateRangePicker';
+import { EventMap } from '@/components/events/EventMap';
+import { SaveSearchForm } from '@/components/events/SaveSearchForm';
 import { Button } from '@/components/ui/Button';
 import { useEventSearch } from '@/hooks/events/useEventSearch';
-import type { FilterOption } from '@/types/search.types';
-import { EventCategory, EventStatus } from '@/types/event.types';
+import { listSavedSearches } from '@/lib/api/search.api';
+import type { FilterOption, GeoRadiusFilter } from '@/types/search.types';
+import { EventCategory, EventStatus, EventCoordinates } from '@/types/event.types';
+import { CAMPUS_CENTER, distanceInMeters, formatDistance } from '@/lib/geo';
 
-export default function SearchPage() {
+// "Near me" covers a short walk
+const NEARBY_RADIUS_METERS = 800;
+const LIST_PAGE_SIZE = 20;
+const MAP_PAGE_SIZE = 100;
+
+function SearchPageContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const savedSearchId = searchParams.get('savedSearchId');
   const {
     query,
     setQuery,
@@ -28,13 +39,106 @@ export default function SearchPage() {
     setFilters,
     dateRange,
     setDateRange,
+    sort,
+    setSort,
+    setPageSize,
     results,
     loading,
     error,
+    currentSearch,
     clearFilters,
+    applySearch,
   } = useEventSearch();
 
   const [showFilters, setShowFilters] = React.useState(true);
+  const [view, setView] = React.useState<'list' | 'map'>('list');
+  const [userLocation, setUserLocation] = React.useState<EventCoordinates | undefined>();
+  const [locating, setLocating] = React.useState(false);
+  const [locationError, setLocationError] = React.useState<string | null>(null);
+  const [showSaveForm, setShowSaveForm] = React.useState(false);
+  const [savedMessage, setSavedMessage] = React.useState<string | null>(null);
+
+  // Run a saved search opened from the dashboard
+  useEffect(() => {
+    if (!savedSearchId) return;
+
+    let cancelled = false;
+    listSavedSearches()
+      .then((savedSearches) => {
+        const savedSearch = savedSearches.find((s) => s.id === savedSearchId);
+        if (!cancelled && savedSearch) {
+          applySearch(savedSearch.search);
+        }
+      })
+      .catch((err) => console.error('Failed to load saved search:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedSearchId, applySearch]);
+
+  const setRadius = useCallback(
+    (radius?: GeoRadiusFilter) => {
+      setFilters({ ...filters, radius });
+      if (!radius && sort.field === 'distance') {
+        setSort({ field: 'startDateTime', order: 'asc' });
+      }
+    },
+    [filters, setFilters, sort.field, setSort]
+  );
+
+  const handleNearMe = useCallback(() => {
+    if (!navigator.geolocation) {
+      setLocationError('Your browser does not share its location');
+      return;
+    }
+
+    setLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const location = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        };
+        setLocating(false);
+        setUserLocation(location);
+        setRadius({ ...location, distanceMeters: NEARBY_RADIUS_METERS });
+        setSort({ field: 'distance', order: 'asc' });
+      },
+      () => {
+        setLocating(false);
+        setLocationError('Could not get your location. Check your browser permissions.');
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }, [setRadius, setSort]);
+
+  // Re-query for the visible map area
+  const handleViewportChange = useCallback(
+    (viewport: GeoRadiusFilter) => {
+      const current = filters.radius;
+      if (
+        current &&
+        current.latitude === viewport.latitude &&
+        current.longitude === viewport.longitude &&
+        current.distanceMeters === viewport.distanceMeters
+      ) {
+        return;
+      }
+      setFilters({ ...filters, radius: viewport });
+    },
+    [filters, setFilters]
+  );
+
+  const handleViewChange = useCallback(
+    (nextView: 'list' | 'map') => {
+      setView(nextView);
+      // The map shows every result at once
+      setPageSize(nextView === 'map' ? MAP_PAGE_SIZE : LIST_PAGE_SIZE);
+    },
+    [setPageSize]
+  );
 
   const handleEventClick = useCallback(
     (eventId: string) => {
@@ -80,8 +184,11 @@ export default function SearchPage() {
     (filters.categories?.length ?? 0) > 0 ||
     (filters.locations?.length ?? 0) > 0 ||
     filters.availability !== 'ALL' ||
+    !!filters.radius ||
     !!dateRange;
 
+  const canSaveSearch = hasActiveFilters || !!currentSearch.query;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -126,6 +233,55 @@ export default function SearchPage() {
               </Button>
             </Link>
 
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              <button
+                type="button"
+                onClick={() => handleViewChange('list')}
+                className={`flex items-center gap-1 px-3 py-1.5 text-sm ${
+                  view === 'list' ? 'bg-red-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <List className="w-4 h-4" />
+                List
+              </button>
+              <button
+                type="button"
+                onClick={() => handleViewChange('map')}
+                className={`flex items-center gap-1 px-3 py-1.5 text-sm border-l border-gray-300 ${
+                  view === 'map' ? 'bg-red-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <MapIcon className="w-4 h-4" />
+                Map
+              </button>
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleNearMe}
+              disabled={locating}
+              className="flex items-center gap-2"
+            >
+              <LocateFixed className="w-4 h-4" />
+              {locating ? 'Locating...' : 'Near Me'}
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setShowSaveForm(!showSaveForm);
+                setSavedMessage(null);
+              }}
+              disabled={!canSaveSearch}
+              title={canSaveSearch ? undefined : 'Enter a query or choose a filter to save this search'}
+              className="flex items-center gap-2"
+            >
+              <Bookmark className="w-4 h-4" />
+              Save Search
+            </Button>
+
             {hasActiveFilters && (
               <Button
                 variant="ghost"
@@ -138,6 +294,55 @@ export default function SearchPage() {
               </Button>
             )}
           </div>
+
+          {locationError && (
+            <p className="mt-3 text-sm text-red-600">{locationError}</p>
+          )}
+
+          {showSaveForm && canSaveSearch && (
+            <SaveSearchForm
+              search={currentSearch}
+              onSaved={(savedSearch) => {
+                setShowSaveForm(false);
+                setSavedMessage(
+                  savedSearch.alertsEnabled
+                    ? `Saved "${savedSearch.name}". We'll let you know when new events match.`
+                    : `Saved "${savedSearch.name}".`
+                );
+              }}
+              onCancel={() => setShowSaveForm(false)}
+            />
+          )}
+
+          {savedMessage && (
+            <p className="mt-3 text-sm text-green-700">
+              {savedMessage}{' '}
+              <Link href="/dashboard/saved-searches" className="font-medium underline">
+                Manage saved searches
+              </Link>
+            </p>
+          )}
+
+          {filters.radius && view === 'list' && (
+            <div className="mt-3">
+              <span className="inline-flex items-center gap-1 px-3 py-1 text-sm bg-red-50 text-red-700 rounded-full">
+                Within {formatDistance(filters.radius.distanceMeters)}
+                {userLocation &&
+                filters.radius.latitude === userLocation.latitude &&
+                filters.radius.longitude === userLocation.longitude
+                  ? ' of you'
+                  : ' of the map area'}
+                <button
+                  type="button"
+                  onClick={() => setRadius(undefined)}
+                  className="hover:text-red-900"
+                  aria-label="Remove distance filter"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -200,8 +405,35 @@ export default function SearchPage() {
                   )}
                 </p>
               </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                Sort by
+                <select
+                  value={sort.field}
+                  onChange={(e) =>
+                    setSort({ field: e.target.value as 'startDateTime' | 'distance', order: 'asc' })
+                  }
+                  className="rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                >
+                  <option value="startDateTime">Date</option>
+                  <option value="distance" disabled={!filters.radius}>
+                    Distance
+                  </option>
+                </select>
+              </label>
             </div>
 
+            {/* Map View: stays mounted while results reload */}
+            {view === 'map' && (
+              <EventMap
+                events={results?.items || []}
+                initialCenter={userLocation || CAMPUS_CENTER}
+                userLocation={userLocation}
+                onViewportChange={handleViewportChange}
+                onEventClick={handleEventClick}
+              />
+            )}
+
             {/* Error State */}
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center mb-6">
@@ -211,14 +443,14 @@ export default function SearchPage() {
             )}
 
             {/* Loading State */}
-            {loading && (
+            {loading && view === 'list' && (
               <div className="flex justify-center items-center py-20">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
               </div>
             )}
 
             {/* Empty State */}
-            {!loading && !error && results && results.items.length === 0 && (
+            {view === 'list' && !loading && !error && results && results.items.length === 0 && (
               <div className="bg-white rounded-lg p-12 text-center">
                 <div className="max-w-md mx-auto">
                   <Search className="w-16 h-16 text-gray-400 mx-auto mb-4" />
@@ -236,7 +468,7 @@ export default function SearchPage() {
             )}
 
             {/* Results Grid */}
-            {!loading && !error && results && results.items.length > 0 && (
+            {view === 'list' && !loading && !error && results && results.items.length > 0 && (
               <div className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {results.items.map((event) => (
@@ -266,6 +498,11 @@ export default function SearchPage() {
                           updatedAt:""
                         }}
                       />
+                      {filters.radius && event.location.coordinates && (
+                        <p className="mt-2 text-sm text-gray-500">
+                          {formatDistance(distanceInMeters(filters.radius, event.location.coordinates))} away
+                        </p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -282,7 +519,7 @@ export default function SearchPage() {
             )}
 
             {/* Search Tips */}
-            {!loading && !results && (
+            {view === 'list' && !loading && !results && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
                 <h3 className="text-sm font-medium text-blue-900 mb-3">Search Tips</h3>
                 <ul className="text-sm text-blue-800 space-y-2">
@@ -299,3 +536,11 @@ export default function SearchPage() {
     </div>
   );
 }
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <SearchPageContent />
+    </Suspense>
+  );
+}
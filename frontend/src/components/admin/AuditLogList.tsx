@@ -0,0 +1,68 @@
+/**
+ * Audit Log List
+ * Role changes and suspensions, with the administrator who made them
+ */
+
+'use client';
+
+import Link from 'next/link';
+import {
+  AdminAuditEntry,
+  AUDIT_ACTION_LABELS,
+  ROLE_LABELS,
+} from '@/types/admin.types';
+
+interface AuditLogListProps {
+  entries: AdminAuditEntry[];
+  showTarget?: boolean; // Link to the affected user (platform-wide log)
+}
+
+function describe(entry: AdminAuditEntry): string {
+  if (entry.action === 'ROLE_CHANGED' && entry.previousRole && entry.newRole) {
+    return `${ROLE_LABELS[entry.previousRole]} → ${ROLE_LABELS[entry.newRole]}`;
+  }
+  return AUDIT_ACTION_LABELS[entry.action];
+}
+
+export function AuditLogList({ entries, showTarget = false }: AuditLogListProps) {
+  if (entries.length === 0) {
+    return <p className="p-6 text-sm text-gray-600 text-center">No changes recorded</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {entries.map(entry => (
+        <li key={entry.id} className="p-4">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm font-medium text-gray-900">
+              {AUDIT_ACTION_LABELS[entry.action]}
+              {entry.action === 'ROLE_CHANGED' && (
+                <span className="ml-2 font-normal text-gray-600">{describe(entry)}</span>
+              )}
+            </p>
+            <time className="text-xs text-gray-500" dateTime={entry.createdAt}>
+              {new Date(entry.createdAt).toLocaleString('en-US')}
+            </time>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {showTarget && (
+              <>
+                <Link
+                  href={`/dashboard/users/${entry.targetUserId}`}
+                  className="text-gray-700 hover:text-[#A20B23]"
+                >
+                  {entry.targetEmail}
+                </Link>
+                {' · '}
+              </>
+            )}
+            by {entry.actorEmail || entry.actorId}
+          </p>
+          {entry.reason && (
+            <p className="text-sm text-gray-700 mt-2">&ldquo;{entry.reason}&rdquo;</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
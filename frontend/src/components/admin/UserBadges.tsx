@@ -0,0 +1,40 @@
+/**
+ * User Badges
+ * Role and account status pills for the admin console
+ */
+
+'use client';
+
+import { UserRole } from '@/types/auth';
+import { ROLE_LABELS, UserAccountStatus } from '@/types/admin.types';
+
+const ROLE_STYLES: Record<UserRole, string> = {
+  [UserRole.PARTICIPANT]: 'bg-gray-100 text-gray-700',
+  [UserRole.ORGANIZER]: 'bg-blue-100 text-blue-800',
+  [UserRole.ADMINISTRATOR]: 'bg-purple-100 text-purple-800',
+  [UserRole.SUPER_ADMIN]: 'bg-red-100 text-[#A20B23]',
+};
+
+export function RoleBadge({ role }: { role: UserRole }) {
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_STYLES[role] || ROLE_STYLES[UserRole.PARTICIPANT]}`}>
+      {ROLE_LABELS[role] || role}
+    </span>
+  );
+}
+
+export function StatusBadge({ status }: { status: UserAccountStatus }) {
+  if (status !== 'SUSPENDED') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+        Active
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+      Suspended
+    </span>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Analytics Overview Component
+ * Rates, the registration timeline and sign-ups by hour for an event or a period
+ */
+
+'use client';
+
+import { BarChart } from './BarChart';
+import {
+  AnalyticsSummary,
+  formatHour,
+  formatRate,
+} from '@/types/analytics.types';
+
+interface AnalyticsOverviewProps {
+  analytics: AnalyticsSummary;
+}
+
+/**
+ * Short axis label for a yyyy-mm-dd date, e.g. "Oct 19"
+ */
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function RateCard({ label, rate, detail }: { label: string; rate?: number | null; detail: string }) {
+  return (
+    <div className="rounded-lg bg-gray-50 p-4">
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">{formatRate(rate)}</p>
+      <p className="text-xs text-gray-500">{detail}</p>
+    </div>
+  );
+}
+
+export function AnalyticsOverview({ analytics }: AnalyticsOverviewProps) {
+  const timeline = analytics.registrationsOverTime.map(day => ({
+    label: formatDay(day.date),
+    value: day.registrations + day.waitlistAdds,
+    title: `${formatDay(day.date)}: ${day.registrations} registered, ${day.waitlistAdds} waitlisted, ${day.cancellations} cancelled`,
+  }));
+
+  const hours = analytics.registrationsByHour.map(entry => ({
+    label: formatHour(entry.hour),
+    value: entry.count,
+    highlight: entry.hour === analytics.peakRegistrationHour,
+  }));
+
+  return (
+    <div className="space-y-8">
+      {/* Rates */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="rounded-lg bg-gray-50 p-4">
+          <p className="text-sm text-gray-600">Sign-ups</p>
+          <p className="mt-1 text-2xl font-semibold text-gray-900">
+            {analytics.registrations + analytics.waitlistAdds}
+          </p>
+          <p className="text-xs text-gray-500">
+            {analytics.registrations} registered, {analytics.waitlistAdds} waitlisted
+          </p>
+        </div>
+        <RateCard
+          label="Waitlist conversion"
+          rate={analytics.waitlistConversionRate}
+          detail={`${analytics.promotionsAccepted} of ${analytics.waitlistAdds} waitlisted got a seat`}
+        />
+        <RateCard
+          label="Cancellation rate"
+          rate={analytics.cancellationRate}
+          detail={`${analytics.cancellations} cancelled, ${analytics.waitlistCancellations} left the waitlist`}
+        />
+        <RateCard
+          label="Check-in rate"
+          rate={analytics.checkInRate}
+          detail={`${analytics.attended} attended, ${analytics.noShows} no-shows`}
+        />
+      </div>
+
+      {/* Registrations over time */}
+      <div>
+        <h3 className="text-base font-medium text-gray-900">Registrations over time</h3>
+        <p className="text-sm text-gray-500 mb-3">Registrations and waitlist sign-ups per day</p>
+        <BarChart
+          data={timeline}
+          ariaLabel="Sign-ups per day"
+          labelEvery={Math.max(1, Math.ceil(timeline.length / 12))}
+        />
+      </div>
+
+      {/* Peak hours */}
+      <div>
+        <h3 className="text-base font-medium text-gray-900">Sign-ups by hour of day</h3>
+        <p className="text-sm text-gray-500 mb-3">
+          {analytics.peakRegistrationHour !== null && analytics.peakRegistrationHour !== undefined
+            ? `Most people sign up around ${formatHour(analytics.peakRegistrationHour)}`
+            : 'No sign-ups yet'}
+        </p>
+        <BarChart data={hours} ariaLabel="Sign-ups by hour of day" height={120} labelEvery={3} />
+      </div>
+
+      {/* Waitlist funnel */}
+      <div>
+        <h3 className="text-base font-medium text-gray-900 mb-3">Waitlist</h3>
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+          <div>
+            <dt className="text-gray-600">Promoted</dt>
+            <dd className="text-lg font-semibold text-gray-900">{analytics.waitlistPromotions}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600">Accepted</dt>
+            <dd className="text-lg font-semibold text-gray-900">{analytics.promotionsAccepted}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600">Declined</dt>
+            <dd className="text-lg font-semibold text-gray-900">{analytics.promotionsDeclined}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600">Expired</dt>
+            <dd className="text-lg font-semibold text-gray-900">{analytics.promotionsExpired}</dd>
+          </div>
+        </dl>
+      </div>
+    </div>
+  );
+}
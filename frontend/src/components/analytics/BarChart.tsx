@@ -0,0 +1,59 @@
+/**
+ * Bar Chart Component
+ * Lightweight vertical bar chart drawn with plain elements, for dashboard analytics
+ */
+
+'use client';
+
+export interface BarChartDatum {
+  label: string; // Axis label
+  value: number;
+  title?: string; // Tooltip, defaults to "label: value"
+  highlight?: boolean;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  ariaLabel: string;
+  height?: number; // Plot height in pixels
+  labelEvery?: number; // Show every nth axis label when there are many bars
+}
+
+export function BarChart({ data, ariaLabel, height = 160, labelEvery = 1 }: BarChartProps) {
+  const max = Math.max(1, ...data.map(datum => datum.value));
+
+  if (data.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">No data for this period</p>;
+  }
+
+  return (
+    <figure aria-label={ariaLabel}>
+      <div className="flex items-end gap-px" style={{ height }}>
+        {data.map((datum, index) => (
+          <div
+            key={`${datum.label}-${index}`}
+            className="group relative flex-1 h-full flex items-end"
+            title={datum.title || `${datum.label}: ${datum.value}`}
+          >
+            <div
+              className={`w-full rounded-t transition-colors ${
+                datum.highlight ? 'bg-[#A20B23]' : 'bg-[#A20B23]/40 group-hover:bg-[#A20B23]/70'
+              }`}
+              style={{ height: `${(datum.value / max) * 100}%`, minHeight: datum.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex gap-px border-t border-gray-200 pt-1">
+        {data.map((datum, index) => (
+          <span
+            key={`${datum.label}-${index}`}
+            className="flex-1 min-w-0 text-center text-[10px] leading-tight text-gray-500 truncate"
+          >
+            {index % labelEvery === 0 ? datum.label : ''}
+          </span>
+        ))}
+      </div>
+    </figure>
+  );
+}
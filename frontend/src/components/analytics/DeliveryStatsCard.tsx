@@ -0,0 +1,87 @@
+/**
+ * Delivery Stats Component
+ * How many notifications were sent, delivered, bounced or failed, by channel
+ */
+
+'use client';
+
+import { Mail } from 'lucide-react';
+import { DeliveryStats } from '@/lib/api/notifications.api';
+import { formatRate } from '@/types/analytics.types';
+
+interface DeliveryStatsCardProps {
+  stats: DeliveryStats | null;
+  isLoading: boolean;
+  error: string | null;
+  description: string;
+}
+
+export function DeliveryStatsCard({ stats, isLoading, error, description }: DeliveryStatsCardProps) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Notification Delivery</h2>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+
+      <div className="p-6">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : isLoading && !stats ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A20B23] mx-auto"></div>
+        ) : !stats || stats.totalSent + stats.totalFailed === 0 ? (
+          <div className="text-center">
+            <Mail className="h-10 w-10 text-gray-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-600">No notifications sent in this period</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-5 text-sm">
+              <div>
+                <dt className="text-gray-600">Sent</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.totalSent}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Delivered</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.totalDelivered}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Bounced</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.totalBounced}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Failed</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stats.totalFailed}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Delivery rate</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatRate(stats.deliveryRate)}</dd>
+              </div>
+            </dl>
+
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 font-medium">Channel</th>
+                  <th className="py-2 font-medium text-right">Sent</th>
+                  <th className="py-2 font-medium text-right">Bounced</th>
+                  <th className="py-2 font-medium text-right">Failed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {stats.byChannel.map(channel => (
+                  <tr key={channel.channel}>
+                    <td className="py-2 text-gray-900">{channel.channel}</td>
+                    <td className="py-2 text-right text-gray-700">{channel.sent}</td>
+                    <td className="py-2 text-right text-gray-700">{channel.bounced}</td>
+                    <td className="py-2 text-right text-gray-700">{channel.failed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Calendar Subscribe Panel Component
+ * iCalendar subscriptions for Google Calendar, Outlook and Apple Calendar:
+ * the user's personal feed of registered events and the public category feeds
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, Check, RefreshCw, Rss } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { EventCategory, getEventCategoryLabel } from '@/types/event.types';
+import type { CalendarFeed } from '@/types/search.types';
+import {
+  getMyCalendarFeed,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  getCategoryFeedUrl,
+} from '@/lib/api/search.api';
+
+// Calendar apps open webcal:// links as subscriptions
+const toWebcal = (url: string) => url.replace(/^https?:/, 'webcal:');
+
+export function CalendarSubscribePanel() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMyCalendarFeed()
+      .then(setFeed)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load your calendar feed'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCreate = async () => {
+    if (feed && !confirm('Calendars subscribed to your current link will stop updating. Create a new link?')) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      setFeed(await createCalendarFeed());
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create your calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Turn off your calendar feed? Subscribed calendars will stop updating.')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await revokeCalendarFeed();
+      setFeed(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off your calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed?.url) return;
+    await navigator.clipboard.writeText(feed.url);
+    setCopied(true);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Personal feed */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">My events</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Events you register for appear in your calendar app and update when they change or are cancelled.
+          Keep this link private: anyone with it can see your registrations.
+        </p>
+
+        {loading ? (
+          <p className="mt-3 text-sm text-gray-500">Loading...</p>
+        ) : feed?.url ? (
+          <div className="mt-3 space-y-3">
+            <p className="text-sm text-gray-600">
+              Copy or subscribe now: for your privacy this link is only shown once.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.currentTarget.select()}
+                className="flex-1 min-w-0 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 bg-gray-50"
+                aria-label="Calendar feed URL"
+              />
+              <Button variant="outline" size="sm" onClick={handleCopy} className="flex items-center gap-1">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <a href={toWebcal(feed.url)}>
+                <Button size="sm" className="flex items-center gap-1">
+                  <Rss className="w-4 h-4" />
+                  Subscribe
+                </Button>
+              </a>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCreate}
+                disabled={saving}
+                className="flex items-center gap-1"
+              >
+                <RefreshCw className="w-4 h-4" />
+                New Link
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={saving} className="text-red-600">
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : feed ? (
+          <div className="mt-3 space-y-3">
+            <p className="text-sm text-gray-600">
+              Your calendar link was created on {new Date(feed.createdAt).toLocaleDateString('en-US')}.
+              Links are only shown once; create a new link to subscribe another calendar.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCreate}
+                disabled={saving}
+                className="flex items-center gap-1"
+              >
+                <RefreshCw className="w-4 h-4" />
+                New Link
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={saving} className="text-red-600">
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button size="sm" onClick={handleCreate} isLoading={saving} className="mt-3">
+            Create My Calendar Link
+          </Button>
+        )}
+      </div>
+
+      {/* Category feeds */}
+      <div className="pt-6 border-t border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">Categories</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Follow every upcoming event in a category.
+        </p>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {Object.values(EventCategory).map((category) => (
+            <a
+              key={category}
+              href={toWebcal(getCategoryFeedUrl(category))}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm bg-red-50 text-red-700 rounded-full hover:bg-red-100"
+            >
+              <Rss className="w-3 h-3" />
+              {getEventCategoryLabel(category)}
+            </a>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,30 +10,47 @@ import { useForm, FormProvider } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
 import { 
   createEventSchema, 
   CreateEventFormData,
   parseDateTimeInput 
 } from '@/lib/validations/event.validation';
-import { EventCategory } from '@/types/event.types';
+import { EventCategory, RecurrenceFrequency, Weekday } from '@/types/event.types';
 import { Button } from '@/components/ui/Button';
 import { Alert } from '@/components/ui/Alert';
+import { VenueAvailabilityGrid } from '@/components/events/VenueAvailabilityGrid';
+import { EventImageUploader } from '@/components/events/EventImageUploader';
+
+const WEEKDAY_OPTIONS: { value: Weekday; label: string }[] = [
+  { value: Weekday.MO, label: 'Mon' },
+  { value: Weekday.TU, label: 'Tue' },
+  { value: Weekday.WE, label: 'Wed' },
+  { value: Weekday.TH, label: 'Thu' },
+  { value: Weekday.FR, label: 'Fri' },
+  { value: Weekday.SA, label: 'Sat' },
+  { value: Weekday.SU, label: 'Sun' },
+];
 
 interface CreateEventFormProps {
-  onSubmit: (data: CreateEventFormData, isDraft: boolean) => Promise<void>;
+  onSubmit: (data: CreateEventFormData, isDraft: boolean, image: Blob | null) => Promise<void>;
   defaultValues?: Partial<CreateEventFormData>;
   isEdit?: boolean;
+  eventId?: string; // Event being edited, so its own room booking is not a conflict
 }
 
 export function CreateEventForm({ 
   onSubmit, 
   defaultValues,
-  isEdit = false 
+  isEdit = false,
+  eventId
 }: CreateEventFormProps) {
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [image, setImage] = useState<Blob | null>(null); // Cropped upload, sent after the event is saved
 
   const totalSteps = 5;
 
@@ -45,6 +62,13 @@ export function CreateEventForm({
       category: EventCategory.OTHER,
       startDateTime: '',
       endDateTime: '',
+      recurrence: {
+        frequency: '',
+        interval: 1,
+        byWeekday: [],
+        count: 10,
+        exceptions: [],
+      },
       location: {
         name: '',
         building: '',
@@ -60,6 +84,38 @@ export function CreateEventForm({
 
   const { register, handleSubmit, formState: { errors }, trigger, watch } = methods;
 
+  const repeatFrequency = watch('recurrence.frequency');
+  const repeatWeekdays = watch('recurrence.byWeekday') || [];
+
+  const toggleWeekday = (day: Weekday) => {
+    const next = repeatWeekdays.includes(day)
+      ? repeatWeekdays.filter((selected) => selected !== day)
+      : [...repeatWeekdays, day];
+    methods.setValue('recurrence.byWeekday', next);
+  };
+
+  const coordinates = watch('location.coordinates');
+
+  // Pin the venue on the search map from the organizer's current position
+  const pinCurrentPosition = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Your browser does not share its location');
+      return;
+    }
+
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        methods.setValue('location.coordinates', {
+          latitude: Number(position.coords.latitude.toFixed(6)),
+          longitude: Number(position.coords.longitude.toFixed(6)),
+        });
+      },
+      () => setLocationError('Could not get your location. Check your browser permissions.'),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
   const handleNext = async () => {
     let fieldsToValidate: (keyof CreateEventFormData)[] = [];
     
@@ -68,7 +124,7 @@ export function CreateEventForm({
         fieldsToValidate = ['title', 'description', 'category'];
         break;
       case 2:
-        fieldsToValidate = ['startDateTime', 'endDateTime'];
+        fieldsToValidate = ['startDateTime', 'endDateTime', 'recurrence'];
         break;
       case 3:
         fieldsToValidate = ['location'];
@@ -102,7 +158,7 @@ export function CreateEventForm({
         endDateTime: parseDateTimeInput(data.endDateTime),
       };
       
-      await onSubmit(formattedData, isDraft);
+      await onSubmit(formattedData, isDraft, image);
       router.push('/events');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create event');
@@ -231,6 +287,109 @@ export function CreateEventForm({
                   )}
                 </div>
               </div>
+
+              {/* Repeat - a series can only be set up when the event is created */}
+              {!isEdit && (
+                <div className="space-y-4 pt-4 border-t border-gray-200">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Repeat
+                    </label>
+                    <select
+                      {...register('recurrence.frequency')}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#A20B23] focus:border-transparent outline-none text-gray-700"
+                    >
+                      <option value="">Does not repeat</option>
+                      <option value={RecurrenceFrequency.DAILY}>Daily</option>
+                      <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+                      <option value={RecurrenceFrequency.MONTHLY}>Monthly (same day of month)</option>
+                    </select>
+                  </div>
+
+                  {repeatFrequency && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Repeat Every
+                          </label>
+                          <input
+                            {...register('recurrence.interval', { valueAsNumber: true })}
+                            type="number"
+                            min="1"
+                            max="12"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#A20B23] focus:border-transparent outline-none text-gray-700 placeholder:text-gray-500"
+                          />
+                          {errors.recurrence?.interval && (
+                            <p className="mt-1 text-sm text-red-600">{errors.recurrence.interval.message}</p>
+                          )}
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Number of Occurrences
+                          </label>
+                          <input
+                            {...register('recurrence.count', { valueAsNumber: true })}
+                            type="number"
+                            min="2"
+                            max="52"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#A20B23] focus:border-transparent outline-none text-gray-700 placeholder:text-gray-500"
+                          />
+                          {errors.recurrence?.count && (
+                            <p className="mt-1 text-sm text-red-600">{errors.recurrence.count.message}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      {repeatFrequency === RecurrenceFrequency.WEEKLY && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            On
+                          </label>
+                          <div className="flex flex-wrap gap-2">
+                            {WEEKDAY_OPTIONS.map((day) => (
+                              <button
+                                key={day.value}
+                                type="button"
+                                onClick={() => toggleWeekday(day.value)}
+                                className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                  repeatWeekdays.includes(day.value)
+                                    ? 'bg-[#A20B23] border-[#A20B23] text-white'
+                                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                }`}
+                              >
+                                {day.label}
+                              </button>
+                            ))}
+                          </div>
+                          <p className="mt-1 text-sm text-gray-500">
+                            Defaults to the weekday of the start date
+                          </p>
+                        </div>
+                      )}
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Skip Dates (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="e.g., 2025-11-26, 2025-12-24"
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#A20B23] focus:border-transparent outline-none text-gray-700 placeholder:text-gray-500"
+                          onChange={(e) => {
+                            const dates = e.target.value.split(',').map(date => date.trim()).filter(Boolean);
+                            methods.setValue('recurrence.exceptions', dates);
+                          }}
+                        />
+                        <p className="mt-1 text-sm text-gray-500">
+                          Separate dates (YYYY-MM-DD) with commas
+                        </p>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -297,6 +456,55 @@ export function CreateEventForm({
                   <p className="mt-1 text-sm text-red-600">{errors.location.address.message}</p>
                 )}
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Map Pin (Optional)
+                </label>
+                <p className="text-sm text-gray-500 mb-2">
+                  Events with a map pin show up in &quot;near me&quot; searches and on the events map.
+                </p>
+                <div className="flex items-center gap-3">
+                  <Button type="button" variant="outline" size="sm" onClick={pinCurrentPosition}>
+                    {coordinates ? 'Update to My Location' : 'Use My Current Location'}
+                  </Button>
+                  {coordinates && (
+                    <>
+                      <span className="text-sm text-gray-700">
+                        {coordinates.latitude.toFixed(5)}, {coordinates.longitude.toFixed(5)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => methods.setValue('location.coordinates', undefined)}
+                        className="text-sm text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </>
+                  )}
+                </div>
+                {locationError && (
+                  <p className="mt-1 text-sm text-red-600">{locationError}</p>
+                )}
+              </div>
+
+              {/* Room availability */}
+              <div className="pt-4 border-t border-gray-200">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Room Availability
+                </label>
+                <VenueAvailabilityGrid
+                  building={watch('location.building')}
+                  room={watch('location.room')}
+                  startDateTime={watch('startDateTime')}
+                  endDateTime={watch('endDateTime')}
+                  excludeEventId={eventId}
+                  onSelectSlot={(start, end) => {
+                    methods.setValue('startDateTime', format(start, "yyyy-MM-dd'T'HH:mm"), { shouldValidate: true });
+                    methods.setValue('endDateTime', format(end, "yyyy-MM-dd'T'HH:mm"), { shouldValidate: true });
+                  }}
+                />
+              </div>
             </div>
           )}
 
@@ -348,38 +556,17 @@ export function CreateEventForm({
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Image URL (Optional)
+                  Image (Optional)
                 </label>
-                <input
-                  {...register('imageUrl')}
-                  type="url"
-                  placeholder="https://example.com/image.jpg"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#A20B23] focus:border-transparent outline-none text-gray-700 placeholder:text-gray-500"
+                <EventImageUploader
+                  currentImageUrl={watch('imageUrl') || undefined}
+                  value={image}
+                  onChange={setImage}
                 />
-                {errors.imageUrl && (
-                  <p className="mt-1 text-sm text-red-600">{errors.imageUrl.message}</p>
-                )}
                 <p className="mt-2 text-sm text-gray-500">
-                  Enter a URL to an event image or leave blank for default
+                  Leave blank to use a default image
                 </p>
               </div>
-
-              {watch('imageUrl') && (
-                <div className="mt-4">
-                  <p className="text-sm font-medium text-gray-700 mb-2">Preview:</p>
-                  <div className="relative w-full h-64 rounded-lg overflow-hidden">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={watch('imageUrl')}
-                      alt="Event preview"
-                      className="w-full h-full object-cover"
-                      onError={(e) => {
-                        e.currentTarget.style.display = 'none';
-                      }}
-                    />
-                  </div>
-                </div>
-              )}
             </div>
           )}
 
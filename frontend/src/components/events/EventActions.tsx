@@ -1,11 +1,11 @@
 /**
  * EventActions Component
- * Admin and organizer actions for events (Edit, Delete, Publish, Approve/Reject)
+ * Admin and organizer actions for events (Edit, Delete, Publish, Submit for Approval, Approve/Reject)
  */
 
 'use client';
 
-import { Edit, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { Edit, Trash2, CheckCircle, XCircle, Send } from 'lucide-react';
 import { Event, EventStatus } from '@/types/event.types';
 import { Button } from '@/components/ui/Button';
 
@@ -16,6 +16,7 @@ export interface EventActionsProps {
   onEdit?: () => void;
   onDelete?: () => void;
   onPublish?: () => void;
+  onSubmitForApproval?: () => void;
   onApprove?: () => void;
   onReject?: () => void;
 }
@@ -27,16 +28,20 @@ export function EventActions({
   onEdit,
   onDelete,
   onPublish,
+  onSubmitForApproval,
   onApprove,
   onReject,
 }: EventActionsProps) {
   const canEdit = isOrganizer || isAdmin;
   const canDelete = isOrganizer || isAdmin;
-  const canPublish = isOrganizer && event.status === EventStatus.DRAFT;
+  const isDraft = isOrganizer && event.status === EventStatus.DRAFT;
+  // Events matching the approval rules go through the review queue unless an administrator publishes them
+  const canPublish = isDraft && (!event.requiresApproval || isAdmin);
+  const canSubmitForApproval = isDraft && !!event.requiresApproval && !isAdmin;
   const canApprove = isAdmin && event.status === EventStatus.PENDING_APPROVAL;
 
   // If no actions available, don't render
-  if (!canEdit && !canDelete && !canPublish && !canApprove) {
+  if (!canEdit && !canDelete && !canPublish && !canSubmitForApproval && !canApprove) {
     return null;
   }
 
@@ -71,6 +76,19 @@ export function EventActions({
           </Button>
         )}
 
+        {/* Submit for Approval Button - for draft events that need review */}
+        {canSubmitForApproval && onSubmitForApproval && (
+          <Button
+            onClick={onSubmitForApproval}
+            variant="primary"
+            fullWidth
+            className="justify-start"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Submit for Approval
+          </Button>
+        )}
+
         {/* Admin Approval Actions */}
         {canApprove && (
           <>
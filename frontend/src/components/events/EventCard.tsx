@@ -18,7 +18,7 @@ export function EventCard({ event, className = '' }: EventCardProps) {
   const isFull = isEventFull(event);
 
   // Default placeholder image if no image URL
-  const imageUrl = event.imageUrl || `https://picsum.photos/seed/${event.id}/400/240`;
+  const imageUrl = event.imageVariants?.thumbnail || event.imageUrl || `https://picsum.photos/seed/${event.id}/400/240`;
 
   return (
     <Link
@@ -6,9 +6,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Calendar, Users, Tag, ExternalLink, Loader2 } from 'lucide-react';
-import { Event, formatEventDateTime, getAvailableSeats, isEventFull, getEventCategoryLabel } from '@/types/event.types';
+import Link from 'next/link';
+import { Calendar, Users, Tag, ExternalLink, Loader2, Star, MessageSquare } from 'lucide-react';
+import { Event, EventStatus, formatEventDateTime, getAvailableSeats, isEventFull, getEventCategoryLabel } from '@/types/event.types';
+import { getEventIcsUrl } from '@/lib/api/search.api';
 import { useRegistrationActions, useEventRegistration } from '@/hooks/registrations/useRegistrations';
+import { useOrganizerRating } from '@/hooks/registrations/useFeedback';
+import { RegistrationStatus } from '@/types/registration.types';
 import { useAuth } from '@/hooks/useAuth';
 import { Alert } from '@/components/ui/Alert';
 
@@ -20,7 +24,7 @@ export interface EventDetailProps {
 export function EventDetail({ event, onEventUpdate }: EventDetailProps) {
   const availableSeats = getAvailableSeats(event);
   const isFull = isEventFull(event);
-  const imageUrl = event.imageUrl || `https://picsum.photos/seed/${event.id}/1200/400`;
+  const imageUrl = event.imageVariants?.hero || event.imageUrl || `https://picsum.photos/seed/${event.id}/1200/400`;
 
   // Get current user
   const { user } = useAuth();
@@ -35,6 +39,10 @@ export function EventDetail({ event, onEventUpdate }: EventDetailProps) {
     refreshRegistration();
   }, [event.id, refreshRegistration]);
 
+  // Organizer's rating from past events, shown while this one is still upcoming
+  const isUpcoming = new Date(event.startDateTime) > new Date();
+  const organizerRating = useOrganizerRating(isUpcoming ? event.organizerId : null);
+
   // Format hours if needed (placeholder - would come from backend)
   const eventHours = {
     weekday: '7PM - 10PM',
@@ -232,9 +240,16 @@ export function EventDetail({ event, onEventUpdate }: EventDetailProps) {
                 <Calendar className="w-5 h-5 text-[#A20B23] mt-0.5 flex-shrink-0" />
                 <div>
                   <p className="font-medium">{formatEventDateTime(event.startDateTime)}</p>
-                  <p className="text-sm text-gray-500 mt-1">
-                    Add to calendar
-                  </p>
+                  {/* Only published events can be downloaded */}
+                  {event.status === EventStatus.PUBLISHED && (
+                    <a
+                      href={getEventIcsUrl(event.id)}
+                      download
+                      className="inline-block text-sm text-[#A20B23] hover:underline mt-1"
+                    >
+                      Add to calendar (.ics)
+                    </a>
+                  )}
                 </div>
               </div>
             </div>
@@ -275,6 +290,22 @@ export function EventDetail({ event, onEventUpdate }: EventDetailProps) {
               </div>
             </div>
 
+            {/* Organizer Rating */}
+            {organizerRating && organizerRating.ratingCount > 0 && organizerRating.averageRating != null && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Star className="w-5 h-5 text-gray-600" />
+                  <h3 className="font-semibold text-gray-900">Organizer rating</h3>
+                </div>
+                <p className="text-sm text-gray-700">
+                  <span className="font-semibold">{organizerRating.averageRating.toFixed(1)}</span> / 5
+                  <span className="text-gray-500">
+                    {' '}from {organizerRating.ratingCount} attendee {organizerRating.ratingCount === 1 ? 'review' : 'reviews'}
+                  </span>
+                </p>
+              </div>
+            )}
+
             {/* Registration Status */}
             {isRegistered && registration && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -304,6 +335,15 @@ export function EventDetail({ event, onEventUpdate }: EventDetailProps) {
                   <Loader2 className="w-4 h-4 animate-spin text-gray-600" />
                   <span className="text-sm text-gray-600">Checking registration status...</span>
                 </div>
+              ) : registration?.status === RegistrationStatus.ATTENDED ? (
+                // Attended - invite feedback
+                <Link
+                  href={`/events/${event.id}/feedback`}
+                  className="w-full py-3 px-4 rounded-lg font-semibold bg-[#A20B23] hover:bg-[#8A0A1E] text-white transition-colors flex items-center justify-center gap-2"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  Leave Feedback
+                </Link>
               ) : isRegistered && registration ? (
                 // User is registered - show cancel button
                 <>
@@ -0,0 +1,354 @@
+/**
+ * Event Image Uploader Component
+ * Drag and drop (or pick) an image, then pan and zoom it into the 16:9 frame
+ * used by event cards and the event page. The crop is rendered in the browser
+ * and uploaded when the event is saved.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ImagePlus, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+
+// Smallest source the image processor accepts, and the size crops are rendered at
+const MIN_WIDTH = 800;
+const MIN_HEIGHT = 450;
+const OUTPUT_WIDTH = 1920;
+const ASPECT_RATIO = 16 / 9;
+const MAX_ZOOM = 3;
+
+interface EventImageUploaderProps {
+  currentImageUrl?: string; // Image the event already has
+  value: Blob | null; // Cropped image waiting to be uploaded
+  onChange: (image: Blob | null) => void;
+}
+
+interface SourceImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+export function EventImageUploader({ currentImageUrl, value, onChange }: EventImageUploaderProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; offset: Offset } | null>(null);
+
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const [frameWidth, setFrameWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 }); // Image center relative to the frame center
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Preview of the cropped image
+  useEffect(() => {
+    if (!value) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(value);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [value]);
+
+  // Release the picked file when it is replaced or the crop is done
+  useEffect(() => {
+    return () => {
+      if (source) URL.revokeObjectURL(source.url);
+    };
+  }, [source]);
+
+  // Keep the crop math in step with the rendered frame
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!source || !frame) return;
+
+    const observer = new ResizeObserver(([entry]) => setFrameWidth(entry.contentRect.width));
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, [source]);
+
+  const frameHeight = frameWidth / ASPECT_RATIO;
+
+  // Scale at which the image covers the frame at the given zoom
+  const getScale = (zoomLevel: number) =>
+    source ? Math.max(frameWidth / source.width, frameHeight / source.height) * zoomLevel : 1;
+
+  // The image must always cover the whole frame
+  const clampOffset = (next: Offset, zoomLevel: number): Offset => {
+    if (!source) return next;
+    const scale = getScale(zoomLevel);
+    const maxX = (source.width * scale - frameWidth) / 2;
+    const maxY = (source.height * scale - frameHeight) / 2;
+    return {
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  };
+
+  const loadFile = async (file: File) => {
+    setError(null);
+
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setError('Choose a JPEG, PNG or WebP image');
+      return;
+    }
+    if (file.size > MAX_SOURCE_BYTES) {
+      setError('Image must be smaller than 20 MB');
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.src = url;
+
+    try {
+      await image.decode();
+    } catch {
+      URL.revokeObjectURL(url);
+      setError('This image could not be read');
+      return;
+    }
+
+    if (image.naturalWidth < MIN_WIDTH || image.naturalHeight < MIN_HEIGHT) {
+      URL.revokeObjectURL(url);
+      setError(`Image must be at least ${MIN_WIDTH}x${MIN_HEIGHT} pixels`);
+      return;
+    }
+
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    setSource({ url, width: image.naturalWidth, height: image.naturalHeight });
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) loadFile(file);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    setOffset(
+      clampOffset(
+        {
+          x: start.offset.x + e.clientX - start.pointerX,
+          y: start.offset.y + e.clientY - start.pointerY,
+        },
+        zoom
+      )
+    );
+  };
+
+  const handleZoom = (nextZoom: number) => {
+    setZoom(nextZoom);
+    setOffset((current) => clampOffset(current, nextZoom));
+  };
+
+  const handleCancelCrop = () => {
+    setSource(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  // Render the framed part of the image at full resolution
+  const handleApplyCrop = async () => {
+    if (!source || frameWidth === 0) return;
+
+    const image = new Image();
+    image.src = source.url;
+    await image.decode();
+
+    const scale = getScale(zoom);
+    const sourceWidth = frameWidth / scale;
+    const sourceHeight = frameHeight / scale;
+    const sourceX = (source.width - sourceWidth) / 2 - offset.x / scale;
+    const sourceY = (source.height - sourceHeight) / 2 - offset.y / scale;
+
+    const width = Math.round(Math.max(MIN_WIDTH, Math.min(OUTPUT_WIDTH, sourceWidth)));
+    const height = Math.round(width / ASPECT_RATIO);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      setError('Your browser could not crop this image');
+      return;
+    }
+    context.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          setError('Your browser could not crop this image');
+          return;
+        }
+        onChange(blob);
+        handleCancelCrop();
+      },
+      'image/jpeg',
+      0.9
+    );
+  };
+
+  const fileInput = (
+    <input
+      ref={inputRef}
+      type="file"
+      accept={ACCEPTED_TYPES.join(',')}
+      className="hidden"
+      onChange={(e) => handleFiles(e.target.files)}
+    />
+  );
+
+  // Cropping
+  if (source) {
+    const scale = getScale(zoom);
+
+    return (
+      <div className="space-y-4">
+        <div
+          ref={frameRef}
+          className="relative w-full aspect-video rounded-lg overflow-hidden bg-gray-900 cursor-move touch-none select-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragStart.current = null)}
+          onPointerCancel={() => (dragStart.current = null)}
+        >
+          {frameWidth > 0 && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={source.url}
+              alt="Crop preview"
+              draggable={false}
+              className="absolute max-w-none pointer-events-none"
+              style={{
+                width: source.width * scale,
+                height: source.height * scale,
+                left: (frameWidth - source.width * scale) / 2 + offset.x,
+                top: (frameHeight - source.height * scale) / 2 + offset.y,
+              }}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label htmlFor="event-image-zoom" className="text-sm font-medium text-gray-700">
+            Zoom
+          </label>
+          <input
+            id="event-image-zoom"
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => handleZoom(Number(e.target.value))}
+            className="flex-1 accent-[#A20B23]"
+          />
+        </div>
+        <p className="text-sm text-gray-500">
+          Drag the image to choose what shows on event cards and the event page.
+        </p>
+
+        <div className="flex gap-3">
+          <Button type="button" variant="primary" onClick={handleApplyCrop}>
+            Use Image
+          </Button>
+          <Button type="button" variant="outline" onClick={handleCancelCrop}>
+            Cancel
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const shownImageUrl = previewUrl || currentImageUrl;
+
+  return (
+    <div
+      onDrop={handleDrop}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      className="space-y-3"
+    >
+      {fileInput}
+
+      {shownImageUrl ? (
+        <>
+          <div
+            className={`relative w-full aspect-video rounded-lg overflow-hidden ${
+              isDragOver ? 'ring-2 ring-[#A20B23]' : ''
+            }`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={shownImageUrl} alt="Event image" className="w-full h-full object-cover" />
+          </div>
+          <div className="flex items-center gap-3">
+            <Button type="button" variant="outline" onClick={() => inputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Replace Image
+            </Button>
+            {value && (
+              <Button type="button" variant="ghost" onClick={() => onChange(null)}>
+                <X className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+          {value && (
+            <p className="text-sm text-gray-500">
+              The image is uploaded when you save the event.
+            </p>
+          )}
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className={`w-full aspect-video flex flex-col items-center justify-center rounded-lg border-2 border-dashed transition-colors ${
+            isDragOver ? 'border-[#A20B23] bg-red-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <ImagePlus className="h-10 w-10 text-gray-400 mb-3" />
+          <span className="text-sm font-medium text-gray-700">
+            Drag an image here or click to choose one
+          </span>
+          <span className="mt-1 text-sm text-gray-500">
+            JPEG, PNG or WebP, at least {MIN_WIDTH}x{MIN_HEIGHT} pixels
+          </span>
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+/**
+ * Event Map Component
+ * OpenStreetMap view of search results; reports the visible area so the page can re-query
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useDebounce } from 'use-debounce';
+import { LocateFixed, MapPin, Minus, Plus, X } from 'lucide-react';
+import type { EventSearchItem, GeoRadiusFilter } from '@/types/search.types';
+import type { EventCoordinates } from '@/types/event.types';
+import {
+  CAMPUS_CENTER,
+  MAX_SEARCH_RADIUS_METERS,
+  TILE_SIZE,
+  distanceInMeters,
+  project,
+  unproject,
+} from '@/lib/geo';
+
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 18;
+const DEFAULT_ZOOM = 16;
+
+interface EventMapProps {
+  events: EventSearchItem[];
+  initialCenter?: EventCoordinates;
+  userLocation?: EventCoordinates;
+  onViewportChange: (viewport: GeoRadiusFilter) => void;
+  onEventClick: (eventId: string) => void;
+}
+
+interface PinGroup {
+  key: string;
+  coordinates: EventCoordinates;
+  events: EventSearchItem[];
+}
+
+// Events in the same building share one pin
+function groupByCoordinates(events: EventSearchItem[]): PinGroup[] {
+  const groups = new Map<string, PinGroup>();
+
+  for (const event of events) {
+    const coordinates = event.location.coordinates;
+    if (!coordinates) continue;
+
+    const key = `${coordinates.latitude.toFixed(5)},${coordinates.longitude.toFixed(5)}`;
+    const group = groups.get(key);
+    if (group) {
+      group.events.push(event);
+    } else {
+      groups.set(key, { key, coordinates, events: [event] });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+export function EventMap({
+  events,
+  initialCenter = CAMPUS_CENTER,
+  userLocation,
+  onViewportChange,
+  onEventClick,
+}: EventMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const onViewportChangeRef = useRef(onViewportChange);
+
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [center, setCenter] = useState<EventCoordinates>(initialCenter);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [drag, setDrag] = useState({ dx: 0, dy: 0 });
+  const [selectedPin, setSelectedPin] = useState<string | null>(null);
+
+  useEffect(() => {
+    onViewportChangeRef.current = onViewportChange;
+  });
+
+  // Follow the container size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Recenter when the caller moves the map, e.g. after "near me"
+  useEffect(() => {
+    setCenter({ latitude: initialCenter.latitude, longitude: initialCenter.longitude });
+  }, [initialCenter.latitude, initialCenter.longitude]);
+
+  // Visible area as a circle around the center, reported once the map stops moving
+  const viewport = useMemo<GeoRadiusFilter | null>(() => {
+    if (size.width === 0) return null;
+
+    const centerPx = project(center, zoom);
+    const corner = unproject(centerPx.x - size.width / 2, centerPx.y - size.height / 2, zoom);
+
+    return {
+      latitude: center.latitude,
+      longitude: center.longitude,
+      distanceMeters: Math.min(Math.ceil(distanceInMeters(center, corner)), MAX_SEARCH_RADIUS_METERS),
+    };
+  }, [center, zoom, size.width, size.height]);
+
+  const [debouncedViewport] = useDebounce(viewport, 400);
+
+  useEffect(() => {
+    if (debouncedViewport) {
+      onViewportChangeRef.current(debouncedViewport);
+    }
+  }, [debouncedViewport]);
+
+  const pins = useMemo(() => groupByCoordinates(events), [events]);
+  const selectedGroup = pins.find((pin) => pin.key === selectedPin);
+
+  // World pixel position of the container's top-left corner
+  const centerPx = project(center, zoom);
+  const originX = centerPx.x - size.width / 2 - drag.dx;
+  const originY = centerPx.y - size.height / 2 - drag.dy;
+
+  const tiles = useMemo(() => {
+    if (size.width === 0) return [];
+
+    const tileCount = 2 ** zoom;
+    const result: { key: string; left: number; top: number; url: string }[] = [];
+
+    for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + size.height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+
+      for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + size.width) / TILE_SIZE); tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        result.push({
+          key: `${zoom}/${tx}/${ty}`,
+          left: tx * TILE_SIZE - originX,
+          top: ty * TILE_SIZE - originY,
+          url: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${ty}.png`,
+        });
+      }
+    }
+
+    return result;
+  }, [originX, originY, zoom, size.width, size.height]);
+
+  const toScreen = (point: EventCoordinates) => {
+    const px = project(point, zoom);
+    return { left: px.x - originX, top: px.y - originY };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    setDrag({ dx: e.clientX - dragStart.current.x, dy: e.clientY - dragStart.current.y });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart.current) return;
+    dragStart.current = null;
+
+    if (drag.dx !== 0 || drag.dy !== 0) {
+      setCenter(unproject(centerPx.x - drag.dx, centerPx.y - drag.dy, zoom));
+      setDrag({ dx: 0, dy: 0 });
+    }
+  };
+
+  const changeZoom = (delta: number) => {
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-[520px] w-full overflow-hidden rounded-lg bg-gray-100 shadow-md touch-none select-none cursor-grab active:cursor-grabbing"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => changeZoom(1)}
+    >
+      {/* Tiles */}
+      {tiles.map((tile) => (
+        <div
+          key={tile.key}
+          className="absolute bg-cover"
+          style={{
+            left: tile.left,
+            top: tile.top,
+            width: TILE_SIZE,
+            height: TILE_SIZE,
+            backgroundImage: `url(${tile.url})`,
+          }}
+        />
+      ))}
+
+      {/* User location */}
+      {userLocation && (
+        <div
+          className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-blue-600 shadow"
+          style={toScreen(userLocation)}
+          title="You are here"
+        />
+      )}
+
+      {/* Event pins */}
+      {pins.map((pin) => (
+        <button
+          key={pin.key}
+          type="button"
+          className="absolute -translate-x-1/2 -translate-y-full"
+          style={toScreen(pin.coordinates)}
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          onClick={() => setSelectedPin(pin.key === selectedPin ? null : pin.key)}
+          title={pin.events.map((event) => event.title).join(', ')}
+        >
+          <MapPin className="h-8 w-8 fill-red-600 text-white drop-shadow" />
+          {pin.events.length > 1 && (
+            <span className="absolute -right-1 -top-1 rounded-full bg-gray-900 px-1.5 text-xs font-semibold text-white">
+              {pin.events.length}
+            </span>
+          )}
+        </button>
+      ))}
+
+      {/* Selected pin */}
+      {selectedGroup && (
+        <div
+          className="absolute left-3 top-3 z-10 w-72 rounded-lg bg-white p-4 shadow-lg"
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          <div className="mb-2 flex items-start justify-between gap-2">
+            <p className="text-sm font-semibold text-gray-900">
+              {selectedGroup.events[0].location.building}
+            </p>
+            <button
+              type="button"
+              onClick={() => setSelectedPin(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="max-h-60 space-y-2 overflow-y-auto">
+            {selectedGroup.events.map((event) => (
+              <li key={event.id}>
+                <button
+                  type="button"
+                  onClick={() => onEventClick(event.id)}
+                  className="w-full rounded-md p-2 text-left hover:bg-gray-50"
+                >
+                  <p className="text-sm font-medium text-red-700">{event.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(event.startDateTime), 'EEE, MMM d, h:mm a')}
+                    {event.location.room ? ` · Room ${event.location.room}` : ''}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div
+        className="absolute right-3 top-3 z-10 flex flex-col overflow-hidden rounded-md bg-white shadow"
+        onPointerDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          onClick={() => changeZoom(1)}
+          disabled={zoom >= MAX_ZOOM}
+          className="p-2 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+          aria-label="Zoom in"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => changeZoom(-1)}
+          disabled={zoom <= MIN_ZOOM}
+          className="border-t border-gray-200 p-2 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+          aria-label="Zoom out"
+        >
+          <Minus className="h-4 w-4" />
+        </button>
+        {userLocation && (
+          <button
+            type="button"
+            onClick={() => setCenter(userLocation)}
+            className="border-t border-gray-200 p-2 text-gray-700 hover:bg-gray-50"
+            aria-label="Center on my location"
+          >
+            <LocateFixed className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Attribution required by the OpenStreetMap tile policy */}
+      <div className="absolute bottom-0 right-0 bg-white/80 px-1.5 py-0.5 text-[10px] text-gray-600">
+        ©{' '}
+        <a
+          href="https://www.openstreetmap.org/copyright"
+          target="_blank"
+          rel="noopener noreferrer"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          OpenStreetMap
+        </a>{' '}
+        contributors
+      </div>
+    </div>
+  );
+}
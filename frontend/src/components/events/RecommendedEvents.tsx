@@ -0,0 +1,78 @@
+/**
+ * Recommended Events Component
+ * "Recommended for you" section: upcoming events picked from the user's
+ * registrations and interests, each with the reason it was picked
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Sparkles } from 'lucide-react';
+import { EventCard } from '@/components/events/EventCard';
+import { getRecommendedEvents } from '@/lib/api/search.api';
+import type { RecommendedEvent } from '@/types/search.types';
+
+interface RecommendedEventsProps {
+  limit?: number;
+}
+
+export function RecommendedEvents({ limit = 6 }: RecommendedEventsProps) {
+  const [recommendations, setRecommendations] = useState<RecommendedEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRecommendedEvents(limit)
+      .then((result) => {
+        if (!cancelled) setRecommendations(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load recommendations');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [limit]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Sparkles className="h-5 w-5 text-red-600" />
+          Recommended for you
+        </h2>
+        <Link href="/events/search" className="text-sm font-medium text-red-600 hover:text-red-700">
+          Browse all events
+        </Link>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-red-600"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : recommendations.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No recommendations yet. Register for a few events and we&apos;ll suggest more like them.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {recommendations.map(({ event, reason }) => (
+            <div key={event.id}>
+              <EventCard event={event} />
+              <p className="mt-2 text-sm text-gray-500">{reason}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Save Search Form Component
+ * Names the current search criteria and optionally turns on new-match alerts
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { saveSearch } from '@/lib/api/search.api';
+import type { SavedSearch, SearchQuery } from '@/types/search.types';
+
+interface SaveSearchFormProps {
+  search: SearchQuery;
+  onSaved: (savedSearch: SavedSearch) => void;
+  onCancel: () => void;
+}
+
+export function SaveSearchForm({ search, onSaved, onCancel }: SaveSearchFormProps) {
+  const [name, setName] = useState(search.query || '');
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Give this search a name');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const savedSearch = await saveSearch(name.trim(), search, alertsEnabled);
+      onSaved(savedSearch);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 max-w-3xl rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+        <div className="flex-1">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={80}
+            placeholder="e.g. Robotics workshops"
+            error={error || undefined}
+            autoFocus
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" size="sm" isLoading={saving}>
+            Save
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+      <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={alertsEnabled}
+          onChange={(e) => setAlertsEnabled(e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+        />
+        Alert me when new events match
+      </label>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Series Scope Select Component
+ * Chooses which occurrences of a recurring series an edit, publish or cancel applies to
+ */
+
+'use client';
+
+import React from 'react';
+import { SeriesEditScope } from '@/types/event.types';
+
+interface SeriesScopeSelectProps {
+  value: SeriesEditScope;
+  onChange: (scope: SeriesEditScope) => void;
+  label?: string;
+}
+
+const SCOPE_OPTIONS: { value: SeriesEditScope; label: string }[] = [
+  { value: SeriesEditScope.THIS_OCCURRENCE, label: 'This occurrence' },
+  { value: SeriesEditScope.THIS_AND_FOLLOWING, label: 'This and following occurrences' },
+  { value: SeriesEditScope.ALL_OCCURRENCES, label: 'All occurrences' },
+];
+
+export function SeriesScopeSelect({ value, onChange, label = 'Apply changes to' }: SeriesScopeSelectProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as SeriesEditScope)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#A20B23] focus:border-transparent outline-none text-gray-700"
+      >
+        {SCOPE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Venue Availability Grid Component
+ * Half-hour view of a room's day so organizers can pick a conflict-free time
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { addDays, addMinutes, format, isSameDay, startOfDay } from 'date-fns';
+import { CheckCircle, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { useVenueAvailability } from '@/hooks/events/useVenueAvailability';
+
+// Rooms are bookable from 7am to 11pm
+const OPENS_HOUR = 7;
+const CLOSES_HOUR = 23;
+const SLOT_MINUTES = 30;
+const DEFAULT_DURATION_MINUTES = 60;
+
+interface VenueAvailabilityGridProps {
+  building?: string;
+  room?: string;
+  startDateTime?: string; // datetime-local value
+  endDateTime?: string; // datetime-local value
+  excludeEventId?: string;
+  onSelectSlot: (start: Date, end: Date) => void;
+}
+
+function parseLocal(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function formatRange(start: string | Date, end: string | Date): string {
+  const startDate = new Date(start);
+  return `${format(startDate, 'EEE, MMM d, h:mm a')} – ${format(new Date(end), 'h:mm a')}`;
+}
+
+export function VenueAvailabilityGrid({
+  building,
+  room,
+  startDateTime,
+  endDateTime,
+  excludeEventId,
+  onSelectSlot,
+}: VenueAvailabilityGridProps) {
+  const requestedStart = parseLocal(startDateTime);
+  const requestedEnd = parseLocal(endDateTime);
+  const requestedStartKey = requestedStart?.getTime();
+
+  const [day, setDay] = useState<Date>(() => startOfDay(requestedStart || new Date()));
+
+  // Follow the chosen start date
+  useEffect(() => {
+    if (requestedStartKey !== undefined) {
+      setDay(startOfDay(new Date(requestedStartKey)));
+    }
+  }, [requestedStartKey]);
+
+  const { bookings, availability, loading, error } = useVenueAvailability({
+    building,
+    room,
+    day,
+    startDateTime: requestedStart,
+    endDateTime: requestedEnd,
+    excludeEventId,
+  });
+
+  if (!building?.trim() || !room?.trim()) {
+    return (
+      <p className="text-sm text-gray-500">
+        Enter a building and room to see when the room is free.
+      </p>
+    );
+  }
+
+  const durationMinutes =
+    requestedStart && requestedEnd && requestedEnd > requestedStart
+      ? Math.round((requestedEnd.getTime() - requestedStart.getTime()) / 60000)
+      : DEFAULT_DURATION_MINUTES;
+
+  const slots = Array.from(
+    { length: ((CLOSES_HOUR - OPENS_HOUR) * 60) / SLOT_MINUTES },
+    (_, index) => addMinutes(day, OPENS_HOUR * 60 + index * SLOT_MINUTES)
+  );
+
+  const bookingAt = (slotStart: Date) => {
+    const slotEnd = addMinutes(slotStart, SLOT_MINUTES);
+    return bookings.find(
+      (booking) =>
+        slotStart < new Date(booking.endDateTime) && slotEnd > new Date(booking.startDateTime)
+    );
+  };
+
+  const isRequested = (slotStart: Date) =>
+    !!requestedStart &&
+    !!requestedEnd &&
+    slotStart < requestedEnd &&
+    addMinutes(slotStart, SLOT_MINUTES) > requestedStart;
+
+  const isFree = (slotStart: Date) => {
+    const slotEnd = addMinutes(slotStart, durationMinutes);
+    return (
+      slotStart > new Date() &&
+      isSameDay(slotStart, addMinutes(slotEnd, -1)) &&
+      !bookings.some(
+        (booking) =>
+          slotStart < new Date(booking.endDateTime) && slotEnd > new Date(booking.startDateTime)
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Day navigation */}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setDay(addDays(day, -1))}
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+          aria-label="Previous day"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="text-sm font-medium text-gray-700">
+          {building} {room} · {format(day, 'EEEE, MMMM d')}
+        </span>
+        <button
+          type="button"
+          onClick={() => setDay(addDays(day, 1))}
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+          aria-label="Next day"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Half-hour grid */}
+      <div className={`grid grid-cols-4 sm:grid-cols-8 gap-1 ${loading ? 'opacity-50' : ''}`}>
+        {slots.map((slotStart) => {
+          const booking = bookingAt(slotStart);
+          const requested = isRequested(slotStart);
+          const free = !booking && isFree(slotStart);
+
+          let className = 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed';
+          if (booking) {
+            className = 'border-red-200 bg-red-50 text-red-700 cursor-not-allowed';
+          } else if (requested) {
+            className = 'border-[#A20B23] bg-[#A20B23] text-white';
+          } else if (free) {
+            className = 'border-green-200 bg-green-50 text-green-800 hover:bg-green-100';
+          }
+
+          return (
+            <button
+              key={slotStart.getTime()}
+              type="button"
+              disabled={!free}
+              onClick={() => onSelectSlot(slotStart, addMinutes(slotStart, durationMinutes))}
+              title={
+                booking
+                  ? `Booked: ${booking.title || 'Reserved'}`
+                  : free
+                    ? `Start at ${format(slotStart, 'h:mm a')}`
+                    : undefined
+              }
+              className={`px-1 py-2 rounded border text-xs font-medium transition-colors ${className}`}
+            >
+              {format(slotStart, 'h:mm a')}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border border-green-200" /> Free</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-100 border border-red-200" /> Booked</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-[#A20B23]" /> Your event</span>
+      </div>
+
+      {/* Result of the conflict check for the chosen time */}
+      {availability && availability.available && (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4" />
+          The room is free at the chosen time.
+        </p>
+      )}
+      {availability && !availability.available && (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800 space-y-2">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="w-4 h-4" />
+            The room is already booked at the chosen time
+          </p>
+          <ul className="list-disc list-inside">
+            {availability.conflicts.map((conflict) => (
+              <li key={`${conflict.eventId}-${conflict.startDateTime}`}>
+                {conflict.title || 'Another event'} ({formatRange(conflict.startDateTime, conflict.endDateTime)})
+              </li>
+            ))}
+          </ul>
+          {availability.suggestedSlots.length > 0 && (
+            <div>
+              <p className="mb-2">Nearest free times:</p>
+              <div className="flex flex-wrap gap-2">
+                {availability.suggestedSlots.map((slot) => (
+                  <button
+                    key={slot.startDateTime}
+                    type="button"
+                    onClick={() => onSelectSlot(new Date(slot.startDateTime), new Date(slot.endDateTime))}
+                    className="px-3 py-1 rounded-lg border border-yellow-300 bg-white text-yellow-900 hover:bg-yellow-100"
+                  >
+                    {formatRange(slot.startDateTime, slot.endDateTime)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
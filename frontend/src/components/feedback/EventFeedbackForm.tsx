@@ -0,0 +1,148 @@
+/**
+ * Event Feedback Form Component
+ * Attendee-facing form: the overall rating plus the organizer's questions
+ */
+
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { StarRating } from './StarRating';
+import {
+  FeedbackAnswer,
+  FeedbackForm,
+  FeedbackQuestion,
+  FeedbackQuestionType,
+  SubmitEventFeedbackInput,
+} from '@/types/feedback.types';
+
+interface EventFeedbackFormProps {
+  form: FeedbackForm;
+  isSubmitting: boolean;
+  onSubmit: (input: Omit<SubmitEventFeedbackInput, 'eventId'>) => void;
+}
+
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Whether a question has an answer worth sending
+ */
+function isAnswered(question: FeedbackQuestion, answer?: FeedbackAnswer): boolean {
+  if (!answer) return false;
+  switch (question.type) {
+    case FeedbackQuestionType.RATING:
+      return !!answer.rating;
+    case FeedbackQuestionType.MULTIPLE_CHOICE:
+      return !!answer.choice;
+    default:
+      return !!answer.text?.trim();
+  }
+}
+
+export function EventFeedbackForm({ form, isSubmitting, onSubmit }: EventFeedbackFormProps) {
+  const [overallRating, setOverallRating] = useState<number | null>(null);
+  const [answers, setAnswers] = useState<Record<string, FeedbackAnswer>>({});
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const setAnswer = (questionId: string, value: Omit<FeedbackAnswer, 'questionId'>) => {
+    setAnswers(prev => ({ ...prev, [questionId]: { questionId, ...value } }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!overallRating) {
+      setValidationError('Please give the event an overall rating');
+      return;
+    }
+
+    const missing = form.questions.find(question => question.required && !isAnswered(question, answers[question.id]));
+    if (missing) {
+      setValidationError(`Please answer "${missing.prompt}"`);
+      return;
+    }
+
+    setValidationError(null);
+    onSubmit({
+      overallRating,
+      answers: form.questions
+        .filter(question => isAnswered(question, answers[question.id]))
+        .map(question => answers[question.id]),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      {/* Overall rating */}
+      <div>
+        <p className="text-base font-medium text-gray-900">
+          Overall, how would you rate this event? <span className="text-red-600">*</span>
+        </p>
+        <div className="mt-2">
+          <StarRating value={overallRating} onChange={setOverallRating} label="Overall rating" />
+        </div>
+      </div>
+
+      {/* Organizer's questions */}
+      {form.questions.map(question => (
+        <div key={question.id}>
+          <p id={`question-${question.id}`} className="text-base font-medium text-gray-900">
+            {question.prompt} {question.required && <span className="text-red-600">*</span>}
+          </p>
+
+          <div className="mt-2">
+            {question.type === FeedbackQuestionType.RATING && (
+              <StarRating
+                value={answers[question.id]?.rating ?? null}
+                onChange={rating => setAnswer(question.id, { rating })}
+                label={question.prompt}
+              />
+            )}
+
+            {question.type === FeedbackQuestionType.MULTIPLE_CHOICE && (
+              <div role="radiogroup" aria-labelledby={`question-${question.id}`} className="space-y-2">
+                {(question.options || []).map(option => (
+                  <label key={option} className="flex items-center gap-3 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name={`question-${question.id}`}
+                      value={option}
+                      checked={answers[question.id]?.choice === option}
+                      onChange={() => setAnswer(question.id, { choice: option })}
+                      className="h-4 w-4 text-[#A20B23] focus:ring-[#A20B23]"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {question.type === FeedbackQuestionType.TEXT && (
+              <textarea
+                aria-labelledby={`question-${question.id}`}
+                value={answers[question.id]?.text || ''}
+                onChange={(e) => setAnswer(question.id, { text: e.target.value })}
+                maxLength={MAX_TEXT_LENGTH}
+                rows={4}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23] focus:border-[#A20B23]"
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Your answers are shared with the organizer without your name.
+        </p>
+        <Button type="submit" isLoading={isSubmitting} disabled={isSubmitting}>
+          <Send className="h-4 w-4 mr-2" />
+          Submit Feedback
+        </Button>
+      </div>
+    </form>
+  );
+}
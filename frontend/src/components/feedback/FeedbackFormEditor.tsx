@@ -0,0 +1,298 @@
+/**
+ * Feedback Form Editor Component
+ * Lets organizers customize the questions attendees are asked after an event.
+ * Questions are locked once the first response arrives.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import {
+  FeedbackForm,
+  FeedbackQuestionInput,
+  FeedbackQuestionType,
+  getFeedbackQuestionTypeText,
+} from '@/types/feedback.types';
+
+interface FeedbackFormEditorProps {
+  form: FeedbackForm;
+  isSaving: boolean;
+  onSave: (questions: FeedbackQuestionInput[]) => Promise<boolean>;
+}
+
+const MAX_QUESTIONS = 15;
+const MAX_OPTIONS = 10;
+const MAX_PROMPT_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-[#A20B23] focus:border-[#A20B23] disabled:bg-gray-50 disabled:text-gray-500';
+
+/**
+ * Convert saved questions into editable drafts
+ */
+function toDrafts(form: FeedbackForm): FeedbackQuestionInput[] {
+  return form.questions.map(question => ({
+    id: question.id,
+    type: question.type,
+    prompt: question.prompt,
+    options: question.options || undefined,
+    required: question.required,
+  }));
+}
+
+/**
+ * First problem with the drafts, if any
+ */
+function validateDrafts(questions: FeedbackQuestionInput[]): string | null {
+  for (const [index, question] of questions.entries()) {
+    if (!question.prompt.trim()) {
+      return `Question ${index + 1} needs a prompt`;
+    }
+    if (question.type === FeedbackQuestionType.MULTIPLE_CHOICE) {
+      const options = (question.options || []).filter(option => option.trim());
+      if (options.length < 2) {
+        return `Question ${index + 1} needs at least two options`;
+      }
+    }
+  }
+  return null;
+}
+
+export function FeedbackFormEditor({ form, isSaving, onSave }: FeedbackFormEditorProps) {
+  const [questions, setQuestions] = useState<FeedbackQuestionInput[]>(() => toDrafts(form));
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const isLocked = form.responseCount > 0;
+
+  const updateQuestion = (index: number, changes: Partial<FeedbackQuestionInput>) => {
+    setSaved(false);
+    setQuestions(prev => prev.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const changeType = (index: number, type: FeedbackQuestionType) => {
+    updateQuestion(index, {
+      type,
+      options: type === FeedbackQuestionType.MULTIPLE_CHOICE ? questions[index].options || ['', ''] : undefined,
+    });
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    setSaved(false);
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    setSaved(false);
+    setQuestions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addQuestion = () => {
+    setSaved(false);
+    setQuestions(prev => [...prev, { type: FeedbackQuestionType.RATING, prompt: '', required: false }]);
+  };
+
+  const handleSave = async () => {
+    const problem = validateDrafts(questions);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+
+    setValidationError(null);
+    const success = await onSave(
+      questions.map(question => ({
+        ...question,
+        prompt: question.prompt.trim(),
+        options: question.type === FeedbackQuestionType.MULTIPLE_CHOICE
+          ? (question.options || []).map(option => option.trim()).filter(Boolean)
+          : undefined,
+      }))
+    );
+    setSaved(success);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Feedback Questions</h2>
+        <p className="text-sm text-gray-600">
+          Attendees always give an overall 1-5 rating. Add up to {MAX_QUESTIONS} questions of your own.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {isLocked && (
+          <Alert variant="info">
+            Questions can no longer be changed because attendees have started responding.
+          </Alert>
+        )}
+        {form.isDefault && !isLocked && (
+          <Alert variant="info">
+            Attendees will see these default questions unless you save your own.
+          </Alert>
+        )}
+        {saved && <Alert variant="success" onClose={() => setSaved(false)}>Feedback questions saved.</Alert>}
+
+        {questions.map((question, index) => (
+          <div key={question.id || `new-${index}`} className="rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+              <div className="flex-1">
+                <label htmlFor={`prompt-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  Question {index + 1}
+                </label>
+                <input
+                  id={`prompt-${index}`}
+                  type="text"
+                  value={question.prompt}
+                  onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                  maxLength={MAX_PROMPT_LENGTH}
+                  disabled={isLocked}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="sm:w-48">
+                <label htmlFor={`type-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  id={`type-${index}`}
+                  value={question.type}
+                  onChange={(e) => changeType(index, e.target.value as FeedbackQuestionType)}
+                  disabled={isLocked}
+                  className={inputClassName}
+                >
+                  {Object.values(FeedbackQuestionType).map(type => (
+                    <option key={type} value={type}>
+                      {getFeedbackQuestionTypeText(type)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {question.type === FeedbackQuestionType.MULTIPLE_CHOICE && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Options</p>
+                {(question.options || []).map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      aria-label={`Option ${optionIndex + 1}`}
+                      value={option}
+                      onChange={(e) => updateQuestion(index, {
+                        options: (question.options || []).map((o, i) => (i === optionIndex ? e.target.value : o)),
+                      })}
+                      maxLength={MAX_OPTION_LENGTH}
+                      disabled={isLocked}
+                      className={inputClassName}
+                    />
+                    {!isLocked && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Remove option ${optionIndex + 1}`}
+                        onClick={() => updateQuestion(index, {
+                          options: (question.options || []).filter((_, i) => i !== optionIndex),
+                        })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {!isLocked && (question.options || []).length < MAX_OPTIONS && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateQuestion(index, { options: [...(question.options || []), ''] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Option
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={question.required}
+                  onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                  disabled={isLocked}
+                  className="h-4 w-4 rounded text-[#A20B23] focus:ring-[#A20B23]"
+                />
+                Required
+              </label>
+
+              {!isLocked && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Move question up"
+                    disabled={index === 0}
+                    onClick={() => moveQuestion(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Move question down"
+                    disabled={index === questions.length - 1}
+                    onClick={() => moveQuestion(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Remove question"
+                    onClick={() => removeQuestion(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        {!isLocked && (
+          <div className="flex flex-wrap gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={addQuestion}
+              disabled={questions.length >= MAX_QUESTIONS}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Question
+            </Button>
+            <Button type="button" onClick={handleSave} isLoading={isSaving} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Questions
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
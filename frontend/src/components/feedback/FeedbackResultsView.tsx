@@ -0,0 +1,189 @@
+/**
+ * Feedback Results Component
+ * Aggregated, anonymous attendee feedback for an event, with CSV export
+ */
+
+'use client';
+
+import { Download, MessageSquare, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { StarRating } from './StarRating';
+import { useFeedbackResults } from '@/hooks/registrations/useFeedback';
+import {
+  FeedbackDistributionEntry,
+  FeedbackQuestionType,
+} from '@/types/feedback.types';
+
+interface FeedbackResultsViewProps {
+  eventId: string;
+  eventTitle: string;
+  className?: string;
+}
+
+/**
+ * Download file name derived from the event title
+ */
+function toFileName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'event'}-feedback.csv`;
+}
+
+/**
+ * Horizontal bar per rating value or choice
+ */
+function DistributionBars({ distribution, labelSuffix = '' }: { distribution: FeedbackDistributionEntry[]; labelSuffix?: string }) {
+  const total = distribution.reduce((sum, entry) => sum + entry.count, 0);
+
+  return (
+    <div className="space-y-2">
+      {distribution.map(entry => {
+        const percent = total > 0 ? Math.round((entry.count / total) * 100) : 0;
+        return (
+          <div key={entry.value} className="flex items-center gap-3 text-sm">
+            <span className="w-32 shrink-0 truncate text-gray-700" title={entry.value}>
+              {entry.value}{labelSuffix}
+            </span>
+            <div className="flex-1 h-3 rounded-full bg-gray-100 overflow-hidden">
+              <div className="h-full rounded-full bg-[#A20B23]" style={{ width: `${percent}%` }} />
+            </div>
+            <span className="w-16 shrink-0 text-right text-gray-600">
+              {entry.count} ({percent}%)
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function FeedbackResultsView({ eventId, eventTitle, className = '' }: FeedbackResultsViewProps) {
+  const { results, isLoading, isExporting, error, exportCsv, refresh } = useFeedbackResults(eventId);
+
+  const handleExport = async () => {
+    const csv = await exportCsv();
+    if (!csv) return;
+
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(eventTitle);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const responseRate = results && results.attendedCount > 0
+    ? Math.round((results.responseCount / results.attendedCount) * 100)
+    : 0;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between p-6 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Feedback Results</h2>
+          <p className="text-sm text-gray-600">{eventTitle}</p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleExport}
+            isLoading={isExporting}
+            disabled={isExporting || !results || results.responseCount === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-6 pb-0">
+          <Alert variant="error">{error}</Alert>
+        </div>
+      )}
+
+      {isLoading && !results ? (
+        <div className="p-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A20B23] mx-auto"></div>
+        </div>
+      ) : !results || results.responseCount === 0 ? (
+        <div className="p-12 text-center">
+          <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">No feedback yet</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Attendees are invited to respond once the event is completed.
+          </p>
+        </div>
+      ) : (
+        <div className="p-6 space-y-8">
+          {/* Summary */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-600">Average rating</p>
+              <div className="mt-1 flex items-center gap-2">
+                <span className="text-2xl font-semibold text-gray-900">
+                  {results.averageRating != null ? results.averageRating.toFixed(1) : '-'}
+                </span>
+                <StarRating value={results.averageRating ?? null} label="Average rating" size="sm" />
+              </div>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-600">Responses</p>
+              <p className="mt-1 text-2xl font-semibold text-gray-900">{results.responseCount}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-600">Response rate</p>
+              <p className="mt-1 text-2xl font-semibold text-gray-900">{responseRate}%</p>
+              <p className="text-xs text-gray-500">of {results.attendedCount} attendees</p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-base font-medium text-gray-900 mb-3">Overall rating</h3>
+            <DistributionBars distribution={results.ratingDistribution} labelSuffix=" ★" />
+          </div>
+
+          {/* Per-question results */}
+          {results.questions.map(question => (
+            <div key={question.questionId}>
+              <h3 className="text-base font-medium text-gray-900">{question.prompt}</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                {question.responseCount} {question.responseCount === 1 ? 'answer' : 'answers'}
+                {question.type === FeedbackQuestionType.RATING && question.average != null &&
+                  ` · average ${question.average.toFixed(1)}`}
+              </p>
+
+              {question.type === FeedbackQuestionType.TEXT ? (
+                question.textResponses.length > 0 ? (
+                  <ul className="space-y-2 max-h-96 overflow-y-auto">
+                    {question.textResponses.map((text, index) => (
+                      <li key={index} className="rounded-lg bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-line">
+                        {text}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No answers</p>
+                )
+              ) : (
+                <DistributionBars
+                  distribution={question.distribution}
+                  labelSuffix={question.type === FeedbackQuestionType.RATING ? ' ★' : ''}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Star Rating Component
+ * 1-5 star picker used by feedback forms; read-only when no onChange is given
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number | null;
+  onChange?: (value: number) => void;
+  label: string; // Accessible name of the rating group
+  size?: 'sm' | 'lg';
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export function StarRating({ value, onChange, label, size = 'lg' }: StarRatingProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? value ?? 0;
+  const iconSize = size === 'lg' ? 'h-8 w-8' : 'h-4 w-4';
+
+  if (!onChange) {
+    return (
+      <span className="inline-flex" role="img" aria-label={`${label}: ${value ?? 0} out of 5`}>
+        {RATINGS.map(rating => (
+          <Star
+            key={rating}
+            className={`${iconSize} ${rating <= Math.round(shown) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+          />
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <div role="radiogroup" aria-label={label} className="inline-flex" onMouseLeave={() => setHovered(null)}>
+      {RATINGS.map(rating => (
+        <button
+          key={rating}
+          type="button"
+          role="radio"
+          aria-checked={value === rating}
+          aria-label={`${rating} star${rating === 1 ? '' : 's'}`}
+          onClick={() => onChange(rating)}
+          onMouseEnter={() => setHovered(rating)}
+          className="p-1 rounded focus:outline-none focus:ring-2 focus:ring-[#A20B23]"
+        >
+          <Star
+            className={`${iconSize} transition-colors ${
+              rating <= shown ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
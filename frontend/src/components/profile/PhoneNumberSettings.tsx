@@ -0,0 +1,183 @@
+/**
+ * Phone Number Settings Component
+ * Verify a phone number to receive event notifications by text message
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Alert } from '@/components/ui/Alert';
+import {
+  getPhoneSettings,
+  startPhoneVerification,
+  confirmPhoneVerification,
+  removePhoneNumber,
+  type PhoneSettings,
+} from '@/lib/api/users.api';
+
+export function PhoneNumberSettings() {
+  const [settings, setSettings] = useState<PhoneSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPhoneSettings()
+      .then(setSettings)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load your phone number'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const resetForm = () => {
+    setEditing(false);
+    setCodeSent(false);
+    setPhoneNumber('');
+    setCode('');
+  };
+
+  const handleSendCode = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await startPhoneVerification(phoneNumber);
+      setCodeSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send a verification code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      setSettings(await confirmPhoneVerification(code));
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify your phone number');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove your phone number? You will stop receiving text notifications.')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      setSettings(await removePhoneNumber());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove your phone number');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const verifiedNumber = settings?.phoneVerified ? settings.phoneNumber : undefined;
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">
+        Text Notifications
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Get reminders and event changes by SMS, up to 5 texts a day. Message and data rates may apply.
+      </p>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)} className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="space-y-3">
+          {verifiedNumber && !editing && (
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <Smartphone className="h-5 w-5 text-green-600" />
+                <span className="text-sm font-medium text-gray-900">{verifiedNumber}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={saving}>
+                  Change
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleRemove} disabled={saving} className="text-red-600">
+                  Remove
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {verifiedNumber && settings?.smsOptedOutAt && !editing && (
+            <Alert variant="warning">
+              You replied STOP, so we are not texting this number. Text START to resume.
+            </Alert>
+          )}
+
+          {(!verifiedNumber || editing) && (
+            codeSent ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Enter the 6-digit code we texted to {phoneNumber}.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    aria-label="Verification code"
+                  />
+                  <Button onClick={handleConfirm} isLoading={saving} disabled={code.length !== 6}>
+                    Verify
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={handleSendCode} disabled={saving}>
+                    Resend Code
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={resetForm} disabled={saving}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  type="tel"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  placeholder="(301) 555-0100"
+                  autoComplete="tel"
+                  aria-label="Phone number"
+                />
+                <Button onClick={handleSendCode} isLoading={saving} disabled={!phoneNumber.trim()}>
+                  Send Code
+                </Button>
+                {editing && (
+                  <Button variant="ghost" onClick={resetForm} disabled={saving}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
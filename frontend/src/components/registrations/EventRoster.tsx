@@ -0,0 +1,194 @@
+/**
+ * Event Roster Component
+ * TEMS - Terrapin Events Management System
+ *
+ * Lists the registrations for an event with status filtering,
+ * pagination, and CSV export. Organizer/Admin only.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Download, Users } from 'lucide-react';
+import {
+  RegistrationStatus,
+  getRegistrationStatusColor,
+  getRegistrationStatusText,
+} from '@/types/registration.types';
+import { useEventRoster } from '@/hooks/registrations/useRegistrations';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+
+interface EventRosterProps {
+  eventId: string;
+  eventTitle: string;
+  className?: string;
+}
+
+const STATUS_FILTERS: { value: RegistrationStatus | ''; label: string }[] = [
+  { value: '', label: 'All statuses' },
+  { value: RegistrationStatus.REGISTERED, label: 'Registered' },
+  { value: RegistrationStatus.WAITLISTED, label: 'Waitlisted' },
+  { value: RegistrationStatus.PROMOTION_PENDING, label: 'Promotion Pending' },
+  { value: RegistrationStatus.ATTENDED, label: 'Attended' },
+  { value: RegistrationStatus.NO_SHOW, label: 'No Show' },
+  { value: RegistrationStatus.CANCELLED, label: 'Cancelled' },
+];
+
+/**
+ * Format an ISO timestamp for the roster table
+ */
+function formatTimestamp(value?: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Turn an event title into a safe file name
+ */
+function toFileName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'event'}-roster.csv`;
+}
+
+export function EventRoster({ eventId, eventTitle, className = '' }: EventRosterProps) {
+  const [statusFilter, setStatusFilter] = useState<RegistrationStatus | ''>('');
+  const {
+    entries,
+    isLoading,
+    isExporting,
+    error,
+    hasMore,
+    loadMore,
+    exportCsv,
+  } = useEventRoster(eventId, statusFilter || undefined);
+
+  /**
+   * Download the full roster as a CSV file
+   */
+  const handleExport = async () => {
+    const csv = await exportCsv();
+    if (!csv) return;
+
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(eventTitle);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between p-6 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Attendee Roster</h2>
+          <p className="text-sm text-gray-600">{eventTitle}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label htmlFor="roster-status" className="sr-only">
+            Filter by status
+          </label>
+          <select
+            id="roster-status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as RegistrationStatus | '')}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            {STATUS_FILTERS.map(option => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            isLoading={isExporting}
+            disabled={isExporting || entries.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-6 pb-0">
+          <Alert variant="error">{error}</Alert>
+        </div>
+      )}
+
+      {/* Roster Table */}
+      {!isLoading && entries.length === 0 ? (
+        <div className="p-12 text-center">
+          <div className="mx-auto w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mb-3">
+            <Users className="h-6 w-6 text-gray-500" />
+          </div>
+          <p className="text-gray-600">No registrations found</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waitlist</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Registered</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attended</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.registrationId}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {entry.userName || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {entry.userEmail}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${getRegistrationStatusColor(entry.status)}`}>
+                      {getRegistrationStatusText(entry.status)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {entry.waitlistPosition ? `#${entry.waitlistPosition}` : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {formatTimestamp(entry.registeredAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {formatTimestamp(entry.attendedAt)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {(isLoading || hasMore) && (
+        <div className="p-4 border-t border-gray-200 text-center">
+          <Button variant="ghost" size="sm" onClick={loadMore} isLoading={isLoading} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * QR Scanner Component
+ * TEMS - Terrapin Events Management System
+ *
+ * Reads QR codes from the device camera using the browser's
+ * BarcodeDetector API. Falls back to a text field that also works
+ * with handheld scanners, which type the code followed by Enter.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+interface QRScannerProps {
+  onScan: (text: string) => void;
+  className?: string;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+/**
+ * Get the BarcodeDetector constructor if the browser supports it
+ */
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector || null;
+}
+
+export function QRScanner({ onScan, className = '' }: QRScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [isActive, setIsActive] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualValue, setManualValue] = useState('');
+
+  // Keep the latest callback without restarting the camera
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) {
+      setCameraError('Camera scanning is not supported in this browser. Use the field below instead.');
+      setIsActive(false);
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setCameraError(null);
+
+        let detecting = false;
+        interval = setInterval(async () => {
+          const video = videoRef.current;
+          if (detecting || !video || video.readyState < 2) return;
+
+          detecting = true;
+          try {
+            const codes = await detector.detect(video);
+            if (codes.length > 0 && codes[0].rawValue) {
+              onScanRef.current(codes[0].rawValue);
+            }
+          } catch (err) {
+            console.error('QR detection error:', err);
+          } finally {
+            detecting = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err) {
+        console.error('Camera error:', err);
+        setCameraError('Could not access the camera. Check permissions or use the field below.');
+        setIsActive(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isActive]);
+
+  /**
+   * Submit manual / handheld scanner input
+   */
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = manualValue.trim();
+    if (!value) return;
+
+    onScanRef.current(value);
+    setManualValue('');
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-4 space-y-4 ${className}`}>
+      {/* Camera View */}
+      <div className="relative aspect-square w-full max-w-md mx-auto bg-gray-900 rounded-lg overflow-hidden">
+        <video
+          ref={videoRef}
+          className={`w-full h-full object-cover ${isActive ? '' : 'hidden'}`}
+          muted
+          playsInline
+        />
+        {isActive ? (
+          <div className="absolute inset-8 border-4 border-white/70 rounded-lg pointer-events-none" />
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-300 p-6 text-center">
+            <CameraOff className="h-10 w-10 mb-3" />
+            <p className="text-sm">Camera is off</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center">
+        <Button
+          variant={isActive ? 'outline' : 'primary'}
+          onClick={() => setIsActive(active => !active)}
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          {isActive ? 'Stop Camera' : 'Start Camera'}
+        </Button>
+      </div>
+
+      {cameraError && (
+        <p className="text-sm text-yellow-700 text-center">{cameraError}</p>
+      )}
+
+      {/* Manual / Handheld Scanner Entry */}
+      <form onSubmit={handleManualSubmit} className="flex gap-2">
+        <label htmlFor="manual-scan" className="sr-only">
+          Ticket code
+        </label>
+        <input
+          id="manual-scan"
+          type="text"
+          value={manualValue}
+          onChange={(e) => setManualValue(e.target.value)}
+          placeholder="Scan with a handheld reader or paste ticket code"
+          autoComplete="off"
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+        <Button type="submit" variant="secondary" disabled={!manualValue.trim()}>
+          Check In
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Push Notification Settings Component
+ * Turn on browser push for this device and choose which notifications are pushed
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BellRing, BellOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import {
+  PUSH_NOTIFICATION_TYPES,
+  getPushSettings,
+  registerPushSubscription,
+  unregisterPushSubscription,
+  updatePushTypes,
+  type PushSettings,
+} from '@/lib/api/notifications.api';
+import {
+  isPushSupported,
+  getCurrentSubscription,
+  subscribeToPush,
+  toSubscriptionInput,
+} from '@/lib/push/web-push';
+
+export function PushNotificationSettings() {
+  const [settings, setSettings] = useState<PushSettings | null>(null);
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null);
+  const [supported, setSupported] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSupported(isPushSupported());
+
+    Promise.all([getPushSettings(), getCurrentSubscription()])
+      .then(([pushSettings, currentSubscription]) => {
+        setSettings(pushSettings);
+        setSubscription(currentSubscription);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load your push settings'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleEnable = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const newSubscription = await subscribeToPush();
+      setSettings(await registerPushSubscription(toSubscriptionInput(newSubscription)));
+      setSubscription(newSubscription);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on push notifications');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!subscription) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      setSettings(await unregisterPushSubscription(subscription.endpoint));
+      await subscription.unsubscribe();
+      setSubscription(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off push notifications');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleType = async (type: string) => {
+    if (!settings) return;
+
+    const types = settings.types.includes(type)
+      ? settings.types.filter((t) => t !== type)
+      : [...settings.types, type];
+
+    setSaving(true);
+    setError(null);
+    try {
+      setSettings(await updatePushTypes(types));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your push notification types');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">
+        Push Notifications
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Get notified in your browser, even when Terrapin Events isn't open.
+      </p>
+
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)} className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="space-y-6">
+          {/* This browser */}
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <div className="flex items-center space-x-3">
+              {subscription ? (
+                <BellRing className="h-5 w-5 text-green-600" />
+              ) : (
+                <BellOff className="h-5 w-5 text-gray-400" />
+              )}
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {subscription ? 'On for this browser' : 'Off for this browser'}
+                </p>
+                {settings && settings.deviceCount > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {settings.deviceCount} {settings.deviceCount === 1 ? 'browser' : 'browsers'} subscribed
+                  </p>
+                )}
+              </div>
+            </div>
+            {subscription ? (
+              <Button variant="outline" size="sm" onClick={handleDisable} disabled={saving}>
+                Turn Off
+              </Button>
+            ) : (
+              <Button size="sm" onClick={handleEnable} isLoading={saving} disabled={!supported}>
+                Turn On
+              </Button>
+            )}
+          </div>
+
+          {!supported && (
+            <Alert variant="warning">
+              This browser does not support push notifications.
+            </Alert>
+          )}
+
+          {/* Per-type opt-in */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-1">Notify me about</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Applies to every browser you turned push on for.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {PUSH_NOTIFICATION_TYPES.map(({ value, label }) => (
+                <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                    checked={settings?.types.includes(value) ?? false}
+                    onChange={() => handleToggleType(value)}
+                    disabled={saving || !settings}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -43,6 +43,7 @@ export function useCalendarEvents(): UseCalendarEventsReturn {
           availableSeats: event.capacity - event.registeredCount,
           category: event.category,
           status: event.status,
+          seriesId: event.seriesId,
         },
       }));
 
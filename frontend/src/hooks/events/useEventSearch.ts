@@ -5,13 +5,14 @@
 
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useDebounce } from 'use-debounce';
 import type {
   SearchQuery,
   SearchResult,
   SearchFilters,
   DateRangeFilter,
+  SortInput,
 } from '@/types/search.types';
 import { searchEvents as searchEventsAPI } from '@/lib/api/search.api';
 
@@ -22,11 +23,17 @@ interface UseEventSearchReturn {
   setFilters: (filters: SearchFilters) => void;
   dateRange?: DateRangeFilter;
   setDateRange: (range?: DateRangeFilter) => void;
+  sort: SortInput;
+  setSort: (sort: SortInput) => void;
+  pageSize: number;
+  setPageSize: (pageSize: number) => void;
   results: SearchResult | null;
   loading: boolean;
   error: string | null;
+  currentSearch: SearchQuery;
   executeSearch: () => Promise<void>;
   clearFilters: () => void;
+  applySearch: (search: SearchQuery) => void;
 }
 
 const DEFAULT_FILTERS: SearchFilters = {
@@ -35,10 +42,17 @@ const DEFAULT_FILTERS: SearchFilters = {
   availability: 'ALL',
 };
 
+const DEFAULT_SORT: SortInput = {
+  field: 'startDateTime',
+  order: 'asc',
+};
+
 export function useEventSearch(): UseEventSearchReturn {
   const [query, setQuery] = useState('');
   const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
   const [dateRange, setDateRange] = useState<DateRangeFilter | undefined>();
+  const [sort, setSort] = useState<SortInput>(DEFAULT_SORT);
+  const [pageSize, setPageSize] = useState(20);
   const [results, setResults] = useState<SearchResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -46,25 +60,28 @@ export function useEventSearch(): UseEventSearchReturn {
   // Debounce query input (300ms delay)
   const [debouncedQuery] = useDebounce(query, 300);
 
+  // Criteria in effect, without pagination (also what "Save search" stores)
+  const currentSearch = useMemo<SearchQuery>(() => ({
+    query: debouncedQuery || undefined,
+    filters: {
+      ...filters,
+      categories: filters.categories?.length ? filters.categories : undefined,
+      locations: filters.locations?.length ? filters.locations : undefined,
+    },
+    dateRange,
+    // Distance needs a center point; fall back to date order without one
+    sort: sort.field === 'distance' && !filters.radius ? DEFAULT_SORT : sort,
+  }), [debouncedQuery, filters, dateRange, sort]);
+
   const executeSearch = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
       const searchQuery: SearchQuery = {
-        query: debouncedQuery || undefined,
-        filters: {
-          ...filters,
-          categories: filters.categories?.length ? filters.categories : undefined,
-          locations: filters.locations?.length ? filters.locations : undefined,
-        },
-        dateRange,
-        sort: {
-          field: 'startDateTime',
-          order: 'asc',
-        },
+        ...currentSearch,
         pagination: {
-          limit: 20,
+          limit: pageSize,
         },
       };
 
@@ -76,7 +93,7 @@ export function useEventSearch(): UseEventSearchReturn {
     } finally {
       setLoading(false);
     }
-  }, [debouncedQuery, filters, dateRange]);
+  }, [currentSearch, pageSize]);
 
   // Auto-execute search when debounced query or filters change
   useEffect(() => {
@@ -86,9 +103,18 @@ export function useEventSearch(): UseEventSearchReturn {
   const clearFilters = useCallback(() => {
     setFilters(DEFAULT_FILTERS);
     setDateRange(undefined);
+    setSort(DEFAULT_SORT);
     setQuery('');
   }, []);
 
+  // Replace all criteria at once, e.g. when running a saved search
+  const applySearch = useCallback((search: SearchQuery) => {
+    setQuery(search.query || '');
+    setFilters({ ...DEFAULT_FILTERS, ...search.filters });
+    setDateRange(search.dateRange);
+    setSort(search.sort || DEFAULT_SORT);
+  }, []);
+
   return {
     query,
     setQuery,
@@ -96,10 +122,16 @@ export function useEventSearch(): UseEventSearchReturn {
     setFilters,
     dateRange,
     setDateRange,
+    sort,
+    setSort,
+    pageSize,
+    setPageSize,
     results,
     loading,
     error,
+    currentSearch,
     executeSearch,
     clearFilters,
+    applySearch,
   };
 }
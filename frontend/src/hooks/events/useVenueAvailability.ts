@@ -0,0 +1,129 @@
+/**
+ * Venue Availability Hook
+ * Loads a room's bookings for one day and checks the requested time against them
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { addDays, startOfDay } from 'date-fns';
+import type { VenueAvailability, VenueBookingSlot } from '@/types/event.types';
+import { checkVenueAvailability, listVenueBookings } from '@/lib/api/events.api';
+
+// Wait for typing to settle before querying
+const DEBOUNCE_MS = 400;
+
+interface UseVenueAvailabilityOptions {
+  building?: string;
+  room?: string;
+  day: Date;
+  startDateTime?: Date;
+  endDateTime?: Date;
+  excludeEventId?: string;
+}
+
+interface UseVenueAvailabilityReturn {
+  bookings: VenueBookingSlot[];
+  availability: VenueAvailability | null;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useVenueAvailability({
+  building,
+  room,
+  day,
+  startDateTime,
+  endDateTime,
+  excludeEventId,
+}: UseVenueAvailabilityOptions): UseVenueAvailabilityReturn {
+  const [bookings, setBookings] = useState<VenueBookingSlot[]>([]);
+  const [availability, setAvailability] = useState<VenueAvailability | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dayKey = startOfDay(day).getTime();
+  const startKey = startDateTime?.getTime();
+  const endKey = endDateTime?.getTime();
+
+  // Bookings for the visible day
+  useEffect(() => {
+    if (!building?.trim() || !room?.trim()) {
+      setBookings([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const dayStart = new Date(dayKey);
+        const result = await listVenueBookings(
+          building.trim(),
+          dayStart.toISOString(),
+          addDays(dayStart, 1).toISOString(),
+          room.trim()
+        );
+        if (!cancelled) {
+          setBookings(result.filter((booking) => booking.eventId !== excludeEventId));
+        }
+      } catch (err) {
+        console.error('Venue bookings error:', err);
+        if (!cancelled) {
+          setError('Failed to load room availability');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [building, room, dayKey, excludeEventId]);
+
+  // Conflict check (with suggested slots) for the requested time
+  useEffect(() => {
+    if (!building?.trim() || !room?.trim() || startKey === undefined || endKey === undefined || endKey <= startKey) {
+      setAvailability(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await checkVenueAvailability(
+          building.trim(),
+          room.trim(),
+          new Date(startKey).toISOString(),
+          new Date(endKey).toISOString(),
+          excludeEventId
+        );
+        if (!cancelled) {
+          setAvailability(result);
+        }
+      } catch (err) {
+        console.error('Venue availability error:', err);
+        if (!cancelled) {
+          setAvailability(null);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [building, room, startKey, endKey, excludeEventId]);
+
+  return {
+    bookings,
+    availability,
+    loading,
+    error,
+  };
+}
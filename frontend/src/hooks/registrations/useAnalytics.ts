@@ -0,0 +1,152 @@
+/**
+ * Analytics Hooks
+ * TEMS - Terrapin Events Management System
+ *
+ * React hooks for the organizer analytics dashboard: per-event and
+ * per-period registration analytics, and notification delivery stats.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  AnalyticsRange,
+  EventAnalytics,
+  OrganizerAnalytics,
+} from '@/types/analytics.types';
+import {
+  registrationsAPI,
+  RegistrationError,
+} from '@/lib/api/registrations.api';
+import { getDeliveryStats, DeliveryStats } from '@/lib/api/notifications.api';
+
+/**
+ * Hook for a single event's analytics (organizer/admin)
+ */
+export function useEventAnalytics(eventId: string | null) {
+  const [analytics, setAnalytics] = useState<EventAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!eventId) {
+      setAnalytics(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await registrationsAPI.getEventAnalytics(eventId);
+      setAnalytics(data);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load event analytics';
+      setError(message);
+      console.error('Error fetching event analytics:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    refresh: fetchAnalytics,
+  };
+}
+
+/**
+ * Hook for the current user's analytics across all their events for a period
+ */
+export function useOrganizerAnalytics(range: AnalyticsRange | null) {
+  const [analytics, setAnalytics] = useState<OrganizerAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startDate = range?.startDate;
+  const endDate = range?.endDate;
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!startDate || !endDate) {
+      setAnalytics(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await registrationsAPI.getOrganizerAnalytics({ startDate, endDate });
+      setAnalytics(data);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load analytics';
+      setError(message);
+      console.error('Error fetching organizer analytics:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    refresh: fetchAnalytics,
+  };
+}
+
+/**
+ * Hook for notification delivery stats
+ * With an eventId the stats cover notifications about that event;
+ * without one they are platform-wide, which only administrators can read.
+ * Pass a null range to skip loading.
+ */
+export function useDeliveryStats(range: { startDate: string; endDate: string } | null, eventId?: string) {
+  const [stats, setStats] = useState<DeliveryStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startDate = range?.startDate;
+  const endDate = range?.endDate;
+
+  const fetchStats = useCallback(async () => {
+    if (!startDate || !endDate) {
+      setStats(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await getDeliveryStats(startDate, endDate, eventId);
+      setStats(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load delivery stats');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startDate, endDate, eventId]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  return {
+    stats,
+    isLoading,
+    error,
+    refresh: fetchStats,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Check-In Scanner Hook
+ * TEMS - Terrapin Events Management System
+ *
+ * Drives the organizer check-in page: validates scanned tickets,
+ * calls checkInAttendee, queues scans while offline and syncs them
+ * when connectivity returns, and keeps a live checked-in counter.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  CheckInStats,
+  parseQRCodePayload,
+} from '@/types/registration.types';
+import {
+  registrationsAPI,
+  RegistrationError,
+} from '@/lib/api/registrations.api';
+import {
+  QueuedCheckIn,
+  enqueueCheckIn,
+  getQueuedCheckIns,
+  removeQueuedCheckIn,
+} from '@/lib/checkin/offline-queue';
+
+export type ScanOutcome =
+  | 'CHECKED_IN'
+  | 'QUEUED'
+  | 'DUPLICATE'
+  | 'WRONG_EVENT'
+  | 'INVALID'
+  | 'ERROR';
+
+export interface ScanResult {
+  id: string;
+  outcome: ScanOutcome;
+  message: string;
+  registrationId?: string;
+  scannedAt: string;
+}
+
+// Cameras report the same code many times per second while it is in view
+const REPEAT_SCAN_WINDOW_MS = 3000;
+const STATS_POLL_INTERVAL_MS = 15000;
+const MAX_RESULTS = 20;
+
+/**
+ * Map a checkInAttendee error to a scan outcome
+ * Returns null for connectivity failures, which should be queued instead
+ */
+function outcomeForError(err: unknown): { outcome: ScanOutcome; message: string } | null {
+  if (!(err instanceof RegistrationError)) {
+    return { outcome: 'ERROR', message: 'Check-in failed' };
+  }
+
+  switch (err.code) {
+    case 'NETWORK_ERROR':
+      return null;
+    case 'ALREADY_CHECKED_IN':
+      return { outcome: 'DUPLICATE', message: 'Already checked in' };
+    case 'WRONG_EVENT':
+      return { outcome: 'WRONG_EVENT', message: 'Ticket is for a different event' };
+    case 'INVALID_QR_CODE':
+      return { outcome: 'INVALID', message: err.message || 'Invalid ticket' };
+    default:
+      return { outcome: 'ERROR', message: err.message || 'Check-in failed' };
+  }
+}
+
+export function useCheckInScanner(eventId: string) {
+  const [stats, setStats] = useState<CheckInStats | null>(null);
+  const [statsError, setStatsError] = useState<string | null>(null);
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const checkedInIds = useRef<Set<string>>(new Set());
+  const lastScan = useRef<{ text: string; at: number } | null>(null);
+  const isSyncingRef = useRef(false);
+
+  const addResult = useCallback((result: Omit<ScanResult, 'id'>) => {
+    setResults(prev => [
+      { ...result, id: `${result.scannedAt}-${Math.random().toString(36).slice(2, 8)}` },
+      ...prev,
+    ].slice(0, MAX_RESULTS));
+  }, []);
+
+  const refreshQueuedCount = useCallback(() => {
+    setQueuedCount(getQueuedCheckIns(eventId).length);
+  }, [eventId]);
+
+  /**
+   * Fetch checked-in / expected counts
+   */
+  const refreshStats = useCallback(async () => {
+    try {
+      const data = await registrationsAPI.getCheckInStats(eventId);
+      setStats(data);
+      setStatsError(null);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load check-in stats';
+      setStatsError(message);
+    }
+  }, [eventId]);
+
+  /**
+   * Send one scan to the backend
+   */
+  const submit = useCallback(async (
+    scan: QueuedCheckIn
+  ): Promise<{ outcome: ScanOutcome; message: string } | null> => {
+    try {
+      await registrationsAPI.checkInAttendee(scan);
+      checkedInIds.current.add(scan.registrationId);
+      setStats(prev => prev && { ...prev, checkedInCount: prev.checkedInCount + 1 });
+      return { outcome: 'CHECKED_IN', message: 'Checked in' };
+    } catch (err) {
+      const mapped = outcomeForError(err);
+      if (mapped?.outcome === 'DUPLICATE') {
+        checkedInIds.current.add(scan.registrationId);
+      }
+      return mapped;
+    }
+  }, []);
+
+  /**
+   * Sync scans queued while offline
+   * Stops at the first connectivity failure so the rest stay queued
+   */
+  const syncQueue = useCallback(async () => {
+    if (isSyncingRef.current) return;
+
+    const queue = getQueuedCheckIns(eventId);
+    if (queue.length === 0) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      for (const scan of queue) {
+        const result = await submit(scan);
+        if (!result) break;
+
+        removeQueuedCheckIn(eventId, scan.registrationId);
+        addResult({
+          outcome: result.outcome,
+          message: `Synced offline scan: ${result.message}`,
+          registrationId: scan.registrationId,
+          scannedAt: scan.scannedAt,
+        });
+      }
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      refreshQueuedCount();
+      refreshStats();
+    }
+  }, [eventId, submit, addResult, refreshQueuedCount, refreshStats]);
+
+  /**
+   * Handle a decoded QR code
+   */
+  const processScan = useCallback(async (text: string) => {
+    const now = Date.now();
+    if (lastScan.current?.text === text && now - lastScan.current.at < REPEAT_SCAN_WINDOW_MS) {
+      return;
+    }
+    lastScan.current = { text, at: now };
+
+    const scannedAt = new Date(now).toISOString();
+    const payload = parseQRCodePayload(text);
+
+    if (!payload) {
+      addResult({ outcome: 'INVALID', message: 'Not a TEMS ticket', scannedAt });
+      return;
+    }
+
+    const { registrationId } = payload;
+
+    // Checks that don't need the network
+    if (payload.eventId !== eventId) {
+      addResult({ outcome: 'WRONG_EVENT', message: 'Ticket is for a different event', registrationId, scannedAt });
+      return;
+    }
+
+    if (checkedInIds.current.has(registrationId)) {
+      addResult({ outcome: 'DUPLICATE', message: 'Already checked in', registrationId, scannedAt });
+      return;
+    }
+
+    if (getQueuedCheckIns(eventId).some(item => item.registrationId === registrationId)) {
+      addResult({ outcome: 'DUPLICATE', message: 'Already scanned, waiting to sync', registrationId, scannedAt });
+      return;
+    }
+
+    const scan: QueuedCheckIn = { registrationId, qrCodeData: text, eventId, scannedAt };
+
+    const result = navigator.onLine ? await submit(scan) : null;
+
+    if (result) {
+      addResult({ ...result, registrationId, scannedAt });
+      return;
+    }
+
+    // Offline (or the request never got through) - keep the scan for later
+    enqueueCheckIn(scan);
+    refreshQueuedCount();
+    addResult({ outcome: 'QUEUED', message: 'Saved offline, will sync when back online', registrationId, scannedAt });
+  }, [eventId, submit, addResult, refreshQueuedCount]);
+
+  // Track connectivity and sync when it returns
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    refreshQueuedCount();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    if (navigator.onLine) {
+      syncQueue();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueue, refreshQueuedCount]);
+
+  // Poll counts so several scanners at the same door stay in step
+  useEffect(() => {
+    if (!isOnline) return;
+
+    refreshStats();
+    const interval = setInterval(refreshStats, STATS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline, refreshStats]);
+
+  return {
+    stats,
+    statsError,
+    results,
+    lastResult: results[0] || null,
+    queuedCount,
+    isOnline,
+    isSyncing,
+    processScan,
+    syncQueue,
+  };
+}
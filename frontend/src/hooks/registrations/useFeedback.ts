@@ -0,0 +1,216 @@
+/**
+ * Feedback Hooks
+ * TEMS - Terrapin Events Management System
+ *
+ * React hooks for post-event feedback: the attendee form,
+ * the organizer's form editor and results, and organizer ratings.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  FeedbackForm,
+  FeedbackQuestionInput,
+  FeedbackResults,
+  OrganizerRating,
+  SubmitEventFeedbackInput,
+} from '@/types/feedback.types';
+import {
+  registrationsAPI,
+  RegistrationError,
+} from '@/lib/api/registrations.api';
+
+/**
+ * Hook for an event's feedback form
+ * Used by attendees to respond and by organizers to edit the questions
+ */
+export function useFeedbackForm(eventId: string | null) {
+  const [form, setForm] = useState<FeedbackForm | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchForm = useCallback(async () => {
+    if (!eventId) {
+      setForm(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await registrationsAPI.getEventFeedbackForm(eventId);
+      setForm(data);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load feedback form';
+      setError(message);
+      console.error('Error fetching feedback form:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchForm();
+  }, [fetchForm]);
+
+  /**
+   * Save the organizer's questions
+   * Returns false if saving failed
+   */
+  const saveQuestions = useCallback(async (questions: FeedbackQuestionInput[]): Promise<boolean> => {
+    if (!eventId) return false;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const data = await registrationsAPI.saveEventFeedbackForm(eventId, questions);
+      setForm(data);
+      return true;
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to save feedback form';
+      setError(message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [eventId]);
+
+  /**
+   * Submit the current user's feedback
+   * Returns false if the submission failed
+   */
+  const submit = useCallback(async (input: Omit<SubmitEventFeedbackInput, 'eventId'>): Promise<boolean> => {
+    if (!eventId) return false;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await registrationsAPI.submitEventFeedback({ ...input, eventId });
+      setForm(prev => prev ? { ...prev, hasSubmitted: true, responseCount: prev.responseCount + 1 } : prev);
+      return true;
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to submit feedback';
+      setError(message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [eventId]);
+
+  return {
+    form,
+    isLoading,
+    isSaving,
+    error,
+    saveQuestions,
+    submit,
+    refresh: fetchForm,
+  };
+}
+
+/**
+ * Hook for an event's aggregated feedback (organizer/admin)
+ * Also exports the anonymous responses as CSV
+ */
+export function useFeedbackResults(eventId: string | null) {
+  const [results, setResults] = useState<FeedbackResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchResults = useCallback(async () => {
+    if (!eventId) {
+      setResults(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await registrationsAPI.getEventFeedbackResults(eventId);
+      setResults(data);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load feedback results';
+      setError(message);
+      console.error('Error fetching feedback results:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  /**
+   * Export every response as CSV
+   * Returns null if the export failed
+   */
+  const exportCsv = useCallback(async (): Promise<string | null> => {
+    if (!eventId) return null;
+
+    try {
+      setIsExporting(true);
+      setError(null);
+      return await registrationsAPI.exportEventFeedbackCsv(eventId);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to export feedback';
+      setError(message);
+      return null;
+    } finally {
+      setIsExporting(false);
+    }
+  }, [eventId]);
+
+  return {
+    results,
+    isLoading,
+    isExporting,
+    error,
+    exportCsv,
+    refresh: fetchResults,
+  };
+}
+
+/**
+ * Hook for an organizer's average attendee rating
+ * Failures are logged and leave the rating empty; it is supplementary information
+ */
+export function useOrganizerRating(organizerId: string | null) {
+  const [rating, setRating] = useState<OrganizerRating | null>(null);
+
+  useEffect(() => {
+    if (!organizerId) {
+      setRating(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    registrationsAPI.getOrganizerRating(organizerId)
+      .then(data => {
+        if (!cancelled) setRating(data);
+      })
+      .catch(err => {
+        console.error('Error fetching organizer rating:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organizerId]);
+
+  return rating;
+}
@@ -15,6 +15,7 @@ import {
   RegistrationStatus,
   RegistrationStats,
   EventCapacityInfo,
+  RosterEntry,
   RegisterForEventInput,
   CancelRegistrationInput,
 } from '@/types/registration.types';
@@ -390,6 +391,106 @@ export function useEventCapacity(eventId: string | null) {
   };
 }
 
+/**
+ * Hook for an event's attendee roster (organizer/admin)
+ * Paginates through registrations and exports the roster as CSV
+ */
+export function useEventRoster(eventId: string | null, status?: RegistrationStatus) {
+  const [entries, setEntries] = useState<RosterEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+
+  const fetchRoster = useCallback(async () => {
+    if (!eventId) {
+      setEntries([]);
+      setNextToken(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await registrationsAPI.listEventRegistrations({ eventId, status });
+      setEntries(result.items);
+      setNextToken(result.nextToken);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load registrations';
+      setError(message);
+      console.error('Error fetching roster:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, status]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  /**
+   * Load more roster entries (pagination)
+   */
+  const loadMore = useCallback(async () => {
+    if (!eventId || !nextToken || isLoading) return;
+
+    try {
+      setIsLoading(true);
+      const result = await registrationsAPI.listEventRegistrations({
+        eventId,
+        status,
+        nextToken,
+      });
+
+      setEntries(prev => [...prev, ...result.items]);
+      setNextToken(result.nextToken);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to load more registrations';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, nextToken, isLoading, status]);
+
+  /**
+   * Export the full roster (all pages) as CSV
+   * Returns null if the export failed
+   */
+  const exportCsv = useCallback(async (): Promise<string | null> => {
+    if (!eventId) return null;
+
+    try {
+      setIsExporting(true);
+      setError(null);
+      return await registrationsAPI.exportEventRosterCsv(eventId, status);
+    } catch (err) {
+      const message = err instanceof RegistrationError
+        ? err.message
+        : 'Failed to export registrations';
+      setError(message);
+      return null;
+    } finally {
+      setIsExporting(false);
+    }
+  }, [eventId, status]);
+
+  return {
+    entries,
+    isLoading,
+    isExporting,
+    error,
+    hasMore: !!nextToken,
+    loadMore,
+    exportCsv,
+    refresh: fetchRoster,
+  };
+}
+
 /**
  * Hook for registration statistics (dashboard)
  * Fetches summary stats about user's registrations
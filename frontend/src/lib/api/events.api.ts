@@ -13,6 +13,15 @@ import {
   UPDATE_EVENT,
   DELETE_EVENT,
   PUBLISH_EVENT,
+  SUBMIT_EVENT_FOR_APPROVAL,
+  APPROVE_EVENT,
+  REJECT_EVENT,
+  REQUEST_EVENT_IMAGE_UPLOAD,
+  LIST_PENDING_APPROVALS,
+  GET_EVENT_REVIEW_HISTORY,
+  GET_EVENT_SERIES,
+  CHECK_VENUE_AVAILABILITY,
+  LIST_VENUE_BOOKINGS,
 } from '../graphql/events.graphql';
 import type {
   Event,
@@ -20,6 +29,13 @@ import type {
   CreateEventInput,
   UpdateEventInput,
   EventFilter,
+  EventReview,
+  ApprovalQueueConnection,
+  EventSeries,
+  SeriesEditScope,
+  VenueAvailability,
+  VenueBookingSlot,
+  ImageUploadTarget,
 } from '@/types/event.types';
 
 const client = generateClient();
@@ -107,15 +123,17 @@ export async function createEvent(input: CreateEventInput): Promise<Event> {
 
 /**
  * Update Event
+ * For occurrences of a recurring series, scope selects which occurrences change
  */
 export async function updateEvent(
   id: string,
-  input: UpdateEventInput
+  input: UpdateEventInput,
+  scope?: SeriesEditScope
 ): Promise<Event> {
   try {
     const result = (await client.graphql({
       query: UPDATE_EVENT,
-      variables: { id, input },
+      variables: { id, input, scope },
     })) as GraphQLResult<{ updateEvent: Event }>;
 
     if (!result.data?.updateEvent) {
@@ -129,14 +147,60 @@ export async function updateEvent(
   }
 }
 
+/**
+ * Upload an event image
+ * The file goes straight to S3 through a presigned POST; the resized variants
+ * replace imageUrl once the image processor has run (usually a few seconds)
+ * For occurrences of a recurring series, scope selects which occurrences get the image
+ */
+export async function uploadEventImage(
+  eventId: string,
+  image: Blob,
+  scope?: SeriesEditScope
+): Promise<void> {
+  try {
+    const result = (await client.graphql({
+      query: REQUEST_EVENT_IMAGE_UPLOAD,
+      variables: { eventId, contentType: image.type, scope },
+    })) as GraphQLResult<{
+      requestEventImageUpload: Omit<ImageUploadTarget, 'fields'> & { fields: string | Record<string, string> };
+    }>;
+
+    const target = result.data?.requestEventImageUpload;
+    if (!target) {
+      throw new Error('Failed to start image upload');
+    }
+
+    if (image.size > target.maxBytes) {
+      throw new Error(`Image must be smaller than ${Math.floor(target.maxBytes / (1024 * 1024))} MB`);
+    }
+
+    // AWSJSON arrives as a string
+    const fields = typeof target.fields === 'string' ? JSON.parse(target.fields) : target.fields;
+
+    // S3 requires the policy fields before the file
+    const form = new FormData();
+    Object.entries(fields as Record<string, string>).forEach(([name, value]) => form.append(name, value));
+    form.append('file', image);
+
+    const response = await fetch(target.url, { method: 'POST', body: form });
+    if (!response.ok) {
+      throw new Error('Image upload was rejected');
+    }
+  } catch (error) {
+    console.error('Upload event image error:', error);
+    throw error;
+  }
+}
+
 /**
  * Delete Event (soft delete)
  */
-export async function deleteEvent(id: string): Promise<Event> {
+export async function deleteEvent(id: string, scope?: SeriesEditScope): Promise<Event> {
   try {
     const result = (await client.graphql({
       query: DELETE_EVENT,
-      variables: { id },
+      variables: { id, scope },
     })) as GraphQLResult<{ deleteEvent: Event }>;
 
     if (!result.data?.deleteEvent) {
@@ -153,11 +217,11 @@ export async function deleteEvent(id: string): Promise<Event> {
 /**
  * Publish Event (move from DRAFT to PUBLISHED)
  */
-export async function publishEvent(id: string): Promise<Event> {
+export async function publishEvent(id: string, scope?: SeriesEditScope): Promise<Event> {
   try {
     const result = (await client.graphql({
       query: PUBLISH_EVENT,
-      variables: { id },
+      variables: { id, scope },
     })) as GraphQLResult<{ publishEvent: Event }>;
 
     if (!result.data?.publishEvent) {
@@ -171,6 +235,151 @@ export async function publishEvent(id: string): Promise<Event> {
   }
 }
 
+/**
+ * Submit Event for Approval (move from DRAFT to PENDING_APPROVAL)
+ */
+export async function submitEventForApproval(id: string, scope?: SeriesEditScope): Promise<Event> {
+  try {
+    const result = (await client.graphql({
+      query: SUBMIT_EVENT_FOR_APPROVAL,
+      variables: { id, scope },
+    })) as GraphQLResult<{ submitEventForApproval: Event }>;
+
+    if (!result.data?.submitEventForApproval) {
+      throw new Error('Failed to submit event for approval');
+    }
+
+    return result.data.submitEventForApproval;
+  } catch (error) {
+    console.error('Submit event for approval error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Approve Event (admin only, PENDING_APPROVAL to PUBLISHED)
+ */
+export async function approveEvent(
+  id: string,
+  comment?: string,
+  scope?: SeriesEditScope
+): Promise<Event> {
+  try {
+    const result = (await client.graphql({
+      query: APPROVE_EVENT,
+      variables: { id, comment, scope },
+    })) as GraphQLResult<{ approveEvent: Event }>;
+
+    if (!result.data?.approveEvent) {
+      throw new Error('Failed to approve event');
+    }
+
+    return result.data.approveEvent;
+  } catch (error) {
+    console.error('Approve event error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reject Event (admin only, PENDING_APPROVAL back to DRAFT)
+ */
+export async function rejectEvent(
+  id: string,
+  reason: string,
+  scope?: SeriesEditScope
+): Promise<Event> {
+  try {
+    const result = (await client.graphql({
+      query: REJECT_EVENT,
+      variables: { id, reason, scope },
+    })) as GraphQLResult<{ rejectEvent: Event }>;
+
+    if (!result.data?.rejectEvent) {
+      throw new Error('Failed to reject event');
+    }
+
+    return result.data.rejectEvent;
+  } catch (error) {
+    console.error('Reject event error:', error);
+    throw error;
+  }
+}
+
+/**
+ * List events awaiting review (admin only)
+ */
+export async function listPendingApprovals(
+  limit = 20,
+  nextToken?: string
+): Promise<ApprovalQueueConnection> {
+  try {
+    const result = (await client.graphql({
+      query: LIST_PENDING_APPROVALS,
+      variables: { limit, nextToken },
+    })) as GraphQLResult<{ listPendingApprovals: ApprovalQueueConnection }>;
+
+    return (
+      result.data?.listPendingApprovals || {
+        items: [],
+        nextToken: null,
+      }
+    );
+  } catch (error) {
+    console.error('List pending approvals error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the approval audit trail for an event
+ */
+export async function getEventReviewHistory(eventId: string): Promise<EventReview[]> {
+  try {
+    const result = (await client.graphql({
+      query: GET_EVENT_REVIEW_HISTORY,
+      variables: { eventId },
+    })) as GraphQLResult<{ getEventReviewHistory: EventReview[] }>;
+
+    return result.data?.getEventReviewHistory || [];
+  } catch (error) {
+    console.error('Get event review history error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Helper: Publish an event, or send it for review when approval rules apply
+ * Administrators can always publish directly
+ */
+export async function publishOrSubmitEvent(
+  event: Event,
+  canPublishDirectly = false,
+  scope?: SeriesEditScope
+): Promise<Event> {
+  if (event.requiresApproval && !canPublishDirectly) {
+    return submitEventForApproval(event.id, scope);
+  }
+  return publishEvent(event.id, scope);
+}
+
+/**
+ * Get a recurring series with its occurrences
+ */
+export async function getEventSeries(id: string): Promise<EventSeries | null> {
+  try {
+    const result = (await client.graphql({
+      query: GET_EVENT_SERIES,
+      variables: { id },
+    })) as GraphQLResult<{ getEventSeries: EventSeries | null }>;
+
+    return result.data?.getEventSeries || null;
+  } catch (error) {
+    console.error('Get event series error:', error);
+    throw error;
+  }
+}
+
 /**
  * Helper: Get upcoming events
  */
@@ -185,6 +394,56 @@ export async function getUpcomingEvents(limit = 10): Promise<Event[]> {
   return result.items;
 }
 
+/**
+ * Check whether a room is free, with the nearest free slots when it is not
+ * Pass excludeEventId when editing so the event's own booking is ignored
+ */
+export async function checkVenueAvailability(
+  building: string,
+  room: string,
+  startDateTime: string,
+  endDateTime: string,
+  excludeEventId?: string
+): Promise<VenueAvailability> {
+  try {
+    const result = (await client.graphql({
+      query: CHECK_VENUE_AVAILABILITY,
+      variables: { building, room, startDateTime, endDateTime, excludeEventId },
+    })) as GraphQLResult<{ checkVenueAvailability: VenueAvailability }>;
+
+    if (!result.data?.checkVenueAvailability) {
+      throw new Error('Failed to check venue availability');
+    }
+
+    return result.data.checkVenueAvailability;
+  } catch (error) {
+    console.error('Check venue availability error:', error);
+    throw error;
+  }
+}
+
+/**
+ * List booked time in a building, or one of its rooms, over a date range
+ */
+export async function listVenueBookings(
+  building: string,
+  startDate: string,
+  endDate: string,
+  room?: string
+): Promise<VenueBookingSlot[]> {
+  try {
+    const result = (await client.graphql({
+      query: LIST_VENUE_BOOKINGS,
+      variables: { building, room, startDate, endDate },
+    })) as GraphQLResult<{ listVenueBookings: VenueBookingSlot[] }>;
+
+    return result.data?.listVenueBookings || [];
+  } catch (error) {
+    console.error('List venue bookings error:', error);
+    throw error;
+  }
+}
+
 /**
  * Helper: Get events by category
  */
@@ -0,0 +1,200 @@
+/**
+ * Notifications API Client
+ * TEMS - Terrapin Events Management System
+ *
+ * Browser push subscriptions and per-type opt-in, and notification
+ * delivery stats, via AppSync GraphQL
+ */
+
+import { generateClient, GraphQLResult } from 'aws-amplify/api';
+import {
+  GET_PUSH_SETTINGS,
+  GET_DELIVERY_STATS,
+  REGISTER_PUSH_SUBSCRIPTION,
+  UNREGISTER_PUSH_SUBSCRIPTION,
+  UPDATE_PUSH_TYPES,
+  type PushSettingsData,
+  type DeliveryStatsData,
+  type PushSubscriptionInput,
+  type GetPushSettingsResult,
+  type GetDeliveryStatsResult,
+  type RegisterPushSubscriptionResult,
+  type UnregisterPushSubscriptionResult,
+  type UpdatePushTypesResult,
+} from '@/lib/graphql/notifications.graphql';
+
+const client = generateClient();
+
+/**
+ * Notification types a user can receive as browser push
+ * (digests summarize emails and are never pushed)
+ */
+export const PUSH_NOTIFICATION_TYPES = [
+  { value: 'REGISTRATION_CONFIRMED', label: 'Registration confirmed' },
+  { value: 'WAITLIST_ADDED', label: 'Added to a waitlist' },
+  { value: 'WAITLIST_PROMOTED', label: 'Promoted from a waitlist' },
+  { value: 'REGISTRATION_CANCELLED', label: 'Registration cancelled' },
+  { value: 'EVENT_REMINDER_24H', label: 'Reminder a day before' },
+  { value: 'EVENT_REMINDER_1H', label: 'Reminder an hour before' },
+  { value: 'EVENT_UPDATED', label: 'Event changed' },
+  { value: 'EVENT_CANCELLED', label: 'Event cancelled' },
+  { value: 'PROMOTION_EXPIRED', label: 'Waitlist spot expired' },
+  { value: 'EVENT_APPROVED', label: 'Your event was approved' },
+  { value: 'EVENT_REJECTED', label: 'Your event was rejected' },
+  { value: 'SAVED_SEARCH_MATCH', label: 'New saved search match' },
+  { value: 'EVENT_FEEDBACK_REQUEST', label: 'Feedback request after an event' },
+  { value: 'ORGANIZER_ACCESS_APPROVED', label: 'Organizer access approved' },
+  { value: 'ORGANIZER_ACCESS_DENIED', label: 'Organizer access denied' },
+] as const;
+
+/**
+ * Push settings of the current user
+ */
+export type PushSettings = PushSettingsData;
+
+/**
+ * Notification delivery counts for a period
+ */
+export type DeliveryStats = DeliveryStatsData;
+
+/**
+ * Message of a resolver error worth showing (invalid subscription), or the fallback
+ */
+function getGraphQLErrorMessage(error: unknown, fallback: string): string {
+  const message = (error as { errors?: { message?: string }[] })?.errors?.[0]?.message;
+  if (!message) return fallback;
+
+  // Lambda resolvers throw JSON.stringify({ type, message })
+  try {
+    const parsed = JSON.parse(message);
+    if (parsed?.type === 'VALIDATION_ERROR' || parsed?.type === 'BUSINESS_RULE_ERROR') {
+      return parsed.message;
+    }
+  } catch {
+    // Plain-text message
+  }
+
+  return fallback;
+}
+
+/**
+ * Get the opted-in push types and the number of subscribed browsers
+ */
+export async function getPushSettings(): Promise<PushSettings> {
+  try {
+    const response = (await client.graphql({
+      query: GET_PUSH_SETTINGS,
+    })) as GraphQLResult<GetPushSettingsResult>;
+
+    if (!response.data?.pushSettings) {
+      throw new Error('No push settings returned from API');
+    }
+
+    return response.data.pushSettings;
+  } catch (error) {
+    console.error('Get push settings error:', error);
+    throw new Error('Failed to load your push notification settings. Please try again.');
+  }
+}
+
+/**
+ * Register this browser's push subscription
+ *
+ * @param input - Endpoint and keys from PushSubscription.toJSON()
+ * @returns Updated push settings
+ */
+export async function registerPushSubscription(input: PushSubscriptionInput): Promise<PushSettings> {
+  try {
+    const response = (await client.graphql({
+      query: REGISTER_PUSH_SUBSCRIPTION,
+      variables: { input },
+    })) as GraphQLResult<RegisterPushSubscriptionResult>;
+
+    if (!response.data?.registerPushSubscription) {
+      throw new Error('No push settings returned from API');
+    }
+
+    return response.data.registerPushSubscription;
+  } catch (error) {
+    console.error('Register push subscription error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to turn on push notifications. Please try again.'));
+  }
+}
+
+/**
+ * Remove this browser's push subscription
+ *
+ * @param endpoint - Push service endpoint of the subscription
+ * @returns Updated push settings
+ */
+export async function unregisterPushSubscription(endpoint: string): Promise<PushSettings> {
+  try {
+    const response = (await client.graphql({
+      query: UNREGISTER_PUSH_SUBSCRIPTION,
+      variables: { endpoint },
+    })) as GraphQLResult<UnregisterPushSubscriptionResult>;
+
+    if (!response.data?.unregisterPushSubscription) {
+      throw new Error('No push settings returned from API');
+    }
+
+    return response.data.unregisterPushSubscription;
+  } catch (error) {
+    console.error('Unregister push subscription error:', error);
+    throw new Error('Failed to turn off push notifications. Please try again.');
+  }
+}
+
+/**
+ * Choose which notification types are pushed
+ *
+ * @param types - Opted-in notification types
+ * @returns Updated push settings
+ */
+export async function updatePushTypes(types: string[]): Promise<PushSettings> {
+  try {
+    const response = (await client.graphql({
+      query: UPDATE_PUSH_TYPES,
+      variables: { types },
+    })) as GraphQLResult<UpdatePushTypesResult>;
+
+    if (!response.data?.updatePushTypes) {
+      throw new Error('No push settings returned from API');
+    }
+
+    return response.data.updatePushTypes;
+  } catch (error) {
+    console.error('Update push types error:', error);
+    throw new Error('Failed to save your push notification types. Please try again.');
+  }
+}
+
+/**
+ * Get notification delivery stats for a period
+ *
+ * @param startDate - Start of the period (ISO timestamp)
+ * @param endDate - End of the period (ISO timestamp)
+ * @param eventId - Only count notifications about this event; omit for platform-wide stats (administrators)
+ * @returns Delivery stats
+ */
+export async function getDeliveryStats(
+  startDate: string,
+  endDate: string,
+  eventId?: string
+): Promise<DeliveryStats> {
+  try {
+    const response = (await client.graphql({
+      query: GET_DELIVERY_STATS,
+      variables: { startDate, endDate, eventId },
+    })) as GraphQLResult<GetDeliveryStatsResult>;
+
+    if (!response.data?.deliveryStats) {
+      throw new Error('No delivery stats returned from API');
+    }
+
+    return response.data.deliveryStats;
+  } catch (error) {
+    console.error('Get delivery stats error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to load notification delivery stats. Please try again.'));
+  }
+}
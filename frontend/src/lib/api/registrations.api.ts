@@ -18,8 +18,28 @@ import {
   ListRegistrationsInput,
   EventCapacityInfo,
   RegistrationStats,
+  RosterEntry,
+  RosterConnection,
+  CheckInStats,
+  ListEventRegistrationsInput,
+  getRegistrationStatusText,
   generateIdempotencyKey,
 } from '@/types/registration.types';
+import {
+  FeedbackForm,
+  FeedbackQuestion,
+  FeedbackQuestionInput,
+  FeedbackResponse,
+  FeedbackResults,
+  OrganizerRating,
+  SubmitEventFeedbackInput,
+  SubmitEventFeedbackResult,
+} from '@/types/feedback.types';
+import {
+  EventAnalytics,
+  OrganizerAnalytics,
+  AnalyticsRange,
+} from '@/types/analytics.types';
 import {
   GET_REGISTRATION,
   LIST_MY_REGISTRATIONS,
@@ -27,11 +47,21 @@ import {
   GET_REGISTRATION_STATS,
   CHECK_USER_REGISTRATION,
   GET_EVENT_CAPACITY,
+  LIST_EVENT_REGISTRATIONS,
+  GET_CHECK_IN_STATS,
   REGISTER_FOR_EVENT,
   CANCEL_REGISTRATION,
   ACCEPT_PROMOTION,
   DECLINE_PROMOTION,
   CHECK_IN_ATTENDEE,
+  GET_EVENT_FEEDBACK_FORM,
+  GET_EVENT_FEEDBACK_RESULTS,
+  LIST_EVENT_FEEDBACK_RESPONSES,
+  GET_ORGANIZER_RATING,
+  SAVE_EVENT_FEEDBACK_FORM,
+  SUBMIT_EVENT_FEEDBACK,
+  GET_EVENT_ANALYTICS,
+  GET_ORGANIZER_ANALYTICS,
 } from '@/lib/graphql/registrations.graphql';
 
 // Initialize Amplify GraphQL client
@@ -58,12 +88,36 @@ function handleGraphQLError(error: any): never {
   const graphQLError = error?.errors?.[0];
   
   if (graphQLError) {
-    const code = graphQLError.extensions?.code || graphQLError.errorType;
-    const message = graphQLError.message || 'An error occurred';
+    let code = graphQLError.extensions?.code || graphQLError.errorType;
+    let message = graphQLError.message || 'An error occurred';
+    
+    // Lambda resolvers throw JSON.stringify({ type, message })
+    try {
+      const parsed = JSON.parse(message);
+      if (parsed?.type) {
+        code = parsed.type;
+        message = parsed.message || message;
+      }
+    } catch {
+      // Plain-text message
+    }
     
     throw new RegistrationError(message, code, graphQLError);
   }
   
+  // No GraphQL response at all - the request never reached AppSync
+  if (
+    (typeof navigator !== 'undefined' && !navigator.onLine) ||
+    error instanceof TypeError ||
+    /network|fetch/i.test(error?.message || '')
+  ) {
+    throw new RegistrationError(
+      'Network unavailable',
+      'NETWORK_ERROR',
+      error
+    );
+  }
+  
   throw new RegistrationError(
     error.message || 'An unexpected error occurred',
     'UNKNOWN_ERROR',
@@ -214,6 +268,54 @@ export async function getEventCapacity(eventId: string): Promise<EventCapacityIn
   }
 }
 
+/**
+ * List registrations for an event (attendee roster)
+ * Organizer/Admin only
+ */
+export async function listEventRegistrations(
+  input: ListEventRegistrationsInput
+): Promise<RosterConnection> {
+  try {
+    const result = (await client.graphql({
+      query: LIST_EVENT_REGISTRATIONS,
+      variables: {
+        eventId: input.eventId,
+        status: input.status,
+        limit: input.limit || 50,
+        nextToken: input.nextToken,
+      },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ listEventRegistrations: RosterConnection }>;
+
+    return result.data?.listEventRegistrations || { items: [], nextToken: null };
+  } catch (error) {
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Get checked-in vs expected counts for an event
+ * Organizer/Admin only
+ */
+export async function getCheckInStats(eventId: string): Promise<CheckInStats> {
+  try {
+    const result = (await client.graphql({
+      query: GET_CHECK_IN_STATS,
+      variables: { eventId },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ getCheckInStats: CheckInStats }>;
+
+    if (!result.data?.getCheckInStats) {
+      throw new RegistrationError('Check-in stats not found', 'NOT_FOUND');
+    }
+
+    return result.data.getCheckInStats;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
 /**
  * MUTATION FUNCTIONS
  */
@@ -388,10 +490,8 @@ export async function checkInAttendee(input: CheckInAttendeeInput): Promise<Regi
   try {
     const result = (await client.graphql({
       query: CHECK_IN_ATTENDEE,
-      variables: {
-        registrationId: input.registrationId,
-        qrCode: input.qrCode,
-      },
+      variables: { input },
+      authMode: 'userPool',
     })) as GraphQLResult<{ checkInAttendee: Registration }>;
 
     if (!result.data?.checkInAttendee) {
@@ -399,25 +499,8 @@ export async function checkInAttendee(input: CheckInAttendeeInput): Promise<Regi
     }
 
     return result.data.checkInAttendee;
-  } catch (error: any) {
-    const code = error.errors?.[0]?.extensions?.code;
-    
-    if (code === 'INVALID_QR_CODE') {
-      throw new RegistrationError(
-        'Invalid QR code. Please try scanning again.',
-        'INVALID_QR_CODE',
-        error
-      );
-    }
-    
-    if (code === 'ALREADY_CHECKED_IN') {
-      throw new RegistrationError(
-        'This attendee has already been checked in.',
-        'ALREADY_CHECKED_IN',
-        error
-      );
-    }
-    
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
     return handleGraphQLError(error);
   }
 }
@@ -499,6 +582,284 @@ export async function canRegisterForEvent(eventId: string): Promise<{
   return { canRegister: true };
 }
 
+/**
+ * Fetch every page of an event's roster
+ */
+export async function getFullEventRoster(
+  eventId: string,
+  status?: RegistrationStatus
+): Promise<RosterEntry[]> {
+  const entries: RosterEntry[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await listEventRegistrations({ eventId, status, limit: 100, nextToken });
+    entries.push(...page.items);
+    nextToken = page.nextToken || undefined;
+  } while (nextToken);
+
+  return entries;
+}
+
+/**
+ * Escape a value for CSV output
+ * Quotes values containing separators and neutralises spreadsheet formulas
+ */
+function toCsvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Build a CSV document from roster entries
+ * Columns: name, email, status, waitlist position, registeredAt, attendedAt
+ */
+export function buildRosterCsv(entries: RosterEntry[]): string {
+  const header = ['Name', 'Email', 'Status', 'Waitlist Position', 'Registered At', 'Attended At'];
+  const rows = entries.map(entry => [
+    entry.userName,
+    entry.userEmail,
+    getRegistrationStatusText(entry.status),
+    entry.waitlistPosition,
+    entry.registeredAt,
+    entry.attendedAt,
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Export an event's roster as CSV
+ */
+export async function exportEventRosterCsv(
+  eventId: string,
+  status?: RegistrationStatus
+): Promise<string> {
+  const entries = await getFullEventRoster(eventId, status);
+  return buildRosterCsv(entries);
+}
+
+/**
+ * FEEDBACK FUNCTIONS
+ */
+
+/**
+ * Get an event's feedback form
+ */
+export async function getEventFeedbackForm(eventId: string): Promise<FeedbackForm> {
+  try {
+    const result = (await client.graphql({
+      query: GET_EVENT_FEEDBACK_FORM,
+      variables: { eventId },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ getEventFeedbackForm: FeedbackForm }>;
+
+    if (!result.data?.getEventFeedbackForm) {
+      throw new RegistrationError('Feedback form not found', 'NOT_FOUND');
+    }
+
+    return result.data.getEventFeedbackForm;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Save the questions of an event's feedback form (organizer/admin)
+ * Rejected once attendees have responded
+ */
+export async function saveEventFeedbackForm(
+  eventId: string,
+  questions: FeedbackQuestionInput[]
+): Promise<FeedbackForm> {
+  try {
+    const result = (await client.graphql({
+      query: SAVE_EVENT_FEEDBACK_FORM,
+      variables: { eventId, questions },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ saveEventFeedbackForm: FeedbackForm }>;
+
+    if (!result.data?.saveEventFeedbackForm) {
+      throw new RegistrationError('Failed to save feedback form', 'SAVE_FAILED');
+    }
+
+    return result.data.saveEventFeedbackForm;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Submit feedback for an attended event
+ */
+export async function submitEventFeedback(
+  input: SubmitEventFeedbackInput
+): Promise<SubmitEventFeedbackResult> {
+  try {
+    const result = (await client.graphql({
+      query: SUBMIT_EVENT_FEEDBACK,
+      variables: { input },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ submitEventFeedback: SubmitEventFeedbackResult }>;
+
+    if (!result.data?.submitEventFeedback) {
+      throw new RegistrationError('Failed to submit feedback', 'SUBMIT_FAILED');
+    }
+
+    return result.data.submitEventFeedback;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Get aggregated feedback for an event (organizer/admin)
+ */
+export async function getEventFeedbackResults(eventId: string): Promise<FeedbackResults> {
+  try {
+    const result = (await client.graphql({
+      query: GET_EVENT_FEEDBACK_RESULTS,
+      variables: { eventId },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ getEventFeedbackResults: FeedbackResults }>;
+
+    if (!result.data?.getEventFeedbackResults) {
+      throw new RegistrationError('Feedback results not found', 'NOT_FOUND');
+    }
+
+    return result.data.getEventFeedbackResults;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * List anonymous feedback responses (organizer/admin)
+ */
+export async function listEventFeedbackResponses(eventId: string): Promise<FeedbackResponse[]> {
+  try {
+    const result = (await client.graphql({
+      query: LIST_EVENT_FEEDBACK_RESPONSES,
+      variables: { eventId },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ listEventFeedbackResponses: FeedbackResponse[] }>;
+
+    return result.data?.listEventFeedbackResponses || [];
+  } catch (error) {
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Get an organizer's average attendee rating
+ */
+export async function getOrganizerRating(organizerId: string): Promise<OrganizerRating> {
+  try {
+    const result = (await client.graphql({
+      query: GET_ORGANIZER_RATING,
+      variables: { organizerId },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ getOrganizerRating: OrganizerRating }>;
+
+    return result.data?.getOrganizerRating || { organizerId, averageRating: null, ratingCount: 0 };
+  } catch (error) {
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Build a CSV document from feedback responses
+ * Columns: submittedAt, overall rating, then one column per question
+ */
+export function buildFeedbackCsv(questions: FeedbackQuestion[], responses: FeedbackResponse[]): string {
+  const header = ['Submitted At', 'Overall Rating', ...questions.map(question => question.prompt)];
+  const rows = responses.map(response => [
+    response.submittedAt,
+    response.overallRating,
+    ...questions.map(question => {
+      const answer = response.answers.find(a => a.questionId === question.id);
+      return answer?.rating ?? answer?.choice ?? answer?.text;
+    }),
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Export an event's feedback responses as CSV
+ */
+export async function exportEventFeedbackCsv(eventId: string): Promise<string> {
+  const [form, responses] = await Promise.all([
+    getEventFeedbackForm(eventId),
+    listEventFeedbackResponses(eventId),
+  ]);
+  return buildFeedbackCsv(form.questions, responses);
+}
+
+/**
+ * ANALYTICS FUNCTIONS
+ */
+
+/**
+ * Get analytics for one event (organizer/admin)
+ */
+export async function getEventAnalytics(eventId: string): Promise<EventAnalytics> {
+  try {
+    const result = (await client.graphql({
+      query: GET_EVENT_ANALYTICS,
+      variables: { eventId },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ eventAnalytics: EventAnalytics }>;
+
+    if (!result.data?.eventAnalytics) {
+      throw new RegistrationError('Event analytics not found', 'NOT_FOUND');
+    }
+
+    return result.data.eventAnalytics;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
+/**
+ * Get analytics across the current user's events for a period
+ */
+export async function getOrganizerAnalytics(range: AnalyticsRange): Promise<OrganizerAnalytics> {
+  try {
+    const result = (await client.graphql({
+      query: GET_ORGANIZER_ANALYTICS,
+      variables: { range },
+      authMode: 'userPool',
+    })) as GraphQLResult<{ organizerAnalytics: OrganizerAnalytics }>;
+
+    if (!result.data?.organizerAnalytics) {
+      throw new RegistrationError('Organizer analytics not found', 'NOT_FOUND');
+    }
+
+    return result.data.organizerAnalytics;
+  } catch (error) {
+    if (error instanceof RegistrationError) throw error;
+    return handleGraphQLError(error);
+  }
+}
+
 /**
  * Export all functions
  */
@@ -510,6 +871,8 @@ export const registrationsAPI = {
   getRegistrationStats,
   checkUserRegistration,
   getEventCapacity,
+  listEventRegistrations,
+  getCheckInStats,
   
   // Mutations
   registerForEvent,
@@ -524,4 +887,19 @@ export const registrationsAPI = {
   getWaitlistedRegistrations,
   getPastRegistrations,
   canRegisterForEvent,
+  getFullEventRoster,
+  exportEventRosterCsv,
+
+  // Feedback
+  getEventFeedbackForm,
+  saveEventFeedbackForm,
+  submitEventFeedback,
+  getEventFeedbackResults,
+  listEventFeedbackResponses,
+  getOrganizerRating,
+  exportEventFeedbackCsv,
+
+  // Analytics
+  getEventAnalytics,
+  getOrganizerAnalytics,
 };
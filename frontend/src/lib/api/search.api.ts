@@ -11,6 +11,10 @@ import type {
   SearchResult,
   CalendarEventsQuery,
   EventSearchItem,
+  SavedSearch,
+  SortInput,
+  RecommendedEvent,
+  CalendarFeed,
 } from '@/types/search.types';
 import type { EventCategory, EventStatus } from '@/types/event.types';
 import { generateClient, GraphQLResult } from 'aws-amplify/api';
@@ -18,15 +22,121 @@ import {
   ADVANCED_SEARCH_EVENTS,
   GET_CALENDAR_EVENTS,
   GET_EVENT_BY_SLUG,
+  LIST_SAVED_SEARCHES,
+  SAVE_SEARCH,
+  UPDATE_SAVED_SEARCH,
+  DELETE_SAVED_SEARCH,
+  RECOMMENDED_EVENTS,
+  MY_CALENDAR_FEED,
+  CREATE_CALENDAR_FEED,
+  REVOKE_CALENDAR_FEED,
   type AdvancedSearchEventsResult,
   type GetCalendarEventsResult,
   type GetEventBySlugResult,
+  type ListSavedSearchesResult,
+  type SaveSearchResult,
+  type UpdateSavedSearchResult,
+  type DeleteSavedSearchResult,
+  type RecommendedEventsResult,
+  type MyCalendarFeedResult,
+  type CreateCalendarFeedResult,
+  type RevokeCalendarFeedResult,
+  type SavedSearchData,
   type SearchQueryInput,
   type CalendarEventsInput,
 } from '@/lib/graphql/search.graphql';
 
 const client = generateClient();
 
+// Public REST endpoint of the search service serving .ics files
+const CALENDAR_API_URL = process.env.NEXT_PUBLIC_CALENDAR_API_URL || '';
+
+/**
+ * Transform a frontend SearchQuery to the backend SearchQueryInput
+ */
+function toSearchQueryInput(query: SearchQuery): SearchQueryInput {
+  // Transform frontend SearchFilters to backend SearchFilters
+  const backendFilters = query.filters ? {
+    categories: query.filters.categories,
+    locations: query.filters.locations,
+    startDateAfter: query.dateRange?.start,
+    startDateBefore: query.dateRange?.end,
+    // Transform availability to hasAvailableSeats
+    hasAvailableSeats: query.filters.availability === 'AVAILABLE' ? true : 
+                       query.filters.availability === 'WAITLIST' ? false : 
+                       undefined,
+    tags: [] as string[], // Frontend doesn't have tags filter yet, default to empty
+    radius: query.filters.radius,
+  } : undefined;
+
+  return {
+    query: query.query || '',
+    filters: backendFilters,
+    pagination: query.pagination ? {
+      limit: query.pagination.limit,
+      nextToken: query.pagination.nextToken,
+    } : undefined,
+    sort: query.sort ? {
+      field: query.sort.field === 'availableSeats' ? 'startDateTime' : query.sort.field,
+      order: query.sort.order,
+    } : undefined,
+  };
+}
+
+/**
+ * Message of a resolver error worth showing (validation, limit reached), or the fallback
+ */
+function getGraphQLErrorMessage(error: unknown, fallback: string): string {
+  const message = (error as { errors?: { message?: string }[] })?.errors?.[0]?.message;
+  if (!message) return fallback;
+
+  // Lambda resolvers throw JSON.stringify({ type, message })
+  try {
+    const parsed = JSON.parse(message);
+    if (parsed?.type === 'VALIDATION_ERROR' || parsed?.type === 'BUSINESS_RULE_ERROR') {
+      return parsed.message;
+    }
+  } catch {
+    // Plain-text message
+  }
+
+  return fallback;
+}
+
+/**
+ * Transform a stored saved search back to the frontend SearchQuery shape
+ */
+function toSavedSearch(data: SavedSearchData): SavedSearch {
+  const filters = data.search.filters;
+
+  return {
+    id: data.id,
+    name: data.name,
+    search: {
+      query: data.search.query || undefined,
+      filters: {
+        categories: filters?.categories ?? [],
+        locations: filters?.locations ?? [],
+        availability: filters?.hasAvailableSeats ? 'AVAILABLE' : 'ALL',
+        radius: filters?.radius ?? undefined,
+      },
+      dateRange: filters?.startDateAfter && filters?.startDateBefore ? {
+        start: filters.startDateAfter,
+        end: filters.startDateBefore,
+      } : undefined,
+      sort: data.search.sort ? {
+        field: data.search.sort.field as SortInput['field'],
+        order: data.search.sort.order as SortInput['order'],
+      } : undefined,
+    },
+    alertsEnabled: data.alertsEnabled,
+    alertCount: data.alertCount,
+    lastAlertedAt: data.lastAlertedAt ?? undefined,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  };
+}
+
 /**
  * Search events with advanced filters using the deployed search Lambda
  * 
@@ -37,32 +147,8 @@ export async function searchEvents(query: SearchQuery): Promise<SearchResult> {
   try {
     console.log('Searching events with query:', query);
 
-    // Transform frontend SearchFilters to backend SearchFilters
-    const backendFilters = query.filters ? {
-      categories: query.filters.categories,
-      locations: query.filters.locations,
-      startDateAfter: query.dateRange?.start,
-      startDateBefore: query.dateRange?.end,
-      // Transform availability to hasAvailableSeats
-      hasAvailableSeats: query.filters.availability === 'AVAILABLE' ? true : 
-                         query.filters.availability === 'WAITLIST' ? false : 
-                         undefined,
-      tags: [] as string[], // Frontend doesn't have tags filter yet, default to empty
-    } : undefined;
-
     // Build GraphQL input
-    const input: SearchQueryInput = {
-      query: query.query || '',
-      filters: backendFilters,
-      pagination: query.pagination ? {
-        limit: query.pagination.limit,
-        nextToken: query.pagination.nextToken,
-      } : undefined,
-      sort: query.sort ? {
-        field: query.sort.field === 'availableSeats' ? 'startDateTime' : query.sort.field,
-        order: query.sort.order,
-      } : undefined,
-    };
+    const input = toSearchQueryInput(query);
 
     // Call AppSync GraphQL query
     const response = (await client.graphql({
@@ -197,6 +283,7 @@ export async function getCalendarEvents(
       imageUrl: undefined,
       createdAt: '',
       updatedAt: '',
+      seriesId: event.seriesId,
     }));
 
     console.log('Calendar events retrieved:', events.length);
@@ -273,3 +360,202 @@ export async function getEventBySlug(slug: string): Promise<EventSearchItem | nu
     return null;
   }
 }
+
+/**
+ * List the current user's saved searches, newest first
+ * 
+ * @returns Saved searches
+ */
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+  try {
+    const response = (await client.graphql({
+      query: LIST_SAVED_SEARCHES,
+    })) as GraphQLResult<ListSavedSearchesResult>;
+
+    return (response.data?.listSavedSearches || []).map(toSavedSearch);
+  } catch (error) {
+    console.error('List saved searches error:', error);
+    throw new Error('Failed to load saved searches. Please try again.');
+  }
+}
+
+/**
+ * Save a search under a name
+ * 
+ * @param name - Display name
+ * @param search - Search to save (pagination is ignored)
+ * @param alertsEnabled - Notify about newly published matching events
+ * @returns Created saved search
+ */
+export async function saveSearch(
+  name: string,
+  search: SearchQuery,
+  alertsEnabled: boolean
+): Promise<SavedSearch> {
+  try {
+    const response = (await client.graphql({
+      query: SAVE_SEARCH,
+      variables: {
+        input: {
+          name,
+          search: toSearchQueryInput({ ...search, pagination: undefined }),
+          alertsEnabled,
+        },
+      },
+    })) as GraphQLResult<SaveSearchResult>;
+
+    if (!response.data?.saveSearch) {
+      throw new Error('No saved search returned from API');
+    }
+
+    return toSavedSearch(response.data.saveSearch);
+  } catch (error) {
+    console.error('Save search error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to save search. Please try again.'));
+  }
+}
+
+/**
+ * Rename a saved search or turn its alerts on or off
+ * 
+ * @param id - Saved search ID
+ * @param changes - Fields to change
+ * @returns Updated saved search
+ */
+export async function updateSavedSearch(
+  id: string,
+  changes: { name?: string; alertsEnabled?: boolean }
+): Promise<SavedSearch> {
+  try {
+    const response = (await client.graphql({
+      query: UPDATE_SAVED_SEARCH,
+      variables: { id, input: changes },
+    })) as GraphQLResult<UpdateSavedSearchResult>;
+
+    if (!response.data?.updateSavedSearch) {
+      throw new Error('No saved search returned from API');
+    }
+
+    return toSavedSearch(response.data.updateSavedSearch);
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to update saved search. Please try again.'));
+  }
+}
+
+/**
+ * Delete a saved search
+ * 
+ * @param id - Saved search ID
+ */
+export async function deleteSavedSearch(id: string): Promise<void> {
+  try {
+    (await client.graphql({
+      query: DELETE_SAVED_SEARCH,
+      variables: { id },
+    })) as GraphQLResult<DeleteSavedSearchResult>;
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    throw new Error('Failed to delete saved search. Please try again.');
+  }
+}
+
+/**
+ * Get upcoming events recommended for the current user
+ * 
+ * @param limit - Maximum number of events (1-20)
+ * @returns Recommended events, best match first
+ */
+export async function getRecommendedEvents(limit: number = 6): Promise<RecommendedEvent[]> {
+  try {
+    const response = (await client.graphql({
+      query: RECOMMENDED_EVENTS,
+      variables: { limit },
+    })) as GraphQLResult<RecommendedEventsResult>;
+
+    return (response.data?.recommendedEvents || []).map(({ event, score, reason }) => ({
+      event: {
+        ...event,
+        category: event.category as EventCategory,
+        status: event.status as EventStatus,
+      } as EventSearchItem,
+      score,
+      reason,
+    }));
+  } catch (error) {
+    console.error('Get recommended events error:', error);
+    throw new Error('Failed to load recommendations. Please try again.');
+  }
+}
+
+/**
+ * Download URL of an event's .ics file
+ * 
+ * @param eventId - Published event ID
+ */
+export function getEventIcsUrl(eventId: string): string {
+  return `${CALENDAR_API_URL}/calendar/events/${encodeURIComponent(eventId)}.ics`;
+}
+
+/**
+ * Subscription URL of a public category feed
+ * 
+ * @param category - Event category
+ */
+export function getCategoryFeedUrl(category: EventCategory): string {
+  return `${CALENDAR_API_URL}/calendar/feeds/categories/${category.toLowerCase()}.ics`;
+}
+
+/**
+ * Get the current user's personal calendar feed
+ * 
+ * @returns Feed, or null if the user has not created one
+ */
+export async function getMyCalendarFeed(): Promise<CalendarFeed | null> {
+  try {
+    const response = (await client.graphql({
+      query: MY_CALENDAR_FEED,
+    })) as GraphQLResult<MyCalendarFeedResult>;
+
+    return response.data?.myCalendarFeed || null;
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    throw new Error('Failed to load your calendar feed. Please try again.');
+  }
+}
+
+/**
+ * Create a personal calendar feed; an existing feed URL stops working
+ * 
+ * @returns New feed
+ */
+export async function createCalendarFeed(): Promise<CalendarFeed> {
+  try {
+    const response = (await client.graphql({
+      query: CREATE_CALENDAR_FEED,
+    })) as GraphQLResult<CreateCalendarFeedResult>;
+
+    if (!response.data?.createCalendarFeed) {
+      throw new Error('No calendar feed returned from API');
+    }
+
+    return response.data.createCalendarFeed;
+  } catch (error) {
+    console.error('Create calendar feed error:', error);
+    throw new Error('Failed to create your calendar feed. Please try again.');
+  }
+}
+
+/**
+ * Revoke the personal calendar feed
+ */
+export async function revokeCalendarFeed(): Promise<void> {
+  try {
+    (await client.graphql({
+      query: REVOKE_CALENDAR_FEED,
+    })) as GraphQLResult<RevokeCalendarFeedResult>;
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error);
+    throw new Error('Failed to turn off your calendar feed. Please try again.');
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Users API Client
+ * TEMS - Terrapin Events Management System
+ *
+ * Phone number verification for SMS notifications, organizer
+ * access requests and admin user management via AppSync GraphQL
+ */
+
+import { generateClient, GraphQLResult } from 'aws-amplify/api';
+import {
+  GET_CURRENT_USER_PHONE,
+  START_PHONE_VERIFICATION,
+  CONFIRM_PHONE_VERIFICATION,
+  REMOVE_PHONE_NUMBER,
+  SEARCH_USERS,
+  ADMIN_GET_USER,
+  LIST_ADMIN_AUDIT_LOG,
+  UPDATE_USER_ROLE,
+  SUSPEND_USER,
+  REACTIVATE_USER,
+  GET_MY_ORGANIZER_REQUEST,
+  LIST_ORGANIZER_REQUESTS,
+  SUBMIT_ORGANIZER_REQUEST,
+  APPROVE_ORGANIZER_REQUEST,
+  DENY_ORGANIZER_REQUEST,
+  type PhoneFieldsData,
+  type GetCurrentUserPhoneResult,
+  type StartPhoneVerificationResult,
+  type ConfirmPhoneVerificationResult,
+  type RemovePhoneNumberResult,
+  type SearchUsersResult,
+  type AdminGetUserResult,
+  type ListAdminAuditLogResult,
+  type UpdateUserRoleResult,
+  type SuspendUserResult,
+  type ReactivateUserResult,
+  type GetMyOrganizerRequestResult,
+  type ListOrganizerRequestsResult,
+  type SubmitOrganizerRequestResult,
+  type ApproveOrganizerRequestResult,
+  type DenyOrganizerRequestResult,
+} from '@/lib/graphql/users.graphql';
+import { UserRole } from '@/types/auth';
+import type {
+  AdminUser,
+  AdminUserConnection,
+  AdminUserDetail,
+  AdminAuditLogConnection,
+  OrganizerRequest,
+  OrganizerRequestConnection,
+  SubmitOrganizerRequestInput,
+} from '@/types/admin.types';
+
+const client = generateClient();
+
+/**
+ * SMS settings of the current user
+ */
+export interface PhoneSettings {
+  phoneNumber?: string;
+  phoneVerified: boolean;
+  smsOptedOutAt?: string;   // Replied STOP to our texts
+}
+
+function toPhoneSettings(data: PhoneFieldsData): PhoneSettings {
+  return {
+    phoneNumber: data.phoneNumber ?? undefined,
+    phoneVerified: data.phoneVerified ?? false,
+    smsOptedOutAt: data.smsOptedOutAt ?? undefined,
+  };
+}
+
+/**
+ * Message of a resolver error worth showing (invalid code, number in use,
+ * admin guard), or the fallback
+ */
+function getGraphQLErrorMessage(error: unknown, fallback: string): string {
+  const message = (error as { errors?: { message?: string }[] })?.errors?.[0]?.message;
+  if (!message) return fallback;
+
+  // Lambda resolvers throw JSON.stringify({ type, message })
+  try {
+    const parsed = JSON.parse(message);
+    if (['VALIDATION_ERROR', 'BUSINESS_RULE_ERROR', 'AUTHORIZATION_ERROR', 'NOT_FOUND'].includes(parsed?.type)) {
+      return parsed.message;
+    }
+  } catch {
+    // Plain-text message
+  }
+
+  return fallback;
+}
+
+/**
+ * Get the current user's phone number settings
+ */
+export async function getPhoneSettings(): Promise<PhoneSettings> {
+  try {
+    const response = (await client.graphql({
+      query: GET_CURRENT_USER_PHONE,
+    })) as GraphQLResult<GetCurrentUserPhoneResult>;
+
+    if (!response.data?.getCurrentUser) {
+      throw new Error('No user returned from API');
+    }
+
+    return toPhoneSettings(response.data.getCurrentUser);
+  } catch (error) {
+    console.error('Get phone settings error:', error);
+    throw new Error('Failed to load your phone number. Please try again.');
+  }
+}
+
+/**
+ * Text a verification code to a phone number
+ *
+ * @param phoneNumber - Phone number as typed (US numbers need no country code)
+ */
+export async function startPhoneVerification(phoneNumber: string): Promise<void> {
+  try {
+    (await client.graphql({
+      query: START_PHONE_VERIFICATION,
+      variables: { phoneNumber },
+    })) as GraphQLResult<StartPhoneVerificationResult>;
+  } catch (error) {
+    console.error('Start phone verification error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to send a verification code. Please try again.'));
+  }
+}
+
+/**
+ * Confirm the texted code, which saves the number and turns on SMS notifications
+ *
+ * @param code - 6-digit code
+ * @returns Updated phone settings
+ */
+export async function confirmPhoneVerification(code: string): Promise<PhoneSettings> {
+  try {
+    const response = (await client.graphql({
+      query: CONFIRM_PHONE_VERIFICATION,
+      variables: { code },
+    })) as GraphQLResult<ConfirmPhoneVerificationResult>;
+
+    if (!response.data?.confirmPhoneVerification) {
+      throw new Error('No user returned from API');
+    }
+
+    return toPhoneSettings(response.data.confirmPhoneVerification);
+  } catch (error) {
+    console.error('Confirm phone verification error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to verify your phone number. Please try again.'));
+  }
+}
+
+/**
+ * Remove the phone number, which turns off SMS notifications
+ *
+ * @returns Updated phone settings
+ */
+export async function removePhoneNumber(): Promise<PhoneSettings> {
+  try {
+    const response = (await client.graphql({
+      query: REMOVE_PHONE_NUMBER,
+    })) as GraphQLResult<RemovePhoneNumberResult>;
+
+    if (!response.data?.removePhoneNumber) {
+      throw new Error('No user returned from API');
+    }
+
+    return toPhoneSettings(response.data.removePhoneNumber);
+  } catch (error) {
+    console.error('Remove phone number error:', error);
+    throw new Error('Failed to remove your phone number. Please try again.');
+  }
+}
+
+// ============================================================================
+// ADMIN CONSOLE
+// ============================================================================
+
+/**
+ * Search users by name or email (administrators only)
+ *
+ * @param query - Text to match against email, first or last name
+ * @param role - Only users with this role
+ * @param limit - Page size
+ * @param nextToken - Token from the previous page
+ */
+export async function searchUsers(
+  query?: string,
+  role?: UserRole,
+  limit: number = 25,
+  nextToken?: string
+): Promise<AdminUserConnection> {
+  try {
+    const response = (await client.graphql({
+      query: SEARCH_USERS,
+      variables: { query: query || undefined, role, limit, nextToken },
+    })) as GraphQLResult<SearchUsersResult>;
+
+    if (!response.data?.searchUsers) {
+      throw new Error('No users returned from API');
+    }
+
+    return response.data.searchUsers;
+  } catch (error) {
+    console.error('Search users error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to search users. Please try again.'));
+  }
+}
+
+/**
+ * Get a user's account, registrations, organized events and audit history
+ *
+ * @param userId - User ID
+ */
+export async function getAdminUser(userId: string): Promise<AdminUserDetail> {
+  try {
+    const response = (await client.graphql({
+      query: ADMIN_GET_USER,
+      variables: { id: userId },
+    })) as GraphQLResult<AdminGetUserResult>;
+
+    if (!response.data?.adminGetUser) {
+      throw new Error('No user returned from API');
+    }
+
+    return response.data.adminGetUser;
+  } catch (error) {
+    console.error('Get admin user error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to load this user. Please try again.'));
+  }
+}
+
+/**
+ * List role changes and suspensions across all users, newest first
+ *
+ * @param limit - Page size
+ * @param nextToken - Token from the previous page
+ */
+export async function listAdminAuditLog(
+  limit: number = 25,
+  nextToken?: string
+): Promise<AdminAuditLogConnection> {
+  try {
+    const response = (await client.graphql({
+      query: LIST_ADMIN_AUDIT_LOG,
+      variables: { limit, nextToken },
+    })) as GraphQLResult<ListAdminAuditLogResult>;
+
+    if (!response.data?.listAdminAuditLog) {
+      throw new Error('No audit log returned from API');
+    }
+
+    return response.data.listAdminAuditLog;
+  } catch (error) {
+    console.error('List admin audit log error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to load the audit log. Please try again.'));
+  }
+}
+
+/**
+ * Promote or demote a user
+ * The user is signed out so their next session carries the new role
+ *
+ * @param userId - User ID
+ * @param role - New role
+ * @param reason - Optional note for the audit log
+ */
+export async function updateUserRole(userId: string, role: UserRole, reason?: string): Promise<AdminUser> {
+  try {
+    const response = (await client.graphql({
+      query: UPDATE_USER_ROLE,
+      variables: { userId, role, reason: reason || undefined },
+    })) as GraphQLResult<UpdateUserRoleResult>;
+
+    if (!response.data?.updateUserRole) {
+      throw new Error('No user returned from API');
+    }
+
+    return response.data.updateUserRole;
+  } catch (error) {
+    console.error('Update user role error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to change the role. Please try again.'));
+  }
+}
+
+/**
+ * Suspend an account: blocks sign-in and ends the user's sessions
+ *
+ * @param userId - User ID
+ * @param reason - Why the account is suspended
+ */
+export async function suspendUser(userId: string, reason: string): Promise<AdminUser> {
+  try {
+    const response = (await client.graphql({
+      query: SUSPEND_USER,
+      variables: { userId, reason },
+    })) as GraphQLResult<SuspendUserResult>;
+
+    if (!response.data?.suspendUser) {
+      throw new Error('No user returned from API');
+    }
+
+    return response.data.suspendUser;
+  } catch (error) {
+    console.error('Suspend user error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to suspend the user. Please try again.'));
+  }
+}
+
+/**
+ * Lift a suspension
+ *
+ * @param userId - User ID
+ */
+export async function reactivateUser(userId: string): Promise<AdminUser> {
+  try {
+    const response = (await client.graphql({
+      query: REACTIVATE_USER,
+      variables: { userId },
+    })) as GraphQLResult<ReactivateUserResult>;
+
+    if (!response.data?.reactivateUser) {
+      throw new Error('No user returned from API');
+    }
+
+    return response.data.reactivateUser;
+  } catch (error) {
+    console.error('Reactivate user error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to reactivate the user. Please try again.'));
+  }
+}
+
+/**
+ * Get the current user's organizer access request
+ * @returns The latest request, or null if the user never asked
+ */
+export async function getMyOrganizerRequest(): Promise<OrganizerRequest | null> {
+  try {
+    const response = (await client.graphql({
+      query: GET_MY_ORGANIZER_REQUEST,
+    })) as GraphQLResult<GetMyOrganizerRequestResult>;
+
+    return response.data?.myOrganizerRequest ?? null;
+  } catch (error) {
+    console.error('Get organizer request error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to load your organizer request. Please try again.'));
+  }
+}
+
+/**
+ * Ask for organizer access
+ * @param input - Club or department affiliation and justification
+ */
+export async function submitOrganizerRequest(input: SubmitOrganizerRequestInput): Promise<OrganizerRequest> {
+  try {
+    const response = (await client.graphql({
+      query: SUBMIT_ORGANIZER_REQUEST,
+      variables: { input },
+    })) as GraphQLResult<SubmitOrganizerRequestResult>;
+
+    if (!response.data?.submitOrganizerRequest) {
+      throw new Error('No request returned from API');
+    }
+
+    return response.data.submitOrganizerRequest;
+  } catch (error) {
+    console.error('Submit organizer request error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to submit your request. Please try again.'));
+  }
+}
+
+/**
+ * List pending organizer requests, oldest first (administrators only)
+ * @param limit - Page size
+ * @param nextToken - Token from the previous page
+ */
+export async function listOrganizerRequests(
+  limit: number = 25,
+  nextToken?: string
+): Promise<OrganizerRequestConnection> {
+  try {
+    const response = (await client.graphql({
+      query: LIST_ORGANIZER_REQUESTS,
+      variables: { limit, nextToken },
+    })) as GraphQLResult<ListOrganizerRequestsResult>;
+
+    if (!response.data?.listOrganizerRequests) {
+      throw new Error('No organizer requests returned from API');
+    }
+
+    return response.data.listOrganizerRequests;
+  } catch (error) {
+    console.error('List organizer requests error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to load organizer requests. Please try again.'));
+  }
+}
+
+/**
+ * Approve a request and grant the ORGANIZER role
+ * The user is signed out so their next session carries the new role
+ *
+ * @param userId - Requesting user
+ * @param comment - Optional note for the requester
+ */
+export async function approveOrganizerRequest(userId: string, comment?: string): Promise<OrganizerRequest> {
+  try {
+    const response = (await client.graphql({
+      query: APPROVE_ORGANIZER_REQUEST,
+      variables: { userId, comment },
+    })) as GraphQLResult<ApproveOrganizerRequestResult>;
+
+    if (!response.data?.approveOrganizerRequest) {
+      throw new Error('No request returned from API');
+    }
+
+    return response.data.approveOrganizerRequest;
+  } catch (error) {
+    console.error('Approve organizer request error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to approve the request. Please try again.'));
+  }
+}
+
+/**
+ * Deny a request
+ * @param userId - Requesting user
+ * @param reason - Shown to the requester
+ */
+export async function denyOrganizerRequest(userId: string, reason: string): Promise<OrganizerRequest> {
+  try {
+    const response = (await client.graphql({
+      query: DENY_ORGANIZER_REQUEST,
+      variables: { userId, reason },
+    })) as GraphQLResult<DenyOrganizerRequestResult>;
+
+    if (!response.data?.denyOrganizerRequest) {
+      throw new Error('No request returned from API');
+    }
+
+    return response.data.denyOrganizerRequest;
+  } catch (error) {
+    console.error('Deny organizer request error:', error);
+    throw new Error(getGraphQLErrorMessage(error, 'Failed to deny the request. Please try again.'));
+  }
+}
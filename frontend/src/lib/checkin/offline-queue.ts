@@ -0,0 +1,75 @@
+/**
+ * Offline Check-In Queue
+ * TEMS - Terrapin Events Management System
+ *
+ * Persists scans made while the device is offline so they can be
+ * synced with checkInAttendee once connectivity returns.
+ * Stored in localStorage per event, so a page reload keeps the queue.
+ */
+
+import type { CheckInAttendeeInput } from '@/types/registration.types';
+
+/**
+ * Queued scan awaiting sync
+ */
+export interface QueuedCheckIn extends CheckInAttendeeInput {
+  eventId: string;
+  scannedAt: string;
+}
+
+const STORAGE_PREFIX = 'tems:checkin-queue:';
+
+function storageKey(eventId: string): string {
+  return `${STORAGE_PREFIX}${eventId}`;
+}
+
+/**
+ * Read the queued scans for an event
+ */
+export function getQueuedCheckIns(eventId: string): QueuedCheckIn[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = window.localStorage.getItem(storageKey(eventId));
+    return raw ? (JSON.parse(raw) as QueuedCheckIn[]) : [];
+  } catch (error) {
+    console.error('Error reading check-in queue:', error);
+    return [];
+  }
+}
+
+function saveQueuedCheckIns(eventId: string, queue: QueuedCheckIn[]): void {
+  if (typeof window === 'undefined') return;
+
+  if (queue.length === 0) {
+    window.localStorage.removeItem(storageKey(eventId));
+  } else {
+    window.localStorage.setItem(storageKey(eventId), JSON.stringify(queue));
+  }
+}
+
+/**
+ * Add a scan to the queue
+ * Returns false if the ticket is already queued
+ */
+export function enqueueCheckIn(scan: QueuedCheckIn): boolean {
+  const queue = getQueuedCheckIns(scan.eventId);
+
+  if (queue.some(item => item.registrationId === scan.registrationId)) {
+    return false;
+  }
+
+  saveQueuedCheckIns(scan.eventId, [...queue, scan]);
+  return true;
+}
+
+/**
+ * Remove a scan from the queue once it has been synced (or permanently rejected)
+ */
+export function removeQueuedCheckIn(eventId: string, registrationId: string): void {
+  const queue = getQueuedCheckIns(eventId);
+  saveQueuedCheckIns(
+    eventId,
+    queue.filter(item => item.registrationId !== registrationId)
+  );
+}
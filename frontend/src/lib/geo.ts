@@ -0,0 +1,66 @@
+/**
+ * Geo Helpers
+ * Web Mercator projection for the search map and distance formatting
+ */
+
+import type { EventCoordinates } from '@/types/event.types';
+
+export const TILE_SIZE = 256;
+const EARTH_RADIUS_METERS = 6371000;
+
+// Radius searches are limited to 20 km by the backend
+export const MAX_SEARCH_RADIUS_METERS = 20000;
+
+// University of Maryland, College Park (McKeldin Mall)
+export const CAMPUS_CENTER: EventCoordinates = { latitude: 38.9859, longitude: -76.9426 };
+
+/**
+ * Project coordinates to world pixel coordinates at a zoom level
+ */
+export function project(point: EventCoordinates, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((point.latitude * Math.PI) / 180);
+
+  return {
+    x: ((point.longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Inverse of project
+ */
+export function unproject(x: number, y: number, zoom: number): EventCoordinates {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / scale) * 360 - 180,
+  };
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceInMeters(from: EventCoordinates, to: EventCoordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Format a distance for display, e.g. "350 m" or "1.2 km"
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.round(meters / 10) * 10} m`;
+  }
+  return `${(meters / 1000).toFixed(1)} km`;
+}
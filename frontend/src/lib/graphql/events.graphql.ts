@@ -28,12 +28,22 @@ export const EVENT_FRAGMENT = /* GraphQL */ `
     status
     tags
     imageUrl
+    imageVariants {
+      thumbnail
+      hero
+      processedAt
+    }
     createdAt
     updatedAt
     slug
     shareableUrl
     availableSeats
     waitlistAvailable
+    requiresApproval
+    approvalSubmittedAt
+    rejectionReason
+    seriesId
+    occurrenceIndex
   }
 `;
 
@@ -79,8 +89,8 @@ export const CREATE_EVENT = /* GraphQL */ `
 `;
 
 export const UPDATE_EVENT = /* GraphQL */ `
-  mutation UpdateEvent($id: ID!, $input: UpdateEventInput!) {
-    updateEvent(id: $id, input: $input) {
+  mutation UpdateEvent($id: ID!, $input: UpdateEventInput!, $scope: SeriesEditScope) {
+    updateEvent(id: $id, input: $input, scope: $scope) {
       ...EventFields
     }
   }
@@ -88,8 +98,8 @@ export const UPDATE_EVENT = /* GraphQL */ `
 `;
 
 export const DELETE_EVENT = /* GraphQL */ `
-  mutation DeleteEvent($id: ID!) {
-    deleteEvent(id: $id) {
+  mutation DeleteEvent($id: ID!, $scope: SeriesEditScope) {
+    deleteEvent(id: $id, scope: $scope) {
       ...EventFields
     }
   }
@@ -97,14 +107,88 @@ export const DELETE_EVENT = /* GraphQL */ `
 `;
 
 export const PUBLISH_EVENT = /* GraphQL */ `
-  mutation PublishEvent($id: ID!) {
-    publishEvent(id: $id) {
+  mutation PublishEvent($id: ID!, $scope: SeriesEditScope) {
+    publishEvent(id: $id, scope: $scope) {
+      ...EventFields
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+export const SUBMIT_EVENT_FOR_APPROVAL = /* GraphQL */ `
+  mutation SubmitEventForApproval($id: ID!, $scope: SeriesEditScope) {
+    submitEventForApproval(id: $id, scope: $scope) {
+      ...EventFields
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+export const APPROVE_EVENT = /* GraphQL */ `
+  mutation ApproveEvent($id: ID!, $comment: String, $scope: SeriesEditScope) {
+    approveEvent(id: $id, comment: $comment, scope: $scope) {
       ...EventFields
     }
   }
   ${EVENT_FRAGMENT}
 `;
 
+export const REJECT_EVENT = /* GraphQL */ `
+  mutation RejectEvent($id: ID!, $reason: String!, $scope: SeriesEditScope) {
+    rejectEvent(id: $id, reason: $reason, scope: $scope) {
+      ...EventFields
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+// Image Upload
+export const REQUEST_EVENT_IMAGE_UPLOAD = /* GraphQL */ `
+  mutation RequestEventImageUpload($eventId: ID!, $contentType: String!, $scope: SeriesEditScope) {
+    requestEventImageUpload(eventId: $eventId, contentType: $contentType, scope: $scope) {
+      url
+      fields
+      key
+      expiresAt
+      maxBytes
+    }
+  }
+`;
+
+// Approval Queries
+export const LIST_PENDING_APPROVALS = /* GraphQL */ `
+  query ListPendingApprovals($limit: Int, $nextToken: String) {
+    listPendingApprovals(limit: $limit, nextToken: $nextToken) {
+      items {
+        event {
+          ...EventFields
+        }
+        submittedBy
+        submittedAt
+        approvalReasons
+      }
+      nextToken
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+export const GET_EVENT_REVIEW_HISTORY = /* GraphQL */ `
+  query GetEventReviewHistory($eventId: ID!) {
+    getEventReviewHistory(eventId: $eventId) {
+      id
+      eventId
+      action
+      actorId
+      comment
+      approvalReasons
+      previousStatus
+      newStatus
+      createdAt
+    }
+  }
+`;
+
 // Subscriptions
 export const ON_EVENT_UPDATE = /* GraphQL */ `
   subscription OnEventUpdate($eventId: ID!) {
@@ -114,3 +198,89 @@ export const ON_EVENT_UPDATE = /* GraphQL */ `
   }
   ${EVENT_FRAGMENT}
 `;
+
+export const GET_EVENT_SERIES = /* GraphQL */ `
+  query GetEventSeries($id: ID!) {
+    getEventSeries(id: $id) {
+      id
+      organizerId
+      title
+      recurrence {
+        frequency
+        interval
+        byWeekday
+        until
+        count
+        exceptions
+      }
+      rrule
+      occurrenceCount
+      occurrences {
+        ...EventFields
+      }
+      createdAt
+      updatedAt
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+const VENUE_BOOKING_FRAGMENT = /* GraphQL */ `
+  fragment VenueBookingFields on VenueBookingSlot {
+    eventId
+    title
+    building
+    room
+    startDateTime
+    endDateTime
+  }
+`;
+
+export const CHECK_VENUE_AVAILABILITY = /* GraphQL */ `
+  query CheckVenueAvailability(
+    $building: String!
+    $room: String!
+    $startDateTime: AWSDateTime!
+    $endDateTime: AWSDateTime!
+    $excludeEventId: ID
+  ) {
+    checkVenueAvailability(
+      building: $building
+      room: $room
+      startDateTime: $startDateTime
+      endDateTime: $endDateTime
+      excludeEventId: $excludeEventId
+    ) {
+      building
+      room
+      available
+      conflicts {
+        ...VenueBookingFields
+      }
+      suggestedSlots {
+        startDateTime
+        endDateTime
+      }
+    }
+  }
+  ${VENUE_BOOKING_FRAGMENT}
+`;
+
+export const LIST_VENUE_BOOKINGS = /* GraphQL */ `
+  query ListVenueBookings(
+    $building: String!
+    $room: String
+    $startDate: AWSDateTime!
+    $endDate: AWSDateTime!
+  ) {
+    listVenueBookings(
+      building: $building
+      room: $room
+      startDate: $startDate
+      endDate: $endDate
+    ) {
+      ...VenueBookingFields
+    }
+  }
+  ${VENUE_BOOKING_FRAGMENT}
+`;
@@ -0,0 +1,137 @@
+/**
+ * Notifications GraphQL Operations
+ * TEMS - Terrapin Events Management System
+ *
+ * Browser push settings: subscribed browsers and per-type opt-in
+ *
+ * IMPORTANT: These queries match the backend GraphQL schema exactly
+ */
+
+// ==================== QUERIES ====================
+
+/**
+ * Push Settings Query
+ * Backend resolver: pushSettings
+ */
+export const GET_PUSH_SETTINGS = `
+  query GetPushSettings {
+    pushSettings {
+      types
+      deviceCount
+    }
+  }
+`;
+
+/**
+ * Delivery Stats Query
+ * Backend resolver: deliveryStats
+ * Without eventId the stats are platform-wide (administrators only)
+ */
+export const GET_DELIVERY_STATS = `
+  query GetDeliveryStats($startDate: AWSDateTime!, $endDate: AWSDateTime!, $eventId: ID) {
+    deliveryStats(startDate: $startDate, endDate: $endDate, eventId: $eventId) {
+      totalSent
+      totalDelivered
+      totalBounced
+      totalFailed
+      deliveryRate
+      byChannel {
+        channel
+        sent
+        failed
+        bounced
+      }
+    }
+  }
+`;
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Register Push Subscription Mutation
+ * Backend resolver: registerPushSubscription
+ */
+export const REGISTER_PUSH_SUBSCRIPTION = `
+  mutation RegisterPushSubscription($input: PushSubscriptionInput!) {
+    registerPushSubscription(input: $input) {
+      types
+      deviceCount
+    }
+  }
+`;
+
+/**
+ * Unregister Push Subscription Mutation
+ * Backend resolver: unregisterPushSubscription
+ */
+export const UNREGISTER_PUSH_SUBSCRIPTION = `
+  mutation UnregisterPushSubscription($endpoint: String!) {
+    unregisterPushSubscription(endpoint: $endpoint) {
+      types
+      deviceCount
+    }
+  }
+`;
+
+/**
+ * Update Push Types Mutation
+ * Backend resolver: updatePushTypes (applies to every subscribed browser)
+ */
+export const UPDATE_PUSH_TYPES = `
+  mutation UpdatePushTypes($types: [NotificationType!]!) {
+    updatePushTypes(types: $types) {
+      types
+      deviceCount
+    }
+  }
+`;
+
+// ==================== TYPE DEFINITIONS ====================
+
+export interface PushSettingsData {
+  types: string[];
+  deviceCount: number;
+}
+
+export interface ChannelDeliveryStatsData {
+  channel: string;
+  sent: number;
+  failed: number;
+  bounced: number;
+}
+
+export interface DeliveryStatsData {
+  totalSent: number;
+  totalDelivered: number;
+  totalBounced: number;
+  totalFailed: number;
+  deliveryRate: number;
+  byChannel: ChannelDeliveryStatsData[];
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+}
+
+export interface GetPushSettingsResult {
+  pushSettings: PushSettingsData;
+}
+
+export interface GetDeliveryStatsResult {
+  deliveryStats: DeliveryStatsData;
+}
+
+export interface RegisterPushSubscriptionResult {
+  registerPushSubscription: PushSettingsData;
+}
+
+export interface UnregisterPushSubscriptionResult {
+  unregisterPushSubscription: PushSettingsData;
+}
+
+export interface UpdatePushTypesResult {
+  updatePushTypes: PushSettingsData;
+}
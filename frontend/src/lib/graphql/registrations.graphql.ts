@@ -133,6 +133,53 @@ export const CHECK_USER_REGISTRATION = /* GraphQL */ `
   ${REGISTRATION_FRAGMENT}
 `;
 
+/**
+ * List registrations for an event (attendee roster)
+ * Organizer/Admin only
+ */
+export const LIST_EVENT_REGISTRATIONS = /* GraphQL */ `
+  query ListEventRegistrations(
+    $eventId: ID!
+    $status: RegistrationStatus
+    $limit: Int
+    $nextToken: String
+  ) {
+    listEventRegistrations(
+      eventId: $eventId
+      status: $status
+      limit: $limit
+      nextToken: $nextToken
+    ) {
+      items {
+        registrationId
+        userId
+        userName
+        userEmail
+        status
+        waitlistPosition
+        promotionDeadline
+        registeredAt
+        attendedAt
+      }
+      nextToken
+    }
+  }
+`;
+
+/**
+ * Get checked-in vs expected counts for an event
+ * Organizer/Admin only - used by the check-in scanner
+ */
+export const GET_CHECK_IN_STATS = /* GraphQL */ `
+  query GetCheckInStats($eventId: ID!) {
+    getCheckInStats(eventId: $eventId) {
+      eventId
+      checkedInCount
+      expectedCount
+    }
+  }
+`;
+
 /**
  * Get event capacity information
  * Used to determine if registration will be waitlisted
@@ -212,8 +259,8 @@ export const DECLINE_PROMOTION = /* GraphQL */ `
  * Organizer/Admin only - marks registration as ATTENDED
  */
 export const CHECK_IN_ATTENDEE = /* GraphQL */ `
-  mutation CheckInAttendee($registrationId: ID!, $qrCode: String!) {
-    checkInAttendee(registrationId: $registrationId, qrCode: $qrCode) {
+  mutation CheckInAttendee($input: CheckInAttendeeInput!) {
+    checkInAttendee(input: $input) {
       ...RegistrationFields
     }
   }
@@ -270,6 +317,197 @@ export const ON_WAITLIST_PROMOTION = /* GraphQL */ `
   ${REGISTRATION_WITH_EVENT_FRAGMENT}
 `;
 
+/**
+ * FEEDBACK OPERATIONS
+ */
+
+/**
+ * Feedback Form Fragment
+ */
+export const FEEDBACK_FORM_FRAGMENT = /* GraphQL */ `
+  fragment FeedbackFormFields on FeedbackForm {
+    eventId
+    eventTitle
+    questions {
+      id
+      type
+      prompt
+      options
+      required
+    }
+    isDefault
+    responseCount
+    acceptingResponsesUntil
+    hasSubmitted
+  }
+`;
+
+/**
+ * Get an event's feedback form
+ * Attendees who checked in and the organizer can read it
+ */
+export const GET_EVENT_FEEDBACK_FORM = /* GraphQL */ `
+  query GetEventFeedbackForm($eventId: ID!) {
+    getEventFeedbackForm(eventId: $eventId) {
+      ...FeedbackFormFields
+    }
+  }
+  ${FEEDBACK_FORM_FRAGMENT}
+`;
+
+/**
+ * Get aggregated feedback for an event (organizer/admin)
+ */
+export const GET_EVENT_FEEDBACK_RESULTS = /* GraphQL */ `
+  query GetEventFeedbackResults($eventId: ID!) {
+    getEventFeedbackResults(eventId: $eventId) {
+      eventId
+      eventTitle
+      responseCount
+      attendedCount
+      averageRating
+      ratingDistribution {
+        value
+        count
+      }
+      questions {
+        questionId
+        type
+        prompt
+        responseCount
+        average
+        distribution {
+          value
+          count
+        }
+        textResponses
+      }
+    }
+  }
+`;
+
+/**
+ * List anonymous feedback responses for CSV export (organizer/admin)
+ */
+export const LIST_EVENT_FEEDBACK_RESPONSES = /* GraphQL */ `
+  query ListEventFeedbackResponses($eventId: ID!) {
+    listEventFeedbackResponses(eventId: $eventId) {
+      submittedAt
+      overallRating
+      answers {
+        questionId
+        rating
+        choice
+        text
+      }
+    }
+  }
+`;
+
+/**
+ * Get an organizer's average attendee rating
+ */
+export const GET_ORGANIZER_RATING = /* GraphQL */ `
+  query GetOrganizerRating($organizerId: ID!) {
+    getOrganizerRating(organizerId: $organizerId) {
+      organizerId
+      averageRating
+      ratingCount
+    }
+  }
+`;
+
+/**
+ * Save the questions of an event's feedback form (organizer/admin)
+ */
+export const SAVE_EVENT_FEEDBACK_FORM = /* GraphQL */ `
+  mutation SaveEventFeedbackForm($eventId: ID!, $questions: [FeedbackQuestionInput!]!) {
+    saveEventFeedbackForm(eventId: $eventId, questions: $questions) {
+      ...FeedbackFormFields
+    }
+  }
+  ${FEEDBACK_FORM_FRAGMENT}
+`;
+
+/**
+ * Submit feedback for an attended event
+ */
+export const SUBMIT_EVENT_FEEDBACK = /* GraphQL */ `
+  mutation SubmitEventFeedback($input: SubmitEventFeedbackInput!) {
+    submitEventFeedback(input: $input) {
+      eventId
+      submittedAt
+    }
+  }
+`;
+
+/**
+ * ANALYTICS OPERATIONS
+ */
+
+/**
+ * Analytics Summary Fields
+ * Selected on both EventAnalytics and OrganizerAnalytics, which share these fields
+ * but are different types (so a fragment can't be used)
+ */
+export const ANALYTICS_SUMMARY_FIELDS = /* GraphQL */ `
+  registrations
+  waitlistAdds
+  waitlistPromotions
+  promotionsAccepted
+  promotionsDeclined
+  promotionsExpired
+  cancellations
+  waitlistCancellations
+  attended
+  noShows
+  waitlistConversionRate
+  cancellationRate
+  checkInRate
+  peakRegistrationHour
+  registrationsByHour {
+    hour
+    count
+  }
+  registrationsOverTime {
+    date
+    registrations
+    waitlistAdds
+    cancellations
+  }
+`;
+
+/**
+ * Get analytics for one event (organizer/admin)
+ */
+export const GET_EVENT_ANALYTICS = /* GraphQL */ `
+  query EventAnalytics($eventId: ID!) {
+    eventAnalytics(eventId: $eventId) {
+      eventId
+      eventTitle
+      capacity
+      updatedAt
+      ${ANALYTICS_SUMMARY_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Get analytics across the current user's events for a period
+ */
+export const GET_ORGANIZER_ANALYTICS = /* GraphQL */ `
+  query OrganizerAnalytics($range: AnalyticsRangeInput!) {
+    organizerAnalytics(range: $range) {
+      organizerId
+      startDate
+      endDate
+      eventsPublished
+      eventsCompleted
+      ${ANALYTICS_SUMMARY_FIELDS}
+    }
+  }
+`;
+
 /**
  * Export all operations for easy importing
  */
@@ -280,6 +518,14 @@ export const registrationQueries = {
   GET_REGISTRATION_STATS,
   CHECK_USER_REGISTRATION,
   GET_EVENT_CAPACITY,
+  LIST_EVENT_REGISTRATIONS,
+  GET_CHECK_IN_STATS,
+  GET_EVENT_FEEDBACK_FORM,
+  GET_EVENT_FEEDBACK_RESULTS,
+  LIST_EVENT_FEEDBACK_RESPONSES,
+  GET_ORGANIZER_RATING,
+  GET_EVENT_ANALYTICS,
+  GET_ORGANIZER_ANALYTICS,
 };
 
 export const registrationMutations = {
@@ -288,6 +534,8 @@ export const registrationMutations = {
   ACCEPT_PROMOTION,
   DECLINE_PROMOTION,
   CHECK_IN_ATTENDEE,
+  SAVE_EVENT_FEEDBACK_FORM,
+  SUBMIT_EVENT_FEEDBACK,
 };
 
 export const registrationSubscriptions = {
@@ -19,6 +19,10 @@ export const EVENT_FRAGMENT = `
       building
       room
       address
+      coordinates {
+        latitude
+        longitude
+      }
     }
     category
     capacity
@@ -32,6 +36,7 @@ export const EVENT_FRAGMENT = `
     shareableUrl
     availableSeats
     waitlistAvailable
+    seriesId
     createdAt
     updatedAt
   }
@@ -47,6 +52,7 @@ export const CALENDAR_EVENT_FRAGMENT = `
     availableSeats
     category
     status
+    seriesId
   }
 `;
 
@@ -67,6 +73,38 @@ export const SEARCH_FACETS_FRAGMENT = `
   }
 `;
 
+export const SAVED_SEARCH_FRAGMENT = `
+  fragment SavedSearchFields on SavedSearch {
+    id
+    name
+    search {
+      query
+      filters {
+        categories
+        locations
+        startDateAfter
+        startDateBefore
+        hasAvailableSeats
+        tags
+        radius {
+          latitude
+          longitude
+          distanceMeters
+        }
+      }
+      sort {
+        field
+        order
+      }
+    }
+    alertsEnabled
+    alertCount
+    lastAlertedAt
+    createdAt
+    updatedAt
+  }
+`;
+
 // ==================== QUERIES ====================
 
 /**
@@ -119,6 +157,114 @@ export const GET_EVENT_BY_SLUG = `
   }
 `;
 
+/**
+ * List Saved Searches Query
+ * Backend resolver: listSavedSearches
+ */
+export const LIST_SAVED_SEARCHES = `
+  ${SAVED_SEARCH_FRAGMENT}
+  
+  query ListSavedSearches {
+    listSavedSearches {
+      ...SavedSearchFields
+    }
+  }
+`;
+
+/**
+ * Recommended Events Query
+ * Backend resolver: recommendedEvents
+ */
+export const RECOMMENDED_EVENTS = `
+  ${EVENT_FRAGMENT}
+  
+  query RecommendedEvents($limit: Int) {
+    recommendedEvents(limit: $limit) {
+      event {
+        ...EventFields
+      }
+      score
+      reason
+    }
+  }
+`;
+
+/**
+ * My Calendar Feed Query
+ * Backend resolver: myCalendarFeed (url is null, it is only returned on creation)
+ */
+export const MY_CALENDAR_FEED = `
+  query MyCalendarFeed {
+    myCalendarFeed {
+      url
+      createdAt
+    }
+  }
+`;
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Save Search Mutation
+ * Backend resolver: saveSearch
+ */
+export const SAVE_SEARCH = `
+  ${SAVED_SEARCH_FRAGMENT}
+  
+  mutation SaveSearch($input: SaveSearchInput!) {
+    saveSearch(input: $input) {
+      ...SavedSearchFields
+    }
+  }
+`;
+
+/**
+ * Update Saved Search Mutation
+ * Backend resolver: updateSavedSearch
+ */
+export const UPDATE_SAVED_SEARCH = `
+  ${SAVED_SEARCH_FRAGMENT}
+  
+  mutation UpdateSavedSearch($id: ID!, $input: UpdateSavedSearchInput!) {
+    updateSavedSearch(id: $id, input: $input) {
+      ...SavedSearchFields
+    }
+  }
+`;
+
+/**
+ * Delete Saved Search Mutation
+ * Backend resolver: deleteSavedSearch
+ */
+export const DELETE_SAVED_SEARCH = `
+  mutation DeleteSavedSearch($id: ID!) {
+    deleteSavedSearch(id: $id)
+  }
+`;
+
+/**
+ * Create Calendar Feed Mutation
+ * Backend resolver: createCalendarFeed (revokes the previous URL)
+ */
+export const CREATE_CALENDAR_FEED = `
+  mutation CreateCalendarFeed {
+    createCalendarFeed {
+      url
+      createdAt
+    }
+  }
+`;
+
+/**
+ * Revoke Calendar Feed Mutation
+ * Backend resolver: revokeCalendarFeed
+ */
+export const REVOKE_CALENDAR_FEED = `
+  mutation RevokeCalendarFeed {
+    revokeCalendarFeed
+  }
+`;
+
 // ==================== TYPE DEFINITIONS ====================
 
 export interface SearchQueryInput {
@@ -135,6 +281,11 @@ export interface SearchFilters {
   startDateBefore?: string;
   hasAvailableSeats?: boolean;
   tags?: string[];
+  radius?: {
+    latitude: number;
+    longitude: number;
+    distanceMeters: number;
+  };
 }
 
 export interface PaginationInput {
@@ -147,6 +298,18 @@ export interface SortInput {
   order: string;
 }
 
+export interface SaveSearchInput {
+  name: string;
+  search: SearchQueryInput;
+  alertsEnabled?: boolean;
+}
+
+export interface UpdateSavedSearchInput {
+  name?: string;
+  search?: SearchQueryInput;
+  alertsEnabled?: boolean;
+}
+
 export interface CalendarEventsInput {
   year: number;
   month: number;
@@ -174,6 +337,7 @@ export interface AdvancedSearchEventsResult {
         building: string;
         room?: string;
         address: string;
+        coordinates?: { latitude: number; longitude: number } | null;
       };
       category: string;
       capacity: number;
@@ -200,6 +364,57 @@ export interface AdvancedSearchEventsResult {
   };
 }
 
+export interface SavedSearchData {
+  id: string;
+  name: string;
+  search: {
+    query: string;
+    filters?: SearchFilters | null;
+    sort?: SortInput | null;
+  };
+  alertsEnabled: boolean;
+  alertCount: number;
+  lastAlertedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ListSavedSearchesResult {
+  listSavedSearches: SavedSearchData[];
+}
+
+export interface SaveSearchResult {
+  saveSearch: SavedSearchData;
+}
+
+export interface UpdateSavedSearchResult {
+  updateSavedSearch: SavedSearchData;
+}
+
+export interface DeleteSavedSearchResult {
+  deleteSavedSearch: boolean;
+}
+
+export interface RecommendedEventsResult {
+  recommendedEvents: Array<{
+    event: AdvancedSearchEventsResult['advancedSearchEvents']['items'][number];
+    score: number;
+    reason: string;
+  }>;
+}
+
+export interface MyCalendarFeedResult {
+  myCalendarFeed: { url: string | null; createdAt: string } | null;
+}
+
+export interface CreateCalendarFeedResult {
+  createCalendarFeed: { url: string; createdAt: string };
+}
+
+export interface RevokeCalendarFeedResult {
+  revokeCalendarFeed: boolean;
+}
+
 export interface GetCalendarEventsResult {
   getCalendarEvents: Array<{
     id: string;
@@ -210,6 +425,7 @@ export interface GetCalendarEventsResult {
     availableSeats: number;
     category: string;
     status: string;
+    seriesId?: string;
   }>;
 }
 
@@ -0,0 +1,344 @@
+/**
+ * Users GraphQL Operations
+ * TEMS - Terrapin Events Management System
+ *
+ * Phone number settings for SMS notifications, organizer
+ * access requests, and user management for the admin console
+ *
+ * IMPORTANT: These queries match the backend GraphQL schema exactly
+ */
+
+import type {
+  AdminUser,
+  AdminUserConnection,
+  AdminUserDetail,
+  AdminAuditLogConnection,
+  OrganizerRequest,
+  OrganizerRequestConnection,
+} from '@/types/admin.types';
+
+// ==================== QUERIES ====================
+
+/**
+ * Current User Phone Query
+ * Backend resolver: getCurrentUser (selects only the SMS fields)
+ */
+export const GET_CURRENT_USER_PHONE = `
+  query GetCurrentUserPhone {
+    getCurrentUser {
+      phoneNumber
+      phoneVerified
+      smsOptedOutAt
+    }
+  }
+`;
+
+const ADMIN_USER_FIELDS = `
+  id
+  email
+  firstName
+  lastName
+  role
+  status
+  suspendedAt
+  suspensionReason
+  createdAt
+  updatedAt
+`;
+
+const ADMIN_AUDIT_ENTRY_FIELDS = `
+  id
+  action
+  targetUserId
+  targetEmail
+  actorId
+  actorEmail
+  previousRole
+  newRole
+  reason
+  createdAt
+`;
+
+/**
+ * Search Users Query
+ * Backend resolver: searchUsers (administrators only)
+ */
+export const SEARCH_USERS = `
+  query SearchUsers($query: String, $role: UserRole, $limit: Int, $nextToken: String) {
+    searchUsers(query: $query, role: $role, limit: $limit, nextToken: $nextToken) {
+      items {
+        ${ADMIN_USER_FIELDS}
+      }
+      nextToken
+    }
+  }
+`;
+
+/**
+ * Admin Get User Query
+ * Backend resolver: adminGetUser (profile, registrations, organized events, audit history)
+ */
+export const ADMIN_GET_USER = `
+  query AdminGetUser($id: ID!) {
+    adminGetUser(id: $id) {
+      user {
+        ${ADMIN_USER_FIELDS}
+      }
+      registrations {
+        registrationId
+        eventId
+        eventTitle
+        status
+        registeredAt
+        attendedAt
+        cancelledAt
+      }
+      events {
+        eventId
+        title
+        status
+        startDateTime
+        capacity
+        registeredCount
+      }
+      auditLog {
+        ${ADMIN_AUDIT_ENTRY_FIELDS}
+      }
+    }
+  }
+`;
+
+/**
+ * Admin Audit Log Query
+ * Backend resolver: listAdminAuditLog (newest first)
+ */
+export const LIST_ADMIN_AUDIT_LOG = `
+  query ListAdminAuditLog($limit: Int, $nextToken: String) {
+    listAdminAuditLog(limit: $limit, nextToken: $nextToken) {
+      items {
+        ${ADMIN_AUDIT_ENTRY_FIELDS}
+      }
+      nextToken
+    }
+  }
+`;
+
+const ORGANIZER_REQUEST_FIELDS = `
+  userId
+  userEmail
+  userName
+  affiliationType
+  affiliation
+  justification
+  status
+  submittedAt
+  reviewedAt
+  decisionNote
+`;
+
+/**
+ * My Organizer Request Query
+ * Backend resolver: myOrganizerRequest (null if the user never asked)
+ */
+export const GET_MY_ORGANIZER_REQUEST = `
+  query MyOrganizerRequest {
+    myOrganizerRequest {
+      ${ORGANIZER_REQUEST_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Organizer Requests Query
+ * Backend resolver: listOrganizerRequests (pending only, oldest first, administrators only)
+ */
+export const LIST_ORGANIZER_REQUESTS = `
+  query ListOrganizerRequests($limit: Int, $nextToken: String) {
+    listOrganizerRequests(limit: $limit, nextToken: $nextToken) {
+      items {
+        ${ORGANIZER_REQUEST_FIELDS}
+      }
+      nextToken
+    }
+  }
+`;
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Start Phone Verification Mutation
+ * Backend resolver: startPhoneVerification (texts a 6-digit code)
+ */
+export const START_PHONE_VERIFICATION = `
+  mutation StartPhoneVerification($phoneNumber: String!) {
+    startPhoneVerification(phoneNumber: $phoneNumber)
+  }
+`;
+
+/**
+ * Confirm Phone Verification Mutation
+ * Backend resolver: confirmPhoneVerification (also turns SMS notifications on)
+ */
+export const CONFIRM_PHONE_VERIFICATION = `
+  mutation ConfirmPhoneVerification($code: String!) {
+    confirmPhoneVerification(code: $code) {
+      phoneNumber
+      phoneVerified
+      smsOptedOutAt
+    }
+  }
+`;
+
+/**
+ * Remove Phone Number Mutation
+ * Backend resolver: removePhoneNumber (also turns SMS notifications off)
+ */
+export const REMOVE_PHONE_NUMBER = `
+  mutation RemovePhoneNumber {
+    removePhoneNumber {
+      phoneNumber
+      phoneVerified
+      smsOptedOutAt
+    }
+  }
+`;
+
+/**
+ * Update User Role Mutation
+ * Backend resolver: updateUserRole (syncs Cognito groups and the profile role)
+ */
+export const UPDATE_USER_ROLE = `
+  mutation UpdateUserRole($userId: ID!, $role: UserRole!, $reason: String) {
+    updateUserRole(userId: $userId, role: $role, reason: $reason) {
+      ${ADMIN_USER_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Suspend User Mutation
+ * Backend resolver: suspendUser (disables sign-in and signs the user out)
+ */
+export const SUSPEND_USER = `
+  mutation SuspendUser($userId: ID!, $reason: String!) {
+    suspendUser(userId: $userId, reason: $reason) {
+      ${ADMIN_USER_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Reactivate User Mutation
+ * Backend resolver: reactivateUser
+ */
+export const REACTIVATE_USER = `
+  mutation ReactivateUser($userId: ID!) {
+    reactivateUser(userId: $userId) {
+      ${ADMIN_USER_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Submit Organizer Request Mutation
+ * Backend resolver: submitOrganizerRequest (participants only)
+ */
+export const SUBMIT_ORGANIZER_REQUEST = `
+  mutation SubmitOrganizerRequest($input: SubmitOrganizerRequestInput!) {
+    submitOrganizerRequest(input: $input) {
+      ${ORGANIZER_REQUEST_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Approve Organizer Request Mutation
+ * Backend resolver: approveOrganizerRequest (grants ORGANIZER and notifies the user)
+ */
+export const APPROVE_ORGANIZER_REQUEST = `
+  mutation ApproveOrganizerRequest($userId: ID!, $comment: String) {
+    approveOrganizerRequest(userId: $userId, comment: $comment) {
+      ${ORGANIZER_REQUEST_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Deny Organizer Request Mutation
+ * Backend resolver: denyOrganizerRequest (notifies the user with the reason)
+ */
+export const DENY_ORGANIZER_REQUEST = `
+  mutation DenyOrganizerRequest($userId: ID!, $reason: String!) {
+    denyOrganizerRequest(userId: $userId, reason: $reason) {
+      ${ORGANIZER_REQUEST_FIELDS}
+    }
+  }
+`;
+
+// ==================== TYPE DEFINITIONS ====================
+
+export interface PhoneFieldsData {
+  phoneNumber: string | null;
+  phoneVerified: boolean | null;
+  smsOptedOutAt: string | null;
+}
+
+export interface GetCurrentUserPhoneResult {
+  getCurrentUser: PhoneFieldsData;
+}
+
+export interface StartPhoneVerificationResult {
+  startPhoneVerification: boolean;
+}
+
+export interface ConfirmPhoneVerificationResult {
+  confirmPhoneVerification: PhoneFieldsData;
+}
+
+export interface RemovePhoneNumberResult {
+  removePhoneNumber: PhoneFieldsData;
+}
+
+export interface SearchUsersResult {
+  searchUsers: AdminUserConnection;
+}
+
+export interface AdminGetUserResult {
+  adminGetUser: AdminUserDetail;
+}
+
+export interface ListAdminAuditLogResult {
+  listAdminAuditLog: AdminAuditLogConnection;
+}
+
+export interface UpdateUserRoleResult {
+  updateUserRole: AdminUser;
+}
+
+export interface SuspendUserResult {
+  suspendUser: AdminUser;
+}
+
+export interface ReactivateUserResult {
+  reactivateUser: AdminUser;
+}
+
+export interface GetMyOrganizerRequestResult {
+  myOrganizerRequest: OrganizerRequest | null;
+}
+
+export interface ListOrganizerRequestsResult {
+  listOrganizerRequests: OrganizerRequestConnection;
+}
+
+export interface SubmitOrganizerRequestResult {
+  submitOrganizerRequest: OrganizerRequest;
+}
+
+export interface ApproveOrganizerRequestResult {
+  approveOrganizerRequest: OrganizerRequest;
+}
+
+export interface DenyOrganizerRequestResult {
+  denyOrganizerRequest: OrganizerRequest;
+}
@@ -0,0 +1,85 @@
+/**
+ * Browser Web Push
+ * TEMS - Terrapin Events Management System
+ *
+ * Registers the push service worker (public/sw.js) and subscribes this
+ * browser with the VAPID public key of the notifications service.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Whether this browser can receive push notifications
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+// VAPID keys are base64url encoded; PushManager wants the raw bytes
+function urlBase64ToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * This browser's current push subscription, if any
+ */
+export async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for permission and subscribe this browser
+ *
+ * @throws Error when push is unsupported or permission is denied
+ */
+export async function subscribeToPush(): Promise<PushSubscription> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!),
+  });
+}
+
+/**
+ * Endpoint and keys in the shape of registerPushSubscription's input
+ */
+export function toSubscriptionInput(subscription: PushSubscription) {
+  const json = subscription.toJSON();
+
+  return {
+    endpoint: subscription.endpoint,
+    p256dh: json.keys?.p256dh ?? '',
+    auth: json.keys?.auth ?? '',
+    userAgent: navigator.userAgent,
+  };
+}
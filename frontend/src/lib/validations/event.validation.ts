@@ -4,7 +4,7 @@
  */
 
 import { z } from 'zod';
-import { EventCategory } from '@/types/event.types';
+import { EventCategory, RecurrenceFrequency, Weekday } from '@/types/event.types';
 
 // Location schema
 export const locationSchema = z.object({
@@ -18,6 +18,19 @@ export const locationSchema = z.object({
   }).optional(),
 });
 
+// Repeat schema (new events only); an empty frequency means a single event
+export const recurrenceSchema = z.object({
+  frequency: z.union([z.nativeEnum(RecurrenceFrequency), z.literal('')]),
+  interval: z.number()
+    .min(1, 'Repeat interval must be at least 1')
+    .max(12, 'Repeat interval cannot exceed 12'),
+  byWeekday: z.array(z.nativeEnum(Weekday)),
+  count: z.number()
+    .min(2, 'A series needs at least 2 occurrences')
+    .max(52, 'A series cannot exceed 52 occurrences'),
+  exceptions: z.array(z.string()),
+});
+
 // Create Event schema
 export const createEventSchema = z.object({
   // Step 1: Basic Info
@@ -34,6 +47,7 @@ export const createEventSchema = z.object({
   // Step 2: Date & Time
   startDateTime: z.string().min(1, 'Start date and time is required'),
   endDateTime: z.string().min(1, 'End date and time is required'),
+  recurrence: recurrenceSchema.optional(),
 
   // Step 3: Location
   location: locationSchema,
@@ -0,0 +1,163 @@
+/**
+ * Admin Console Type Definitions
+ * TEMS - Terrapin Events Management System
+ *
+ * Types for user search, role management, account
+ * suspension, organizer access requests and the admin audit log.
+ */
+
+import { UserRole } from './auth';
+
+export type UserAccountStatus = 'ACTIVE' | 'SUSPENDED';
+
+export type AdminAuditAction =
+  | 'ROLE_CHANGED'
+  | 'USER_SUSPENDED'
+  | 'USER_REACTIVATED'
+  | 'ORGANIZER_REQUEST_DENIED';
+
+export type OrganizerRequestStatus = 'PENDING' | 'APPROVED' | 'DENIED';
+
+export type OrganizerAffiliationType = 'CLUB' | 'DEPARTMENT';
+
+/**
+ * A user account as seen by administrators
+ */
+export interface AdminUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  status: UserAccountStatus;
+  suspendedAt?: string | null;
+  suspensionReason?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminUserConnection {
+  items: AdminUser[];
+  nextToken?: string | null;
+}
+
+/**
+ * One of the user's registrations
+ */
+export interface AdminUserRegistration {
+  registrationId: string;
+  eventId: string;
+  eventTitle: string;
+  status: string;
+  registeredAt: string;
+  attendedAt?: string | null;
+  cancelledAt?: string | null;
+}
+
+/**
+ * An event the user organizes
+ */
+export interface AdminUserEvent {
+  eventId: string;
+  title: string;
+  status: string;
+  startDateTime: string;
+  capacity: number;
+  registeredCount: number;
+}
+
+/**
+ * A role change or suspension, with who made it
+ */
+export interface AdminAuditEntry {
+  id: string;
+  action: AdminAuditAction;
+  targetUserId: string;
+  targetEmail: string;
+  actorId: string;
+  actorEmail: string;
+  previousRole?: UserRole | null;
+  newRole?: UserRole | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+export interface AdminAuditLogConnection {
+  items: AdminAuditEntry[];
+  nextToken?: string | null;
+}
+
+export interface AdminUserDetail {
+  user: AdminUser;
+  registrations: AdminUserRegistration[];
+  events: AdminUserEvent[];
+  auditLog: AdminAuditEntry[];
+}
+
+/**
+ * A participant's request to become an organizer
+ */
+export interface OrganizerRequest {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  affiliationType: OrganizerAffiliationType;
+  affiliation: string;
+  justification: string;
+  status: OrganizerRequestStatus;
+  submittedAt: string;
+  reviewedAt?: string | null;
+  decisionNote?: string | null;
+}
+
+export interface OrganizerRequestConnection {
+  items: OrganizerRequest[];
+  nextToken?: string | null;
+}
+
+export interface SubmitOrganizerRequestInput {
+  affiliationType: OrganizerAffiliationType;
+  affiliation: string;
+  justification: string;
+}
+
+/**
+ * Display labels
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.PARTICIPANT]: 'Participant',
+  [UserRole.ORGANIZER]: 'Organizer',
+  [UserRole.ADMINISTRATOR]: 'Administrator',
+  [UserRole.SUPER_ADMIN]: 'Super Admin',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AdminAuditAction, string> = {
+  ROLE_CHANGED: 'Role changed',
+  USER_SUSPENDED: 'Suspended',
+  USER_REACTIVATED: 'Reactivated',
+  ORGANIZER_REQUEST_DENIED: 'Organizer request denied',
+};
+
+export const AFFILIATION_TYPE_LABELS: Record<OrganizerAffiliationType, string> = {
+  CLUB: 'Student club or organization',
+  DEPARTMENT: 'Academic or administrative department',
+};
+
+/**
+ * Roles the current user may grant or revoke
+ * Mirrors the backend guard: only super admins touch admin roles
+ */
+export function getAssignableRoles(actorRole: UserRole): UserRole[] {
+  if (actorRole === UserRole.SUPER_ADMIN) {
+    return Object.values(UserRole);
+  }
+  return [UserRole.PARTICIPANT, UserRole.ORGANIZER];
+}
+
+/**
+ * Whether the current user can change this account's role or status
+ */
+export function canManageUser(actor: { userId: string; role: UserRole }, target: AdminUser): boolean {
+  if (actor.userId === target.id) return false;
+  return getAssignableRoles(actor.role).includes(target.role);
+}
@@ -0,0 +1,92 @@
+/**
+ * Analytics Type Definitions
+ * TEMS - Terrapin Events Management System
+ *
+ * Types for organizer analytics: registration, waitlist
+ * and attendance counters aggregated per event and per day.
+ */
+
+/**
+ * Sign-ups in one hour of the day
+ */
+export interface HourlyCount {
+  hour: number;
+  count: number;
+}
+
+/**
+ * One day of registration activity
+ */
+export interface DailyAnalytics {
+  date: string; // yyyy-mm-dd
+  registrations: number;
+  waitlistAdds: number;
+  cancellations: number;
+}
+
+/**
+ * Totals and rates shared by event and organizer analytics
+ * Rates are between 0 and 1, or null when there is nothing to measure yet
+ */
+export interface AnalyticsSummary {
+  registrations: number;
+  waitlistAdds: number;
+  waitlistPromotions: number;
+  promotionsAccepted: number;
+  promotionsDeclined: number;
+  promotionsExpired: number;
+  cancellations: number;
+  waitlistCancellations: number;
+  attended: number;
+  noShows: number;
+  waitlistConversionRate?: number | null;
+  cancellationRate?: number | null;
+  checkInRate?: number | null;
+  peakRegistrationHour?: number | null;
+  registrationsByHour: HourlyCount[];
+  registrationsOverTime: DailyAnalytics[];
+}
+
+/**
+ * Analytics for a single event
+ */
+export interface EventAnalytics extends AnalyticsSummary {
+  eventId: string;
+  eventTitle: string;
+  capacity: number;
+  updatedAt?: string | null;
+}
+
+/**
+ * Inclusive date range (yyyy-mm-dd)
+ */
+export interface AnalyticsRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Analytics across all of an organizer's events for a period
+ */
+export interface OrganizerAnalytics extends AnalyticsSummary {
+  organizerId: string;
+  startDate: string;
+  endDate: string;
+  eventsPublished: number;
+  eventsCompleted: number;
+}
+
+/**
+ * Display a 0-1 rate as a percentage
+ */
+export function formatRate(rate?: number | null): string {
+  return rate === null || rate === undefined ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Display an hour of the day, e.g. 13 -> "1 PM"
+ */
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
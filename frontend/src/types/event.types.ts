@@ -33,6 +33,13 @@ export interface EventLocation {
   coordinates?: EventCoordinates;
 }
 
+// Resized copies of an uploaded image (imageUrl is the hero)
+export interface EventImageVariants {
+  thumbnail: string;
+  hero: string;
+  processedAt: string;
+}
+
 export interface Event {
   id: string;
   title: string;
@@ -48,12 +55,18 @@ export interface Event {
   status: EventStatus;
   tags: string[];
   imageUrl?: string;
+  imageVariants?: EventImageVariants;
   createdAt: string;
   updatedAt: string;
   slug?: string;
   shareableUrl?: string;
   availableSeats?: number;
   waitlistAvailable?: boolean;
+  requiresApproval?: boolean;
+  approvalSubmittedAt?: string;
+  rejectionReason?: string;
+  seriesId?: string;
+  occurrenceIndex?: number;
 }
 
 export interface CreateEventInput {
@@ -68,6 +81,74 @@ export interface CreateEventInput {
   capacity: number;
   tags?: string[];
   imageUrl?: string;
+  recurrence?: RecurrenceRuleInput;
+}
+
+// Recurring series
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY'
+}
+
+export enum Weekday {
+  MO = 'MO',
+  TU = 'TU',
+  WE = 'WE',
+  TH = 'TH',
+  FR = 'FR',
+  SA = 'SA',
+  SU = 'SU'
+}
+
+export enum SeriesEditScope {
+  THIS_OCCURRENCE = 'THIS_OCCURRENCE',
+  THIS_AND_FOLLOWING = 'THIS_AND_FOLLOWING',
+  ALL_OCCURRENCES = 'ALL_OCCURRENCES'
+}
+
+export interface RecurrenceRuleInput {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byWeekday?: Weekday[];
+  until?: string;
+  count?: number;
+  exceptions?: string[]; // YYYY-MM-DD
+}
+
+export interface EventSeries {
+  id: string;
+  organizerId: string;
+  title: string;
+  recurrence: RecurrenceRuleInput;
+  rrule: string;
+  occurrenceCount: number;
+  occurrences: Event[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Venue availability
+export interface VenueBookingSlot {
+  eventId: string;
+  title: string | null;
+  building: string;
+  room: string;
+  startDateTime: string;
+  endDateTime: string;
+}
+
+export interface TimeSlot {
+  startDateTime: string;
+  endDateTime: string;
+}
+
+export interface VenueAvailability {
+  building: string;
+  room: string;
+  available: boolean;
+  conflicts: VenueBookingSlot[];
+  suggestedSlots: TimeSlot[];
 }
 
 export interface UpdateEventInput {
@@ -85,6 +166,15 @@ export interface UpdateEventInput {
   status?: EventStatus;
 }
 
+// Presigned POST returned by requestEventImageUpload
+export interface ImageUploadTarget {
+  url: string;
+  fields: Record<string, string>;
+  key: string;
+  expiresAt: string;
+  maxBytes: number;
+}
+
 export interface EventFilter {
   category?: EventCategory;
   status?: EventStatus;
@@ -97,6 +187,33 @@ export interface EventConnection {
   nextToken: string | null;
 }
 
+// Approval workflow
+export type EventReviewAction = 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+export interface EventReview {
+  id: string;
+  eventId: string;
+  action: EventReviewAction;
+  actorId: string;
+  comment?: string;
+  approvalReasons?: string[];
+  previousStatus: EventStatus;
+  newStatus: EventStatus;
+  createdAt: string;
+}
+
+export interface ApprovalQueueItem {
+  event: Event;
+  submittedBy: string;
+  submittedAt: string;
+  approvalReasons: string[];
+}
+
+export interface ApprovalQueueConnection {
+  items: ApprovalQueueItem[];
+  nextToken: string | null;
+}
+
 // Helper functions
 export function getEventStatusColor(status: EventStatus): string {
   const colors: Record<EventStatus, string> = {
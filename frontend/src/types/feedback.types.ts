@@ -0,0 +1,133 @@
+/**
+ * Feedback Type Definitions
+ * TEMS - Terrapin Events Management System
+ *
+ * Types for post-event feedback: organizer-defined forms,
+ * attendee responses and aggregated results.
+ */
+
+/**
+ * Kinds of questions a feedback form can ask
+ */
+export enum FeedbackQuestionType {
+  /** 1-5 stars */
+  RATING = 'RATING',
+
+  /** One of the question's options */
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
+
+  /** Free text */
+  TEXT = 'TEXT',
+}
+
+export interface FeedbackQuestion {
+  id: string;
+  type: FeedbackQuestionType;
+  prompt: string;
+  options?: string[] | null;
+  required: boolean;
+}
+
+/**
+ * An event's feedback form
+ * The overall 1-5 rating is always asked and is not part of questions
+ */
+export interface FeedbackForm {
+  eventId: string;
+  eventTitle: string;
+  questions: FeedbackQuestion[];
+  isDefault: boolean;
+  responseCount: number;
+  acceptingResponsesUntil: string;
+  hasSubmitted: boolean;
+}
+
+/**
+ * Question as edited by the organizer (id is generated for new questions)
+ */
+export interface FeedbackQuestionInput {
+  id?: string;
+  type: FeedbackQuestionType;
+  prompt: string;
+  options?: string[];
+  required: boolean;
+}
+
+/**
+ * Answer to one question; only the field matching the question type is set
+ */
+export interface FeedbackAnswer {
+  questionId: string;
+  rating?: number | null;
+  choice?: string | null;
+  text?: string | null;
+}
+
+export interface SubmitEventFeedbackInput {
+  eventId: string;
+  overallRating: number;
+  answers: FeedbackAnswer[];
+}
+
+export interface SubmitEventFeedbackResult {
+  eventId: string;
+  submittedAt: string;
+}
+
+/**
+ * Anonymous response row (organizer CSV export)
+ */
+export interface FeedbackResponse {
+  submittedAt: string;
+  overallRating: number;
+  answers: FeedbackAnswer[];
+}
+
+export interface FeedbackDistributionEntry {
+  value: string;
+  count: number;
+}
+
+export interface FeedbackQuestionResult {
+  questionId: string;
+  type: FeedbackQuestionType;
+  prompt: string;
+  responseCount: number;
+  average?: number | null;
+  distribution: FeedbackDistributionEntry[];
+  textResponses: string[];
+}
+
+/**
+ * Aggregated feedback for an event (organizer/admin)
+ */
+export interface FeedbackResults {
+  eventId: string;
+  eventTitle: string;
+  responseCount: number;
+  attendedCount: number;
+  averageRating?: number | null;
+  ratingDistribution: FeedbackDistributionEntry[];
+  questions: FeedbackQuestionResult[];
+}
+
+/**
+ * Average overall rating across all of an organizer's events
+ */
+export interface OrganizerRating {
+  organizerId: string;
+  averageRating?: number | null;
+  ratingCount: number;
+}
+
+/**
+ * Display label for a question type
+ */
+export function getFeedbackQuestionTypeText(type: FeedbackQuestionType): string {
+  const labels: Record<FeedbackQuestionType, string> = {
+    [FeedbackQuestionType.RATING]: 'Rating (1-5)',
+    [FeedbackQuestionType.MULTIPLE_CHOICE]: 'Multiple choice',
+    [FeedbackQuestionType.TEXT]: 'Free text',
+  };
+  return labels[type];
+}
@@ -94,8 +94,35 @@ export interface CheckInAttendeeInput {
   /** Registration ID */
   registrationId: string;
   
-  /** QR code value to verify */
-  qrCode: string;
+  /** Signed QR code payload to verify */
+  qrCodeData: string;
+  
+  /** Event being scanned for - tickets for other events are rejected */
+  eventId?: string;
+  
+  /** When the ticket was scanned (set for scans queued while offline) */
+  scannedAt?: string;
+}
+
+/**
+ * Payload encoded in a registration QR code
+ * Signed by the backend, verified on check-in
+ */
+export interface QRCodePayload {
+  registrationId: string;
+  eventId: string;
+  userId: string;
+  timestamp: string;
+  signature: string;
+}
+
+/**
+ * Checked-in vs expected attendee counts for an event
+ */
+export interface CheckInStats {
+  eventId: string;
+  checkedInCount: number;
+  expectedCount: number;
 }
 
 /**
@@ -120,6 +147,47 @@ export interface RegistrationConnection {
   nextToken: string | null;
 }
 
+/**
+ * Attendee roster entry
+ * Registration as seen by the event organizer
+ */
+export interface RosterEntry {
+  registrationId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  status: RegistrationStatus;
+  waitlistPosition?: number | null;
+  promotionDeadline?: string | null;
+  registeredAt: string;
+  attendedAt?: string | null;
+}
+
+/**
+ * Roster connection for paginated results
+ */
+export interface RosterConnection {
+  items: RosterEntry[];
+  nextToken: string | null;
+}
+
+/**
+ * Input type for listing an event's registrations (organizer/admin)
+ */
+export interface ListEventRegistrationsInput {
+  /** Event whose roster to list */
+  eventId: string;
+  
+  /** Filter by status (optional) */
+  status?: RegistrationStatus;
+  
+  /** Pagination limit */
+  limit?: number;
+  
+  /** Pagination token */
+  nextToken?: string;
+}
+
 /**
  * Event capacity information
  * Used to determine if user can register or will be waitlisted
@@ -261,6 +329,26 @@ export function getPromotionTimeRemaining(registration: Registration): string |
   return `${minutes}m`;
 }
 
+/**
+ * Parse a scanned QR code into its payload
+ * Returns null if the text is not a TEMS ticket
+ */
+export function parseQRCodePayload(text: string): QRCodePayload | null {
+  try {
+    const data = JSON.parse(text);
+    if (
+      typeof data?.registrationId === 'string' &&
+      typeof data?.eventId === 'string' &&
+      typeof data?.signature === 'string'
+    ) {
+      return data as QRCodePayload;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Generate idempotency key for registration
  * Format: userId-eventId-timestamp
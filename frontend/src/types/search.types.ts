@@ -17,6 +17,16 @@ export interface SearchFilters {
   locations?: string[];
   availability?: 'ALL' | 'AVAILABLE' | 'WAITLIST';
   organizers?: string[];
+  radius?: GeoRadiusFilter;
+}
+
+/**
+ * Circle around a point (max 20 km); events without coordinates never match
+ */
+export interface GeoRadiusFilter {
+  latitude: number;
+  longitude: number;
+  distanceMeters: number;
 }
 
 export interface DateRangeFilter {
@@ -25,7 +35,7 @@ export interface DateRangeFilter {
 }
 
 export interface SortInput {
-  field: 'startDateTime' | 'title' | 'availableSeats';
+  field: 'startDateTime' | 'title' | 'availableSeats' | 'distance'; // distance requires a radius filter
   order: 'asc' | 'desc';
 }
 
@@ -51,6 +61,7 @@ export interface EventSearchItem {
     imageUrl?: string;
     createdAt: string;
     updatedAt: string;
+    seriesId?: string;
 }
 
 export interface SearchResult {
@@ -72,7 +83,31 @@ export interface AggregationBucket {
   count: number;
 }
 
+// Saved Searches
+export interface SavedSearch {
+  id: string;
+  name: string;
+  search: SearchQuery; // Without pagination
+  alertsEnabled: boolean;
+  alertCount: number;
+  lastAlertedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Recommendations
+export interface RecommendedEvent {
+  event: EventSearchItem;
+  score: number;
+  reason: string; // e.g. "Because you attended Intro to Robotics"
+}
+
 // Calendar Types
+export interface CalendarFeed {
+  url?: string | null; // Secret: anyone with it can read the feed. Only returned on creation
+  createdAt: string;
+}
+
 export interface CalendarEvent {
   id: string;
   title: string;
@@ -84,6 +119,7 @@ export interface CalendarEvent {
     availableSeats: number;
     category: EventCategory;
     status: EventStatus;
+    seriesId?: string;
   };
 }
 